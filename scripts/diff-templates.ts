@@ -0,0 +1,21 @@
+// Compare two template files and print a changelog with the recommended semver bump.
+// Usage: bun run scripts/diff-templates.ts <from.json> <to.json>
+// Exits with status 1 when the declared version bump is smaller than the recommended one.
+
+import { readFileSync } from 'node:fs';
+import type { NoteTemplate } from '../src/derivation/types';
+import { diffTemplates, formatChangelog } from '../src/diff';
+
+function readTemplate(path: string): NoteTemplate {
+  return JSON.parse(readFileSync(path, 'utf8')) as NoteTemplate;
+}
+
+const [fromPath, toPath] = process.argv.slice(2);
+if (!fromPath || !toPath) {
+  console.error('Usage: bun run scripts/diff-templates.ts <from.json> <to.json>');
+  process.exit(2);
+}
+
+const diff = diffTemplates(readTemplate(fromPath), readTemplate(toPath));
+process.stdout.write(formatChangelog(diff));
+process.exit(diff.bumpSufficient ? 0 : 1);
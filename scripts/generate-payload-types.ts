@@ -0,0 +1,51 @@
+// Generate AIS/NAS/RPS payload interfaces for a template as a .d.ts module.
+// Usage: bun run scripts/generate-payload-types.ts <template.json> [--out <file.d.ts>] [--name <TypePrefix>]
+// Prints to stdout unless --out is given; the import of TypedNoteTemplate is made relative to the output file.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, relative, resolve } from 'node:path';
+import { generatePayloadTypes } from '../src/codegen';
+import type { NoteTemplate } from '../src/derivation/types';
+import { validateNoteTemplate } from '../src/validation';
+
+const PAYLOADS_MODULE = resolve(import.meta.dir, '../src/types/payloads');
+
+function readOption(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+function importFrom(outPath: string): string {
+  const specifier = relative(dirname(resolve(outPath)), PAYLOADS_MODULE).replace(/\\/g, '/');
+  return specifier.startsWith('.') ? specifier : `./${specifier}`;
+}
+
+const args = process.argv.slice(2);
+const [templatePath] = args;
+const outPath = readOption(args, '--out');
+if (!templatePath || templatePath.startsWith('--')) {
+  console.error('Usage: bun run scripts/generate-payload-types.ts <template.json> [--out <file.d.ts>] [--name <TypePrefix>]');
+  process.exit(2);
+}
+
+const template = JSON.parse(readFileSync(templatePath, 'utf8')) as NoteTemplate;
+const validation = validateNoteTemplate(template);
+if (!validation.ok) {
+  console.error(`${templatePath} is not a valid note template:`);
+  for (const error of validation.errors ?? []) {
+    console.error(`  ${error.instancePath || '/'} ${error.message ?? ''}`);
+  }
+  process.exit(1);
+}
+
+const { names, source } = generatePayloadTypes(template, {
+  typeName: readOption(args, '--name'),
+  payloadsImport: outPath ? importFrom(outPath) : undefined,
+});
+
+if (outPath) {
+  writeFileSync(outPath, source);
+  console.error(`Wrote ${names.ais}, ${names.nas}, ${names.rps}, and ${names.template} to ${outPath}`);
+} else {
+  process.stdout.write(source);
+}
@@ -0,0 +1,39 @@
+// Upgrade stored template files to the current note-template schema version.
+// Usage: bun run scripts/migrate-templates.ts [--write] <template.json>...
+// Without --write this is a dry run that only prints what each migration would change.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import type { NoteTemplate } from '../src/derivation/types';
+import { upgradeTemplate } from '../src/migration';
+import type { MigrationReport } from '../src/migration';
+
+function formatReport(path: string, report: MigrationReport): string {
+  if (report.applied.length === 0) {
+    return `${path}: already at schema version ${report.toVersion}\n`;
+  }
+
+  const verb = report.dryRun ? 'would upgrade' : 'upgraded';
+  const lines = [`${path}: ${verb} schema version ${report.fromVersion} -> ${report.toVersion}`];
+  for (const change of report.changes) {
+    lines.push(`  [${change.migration}] ${change.path}: ${change.message}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+const args = process.argv.slice(2);
+const write = args.includes('--write');
+const paths = args.filter(arg => arg !== '--write');
+if (paths.length === 0) {
+  console.error('Usage: bun run scripts/migrate-templates.ts [--write] <template.json>...');
+  process.exit(2);
+}
+
+for (const path of paths) {
+  const source = JSON.parse(readFileSync(path, 'utf8')) as NoteTemplate;
+  const { template, report } = upgradeTemplate(source, { dryRun: !write });
+  process.stdout.write(formatReport(path, report));
+
+  if (write && report.applied.length > 0) {
+    writeFileSync(path, `${JSON.stringify(template, null, 2)}\n`);
+  }
+}
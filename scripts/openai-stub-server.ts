@@ -0,0 +1,59 @@
+#!/usr/bin/env bun
+
+/**
+ * Local OpenAI stub server for offline pipeline runs.
+ *
+ * Usage:
+ *   bun run stub:openai                         # listens on 127.0.0.1:4010
+ *   STUB_PORT=5000 STUB_SCRIPT=429,empty bun run stub:openai
+ *
+ * Then point any script at it:
+ *   OPENAI_BASE_URL=http://127.0.0.1:4010/v1 OPENAI_API_KEY=stub bun run src/tests/test-pipeline.ts
+ *
+ * STUB_SCRIPT is a comma-separated list of failures served before synthesized
+ * replies: 429, 500, refusal, empty, malformed.
+ */
+
+import { createOpenAIStubServer } from '../src/integration';
+import type { OpenAIStubStep } from '../src/integration';
+
+const DEFAULT_PORT = 4010;
+
+const STEP_ALIASES: Record<string, OpenAIStubStep> = {
+  '429': { status: 429, retryAfter: 1 },
+  '500': { status: 500 },
+  refusal: { refusal: 'I cannot help with that request.' },
+  empty: { text: '' },
+  malformed: { text: '{"truncated": ' },
+};
+
+function parseScript(value: string | undefined): OpenAIStubStep[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const step = STEP_ALIASES[entry];
+      if (!step) {
+        throw new Error(`Unknown STUB_SCRIPT step "${entry}". Use: ${Object.keys(STEP_ALIASES).join(', ')}`);
+      }
+      return step;
+    });
+}
+
+const server = createOpenAIStubServer({
+  port: Number(process.env.STUB_PORT ?? DEFAULT_PORT),
+  hostname: process.env.STUB_HOST,
+  steps: parseScript(process.env.STUB_SCRIPT),
+});
+
+console.log(`OpenAI stub listening on ${server.url}`);
+console.log(`  export OPENAI_BASE_URL=${server.baseURL} OPENAI_API_KEY=stub`);
+
+process.on('SIGINT', () => {
+  void server.stop().then(() => process.exit(0));
+});
@@ -0,0 +1,89 @@
+// Generated from template progress-note@1.2.0 by `bun run codegen:types`. Do not edit by hand.
+
+import type { TemplatePayloads, TypedNoteTemplate } from '../../../types/payloads';
+
+/** AI-generated fields for Progress Note */
+export interface ProgressNoteAIPayload {
+  assessment: {
+    /**
+     * Clinical summary of the session.
+     *
+     * Guidance:
+     * - Summarize the session.
+     * - Avoid *\/ in notes.
+     */
+    summary: string;
+    /**
+     * Guidance:
+     * - Rate current risk.
+     */
+    risk: "low" | "moderate" | "high";
+    followUp: string | null;
+  };
+  plan: {
+    /**
+     * Guidance:
+     * - One action per step.
+     */
+    steps: string[];
+  };
+  dx: {
+    rows: Array<{
+      /** ICD-10 code. */
+      code: string;
+      description: string;
+    }>;
+  };
+}
+
+/** Non-AI fields (lookup/computed/static/verbatim) for Progress Note */
+export interface ProgressNoteNasSnapshot {
+  patient?: {
+    /** Legal name from the chart. */
+    name?: string;
+  };
+}
+
+/** Final payload schema (AIS ∪ NAS) for Progress Note */
+export interface ProgressNoteRenderPayload {
+  assessment: {
+    /**
+     * Clinical summary of the session.
+     *
+     * Guidance:
+     * - Summarize the session.
+     * - Avoid *\/ in notes.
+     */
+    summary: string;
+    /**
+     * Guidance:
+     * - Rate current risk.
+     */
+    risk: "low" | "moderate" | "high";
+    followUp: string | null;
+  };
+  plan: {
+    /**
+     * Guidance:
+     * - One action per step.
+     */
+    steps: string[];
+  };
+  dx: {
+    rows: Array<{
+      /** ICD-10 code. */
+      code: string;
+      description: string;
+    }>;
+  };
+  patient?: {
+    /** Legal name from the chart. */
+    name?: string;
+  };
+}
+
+/** Payload types of progress-note@1.2.0 */
+export type ProgressNotePayloads = TemplatePayloads<ProgressNoteAIPayload, ProgressNoteNasSnapshot, ProgressNoteRenderPayload>;
+
+/** Progress Note template; pass it to runPipeline for typed payloads */
+export type ProgressNoteTemplate = TypedNoteTemplate<ProgressNotePayloads>;
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { NoteTemplate } from '../../derivation/types';
+import { runPipeline, type PipelineOptions } from '../../pipeline';
+import { generatePayloadTypes, getPayloadTypeNames } from '..';
+import type { ProgressNoteTemplate } from './fixtures/progress-note.payloads';
+
+const FIXTURE_PATH = join(import.meta.dir, 'fixtures/progress-note.payloads.d.ts');
+
+const template: NoteTemplate = {
+  id: 'progress-note',
+  name: 'Progress Note',
+  version: '1.2.0',
+  style: { font: 'Inter', color: '#111111', accent: '#3366FF', spacing: 8 },
+  prompt: { system: 'You are a clinical assistant.', main: 'Write the progress note.' },
+  layout: [
+    {
+      id: 'header',
+      type: 'header',
+      content: [
+        {
+          id: 'patient-name',
+          slot: 'lookup',
+          targetPath: 'patient.name',
+          lookup: 'patient.name',
+          description: 'Legal name from the chart.',
+        },
+      ],
+    },
+    {
+      id: 'assessment',
+      type: 'section',
+      title: 'Assessment',
+      content: [
+        {
+          id: 'assessment-summary',
+          slot: 'ai',
+          outputPath: 'assessment.summary',
+          aiDeps: ['patient.name'],
+          description: 'Clinical summary of the session.',
+          guidance: ['Summarize the session.', 'Avoid */ in notes.'],
+        },
+        {
+          id: 'assessment-risk',
+          slot: 'ai',
+          outputPath: 'assessment.risk',
+          aiDeps: ['patient.name'],
+          constraints: { enum: ['low', 'moderate', 'high'] },
+          guidance: ['Rate current risk.'],
+        },
+        {
+          id: 'assessment-follow-up',
+          slot: 'ai',
+          outputPath: 'assessment.followUp',
+          aiDeps: ['patient.name'],
+          showIf: 'patient.name',
+        },
+      ],
+    },
+    {
+      id: 'plan',
+      type: 'list',
+      title: 'Plan',
+      content: [
+        {
+          id: 'plan-steps',
+          slot: 'ai',
+          outputPath: 'plan.steps[]',
+          aiDeps: ['patient.name'],
+          guidance: ['One action per step.'],
+        },
+      ],
+    },
+    {
+      id: 'diagnoses',
+      type: 'table',
+      props: { columns: ['Code', 'Description'] },
+      content: [
+        {
+          id: 'diagnosis-rows',
+          slot: 'ai',
+          outputPath: 'dx.rows[]',
+          aiDeps: ['patient.name'],
+          tableMap: [
+            { id: 'dx-code', slot: 'ai', outputPath: 'dx.rows[].code', aiDeps: ['patient.name'], description: 'ICD-10 code.' },
+            { id: 'dx-text', slot: 'ai', outputPath: 'dx.rows[].description', aiDeps: ['patient.name'] },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const aiOutput = {
+  assessment: { summary: 'Mood is stable.', risk: 'moderate', followUp: null },
+  plan: { steps: ['Continue weekly sessions.'] },
+  dx: { rows: [{ code: 'F41.1', description: 'Generalized anxiety disorder' }] },
+};
+
+const openaiClient = {
+  responses: {
+    create: async () => ({
+      id: 'resp-codegen-001',
+      object: 'response',
+      created: Date.now(),
+      model: 'mock-gpt',
+      status: 'completed',
+      output: [],
+      output_text: JSON.stringify(aiOutput),
+      usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+      prompt: {},
+    }),
+  },
+} as unknown as PipelineOptions['openaiClient'];
+
+describe('generatePayloadTypes', () => {
+  it('emits the checked-in declarations for the fixture template', () => {
+    const { names, source } = generatePayloadTypes(template, { payloadsImport: '../../../types/payloads' });
+
+    expect(names).toEqual(getPayloadTypeNames(template));
+    expect(names.template).toBe('ProgressNoteTemplate');
+    expect(source).toBe(readFileSync(FIXTURE_PATH, 'utf8'));
+  });
+
+  it('renders docs, enum unions, nullable showIf fields, and arrays of objects', () => {
+    const { source } = generatePayloadTypes(template, { typeName: 'Note' });
+
+    expect(source).toContain("from '../types/payloads';");
+    expect(source).toContain(
+      [
+        '    /**',
+        '     * Clinical summary of the session.',
+        '     *',
+        '     * Guidance:',
+        '     * - Summarize the session.',
+        '     * - Avoid *\\/ in notes.',
+        '     */',
+        '    summary: string;',
+      ].join('\n')
+    );
+    expect(source).toContain('    /**\n     * Guidance:\n     * - Rate current risk.\n     */\n    risk: "low" | "moderate" | "high";');
+    expect(source).toContain('    followUp: string | null;');
+    expect(source).toContain('    steps: string[];');
+    expect(source).toContain('    rows: Array<{\n      /** ICD-10 code. */\n      code: string;');
+    expect(source).toContain('    /** Legal name from the chart. */\n    name?: string;');
+    expect(source).toContain('export type NotePayloads = TemplatePayloads<NoteAIPayload, NoteNasSnapshot, NoteRenderPayload>;');
+  });
+
+  it('types runPipeline payloads when the template carries its generated types', async () => {
+    const result = await runPipeline({
+      template: template as ProgressNoteTemplate,
+      sourceData: { patient: { name: 'Jane Doe' } },
+      options: { openaiClient },
+    });
+
+    const risk: 'low' | 'moderate' | 'high' = result.aiOutput.assessment.risk;
+    const steps: string[] | undefined = result.payload?.plan.steps;
+    const followUp: string | null = result.aiOutput.assessment.followUp;
+    const patientName: string | undefined = result.nasSnapshot?.patient?.name;
+    // @ts-expect-error - fields outside the template are rejected at compile time
+    expect(result.payload?.assessment.unknownField).toBeUndefined();
+
+    expect(risk).toBe('moderate');
+    expect(steps).toEqual(['Continue weekly sessions.']);
+    expect(followUp).toBeNull();
+    expect(patientName).toBe('Jane Doe');
+    expect(result.payload?.dx.rows[0].code).toBe('F41.1');
+
+    const untyped = await runPipeline({ template, sourceData: { patient: { name: 'Jane Doe' } }, options: { openaiClient } });
+    expect(untyped.aiOutput.assessment).toEqual(aiOutput.assessment);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Payload Type Generator
+ *
+ * Domain: codegen/core
+ * Responsibility: Emit a `.d.ts` module with interfaces for a template's
+ * AIS, NAS, and RPS payloads plus a TypedNoteTemplate alias that makes
+ * runPipeline return typed payloads.
+ *
+ * SOR: Schemas are derived from the template upgraded to the current schema
+ * version, exactly as the registry and pipeline derive them.
+ * DI: Schemas may be supplied (e.g. registry records) instead of re-derived.
+ */
+
+import type { NoteTemplate } from '../../derivation/types';
+import { upgradeOnLoad } from '../../migration/core/upgrade';
+import { deriveTemplateSchemas } from '../../registry/core/schema-cache';
+import type { GeneratedPayloadTypes, PayloadTypeNames, PayloadTypesOptions } from '../types';
+import { collectFieldDocs } from '../utils/field-docs';
+import { renderSchemaInterface } from './schema-to-ts';
+
+const DEFAULT_PAYLOADS_IMPORT = '../types/payloads';
+
+/**
+ * Generate payload type declarations for a template.
+ *
+ * @param template - Flat template (any schema version)
+ * @param options - Type name prefix, import specifier, and pre-derived schemas
+ * @returns The `.d.ts` source and the names it declares
+ */
+export function generatePayloadTypes(template: NoteTemplate, options: PayloadTypesOptions = {}): GeneratedPayloadTypes {
+  const current = upgradeOnLoad(template);
+  const schemas = options.schemas ?? deriveTemplateSchemas(current);
+  const docs = collectFieldDocs(current);
+  const names = getPayloadTypeNames(current, options.typeName);
+  const label = `${current.id}@${current.version}`;
+
+  const source = [
+    `// Generated from template ${label} by \`bun run codegen:types\`. Do not edit by hand.`,
+    '',
+    `import type { TemplatePayloads, TypedNoteTemplate } from '${options.payloadsImport ?? DEFAULT_PAYLOADS_IMPORT}';`,
+    '',
+    renderSchemaInterface(names.ais, schemas.ais, docs),
+    '',
+    renderSchemaInterface(names.nas, schemas.nas, docs),
+    '',
+    renderSchemaInterface(names.rps, schemas.rps, docs),
+    '',
+    `/** Payload types of ${label} */`,
+    `export type ${names.payloads} = TemplatePayloads<${names.ais}, ${names.nas}, ${names.rps}>;`,
+    '',
+    `/** ${current.name} template; pass it to runPipeline for typed payloads */`,
+    `export type ${names.template} = TypedNoteTemplate<${names.payloads}>;`,
+    '',
+  ].join('\n');
+
+  return { names, source };
+}
+
+/**
+ * Names declared for a template; the prefix defaults to its id in PascalCase.
+ */
+export function getPayloadTypeNames(template: NoteTemplate, typeName?: string): PayloadTypeNames {
+  const prefix = typeName ?? toPascalCase(template.id);
+  return {
+    ais: `${prefix}AIPayload`,
+    nas: `${prefix}NasSnapshot`,
+    rps: `${prefix}RenderPayload`,
+    payloads: `${prefix}Payloads`,
+    template: `${prefix}Template`,
+  };
+}
+
+function toPascalCase(id: string): string {
+  const name = id
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(name) ? name : `Template${name}`;
+}
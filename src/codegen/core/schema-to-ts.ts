@@ -0,0 +1,91 @@
+/**
+ * Schema to TypeScript
+ *
+ * Domain: codegen/core
+ * Responsibility: Render a derived schema as a TypeScript interface.
+ *
+ * SOR: Types follow the schema exactly: `required` decides optional
+ * properties, nullable (showIf) nodes add `| null`, and enums become
+ * literal unions. Docs come from the template, keyed by payload path.
+ */
+
+import type { DerivedSchema, SchemaNode } from '../../derivation/types';
+import { getBaseType, isNullable } from '../../derivation/utils/schema-builder';
+import type { FieldDoc } from '../types';
+import { formatDocComment } from '../utils/field-docs';
+
+type ObjectShape = Pick<SchemaNode, 'properties' | 'required' | 'additionalProperties'>;
+
+const INDENT = '  ';
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Render one schema as an exported interface.
+ *
+ * @param name - Interface name
+ * @param schema - Derived AIS, NAS, or RPS
+ * @param docs - Field docs by payload path (see collectFieldDocs)
+ * @returns Interface source, preceded by the schema description
+ */
+export function renderSchemaInterface(name: string, schema: DerivedSchema, docs: Map<string, FieldDoc>): string {
+  const lines = [
+    ...formatDocComment({ description: schema.description ?? schema.title, guidance: [] }, ''),
+    `export interface ${name} ${renderObject(schema, '', docs, '')}`,
+  ];
+  return lines.join('\n');
+}
+
+function renderObject(node: ObjectShape, path: string, docs: Map<string, FieldDoc>, indent: string): string {
+  const inner = indent + INDENT;
+  const lines = ['{'];
+
+  for (const [key, child] of Object.entries(node.properties ?? {})) {
+    const childPath = path ? `${path}.${key}` : key;
+    const optional = node.required?.includes(key) ? '' : '?';
+    lines.push(...formatDocComment(docs.get(childPath), inner));
+    lines.push(`${inner}${formatKey(key)}${optional}: ${renderType(child, childPath, docs, inner)};`);
+  }
+  if (node.additionalProperties === true) {
+    lines.push(`${inner}[key: string]: unknown;`);
+  }
+
+  if (lines.length === 1) return '{}';
+  lines.push(`${indent}}`);
+  return lines.join('\n');
+}
+
+function renderType(node: SchemaNode, path: string, docs: Map<string, FieldDoc>, indent: string): string {
+  const nullable = isNullable(node) || Boolean(node.enum?.includes(null));
+  const type = node.enum ? renderEnum(node.enum) : renderBaseType(node, path, docs, indent);
+  return nullable ? `${type} | null` : type;
+}
+
+function renderBaseType(node: SchemaNode, path: string, docs: Map<string, FieldDoc>, indent: string): string {
+  switch (getBaseType(node)) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'object':
+      return renderObject(node, path, docs, indent);
+    case 'array': {
+      if (!node.items) return 'unknown[]';
+      const item = renderType(node.items, `${path}[]`, docs, indent);
+      return /^[\w.]+$/.test(item) ? `${item}[]` : `Array<${item}>`;
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+function renderEnum(values: Array<string | null>): string {
+  const literals = values.filter((value): value is string => value !== null).map(value => JSON.stringify(value));
+  return literals.length > 0 ? literals.join(' | ') : 'never';
+}
+
+function formatKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
@@ -0,0 +1,29 @@
+/**
+ * Codegen Domain - Barrel Export
+ *
+ * Domain: codegen
+ * Responsibility: Generate TypeScript payload types from note templates
+ *
+ * Usage:
+ * ```typescript
+ * import { generatePayloadTypes } from './codegen';
+ *
+ * const { source } = generatePayloadTypes(template);
+ * // export interface ProgressNoteAIPayload { ... }
+ * // export type ProgressNoteTemplate = TypedNoteTemplate<ProgressNotePayloads>;
+ *
+ * const result = await runPipeline({ template: template as ProgressNoteTemplate, sourceData });
+ * result.payload?.assessment.summary; // string
+ * ```
+ */
+
+// Core
+export { generatePayloadTypes, getPayloadTypeNames } from './core/payload-types';
+export { renderSchemaInterface } from './core/schema-to-ts';
+
+// Utilities
+export { collectFieldDocs, formatDocComment, toDocKey } from './utils/field-docs';
+
+// Types
+export type { FieldDoc, GeneratedPayloadTypes, PayloadTypeNames, PayloadTypesOptions } from './types';
+export type { PayloadsOf, TemplatePayloads, TypedNoteTemplate } from '../types/payloads';
@@ -0,0 +1,49 @@
+/**
+ * Codegen Domain Types
+ *
+ * TypeScript declarations generated from a template's derived AIS, NAS,
+ * and RPS so consumers of pipeline payloads get compile-time types.
+ */
+
+import type { TemplateSchemaCache } from '../registry/types';
+
+/**
+ * Options for generating a template's payload types
+ */
+export interface PayloadTypesOptions {
+  /** Prefix of every generated name (default: the template id in PascalCase) */
+  typeName?: string;
+
+  /** Module the generated file imports TypedNoteTemplate from (default: '../types/payloads') */
+  payloadsImport?: string;
+
+  /** Pre-derived schemas to reuse (e.g. a registry record's) */
+  schemas?: TemplateSchemaCache;
+}
+
+/**
+ * Names of the declarations emitted for one template
+ */
+export interface PayloadTypeNames {
+  ais: string;             // e.g. ProgressNoteAIPayload
+  nas: string;             // e.g. ProgressNoteNasSnapshot
+  rps: string;             // e.g. ProgressNoteRenderPayload
+  payloads: string;        // TemplatePayloads<ais, nas, rps>
+  template: string;        // TypedNoteTemplate<payloads>
+}
+
+/**
+ * Generated `.d.ts` source and the names it declares
+ */
+export interface GeneratedPayloadTypes {
+  names: PayloadTypeNames;
+  source: string;
+}
+
+/**
+ * Documentation gathered from the content items that produce one payload path
+ */
+export interface FieldDoc {
+  description?: string;
+  guidance: string[];
+}
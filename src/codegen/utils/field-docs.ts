@@ -0,0 +1,64 @@
+/**
+ * Field Documentation
+ *
+ * Domain: codegen/utils
+ * Responsibility: Collect content item descriptions and guidance by payload
+ * path and format them as JSDoc blocks.
+ */
+
+import type { NoteTemplate } from '../../derivation/types';
+import { forEachContentItem } from '../../migration/utils/walk';
+import type { FieldDoc } from '../types';
+
+/**
+ * Map payload paths (`plan.steps`, `dx.rows[].code`) to the docs of the items writing them.
+ * A path written by several items (e.g. a list and its list items) merges their docs.
+ */
+export function collectFieldDocs(template: NoteTemplate): Map<string, FieldDoc> {
+  const docs = new Map<string, FieldDoc>();
+
+  forEachContentItem(template.layout, item => {
+    const path = item.slot === 'ai' ? item.outputPath : item.targetPath;
+    if (!path || (!item.description && !item.guidance?.length)) return;
+
+    const key = toDocKey(path);
+    const doc = docs.get(key) ?? { guidance: [] };
+    doc.description ??= item.description;
+    for (const line of item.guidance ?? []) {
+      if (!doc.guidance.includes(line)) doc.guidance.push(line);
+    }
+    docs.set(key, doc);
+  });
+
+  return docs;
+}
+
+/**
+ * Docs are keyed by the property path: index and trailing array markers are dropped.
+ */
+export function toDocKey(path: string): string {
+  return path.replace(/\[\d+\]/g, '[]').replace(/\[\]$/, '');
+}
+
+/**
+ * Render a JSDoc block; empty when there is nothing to say.
+ *
+ * @param doc - Description and guidance lines
+ * @param indent - Leading whitespace of every line
+ * @returns JSDoc lines without trailing newlines
+ */
+export function formatDocComment(doc: FieldDoc | undefined, indent: string): string[] {
+  const body: string[] = [];
+  if (doc?.description) {
+    body.push(...doc.description.split('\n'));
+  }
+  if (doc?.guidance.length) {
+    if (body.length > 0) body.push('');
+    body.push('Guidance:', ...doc.guidance.map(line => `- ${line}`));
+  }
+
+  const safe = body.map(line => line.replace(/\*\//g, '*\\/').trimEnd());
+  if (safe.length === 0) return [];
+  if (safe.length === 1) return [`${indent}/** ${safe[0]} */`];
+  return [`${indent}/**`, ...safe.map(line => (line ? `${indent} * ${line}` : `${indent} *`)), `${indent} */`];
+}
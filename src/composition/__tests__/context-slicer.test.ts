@@ -33,6 +33,31 @@ describe('sliceContext', () => {
     expect(result.issues.some(issue => issue.check === 'context-slice.missing')).toBe(true);
   });
 
+  it('keeps every array row and slices predicate matches', () => {
+    const nasSnapshot = {
+      plan: { homework: [{ text: 'Sleep log', due: 'Friday' }, { text: 'Walk daily', due: 'Daily' }] },
+      diagnoses: [{ code: 'F33.1', primary: true }, { code: 'F41.1', primary: false }],
+    };
+
+    const fieldGuide: FieldGuideEntry[] = [
+      {
+        path: 'plan.summary',
+        dependencies: [
+          { path: 'plan.homework[].text', scope: 'nas' },
+          { path: 'diagnoses[?primary].code', scope: 'nas' },
+        ],
+      },
+    ];
+
+    const result = sliceContext(nasSnapshot, fieldGuide);
+
+    expect(result.nasSlices).toEqual({
+      plan: { homework: [{ text: 'Sleep log' }, { text: 'Walk daily' }] },
+      diagnoses: [{ code: 'F33.1' }],
+    });
+    expect(result.issues).toEqual([]);
+  });
+
   it('returns an error when no NAS data can be sliced', () => {
     const fieldGuide: FieldGuideEntry[] = [
       {
@@ -5,7 +5,8 @@
  * Reduces token usage by including only referenced data.
  */
 
-import type { PathSegment } from '../../derivation/types';
+import type { CompiledPath } from '../../paths';
+import { compilePath, getByPath, hasPath, isValidPath, setByPath } from '../../paths';
 import type { ContextSliceResult, FieldGuideEntry, NasSnapshot, LintIssue } from '../types';
 
 /**
@@ -38,16 +39,23 @@ export function sliceContext(
 
   const sliced: NasSnapshot = {};
   const missing: string[] = [];
+  const invalid: string[] = [];
 
   for (const path of nasPaths) {
-    const value = getValueAtPath(nasSnapshot, path);
-    if (value !== undefined) {
-      setValueAtPath(sliced, path, value);
+    if (!isValidPath(path)) {
+      invalid.push(path);
+    } else if (hasPath(nasSnapshot, path)) {
+      // Reads and writes share the path engine, so "homework[].text" keeps every row
+      setByPath(sliced, toSlicePath(compilePath(path)), getByPath(nasSnapshot, path));
     } else {
       missing.push(path);
     }
   }
 
+  if (invalid.length > 0) {
+    issues.push(createIssue('warning', 'context-slice.invalid-path', `Dependencies with malformed paths: ${invalid.join(', ')}`));
+  }
+
   if (missing.length > 0) {
     issues.push(createIssue('warning', 'context-slice.missing', `Dependencies not present in NAS snapshot: ${missing.join(', ')}`));
   }
@@ -61,93 +69,16 @@ export function sliceContext(
 }
 
 /**
- * Get value at a path in an object
- *
- * Supports dot notation and array brackets.
- * Example: "static.assessments.PHQ9" or "static.diagnoses[].code"
- *
- * @param obj - Object to read from
- * @param path - Dot-notation path
- * @returns Value at path or undefined
+ * Predicates cannot be written through; the matching elements become the slice's rows.
  */
-function getValueAtPath(obj: NasSnapshot, path: string): unknown {
-  const segments = parsePath(path);
-  let current: unknown = obj;
-
-  for (const segment of segments) {
-    const key = stripArrayNotation(segment.name);
-
-    if (Array.isArray(current)) {
-      const nextValues = current
-        .map((entry) => (isObjectLike(entry) ? (entry as Record<string, unknown>)[key] : undefined))
-        .filter((entry) => entry !== undefined);
-
-      if (nextValues.length === 0) {
-        return undefined;
-      }
-
-      current = nextValues[0];
-      continue;
-    }
-
-    if (!isObjectLike(current)) {
-      return undefined;
-    }
-
-    const next = (current as Record<string, unknown>)[key];
-    if (next === undefined) {
-      return undefined;
-    }
-
-    current = next;
+function toSlicePath(path: CompiledPath): CompiledPath {
+  if (!path.steps.some(step => step.kind === 'filter')) {
+    return path;
   }
-
-  return current;
-}
-
-/**
- * Set value at a path in an object
- *
- * Creates nested structure as needed.
- * Supports dot notation and array brackets.
- *
- * @param obj - Object to write to
- * @param path - Dot-notation path
- * @param value - Value to set
- */
-function setValueAtPath(obj: NasSnapshot, path: string, value: unknown): void {
-  const segments = parsePath(path);
-  if (segments.length === 0) {
-    return;
-  }
-
-  let current: Record<string, unknown> = obj;
-
-  for (let i = 0; i < segments.length - 1; i++) {
-    const segment = segments[i];
-    const key = stripArrayNotation(segment.name);
-
-    if (segment.isArray) {
-      current = ensureArrayContainer(current, key);
-      continue;
-    }
-
-    current = ensureChildObject(current, key);
-  }
-
-  const lastSegment = segments[segments.length - 1];
-  const lastKey = stripArrayNotation(lastSegment.name);
-
-  if (lastSegment.isArray) {
-    const array = Array.isArray(current[lastKey]) ? (current[lastKey] as unknown[]) : [];
-    if (!Array.isArray(current[lastKey])) {
-      current[lastKey] = array;
-    }
-    array.splice(0, array.length, ...(Array.isArray(value) ? value : [value]));
-    return;
-  }
-
-  current[lastKey] = value;
+  return {
+    ...path,
+    steps: path.steps.map(step => (step.kind === 'filter' ? { kind: 'wildcard' } : step)),
+  };
 }
 
 function collectNasDependencies(fieldGuide: FieldGuideEntry[]): Set<string> {
@@ -163,57 +94,6 @@ function collectNasDependencies(fieldGuide: FieldGuideEntry[]): Set<string> {
   return paths;
 }
 
-/**
- * Parse a path into segments
- *
- * Splits on dots and identifies array segments.
- * Example: "plan.homework[].text" -> [{name: "plan"}, {name: "homework[]", isArray: true}, {name: "text"}]
- *
- * @param path - Dot-notation path string
- * @returns Array of path segments
- */
-function parsePath(path: string): PathSegment[] {
-  const parts = path.split('.');
-  return parts.map(part => ({
-    name: part,
-    isArray: part.includes('[]')
-  }));
-}
-
-function stripArrayNotation(segment: string): string {
-  return segment.replace(/\[\]$/, '');
-}
-
-function ensureChildObject(container: Record<string, unknown>, key: string): Record<string, unknown> {
-  const existing = container[key];
-  if (isPlainObject(existing)) {
-    return existing;
-  }
-
-  const created: Record<string, unknown> = {};
-  container[key] = created;
-  return created;
-}
-
-function ensureArrayContainer(container: Record<string, unknown>, key: string): Record<string, unknown> {
-  let existing = container[key];
-
-  if (!Array.isArray(existing)) {
-    existing = [];
-    container[key] = existing;
-  }
-
-  const array = existing as unknown[];
-
-  if (array.length === 0 || !isPlainObject(array[0])) {
-    const element: Record<string, unknown> = {};
-    array[0] = element;
-    return element;
-  }
-
-  return array[0] as Record<string, unknown>;
-}
-
 function isEmptyObject(value: unknown): boolean {
   if (!isObjectLike(value)) {
     return true;
@@ -222,10 +102,6 @@ function isEmptyObject(value: unknown): boolean {
   return Object.keys(value as Record<string, unknown>).length === 0;
 }
 
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value);
-}
-
 function isObjectLike(value: unknown): value is Record<string, unknown> | unknown[] {
   return typeof value === 'object' && value !== null;
 }
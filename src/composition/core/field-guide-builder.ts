@@ -111,11 +111,7 @@ export function buildFieldGuide(layout: Component[]): FieldGuideBuildResult {
     }
 
     if (item.tableMap) {
-      const tableItems = Array.isArray(item.tableMap)
-        ? item.tableMap
-        : Object.values(item.tableMap);
-
-      for (const tableItem of tableItems) {
+      for (const tableItem of item.tableMap) {
         processContentItem(tableItem);
       }
     }
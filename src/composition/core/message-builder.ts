@@ -6,6 +6,8 @@
  */
 
 import type { NoteTemplate } from '../../derivation/types';
+import type { AIPayload } from '../../types/payloads';
+import { resolveIssuePath, type ValidationIssue } from '../../validation';
 import type { FactPack, Message, FieldGuideEntry, NasSnapshot, FieldConstraints } from '../types';
 
 /**
@@ -16,27 +18,69 @@ import type { FactPack, Message, FieldGuideEntry, NasSnapshot, FieldConstraints
  * - PURPOSE: template.prompt.main
  * - HARD RULES: template.prompt.rules[]
  * - RESPONSE CONTRACT: JSON-only directive
- * - CONTEXT: factPack + nasSlices
+ * - CONTEXT: factPack + nasSlices (+ accepted output when regenerating)
  * - FIELD GUIDE: formatted guide entries
  *
  * @param template - Note template with prompt configuration
  * @param fieldGuide - Field guide entries
  * @param factPack - Optional fact pack
  * @param nasSlices - Sliced NAS context
+ * @param readOnlyOutput - Optional accepted AI output the model must not rewrite
  * @returns Array of [system, user] messages
  */
 export function buildMessages(
   template: NoteTemplate,
   fieldGuide: FieldGuideEntry[],
   factPack: FactPack | undefined,
-  nasSlices: NasSnapshot
+  nasSlices: NasSnapshot,
+  readOnlyOutput?: AIPayload
 ): Message[] {
   const systemMessage = buildSystemMessage(template);
-  const userMessage = buildUserMessage(template, fieldGuide, factPack, nasSlices);
+  const userMessage = buildUserMessage(template, fieldGuide, factPack, nasSlices, readOnlyOutput);
 
   return [systemMessage, userMessage];
 }
 
+/**
+ * Build the follow-up message asking the model to repair a rejected response
+ *
+ * Lists the previous response and each validation issue by field path so the
+ * model fixes only those fields and returns the complete object again.
+ *
+ * @param previousOutput - Output that failed validation
+ * @param issues - Fatal validation issues for that output
+ * @returns User message appended after the original messages
+ */
+export function buildRepairMessage(previousOutput: AIPayload, issues: ValidationIssue[]): Message {
+  const sections: string[] = [];
+
+  sections.push('VALIDATION REPAIR');
+  sections.push(
+    'Your previous response did not satisfy the JSON Schema. Fix ONLY the fields listed under ERRORS. ' +
+      'Return the complete JSON object again and keep every other value exactly as it was.'
+  );
+  sections.push('');
+
+  sections.push('PREVIOUS RESPONSE:');
+  sections.push(stringifyDeterministic(previousOutput));
+  sections.push('');
+
+  sections.push('ERRORS:');
+  for (const issue of issues) {
+    sections.push(`- path: ${resolveIssuePath(issue) || '(root)'}`);
+    sections.push(`  problem: ${issue.message ?? issue.keyword} [${issue.keyword}]`);
+    const allowed = (issue.params as Record<string, unknown>).allowedValues;
+    if (Array.isArray(allowed)) {
+      sections.push(`  allowed: ${allowed.join(', ')}`);
+    }
+  }
+
+  return {
+    role: 'user',
+    content: sections.join('\n'),
+  };
+}
+
 /**
  * Build system message
  *
@@ -81,13 +125,15 @@ function buildSystemMessage(template: NoteTemplate): Message {
  * @param fieldGuide - Field guide entries
  * @param factPack - Optional fact pack
  * @param nasSlices - Sliced NAS context
+ * @param readOnlyOutput - Optional accepted AI output
  * @returns User message
  */
 function buildUserMessage(
   template: NoteTemplate,
   fieldGuide: FieldGuideEntry[],
   factPack: FactPack | undefined,
-  nasSlices: NasSnapshot
+  nasSlices: NasSnapshot,
+  readOnlyOutput?: AIPayload
 ): Message {
   const sections: string[] = [];
 
@@ -125,6 +171,13 @@ function buildUserMessage(
   sections.push(stringifyDeterministic(nasSlices));
   sections.push('');
 
+  // Accepted fields from an earlier generation: context only, never part of the response
+  if (readOnlyOutput && Object.keys(readOnlyOutput).length > 0) {
+    sections.push('ACCEPTED OUTPUT (read-only; keep consistent with it, do not repeat or rewrite it):');
+    sections.push(stringifyDeterministic(readOnlyOutput));
+    sections.push('');
+  }
+
   // FIELD GUIDE section
   sections.push('FIELD GUIDE');
   for (const entry of fieldGuide) {
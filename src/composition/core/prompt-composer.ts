@@ -7,8 +7,10 @@
 
 import { buildFieldGuide } from './field-guide-builder';
 import { sliceContext } from './context-slicer';
-import { buildMessages } from './message-builder';
+import { buildMessages, buildRepairMessage } from './message-builder';
 import { lintPromptBundle } from './prompt-linter';
+import type { AIPayload } from '../../types/payloads';
+import type { ValidationIssue } from '../../validation';
 import type { CompositionInput, CompositionResult, LintIssue, LintResult, PromptBundle } from '../types';
 
 /**
@@ -31,12 +33,18 @@ import type { CompositionInput, CompositionResult, LintIssue, LintResult, Prompt
  * @returns Complete prompt bundle
  */
 export function composePrompt(input: CompositionInput): CompositionResult {
-  const { template, aiSchema, nasSnapshot, factPack } = input;
+  const { template, aiSchema, nasSnapshot, factPack, readOnlyOutput } = input;
 
   const fieldGuideResult = buildFieldGuide(template.layout);
   const contextResult = sliceContext(nasSnapshot, fieldGuideResult.entries);
 
-  const messages = buildMessages(template, fieldGuideResult.entries, factPack, contextResult.nasSlices);
+  const messages = buildMessages(
+    template,
+    fieldGuideResult.entries,
+    factPack,
+    contextResult.nasSlices,
+    readOnlyOutput
+  );
 
   // Step 4: Generate deterministic bundle ID
   const bundleId = generateBundleId(template.id, template.version);
@@ -65,6 +73,31 @@ export function composePrompt(input: CompositionInput): CompositionResult {
   };
 }
 
+/**
+ * Compose a repair bundle for a rejected response
+ *
+ * Keeps the original messages, schema, and context and appends a follow-up
+ * message listing the validation issues to fix.
+ *
+ * @param bundle - Bundle that produced the rejected output
+ * @param previousOutput - Output that failed validation
+ * @param issues - Fatal validation issues for that output
+ * @param round - Repair round (1-based), recorded in the bundle id
+ * @returns Prompt bundle for the repair request
+ */
+export function composeRepairPrompt(
+  bundle: PromptBundle,
+  previousOutput: AIPayload,
+  issues: ValidationIssue[],
+  round: number
+): PromptBundle {
+  return {
+    ...bundle,
+    id: `${bundle.id}#repair-${round}`,
+    messages: [...bundle.messages, buildRepairMessage(previousOutput, issues)],
+  };
+}
+
 /**
  * Generate deterministic bundle ID
  *
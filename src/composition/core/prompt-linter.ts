@@ -11,6 +11,7 @@
  * 5. Message roles: system then user
  */
 import type { Component, DerivedSchema, NoteTemplate, SchemaNode } from '../../derivation/types';
+import { hasPath, isValidPath } from '../../paths';
 import type { FieldDependency, LintIssue, LintResult, PromptBundle } from '../types';
 
 export function lintPromptBundle(
@@ -164,11 +165,7 @@ function countAIItems(template: NoteTemplate): number {
 
 					// Check nested tableMap
 					if (item.tableMap) {
-						const tableItems = Array.isArray(item.tableMap)
-							? item.tableMap
-							: Object.values(item.tableMap);
-
-						for (const colItem of tableItems) {
+						for (const colItem of item.tableMap) {
 							if (colItem.slot === 'ai') count++;
 						}
 					}
@@ -235,41 +232,8 @@ function getSchemaNode(schema: DerivedSchema, path: string): SchemaNode | null {
 
 // Helper: Check if path is resolvable in context
 function pathResolvable(context: unknown, path: string): boolean {
-	if (!context) return false;
-
-	const segments = path.split('.');
-	let current: unknown = context;
-
-	for (const segment of segments) {
-		const cleanSegment = segment.replace(/\[\]$/, '');
-
-		if (Array.isArray(current)) {
-			const nextValues = current
-				.map((value) =>
-					isObjectLike(value) ? (value as Record<string, unknown>)[cleanSegment] : undefined
-				)
-				.filter((value) => value !== undefined);
-
-			if (nextValues.length === 0) {
-				return false;
-			}
-
-			current = nextValues[0];
-			continue;
-		}
-
-		if (!isObjectLike(current)) {
-			return false;
-		}
-
-		const next = (current as Record<string, unknown>)[cleanSegment];
-		if (next === undefined) {
-			return false;
-		}
-		current = next;
-	}
-
-	return true;
+	if (!context || !isValidPath(path)) return false;
+	return hasPath(context, path);
 }
 
 function isSchemaNode(value: unknown): value is SchemaNode {
@@ -277,7 +241,3 @@ function isSchemaNode(value: unknown): value is SchemaNode {
 		typeof value === 'object' && value !== null && 'type' in (value as Record<string, unknown>)
 	);
 }
-
-function isObjectLike(value: unknown): value is Record<string, unknown> | unknown[] {
-	return typeof value === 'object' && value !== null;
-}
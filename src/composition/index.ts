@@ -5,10 +5,10 @@
  * Transforms templates + data into LLM-ready prompt bundles.
  */
 
-export { composePrompt } from './core/prompt-composer';
+export { composePrompt, composeRepairPrompt } from './core/prompt-composer';
 export { buildFieldGuide } from './core/field-guide-builder';
 export { sliceContext } from './core/context-slicer';
-export { buildMessages } from './core/message-builder';
+export { buildMessages, buildRepairMessage } from './core/message-builder';
 export { lintPromptBundle } from './core/prompt-linter';
 
 export type {
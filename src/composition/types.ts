@@ -5,7 +5,7 @@
  */
 
 import type { DerivedSchema, NoteTemplate, StyleHints } from '../derivation/types';
-import type { FactPack, NasSnapshot } from '../types/payloads';
+import type { AIPayload, FactPack, NasSnapshot } from '../types/payloads';
 
 /**
  * A complete prompt bundle ready for LLM call
@@ -91,6 +91,7 @@ export interface CompositionInput {
   aiSchema: DerivedSchema; // AIS (AI Structured Output Schema)
   nasSnapshot: NasSnapshot; // NAS (Non-AI Snapshot) resolved runtime data
   factPack?: FactPack; // Optional LPC-derived compact facts
+  readOnlyOutput?: AIPayload; // Accepted AI output shown as context when regenerating a subset of fields
 }
 
 /**
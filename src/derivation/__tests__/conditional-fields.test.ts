@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'bun:test';
+import { deriveAIS } from '../core/ais-deriver';
+import { deriveNAS } from '../core/nas-deriver';
+import { mergeToRPS } from '../core/rps-merger';
+import { validateAIS, validateRPS } from '../../validation';
+import type { NoteTemplate, SchemaNode } from '../types';
+
+const template: NoteTemplate = {
+  id: 'conditional-fields',
+  name: 'Conditional Fields',
+  version: '1.0.0',
+  layout: [
+    {
+      id: 'assessment',
+      type: 'section',
+      content: [
+        { id: 'summary', slot: 'ai', outputPath: 'assessment.summary', constraints: { required: true } },
+        { id: 'audit-score', slot: 'lookup', targetPath: 'screening.auditC', constraints: { required: true } },
+      ],
+    },
+    {
+      id: 'substance-use',
+      type: 'section',
+      showIf: 'screening.auditC >= 4',
+      content: [
+        { id: 'substance-narrative', slot: 'ai', outputPath: 'substance.narrative', constraints: { required: true } },
+        { id: 'last-use', slot: 'lookup', targetPath: 'substance.lastUse', constraints: { required: true } },
+      ],
+    },
+    {
+      id: 'risk',
+      type: 'alertPanel',
+      content: [
+        {
+          id: 'risk-note',
+          slot: 'ai',
+          outputPath: 'risk.note',
+          showIf: 'risk.flags.length > 0',
+          constraints: { enum: ['low', 'high'] },
+        },
+        { id: 'risk-flags', slot: 'lookup', targetPath: 'risk.flags', showIf: 'risk.flags', constraints: { required: true } },
+      ],
+    },
+  ],
+};
+
+function child(schema: { properties?: Record<string, SchemaNode> }, key: string): SchemaNode {
+  const node = schema.properties?.[key];
+  if (!node) throw new Error(`missing ${key}`);
+  return node;
+}
+
+describe('showIf-aware derivation', () => {
+  it('makes AI fields under a condition nullable while keeping them in required', () => {
+    const ais = deriveAIS(template);
+
+    expect(child(child(ais, 'assessment'), 'summary').type).toBe('string');
+    expect(child(child(ais, 'substance'), 'narrative').type).toEqual(['string', 'null']);
+    expect(child(ais, 'substance').required).toEqual(['narrative']);
+    expect(child(child(ais, 'risk'), 'note')).toEqual({ type: ['string', 'null'], enum: ['low', 'high', null] });
+  });
+
+  it('keeps nullable fields valid against the AIS and RPS meta-schemas', () => {
+    const ais = deriveAIS(template);
+    const rps = mergeToRPS(ais, deriveNAS(template), template.id, template.name, template.version);
+
+    expect(validateAIS(ais).ok).toBe(true);
+    expect(validateRPS(rps).ok).toBe(true);
+  });
+
+  it('never requires non-AI fields under a condition', () => {
+    const nas = deriveNAS(template);
+
+    expect(child(nas, 'screening').required).toEqual(['auditC']);
+    expect(child(nas, 'substance').required).toEqual([]);
+    expect(child(nas, 'risk').required).toEqual([]);
+  });
+});
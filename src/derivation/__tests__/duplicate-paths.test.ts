@@ -94,13 +94,13 @@ describe('duplicate path detection', () => {
               id: 'table-root',
               slot: 'lookup',
               targetPath: 'assessments.table.column',
-              tableMap: {
-                columnA: {
+              tableMap: [
+                {
                   id: 'table-cell-a',
                   slot: 'lookup',
                   targetPath: 'assessments.table.column',
                 },
-              },
+              ],
             },
           ],
         },
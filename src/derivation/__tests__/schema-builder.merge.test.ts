@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test';
-import { mergeNodes } from '../utils/schema-builder';
+import { makeNullable, mergeNodes } from '../utils/schema-builder';
 import type { SchemaNode } from '../types';
 
 describe('mergeNodes constraint reconciliation', () => {
@@ -47,4 +47,17 @@ describe('mergeNodes constraint reconciliation', () => {
     expect(merged.minimum).toBe(10);
     expect(merged.maximum).toBe(90);
   });
+
+  it('keeps null only when both sides are nullable', () => {
+    const nullable = makeNullable({ type: 'string', enum: ['low', 'high'] });
+    expect(nullable).toEqual({ type: ['string', 'null'], enum: ['low', 'high', null] });
+
+    expect(mergeNodes(nullable, makeNullable({ type: 'string' }), 'risk').type).toEqual(['string', 'null']);
+
+    const strict = mergeNodes(nullable, { type: 'string', enum: ['high'] }, 'risk');
+    expect(strict.type).toBe('string');
+    expect(strict.enum).toEqual(['high']);
+
+    expect(() => mergeNodes(nullable, { type: 'number' }, 'risk')).toThrow('Type conflict');
+  });
 });
@@ -12,6 +12,7 @@ import {
 	createArrayNode,
 	createObjectNode,
 	createStringNode,
+	makeNullable,
 } from '../utils/schema-builder';
 
 /**
@@ -23,7 +24,8 @@ import {
  * 3. Extract outputPath (e.g., "assessment.narrative", "plan.homework[].text")
  * 4. Build JSON Schema nodes from paths
  * 5. Apply constraints (enum, pattern, minWords, etc.)
- * 6. Return valid AIS schema
+ * 6. Make fields under a `showIf` condition nullable (they may be absent)
+ * 7. Return valid AIS schema
  *
  * @param template - The note template
  * @returns The generated AIS schema
@@ -65,23 +67,27 @@ export function deriveAIS(template: NoteTemplate): DerivedSchema {
  * @param components - Array of components to walk
  * @param root - Root schema node
  * @param schemaMap - Map of path -> schema node for tracking
+ * @param conditional - True when an ancestor component has a showIf condition
  */
 function walkLayoutForAI(
 	components: Component[],
 	root: SchemaNode,
-	schemaMap: Map<string, SchemaNode>
+	schemaMap: Map<string, SchemaNode>,
+	conditional = false
 ): void {
 	for (const component of components) {
+		const componentConditional = conditional || Boolean(component.showIf);
+
 		// Process content items
 		if (component.content) {
 			for (const item of component.content) {
-				processContentItem(item, root, schemaMap);
+				processContentItem(item, root, schemaMap, componentConditional);
 			}
 		}
 
 		// Recurse into children
 		if (component.children) {
-			walkLayoutForAI(component.children, root, schemaMap);
+			walkLayoutForAI(component.children, root, schemaMap, componentConditional);
 		}
 	}
 }
@@ -92,12 +98,16 @@ function walkLayoutForAI(
  * @param item - The content item to process
  * @param root - Root schema node
  * @param schemaMap - Map of path -> schema node
+ * @param conditional - True when the item sits under a showIf condition
  */
 function processContentItem(
 	item: ContentItem,
 	root: SchemaNode,
-	schemaMap: Map<string, SchemaNode>
+	schemaMap: Map<string, SchemaNode>,
+	conditional = false
 ): void {
+	const optional = conditional || Boolean(item.showIf);
+
 	// Only process AI slots
 	if (item.slot !== 'ai') {
 		return;
@@ -122,7 +132,7 @@ function processContentItem(
 
 		if (isLastSegment) {
 			const propertyOptions = {
-				isRequired: item.constraints?.required ?? false,
+				isRequired: !optional && (item.constraints?.required ?? false),
 				path: propertyPath,
 				sourceId: item.id,
 			};
@@ -131,7 +141,7 @@ function processContentItem(
 				const arrayPath = `${segmentPath}[]`;
 				const needsObjectItems =
 					(item.listItems && item.listItems.length > 0) ||
-					(item.tableMap && Object.keys(item.tableMap).length > 0);
+					(item.tableMap && item.tableMap.length > 0);
 
 				let arrayNode = schemaMap.get(arrayPath);
 
@@ -168,7 +178,9 @@ function processContentItem(
 				}
 			} else {
 				// Leaf node - create the actual value schema
-				const leafNode = createStringNode(item.constraints);
+				const leafNode = optional
+					? makeNullable(createStringNode(item.constraints))
+					: createStringNode(item.constraints);
 				addProperty(currentNode, segment.name, leafNode, propertyOptions);
 			}
 		} else {
@@ -228,18 +240,14 @@ function processContentItem(
 	// Process nested list items
 	if (item.listItems) {
 		for (const listItem of item.listItems) {
-			processContentItem(listItem, root, schemaMap);
+			processContentItem(listItem, root, schemaMap, optional);
 		}
 	}
 
 	// Process nested table map
 	if (item.tableMap) {
-		const tableItems = Array.isArray(item.tableMap)
-			? item.tableMap
-			: Object.values(item.tableMap);
-
-		for (const tableItem of tableItems) {
-			processContentItem(tableItem, root, schemaMap);
+		for (const tableItem of item.tableMap) {
+			processContentItem(tableItem, root, schemaMap, optional);
 		}
 	}
 }
@@ -60,23 +60,27 @@ export function deriveNAS(template: NoteTemplate): DerivedSchema {
  * @param components - Array of components to walk
  * @param root - Root schema node
  * @param schemaMap - Map of path -> schema node for tracking
+ * @param conditional - True when an ancestor component has a showIf condition
  */
 function walkLayoutForNAS(
   components: Component[],
   root: SchemaNode,
-  schemaMap: Map<string, SchemaNode>
+  schemaMap: Map<string, SchemaNode>,
+  conditional = false
 ): void {
   for (const component of components) {
+    const componentConditional = conditional || Boolean(component.showIf);
+
     // Process content items
     if (component.content) {
       for (const item of component.content) {
-        processContentItem(item, root, schemaMap);
+        processContentItem(item, root, schemaMap, componentConditional);
       }
     }
 
     // Recurse into children
     if (component.children) {
-      walkLayoutForNAS(component.children, root, schemaMap);
+      walkLayoutForNAS(component.children, root, schemaMap, componentConditional);
     }
   }
 }
@@ -87,12 +91,16 @@ function walkLayoutForNAS(
  * @param item - The content item to process
  * @param root - Root schema node
  * @param schemaMap - Map of path -> schema node
+ * @param conditional - True when the item sits under a showIf condition (never required)
  */
 function processContentItem(
   item: ContentItem,
   root: SchemaNode,
-  schemaMap: Map<string, SchemaNode>
+  schemaMap: Map<string, SchemaNode>,
+  conditional = false
 ): void {
+  const optional = conditional || Boolean(item.showIf);
+
   // Only process non-AI slots
   if (item.slot === 'ai') {
     return;
@@ -123,7 +131,7 @@ function processContentItem(
     if (isLastSegment) {
       // Leaf node - add the value schema
       const propertyOptions = {
-        isRequired: item.constraints?.required ?? false,
+        isRequired: !optional && (item.constraints?.required ?? false),
         path: propertyPath,
         sourceId: item.id,
       };
@@ -247,18 +255,14 @@ function processContentItem(
 
     // Process each list item
     for (const listItem of item.listItems) {
-      processContentItem(listItem, root, schemaMap);
+      processContentItem(listItem, root, schemaMap, optional);
     }
   }
 
   // Process nested table map
   if (item.tableMap) {
-    const tableItems = Array.isArray(item.tableMap)
-      ? item.tableMap
-      : Object.values(item.tableMap);
-
-    for (const tableItem of tableItems) {
-      processContentItem(tableItem, root, schemaMap);
+    for (const tableItem of item.tableMap) {
+      processContentItem(tableItem, root, schemaMap, optional);
     }
   }
 }
@@ -34,6 +34,9 @@ export {
 	createNumberNode,
 	createObjectNode,
 	createStringNode,
+	getBaseType,
+	isNullable,
+	makeNullable,
 	mergeNodes,
 } from './utils/schema-builder';
 
@@ -48,4 +51,8 @@ export type {
 	NoteTemplate,
 	PathSegment,
 	SchemaNode,
+	SourceFieldMapping,
+	SourceMappingCondition,
+	SourceValueFormat,
+	TemplateSources,
 } from './types';
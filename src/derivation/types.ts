@@ -61,12 +61,12 @@ export interface ContentConstraints {
  * Can be object, array, string, number, or boolean
  */
 export interface SchemaNode {
-  type: string;
+  type: string | [string, 'null'];  // Tuple form marks a nullable (showIf-conditional) field
   properties?: Record<string, SchemaNode>;
   required?: string[];
   additionalProperties?: boolean;
   items?: SchemaNode;
-  enum?: string[];
+  enum?: Array<string | null>;
   pattern?: string;
   'x-minWords'?: number;
   'x-maxWords'?: number;
@@ -153,12 +153,52 @@ export interface NoteTemplate {
   id: string;
   name: string;
   version: string;
+  schemaVersion?: number;  // note-template schema version; absent means 1 (see src/migration)
   style?: TemplateStyle;
   layout: Component[];
   prompt?: TemplatePrompt;
   inputCollections?: FormCollection[];
+  sources?: TemplateSources;
 }
 
+/**
+ * Per-template source adapter mappings (see src/fhir).
+ * Entries override the adapter defaults by target path; `null` drops a default.
+ */
+export interface TemplateSources {
+  fhir?: Record<string, SourceFieldMapping | null>;
+}
+
+/**
+ * Declarative rule that fills one SourceData path from an external resource.
+ *
+ * Keys of the owning record are SourceData target paths. `{id}` in a target
+ * is replaced with the resource id, and `[]` targets collect one entry per
+ * matching resource unless `from` is 'first'.
+ */
+export interface SourceFieldMapping {
+  resource: string;                 // Resource type, e.g. 'Condition'
+  path: string | string[];          // Element path(s); the first non-empty value wins
+  where?: SourceMappingCondition;
+  from?: 'first' | 'each';
+  format?: SourceValueFormat;
+}
+
+/**
+ * Filter a resource must pass before a mapping reads it.
+ * Without `equals`/`contains` the path only has to exist.
+ */
+export interface SourceMappingCondition {
+  path: string;
+  equals?: string | number | boolean;
+  contains?: string;
+}
+
+/**
+ * Conversions applied to mapped FHIR datatypes.
+ */
+export type SourceValueFormat = 'humanName' | 'address' | 'codeText' | 'date' | 'quantity' | 'attachmentText';
+
 /**
  * Component props by type
  */
@@ -174,6 +214,8 @@ export interface TableProps {
 export interface BaseComponentProps {
   hideTitle?: boolean;
   variant?: 'default' | 'info' | 'warning' | 'critical';
+  keepTogether?: boolean;  // Print: avoid page breaks inside (false overrides token defaults)
+  breakBefore?: boolean;   // Print: start on a new page
   [key: string]: unknown;
 }
 
@@ -196,6 +238,7 @@ export interface Component {
   type: string;
   title?: string;
   props?: ComponentProps;
+  showIf?: string;         // Formula over the RenderPayload; the component renders only when truthy
   content?: ContentItem[];
   children?: Component[];
 }
@@ -300,6 +343,32 @@ export interface FormNote {
   variant?: 'info' | 'warning' | 'success' | 'neutral';
 }
 
+/**
+ * Display format for lookup/computed values.
+ * plain/deltaScore/percent apply during resolution; the rest apply at render
+ * time so RenderOptions.dateFormat and lang are honored.
+ */
+export type ContentFormat =
+  | 'plain'
+  | 'deltaScore'
+  | 'percent'
+  | 'date'
+  | 'datetime'
+  | 'currency'
+  | 'integer'
+  | 'unit'
+  | 'duration';
+
+/**
+ * Parameters for formats that need them.
+ */
+export interface ContentFormatOptions {
+  /** ISO 4217 code for format=currency (default: USD) */
+  currency?: string;
+  /** Unit for format=unit, e.g. "kilogram" or "mg" */
+  unit?: string;
+}
+
 /**
  * Template content item; represents a single slot rendered in the note.
  */
@@ -315,11 +384,14 @@ export interface ContentItem {
   styleHints?: StyleHints;
   constraints?: ContentConstraints;
   listItems?: ContentItem[];
-  tableMap?: Record<string, ContentItem> | ContentItem[];
-  lookup?: string;
+  tableMap?: ContentItem[];
+  lookup?: string | string[];
+  default?: unknown;
   formula?: string;
   resultType?: string;
-  format?: 'plain' | 'deltaScore' | 'percent';
+  format?: ContentFormat;
+  formatOptions?: ContentFormatOptions;
   text?: string;
   verbatimRef?: string;
+  showIf?: string;         // Formula over the RenderPayload; top-level content items only
 }
@@ -5,6 +5,7 @@
  * Handles dot notation and array markers (e.g., "plan.homework[].text")
  */
 
+import { compilePath } from '../../paths';
 import type { PathSegment } from '../types';
 
 /**
@@ -14,6 +15,11 @@ import type { PathSegment } from '../types';
  * - Dot segments form nested objects: "plan.nextSteps" -> ["plan", "nextSteps"]
  * - Segment ending with "[]" creates array: "plan.homework[]" -> ["plan", "homework[]"]
  * - After array segment, next segment is in items.properties
+ * - Predicates ("[?primary]") and stacked accessors ("grid[][]") cannot describe
+ *   a schema location and are rejected
+ *
+ * Syntax is checked by the shared path engine (paths/compilePath), so a path
+ * accepted here reads and writes the same way everywhere else.
  *
  * @param path - The path string (e.g., "plan.homework[].text")
  * @returns Array of path segments with array markers
@@ -37,47 +43,30 @@ export function parsePath(path: string): PathSegment[] {
     throw new Error('Path must be a non-empty string');
   }
 
-  // Split on dots
-  const segments = path.split('.');
-
-  if (segments.length === 0) {
-    throw new Error('Path must contain at least one segment');
-  }
+  const { steps } = compilePath(path);
+  const segments: PathSegment[] = [];
 
-  return segments.map((segment) => {
-    if (!segment) {
-      throw new Error(`Invalid path: empty segment in "${path}"`);
+  for (const step of steps) {
+    if (step.kind === 'key') {
+      segments.push({ name: step.key, isArray: false });
+      continue;
     }
 
-    // Check for indexed array: "key[0]", "key[1]", etc.
-    const indexedArrayMatch = segment.match(/^([a-zA-Z_][a-zA-Z0-9_-]*)\[(\d+)\]$/);
-    if (indexedArrayMatch) {
-      return {
-        name: indexedArrayMatch[1],
-        isArray: true,
-        index: Number(indexedArrayMatch[2])
-      };
+    const current = segments[segments.length - 1];
+    if (step.kind === 'filter') {
+      throw new Error(`Invalid path "${path}": predicates are only allowed when reading source data`);
     }
-
-    // Check if this segment represents a wildcard array: "key[]"
-    const isArray = segment.endsWith('[]');
-    const name = isArray ? segment.slice(0, -2) : segment;
-
-    if (!name) {
-      throw new Error(`Invalid path: array marker without name in "${path}"`);
+    if (current.isArray) {
+      throw new Error(`Invalid path "${path}": segment "${current.name}" has more than one array marker`);
     }
 
-    // Validate segment name (alphanumeric, underscores, hyphens)
-    if (!/^[a-zA-Z_][a-zA-Z0-9_-]*$/.test(name)) {
-      throw new Error(
-        `Invalid path segment "${segment}" in "${path}". ` +
-        'Segments must start with a letter or underscore, ' +
-        'followed by letters, numbers, underscores, or hyphens.'
-      );
+    current.isArray = true;
+    if (step.kind === 'index') {
+      current.index = step.index;
     }
+  }
 
-    return { name, isArray };
-  });
+  return segments;
 }
 
 /**
@@ -80,6 +80,43 @@ export function createStringNode(constraints?: ContentConstraints): SchemaNode {
 	return node;
 }
 
+/**
+ * Allow null for a field that may be absent because a `showIf` condition hides it
+ *
+ * Structured outputs require every key, so optional AI fields are expressed as
+ * nullable rather than left out of `required`.
+ *
+ * @param node - Scalar schema node
+ * @returns Copy of the node whose type (and enum) also accept null
+ */
+export function makeNullable(node: SchemaNode): SchemaNode {
+	const nullable: SchemaNode = { ...node, type: [getBaseType(node), 'null'] };
+	if (node.enum && !node.enum.includes(null)) {
+		nullable.enum = [...node.enum, null];
+	}
+	return nullable;
+}
+
+/**
+ * Get the JSON type of a node without its nullable marker
+ *
+ * @param node - Schema node
+ * @returns Base type such as "string" or "object"
+ */
+export function getBaseType(node: SchemaNode): string {
+	return Array.isArray(node.type) ? node.type[0] : node.type;
+}
+
+/**
+ * Whether a node accepts null
+ *
+ * @param node - Schema node
+ * @returns True for nodes built by makeNullable
+ */
+export function isNullable(node: SchemaNode): boolean {
+	return Array.isArray(node.type);
+}
+
 /**
  * Create a number schema node with optional constraints
  *
@@ -149,7 +186,7 @@ export function addProperty(
 			);
 		} else if (
 			options.path?.includes('[]') &&
-			existingSchema.type === propertySchema.type
+			getBaseType(existingSchema) === getBaseType(propertySchema)
 		) {
 			// Multiple indexed entries contributing to the same array item schema.
 			// Schema is already defined, so nothing to merge.
@@ -193,18 +230,23 @@ export function addProperty(
  * @throws Error if nodes have incompatible types
  */
 export function mergeNodes(nodeA: SchemaNode, nodeB: SchemaNode, path: string): SchemaNode {
-	// Type conflict check
-	if (nodeA.type !== nodeB.type) {
+	// Type conflict check (nullability aside)
+	const baseType = getBaseType(nodeA);
+	if (baseType !== getBaseType(nodeB)) {
 		throw new Error(
 			`Type conflict at path "${path}": ` +
-				`one schema says "${nodeA.type}", other says "${nodeB.type}"`
+				`one schema says "${baseType}", other says "${getBaseType(nodeB)}"`
 		);
 	}
 
-	const merged: SchemaNode = { ...nodeA };
+	// Null stays allowed only when both sides allow it (stricter wins)
+	const merged: SchemaNode = {
+		...nodeA,
+		type: isNullable(nodeA) && isNullable(nodeB) ? nodeA.type : baseType,
+	};
 
 	// Merge based on type
-	if (nodeA.type === 'object') {
+	if (baseType === 'object') {
 		// Merge properties recursively
 		merged.properties = { ...(nodeA.properties || {}) };
 
@@ -229,14 +271,14 @@ export function mergeNodes(nodeA: SchemaNode, nodeB: SchemaNode, path: string):
 		// Keep stricter additionalProperties (false is stricter than true)
 		merged.additionalProperties =
 			nodeA.additionalProperties === false || nodeB.additionalProperties === false ? false : true;
-	} else if (nodeA.type === 'array') {
+	} else if (baseType === 'array') {
 		// Merge array items recursively
 		if (nodeA.items && nodeB.items) {
 			merged.items = mergeNodes(nodeA.items, nodeB.items, `${path}[]`);
 		} else {
 			merged.items = nodeA.items || nodeB.items;
 		}
-	} else if (nodeA.type === 'string') {
+	} else if (baseType === 'string') {
 		const mergedEnum = mergeEnums(nodeA.enum, nodeB.enum, path);
 		if (mergedEnum) {
 			merged.enum = mergedEnum;
@@ -290,7 +332,7 @@ export function mergeNodes(nodeA: SchemaNode, nodeB: SchemaNode, path: string):
 		} else {
 			delete merged['x-maxSentences'];
 		}
-	} else if (nodeA.type === 'number') {
+	} else if (baseType === 'number') {
 		const mergedMinimum = mergeLowerBound(nodeA.minimum, nodeB.minimum);
 		const mergedMaximum = mergeUpperBound(nodeA.maximum, nodeB.maximum);
 		assertBoundsConsistency(path, 'minimum', mergedMinimum, 'maximum', mergedMaximum);
@@ -319,7 +361,11 @@ export function mergeNodes(nodeA: SchemaNode, nodeB: SchemaNode, path: string):
  * Compute compatible enum values shared by both schema nodes.
  * Throws if no overlap exists, because merged schema would otherwise be unsatisfiable.
  */
-function mergeEnums(enumA: string[] | undefined, enumB: string[] | undefined, path: string): string[] | undefined {
+function mergeEnums(
+	enumA: SchemaNode['enum'],
+	enumB: SchemaNode['enum'],
+	path: string
+): SchemaNode['enum'] {
 	if (!enumA && !enumB) {
 		return undefined;
 	}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import { diffTemplates, formatChangelog, getDeclaredBump } from '..';
+import type { TemplateChange } from '..';
+
+const baseline: NoteTemplate = {
+  id: 'progress-note',
+  name: 'Progress Note',
+  version: '1.0.0',
+  style: { font: 'Inter', color: '#111111', accent: '#3366FF', spacing: 8 },
+  prompt: { system: 'You are a clinical assistant.', main: 'Write the progress note.' },
+  layout: [
+    {
+      id: 'header',
+      type: 'header',
+      content: [{ id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' }],
+    },
+    {
+      id: 'assessment',
+      type: 'section',
+      title: 'Assessment',
+      content: [
+        {
+          id: 'assessment-summary',
+          slot: 'ai',
+          outputPath: 'assessment.summary',
+          guidance: ['Summarize the session.'],
+          constraints: { required: true, maxWords: 120 },
+        },
+        {
+          id: 'assessment-risk',
+          slot: 'ai',
+          outputPath: 'assessment.risk',
+          constraints: { enum: ['low', 'moderate', 'high'] },
+        },
+      ],
+    },
+    {
+      id: 'plan',
+      type: 'list',
+      title: 'Plan',
+      content: [{ id: 'plan-steps', slot: 'ai', outputPath: 'plan.steps[]', listItems: [{ id: 'plan-step', slot: 'ai', outputPath: 'plan.steps[]' }] }],
+    },
+  ],
+};
+
+function edit(change: (template: NoteTemplate) => void, version = '1.0.1'): NoteTemplate {
+  const next = JSON.parse(JSON.stringify(baseline)) as NoteTemplate;
+  next.version = version;
+  change(next);
+  return next;
+}
+
+function kinds(changes: TemplateChange[]): string[] {
+  return changes.map(change => `${change.kind}:${change.impact}`);
+}
+
+describe('diffTemplates', () => {
+  it('reports no changes and a bump of none for identical templates', () => {
+    const diff = diffTemplates(baseline, baseline);
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.recommendedBump).toBe('none');
+    expect(diff.bumpSufficient).toBe(true);
+    expect(formatChangelog(diff)).toContain('No changes.');
+  });
+
+  it('classifies renames, tightened constraints, and additions as breaking or minor', () => {
+    const next = edit(template => {
+      const [summary, risk] = template.layout[1].content ?? [];
+      summary.outputPath = 'assessment.overview';
+      summary.constraints = { required: true, maxWords: 60 };
+      risk.constraints = { enum: ['low', 'high', 'imminent'] };
+      template.layout[2].content?.push({ id: 'plan-followup', slot: 'ai', outputPath: 'plan.followUp' });
+    }, '1.1.0');
+
+    const diff = diffTemplates(baseline, next);
+    const messages = diff.changes.map(change => change.message);
+
+    expect(messages).toContain('Renamed `assessment.summary` to `assessment.overview`');
+    expect(messages).toContain('`assessment.risk` enum no longer allows "moderate"');
+    expect(messages).toContain('`assessment.risk` enum now allows "imminent"');
+    expect(messages).toContain('Added `plan.followUp` (required)');
+    expect(diff.changes.find(change => change.kind === 'path-renamed')?.schemas).toEqual(['ais', 'rps']);
+    expect(messages).not.toContain('Removed `assessment.summary`');
+
+    expect(diff.recommendedBump).toBe('major');
+    expect(diff.declaredBump).toBe('minor');
+    expect(diff.bumpSufficient).toBe(false);
+
+    const changelog = formatChangelog(diff);
+    expect(changelog).toStartWith('# progress-note 1.0.0 -> 1.1.0\n\nRecommended bump: major (declared: minor)');
+    expect(changelog).toContain('Warning: these changes need a major bump, but the version only declares minor.');
+    expect(changelog).toContain('## Breaking changes\n\n- Renamed `assessment.summary` to `assessment.overview` (AIS, RPS)');
+  });
+
+  it('detects type changes, lowered word limits, and removed paths', () => {
+    const next = edit(template => {
+      const [summary] = template.layout[1].content ?? [];
+      summary.constraints = { required: true, maxWords: 80 };
+      template.layout[2].content = [];
+      template.layout[0].content = [
+        { id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' },
+        { id: 'visit-count', slot: 'computed', targetPath: 'patient.visits', formula: '1', resultType: 'number' },
+      ];
+    }, '2.0.0');
+
+    const diff = diffTemplates(baseline, next);
+
+    expect(kinds(diff.changes)).toContain('constraint-tightened:major');
+    expect(diff.changes.map(change => change.message)).toEqual(
+      expect.arrayContaining(['`assessment.summary` maxWords lowered from 120 to 80', 'Removed `plan`'])
+    );
+    expect(diff.recommendedBump).toBe('major');
+    expect(diff.bumpSufficient).toBe(true);
+  });
+
+  it('treats moved components and prompt or guidance edits as patch changes', () => {
+    const next = edit(template => {
+      template.layout = [template.layout[0], template.layout[2], template.layout[1]];
+      template.prompt = { ...template.prompt, system: 'You are a careful clinical assistant.' };
+      const [summary] = template.layout[2].content ?? [];
+      summary.guidance = ['Summarize the session in plain language.'];
+      template.layout[1].title = 'Treatment Plan';
+    });
+
+    const diff = diffTemplates(baseline, next);
+
+    expect(diff.changes.map(change => change.message)).toEqual([
+      'Component `plan` changed: title',
+      'Reordered component `assessment` within the top level',
+      'Edited the system prompt',
+      'Edited guidance for `assessment-summary`',
+    ]);
+    expect(diff.recommendedBump).toBe('patch');
+    expect(diff.bumpSufficient).toBe(true);
+  });
+
+  it('derives the declared bump from the version strings', () => {
+    expect(getDeclaredBump('1.2.3', '2.0.0')).toBe('major');
+    expect(getDeclaredBump('1.2.3', '1.3.0')).toBe('minor');
+    expect(getDeclaredBump('1.2.3', '1.2.4')).toBe('patch');
+    expect(getDeclaredBump('1.2.3-beta.1', '1.2.3')).toBe('patch');
+    expect(getDeclaredBump('1.2.3', '1.2.3')).toBe('none');
+    expect(getDeclaredBump('1.2.3', '1.2.2')).toBeUndefined();
+    expect(getDeclaredBump('1.2.3', 'next')).toBeUndefined();
+  });
+});
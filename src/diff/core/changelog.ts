@@ -0,0 +1,53 @@
+/**
+ * Template Changelog
+ *
+ * Domain: diff/core
+ * Responsibility: Render a TemplateDiff as a Markdown changelog grouped by impact.
+ */
+
+import type { ChangeImpact, TemplateChange, TemplateDiff } from '../types';
+
+const SECTIONS: Array<{ impact: ChangeImpact; heading: string }> = [
+  { impact: 'major', heading: 'Breaking changes' },
+  { impact: 'minor', heading: 'Additions and relaxed rules' },
+  { impact: 'patch', heading: 'Layout, prompt, and wording changes' },
+];
+
+/**
+ * Format a template diff as a human-readable Markdown changelog.
+ */
+export function formatChangelog(diff: TemplateDiff): string {
+  const lines = [
+    `# ${diff.templateId} ${diff.fromVersion} -> ${diff.toVersion}`,
+    '',
+    `Recommended bump: ${diff.recommendedBump} (declared: ${diff.declaredBump ?? 'invalid'})`,
+  ];
+
+  if (!diff.bumpSufficient) {
+    lines.push(
+      '',
+      diff.declaredBump === undefined
+        ? `Warning: ${diff.toVersion} does not follow ${diff.fromVersion}.`
+        : `Warning: these changes need a ${diff.recommendedBump} bump, but the version only declares ${diff.declaredBump}.`
+    );
+  }
+
+  if (diff.changes.length === 0) {
+    lines.push('', 'No changes.');
+    return `${lines.join('\n')}\n`;
+  }
+
+  for (const { impact, heading } of SECTIONS) {
+    const changes = diff.changes.filter(change => change.impact === impact);
+    if (changes.length > 0) {
+      lines.push('', `## ${heading}`, '', ...changes.map(formatChange));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function formatChange(change: TemplateChange): string {
+  const schemas = change.schemas?.length ? ` (${change.schemas.map(kind => kind.toUpperCase()).join(', ')})` : '';
+  return `- ${change.message}${schemas}`;
+}
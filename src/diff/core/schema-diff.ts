@@ -0,0 +1,262 @@
+/**
+ * Schema Diff
+ *
+ * Domain: diff/core
+ * Responsibility: Classify path, type, and constraint changes between two
+ * versions of one derived schema (AIS, NAS, or RPS).
+ *
+ * SOR: Anything that can invalidate a previously valid payload or take away
+ * data consumers read is major; additions and loosened constraints are minor.
+ */
+
+import type { DerivedSchema, SchemaNode } from '../../derivation/types';
+import { getBaseType, isNullable } from '../../derivation/utils/schema-builder';
+import type { DiffSchemaKind, TemplateChange } from '../types';
+
+interface SchemaEntry {
+  type: string;
+  nullable: boolean;
+  required: boolean;
+  container: boolean;
+  node: SchemaNode;
+}
+
+type BoundKey = 'x-minWords' | 'x-maxWords' | 'x-minSentences' | 'x-maxSentences' | 'minimum' | 'maximum';
+
+const BOUNDS: Array<{ key: BoundKey; label: string; upper: boolean }> = [
+  { key: 'x-minWords', label: 'minWords', upper: false },
+  { key: 'x-maxWords', label: 'maxWords', upper: true },
+  { key: 'x-minSentences', label: 'minSentences', upper: false },
+  { key: 'x-maxSentences', label: 'maxSentences', upper: true },
+  { key: 'minimum', label: 'minimum', upper: false },
+  { key: 'maximum', label: 'maximum', upper: true },
+];
+
+/**
+ * Compare two versions of a derived schema.
+ *
+ * @param kind - Which schema is being compared
+ * @param from - Schema of the older template version
+ * @param to - Schema of the newer template version
+ * @param renames - Known path renames (old path -> new path) from content item ids
+ * @returns Changes tagged with `schemas: [kind]`
+ */
+export function diffSchemas(
+  kind: DiffSchemaKind,
+  from: DerivedSchema,
+  to: DerivedSchema,
+  renames: Map<string, string>
+): TemplateChange[] {
+  const before = collectEntries(from.properties, from.required, '');
+  const after = collectEntries(to.properties, to.required, '');
+  const changes: TemplateChange[] = [];
+  const schemas: DiffSchemaKind[] = [kind];
+
+  const removed = [...before.keys()].filter(path => !after.has(path));
+  const introduced = [...after.keys()].filter(path => !before.has(path));
+  const added = new Set(introduced);
+  const renamedFrom = new Set<string>();
+  const renamedTo = new Set<string>();
+
+  const rename = (oldPath: string, newPath: string) => {
+    renamedFrom.add(oldPath);
+    renamedTo.add(newPath);
+    added.delete(newPath);
+    changes.push({
+      kind: 'path-renamed',
+      impact: 'major',
+      message: `Renamed \`${oldPath}\` to \`${newPath}\``,
+      path: oldPath,
+      schemas,
+    });
+  };
+
+  for (const path of removed) {
+    const target = renames.get(path);
+    if (target && added.has(target)) {
+      rename(path, target);
+    }
+  }
+
+  // Unexplained leaf pairs with the same parent and shape are renames too
+  for (const path of removed) {
+    if (renamedFrom.has(path) || before.get(path)?.container) continue;
+    const signature = entrySignature(before.get(path));
+    const candidates = [...added].filter(
+      candidate => parentPath(candidate) === parentPath(path) && entrySignature(after.get(candidate)) === signature
+    );
+    const rivals = removed.filter(
+      other => !renamedFrom.has(other) && parentPath(other) === parentPath(path) && entrySignature(before.get(other)) === signature
+    );
+    if (candidates.length === 1 && rivals.length === 1) {
+      rename(path, candidates[0]);
+    }
+  }
+
+  const remainingRemoved = topmost(removed.filter(path => !renamedFrom.has(path) && !explained(path, removed, renamedFrom)));
+  const remainingAdded = topmost([...added].filter(path => !explained(path, introduced, renamedTo)));
+
+  for (const path of remainingRemoved) {
+    changes.push({ kind: 'path-removed', impact: 'major', message: `Removed \`${path}\``, path, schemas });
+  }
+  for (const path of remainingAdded) {
+    const required = after.get(path)?.required ? ' (required)' : '';
+    changes.push({ kind: 'path-added', impact: 'minor', message: `Added \`${path}\`${required}`, path, schemas });
+  }
+
+  for (const [path, previous] of before) {
+    const next = after.get(path);
+    if (next) {
+      changes.push(...compareEntries(path, previous, next, schemas));
+    }
+  }
+
+  return changes;
+}
+
+function compareEntries(path: string, previous: SchemaEntry, next: SchemaEntry, schemas: DiffSchemaKind[]): TemplateChange[] {
+  const changes: TemplateChange[] = [];
+  const tightened = (detail: string) =>
+    changes.push({ kind: 'constraint-tightened', impact: 'major', message: `\`${path}\` ${detail}`, path, schemas });
+  const loosened = (detail: string) =>
+    changes.push({ kind: 'constraint-loosened', impact: 'minor', message: `\`${path}\` ${detail}`, path, schemas });
+
+  if (previous.type !== next.type) {
+    changes.push({
+      kind: 'type-changed',
+      impact: 'major',
+      message: `\`${path}\` type changed from ${previous.type} to ${next.type}`,
+      path,
+      schemas,
+    });
+    return changes;
+  }
+
+  if (!previous.nullable && next.nullable) {
+    changes.push({ kind: 'type-changed', impact: 'major', message: `\`${path}\` is now nullable`, path, schemas });
+  } else if (previous.nullable && !next.nullable) {
+    tightened('is no longer nullable');
+  }
+
+  if (!previous.required && next.required) {
+    tightened('is now required');
+  } else if (previous.required && !next.required) {
+    loosened('is no longer required');
+  }
+
+  const oldEnum = enumValues(previous.node);
+  const newEnum = enumValues(next.node);
+  if (oldEnum && !newEnum) {
+    loosened('no longer restricts values to an enum');
+  } else if (!oldEnum && newEnum) {
+    tightened(`is now restricted to ${formatValues(newEnum)}`);
+  } else if (oldEnum && newEnum) {
+    const dropped = oldEnum.filter(value => !newEnum.includes(value));
+    const gained = newEnum.filter(value => !oldEnum.includes(value));
+    if (dropped.length > 0) tightened(`enum no longer allows ${formatValues(dropped)}`);
+    if (gained.length > 0) loosened(`enum now allows ${formatValues(gained)}`);
+  }
+
+  for (const { key, label, upper } of BOUNDS) {
+    const oldValue = previous.node[key];
+    const newValue = next.node[key];
+    if (oldValue === newValue) continue;
+
+    if (newValue === undefined) {
+      loosened(`${label} ${oldValue} removed`);
+    } else if (oldValue === undefined) {
+      tightened(`${label} ${newValue} added`);
+    } else if (upper ? newValue < oldValue : newValue > oldValue) {
+      tightened(`${label} ${upper ? 'lowered' : 'raised'} from ${oldValue} to ${newValue}`);
+    } else {
+      loosened(`${label} ${upper ? 'raised' : 'lowered'} from ${oldValue} to ${newValue}`);
+    }
+  }
+
+  if (previous.node.pattern !== next.node.pattern) {
+    if (next.node.pattern === undefined) {
+      loosened('pattern removed');
+    } else {
+      tightened(`pattern ${previous.node.pattern === undefined ? 'added' : 'changed'}: ${next.node.pattern}`);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Index every node by its path; array items use `path[]`.
+ */
+function collectEntries(
+  properties: Record<string, SchemaNode> | undefined,
+  required: string[] | undefined,
+  prefix: string,
+  out = new Map<string, SchemaEntry>()
+): Map<string, SchemaEntry> {
+  for (const [key, node] of Object.entries(properties ?? {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    addEntry(path, node, Boolean(required?.includes(key)), out);
+  }
+  return out;
+}
+
+function addEntry(path: string, node: SchemaNode, required: boolean, out: Map<string, SchemaEntry>): void {
+  out.set(path, {
+    type: getBaseType(node),
+    nullable: isNullable(node),
+    required,
+    container: Boolean(node.properties || node.items),
+    node,
+  });
+
+  if (node.properties) {
+    collectEntries(node.properties, node.required, path, out);
+  }
+  if (node.items) {
+    addEntry(`${path}[]`, node.items, true, out);
+  }
+}
+
+/**
+ * A container whose changed descendants were all renamed is covered by those renames.
+ */
+function explained(path: string, paths: string[], renamed: Set<string>): boolean {
+  const descendants = paths.filter(other => isDescendant(other, path));
+  const renamedDescendants = descendants.filter(other => renamed.has(other));
+  return renamedDescendants.length > 0 && descendants.every(other => renamed.has(other) || !isLeafOf(other, paths));
+}
+
+function isLeafOf(path: string, paths: string[]): boolean {
+  return !paths.some(other => isDescendant(other, path));
+}
+
+/**
+ * Drop paths whose ancestor is already listed.
+ */
+function topmost(paths: string[]): string[] {
+  return paths.filter(path => !paths.some(other => isDescendant(path, other)));
+}
+
+function isDescendant(path: string, ancestor: string): boolean {
+  return path.startsWith(`${ancestor}.`) || path.startsWith(`${ancestor}[]`);
+}
+
+function parentPath(path: string): string {
+  if (path.endsWith('[]')) {
+    return path.slice(0, -2);
+  }
+  const dot = path.lastIndexOf('.');
+  return dot === -1 ? '' : path.slice(0, dot);
+}
+
+function entrySignature(entry: SchemaEntry | undefined): string {
+  return JSON.stringify(entry?.node ?? null);
+}
+
+function enumValues(node: SchemaNode): string[] | undefined {
+  return node.enum?.filter((value): value is string => value !== null);
+}
+
+function formatValues(values: string[]): string {
+  return values.map(value => JSON.stringify(value)).join(', ');
+}
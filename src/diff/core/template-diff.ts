@@ -0,0 +1,349 @@
+/**
+ * Template Diff
+ *
+ * Domain: diff/core
+ * Responsibility: Compare two versions of a NoteTemplate and their derived
+ * AIS/NAS/RPS schemas, classify every change, and recommend a semver bump.
+ *
+ * SOR: Path, type, and constraint changes come from the schemas; layout,
+ * prompt, and guidance changes come from the templates. Layout changes only
+ * affect rendering, so a removed component's RPS impact is reported through its paths.
+ * DI: Schemas may be supplied (e.g. registry records) instead of re-derived.
+ */
+
+import type { Component, ContentItem, NoteTemplate } from '../../derivation/types';
+import { deriveTemplateSchemas } from '../../registry/core/schema-cache';
+import type { TemplateRecord } from '../../registry/types';
+import { parseSemver } from '../../registry/utils/semver';
+import type {
+  ChangeImpact,
+  DiffSchemaKind,
+  TemplateChange,
+  TemplateDiff,
+  TemplateDiffOptions,
+  VersionBump,
+} from '../types';
+import { diffSchemas } from './schema-diff';
+
+interface ComponentEntry {
+  component: Component;
+  parentId: string | null;
+}
+
+const BUMP_RANK: Record<VersionBump, number> = { none: 0, patch: 1, minor: 2, major: 3 };
+const SCHEMA_KINDS: DiffSchemaKind[] = ['ais', 'nas', 'rps'];
+
+/**
+ * Diff two template versions.
+ *
+ * @param from - Older template version
+ * @param to - Newer template version
+ * @param options - Pre-derived schemas to reuse
+ * @returns Classified changes, the recommended bump, and whether the declared versions satisfy it
+ */
+export function diffTemplates(from: NoteTemplate, to: NoteTemplate, options: TemplateDiffOptions = {}): TemplateDiff {
+  const fromSchemas = options.fromSchemas ?? deriveTemplateSchemas(from);
+  const toSchemas = options.toSchemas ?? deriveTemplateSchemas(to);
+  const renames = collectPathRenames(from, to);
+
+  const changes = [
+    ...mergeSchemaChanges(SCHEMA_KINDS.flatMap(kind => diffSchemas(kind, fromSchemas[kind], toSchemas[kind], renames))),
+    ...diffComponents(from.layout, to.layout),
+    ...diffPrompt(from, to),
+    ...diffGuidance(from, to),
+  ];
+
+  const recommendedBump = recommendBump(changes);
+  const declaredBump = getDeclaredBump(from.version, to.version);
+
+  return {
+    templateId: to.id,
+    fromVersion: from.version,
+    toVersion: to.version,
+    changes,
+    recommendedBump,
+    declaredBump,
+    bumpSufficient: declaredBump !== undefined && BUMP_RANK[declaredBump] >= BUMP_RANK[recommendedBump],
+  };
+}
+
+/**
+ * Diff two registry records, reusing their cached schemas.
+ */
+export function diffTemplateRecords(from: TemplateRecord, to: TemplateRecord): TemplateDiff {
+  return diffTemplates(from.template, to.template, { fromSchemas: from.schemas, toSchemas: to.schemas });
+}
+
+/**
+ * Highest impact among the changes ('none' when there are none).
+ */
+export function recommendBump(changes: TemplateChange[]): VersionBump {
+  return changes.reduce<VersionBump>(
+    (bump, change) => (BUMP_RANK[change.impact] > BUMP_RANK[bump] ? change.impact : bump),
+    'none'
+  );
+}
+
+/**
+ * Bump implied by two version strings; undefined when either is malformed or `to` is not newer.
+ */
+export function getDeclaredBump(fromVersion: string, toVersion: string): VersionBump | undefined {
+  const from = parseSemver(fromVersion);
+  const to = parseSemver(toVersion);
+  if (!from || !to) {
+    return undefined;
+  }
+
+  const parts: Array<[ChangeImpact, number, number]> = [
+    ['major', from.major, to.major],
+    ['minor', from.minor, to.minor],
+    ['patch', from.patch, to.patch],
+  ];
+  for (const [part, before, after] of parts) {
+    if (after !== before) {
+      return after > before ? part : undefined;
+    }
+  }
+
+  // Same numbers: leaving or moving between pre-releases is a patch-level step
+  if (from.prerelease === to.prerelease) return 'none';
+  if (!from.prerelease) return undefined;
+  return !to.prerelease || to.prerelease > from.prerelease ? 'patch' : undefined;
+}
+
+/**
+ * Map old output/target paths to new ones for content items whose id is unchanged.
+ */
+function collectPathRenames(from: NoteTemplate, to: NoteTemplate): Map<string, string> {
+  const before = collectItems(from.layout);
+  const after = collectItems(to.layout);
+  const renames = new Map<string, string>();
+
+  for (const [id, item] of before) {
+    const next = after.get(id);
+    if (!next) continue;
+
+    for (const key of ['outputPath', 'targetPath'] as const) {
+      const oldPath = item[key];
+      const newPath = next[key];
+      if (oldPath && newPath && oldPath !== newPath) {
+        renames.set(normalizePath(oldPath), normalizePath(newPath));
+      }
+    }
+  }
+
+  return renames;
+}
+
+/**
+ * Collapse the same change found in several schemas into one entry.
+ */
+function mergeSchemaChanges(changes: TemplateChange[]): TemplateChange[] {
+  const merged = new Map<string, TemplateChange>();
+
+  for (const change of changes) {
+    const key = `${change.kind}|${change.message}`;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.schemas = [...(existing.schemas ?? []), ...(change.schemas ?? [])];
+    } else {
+      merged.set(key, { ...change, schemas: [...(change.schemas ?? [])] });
+    }
+  }
+
+  return [...merged.values()];
+}
+
+function diffComponents(fromLayout: Component[], toLayout: Component[]): TemplateChange[] {
+  const before = collectComponents(fromLayout);
+  const after = collectComponents(toLayout);
+  const changes: TemplateChange[] = [];
+
+  for (const [id, entry] of after) {
+    if (!before.has(id)) {
+      changes.push({
+        kind: 'component-added',
+        impact: 'minor',
+        message: `Added component \`${id}\` (${entry.component.type})`,
+        componentId: id,
+      });
+    }
+  }
+
+  for (const [id, entry] of before) {
+    const next = after.get(id);
+    if (!next) {
+      changes.push({ kind: 'component-removed', impact: 'minor', message: `Removed component \`${id}\``, componentId: id });
+      continue;
+    }
+
+    if (entry.parentId !== next.parentId) {
+      changes.push({
+        kind: 'component-moved',
+        impact: 'patch',
+        message: `Moved component \`${id}\` from ${describeParent(entry.parentId)} to ${describeParent(next.parentId)}`,
+        componentId: id,
+      });
+    }
+
+    const fields: string[] = [];
+    let impact: ChangeImpact = 'patch';
+    if (entry.component.type !== next.component.type) {
+      fields.push(`type ${entry.component.type} -> ${next.component.type}`);
+      impact = 'minor';
+    }
+    if (entry.component.showIf !== next.component.showIf) {
+      fields.push('showIf');
+      impact = 'minor';
+    }
+    if (entry.component.title !== next.component.title) fields.push('title');
+    if (!sameJson(entry.component.props, next.component.props)) fields.push('props');
+
+    if (fields.length > 0) {
+      changes.push({
+        kind: 'component-changed',
+        impact,
+        message: `Component \`${id}\` changed: ${fields.join(', ')}`,
+        componentId: id,
+      });
+    }
+  }
+
+  changes.push(...diffOrder(fromLayout, toLayout, null));
+  for (const [id, entry] of after) {
+    const previous = before.get(id);
+    if (previous) {
+      changes.push(...diffOrder(previous.component.children ?? [], entry.component.children ?? [], id));
+    }
+  }
+  return changes;
+}
+
+/**
+ * Report components whose position among siblings kept under the same parent changed.
+ */
+function diffOrder(
+  fromSiblings: Component[],
+  toSiblings: Component[],
+  parentId: string | null
+): TemplateChange[] {
+  const toIds = new Set(toSiblings.map(component => component.id));
+  const fromIds = new Set(fromSiblings.map(component => component.id));
+  const oldOrder = fromSiblings.map(component => component.id).filter(id => toIds.has(id));
+  const newOrder = toSiblings.map(component => component.id).filter(id => fromIds.has(id));
+
+  const kept = longestCommonSubsequence(oldOrder, newOrder);
+  return newOrder
+    .filter(id => !kept.has(id))
+    .map(id => ({
+      kind: 'component-moved' as const,
+      impact: 'patch' as const,
+      message: `Reordered component \`${id}\` within ${describeParent(parentId)}`,
+      componentId: id,
+    }));
+}
+
+/**
+ * Ids that keep their relative order; everything else counts as moved.
+ */
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const kept = new Set<string>();
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      kept.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return kept;
+}
+
+function diffPrompt(from: NoteTemplate, to: NoteTemplate): TemplateChange[] {
+  const changes: TemplateChange[] = [];
+  const labels = { system: 'system prompt', main: 'main prompt', rules: 'prompt rules' } as const;
+
+  for (const key of ['system', 'main', 'rules'] as const) {
+    if (!sameJson(from.prompt?.[key], to.prompt?.[key])) {
+      changes.push({ kind: 'prompt-changed', impact: 'patch', message: `Edited the ${labels[key]}` });
+    }
+  }
+
+  return changes;
+}
+
+function diffGuidance(from: NoteTemplate, to: NoteTemplate): TemplateChange[] {
+  const before = collectItems(from.layout);
+  const after = collectItems(to.layout);
+  const changes: TemplateChange[] = [];
+
+  for (const [id, item] of before) {
+    const next = after.get(id);
+    if (!next) continue;
+
+    const fields = (['guidance', 'description'] as const).filter(key => !sameJson(item[key], next[key]));
+    if (fields.length > 0) {
+      changes.push({
+        kind: 'guidance-changed',
+        impact: 'patch',
+        message: `Edited ${fields.join(' and ')} for \`${id}\``,
+        itemId: id,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function collectComponents(
+  layout: Component[],
+  parentId: string | null = null,
+  out = new Map<string, ComponentEntry>()
+): Map<string, ComponentEntry> {
+  for (const component of layout) {
+    out.set(component.id, { component, parentId });
+    if (component.children) {
+      collectComponents(component.children, component.id, out);
+    }
+  }
+  return out;
+}
+
+function collectItems(layout: Component[], out = new Map<string, ContentItem>()): Map<string, ContentItem> {
+  const visit = (item: ContentItem) => {
+    out.set(item.id, item);
+    item.listItems?.forEach(visit);
+    item.tableMap?.forEach(visit);
+  };
+
+  for (const component of layout) {
+    component.content?.forEach(visit);
+    if (component.children) {
+      collectItems(component.children, out);
+    }
+  }
+  return out;
+}
+
+/** Template paths may index arrays (`steps[0]`); schema paths use `steps[]` */
+function normalizePath(path: string): string {
+  return path.replace(/\[\d+\]/g, '[]');
+}
+
+function describeParent(parentId: string | null): string {
+  return parentId ? `\`${parentId}\`` : 'the top level';
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
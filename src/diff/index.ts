@@ -0,0 +1,31 @@
+/**
+ * Diff Domain - Barrel Export
+ *
+ * Domain: diff
+ * Responsibility: Semantic diff of template versions with breaking-change detection
+ *
+ * Usage:
+ * ```typescript
+ * import { diffTemplates, formatChangelog } from './diff';
+ *
+ * const diff = diffTemplates(previousTemplate, nextTemplate);
+ * diff.recommendedBump;   // 'major' when an RPS path was removed or a constraint tightened
+ * console.log(formatChangelog(diff));
+ * ```
+ */
+
+// Core
+export { diffTemplates, diffTemplateRecords, getDeclaredBump, recommendBump } from './core/template-diff';
+export { diffSchemas } from './core/schema-diff';
+export { formatChangelog } from './core/changelog';
+
+// Types
+export type {
+  ChangeImpact,
+  DiffSchemaKind,
+  TemplateChange,
+  TemplateChangeKind,
+  TemplateDiff,
+  TemplateDiffOptions,
+  VersionBump,
+} from './types';
@@ -0,0 +1,86 @@
+/**
+ * Diff Domain Types
+ *
+ * Classified changes between two versions of a template and its derived
+ * AIS/NAS/RPS schemas, with the semver bump they call for.
+ */
+
+import type { TemplateSchemaCache } from '../registry/types';
+
+/**
+ * Derived schema a path change was found in
+ */
+export type DiffSchemaKind = 'ais' | 'nas' | 'rps';
+
+/**
+ * Semver part a change requires bumping
+ */
+export type ChangeImpact = 'major' | 'minor' | 'patch';
+
+/**
+ * Bump recommended for (or declared by) a pair of versions
+ */
+export type VersionBump = ChangeImpact | 'none';
+
+/**
+ * Category of a template change
+ */
+export type TemplateChangeKind =
+  | 'path-added'
+  | 'path-removed'
+  | 'path-renamed'
+  | 'type-changed'
+  | 'constraint-tightened'
+  | 'constraint-loosened'
+  | 'component-added'
+  | 'component-removed'
+  | 'component-moved'
+  | 'component-changed'
+  | 'prompt-changed'
+  | 'guidance-changed';
+
+/**
+ * One classified difference between two template versions
+ */
+export interface TemplateChange {
+  kind: TemplateChangeKind;
+  impact: ChangeImpact;
+  message: string;         // Human-readable summary without the schema names
+
+  /** Schema path (e.g. `plan.steps[].text`) for path, type, and constraint changes */
+  path?: string;
+
+  /** Schemas the path change appears in */
+  schemas?: DiffSchemaKind[];
+
+  componentId?: string;
+  itemId?: string;
+}
+
+/**
+ * Result of diffTemplates
+ */
+export interface TemplateDiff {
+  templateId: string;
+  fromVersion: string;
+  toVersion: string;
+  changes: TemplateChange[];
+
+  /** Highest impact among the changes ('none' when nothing changed) */
+  recommendedBump: VersionBump;
+
+  /** Bump implied by the two version strings; undefined when `to` does not follow `from` */
+  declaredBump?: VersionBump;
+
+  /** True when the declared bump is at least the recommended one */
+  bumpSufficient: boolean;
+}
+
+/**
+ * Options for diffTemplates
+ */
+export interface TemplateDiffOptions {
+  /** Previously derived schemas (e.g. from registry records); derived when omitted */
+  fromSchemas?: TemplateSchemaCache;
+  toSchemas?: TemplateSchemaCache;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import defaultTokensRaw from '../../tokens/defaults/default-tokens.json';
+import type { DesignTokens } from '../../tokens/types';
+import type { RenderPayload } from '../../types/payloads';
+import { renderNoteHTML, renderNoteSections } from '../core/renderer';
+import { renderNoteMarkdown } from '../core/text-renderer';
+import { isConditionMet } from '../utils/visibility';
+
+const tokens = defaultTokensRaw as DesignTokens;
+
+const template: NoteTemplate = {
+  id: 'conditional',
+  name: 'Conditional Template',
+  version: '1.0.0',
+  prompt: { system: 'N/A', main: 'N/A', rules: [] },
+  layout: [
+    {
+      id: 'assessment',
+      type: 'section',
+      title: 'ASSESSMENT',
+      content: [
+        { id: 'summary', slot: 'ai', outputPath: 'assessment.summary' },
+        { id: 'risk-detail', slot: 'ai', outputPath: 'risk.detail', showIf: 'length(risk.flags) > 0' },
+      ],
+    },
+    {
+      id: 'substance-use',
+      type: 'section',
+      title: 'SUBSTANCE USE',
+      showIf: 'screening.auditC >= 4',
+      content: [{ id: 'substance', slot: 'ai', outputPath: 'substance.narrative' }],
+    },
+    {
+      id: 'risk-alert',
+      type: 'alertPanel',
+      title: 'Risk Flags',
+      showIf: 'risk.flags.length > 0',
+      content: [{ id: 'risk-summary', slot: 'static', text: 'Review safety plan.' }],
+    },
+  ],
+};
+
+const payload = (auditC: number | undefined, flags: string[]): RenderPayload => ({
+  assessment: { summary: 'Engaged and reflective.' },
+  screening: auditC === undefined ? {} : { auditC },
+  substance: { narrative: 'Drinks on weekends.' },
+  risk: { flags, detail: 'Passive ideation reported.' },
+});
+
+describe('showIf conditional rendering', () => {
+  it('renders nodes whose conditions pass', () => {
+    const html = renderNoteHTML({ template, payload: payload(5, ['si']), tokens });
+
+    expect(html).toContain('Passive ideation reported.');
+    expect(html).toContain('id="substance-use"');
+    expect(html).toContain('id="risk-alert"');
+  });
+
+  it('skips hidden components and content items in every renderer', () => {
+    const hidden = payload(2, []);
+    const html = renderNoteHTML({ template, payload: hidden, tokens });
+
+    expect(html).toContain('Engaged and reflective.');
+    expect(html).not.toContain('Passive ideation reported.');
+    expect(html).not.toContain('substance-use');
+    expect(html).not.toContain('Drinks on weekends.');
+    expect(html).not.toContain('risk-alert');
+
+    expect(renderNoteSections({ template, payload: hidden, tokens }).map(section => section.component.id)).toEqual([
+      'assessment',
+    ]);
+    expect(renderNoteMarkdown({ template, payload: hidden, tokens })).toBe('## ASSESSMENT\n\nEngaged and reflective.\n');
+  });
+
+  it('treats absent data and failed evaluation as hidden', () => {
+    expect(isConditionMet('screening.auditC >= 4', payload(undefined, []))).toBe(false);
+    expect(isConditionMet('screening.auditC * 2 > 4', payload(undefined, []))).toBe(false);
+    expect(isConditionMet('screening.auditC >=', payload(5, []))).toBe(false);
+    expect(isConditionMet(undefined, {})).toBe(true);
+  });
+});
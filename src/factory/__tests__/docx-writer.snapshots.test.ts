@@ -0,0 +1,178 @@
+/**
+ * DOCX Writer Snapshot Tests
+ *
+ * Domain: factory/__tests__/docx-writer.snapshots.test
+ * Responsibility: Ensure the Word package keeps its structure and applies design tokens.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import defaultTokensRaw from '../../tokens/defaults/default-tokens.json';
+import type { DesignTokens } from '../../tokens/types';
+import type { RenderPayload } from '../../types/payloads';
+import { renderNoteDocx } from '../core/docx-renderer';
+import { readZip } from '../writers/docx/zip';
+
+const tokens = defaultTokensRaw as DesignTokens;
+
+const template: NoteTemplate = {
+  id: 'docx-template',
+  name: 'Supervision Note',
+  version: '1.0.0',
+  prompt: { system: '', main: '', rules: [] },
+  layout: [
+    {
+      id: 'header',
+      type: 'header',
+      children: [
+        {
+          id: 'patient-info',
+          type: 'patientBlock',
+          title: 'PATIENT',
+          content: [
+            { id: 'patient-name', slot: 'lookup', targetPath: 'header.patient.name' },
+            { id: 'patient-dob', slot: 'lookup', targetPath: 'header.patient.dob' },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'alerts',
+      type: 'alertPanel',
+      title: 'Chief Complaint',
+      props: { variant: 'info' },
+      content: [{ id: 'complaint', slot: 'static', text: 'Patient reports persistent insomnia & worry.' }],
+    },
+    {
+      id: 'assessment',
+      type: 'section',
+      title: 'ASSESSMENT',
+      children: [
+        {
+          id: 'diagnostic-table',
+          type: 'table',
+          title: 'DIAGNOSTIC IMPRESSIONS',
+          props: { columns: ['ICD-10', 'Description'], colWidths: ['30%', '70%'] },
+          content: [
+            {
+              id: 'diagnostic-rows',
+              slot: 'ai',
+              tableMap: [
+                { id: 'icd', slot: 'ai', outputPath: 'assessment.diagnostics[].icd' },
+                { id: 'description', slot: 'ai', outputPath: 'assessment.diagnostics[].description' },
+              ],
+            },
+          ],
+        },
+        {
+          id: 'plan',
+          type: 'list',
+          title: 'PLAN',
+          props: { ordered: true },
+          content: [
+            {
+              id: 'plan-items',
+              slot: 'ai',
+              listItems: [{ id: 'plan-step', slot: 'ai', outputPath: 'plan.steps[]' }],
+            },
+          ],
+        },
+        {
+          id: 'quotes',
+          type: 'list',
+          title: 'CLIENT QUOTES',
+          content: [
+            {
+              id: 'quote-items',
+              slot: 'verbatim',
+              listItems: [{ id: 'quote', slot: 'verbatim', targetPath: 'quotes[]' }],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'signature',
+      type: 'signatureBlock',
+      content: [
+        { id: 'rendered-by', slot: 'lookup', targetPath: 'signature.renderedBy' },
+        { id: 'attestation', slot: 'lookup', targetPath: 'signature.attestation' },
+      ],
+    },
+  ],
+};
+
+const payload: RenderPayload = {
+  header: { patient: { name: 'Casey Collier', dob: '12/25/1986' } },
+  assessment: {
+    diagnostics: [
+      { icd: 'F33.1', description: 'Major Depressive Disorder, recurrent, moderate.' },
+      { icd: 'F41.1', description: 'Generalized Anxiety Disorder.' },
+    ],
+  },
+  plan: { steps: ['Continue weekly CBT.', 'Sleep diary for two weeks.'] },
+  quotes: [{ text: 'I lie awake <every> night', ref: 'transcript#t=42' }],
+  signature: {
+    renderedBy: 'Anna Wakeland LPCC',
+    attestation: 'I reviewed and confirm the accuracy of this record.',
+  },
+};
+
+function unpack(docx: Uint8Array): Record<string, string> {
+  const decoder = new TextDecoder();
+  return Object.fromEntries(readZip(docx).map(entry => [entry.path, decoder.decode(entry.data)]));
+}
+
+/** One tag per line so snapshot diffs point at the changed structure */
+function formatXml(xml: string): string {
+  return xml.replace(/></g, '>\n<');
+}
+
+describe('DOCX writer snapshots', () => {
+  it('matches snapshot for headings, field card, alert, table, lists, signature, and sources', () => {
+    const parts = unpack(renderNoteDocx({ template, payload, tokens }));
+
+    expect(Object.keys(parts)).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/core.xml',
+      'word/document.xml',
+      'word/_rels/document.xml.rels',
+      'word/styles.xml',
+      'word/numbering.xml',
+    ]);
+    expect(formatXml(parts['word/document.xml'])).toMatchSnapshot();
+    expect(formatXml(parts['word/numbering.xml'])).toMatchSnapshot();
+  });
+
+  it('applies typography, accent color, page size, and margins from tokens', () => {
+    const custom: DesignTokens = {
+      ...tokens,
+      typography: { ...tokens.typography, fontFamily: '"Source Serif", Georgia, serif', baseSizePx: 16 },
+      color: { ...tokens.color, accent: '#1155cc' },
+      print: { ...tokens.print, pageSize: 'A4', margin: '2cm 1in' },
+    };
+    const parts = unpack(renderNoteDocx({ template, payload, tokens: custom }));
+    const styles = parts['word/styles.xml'];
+    const document = parts['word/document.xml'];
+
+    expect(styles).toContain('<w:rFonts w:ascii="Source Serif" w:hAnsi="Source Serif" w:cs="Source Serif"/>');
+    expect(styles).toContain('<w:sz w:val="24"/>');
+    expect(styles).toContain('w:color="1155CC"');
+    expect(document).toContain('<w:pgSz w:w="11906" w:h="16838"/>');
+    expect(document).toContain('<w:pgMar w:top="1134" w:right="1440" w:bottom="1134" w:left="1440"');
+
+    const contentWidth = 11906 - 1440 - 1440;
+    expect(document).toContain(
+      `<w:gridCol w:w="${Math.round(contentWidth * 0.3)}"/><w:gridCol w:w="${Math.round(contentWidth * 0.7)}"/>`
+    );
+    expect(parts['docProps/core.xml']).toContain('<dc:title>Supervision Note</dc:title>');
+  });
+
+  it('produces identical bytes for identical input', () => {
+    const first = renderNoteDocx({ template, payload, tokens });
+    const second = renderNoteDocx({ template, payload, tokens });
+    expect(Buffer.from(first).equals(Buffer.from(second))).toBe(true);
+    expect(Buffer.from(first.subarray(0, 2)).toString('latin1')).toBe('PK');
+  });
+});
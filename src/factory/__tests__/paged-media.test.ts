@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import { compilePrintCSS } from '../../tokens/core/compiler';
+import defaultTokensRaw from '../../tokens/defaults/default-tokens.json';
+import type { DesignTokens } from '../../tokens/types';
+import type { RenderPayload } from '../../types/payloads';
+import { renderNoteHTML } from '../core/renderer';
+
+const defaults = defaultTokensRaw as DesignTokens;
+
+const tokens: DesignTokens = {
+  ...defaults,
+  print: {
+    ...defaults.print,
+    runningHeader: { left: '{{header.patient.name}}', right: 'DOB: {{header.patient.dob}}' },
+    runningFooter: { left: 'Note date {{header.encounter.date}}', right: 'Page {{page}} of {{pages}}' },
+    firstPage: { margin: '1in 0.75in', runningHeader: { center: 'Confidential "clinical" record' } },
+  },
+  layout: {
+    ...defaults.layout,
+    pageBreaks: { keepTogether: ['table', 'signatureBlock'], breakBeforeSections: true },
+  },
+};
+
+const template: NoteTemplate = {
+  id: 'paged-media',
+  name: 'Paged Media Template',
+  version: '1.0.0',
+  prompt: { system: 'N/A', main: 'N/A', rules: [] },
+  layout: [
+    {
+      id: 'header',
+      type: 'header',
+      props: { keepTogether: true },
+      children: [
+        {
+          id: 'patient-info',
+          type: 'patientBlock',
+          title: 'PATIENT',
+          content: [{ id: 'patient-name', slot: 'lookup', targetPath: 'header.patient.name' }],
+        },
+      ],
+    },
+    {
+      id: 'plan',
+      type: 'section',
+      title: 'PLAN',
+      props: { breakBefore: true },
+      children: [
+        {
+          id: 'meds',
+          type: 'table',
+          title: 'MEDICATIONS',
+          props: { columns: ['Name'], keepTogether: false },
+          content: [{ id: 'med-rows', slot: 'ai', tableMap: [{ id: 'name', slot: 'ai', outputPath: 'plan.meds[].name' }] }],
+        },
+      ],
+    },
+    {
+      id: 'signature',
+      type: 'signatureBlock',
+      content: [{ id: 'rendered-by', slot: 'lookup', targetPath: 'signature.renderedBy' }],
+    },
+  ],
+};
+
+const payload: RenderPayload = {
+  header: { patient: { name: 'Casey <Collier>', dob: '12/25/1986' }, encounter: { date: '2025-03-14' } },
+  plan: { meds: [{ name: 'Sertraline' }] },
+  signature: { renderedBy: 'Anna Wakeland LPCC' },
+};
+
+describe('paged media print support', () => {
+  it('compiles running header/footer margin boxes, page counters, and the first-page variant', () => {
+    const css = compilePrintCSS(tokens, 'hash');
+
+    expect(css).toContain('@top-left { content: string(note-header-patient-name);');
+    expect(css).toContain('@top-right { content: "DOB: " string(note-header-patient-dob);');
+    expect(css).toContain('@bottom-right { content: "Page " counter(page) " of " counter(pages);');
+    expect(css).toContain('@bottom-left { content: "Note date " string(note-header-encounter-date);');
+    expect(css).toContain(
+      '@page :first {\n  margin: 1in 0.75in;\n  @top-left { content: none; }\n  @top-center { content: "Confidential \\"clinical\\" record";'
+    );
+    expect(css).toContain('@top-right { content: none; }\n}');
+    expect(css).toContain(
+      '.note-running [data-running-string="note-header-patient-name"] { string-set: note-header-patient-name content(text); }'
+    );
+    expect(css).toContain('.note thead { display: table-header-group; }');
+    expect(css).toContain('.note .note-section--table, .note .note-signature { break-inside: avoid;');
+    expect(css).toContain('.note .note-section--top ~ .note-section--top { break-before: page;');
+    expect(css).not.toContain('{{');
+  });
+
+  it('drops hidden edges and can disable repeating table headers', () => {
+    const css = compilePrintCSS(
+      { ...tokens, print: { ...tokens.print, showHeader: false, repeatTableHeaders: false } },
+      'hash'
+    );
+
+    expect(css).not.toContain('@top-');
+    expect(css).not.toContain('note-header-patient-name');
+    expect(css).toContain('string-set: note-header-encounter-date');
+    expect(css).toContain('.note thead { display: table-row-group; }');
+  });
+
+  it('renders running strings from payload paths and page-break classes from props', () => {
+    const html = renderNoteHTML({ template, payload, tokens });
+
+    expect(html).toContain(
+      '<article class="note"><div class="note-running" aria-hidden="true">' +
+        '<span data-running-string="note-header-patient-name">Casey &lt;Collier&gt;</span>' +
+        '<span data-running-string="note-header-patient-dob">12/25/1986</span>' +
+        '<span data-running-string="note-header-encounter-date">2025-03-14</span></div>'
+    );
+    expect(html).toContain('<header class="note-header note-keep-together" id="header">');
+    expect(html).toContain('<section class="note-section note-section--top note-break-before" id="plan">');
+    expect(html).toContain('<section class="note-section note-section--table note-allow-break" id="meds">');
+    expect(html).toContain('<section class="note-signature" id="signature">');
+  });
+
+  it('omits running strings when no token references a payload path', () => {
+    const html = renderNoteHTML({ template, payload, tokens: defaults });
+    expect(html).not.toContain('note-running');
+  });
+});
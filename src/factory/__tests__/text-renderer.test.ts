@@ -0,0 +1,177 @@
+/**
+ * Factory Text Renderer Tests
+ *
+ * Domain: factory/__tests__/text-renderer.test
+ * Responsibility: Ensure plain-text and Markdown output mirror the HTML layout.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import defaultTokensRaw from '../../tokens/defaults/default-tokens.json';
+import type { DesignTokens } from '../../tokens/types';
+import type { RenderPayload } from '../../types/payloads';
+import { renderNoteMarkdown, renderNoteText } from '../core/text-renderer';
+import { wrapText } from '../utils/text-wrap';
+
+const tokens = defaultTokensRaw as DesignTokens;
+
+const template: NoteTemplate = {
+  id: 'text-template',
+  name: 'Text Template',
+  version: '1.0.0',
+  prompt: { system: '', main: '', rules: [] },
+  layout: [
+    {
+      id: 'header',
+      type: 'header',
+      children: [
+        {
+          id: 'patient-info',
+          type: 'patientBlock',
+          title: 'PATIENT',
+          content: [
+            { id: 'patient-name', slot: 'lookup', targetPath: 'header.patient.name' },
+            { id: 'patient-dob', slot: 'lookup', targetPath: 'header.patient.dob', format: 'date' },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'safety',
+      type: 'alertPanel',
+      title: 'Safety',
+      props: { variant: 'warning' },
+      content: [{ id: 'safety-text', slot: 'ai', outputPath: 'safety.summary' }],
+    },
+    {
+      id: 'assessment',
+      type: 'section',
+      title: 'Assessment',
+      content: [{ id: 'assessment-summary', slot: 'ai', outputPath: 'assessment.summary' }],
+      children: [
+        {
+          id: 'diagnoses',
+          type: 'table',
+          title: 'Diagnoses',
+          props: { columns: ['Code', 'Description'], colWidths: ['25%', '75%'] },
+          content: [
+            {
+              id: 'dx-map',
+              slot: 'lookup',
+              tableMap: [
+                { id: 'dx-code', slot: 'lookup', targetPath: 'diagnoses[].code' },
+                { id: 'dx-desc', slot: 'lookup', targetPath: 'diagnoses[].description' },
+              ],
+            },
+          ],
+        },
+        {
+          id: 'quotes',
+          type: 'list',
+          title: 'Quotes',
+          props: { ordered: true },
+          content: [
+            {
+              id: 'quote-items',
+              slot: 'verbatim',
+              listItems: [{ id: 'quote', slot: 'verbatim', targetPath: 'quotes[]' }],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      id: 'signature',
+      type: 'signatureBlock',
+      title: 'Signature',
+      content: [
+        { id: 'rendered-by', slot: 'lookup', targetPath: 'signature.renderedBy' },
+        { id: 'attestation', slot: 'static', targetPath: 'signature.attestation' },
+      ],
+    },
+  ],
+};
+
+const payload: RenderPayload = {
+  header: { patient: { name: 'Jane Doe', dob: '1990-04-12' } },
+  safety: { summary: 'Denies SI/HI. Reviewed crisis plan & hotline.' },
+  assessment: {
+    summary: 'Mood improved since last visit; sleep remains fragmented with early waking most nights of the week.',
+  },
+  diagnoses: [
+    { code: 'F33.1', description: 'Major depressive disorder, recurrent, moderate' },
+    { code: 'G47.00', description: 'Insomnia, unspecified' },
+  ],
+  quotes: [{ text: 'I feel *a bit* better', ref: 'transcript#t=120' }, { text: 'Sleep is hard', ref: 'transcript#t=300' }],
+  signature: { renderedBy: 'Dr. Smith, PhD', attestation: 'Electronically signed.' },
+};
+
+const inputs = { template, payload, tokens, options: { dateFormat: 'MM/DD/YYYY' } };
+
+describe('renderNoteText', () => {
+  it('renders headers, alerts, headings, lists, signature, and sources as plain text', () => {
+    const text = renderNoteText(inputs);
+
+    expect(text).toContain('PATIENT\nNAME: Jane Doe\nDOB: 04/12/1990');
+    expect(text).toContain('[WARNING] Safety\n  Denies SI/HI. Reviewed crisis plan & hotline.');
+    expect(text).toContain('ASSESSMENT\n==========');
+    expect(text).toContain('Quotes\n------\n\n1. I feel *a bit* better[1]\n2. Sleep is hard[2]');
+    expect(text).toContain('SIGNATURE\n=========\n\nRendering clinician: Dr. Smith, PhD\n\nElectronically signed.');
+    expect(text).toEndWith('Sources\n[1] transcript#t=120\n[2] transcript#t=300\n');
+    expect(text).not.toContain('<');
+  });
+
+  it('wraps prose and sizes grid table columns from percentage colWidths', () => {
+    const text = renderNoteText(inputs, { width: 40 });
+    const lines = text.split('\n');
+
+    expect(lines.every(line => line.length <= 40)).toBe(true);
+    expect(text).toContain('Mood improved since last visit; sleep\nremains fragmented with early waking');
+    expect(text).toContain([
+      '+----------+--------------------------+',
+      '| Code     | Description              |',
+      '+==========+==========================+',
+      '| F33.1    | Major depressive         |',
+      '|          | disorder, recurrent,     |',
+      '|          | moderate                 |',
+      '+----------+--------------------------+',
+    ].join('\n'));
+  });
+
+  it('disables wrapping with width 0', () => {
+    const text = renderNoteText(inputs, { width: 0 });
+    expect(text).toContain('early waking most nights of the week.');
+    expect(text).not.toContain('early waking most\nnights');
+    expect(text).toContain('| F33.1  | Major depressive disorder, recurrent, moderate |');
+  });
+});
+
+describe('renderNoteMarkdown', () => {
+  it('renders GFM headings, alerts, tables, lists, and footnotes', () => {
+    const markdown = renderNoteMarkdown(inputs);
+
+    expect(markdown).toContain('**PATIENT**\n- **NAME:** Jane Doe\n- **DOB:** 04/12/1990');
+    expect(markdown).toContain('> [!WARNING]\n> **Safety**\n>\n> Denies SI/HI. Reviewed crisis plan & hotline.');
+    expect(markdown).toContain('## Assessment');
+    expect(markdown).toContain('### Diagnoses');
+    expect(markdown).toContain('| Code            | Description                                    |');
+    expect(markdown).toMatch(/\|-{17}\|-{48}\|/);
+    expect(markdown).toContain('1. I feel \\*a bit\\* better[^1]\n2. Sleep is hard[^2]');
+    expect(markdown).toContain('**Rendering clinician:** Dr. Smith, PhD\n\n_Electronically signed._');
+    expect(markdown).toEndWith('[^1]: transcript#t=120\n[^2]: transcript#t=300\n');
+  });
+
+  it('escapes wrapped lines that would start Markdown blocks', () => {
+    const markdown = renderNoteMarkdown(
+      { ...inputs, payload: { ...payload, assessment: { summary: 'PHQ-9 dropped by - 4 points to 12' } } },
+      { width: 16 }
+    );
+    expect(markdown).toContain('PHQ-9 dropped by\n\\- 4 points to 12');
+  });
+});
+
+describe('wrapText', () => {
+  it('splits words longer than the width and keeps existing line breaks', () => {
+    expect(wrapText('abcdefgh ij\nkl', 4)).toEqual(['abcd', 'efgh', 'ij', 'kl']);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Factory Value Format Tests
+ *
+ * Domain: factory/__tests__/value-format.test
+ * Responsibility: Assert render-time formats honor RenderOptions.dateFormat and lang.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import type { RenderPayload } from '../../types/payloads';
+import type { DesignTokens } from '../../tokens/types';
+import defaultTokensRaw from '../../tokens/defaults/default-tokens.json';
+import { renderNoteHTML } from '../core/renderer';
+import { parseDate } from '../utils/date-utils';
+import { formatValue } from '../utils/value-format';
+
+const tokens = defaultTokensRaw as DesignTokens;
+
+describe('formatValue', () => {
+  it('parses US and ISO dates without shifting the calendar day', () => {
+    expect(formatValue('02/11/1991', 'date', { dateFormat: 'YYYY-MM-DD' })).toBe('1991-02-11');
+    expect(formatValue('1991-02-11', 'date', { dateFormat: 'D MMMM YYYY', lang: 'fr' })).toBe('11 février 1991');
+    expect(formatValue('2025-10-24T18:34:00', 'datetime', { dateFormat: 'MM/DD/YYYY' })).toBe('10/24/2025 6:34 PM');
+    expect(formatValue('1991-02-11', 'date')).toBe('02/11/1991');
+    expect(parseDate('02/30/1991')).toBeNull();
+  });
+
+  it('formats numbers, units, and durations and falls back for unparseable input', () => {
+    expect(formatValue(1234.5, 'currency')).toBe('$1,234.50');
+    expect(formatValue('1234.5', 'currency', { currency: 'EUR', lang: 'de' })).toBe('1.234,50 €');
+    expect(formatValue(7.6, 'integer')).toBe('8');
+    expect(formatValue(72.5, 'unit', { unit: 'kilogram' })).toBe('72.5 kg');
+    expect(formatValue(98, 'unit', { unit: 'mg/dL' })).toBe('98 mg/dL');
+    expect(formatValue(135, 'duration')).toBe('2 hr 15 min');
+    expect(formatValue('unknown', 'date')).toBe('unknown');
+    expect(formatValue('', 'currency')).toBeNull();
+  });
+});
+
+describe('renderNoteHTML value formats', () => {
+  const template: NoteTemplate = {
+    id: 'format-test',
+    name: 'Format Template',
+    version: '1.0.0',
+    prompt: { system: '', main: '', rules: [] },
+    layout: [
+      {
+        id: 'header',
+        type: 'header',
+        children: [
+          {
+            id: 'patient-info',
+            type: 'patientBlock',
+            title: 'PATIENT',
+            content: [
+              { id: 'patient-dob', slot: 'lookup', targetPath: 'header.patient.dob', format: 'date' },
+            ],
+          },
+        ],
+      },
+      {
+        id: 'charges',
+        type: 'table',
+        title: 'Charges',
+        props: { columns: ['Date', 'Minutes', 'Amount'] },
+        content: [
+          {
+            id: 'charge-rows',
+            slot: 'lookup',
+            targetPath: 'charges[]',
+            tableMap: [
+              { id: 'charge-date', slot: 'lookup', targetPath: 'charges[].date', format: 'date' },
+              { id: 'charge-minutes', slot: 'lookup', targetPath: 'charges[].minutes', format: 'duration' },
+              { id: 'charge-amount', slot: 'lookup', targetPath: 'charges[].amount', format: 'currency' },
+            ],
+          },
+        ],
+      },
+      {
+        id: 'signature',
+        type: 'signatureBlock',
+        content: [
+          { id: 'rendered-by', slot: 'lookup', targetPath: 'signature.renderedBy' },
+          { id: 'signed-at', slot: 'lookup', targetPath: 'signature.signedAt', format: 'datetime' },
+        ],
+      },
+    ],
+  };
+
+  const payload: RenderPayload = {
+    header: { patient: { dob: '02/11/1991' } },
+    charges: [{ date: '2025-10-24', minutes: 53, amount: 150 }],
+    signature: { renderedBy: 'Anna Wakeland LPCC', signedAt: '2025-10-24T18:34:00' },
+  };
+
+  it('applies RenderOptions.dateFormat across header, table, and signature', () => {
+    const html = renderNoteHTML({ template, payload, tokens, options: { dateFormat: 'MMM D, YYYY' } });
+
+    expect(html).toContain('<dd>Feb 11, 1991</dd>');
+    expect(html).toContain('>Oct 24, 2025</span></td>');
+    expect(html).toContain('>53 min</span></td>');
+    expect(html).toContain('>$150.00</span></td>');
+    expect(html).toContain('Oct 24, 2025 6:34 PM');
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Note Block Builder
+ *
+ * Domain: factory/blocks
+ * Responsibility: Walk `template.layout` against the payload and produce the
+ * format-neutral NoteDocument consumed by the text, Markdown, and DOCX writers.
+ *
+ * SOR: Component semantics (header card configs, signature fallbacks, list rows,
+ * table column grouping, title visibility) match components/ so every output
+ * format shows the same content as renderNoteHTML.
+ */
+import type { Component, ContentItem } from '../../derivation/types';
+import { getByPath, inferArrayRoot } from '../../paths';
+import type { DesignTokens } from '../../tokens/types';
+import type { RenderPayload } from '../../types/payloads';
+import { getHeaderCardConfig } from '../components/header/constants';
+import { shouldShowTitle } from '../components/section-renderer';
+import { deriveFieldKey, deriveLabel, isVerbatimValue } from '../components/shared/content-utils';
+import { SIGNATURE_FIELD_CONFIG } from '../components/signature/constants';
+import { extractTableItems, groupTableItems } from '../components/table/utils';
+import type { FactoryInputs, ValueFormatOptions } from '../types';
+import { pruneHiddenNodes } from '../utils/visibility';
+import type { AlertVariant, FieldLine, Inline, NoteBlock, NoteDocument } from './types';
+import { emphasize, resolveItemRuns, resolveRowRuns, resolveValueRuns } from './values';
+
+interface BuildContext {
+  payload: RenderPayload;
+  tokens: DesignTokens;
+  refs: Set<string>;
+  formatOptions: ValueFormatOptions;
+}
+
+const ALERT_VARIANTS: readonly AlertVariant[] = ['default', 'info', 'warning', 'critical'];
+
+/**
+ * Build the format-neutral document for a note.
+ *
+ * @param inputs - Factory inputs (template, payload, tokens, options)
+ * @returns Blocks in layout order plus the numbered verbatim sources
+ */
+export function buildNoteDocument(inputs: FactoryInputs): NoteDocument {
+  const { template, payload, tokens, options } = inputs;
+  const context: BuildContext = {
+    payload,
+    tokens,
+    refs: new Set<string>(),
+    formatOptions: { lang: options?.lang || 'en', dateFormat: options?.dateFormat },
+  };
+
+  const blocks: NoteBlock[] = [];
+  for (const component of pruneHiddenNodes(template.layout, payload)) {
+    buildComponent(blocks, component, 0, context);
+  }
+
+  return { title: template.name, blocks, sources: [...context.refs] };
+}
+
+function buildComponent(out: NoteBlock[], comp: Component, depth: number, context: BuildContext): void {
+  if (comp.type === 'header') {
+    for (const child of comp.children ?? []) {
+      buildFieldCard(out, child, context);
+    }
+    return;
+  }
+
+  if (comp.type === 'signatureBlock') {
+    buildSignature(out, comp, context);
+    return;
+  }
+
+  const showTitle = shouldShowTitle(comp, context.tokens);
+  if (showTitle && comp.type !== 'alertPanel') {
+    out.push({ kind: 'heading', level: comp.type === 'section' && depth === 0 ? 1 : 2, text: comp.title ?? '' });
+  }
+
+  switch (comp.type) {
+    case 'paragraph':
+    case 'section':
+    case 'footer':
+      for (const item of comp.content ?? []) {
+        if (item.tableMap || item.listItems) continue;
+        const runs = resolveItemRuns(item, context.payload, context.refs, context.formatOptions);
+        if (runs) out.push({ kind: 'paragraph', runs });
+      }
+      break;
+
+    case 'alertPanel':
+      out.push(buildAlert(comp, showTitle, context));
+      break;
+
+    case 'list':
+      out.push(buildList(comp, context));
+      break;
+
+    case 'table':
+      out.push(buildTable(comp, context));
+      break;
+
+    case 'patientBlock':
+      buildFieldCard(out, comp, context);
+      break;
+  }
+
+  for (const child of comp.children ?? []) {
+    buildComponent(out, child, depth + 1, context);
+  }
+}
+
+function buildFieldCard(out: NoteBlock[], comp: Component, context: BuildContext): void {
+  if (!comp.content || comp.content.length === 0) return;
+
+  const config = getHeaderCardConfig(comp.id);
+  const fields: FieldLine[] = [];
+
+  for (const item of comp.content) {
+    const value = resolveItemRuns(item, context.payload, context.refs, context.formatOptions);
+    if (!value) continue;
+
+    const fieldKey = deriveFieldKey(item);
+    const fieldConfig = config.fields?.[fieldKey] ?? {};
+    const mode = fieldConfig.mode ?? config.defaultMode;
+    fields.push(mode === 'text' ? { value } : { label: fieldConfig.label ?? deriveLabel(fieldKey), value });
+  }
+
+  if (comp.title || fields.length > 0) {
+    out.push({ kind: 'fields', ...(comp.title ? { title: comp.title } : {}), fields });
+  }
+}
+
+function buildSignature(out: NoteBlock[], comp: Component, context: BuildContext): void {
+  if (comp.title) {
+    out.push({ kind: 'heading', level: 1, text: comp.title });
+  }
+
+  const lines: Inline[] = [];
+  for (const item of comp.content ?? []) {
+    const key = deriveFieldKey(item);
+    const fieldConfig = SIGNATURE_FIELD_CONFIG[key] ?? {};
+    const value = resolveItemRuns(item, context.payload, context.refs, context.formatOptions);
+    if (!value) continue;
+
+    if ((fieldConfig.mode ?? 'labeled') === 'text') {
+      lines.push(fieldConfig.emphasis === 'italic' ? emphasize(value, 'italic') : value);
+      continue;
+    }
+    lines.push(labeled(fieldConfig.label ?? deriveLabel(key), value));
+  }
+
+  if (lines.length === 0) {
+    appendFallbackSignature(lines, getByPath(context.payload, 'signature'));
+  }
+
+  if (lines.length > 0) {
+    out.push({ kind: 'signature', lines });
+  }
+}
+
+/**
+ * Signature content straight from the payload when the template omits fields.
+ */
+function appendFallbackSignature(lines: Inline[], signature: unknown): void {
+  if (typeof signature !== 'object' || signature === null || Array.isArray(signature)) return;
+  const data = signature as Record<string, unknown>;
+
+  const renderedBy = signatureText(data.renderedBy);
+  const supervisedBy = signatureText(data.supervisedBy);
+  const attestation = signatureText(data.attestation);
+  const accuracy = signatureText(data.accuracyStatement);
+
+  if (renderedBy) lines.push(labeled('Rendering clinician', [{ text: renderedBy }]));
+  if (supervisedBy) lines.push(labeled('Supervising clinician', [{ text: supervisedBy }]));
+  if (attestation) lines.push([{ text: attestation, emphasis: 'italic' }]);
+  if (accuracy) lines.push([{ text: accuracy, emphasis: 'italic' }]);
+}
+
+function signatureText(value: unknown): string | null {
+  if (typeof value === 'string') return value || null;
+  return isVerbatimValue(value) ? value.text || null : null;
+}
+
+function buildAlert(comp: Component, showTitle: boolean, context: BuildContext): NoteBlock {
+  const rawVariant = props(comp).variant;
+  const variant = ALERT_VARIANTS.find(candidate => candidate === rawVariant) ?? 'default';
+  const paragraphs: Inline[] = [];
+
+  for (const item of comp.content ?? []) {
+    const runs = resolveItemRuns(item, context.payload, context.refs, context.formatOptions);
+    if (runs) paragraphs.push(runs);
+  }
+
+  return { kind: 'alert', variant, ...(showTitle && comp.title ? { title: comp.title } : {}), paragraphs };
+}
+
+function buildList(comp: Component, context: BuildContext): NoteBlock {
+  const content = comp.content ?? [];
+  const itemsDef = content[0]?.listItems ?? [];
+  const rowPath = inferArrayRoot(itemsDef);
+  const rowsValue = rowPath ? getByPath(context.payload, rowPath) : undefined;
+  const rowCount = Array.isArray(rowsValue) ? rowsValue.length : 0;
+  const items: Inline[] = [];
+
+  if (rowPath && rowCount > 0) {
+    for (let i = 0; i < rowCount; i++) {
+      const parts = itemsDef
+        .map(def => resolveRowRuns(def, context.payload, rowPath, i, context.refs, context.formatOptions))
+        .filter((runs): runs is Inline => runs !== null);
+      if (parts.length > 0) items.push(joinRuns(parts, ' '));
+    }
+  } else {
+    for (const item of content) {
+      const runs = resolveExplicitListItem(item, context);
+      if (runs) items.push(runs);
+    }
+  }
+
+  return { kind: 'list', ordered: Boolean(props(comp).ordered), items };
+}
+
+function resolveExplicitListItem(item: ContentItem, context: BuildContext): Inline | null {
+  const path = item.outputPath ?? item.targetPath;
+  const value = path ? getByPath(context.payload, path) : undefined;
+
+  if (item.slot === 'verbatim' || value != null) {
+    return resolveValueRuns(value, item, context.refs, context.formatOptions);
+  }
+  if (item.slot === 'static' && typeof item.text === 'string' && item.text) {
+    return [{ text: item.text }];
+  }
+  return null;
+}
+
+function buildTable(comp: Component, context: BuildContext): NoteBlock {
+  const tableProps = props(comp);
+  const columns = Array.isArray(tableProps.columns) ? (tableProps.columns as string[]) : [];
+  const colWidths = Array.isArray(tableProps.colWidths) ? (tableProps.colWidths as string[]) : [];
+  const tableItems = extractTableItems((comp.content ?? [])[0]?.tableMap);
+
+  const columnCount = columns.length > 0 ? columns.length : Math.max(tableItems.length, 1);
+  const columnGroups = groupTableItems(tableItems, columnCount, columns);
+  const visibleColumns = Math.min(columnCount, columnGroups.length || columnCount);
+
+  const rowPath = inferArrayRoot(tableItems);
+  const rowsValue = getByPath(context.payload, rowPath);
+  const rowCount = Array.isArray(rowsValue) ? rowsValue.length : 0;
+  const rows: Inline[][][] = [];
+
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex++) {
+    const cells: Inline[][] = [];
+    for (let colIndex = 0; colIndex < visibleColumns; colIndex++) {
+      cells.push(
+        (columnGroups[colIndex] ?? [])
+          .map(def => resolveRowRuns(def, context.payload, rowPath, rowIndex, context.refs, context.formatOptions))
+          .filter((runs): runs is Inline => runs !== null)
+      );
+    }
+    rows.push(cells);
+  }
+
+  return {
+    kind: 'table',
+    columns,
+    colWidths: colWidths.length === columns.length ? colWidths : [],
+    rows,
+  };
+}
+
+function labeled(label: string, value: Inline): Inline {
+  return [{ text: `${label}:`, emphasis: 'bold' }, { text: ' ' }, ...value];
+}
+
+function joinRuns(parts: Inline[], separator: string): Inline {
+  return parts.flatMap((runs, index) => (index === 0 ? runs : [{ text: separator }, ...runs]));
+}
+
+function props(comp: Component): Record<string, unknown> {
+  return (comp.props as Record<string, unknown> | undefined) ?? {};
+}
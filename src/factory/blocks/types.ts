@@ -0,0 +1,39 @@
+/**
+ * Note Block Types
+ *
+ * Domain: factory/blocks
+ * Responsibility: Format-neutral document model shared by the non-HTML writers.
+ */
+
+/** A run of plain text or a footnote marker pointing into `NoteDocument.sources` */
+export type InlineRun =
+  | { text: string; emphasis?: 'bold' | 'italic' }
+  | { footnote: number };
+
+/** Inline content: runs rendered in order on one logical line */
+export type Inline = InlineRun[];
+
+/** Labeled (or bare, for text-mode fields) value in a header card or patient block */
+export interface FieldLine {
+  label?: string;
+  value: Inline;
+}
+
+/** Alert panel variants (mirrors BaseComponentProps.variant) */
+export type AlertVariant = 'default' | 'info' | 'warning' | 'critical';
+
+export type NoteBlock =
+  | { kind: 'heading'; level: 1 | 2; text: string }
+  | { kind: 'paragraph'; runs: Inline }
+  | { kind: 'fields'; title?: string; fields: FieldLine[] }
+  | { kind: 'list'; ordered: boolean; items: Inline[] }
+  | { kind: 'table'; columns: string[]; colWidths: string[]; rows: Inline[][][] }
+  | { kind: 'alert'; variant: AlertVariant; title?: string; paragraphs: Inline[] }
+  | { kind: 'signature'; lines: Inline[] };
+
+/** Note content in layout order, with verbatim sources numbered from 1 */
+export interface NoteDocument {
+  title: string;
+  blocks: NoteBlock[];
+  sources: string[];
+}
@@ -0,0 +1,150 @@
+/**
+ * Block Value Resolution
+ *
+ * Domain: factory/blocks
+ * Responsibility: Resolve template content into plain inline runs, mirroring the
+ * HTML helpers in components/shared/content-utils without escaping.
+ */
+import type { ContentItem } from '../../derivation/types';
+import { getByPath, normalizeRowPath } from '../../paths';
+import type { RenderPayload } from '../../types/payloads';
+import { extractString, isVerbatimValue } from '../components/shared/content-utils';
+import type { ValueFormatOptions } from '../types';
+import { formatValue, isRenderFormat } from '../utils/value-format';
+import type { Inline } from './types';
+
+/**
+ * Resolve a content item to inline runs using its slot strategy.
+ *
+ * @param item - Template content item definition.
+ * @param payload - Fully-resolved render payload.
+ * @param collectedRefs - Accumulator for verbatim references (numbered in insertion order).
+ * @param formatOptions - Locale settings for date/number formats.
+ * @returns Inline runs, or null when no value is available.
+ */
+export function resolveItemRuns(
+  item: ContentItem,
+  payload: RenderPayload,
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions = {}
+): Inline | null {
+  switch (item.slot) {
+    case 'ai':
+      return item.outputPath ? textRuns(extractString(getByPath(payload, item.outputPath))) : null;
+
+    case 'lookup':
+    case 'computed':
+      return item.targetPath
+        ? textRuns(formatItemValue(getByPath(payload, item.targetPath), item, formatOptions, false))
+        : null;
+
+    case 'static': {
+      const resolved = item.targetPath ? extractString(getByPath(payload, item.targetPath)) : null;
+      return textRuns(resolved ?? item.text ?? null);
+    }
+
+    case 'verbatim':
+      if (!item.targetPath) return textRuns(item.text ?? null);
+      return verbatimRuns(getByPath(payload, item.targetPath), collectedRefs);
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve a list item or table cell value for one row of an array-backed component.
+ *
+ * @param item - Content item mapped to the row.
+ * @param payload - Fully-resolved render payload.
+ * @param rowPath - Normalized array root (e.g. "diagnoses[]"); empty for scalar paths.
+ * @param rowIndex - Row being rendered.
+ * @param collectedRefs - Accumulator for verbatim references.
+ * @param formatOptions - Locale settings for date/number formats.
+ * @returns Inline runs, or null when the row has no value for the item.
+ */
+export function resolveRowRuns(
+  item: ContentItem,
+  payload: RenderPayload,
+  rowPath: string,
+  rowIndex: number,
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions = {}
+): Inline | null {
+  const basePath = item.outputPath ?? item.targetPath;
+  if (!basePath) return null;
+
+  const path = rowPath ? normalizeRowPath(basePath, rowPath, rowIndex) : basePath;
+  return resolveValueRuns(getByPath(payload, path), item, collectedRefs, formatOptions);
+}
+
+/**
+ * Convert an already-resolved payload value into inline runs for a content item.
+ *
+ * @param value - Raw payload value.
+ * @param item - Content item carrying slot, format, and formatOptions.
+ * @param collectedRefs - Accumulator for verbatim references.
+ * @param formatOptions - Locale settings for date/number formats.
+ * @returns Inline runs, or null when the value is empty.
+ */
+export function resolveValueRuns(
+  value: unknown,
+  item: ContentItem,
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions = {}
+): Inline | null {
+  if (item.slot === 'verbatim') {
+    return verbatimRuns(value, collectedRefs);
+  }
+  return textRuns(formatItemValue(value, item, formatOptions, true));
+}
+
+/**
+ * Flatten inline runs to plain text, rendering footnotes with the given marker.
+ *
+ * @param runs - Inline runs to flatten.
+ * @param marker - Footnote marker renderer (default: "[n]").
+ * @returns Plain text.
+ */
+export function inlineToPlain(runs: Inline, marker: (footnote: number) => string = n => `[${n}]`): string {
+  return runs.map(run => ('footnote' in run ? marker(run.footnote) : run.text)).join('');
+}
+
+/**
+ * Apply emphasis to every text run.
+ */
+export function emphasize(runs: Inline, emphasis: 'bold' | 'italic'): Inline {
+  return runs.map(run => ('footnote' in run ? run : { ...run, emphasis }));
+}
+
+function formatItemValue(
+  value: unknown,
+  item: ContentItem,
+  formatOptions: ValueFormatOptions,
+  stringify: boolean
+): string | null {
+  if (isRenderFormat(item.format)) {
+    return formatValue(value, item.format, { ...formatOptions, ...item.formatOptions });
+  }
+  if (!stringify) return extractString(value);
+  return value == null ? null : String(value);
+}
+
+function verbatimRuns(value: unknown, collectedRefs: Set<string>): Inline | null {
+  if (!value) return null;
+
+  if (isVerbatimValue(value)) {
+    const runs: Inline = [{ text: value.text }];
+    if (value.ref) {
+      collectedRefs.add(value.ref);
+      runs.push({ footnote: Array.from(collectedRefs).indexOf(value.ref) + 1 });
+    }
+    return runs;
+  }
+
+  return [{ text: String(value) }];
+}
+
+function textRuns(text: string | null): Inline | null {
+  return text ? [{ text }] : null;
+}
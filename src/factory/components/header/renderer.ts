@@ -6,12 +6,14 @@
  */
 import type { Component } from '../../../derivation/types';
 import type { RenderPayload } from '../../../types/payloads';
+import type { ValueFormatOptions } from '../../types';
 import { escapeAttr, escapeHtml } from '../../utils/html-escape';
 import {
   deriveFieldKey,
   deriveLabel,
   resolveItemText,
 } from '../shared/content-utils';
+import { getPageBreakClasses } from '../section-renderer';
 import type { HeaderCardConfig } from './types';
 import { getHeaderCardConfig } from './constants';
 
@@ -23,20 +25,23 @@ import { getHeaderCardConfig } from './constants';
  * @param payload - Fully-resolved render payload.
  * @param idPrefix - Optional prefix applied to DOM ids for uniqueness.
  * @param collectedRefs - Accumulator for provenance references.
+ * @param formatOptions - Locale settings for date/number formats.
  */
 export function renderHeaderSection(
   out: string[],
   comp: Component,
   payload: RenderPayload,
   idPrefix: string,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions = {}
 ): void {
   const idAttr = comp.id ? ` id="${escapeAttr(idPrefix + comp.id)}"` : '';
-  out.push(`<header class="note-header"${idAttr}>`);
+  const classNames = ['note-header', ...getPageBreakClasses(comp)];
+  out.push(`<header class="${classNames.join(' ')}"${idAttr}>`);
   out.push('<div class="note-header-grid">');
 
   for (const child of comp.children ?? []) {
-    renderHeaderCard(out, child, payload, idPrefix, collectedRefs);
+    renderHeaderCard(out, child, payload, idPrefix, collectedRefs, 'section', formatOptions);
   }
 
   out.push('</div>');
@@ -52,6 +57,7 @@ export function renderHeaderSection(
  * @param idPrefix - Optional prefix applied to DOM ids for uniqueness.
  * @param collectedRefs - Accumulator for provenance references.
  * @param wrapTag - Tag used to wrap the card (section or div depending on context).
+ * @param formatOptions - Locale settings for date/number formats.
  */
 export function renderHeaderCard(
   out: string[],
@@ -59,7 +65,8 @@ export function renderHeaderCard(
   payload: RenderPayload,
   idPrefix: string,
   collectedRefs: Set<string>,
-  wrapTag: 'section' | 'div' = 'section'
+  wrapTag: 'section' | 'div' = 'section',
+  formatOptions: ValueFormatOptions = {}
 ): void {
   if (!comp.content || comp.content.length === 0) {
     return;
@@ -70,6 +77,7 @@ export function renderHeaderCard(
   if (comp.id) {
     classNames.push(`note-header-card--${comp.id.replace(/[^a-z0-9-]/gi, '-').toLowerCase()}`);
   }
+  classNames.push(...getPageBreakClasses(comp));
 
   const idAttr = comp.id ? ` id="${escapeAttr(idPrefix + comp.id)}"` : '';
   const cardChunks: string[] = [`<${wrapTag} class="${classNames.join(' ')}"${idAttr}>`];
@@ -80,7 +88,7 @@ export function renderHeaderCard(
 
   const metaChunks: string[] = [];
   for (const item of comp.content) {
-    const value = resolveItemText(item, payload, collectedRefs);
+    const value = resolveItemText(item, payload, collectedRefs, formatOptions);
     if (!value) continue;
 
     const fieldKey = deriveFieldKey(item);
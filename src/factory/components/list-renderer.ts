@@ -10,8 +10,9 @@ import {
   getByPath,
   inferArrayRoot,
   normalizeRowPath,
-} from "../utils/path-resolver";
-import type { VerbatimValue } from "../types";
+} from "../../paths";
+import type { ValueFormatOptions, VerbatimValue } from "../types";
+import { renderRowValue } from "./shared/content-utils";
 
 /**
  * Renders a list component (ol or ul)
@@ -19,12 +20,14 @@ import type { VerbatimValue } from "../types";
  * @param comp - Component definition from template
  * @param payload - RPS-validated payload
  * @param collectedRefs - Set to collect verbatim refs for provenance
+ * @param formatOptions - Locale settings for date/number formats
  * @returns HTML string for the list
  */
 export function renderListComponent(
   comp: Component,
   payload: RenderPayload,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions = {}
 ): string {
   const props = (comp.props as Record<string, unknown> | undefined) ?? {};
   const ordered = Boolean(props.ordered);
@@ -48,14 +51,14 @@ export function renderListComponent(
 
   if (rowPath && rows.length > 0) {
     for (let i = 0; i < rows.length; i++) {
-      const itemContent = renderListItem(itemsDef, payload, rowPath, i, collectedRefs);
+      const itemContent = renderListItem(itemsDef, payload, rowPath, i, collectedRefs, formatOptions);
       if (itemContent) {
         chunks.push(`<li>${itemContent}</li>`);
       }
     }
   } else {
     for (const item of content) {
-      const rendered = renderExplicitListItem(item, payload, collectedRefs);
+      const rendered = renderExplicitListItem(item, payload, collectedRefs, formatOptions);
       if (rendered) {
         chunks.push(`<li>${rendered}</li>`);
       }
@@ -74,6 +77,7 @@ export function renderListComponent(
  * @param rowPath - Array root path (e.g., "homework[]")
  * @param rowIndex - Current row index
  * @param collectedRefs - Set to collect verbatim refs
+ * @param formatOptions - Locale settings for date/number formats
  * @returns Rendered item content
  */
 function renderListItem(
@@ -81,7 +85,8 @@ function renderListItem(
   payload: RenderPayload,
   rowPath: string,
   rowIndex: number,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions
 ): string {
   const parts: string[] = [];
 
@@ -100,8 +105,9 @@ function renderListItem(
     if (def.slot === "verbatim") {
       const rendered = renderVerbatimValue(value, collectedRefs);
       if (rendered) parts.push(rendered);
-    } else if (value != null) {
-      parts.push(escapeHtml(String(value)));
+    } else {
+      const rendered = renderRowValue(value, def, formatOptions);
+      if (rendered) parts.push(rendered);
     }
   }
 
@@ -111,7 +117,8 @@ function renderListItem(
 function renderExplicitListItem(
   def: ContentItem,
   payload: RenderPayload,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions
 ): string | null {
   if (def.slot === 'verbatim') {
     return renderVerbatimValue(getValueForItem(def, payload), collectedRefs);
@@ -120,7 +127,7 @@ function renderExplicitListItem(
   const value = getValueForItem(def, payload);
 
   if (value != null) {
-    return escapeHtml(String(value));
+    return renderRowValue(value, def, formatOptions);
   }
 
   if (def.slot === 'static' && typeof def.text === 'string') {
@@ -131,7 +138,7 @@ function renderExplicitListItem(
 }
 
 function getValueForItem(def: ContentItem, payload: RenderPayload): unknown {
-  const path = def.outputPath ?? def.targetPath ?? def.lookup;
+  const path = def.outputPath ?? def.targetPath;
   if (path) {
     return getByPath(payload, path);
   }
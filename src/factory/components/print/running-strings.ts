@@ -0,0 +1,41 @@
+/**
+ * Running Header/Footer Strings
+ *
+ * Domain: factory/components/print
+ * Responsibility: Emit the payload values that print margin boxes read through
+ * CSS named strings (see tokens/core/running).
+ */
+import type { DesignTokens } from '../../../tokens/types';
+import type { RenderPayload } from '../../../types/payloads';
+import { getByPath } from '../../../paths';
+import { collectRunningPaths, runningStringName } from '../../../tokens/core/running';
+import { escapeAttr, escapeHtml } from '../../utils/html-escape';
+import { isVerbatimValue } from '../shared/content-utils';
+
+/**
+ * Render a hidden element holding each payload value referenced by the
+ * running header/footer tokens.
+ *
+ * @param out - Mutable HTML chunk accumulator.
+ * @param payload - Fully-resolved render payload.
+ * @param tokens - Active design tokens (print.runningHeader/runningFooter/firstPage).
+ */
+export function renderRunningStrings(out: string[], payload: RenderPayload, tokens: DesignTokens): void {
+  const paths = tokens?.print ? collectRunningPaths(tokens) : [];
+  if (paths.length === 0) return;
+
+  const spans = paths.map(path => {
+    const name = runningStringName(path);
+    const value = runningValue(getByPath(payload, path));
+    return `<span data-running-string="${escapeAttr(name)}">${escapeHtml(value)}</span>`;
+  });
+
+  out.push(`<div class="note-running" aria-hidden="true">${spans.join('')}</div>`);
+}
+
+function runningValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (isVerbatimValue(value)) return value.text;
+  return '';
+}
@@ -10,6 +10,24 @@ import { escapeHtml } from '../utils/html-escape';
  * Map component types to structural CSS classes.
  */
 export function getComponentClass(comp: Component, depth: number): string {
+  return [getStructuralClass(comp, depth), ...getPageBreakClasses(comp)].join(' ');
+}
+
+/**
+ * Print pagination classes from `props.keepTogether` and `props.breakBefore`.
+ */
+export function getPageBreakClasses(comp: Component): string[] {
+  const props = comp.props as Record<string, unknown> | undefined;
+  const classes: string[] = [];
+
+  if (props?.keepTogether === true) classes.push('note-keep-together');
+  if (props?.keepTogether === false) classes.push('note-allow-break');
+  if (props?.breakBefore === true) classes.push('note-break-before');
+
+  return classes;
+}
+
+function getStructuralClass(comp: Component, depth: number): string {
   switch (comp.type) {
     case 'section':
       return depth === 0 ? 'note-section note-section--top' : 'note-section';
@@ -51,7 +69,10 @@ export function renderSectionHeading(
   return `<h3 class="note-subsection-title">${escapeHtml(comp.title ?? '')}</h3>`;
 }
 
-function shouldShowTitle(comp: Component, tokens?: DesignTokens): boolean {
+/**
+ * Whether a component's title is shown (header titles follow tokens, others `props.hideTitle`).
+ */
+export function shouldShowTitle(comp: Component, tokens?: DesignTokens): boolean {
   if (!comp.title) {
     return false;
   }
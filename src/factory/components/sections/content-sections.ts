@@ -7,6 +7,7 @@
 import type { Component } from '../../../derivation/types';
 import type { DesignTokens } from '../../../tokens/types';
 import type { RenderPayload } from '../../../types/payloads';
+import type { ValueFormatOptions } from '../../types';
 import { escapeAttr, escapeHtml } from '../../utils/html-escape';
 import { getComponentClass, renderSectionHeading } from '../section-renderer';
 import { renderListComponent } from '../list-renderer';
@@ -26,6 +27,7 @@ import { renderHeaderSection } from '../header/renderer';
  * @param idPrefix - Optional prefix applied to DOM ids for uniqueness.
  * @param depth - Current section depth used for heading semantics.
  * @param collectedRefs - Accumulator for provenance references.
+ * @param formatOptions - Locale settings for date/number formats.
  */
 export function renderComponent(
   out: string[],
@@ -34,15 +36,16 @@ export function renderComponent(
   tokens: DesignTokens,
   idPrefix: string,
   depth: number,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions = {}
 ): void {
   if (comp.type === 'header') {
-    renderHeaderSection(out, comp, payload, idPrefix, collectedRefs);
+    renderHeaderSection(out, comp, payload, idPrefix, collectedRefs, formatOptions);
     return;
   }
 
   if (comp.type === 'signatureBlock') {
-    renderSignatureSection(out, comp, payload, idPrefix, collectedRefs);
+    renderSignatureSection(out, comp, payload, idPrefix, collectedRefs, formatOptions);
     return;
   }
 
@@ -60,29 +63,29 @@ export function renderComponent(
     case 'paragraph':
     case 'section':
     case 'footer':
-      renderContentItems(out, comp, payload, collectedRefs);
+      renderContentItems(out, comp, payload, collectedRefs, formatOptions);
       break;
 
     case 'alertPanel':
-      renderAlertPanel(out, comp, payload, collectedRefs, heading);
+      renderAlertPanel(out, comp, payload, collectedRefs, heading, formatOptions);
       break;
 
     case 'list':
-      out.push(renderListComponent(comp, payload, collectedRefs));
+      out.push(renderListComponent(comp, payload, collectedRefs, formatOptions));
       break;
 
     case 'table':
-      out.push(renderTableComponent(comp, payload, collectedRefs));
+      out.push(renderTableComponent(comp, payload, collectedRefs, formatOptions));
       break;
 
     case 'patientBlock':
-      renderHeaderCard(out, comp, payload, idPrefix, collectedRefs, 'div');
+      renderHeaderCard(out, comp, payload, idPrefix, collectedRefs, 'div', formatOptions);
       break;
   }
 
   if (comp.children) {
     for (const child of comp.children) {
-      renderComponent(out, child, payload, tokens, idPrefix, depth + 1, collectedRefs);
+      renderComponent(out, child, payload, tokens, idPrefix, depth + 1, collectedRefs, formatOptions);
     }
   }
 
@@ -96,19 +99,21 @@ export function renderComponent(
  * @param comp - Template component containing content items.
  * @param payload - Fully-resolved render payload.
  * @param collectedRefs - Accumulator for provenance references.
+ * @param formatOptions - Locale settings for date/number formats.
  */
 export function renderContentItems(
   out: string[],
   comp: Component,
   payload: RenderPayload,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions = {}
 ): void {
   const content = comp.content ?? [];
 
   for (const item of content) {
     if (item.tableMap || item.listItems) continue;
 
-    const text = resolveItemText(item, payload, collectedRefs);
+    const text = resolveItemText(item, payload, collectedRefs, formatOptions);
     if (!text) continue;
 
     out.push(`<p>${text}</p>`);
@@ -123,13 +128,15 @@ export function renderContentItems(
  * @param payload - Fully-resolved render payload.
  * @param collectedRefs - Accumulator for provenance references.
  * @param headingHtml - Optional heading HTML previously generated for the section.
+ * @param formatOptions - Locale settings for date/number formats.
  */
 export function renderAlertPanel(
   out: string[],
   comp: Component,
   payload: RenderPayload,
   collectedRefs: Set<string>,
-  headingHtml?: string
+  headingHtml?: string,
+  formatOptions: ValueFormatOptions = {}
 ): void {
   const rawVariant = (comp.props as Record<string, unknown> | undefined)?.variant;
   const variant = typeof rawVariant === 'string' ? rawVariant : 'default';
@@ -141,7 +148,7 @@ export function renderAlertPanel(
   }
 
   for (const item of content) {
-    const text = resolveItemText(item, payload, collectedRefs);
+    const text = resolveItemText(item, payload, collectedRefs, formatOptions);
     if (!text) continue;
     chunks.push(`<p>${text}</p>`);
   }
@@ -6,9 +6,10 @@
  */
 import type { ContentItem } from '../../../derivation/types';
 import type { RenderPayload } from '../../../types/payloads';
-import { getByPath } from '../../utils/path-resolver';
+import { getByPath } from '../../../paths';
 import { escapeHtml } from '../../utils/html-escape';
-import type { VerbatimValue } from '../../types';
+import { formatValue, isRenderFormat } from '../../utils/value-format';
+import type { ValueFormatOptions, VerbatimValue } from '../../types';
 
 /**
  * Resolve text for a template content item using its configured slot strategy.
@@ -16,12 +17,14 @@ import type { VerbatimValue } from '../../types';
  * @param item - Template content item definition.
  * @param payload - Fully-resolved render payload.
  * @param collectedRefs - Accumulator for provenance references.
+ * @param formatOptions - Locale settings for date/number formats.
  * @returns Escaped HTML string or null when no value is available.
  */
 export function resolveItemText(
   item: ContentItem,
   payload: RenderPayload,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions = {}
 ): string | null {
   switch (item.slot) {
     case 'ai': {
@@ -34,7 +37,7 @@ export function resolveItemText(
     case 'computed': {
       const path = item.targetPath;
       if (!path) return null;
-      return extractString(getByPath(payload, path));
+      return renderFormattedValue(getByPath(payload, path), item, formatOptions);
     }
 
     case 'static': {
@@ -55,6 +58,45 @@ export function resolveItemText(
   }
 }
 
+/**
+ * Apply a render-time format (date, currency, ...) to a lookup/computed value.
+ *
+ * @param value - Raw payload value.
+ * @param item - Content item carrying format and formatOptions.
+ * @param formatOptions - Locale settings from RenderOptions.
+ * @returns Escaped formatted string, the raw string when no render format applies, or null.
+ */
+export function renderFormattedValue(
+  value: unknown,
+  item: ContentItem,
+  formatOptions: ValueFormatOptions
+): string | null {
+  if (!isRenderFormat(item.format)) {
+    return extractString(value);
+  }
+  const formatted = formatValue(value, item.format, { ...formatOptions, ...item.formatOptions });
+  return formatted === null ? null : escapeHtml(formatted);
+}
+
+/**
+ * Render a row value for list and table cells, applying render-time formats.
+ *
+ * @param value - Raw payload value for the row.
+ * @param item - Content item carrying format and formatOptions.
+ * @param formatOptions - Locale settings from RenderOptions.
+ * @returns Escaped HTML string or null when the value is empty.
+ */
+export function renderRowValue(
+  value: unknown,
+  item: ContentItem,
+  formatOptions: ValueFormatOptions
+): string | null {
+  if (isRenderFormat(item.format)) {
+    return renderFormattedValue(value, item, formatOptions);
+  }
+  return value == null ? null : escapeHtml(String(value));
+}
+
 /**
  * Convert verbatim values into escaped HTML with provenance footnotes.
  *
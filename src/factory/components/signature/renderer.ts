@@ -6,7 +6,8 @@
  */
 import type { Component } from '../../../derivation/types';
 import type { RenderPayload } from '../../../types/payloads';
-import { getByPath } from '../../utils/path-resolver';
+import type { ValueFormatOptions } from '../../types';
+import { getByPath } from '../../../paths';
 import { escapeAttr, escapeHtml } from '../../utils/html-escape';
 import {
   deriveFieldKey,
@@ -14,6 +15,7 @@ import {
   resolveItemText,
   isVerbatimValue,
 } from '../shared/content-utils';
+import { getPageBreakClasses } from '../section-renderer';
 import { SIGNATURE_FIELD_CONFIG } from './constants';
 import type { SignatureDisplayMode } from './types';
 
@@ -25,16 +27,19 @@ import type { SignatureDisplayMode } from './types';
  * @param payload - Fully-resolved render payload.
  * @param idPrefix - Optional prefix applied to DOM ids for uniqueness.
  * @param collectedRefs - Accumulator for provenance references.
+ * @param formatOptions - Locale settings for date/number formats.
  */
 export function renderSignatureSection(
   out: string[],
   comp: Component,
   payload: RenderPayload,
   idPrefix: string,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions = {}
 ): void {
   const idAttr = comp.id ? ` id="${escapeAttr(idPrefix + comp.id)}"` : '';
-  out.push(`<section class="note-signature"${idAttr}>`);
+  const classNames = ['note-signature', ...getPageBreakClasses(comp)];
+  out.push(`<section class="${classNames.join(' ')}"${idAttr}>`);
 
   if (comp.title) {
     out.push(`<h2 class="note-signature-heading">${escapeHtml(comp.title)}</h2>`);
@@ -46,7 +51,7 @@ export function renderSignatureSection(
   for (const item of comp.content ?? []) {
     const key = deriveFieldKey(item);
     const fieldConfig = SIGNATURE_FIELD_CONFIG[key] ?? {};
-    const rawValue = resolveItemText(item, payload, collectedRefs);
+    const rawValue = resolveItemText(item, payload, collectedRefs, formatOptions);
     if (!rawValue) continue;
 
     const mode: SignatureDisplayMode = fieldConfig.mode ?? 'labeled';
@@ -13,8 +13,9 @@ import {
   getByPath,
   inferArrayRoot,
   normalizeRowPath,
-} from '../utils/path-resolver';
-import type { VerbatimValue } from '../types';
+} from '../../paths';
+import type { ValueFormatOptions, VerbatimValue } from '../types';
+import { renderRowValue } from './shared/content-utils';
 import {
   buildCellClassList,
   collectTableDiagnostics,
@@ -31,12 +32,14 @@ import type { ComponentDiagnostic } from '../types';
  * @param comp - Component definition from template
  * @param payload - RPS-validated payload
  * @param collectedRefs - Set to collect verbatim refs for provenance
+ * @param formatOptions - Locale settings for date/number formats
  * @returns HTML string for the table
  */
 export function renderTableComponent(
   comp: Component,
   payload: RenderPayload,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions = {}
 ): string {
   const props = (comp.props as Record<string, unknown> | undefined) ?? {};
   const columns = Array.isArray(props.columns) ? (props.columns as string[]) : [];
@@ -72,7 +75,7 @@ export function renderTableComponent(
   }
 
   // Table body
-  chunks.push(renderTableRows(rows, columnGroups, columnCount, rowPath, payload, collectedRefs));
+  chunks.push(renderTableRows(rows, columnGroups, columnCount, rowPath, payload, collectedRefs, formatOptions));
 
   chunks.push(`</table>`);
   return chunks.join("");
@@ -111,6 +114,7 @@ function renderTableHeaders(columns: string[]): string {
  * @param rowPath - Normalized row path for lookup.
  * @param payload - Fully-resolved render payload.
  * @param collectedRefs - Accumulator for provenance references.
+ * @param formatOptions - Locale settings for date/number formats.
  * @returns HTML string representing the table body.
  */
 function renderTableRows(
@@ -119,7 +123,8 @@ function renderTableRows(
   columnCount: number,
   rowPath: string,
   payload: RenderPayload,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions
 ): string {
   const chunks: string[] = ["<tbody>"];
 
@@ -136,7 +141,8 @@ function renderTableRows(
         payload,
         rowPath,
         rowIndex,
-        collectedRefs
+        collectedRefs,
+        formatOptions
       );
       chunks.push(`<td>${cellContent ?? "&nbsp;"}</td>`);
     }
@@ -157,6 +163,7 @@ function renderTableRows(
  * @param rowPath - Normalized row path for lookup.
  * @param rowIndex - Current row index in the source array.
  * @param collectedRefs - Accumulator for provenance references.
+ * @param formatOptions - Locale settings for date/number formats.
  * @returns HTML string for the column cell or null when empty.
  */
 function renderTableCellGroup(
@@ -165,7 +172,8 @@ function renderTableCellGroup(
   payload: RenderPayload,
   rowPath: string,
   rowIndex: number,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions
 ): string | null {
   if (!colItems || colItems.length === 0) {
     return null;
@@ -175,7 +183,7 @@ function renderTableCellGroup(
   let primaryRendered = false;
 
   for (const colDef of colItems) {
-    const content = renderTableCell(colDef, payload, rowPath, rowIndex, collectedRefs);
+    const content = renderTableCell(colDef, payload, rowPath, rowIndex, collectedRefs, formatOptions);
     if (!content) continue;
 
     const hints = getTableCellHints(colDef);
@@ -202,6 +210,7 @@ function renderTableCellGroup(
  * @param rowPath - Normalized row path for lookup.
  * @param rowIndex - Current row index in the source array.
  * @param collectedRefs - Accumulator for provenance references.
+ * @param formatOptions - Locale settings for date/number formats.
  * @returns Escaped HTML string for the cell or null when blank.
  */
 function renderTableCell(
@@ -209,7 +218,8 @@ function renderTableCell(
   payload: RenderPayload,
   rowPath: string,
   rowIndex: number,
-  collectedRefs: Set<string>
+  collectedRefs: Set<string>,
+  formatOptions: ValueFormatOptions
 ): string | null {
   const basePath = colDef.outputPath ?? colDef.targetPath;
   if (typeof basePath !== "string" || basePath.length === 0) {
@@ -226,8 +236,7 @@ function renderTableCell(
     return renderVerbatimValue(value, collectedRefs);
   }
 
-  if (value == null) return null;
-  return escapeHtml(String(value));
+  return renderRowValue(value, colDef, formatOptions);
 }
 
 /**
@@ -3,13 +3,12 @@ import type { ComponentDiagnostic } from '../../types';
 import type { TableCellHints } from './types';
 
 /**
- * Normalize the template's tableMap definition to an ordered array.
+ * Table cell definitions in column order (empty when the item has no tableMap).
  */
 export function extractTableItems(
   tableMap: ContentItem['tableMap']
 ): ContentItem[] {
-  if (!tableMap) return [];
-  return Array.isArray(tableMap) ? tableMap : Object.values(tableMap);
+  return tableMap ?? [];
 }
 
 /**
@@ -0,0 +1,23 @@
+/**
+ * Factory DOCX Renderer
+ *
+ * Domain: factory/core
+ * Responsibility: Render validated payloads as editable Word documents.
+ *
+ * SOR: Walks the same layout and payload as renderNoteHTML (via
+ * buildNoteDocument); styling comes from the design tokens.
+ */
+
+import { buildNoteDocument } from '../blocks/builder';
+import type { FactoryInputs } from '../types';
+import { writeNoteDocx } from '../writers/docx/writer';
+
+/**
+ * Renders a note as a DOCX package
+ *
+ * @param inputs - Factory inputs (template, payload, tokens, options)
+ * @returns DOCX bytes (application/vnd.openxmlformats-officedocument.wordprocessingml.document)
+ */
+export function renderNoteDocx(inputs: FactoryInputs): Uint8Array {
+	return writeNoteDocx(buildNoteDocument(inputs), inputs.tokens, inputs.options?.lang || 'en');
+}
@@ -5,9 +5,11 @@
  * Responsibility: Orchestrate template-driven HTML rendering for validated payloads.
  */
 
+import { renderRunningStrings } from '../components/print/running-strings';
 import { renderComponent, renderProvenance } from '../components/sections/content-sections';
-import type { FactoryInputs, RenderOptions } from '../types';
+import type { FactoryInputs, RenderedSection, RenderOptions, ValueFormatOptions } from '../types';
 import { escapeAttr, escapeHtml } from '../utils/html-escape';
+import { pruneHiddenNodes } from '../utils/visibility';
 
 /**
  * Main entry point: Renders complete HTML from template and validated payload
@@ -21,6 +23,7 @@ export function renderNoteHTML(inputs: FactoryInputs): string {
 	const lang = options?.lang || 'en';
 	const idPrefix = options?.idPrefix || '';
 	const collectedRefs = new Set<string>();
+	const formatOptions: ValueFormatOptions = { lang, dateFormat: options?.dateFormat };
 
 	const chunks: string[] = [];
 	chunks.push(`<!DOCTYPE html>`);
@@ -34,6 +37,7 @@ export function renderNoteHTML(inputs: FactoryInputs): string {
 	chunks.push(`<body class="note-body">`);
 	chunks.push(`<div class="note-container">`);
 	chunks.push(`<article class="note">`);
+	renderRunningStrings(chunks, payload, tokens);
 
 	const brandHeader = options?.brandOverrides?.headerHtml || tokens?.brand?.headerHtml || '';
 	const brandLogo = options?.brandOverrides?.logoUrl || tokens?.brand?.logoUrl || '';
@@ -49,8 +53,8 @@ export function renderNoteHTML(inputs: FactoryInputs): string {
 		chunks.push(`</header>`);
 	}
 
-	for (const component of template.layout) {
-		renderComponent(chunks, component, payload, tokens, idPrefix, 0, collectedRefs);
+	for (const component of pruneHiddenNodes(template.layout, payload)) {
+		renderComponent(chunks, component, payload, tokens, idPrefix, 0, collectedRefs, formatOptions);
 	}
 
 	const brandFooter = options?.brandOverrides?.footerHtml || tokens?.brand?.footerHtml || '';
@@ -69,6 +73,26 @@ export function renderNoteHTML(inputs: FactoryInputs): string {
 	return chunks.join('');
 }
 
+/**
+ * Renders each top-level layout component to its own HTML fragment
+ *
+ * @param inputs - Factory inputs (template, payload, tokens, options)
+ * @returns One fragment per visible `template.layout` entry (see `showIf`), in layout order
+ */
+export function renderNoteSections(inputs: FactoryInputs): RenderedSection[] {
+	const { template, payload, tokens, options } = inputs;
+
+	const idPrefix = options?.idPrefix || '';
+	const formatOptions: ValueFormatOptions = { lang: options?.lang || 'en', dateFormat: options?.dateFormat };
+
+	return pruneHiddenNodes(template.layout, payload).map(component => {
+		const chunks: string[] = [];
+		const refs = new Set<string>();
+		renderComponent(chunks, component, payload, tokens, idPrefix, 0, refs, formatOptions);
+		return { component, html: chunks.join(''), refs: [...refs] };
+	});
+}
+
 function injectHeadStyles(headChunks: string[], styles?: RenderOptions['styles']): void {
 	if (!styles) return;
 
@@ -0,0 +1,37 @@
+/**
+ * Factory Text Renderers - Plain Text and Markdown
+ *
+ * Domain: factory/core
+ * Responsibility: Render validated payloads as plain text or Markdown for EHR
+ * fields and portals that do not accept HTML.
+ *
+ * SOR: Both walk the same layout and payload as renderNoteHTML (via
+ * buildNoteDocument), so every format carries the same content.
+ */
+
+import { buildNoteDocument } from '../blocks/builder';
+import type { FactoryInputs, TextRenderOptions } from '../types';
+import { writeNoteMarkdown } from '../writers/markdown';
+import { writeNoteText } from '../writers/plain-text';
+
+/**
+ * Renders a note as plain text
+ *
+ * @param inputs - Factory inputs (template, payload, tokens, options)
+ * @param textOptions - Wrap width (default: 80 columns; 0 disables wrapping)
+ * @returns Text with underlined headings, grid tables, and a numbered Sources list
+ */
+export function renderNoteText(inputs: FactoryInputs, textOptions: TextRenderOptions = {}): string {
+	return writeNoteText(buildNoteDocument(inputs), textOptions);
+}
+
+/**
+ * Renders a note as GitHub-flavored Markdown
+ *
+ * @param inputs - Factory inputs (template, payload, tokens, options)
+ * @param textOptions - Wrap width for prose (default: unwrapped)
+ * @returns Markdown with GFM tables, alerts, and footnotes for verbatim sources
+ */
+export function renderNoteMarkdown(inputs: FactoryInputs, textOptions: TextRenderOptions = {}): string {
+	return writeNoteMarkdown(buildNoteDocument(inputs), textOptions);
+}
@@ -1,8 +1,20 @@
 // Factory domain barrel export
-// Main entry point for HTML rendering functionality
+// Main entry point for HTML, text, Markdown, and DOCX rendering
 
-export { renderNoteHTML } from "./core/renderer";
-export type { FactoryInputs, RenderOptions, VerbatimValue } from "./types";
+export { renderNoteHTML, renderNoteSections } from "./core/renderer";
+export { renderNoteMarkdown, renderNoteText } from "./core/text-renderer";
+export { renderNoteDocx } from "./core/docx-renderer";
+export { buildNoteDocument } from "./blocks/builder";
+export type {
+  FactoryInputs,
+  NoteOutputFormat,
+  RenderedSection,
+  RenderOptions,
+  TextRenderOptions,
+  ValueFormatOptions,
+  VerbatimValue,
+} from "./types";
+export type { AlertVariant, FieldLine, Inline, InlineRun, NoteBlock, NoteDocument } from "./blocks/types";
 
 // Re-export utilities for advanced usage
 export { escapeHtml, escapeAttr } from "./utils/html-escape";
@@ -10,4 +22,15 @@ export {
   getByPath,
   inferArrayRoot,
   normalizeRowPath,
-} from "./utils/path-resolver";
+} from "../paths";
+export { formatValue, isRenderFormat } from "./utils/value-format";
+export { wrapText } from "./utils/text-wrap";
+export { isConditionMet, pruneHiddenNodes } from "./utils/visibility";
+export {
+  parseDate,
+  formatDatePattern,
+  formatDisplayDate,
+  computeAge,
+  daysBetween,
+  formatDuration,
+} from "./utils/date-utils";
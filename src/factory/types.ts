@@ -1,4 +1,4 @@
-import type { NoteTemplate } from '../derivation/types';
+import type { Component, NoteTemplate } from '../derivation/types';
 import type { RenderPayload } from '../types/payloads';
 import type { DesignTokens } from '../tokens/types';
 
@@ -24,10 +24,10 @@ export interface RenderOptions {
     footerHtml?: string;
   };
 
-  /** Date format string (e.g., "YYYY-MM-DD") */
+  /** Date pattern for date/datetime formatted values (e.g., "YYYY-MM-DD"); locale default when unset */
   dateFormat?: string;
 
-  /** Document language code (default: "en") */
+  /** Document language code, also used for number/date formatting (default: "en") */
   lang?: string;
 
   /** Prefix for element IDs to avoid collisions (default: "") */
@@ -42,12 +42,22 @@ export interface RenderOptions {
   };
 }
 
+/** Locale settings renderers apply to formatted lookup/computed values */
+export type ValueFormatOptions = Pick<RenderOptions, 'dateFormat' | 'lang'>;
+
 /** Verbatim content with optional provenance reference */
 export interface VerbatimValue {
   text: string;
   ref?: string;
 }
 
+/** One top-level layout component rendered on its own */
+export interface RenderedSection {
+  component: Component;
+  html: string;       // Same markup renderNoteHTML emits for the component
+  refs: string[];     // Verbatim refs cited inside the fragment
+}
+
 /** Severity levels for component diagnostics surfaced during rendering. */
 export type DiagnosticSeverity = 'warning' | 'error';
 
@@ -57,3 +67,12 @@ export interface ComponentDiagnostic {
   message: string;
   severity: DiagnosticSeverity;
 }
+
+/** Output formats the factory can render a note to */
+export type NoteOutputFormat = 'html' | 'text' | 'markdown' | 'docx';
+
+/** Layout settings for plain-text and Markdown output */
+export interface TextRenderOptions {
+  /** Wrap prose at this many columns; 0 disables wrapping (default: 80 for text, 0 for Markdown) */
+  width?: number;
+}
@@ -0,0 +1,180 @@
+// Date utilities
+// Parses the date shapes found in source data and formats them by pattern or locale
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/** Pattern tokens, longest first so "MMMM" wins over "MM" */
+const PATTERN_TOKENS = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|ss|A|a/g;
+
+/**
+ * Parses a date value into a local Date.
+ * Accepts Date instances, epoch milliseconds, ISO dates ("1991-02-11"),
+ * US dates ("02/11/1991"), and ISO datetimes with optional offset.
+ * Calendar dates become local midnight so they never shift across time zones.
+ */
+export function parseDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? new Date(value) : null;
+  }
+
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const text = value.trim();
+  const iso = ISO_DATE.exec(text);
+  if (iso) {
+    return calendarDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const us = US_DATE.exec(text);
+  if (us) {
+    return calendarDate(Number(us[3]), Number(us[1]), Number(us[2]));
+  }
+
+  if (ISO_DATETIME.test(text)) {
+    const date = new Date(text.replace(' ', 'T'));
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+/**
+ * Formats a date with a pattern such as "YYYY-MM-DD" or "MMM D, YYYY h:mm A".
+ * Text inside [brackets] is emitted literally; month and weekday names follow lang.
+ */
+export function formatDatePattern(date: Date, pattern: string, lang = 'en'): string {
+  return pattern.replace(PATTERN_TOKENS, (token, literal: string | undefined) => {
+    if (literal !== undefined) {
+      return literal;
+    }
+
+    const hours = date.getHours();
+    switch (token) {
+      case 'YYYY':
+        return String(date.getFullYear()).padStart(4, '0');
+      case 'YY':
+        return String(date.getFullYear() % 100).padStart(2, '0');
+      case 'MMMM':
+        return date.toLocaleString(lang, { month: 'long' });
+      case 'MMM':
+        return date.toLocaleString(lang, { month: 'short' });
+      case 'MM':
+        return pad(date.getMonth() + 1);
+      case 'M':
+        return String(date.getMonth() + 1);
+      case 'DD':
+        return pad(date.getDate());
+      case 'D':
+        return String(date.getDate());
+      case 'dddd':
+        return date.toLocaleString(lang, { weekday: 'long' });
+      case 'ddd':
+        return date.toLocaleString(lang, { weekday: 'short' });
+      case 'HH':
+        return pad(hours);
+      case 'H':
+        return String(hours);
+      case 'hh':
+        return pad(hours % 12 || 12);
+      case 'h':
+        return String(hours % 12 || 12);
+      case 'mm':
+        return pad(date.getMinutes());
+      case 'ss':
+        return pad(date.getSeconds());
+      case 'A':
+        return hours < 12 ? 'AM' : 'PM';
+      default:
+        return hours < 12 ? 'am' : 'pm';
+    }
+  });
+}
+
+/**
+ * Formats a date for display.
+ * Uses the dateFormat pattern when given (datetimes append " h:mm A"),
+ * otherwise the locale's numeric date ("02/11/1991" for en).
+ */
+export function formatDisplayDate(
+  date: Date,
+  options: { dateFormat?: string; lang?: string; withTime?: boolean } = {}
+): string {
+  const lang = options.lang || 'en';
+
+  if (options.dateFormat) {
+    const pattern = options.withTime ? `${options.dateFormat} h:mm A` : options.dateFormat;
+    return formatDatePattern(date, pattern, lang);
+  }
+
+  return date.toLocaleString(lang, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    ...(options.withTime ? { hour: 'numeric', minute: '2-digit' } : {}),
+  });
+}
+
+/**
+ * Whole years between a birth date and a reference date (defaults to today).
+ */
+export function computeAge(birthDate: Date, asOf: Date = new Date()): number {
+  let age = asOf.getFullYear() - birthDate.getFullYear();
+  const beforeBirthday =
+    asOf.getMonth() < birthDate.getMonth() ||
+    (asOf.getMonth() === birthDate.getMonth() && asOf.getDate() < birthDate.getDate());
+  if (beforeBirthday) {
+    age--;
+  }
+  return age;
+}
+
+/**
+ * Calendar days from start to end (negative when end is earlier).
+ * Counts dates, not 24-hour periods, so DST changes do not skew the result.
+ */
+export function daysBetween(start: Date, end: Date): number {
+  const startDay = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+  const endDay = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+  return Math.round((endDay - startDay) / MS_PER_DAY);
+}
+
+/**
+ * Formats a duration in minutes as hours and minutes ("1 hr 30 min" for en).
+ */
+export function formatDuration(totalMinutes: number, lang = 'en'): string {
+  const rounded = Math.round(Math.abs(totalMinutes));
+  const hours = Math.floor(rounded / 60);
+  const minutes = rounded % 60;
+  const parts: string[] = [];
+
+  if (hours > 0) {
+    parts.push(new Intl.NumberFormat(lang, { style: 'unit', unit: 'hour', unitDisplay: 'short' }).format(hours));
+  }
+  if (minutes > 0 || hours === 0) {
+    parts.push(new Intl.NumberFormat(lang, { style: 'unit', unit: 'minute', unitDisplay: 'short' }).format(minutes));
+  }
+
+  return `${totalMinutes < 0 ? '-' : ''}${parts.join(' ')}`;
+}
+
+function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,59 @@
+// Text wrapping utilities
+// Word-wrap plain text for fixed-width output (text notes, ASCII table cells)
+
+/**
+ * Wraps text at word boundaries. Words longer than the width are split.
+ * Existing line breaks are kept.
+ *
+ * @param text - Text to wrap
+ * @param width - Maximum line length; 0 or less returns the text's own lines
+ * @returns Wrapped lines (at least one, possibly empty)
+ */
+export function wrapText(text: string, width: number): string[] {
+  const paragraphs = text.split(/\r?\n/);
+  if (width <= 0) return paragraphs;
+
+  const lines: string[] = [];
+  for (const paragraph of paragraphs) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word;
+      while (rest.length > width) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(rest.slice(0, width));
+        rest = rest.slice(width);
+      }
+      if (!rest) continue;
+
+      if (!line) {
+        line = rest;
+      } else if (line.length + 1 + rest.length <= width) {
+        line += ` ${rest}`;
+      } else {
+        lines.push(line);
+        line = rest;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Wraps text and prefixes each line; continuation lines get `hangingPrefix`
+ * (defaults to spaces the width of `prefix`).
+ *
+ * @param text - Text to wrap
+ * @param width - Total line width including the prefix; 0 disables wrapping
+ * @param prefix - Prefix for the first line (e.g. "- ", "1. ")
+ * @param hangingPrefix - Prefix for following lines
+ * @returns Prefixed lines
+ */
+export function wrapWithPrefix(text: string, width: number, prefix = '', hangingPrefix?: string): string[] {
+  const hanging = hangingPrefix ?? ' '.repeat(prefix.length);
+  const available = width > 0 ? Math.max(width - Math.max(prefix.length, hanging.length), 1) : 0;
+  return wrapText(text, available).map((line, index) => `${index === 0 ? prefix : hanging}${line}`.trimEnd());
+}
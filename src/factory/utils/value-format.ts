@@ -0,0 +1,106 @@
+// Value formatting utilities
+// Applies ContentItem.format to lookup/computed values at render time
+
+import type { ContentFormat, ContentFormatOptions } from '../../derivation/types';
+import type { ValueFormatOptions } from '../types';
+import { formatDisplayDate, formatDuration, parseDate } from './date-utils';
+
+/** Formats applied by renderers; plain, deltaScore and percent are applied during resolution */
+export type RenderFormat = Exclude<ContentFormat, 'plain' | 'deltaScore' | 'percent'>;
+
+const RENDER_FORMATS = new Set<ContentFormat>(['date', 'datetime', 'currency', 'integer', 'unit', 'duration']);
+
+/**
+ * True when the format is applied at render time rather than during resolution.
+ */
+export function isRenderFormat(format: ContentFormat | undefined): format is RenderFormat {
+  return format !== undefined && RENDER_FORMATS.has(format);
+}
+
+/**
+ * Formats a payload value for display.
+ * Values that cannot be interpreted for the format fall back to their string form,
+ * so a malformed date still renders rather than disappearing.
+ *
+ * @returns Display string, or null when the value is empty
+ */
+export function formatValue(
+  value: unknown,
+  format: ContentFormat | undefined,
+  options: ValueFormatOptions & ContentFormatOptions = {}
+): string | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const lang = options.lang || 'en';
+
+  switch (format) {
+    case 'date':
+    case 'datetime': {
+      const date = parseDate(value);
+      return date
+        ? formatDisplayDate(date, { dateFormat: options.dateFormat, lang, withTime: format === 'datetime' })
+        : fallback(value);
+    }
+
+    case 'currency': {
+      const amount = toNumber(value);
+      return amount === null
+        ? fallback(value)
+        : new Intl.NumberFormat(lang, { style: 'currency', currency: options.currency ?? 'USD' }).format(amount);
+    }
+
+    case 'integer': {
+      const amount = toNumber(value);
+      return amount === null
+        ? fallback(value)
+        : new Intl.NumberFormat(lang, { maximumFractionDigits: 0 }).format(Math.round(amount));
+    }
+
+    case 'unit': {
+      const amount = toNumber(value);
+      return amount === null ? fallback(value) : formatUnit(amount, options.unit, lang);
+    }
+
+    case 'duration': {
+      const minutes = toNumber(value);
+      return minutes === null ? fallback(value) : formatDuration(minutes, lang);
+    }
+
+    default:
+      return fallback(value);
+  }
+}
+
+function formatUnit(amount: number, unit: string | undefined, lang: string): string {
+  const number = new Intl.NumberFormat(lang, { maximumFractionDigits: 2 }).format(amount);
+  if (!unit) {
+    return number;
+  }
+
+  try {
+    return new Intl.NumberFormat(lang, { style: 'unit', unit, unitDisplay: 'short', maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    // Not an ECMA-402 unit (e.g. "mg/dL"); print it verbatim
+    return `${number} ${unit}`;
+  }
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.replace(/,/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function fallback(value: unknown): string | null {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return null;
+}
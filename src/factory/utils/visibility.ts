@@ -0,0 +1,57 @@
+// Conditional rendering
+// Evaluates `showIf` formulas against the render payload and prunes hidden components and content items
+
+import type { Component, ContentItem } from '../../derivation/types';
+import type { FormulaNode } from '../../resolution/core/formula/ast';
+import { interpretFormula } from '../../resolution/core/formula/interpreter';
+import { parseFormula } from '../../resolution/core/formula/parser';
+import type { RenderPayload } from '../../types/payloads';
+
+/** Parsed conditions, shared across notes rendered from the same template */
+const conditionCache = new Map<string, FormulaNode>();
+
+/**
+ * Whether a `showIf` condition passes for the payload.
+ *
+ * Missing paths evaluate to undefined, so conditions on absent data are
+ * falsy; a condition that fails to parse or evaluate hides its node.
+ */
+export function isConditionMet(condition: string | undefined, payload: RenderPayload): boolean {
+  if (condition === undefined) {
+    return true;
+  }
+
+  try {
+    let ast = conditionCache.get(condition);
+    if (!ast) {
+      ast = parseFormula(condition);
+      conditionCache.set(condition, ast);
+    }
+    return Boolean(interpretFormula(ast, payload, condition));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Copy of a layout without the components and top-level content items whose
+ * `showIf` condition fails, so renderers never see hidden nodes.
+ */
+export function pruneHiddenNodes(layout: Component[], payload: RenderPayload): Component[] {
+  return layout
+    .filter(component => isConditionMet(component.showIf, payload))
+    .map(component => pruneComponent(component, payload));
+}
+
+function pruneComponent(component: Component, payload: RenderPayload): Component {
+  const pruned: Component = { ...component };
+
+  if (component.content) {
+    pruned.content = component.content.filter((item: ContentItem) => isConditionMet(item.showIf, payload));
+  }
+  if (component.children) {
+    pruned.children = pruneHiddenNodes(component.children, payload);
+  }
+
+  return pruned;
+}
@@ -0,0 +1,174 @@
+// DOCX document body
+// Map NoteDocument blocks to WordprocessingML paragraphs, tables, and numbered lists
+
+import type { Inline, NoteBlock, NoteDocument } from '../../blocks/types';
+import { parsePercentWidths } from '../table-layout';
+import type { DocxListNumbering } from './parts';
+import { escapeXml } from './parts';
+import type { DocxTheme } from './theme';
+import { toTwips } from './theme';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/** `word/document.xml` plus the list numbering it references */
+export interface DocxBody {
+  xml: string;
+  lists: DocxListNumbering[];
+}
+
+/**
+ * Build `word/document.xml` for a note.
+ *
+ * @param document - Note blocks and sources
+ * @param theme - Word measurements from design tokens
+ * @returns Document XML and one numbering entry per list
+ */
+export function documentXml(document: NoteDocument, theme: DocxTheme): DocxBody {
+  const lists: DocxListNumbering[] = [];
+  const body: string[] = [];
+
+  for (const block of document.blocks) {
+    body.push(blockXml(block, theme, lists));
+  }
+
+  if (document.sources.length > 0) {
+    body.push(blockXml({ kind: 'heading', level: 2, text: 'Sources' }, theme, lists));
+    body.push(
+      blockXml({ kind: 'list', ordered: true, items: document.sources.map(ref => [{ text: ref }]) }, theme, lists)
+    );
+  }
+
+  const { page } = theme;
+  const sectPr = [
+    '<w:sectPr>',
+    `<w:pgSz w:w="${page.width}" w:h="${page.height}"/>`,
+    `<w:pgMar w:top="${page.margin.top}" w:right="${page.margin.right}" w:bottom="${page.margin.bottom}" w:left="${page.margin.left}" w:header="720" w:footer="720" w:gutter="0"/>`,
+    '</w:sectPr>',
+  ].join('');
+
+  return {
+    xml: [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      `<w:document xmlns:w="${W_NS}"><w:body>`,
+      body.join(''),
+      sectPr,
+      '</w:body></w:document>',
+    ].join(''),
+    lists,
+  };
+}
+
+function blockXml(block: NoteBlock, theme: DocxTheme, lists: DocxListNumbering[]): string {
+  switch (block.kind) {
+    case 'heading':
+      return paragraph(block.level === 1 ? 'Heading1' : 'Heading2', runsXml([{ text: block.text }]));
+
+    case 'paragraph':
+      return paragraph(null, runsXml(block.runs));
+
+    case 'fields':
+      return [
+        ...(block.title ? [paragraph('CardTitle', runsXml([{ text: block.title }]))] : []),
+        ...block.fields.map(field =>
+          paragraph(
+            'Field',
+            runsXml(field.label ? [{ text: `${field.label}: `, emphasis: 'bold' }, ...field.value] : field.value)
+          )
+        ),
+      ].join('');
+
+    case 'list': {
+      const numId = lists.length + 1;
+      lists.push({ numId, ordered: block.ordered });
+      const numPr = `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>`;
+      return block.items.map(item => paragraph('ListParagraph', runsXml(item), numPr)).join('');
+    }
+
+    case 'table':
+      return tableXml(block, theme);
+
+    case 'alert':
+      return [
+        ...(block.title ? [paragraph('Alert', runsXml([{ text: block.title, emphasis: 'bold' }]), '<w:keepNext/>')] : []),
+        ...block.paragraphs.map(runs => paragraph('Alert', runsXml(runs))),
+      ].join('');
+
+    case 'signature':
+      return block.lines.map(line => paragraph('Signature', runsXml(line))).join('');
+  }
+}
+
+/**
+ * Fixed-layout table sized from colWidths (percent of the text width or CSS
+ * lengths); the header row repeats on each page.
+ */
+function tableXml(block: Extract<NoteBlock, { kind: 'table' }>, theme: DocxTheme): string {
+  const columnCount = Math.max(block.columns.length, ...block.rows.map(row => row.length), 1);
+  const widths = columnTwips(block.colWidths, columnCount, theme.contentWidth);
+  const total = widths.reduce((sum, width) => sum + width, 0);
+
+  const cell = (values: Inline[], index: number) => {
+    const paragraphs = values.length > 0 ? values.map(runs => paragraph('TableText', runsXml(runs))) : [paragraph('TableText', '')];
+    return `<w:tc><w:tcPr><w:tcW w:w="${widths[index]}" w:type="dxa"/></w:tcPr>${paragraphs.join('')}</w:tc>`;
+  };
+
+  const rows: string[] = [];
+  if (block.columns.length > 0) {
+    const header = widths.map((_, index) => cell([[{ text: block.columns[index] ?? '' }]], index));
+    rows.push(`<w:tr><w:trPr><w:cantSplit/><w:tblHeader/></w:trPr>${header.join('')}</w:tr>`);
+  }
+  for (const row of block.rows) {
+    rows.push(`<w:tr><w:trPr><w:cantSplit/></w:trPr>${widths.map((_, index) => cell(row[index] ?? [], index)).join('')}</w:tr>`);
+  }
+
+  const look = block.columns.length > 0 ? '0420' : '0400';
+  return [
+    '<w:tbl>',
+    `<w:tblPr><w:tblStyle w:val="NoteTable"/><w:tblW w:w="${total}" w:type="dxa"/><w:tblLayout w:type="fixed"/><w:tblLook w:val="${look}" w:firstRow="${block.columns.length > 0 ? 1 : 0}" w:lastRow="0" w:firstColumn="0" w:lastColumn="0" w:noHBand="1" w:noVBand="1"/></w:tblPr>`,
+    `<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>`,
+    rows.join(''),
+    '</w:tbl>',
+    // Word needs a paragraph between adjacent tables and before section end
+    paragraph(null, ''),
+  ].join('');
+}
+
+/**
+ * Column widths in twips: percentages of the text width, absolute CSS lengths,
+ * or an even split when colWidths are missing or mixed.
+ */
+function columnTwips(colWidths: string[], columnCount: number, contentWidth: number): number[] {
+  const percents = parsePercentWidths(colWidths, columnCount);
+  if (percents) {
+    const total = percents.reduce((sum, percent) => sum + percent, 0);
+    const scale = total > 100 ? 100 / total : 1;
+    return percents.map(percent => Math.round((contentWidth * percent * scale) / 100));
+  }
+
+  const lengths = colWidths.length === columnCount ? colWidths.map(toTwips) : [];
+  if (lengths.length > 0 && lengths.every(length => length !== null && length > 0)) {
+    return lengths as number[];
+  }
+
+  return Array.from({ length: columnCount }, () => Math.floor(contentWidth / columnCount));
+}
+
+function paragraph(style: string | null, runs: string, extraProps = ''): string {
+  const props = `${style ? `<w:pStyle w:val="${style}"/>` : ''}${extraProps}`;
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function runsXml(runs: Inline): string {
+  return runs
+    .map(run => {
+      if ('footnote' in run) {
+        return `<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:t>[${run.footnote}]</w:t></w:r>`;
+      }
+      const props = run.emphasis === 'bold' ? '<w:rPr><w:b/></w:rPr>' : run.emphasis === 'italic' ? '<w:rPr><w:i/></w:rPr>' : '';
+      return run.text
+        .split(/\r?\n/)
+        .map((line, index) => `<w:r>${props}${index > 0 ? '<w:br/>' : ''}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+        .join('');
+    })
+    .join('');
+}
@@ -0,0 +1,174 @@
+// DOCX package parts
+// Static and theme-driven OOXML parts: content types, relationships, core properties, styles, numbering
+
+import type { DocxTheme } from './theme';
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const OFFICE_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const BULLET_GLYPHS = { disc: '\u2022', circle: '\u25E6', square: '\u25AA' } as const;
+
+/** Numbering definition referenced by one list (`w:num`) */
+export interface DocxListNumbering {
+  numId: number;
+  ordered: boolean;
+}
+
+/**
+ * Escape text for XML element content and attribute values.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .split('')
+    .filter(isXmlChar)
+    .join('');
+}
+
+/** XML 1.0 forbids C0 control characters other than tab, newline, and carriage return */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * `[Content_Types].xml` for the parts this writer emits.
+ */
+export function contentTypesXml(): string {
+  return [
+    XML_DECLARATION,
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+    '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+    '<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>',
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+    '</Types>',
+  ].join('');
+}
+
+/**
+ * Package relationships (`_rels/.rels`).
+ */
+export function packageRelsXml(): string {
+  return [
+    XML_DECLARATION,
+    `<Relationships xmlns="${REL_NS}">`,
+    `<Relationship Id="rId1" Type="${OFFICE_REL}/officeDocument" Target="word/document.xml"/>`,
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>',
+    '</Relationships>',
+  ].join('');
+}
+
+/**
+ * Main document relationships (`word/_rels/document.xml.rels`).
+ */
+export function documentRelsXml(): string {
+  return [
+    XML_DECLARATION,
+    `<Relationships xmlns="${REL_NS}">`,
+    `<Relationship Id="rId1" Type="${OFFICE_REL}/styles" Target="styles.xml"/>`,
+    `<Relationship Id="rId2" Type="${OFFICE_REL}/numbering" Target="numbering.xml"/>`,
+    '</Relationships>',
+  ].join('');
+}
+
+/**
+ * Core properties; no timestamps so identical notes produce identical packages.
+ */
+export function corePropsXml(title: string, language: string): string {
+  return [
+    XML_DECLARATION,
+    '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    `<dc:title>${escapeXml(title)}</dc:title>`,
+    `<dc:language>${escapeXml(language)}</dc:language>`,
+    '</cp:coreProperties>',
+  ].join('');
+}
+
+/**
+ * Paragraph, character, and table styles mirroring the HTML note's look.
+ */
+export function stylesXml(theme: DocxTheme, language: string): string {
+  const { color, size } = theme;
+  const fonts = `<w:rFonts w:ascii="${escapeXml(theme.fontFamily)}" w:hAnsi="${escapeXml(theme.fontFamily)}" w:cs="${escapeXml(theme.fontFamily)}"/>`;
+  const bannerFill = color.bannerFill ? `<w:shd w:val="clear" w:color="auto" w:fill="${color.bannerFill}"/>` : '';
+  const alertFill = color.alertFill ? `<w:shd w:val="clear" w:color="auto" w:fill="${color.alertFill}"/>` : '';
+
+  return [
+    XML_DECLARATION,
+    `<w:styles xmlns:w="${W_NS}">`,
+    '<w:docDefaults>',
+    `<w:rPrDefault><w:rPr>${fonts}<w:color w:val="${color.text}"/><w:sz w:val="${size.base}"/><w:szCs w:val="${size.base}"/><w:lang w:val="${escapeXml(language)}"/></w:rPr></w:rPrDefault>`,
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>',
+    '</w:docDefaults>',
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>',
+    '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>',
+    `<w:pPr><w:keepNext/><w:keepLines/><w:pBdr><w:left w:val="single" w:sz="${theme.bannerBorder}" w:space="8" w:color="${color.accent}"/></w:pBdr>${bannerFill}<w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr>`,
+    `<w:rPr><w:b/><w:bCs/><w:caps/><w:sz w:val="${size.heading1}"/><w:szCs w:val="${size.heading1}"/></w:rPr></w:style>`,
+    '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>',
+    '<w:pPr><w:keepNext/><w:keepLines/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr>',
+    `<w:rPr><w:b/><w:bCs/><w:color w:val="${color.accent}"/><w:sz w:val="${size.heading2}"/><w:szCs w:val="${size.heading2}"/></w:rPr></w:style>`,
+    '<w:style w:type="paragraph" w:styleId="CardTitle"><w:name w:val="Card Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>',
+    `<w:pPr><w:keepNext/><w:spacing w:before="120" w:after="40"/></w:pPr><w:rPr><w:b/><w:caps/><w:color w:val="${color.muted}"/><w:sz w:val="${size.small}"/></w:rPr></w:style>`,
+    '<w:style w:type="paragraph" w:styleId="Field"><w:name w:val="Field"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="20"/></w:pPr></w:style>',
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:ind w:left="720"/><w:contextualSpacing/></w:pPr></w:style>',
+    '<w:style w:type="paragraph" w:styleId="Alert"><w:name w:val="Alert"/><w:basedOn w:val="Normal"/>',
+    `<w:pPr><w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="${color.alertBorder}"/></w:pBdr>${alertFill}<w:ind w:left="200"/></w:pPr></w:style>`,
+    '<w:style w:type="paragraph" w:styleId="Signature"><w:name w:val="Signature"/><w:basedOn w:val="Normal"/>',
+    `<w:pPr><w:keepNext/><w:keepLines/><w:pBdr><w:top w:val="single" w:sz="6" w:space="8" w:color="${color.signatureBorder}"/></w:pBdr></w:pPr></w:style>`,
+    '<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr></w:style>',
+    tableStyleXml(theme),
+    '</w:styles>',
+  ].join('');
+}
+
+function tableStyleXml(theme: DocxTheme): string {
+  const line = (edge: string) => `<w:${edge} w:val="single" w:sz="4" w:space="0" w:color="${theme.color.border}"/>`;
+  const edges =
+    theme.tableBorders === 'cell'
+      ? ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+      : theme.tableBorders === 'row'
+        ? ['top', 'bottom', 'insideH']
+        : [];
+  const borders = edges.length > 0 ? `<w:tblBorders>${edges.map(line).join('')}</w:tblBorders>` : '';
+
+  return [
+    '<w:style w:type="table" w:styleId="NoteTable"><w:name w:val="Note Table"/>',
+    `<w:tblPr>${borders}<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/><w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr>`,
+    `<w:tblStylePr w:type="firstRow"><w:rPr><w:b/><w:color w:val="${theme.color.muted}"/></w:rPr></w:tblStylePr>`,
+    '</w:style>',
+  ].join('');
+}
+
+/**
+ * Numbering definitions: one bullet and one numbered abstract list, and one
+ * `w:num` per list so each ordered list restarts at 1.
+ */
+export function numberingXml(theme: DocxTheme, lists: DocxListNumbering[]): string {
+  const bullet = BULLET_GLYPHS[theme.bulletStyle];
+  return [
+    XML_DECLARATION,
+    `<w:numbering xmlns:w="${W_NS}">`,
+    '<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>',
+    `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="${bullet}"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>`,
+    '</w:abstractNum>',
+    '<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="singleLevel"/>',
+    `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${theme.numberFormat}"/><w:lvlText w:val="%1."/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr></w:lvl>`,
+    '</w:abstractNum>',
+    ...lists.map(list =>
+      list.ordered
+        ? `<w:num w:numId="${list.numId}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`
+        : `<w:num w:numId="${list.numId}"><w:abstractNumId w:val="0"/></w:num>`
+    ),
+    '</w:numbering>',
+  ].join('');
+}
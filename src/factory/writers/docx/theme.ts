@@ -0,0 +1,146 @@
+// DOCX theme resolution
+// Convert design tokens to Word units: half-points, twips, eighth-point borders, hex colors
+
+import type { DesignTokens } from '../../../tokens/types';
+
+/** Word measurements and colors derived from design tokens */
+export interface DocxTheme {
+  fontFamily: string;
+  /** Font sizes in half-points */
+  size: { base: number; heading1: number; heading2: number; small: number };
+  /** RRGGBB colors (no leading #); fills are null when disabled */
+  color: {
+    text: string;
+    muted: string;
+    accent: string;
+    border: string;
+    bannerFill: string | null;
+    alertFill: string | null;
+    alertBorder: string;
+    signatureBorder: string;
+  };
+  /** Page geometry in twips */
+  page: { width: number; height: number; margin: PageMargins };
+  /** Usable text width in twips */
+  contentWidth: number;
+  /** Banner accent border width in eighths of a point */
+  bannerBorder: number;
+  tableBorders: 'none' | 'row' | 'cell';
+  bulletStyle: 'disc' | 'circle' | 'square';
+  numberFormat: 'decimal' | 'lowerLetter' | 'upperRoman';
+}
+
+/** Page margins in twips */
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** Page sizes in twips (portrait) */
+const PAGE_SIZES = {
+  Letter: { width: 12240, height: 15840 },
+  A4: { width: 11906, height: 16838 },
+} as const;
+
+const TWIPS_PER_UNIT: Record<string, number> = {
+  in: 1440,
+  cm: 1440 / 2.54,
+  mm: 1440 / 25.4,
+  pt: 20,
+  px: 15,
+};
+
+const NUMBER_FORMATS = {
+  decimal: 'decimal',
+  'lower-alpha': 'lowerLetter',
+  'upper-roman': 'upperRoman',
+} as const;
+
+const DEFAULT_MARGIN = 1440;
+
+/**
+ * Resolve Word measurements from design tokens.
+ * Monochrome print tokens drop fills and render accents in the text color.
+ *
+ * @param tokens - Active design tokens
+ * @returns Theme used by the DOCX parts
+ */
+export function resolveDocxTheme(tokens: DesignTokens): DocxTheme {
+  const monochrome = tokens.print?.monochrome === true;
+  const text = hexColor(tokens.color.text, '000000');
+  const pick = (value: string | undefined, fallback: string) => (monochrome ? text : hexColor(value, fallback));
+  const fill = (value: string | undefined) => (monochrome ? null : hexColor(value, '') || null);
+
+  const baseHalfPoints = Math.round(tokens.typography.baseSizePx * 1.5);
+  const page = PAGE_SIZES[tokens.print?.pageSize ?? 'Letter'] ?? PAGE_SIZES.Letter;
+  const margin = parseMargins(tokens.print?.margin);
+
+  return {
+    fontFamily: primaryFontFamily(tokens.typography.fontFamily),
+    size: {
+      base: baseHalfPoints,
+      heading1: Math.round(baseHalfPoints * tokens.typography.scale),
+      heading2: Math.round(baseHalfPoints * 1.05),
+      small: Math.round(baseHalfPoints * 0.9),
+    },
+    color: {
+      text,
+      muted: pick(tokens.color.muted, '666666'),
+      accent: pick(tokens.color.accent, text),
+      border: pick(tokens.color.border, 'CCCCCC'),
+      bannerFill: fill(tokens.surface?.sectionBannerBackground),
+      alertFill: fill(tokens.surface?.alertInfoBackground),
+      alertBorder: pick(tokens.surface?.alertInfoBorder ?? tokens.color.accent, text),
+      signatureBorder: pick(tokens.surface?.signatureBorder ?? tokens.color.border, 'CCCCCC'),
+    },
+    page: { ...page, margin },
+    contentWidth: page.width - margin.left - margin.right,
+    bannerBorder: Math.max(4, Math.round((tokens.layout?.sectionBanner?.borderWidthPx ?? 4) * 6)),
+    tableBorders: tokens.table.borders ?? 'row',
+    bulletStyle: tokens.list?.bulletStyle ?? 'disc',
+    numberFormat: NUMBER_FORMATS[tokens.list?.numberStyle ?? 'decimal'],
+  };
+}
+
+/**
+ * Parse a CSS margin shorthand ("0.75in", "1in 0.5in", ...) into twips.
+ * Unparseable values fall back to one inch.
+ */
+export function parseMargins(margin: string | undefined): PageMargins {
+  const values = (margin ?? '').trim().split(/\s+/).filter(Boolean).map(toTwips);
+  if (values.length === 0 || values.some(value => value === null)) {
+    return { top: DEFAULT_MARGIN, right: DEFAULT_MARGIN, bottom: DEFAULT_MARGIN, left: DEFAULT_MARGIN };
+  }
+
+  const [top, right = top, bottom = top, left = right] = values as number[];
+  return { top, right, bottom, left };
+}
+
+/**
+ * Convert a CSS length (in, cm, mm, pt, px) to twips.
+ */
+export function toTwips(length: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)(in|cm|mm|pt|px)$/.exec(length.trim());
+  if (!match) return null;
+  return Math.round(Number(match[1]) * TWIPS_PER_UNIT[match[2]]);
+}
+
+/**
+ * First family of a CSS font stack, unquoted ("'Open Sans', Arial" -> "Open Sans").
+ */
+function primaryFontFamily(stack: string): string {
+  const first = stack.split(',')[0]?.trim().replace(/^['"]|['"]$/g, '');
+  return first || 'Calibri';
+}
+
+/**
+ * Normalize #RGB / #RRGGBB to RRGGBB; other CSS colors return the fallback.
+ */
+function hexColor(value: string | undefined, fallback: string): string {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value?.trim() ?? '');
+  if (!match) return fallback;
+  const hex = match[1].length === 3 ? [...match[1]].map(digit => digit + digit).join('') : match[1];
+  return hex.toUpperCase();
+}
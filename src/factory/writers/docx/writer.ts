@@ -0,0 +1,48 @@
+/**
+ * DOCX Writer
+ *
+ * Domain: factory/writers/docx
+ * Responsibility: Package a NoteDocument as a Word (OOXML) file, styled from
+ * design tokens, without external binaries.
+ *
+ * SOR: Section banners become Heading 1 (banner fill, accent rule), subsections
+ * Heading 2, tables use fixed column widths with a repeating header row, lists
+ * use Word numbering, and the signature block keeps its lines together.
+ */
+import type { DesignTokens } from '../../../tokens/types';
+import type { NoteDocument } from '../../blocks/types';
+import { documentXml } from './document';
+import {
+  contentTypesXml,
+  corePropsXml,
+  documentRelsXml,
+  numberingXml,
+  packageRelsXml,
+  stylesXml,
+} from './parts';
+import { resolveDocxTheme } from './theme';
+import { createZip } from './zip';
+
+/**
+ * Write a note as a DOCX package.
+ *
+ * @param document - Note blocks and sources
+ * @param tokens - Design tokens (typography, colors, page size and margins)
+ * @param lang - Document language (default: "en")
+ * @returns DOCX bytes
+ */
+export function writeNoteDocx(document: NoteDocument, tokens: DesignTokens, lang = 'en'): Uint8Array {
+  const theme = resolveDocxTheme(tokens);
+  const body = documentXml(document, theme);
+  const encode = (xml: string) => new TextEncoder().encode(xml);
+
+  return createZip([
+    { path: '[Content_Types].xml', data: encode(contentTypesXml()) },
+    { path: '_rels/.rels', data: encode(packageRelsXml()) },
+    { path: 'docProps/core.xml', data: encode(corePropsXml(document.title, lang)) },
+    { path: 'word/document.xml', data: encode(body.xml) },
+    { path: 'word/_rels/document.xml.rels', data: encode(documentRelsXml()) },
+    { path: 'word/styles.xml', data: encode(stylesXml(theme, lang)) },
+    { path: 'word/numbering.xml', data: encode(numberingXml(theme, body.lists)) },
+  ]);
+}
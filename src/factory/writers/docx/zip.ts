@@ -0,0 +1,151 @@
+// ZIP container utilities
+// Minimal deflate ZIP writer/reader for OOXML packages (no external binaries)
+
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+
+/** One file in a ZIP archive */
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const DEFLATE = 8;
+const STORE = 0;
+const UTF8_NAMES = 0x0800;
+
+/** 1980-01-01 00:00 in DOS format; fixed so identical inputs give identical bytes */
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const DOS_TIME = 0;
+
+const CRC_TABLE = buildCrcTable();
+
+/**
+ * Packs entries into a ZIP archive (deflated, in the given order).
+ *
+ * @param entries - Files to store; paths use forward slashes
+ * @returns Archive bytes
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.path, 'utf8');
+    const compressed = deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(UTF8_NAMES, 6);
+    local.writeUInt16LE(DEFLATE, 8);
+    local.writeUInt16LE(DOS_TIME, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(UTF8_NAMES, 8);
+    central.writeUInt16LE(DEFLATE, 10);
+    central.writeUInt16LE(DOS_TIME, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralSize = centrals.reduce((sum, chunk) => sum + chunk.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...locals, ...centrals, end]));
+}
+
+/**
+ * Reads a ZIP archive written by createZip (or any stored/deflated archive
+ * without ZIP64 or encryption).
+ *
+ * @param archive - Archive bytes
+ * @returns Entries in central-directory order
+ * @throws Error when the archive is malformed or a checksum does not match
+ */
+export function readZip(archive: Uint8Array): ZipEntry[] {
+  const bytes = Buffer.from(archive.buffer, archive.byteOffset, archive.byteLength);
+  const endOffset = bytes.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive: end of central directory not found');
+  }
+
+  const count = bytes.readUInt16LE(endOffset + 10);
+  let cursor = bytes.readUInt32LE(endOffset + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < count; index++) {
+    if (bytes.readUInt32LE(cursor) !== CENTRAL_HEADER) {
+      throw new Error(`Malformed ZIP central directory at offset ${cursor}`);
+    }
+    const method = bytes.readUInt16LE(cursor + 10);
+    const crc = bytes.readUInt32LE(cursor + 16);
+    const compressedSize = bytes.readUInt32LE(cursor + 20);
+    const nameLength = bytes.readUInt16LE(cursor + 28);
+    const extraLength = bytes.readUInt16LE(cursor + 30);
+    const commentLength = bytes.readUInt16LE(cursor + 32);
+    const localOffset = bytes.readUInt32LE(cursor + 42);
+    const path = bytes.toString('utf8', cursor + 46, cursor + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + bytes.readUInt16LE(localOffset + 26) + bytes.readUInt16LE(localOffset + 28);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    const data = method === STORE ? raw : method === DEFLATE ? inflateRawSync(raw) : null;
+    if (!data) {
+      throw new Error(`Unsupported ZIP compression method ${method} for ${path}`);
+    }
+    if (crc32(data) !== crc) {
+      throw new Error(`ZIP checksum mismatch for ${path}`);
+    }
+
+    entries.push({ path, data: new Uint8Array(data) });
+    cursor += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildCrcTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
@@ -0,0 +1,137 @@
+/**
+ * Markdown Writer
+ *
+ * Domain: factory/writers
+ * Responsibility: Serialize a NoteDocument as GitHub-flavored Markdown for
+ * portals and tools that accept light markup.
+ *
+ * SOD: Payload text is escaped, so clinical text such as "- 2 points" or
+ * "score *improved*" reads literally rather than becoming markup.
+ */
+import type { AlertVariant, Inline, NoteBlock, NoteDocument } from '../blocks/types';
+import type { TextRenderOptions } from '../types';
+import { wrapWithPrefix } from '../utils/text-wrap';
+import { fitColumnWidths, parsePercentWidths } from './table-layout';
+
+/** GFM alert types (`> [!WARNING]`) per alert panel variant */
+const ALERT_TYPES: Record<AlertVariant, string> = {
+  default: 'NOTE',
+  info: 'NOTE',
+  warning: 'WARNING',
+  critical: 'CAUTION',
+};
+
+/** Delimiter-row width split across percentage colWidths */
+const TABLE_RULE_WIDTH = 60;
+
+/**
+ * Write a note as Markdown.
+ *
+ * @param document - Note blocks and sources
+ * @param options - Wrap width for prose (default: 0, no wrapping)
+ * @returns Markdown with verbatim sources as footnotes and a trailing newline
+ */
+export function writeNoteMarkdown(document: NoteDocument, options: TextRenderOptions = {}): string {
+  const width = options.width ?? 0;
+  const sections = document.blocks.map(block => writeBlock(block, width).join('\n'));
+
+  if (document.sources.length > 0) {
+    sections.push(document.sources.map((ref, index) => `[^${index + 1}]: ${escapeMarkdown(ref)}`).join('\n'));
+  }
+
+  return `${sections.filter(Boolean).join('\n\n')}\n`;
+}
+
+function writeBlock(block: NoteBlock, width: number): string[] {
+  switch (block.kind) {
+    case 'heading':
+      return [`${block.level === 1 ? '##' : '###'} ${escapeMarkdown(block.text)}`];
+
+    case 'paragraph':
+      return wrap(inline(block.runs), width);
+
+    case 'fields':
+      return [
+        ...(block.title ? [`**${escapeMarkdown(block.title)}**`] : []),
+        ...block.fields.flatMap(field => {
+          const label = field.label ? `**${escapeMarkdown(field.label)}:** ` : '';
+          return wrap(`${label}${inline(field.value)}`, width, '- ');
+        }),
+      ];
+
+    case 'list':
+      return block.items.flatMap((item, index) => wrap(inline(item), width, block.ordered ? `${index + 1}. ` : '- '));
+
+    case 'table':
+      return writeTable(block);
+
+    case 'alert': {
+      const lines = [`> [!${ALERT_TYPES[block.variant]}]`];
+      if (block.title) {
+        lines.push(`> **${escapeMarkdown(block.title)}**`);
+      }
+      block.paragraphs.forEach((paragraph, index) => {
+        if (index > 0 || block.title) lines.push('>');
+        lines.push(...wrap(inline(paragraph), width, '> ', '> '));
+      });
+      return lines;
+    }
+
+    case 'signature':
+      return block.lines.flatMap((line, index) => [...(index > 0 ? [''] : []), ...wrap(inline(line), width)]);
+  }
+}
+
+/**
+ * GFM table padded to aligned columns. Percentage colWidths set the relative
+ * delimiter lengths; stacked cell values are joined with `<br>`.
+ */
+function writeTable(block: Extract<NoteBlock, { kind: 'table' }>): string[] {
+  const columnCount = Math.max(block.columns.length, ...block.rows.map(row => row.length), 1);
+  const header = Array.from({ length: columnCount }, (_, index) => escapeMarkdown(block.columns[index] ?? ''));
+  const rows = block.rows.map(row =>
+    Array.from({ length: columnCount }, (_, index) => (row[index] ?? []).map(inline).join('<br>'))
+  );
+
+  const natural = header.map((label, index) => Math.max(label.length, ...rows.map(row => row[index].length)));
+  const percents = parsePercentWidths(block.colWidths, columnCount);
+  const widths = percents
+    ? fitColumnWidths(natural, percents, TABLE_RULE_WIDTH).map((size, index) => Math.max(size, natural[index]))
+    : fitColumnWidths(natural, null, 0);
+
+  const line = (cells: string[]) => `| ${cells.map((cell, index) => cell.padEnd(widths[index])).join(' | ')} |`;
+  return [line(header), `|${widths.map(size => '-'.repeat(size + 2)).join('|')}|`, ...rows.map(line)];
+}
+
+function inline(runs: Inline): string {
+  return runs
+    .map(run => {
+      if ('footnote' in run) return `[^${run.footnote}]`;
+      const text = escapeMarkdown(run.text);
+      if (!run.emphasis || !text.trim()) return text;
+      return run.emphasis === 'bold' ? `**${text}**` : `_${text}_`;
+    })
+    .join('');
+}
+
+/**
+ * Wrap a Markdown line; escapes wrapped lines that would otherwise start a
+ * heading, list item, or setext underline.
+ */
+function wrap(text: string, width: number, prefix = '', hangingPrefix?: string): string[] {
+  const indent = hangingPrefix ?? ' '.repeat(prefix.length);
+  return wrapWithPrefix(text, width, prefix, indent).map((line, index) => {
+    const lead = index === 0 ? prefix : indent;
+    return lead + escapeLineStart(line.slice(lead.length));
+  });
+}
+
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(\d+)([.)])(?=\s|$)/, '$1\\$2')
+    .replace(/^([#+-]|=+$)/, '\\$1');
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_~[\]<>|]/g, '\\$&').replace(/\r?\n/g, ' ');
+}
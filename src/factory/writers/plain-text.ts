@@ -0,0 +1,124 @@
+/**
+ * Plain-Text Writer
+ *
+ * Domain: factory/writers
+ * Responsibility: Serialize a NoteDocument as wrapped plain text for EHR note
+ * fields that accept no markup.
+ */
+import type { AlertVariant, Inline, NoteBlock, NoteDocument } from '../blocks/types';
+import { inlineToPlain } from '../blocks/values';
+import type { TextRenderOptions } from '../types';
+import { wrapText, wrapWithPrefix } from '../utils/text-wrap';
+import { fitColumnWidths, parsePercentWidths } from './table-layout';
+
+const DEFAULT_WIDTH = 80;
+
+const ALERT_LABELS: Record<AlertVariant, string> = {
+  default: 'NOTE',
+  info: 'INFO',
+  warning: 'WARNING',
+  critical: 'CRITICAL',
+};
+
+/**
+ * Write a note as plain text.
+ *
+ * @param document - Note blocks and sources
+ * @param options - Wrap width (default: 80; 0 disables wrapping)
+ * @returns Text with blank lines between blocks and a trailing newline
+ */
+export function writeNoteText(document: NoteDocument, options: TextRenderOptions = {}): string {
+  const width = options.width ?? DEFAULT_WIDTH;
+  const sections = document.blocks.map(block => writeBlock(block, width).join('\n'));
+
+  if (document.sources.length > 0) {
+    const sources = document.sources.flatMap((ref, index) => wrapWithPrefix(ref, width, `[${index + 1}] `));
+    sections.push(['Sources', ...sources].join('\n'));
+  }
+
+  return `${sections.filter(Boolean).join('\n\n')}\n`;
+}
+
+function writeBlock(block: NoteBlock, width: number): string[] {
+  switch (block.kind) {
+    case 'heading': {
+      const underline = (block.level === 1 ? '=' : '-').repeat(block.text.length);
+      return [block.level === 1 ? block.text.toUpperCase() : block.text, underline];
+    }
+
+    case 'paragraph':
+      return wrapText(plain(block.runs), width);
+
+    case 'fields':
+      return [
+        ...(block.title ? [block.title] : []),
+        ...block.fields.flatMap(field =>
+          wrapWithPrefix(plain(field.value), width, field.label ? `${field.label}: ` : '', '  ')
+        ),
+      ];
+
+    case 'list':
+      return block.items.flatMap((item, index) =>
+        wrapWithPrefix(plain(item), width, block.ordered ? `${index + 1}. ` : '- ')
+      );
+
+    case 'table':
+      return writeTable(block, width);
+
+    case 'alert': {
+      const label = `[${ALERT_LABELS[block.variant]}]`;
+      const lines = [block.title ? `${label} ${block.title}` : label];
+      for (const paragraph of block.paragraphs) {
+        lines.push(...wrapWithPrefix(plain(paragraph), width, '  '));
+      }
+      return lines;
+    }
+
+    case 'signature':
+      return block.lines.flatMap((line, index) => [...(index > 0 ? [''] : []), ...wrapText(plain(line), width)]);
+  }
+}
+
+/**
+ * Grid table: `+---+` rules, `+===+` under the header, stacked cell values on
+ * their own lines.
+ */
+function writeTable(block: Extract<NoteBlock, { kind: 'table' }>, width: number): string[] {
+  const columnCount = Math.max(block.columns.length, ...block.rows.map(row => row.length), 1);
+  const rows = block.rows.map(row =>
+    Array.from({ length: columnCount }, (_, index) => (row[index] ?? []).map(plain))
+  );
+
+  const natural = Array.from({ length: columnCount }, (_, index) =>
+    Math.max(
+      block.columns[index]?.length ?? 0,
+      ...rows.flatMap(row => row[index].flatMap(value => value.split('\n').map(line => line.length)))
+    )
+  );
+  const available = width > 0 ? width - (3 * columnCount + 1) : 0;
+  const widths = fitColumnWidths(natural, parsePercentWidths(block.colWidths, columnCount), available);
+
+  const rule = (fill: string) => `+${widths.map(size => fill.repeat(size + 2)).join('+')}+`;
+  const lines = [rule('-')];
+
+  if (block.columns.length > 0) {
+    lines.push(...writeRow(widths.map((_, index) => [block.columns[index] ?? '']), widths), rule('='));
+  }
+  for (const row of rows) {
+    lines.push(...writeRow(row, widths), rule('-'));
+  }
+  return lines;
+}
+
+function writeRow(cells: string[][], widths: number[]): string[] {
+  const wrapped = cells.map((values, index) => values.flatMap(value => wrapText(value, widths[index])));
+  const height = Math.max(1, ...wrapped.map(lines => lines.length));
+
+  return Array.from({ length: height }, (_, line) =>
+    `| ${wrapped.map((lines, index) => (lines[line] ?? '').padEnd(widths[index])).join(' | ')} |`
+  );
+}
+
+function plain(runs: Inline): string {
+  return inlineToPlain(runs);
+}
@@ -0,0 +1,47 @@
+// Table layout helpers
+// Column sizing for fixed-width tables from content and template colWidths
+
+/**
+ * Parses percentage colWidths (e.g. ["30%", "70%"]).
+ *
+ * @returns Percentages in column order, or null unless every entry is a percentage
+ */
+export function parsePercentWidths(colWidths: string[], columnCount: number): number[] | null {
+  if (colWidths.length !== columnCount || columnCount === 0) return null;
+
+  const percents = colWidths.map(width => {
+    const match = /^\s*(\d+(?:\.\d+)?)\s*%\s*$/.exec(width);
+    return match ? Number(match[1]) : NaN;
+  });
+  return percents.every(percent => percent > 0) ? percents : null;
+}
+
+/**
+ * Sizes table columns to fit `available` characters of cell content.
+ * Percentage colWidths split the available space; otherwise columns keep
+ * their natural width and shrink proportionally when the table is too wide.
+ *
+ * @param natural - Longest content (or header) per column
+ * @param percents - Parsed percentage colWidths, or null
+ * @param available - Characters available for cell content; 0 or less means unlimited
+ * @param minimum - Narrowest column allowed
+ * @returns Width per column
+ */
+export function fitColumnWidths(
+  natural: number[],
+  percents: number[] | null,
+  available: number,
+  minimum = 3
+): number[] {
+  if (available <= 0) {
+    return natural.map(width => Math.max(width, minimum));
+  }
+
+  const weights = percents ?? natural;
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!percents && total <= available) {
+    return natural.map(width => Math.max(width, minimum));
+  }
+
+  return weights.map(weight => Math.max(minimum, Math.floor((available * weight) / Math.max(total, 1))));
+}
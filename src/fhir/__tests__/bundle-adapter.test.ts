@@ -0,0 +1,194 @@
+/**
+ * FHIR Bundle Adapter Tests
+ *
+ * Domain: fhir/__tests__
+ * Responsibility: Assert R4 bundles map into SourceData with per-value provenance.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { adaptFhirBundle, FhirError, ICD10_CM_SYSTEM } from '../index';
+import { scoreInstrument } from '../../resolution';
+
+const bundle = {
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: [
+    {
+      resource: {
+        resourceType: 'Patient',
+        id: 'pt-1',
+        identifier: [{ type: { text: 'MRN' }, value: 'MRN-12345' }],
+        name: [
+          { use: 'usual', given: ['Casey'] },
+          { use: 'official', given: ['Casey', 'J'], family: 'Doe' },
+        ],
+        gender: 'female',
+        birthDate: '1990-01-15',
+        telecom: [{ system: 'email', value: 'casey@example.org' }, { system: 'phone', value: '555-0100' }],
+        address: [{ line: ['12 Elm St'], city: 'Anytown', state: 'KY', postalCode: '40001' }],
+      },
+    },
+    {
+      resource: {
+        resourceType: 'Encounter',
+        id: 'enc-7',
+        status: 'finished',
+        type: [{ coding: [{ code: '90837', display: 'Psychotherapy, 60 min' }] }],
+        period: { start: '2025-10-24T14:00:00-04:00', end: '2025-10-24T15:00:00-04:00' },
+      },
+    },
+    {
+      resource: {
+        resourceType: 'Practitioner',
+        id: 'pr-3',
+        name: [{ prefix: ['Dr.'], given: ['Ana'], family: 'Smith' }],
+        qualification: [{ code: { text: 'LPCC' } }],
+      },
+    },
+    {
+      resource: {
+        resourceType: 'Organization',
+        id: 'org-1',
+        name: 'Example Behavioral Health',
+        address: [{ line: ['123 Main Street'], city: 'Anytown', state: 'KY', postalCode: '40001' }],
+      },
+    },
+    {
+      resource: {
+        resourceType: 'Condition',
+        id: 'c-1',
+        code: {
+          text: 'Major depressive disorder, recurrent, moderate',
+          coding: [{ system: 'http://snomed.info/sct', code: '18818009' }, { system: ICD10_CM_SYSTEM, code: 'F33.1' }],
+        },
+        clinicalStatus: { coding: [{ code: 'active' }] },
+      },
+    },
+    { resource: { resourceType: 'Condition', id: 'c-2', category: [{ text: 'problem-list-item' }] } },
+    {
+      resource: {
+        resourceType: 'Condition',
+        id: 'c-3',
+        code: { coding: [{ system: ICD10_CM_SYSTEM, code: 'F41.1', display: 'Generalized anxiety disorder' }] },
+      },
+    },
+    {
+      resource: {
+        resourceType: 'QuestionnaireResponse',
+        id: 'qr-1',
+        questionnaire: 'http://loinc.org/q/44249-1',
+        item: [1, 2, 1, 1, 0, 2, 1, 0, 0].map((score, index) => ({
+          linkId: `phq9-${index + 1}`,
+          answer: [{ valueInteger: score }],
+        })),
+      },
+    },
+    {
+      resource: {
+        resourceType: 'Observation',
+        id: 'obs-gad7',
+        code: { coding: [{ system: 'http://loinc.org', code: '70274-6' }] },
+        valueInteger: 11,
+      },
+    },
+    {
+      resource: {
+        resourceType: 'DocumentReference',
+        id: 'doc-9',
+        content: [{ attachment: { contentType: 'text/plain', data: Buffer.from('I have been sleeping better.').toString('base64') } }],
+      },
+    },
+  ],
+};
+
+describe('adaptFhirBundle', () => {
+  it('maps demographics, encounter, practitioner, and organization with the defaults', () => {
+    const { sourceData } = adaptFhirBundle(bundle);
+
+    expect(sourceData.patient).toEqual({
+      id: 'pt-1',
+      name: 'Casey J Doe',
+      firstName: 'Casey',
+      lastName: 'Doe',
+      dob: '1990-01-15',
+      gender: 'female',
+      mrn: 'MRN-12345',
+      phone: '555-0100',
+      email: 'casey@example.org',
+      address: '12 Elm St, Anytown, KY 40001',
+    });
+    expect(sourceData.visit).toMatchObject({
+      id: 'enc-7',
+      date: '2025-10-24',
+      type: 'Psychotherapy, 60 min',
+      status: 'finished',
+      clinician: 'Dr. Ana Smith',
+    });
+    expect(sourceData.provider).toEqual({ name: 'Dr. Ana Smith', credentials: 'LPCC' });
+    expect(sourceData.facility).toMatchObject({ name: 'Example Behavioral Health', address: '123 Main Street', zip: '40001' });
+  });
+
+  it('collects one diagnosis per coded Condition with ICD-10 codes', () => {
+    const { sourceData, references } = adaptFhirBundle(bundle);
+
+    expect(sourceData.diagnoses).toEqual([
+      { code: 'F33.1', display: 'Major depressive disorder, recurrent, moderate', status: 'active' },
+      { code: 'F41.1', display: 'Generalized anxiety disorder' },
+    ]);
+    expect(references['diagnoses[1].code']).toEqual({
+      reference: 'Condition/c-3',
+      element: `code.coding[?system == '${ICD10_CM_SYSTEM}'].code`,
+    });
+  });
+
+  it('feeds questionnaire answers and observation totals into scorable assessments', () => {
+    const { sourceData, references } = adaptFhirBundle(bundle);
+    const assessments = sourceData.assessments as Record<string, unknown>;
+
+    expect(scoreInstrument('phq9', assessments.phq9).total).toBe(8);
+    expect(assessments.gad7).toEqual({ totalScore: 11 });
+    expect(references['assessments.phq9.responses[]'].reference).toBe('QuestionnaireResponse/qr-1');
+    expect(references['assessments.gad7.totalScore'].reference).toBe('Observation/obs-gad7');
+  });
+
+  it('keys transcripts by DocumentReference id so verbatim refs resolve', () => {
+    const { sourceData, references } = adaptFhirBundle(bundle);
+
+    expect(sourceData.transcript).toEqual({ 'doc-9': { text: 'I have been sleeping better.' } });
+    expect(references['transcript.doc-9.text'].reference).toBe('DocumentReference/doc-9');
+  });
+
+  it('applies template overrides and removals by target path', () => {
+    const { sourceData, references } = adaptFhirBundle(bundle, {
+      template: {
+        sources: {
+          fhir: {
+            'patient.name': { resource: 'Patient', path: "name[?use == 'usual']", format: 'humanName' },
+            'patient.email': null,
+            'visit.cpt': { resource: 'Encounter', path: 'type[].coding[].code' },
+          },
+        },
+      },
+    });
+
+    expect(sourceData.patient).toMatchObject({ name: 'Casey' });
+    expect(sourceData.patient).not.toHaveProperty('email');
+    expect(sourceData.visit).toMatchObject({ cpt: '90837' });
+    expect(references['visit.cpt']).toEqual({ reference: 'Encounter/enc-7', element: 'type[].coding[].code' });
+  });
+
+  it('rejects non-bundles and invalid mappings', () => {
+    expect(() => adaptFhirBundle({ resourceType: 'Patient' })).toThrow(FhirError);
+
+    const error = (() => {
+      try {
+        adaptFhirBundle(bundle, { mapping: { 'a[].b[].c': { resource: 'Patient', path: 'name' } } });
+      } catch (caught) {
+        return caught;
+      }
+      return undefined;
+    })();
+    expect(error).toBeInstanceOf(FhirError);
+    expect((error as FhirError).context).toMatchObject({ code: 'fhir-invalid-mapping', target: 'a[].b[].c' });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * FHIR Note Exporter Tests
+ *
+ * Domain: fhir/__tests__
+ * Responsibility: Assert final notes export as validated Composition,
+ * DocumentReference, and Provenance resources.
+ */
+
+import { createHash } from 'node:crypto';
+import { beforeAll, describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import { runPipeline } from '../../pipeline';
+import type { PipelineOptions, PipelineOutput } from '../../pipeline';
+import { adaptFhirBundle, exportNoteToFhir, FHIR_IDENTIFIER_SYSTEMS, FhirError } from '../index';
+import type { FhirAdapterResult } from '../index';
+
+const template: NoteTemplate = {
+  id: 'tmpl-fhir-export',
+  name: 'Progress Note',
+  version: '1.2.0',
+  prompt: { system: 'System.', main: 'Write the note.' },
+  style: { font: 'Inter', color: '#111111', accent: '#3366FF', spacing: 8 },
+  layout: [
+    {
+      id: 'patient-section',
+      type: 'section',
+      title: 'Patient',
+      content: [
+        { id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' },
+        { id: 'dx-codes', slot: 'lookup', targetPath: 'dx.codes', lookup: 'diagnoses[].code | join(", ")' },
+      ],
+    },
+    {
+      id: 'assessment-section',
+      type: 'section',
+      title: 'Assessment',
+      content: [
+        { id: 'assessment-summary', slot: 'ai', outputPath: 'assessment.summary', aiDeps: ['patient.name'] },
+      ],
+    },
+  ],
+};
+
+const bundle = {
+  resourceType: 'Bundle',
+  type: 'collection',
+  entry: [
+    { resource: { resourceType: 'Patient', id: 'pt-1', name: [{ given: ['Jane'], family: 'Doe' }] } },
+    {
+      resource: {
+        resourceType: 'Condition',
+        id: 'c-1',
+        code: { coding: [{ system: 'http://hl7.org/fhir/sid/icd-10-cm', code: 'F33.1' }] },
+      },
+    },
+  ],
+};
+
+const openaiClient = {
+  responses: {
+    create: async () => ({
+      id: 'resp-fhir-001',
+      object: 'response',
+      created: Date.now(),
+      model: 'mock-gpt',
+      status: 'completed',
+      output: [],
+      output_text: JSON.stringify({ assessment: { summary: 'Mood is stable & improving.' } }),
+      usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+      prompt: {},
+    }),
+  },
+} as unknown as PipelineOptions['openaiClient'];
+
+let adapted: FhirAdapterResult;
+let output: PipelineOutput;
+
+beforeAll(async () => {
+  adapted = adaptFhirBundle(bundle);
+  output = await runPipeline({ template, sourceData: adapted.sourceData, options: { openaiClient } });
+});
+
+describe('exportNoteToFhir', () => {
+  it('builds one Composition section per top-level component with XHTML narrative', () => {
+    const { composition } = exportNoteToFhir(output, template, {
+      subject: { reference: 'Patient/pt-1' },
+      date: '2025-10-24T15:00:00Z',
+    });
+
+    expect(composition).toMatchObject({
+      resourceType: 'Composition',
+      id: 'tmpl-fhir-export-resp-fhir-001',
+      status: 'final',
+      subject: { reference: 'Patient/pt-1' },
+      author: [{ display: 'mock-gpt' }],
+      title: 'Progress Note',
+    });
+    expect(composition.section?.map(section => section.title)).toEqual(['Patient', 'Assessment']);
+
+    const [patient, assessment] = composition.section ?? [];
+    expect(patient.text?.div).toStartWith('<div xmlns="http://www.w3.org/1999/xhtml"><div class=');
+    expect(patient.text?.div).toContain('Jane Doe');
+    expect(patient.text?.div).toContain('F33.1');
+    expect(patient.text?.div).not.toContain('<section');
+    expect(assessment.text?.div).toContain('Mood is stable &amp; improving.');
+  });
+
+  it('attaches the full HTML to the DocumentReference', () => {
+    const { documentReference } = exportNoteToFhir(output, template, { date: '2025-10-24T15:00:00Z' });
+    const attachment = documentReference.content?.[0].attachment;
+
+    expect(Buffer.from(attachment?.data ?? '', 'base64').toString('utf8')).toBe(output.html);
+    expect(attachment?.contentType).toBe('text/html');
+    expect(attachment?.hash).toBe(createHash('sha1').update(output.html).digest('base64'));
+    expect(documentReference.context?.related).toEqual([{ reference: 'Composition/tmpl-fhir-export-resp-fhir-001' }]);
+  });
+
+  it('records model, response id, css hash, template, and FHIR sources in Provenance', () => {
+    const { provenance } = exportNoteToFhir(output, template, {
+      date: '2025-10-24T15:00:00Z',
+      sourceReferences: adapted.references,
+    });
+
+    expect(provenance.target.map(target => target.reference)).toEqual([
+      'Composition/tmpl-fhir-export-resp-fhir-001',
+      'DocumentReference/tmpl-fhir-export-resp-fhir-001-html',
+    ]);
+    expect(provenance.agent[0].who).toEqual({ display: 'mock-gpt' });
+
+    const identifiers = (provenance.entity ?? []).map(entity => entity.what.identifier);
+    expect(identifiers).toContainEqual({ system: FHIR_IDENTIFIER_SYSTEMS.responseId, value: 'resp-fhir-001' });
+    expect(identifiers).toContainEqual({ system: FHIR_IDENTIFIER_SYSTEMS.cssHash, value: output.css.hash });
+    expect(identifiers).toContainEqual({ system: FHIR_IDENTIFIER_SYSTEMS.template, value: 'tmpl-fhir-export@1.2.0' });
+
+    const sources = (provenance.entity ?? []).filter(entity => entity.role === 'source').map(entity => entity.what.reference);
+    expect(sources.sort()).toEqual(['Condition/c-1', 'Patient/pt-1']);
+  });
+
+  it('rejects exports that fail structural validation or belong to another template', () => {
+    const error = (() => {
+      try {
+        exportNoteToFhir(output, template, { date: '2025-10-24' });
+      } catch (caught) {
+        return caught;
+      }
+      return undefined;
+    })();
+    expect(error).toBeInstanceOf(FhirError);
+    expect((error as FhirError).context.code).toBe('fhir-invalid-export');
+    expect((error as FhirError).context.issues?.length).toBeGreaterThan(0);
+
+    expect(() => exportNoteToFhir(output, { ...template, version: '2.0.0' })).toThrow(FhirError);
+  });
+});
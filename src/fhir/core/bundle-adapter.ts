@@ -0,0 +1,198 @@
+/**
+ * FHIR Adapter - Bundle to SourceData
+ *
+ * Domain: fhir/core
+ * Responsibility: Read an R4 Bundle through a declarative mapping and produce
+ * pipeline SourceData plus a provenance reference for every mapped value.
+ *
+ * SOR: Rules run in mapping order. Scalar targets take the first matching
+ * resource with a value; `[]` targets take one entry per matching resource,
+ * so rules sharing a list target and filter stay index-aligned.
+ * DI: Callers pass a template (for `sources.fhir`) or a replacement mapping.
+ */
+
+import type { SourceValueFormat } from '../../derivation/types';
+import { flattenProjection, getByPath, hasPath, setByPath } from '../../paths';
+import type { CompiledPath } from '../../paths';
+import type { SourceData } from '../../resolution/contracts/types';
+import { FhirError } from '../errors';
+import type {
+  FhirAdapterOptions,
+  FhirAdapterResult,
+  FhirBundle,
+  FhirResource,
+  FhirSourceReference,
+} from '../types';
+import { formatFhirValue } from '../utils/datatypes';
+import type { CompiledFieldMapping } from './mapping';
+import { compileFhirMapping, ID_KEY, resolveFhirMapping } from './mapping';
+
+interface BundleResource {
+  resource: FhirResource;
+  reference: string;
+}
+
+interface MappedValue {
+  value: unknown;
+  element: string;
+}
+
+/**
+ * Map a FHIR R4 Bundle into SourceData.
+ *
+ * @param bundle - Parsed Bundle JSON
+ * @param options - Template overrides and/or a replacement base mapping
+ * @returns SourceData and the FHIR reference behind each mapped value
+ * @throws FhirError when the input is not a Bundle or the mapping is invalid
+ */
+export function adaptFhirBundle(bundle: unknown, options: FhirAdapterOptions = {}): FhirAdapterResult {
+  const resources = collectResources(bundle);
+  const rules = compileFhirMapping(resolveFhirMapping(options));
+  const sourceData: SourceData = {};
+  const references: Record<string, FhirSourceReference> = {};
+
+  for (const rule of rules) {
+    const candidates = resources.filter(entry =>
+      entry.resource.resourceType === rule.rule.resource && matchesCondition(entry.resource, rule.where)
+    );
+
+    if (rule.perResource) {
+      for (const entry of candidates) {
+        const mapped = readValue(entry.resource, rule, false);
+        if (!mapped || !entry.resource.id) continue;
+        const target = withResourceId(rule.targetPath, entry.resource.id);
+        setByPath(sourceData, target, mapped.value);
+        references[target.source] = { reference: entry.reference, element: mapped.element };
+      }
+      continue;
+    }
+
+    if (rule.each) {
+      const mapped = candidates.map(entry => readValue(entry.resource, rule, false));
+      if (mapped.every(value => value === undefined)) continue;
+      setByPath(sourceData, rule.targetPath, mapped.map(value => value?.value));
+      mapped.forEach((value, index) => {
+        if (value) {
+          references[rule.target.replace('[]', `[${index}]`)] = { reference: candidates[index].reference, element: value.element };
+        }
+      });
+      continue;
+    }
+
+    for (const entry of candidates) {
+      const mapped = readValue(entry.resource, rule, rule.targetPath.depth > 0);
+      if (!mapped) continue;
+      setByPath(sourceData, rule.targetPath, mapped.value);
+      references[rule.target] = { reference: entry.reference, element: mapped.element };
+      break;
+    }
+  }
+
+  return { sourceData, references };
+}
+
+function collectResources(bundle: unknown): BundleResource[] {
+  if (!isRecord(bundle) || bundle.resourceType !== 'Bundle') {
+    throw new FhirError('Expected a FHIR Bundle resource', { code: 'fhir-invalid-bundle' });
+  }
+
+  const entries = (bundle as unknown as FhirBundle).entry;
+  if (entries !== undefined && !Array.isArray(entries)) {
+    throw new FhirError('Bundle.entry must be an array', { code: 'fhir-invalid-bundle' });
+  }
+
+  const resources: BundleResource[] = [];
+  (entries ?? []).forEach((entry, index) => {
+    const resource = entry?.resource;
+    if (!isRecord(resource) || typeof resource.resourceType !== 'string') {
+      return;
+    }
+    const reference = resource.id
+      ? `${resource.resourceType}/${resource.id}`
+      : entry.fullUrl ?? `${resource.resourceType}/entry-${index}`;
+    resources.push({ resource, reference });
+  });
+  return resources;
+}
+
+function matchesCondition(resource: FhirResource, where: CompiledFieldMapping['where']): boolean {
+  if (!where) {
+    return true;
+  }
+  if (where.equals === undefined && where.contains === undefined) {
+    return hasPath(resource, where.path);
+  }
+
+  const actual = firstDefined(getByPath(resource, where.path), where.path);
+  if (where.equals !== undefined && actual !== where.equals) {
+    return false;
+  }
+  if (where.contains !== undefined && !(typeof actual === 'string' && actual.includes(where.contains))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Read the first non-empty path of a rule; list targets keep every entry.
+ */
+function readValue(resource: FhirResource, rule: CompiledFieldMapping, asList: boolean): MappedValue | undefined {
+  for (const path of rule.paths) {
+    const raw = getByPath(resource, path);
+    const value = asList
+      ? toList(raw, path, rule.rule.format)
+      : toScalar(raw, path, rule.rule.format);
+    if (!isEmpty(value)) {
+      return { value, element: path.source };
+    }
+  }
+  return undefined;
+}
+
+function toScalar(raw: unknown, path: CompiledPath, format?: SourceValueFormat): unknown {
+  if (format) {
+    return formatFhirValue(path.depth > 0 ? flattenProjection(raw, path.depth) : raw, format);
+  }
+  return firstDefined(raw, path);
+}
+
+function toList(raw: unknown, path: CompiledPath, format?: SourceValueFormat): unknown {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (path.depth === 0) {
+    const value = format ? formatFhirValue(raw, format) : raw;
+    return value === undefined ? undefined : [value];
+  }
+  if (!format) {
+    return raw;
+  }
+  const flattened = flattenProjection(raw, path.depth);
+  return Array.isArray(flattened) ? flattened.map(entry => formatFhirValue(entry, format)) : undefined;
+}
+
+function firstDefined(raw: unknown, path: CompiledPath): unknown {
+  if (path.depth === 0) {
+    return raw;
+  }
+  const flattened = flattenProjection(raw, path.depth);
+  return Array.isArray(flattened) ? flattened.find(entry => entry !== undefined && entry !== null) : undefined;
+}
+
+function withResourceId(target: CompiledPath, id: string): CompiledPath {
+  const steps = target.steps.map(step =>
+    step.kind === 'key' && step.key === ID_KEY ? { kind: 'key' as const, key: id } : step
+  );
+  return { ...target, source: target.source.replace('{id}', id), steps };
+}
+
+function isEmpty(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') {
+    return true;
+  }
+  return Array.isArray(value) && value.every(entry => entry === undefined || entry === null);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> & FhirResource {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,101 @@
+/**
+ * FHIR Adapter - Default Mapping
+ *
+ * Domain: fhir/core
+ * Responsibility: Declare how a typical R4 bundle fills SourceData.
+ *
+ * SOR: Target keys follow the SourceData shape the templates already read
+ * (patient.*, visit.*, provider.*, facility.*, diagnoses[], assessments.*,
+ * transcript.<id>). Templates override or drop entries via `sources.fhir`.
+ */
+
+import type { FhirSourceMapping } from '../types';
+
+export const ICD10_CM_SYSTEM = 'http://hl7.org/fhir/sid/icd-10-cm';
+export const ICD10_SYSTEM = 'http://hl7.org/fhir/sid/icd-10';
+
+// LOINC panel and total-score codes for the instruments resolution can score
+const PHQ9_TOTAL = '44261-6';
+const PHQ9_PANEL = '44249-1';
+const GAD7_TOTAL = '70274-6';
+const GAD7_PANEL = '69737-5';
+
+const ICD10_CODE = [
+  `code.coding[?system == '${ICD10_CM_SYSTEM}'].code`,
+  `code.coding[?system == '${ICD10_SYSTEM}'].code`,
+];
+
+/**
+ * Mapping used when a template declares no overrides.
+ */
+export const DEFAULT_FHIR_MAPPING: FhirSourceMapping = {
+  // Patient demographics
+  'patient.id': { resource: 'Patient', path: 'id' },
+  'patient.name': { resource: 'Patient', path: ["name[?use == 'official']", 'name'], format: 'humanName' },
+  'patient.firstName': { resource: 'Patient', path: ["name[?use == 'official'].given[0]", 'name[0].given[0]'] },
+  'patient.lastName': { resource: 'Patient', path: ["name[?use == 'official'].family", 'name[0].family'] },
+  'patient.dob': { resource: 'Patient', path: 'birthDate', format: 'date' },
+  'patient.gender': { resource: 'Patient', path: 'gender' },
+  'patient.mrn': { resource: 'Patient', path: ["identifier[?type.text == 'MRN'].value", 'identifier[0].value'] },
+  'patient.phone': { resource: 'Patient', path: "telecom[?system == 'phone'].value" },
+  'patient.email': { resource: 'Patient', path: "telecom[?system == 'email'].value" },
+  'patient.address': { resource: 'Patient', path: 'address', format: 'address' },
+
+  // Encounter
+  'visit.id': { resource: 'Encounter', path: 'id' },
+  'visit.date': { resource: 'Encounter', path: 'period.start', format: 'date' },
+  'visit.start': { resource: 'Encounter', path: 'period.start' },
+  'visit.end': { resource: 'Encounter', path: 'period.end' },
+  'visit.type': { resource: 'Encounter', path: 'type', format: 'codeText' },
+  'visit.status': { resource: 'Encounter', path: 'status' },
+  'visit.reason': { resource: 'Encounter', path: 'reasonCode', format: 'codeText' },
+  'visit.clinician': { resource: 'Practitioner', path: 'name', format: 'humanName' },
+
+  // Practitioner and organization
+  'provider.name': { resource: 'Practitioner', path: 'name', format: 'humanName' },
+  'provider.credentials': { resource: 'Practitioner', path: 'qualification[].code', format: 'codeText' },
+  'facility.name': { resource: 'Organization', path: 'name' },
+  'facility.phone': { resource: 'Organization', path: "telecom[?system == 'phone'].value" },
+  'facility.address': { resource: 'Organization', path: 'address[0].line[0]' },
+  'facility.city': { resource: 'Organization', path: 'address[0].city' },
+  'facility.state': { resource: 'Organization', path: 'address[0].state' },
+  'facility.zip': { resource: 'Organization', path: 'address[0].postalCode' },
+
+  // Conditions: one diagnosis per coded Condition, ICD-10 code preferred
+  'diagnoses[].code': { resource: 'Condition', path: ICD10_CODE, where: { path: 'code.coding[].code' } },
+  'diagnoses[].display': { resource: 'Condition', path: 'code', format: 'codeText', where: { path: 'code.coding[].code' } },
+  'diagnoses[].status': { resource: 'Condition', path: 'clinicalStatus', format: 'codeText', where: { path: 'code.coding[].code' } },
+  'diagnoses[].onset': { resource: 'Condition', path: 'onsetDateTime', format: 'date', where: { path: 'code.coding[].code' } },
+
+  // Assessments: item answers from QuestionnaireResponse, totals from Observation
+  'assessments.phq9.responses[]': {
+    resource: 'QuestionnaireResponse',
+    path: 'item[].answer[0].valueInteger',
+    where: { path: 'questionnaire', contains: PHQ9_PANEL },
+    from: 'first',
+  },
+  'assessments.phq9.totalScore': {
+    resource: 'Observation',
+    path: ['valueQuantity.value', 'valueInteger'],
+    where: { path: `code.coding[?code == '${PHQ9_TOTAL}']` },
+  },
+  'assessments.gad7.responses[]': {
+    resource: 'QuestionnaireResponse',
+    path: 'item[].answer[0].valueInteger',
+    where: { path: 'questionnaire', contains: GAD7_PANEL },
+    from: 'first',
+  },
+  'assessments.gad7.totalScore': {
+    resource: 'Observation',
+    path: ['valueQuantity.value', 'valueInteger'],
+    where: { path: `code.coding[?code == '${GAD7_TOTAL}']` },
+  },
+
+  // Transcripts keyed by DocumentReference id, so verbatimRef "transcript:<id>" resolves
+  'transcript.{id}.text': {
+    resource: 'DocumentReference',
+    path: 'content[0].attachment',
+    format: 'attachmentText',
+    where: { path: 'content[0].attachment.contentType', contains: 'text/plain' },
+  },
+};
@@ -0,0 +1,127 @@
+/**
+ * FHIR Adapter - Mapping Resolution
+ *
+ * Domain: fhir/core
+ * Responsibility: Merge template overrides onto the default mapping and
+ * compile every rule's paths up front.
+ *
+ * SOR: Template entries replace defaults by target path; `null` removes one.
+ * Compilation rejects rules the adapter cannot write, so a bad template
+ * fails before any bundle is read.
+ */
+
+import type { SourceFieldMapping } from '../../derivation/types';
+import { compilePath, PathError } from '../../paths';
+import type { CompiledPath } from '../../paths';
+import { FhirError } from '../errors';
+import type { FhirAdapterOptions, FhirSourceMapping } from '../types';
+import { DEFAULT_FHIR_MAPPING } from './default-mapping';
+
+/** Placeholder key standing in for `{id}` while the target compiles */
+export const ID_KEY = '$id';
+
+/**
+ * A mapping rule with its paths compiled.
+ */
+export interface CompiledFieldMapping {
+  target: string;
+  targetPath: CompiledPath;
+  /** Target contains `{id}`: every matching resource writes under its own id */
+  perResource: boolean;
+  /** Target has `[]` and collects one entry per matching resource */
+  each: boolean;
+  paths: CompiledPath[];
+  where?: { path: CompiledPath; equals?: string | number | boolean; contains?: string };
+  rule: SourceFieldMapping;
+}
+
+/**
+ * Resolve the mapping a bundle is read with.
+ *
+ * @param options - Optional base mapping and template carrying `sources.fhir`
+ * @returns Base mapping (defaults unless replaced) with template overrides applied
+ */
+export function resolveFhirMapping(options: FhirAdapterOptions = {}): FhirSourceMapping {
+  const merged: FhirSourceMapping = { ...(options.mapping ?? DEFAULT_FHIR_MAPPING) };
+  const overrides = options.template?.sources?.fhir ?? {};
+
+  for (const [target, rule] of Object.entries(overrides)) {
+    if (rule === null) {
+      delete merged[target];
+    } else {
+      merged[target] = rule;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Compile every rule of a mapping.
+ *
+ * @throws FhirError ('fhir-invalid-mapping') for malformed paths or targets the adapter cannot fill
+ */
+export function compileFhirMapping(mapping: FhirSourceMapping): CompiledFieldMapping[] {
+  return Object.entries(mapping).map(([target, rule]) => compileRule(target, rule));
+}
+
+function compileRule(target: string, rule: SourceFieldMapping): CompiledFieldMapping {
+  const perResource = target.includes('{id}');
+  const targetPath = compileOrThrow(target, target.split('{id}').join(ID_KEY));
+  const placeholders = targetPath.steps.filter(step => step.kind === 'key' && step.key === ID_KEY).length;
+
+  if (targetPath.steps.some(step => step.kind === 'filter')) {
+    throw invalid(target, target, `Target "${target}" cannot contain a predicate`);
+  }
+  if (perResource && (placeholders !== 1 || targetPath.depth > 0)) {
+    throw invalid(target, target, `Target "${target}" must use {id} once, as a whole key, without []`);
+  }
+
+  const each = targetPath.depth > 0 && rule.from !== 'first';
+  if (each && targetPath.depth > 1) {
+    throw invalid(target, target, `Target "${target}" has ${targetPath.depth} wildcards; per-resource lists take one`);
+  }
+
+  const sources = typeof rule.path === 'string' ? [rule.path] : rule.path;
+  const paths = sources.map(path => compileOrThrow(target, path));
+
+  if (!each && targetPath.depth > 1) {
+    const mismatch = paths.find(path => path.depth !== targetPath.depth);
+    if (mismatch) {
+      throw invalid(target, mismatch.source, `Path "${mismatch.source}" must have ${targetPath.depth} wildcards to fill "${target}"`);
+    }
+  }
+
+  const where = rule.where
+    ? {
+      path: compileOrThrow(target, rule.where.path),
+      equals: rule.where.equals,
+      contains: rule.where.contains,
+    }
+    : undefined;
+
+  return {
+    target,
+    targetPath: { ...targetPath, source: target },
+    perResource,
+    each,
+    paths,
+    where,
+    rule,
+  };
+}
+
+function compileOrThrow(target: string, path: string): CompiledPath {
+  try {
+    return compilePath(path);
+  } catch (error) {
+    if (!(error instanceof PathError)) {
+      throw error;
+    }
+    throw invalid(target, path, `Mapping "${target}": ${error.message}`);
+  }
+}
+
+function invalid(target: string, path: string, message: string): FhirError {
+  return new FhirError(message, { code: 'fhir-invalid-mapping', target, path });
+}
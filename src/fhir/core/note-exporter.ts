@@ -0,0 +1,200 @@
+/**
+ * FHIR Exporter - Final Note to Composition, DocumentReference, Provenance
+ *
+ * Domain: fhir/core
+ * Responsibility: File a pipeline output back into an EHR as FHIR R4 resources.
+ *
+ * SOR: Section narratives come from the factory's per-component fragments, so
+ * the Composition reads exactly like the rendered note. The DocumentReference
+ * carries the full HTML; the Provenance ties both to the model, response id,
+ * stylesheet hash, template version, and any FHIR sources the note was built from.
+ * SOD: Every export passes structural validation before it is returned.
+ */
+
+import { createHash } from 'node:crypto';
+import type { NoteTemplate } from '../../derivation/types';
+import { renderNoteSections } from '../../factory';
+import type { RenderedSection } from '../../factory';
+import { resolveDesignTokens } from '../../pipeline/core/design-tokens';
+import type { PipelineOutput } from '../../pipeline/types';
+import { validateFhirNoteExport } from '../../validation';
+import { FhirError } from '../errors';
+import type {
+  FhirCodeableConcept,
+  FhirComposition,
+  FhirCompositionSection,
+  FhirDocumentReference,
+  FhirExportOptions,
+  FhirNoteExport,
+  FhirProvenance,
+  FhirReference,
+} from '../types';
+import { toNarrativeDiv } from '../utils/narrative';
+
+/** Identifier systems for the generation artifacts a Provenance cites */
+export const FHIR_IDENTIFIER_SYSTEMS = {
+  responseId: 'https://catalyst/fhir/identifier/response-id',
+  cssHash: 'https://catalyst/fhir/identifier/css-hash',
+  template: 'https://catalyst/fhir/identifier/template',
+} as const;
+
+const PROGRESS_NOTE: FhirCodeableConcept = {
+  coding: [{ system: 'http://loinc.org', code: '11506-3', display: 'Progress note' }],
+};
+
+const ASSEMBLER: FhirCodeableConcept = {
+  coding: [{ system: 'http://terminology.hl7.org/CodeSystem/provenance-participant-type', code: 'assembler' }],
+};
+
+const AUTHOR: FhirCodeableConcept = {
+  coding: [{ system: 'http://terminology.hl7.org/CodeSystem/provenance-participant-type', code: 'author' }],
+};
+
+const CREATE: FhirCodeableConcept = {
+  coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v3-DataOperation', code: 'CREATE' }],
+};
+
+/** Longest id suffix ('-provenance') must still fit FHIR's 64-character id limit */
+const MAX_BASE_ID = 64 - '-provenance'.length;
+
+/**
+ * Export a final note as FHIR R4 resources.
+ *
+ * @param output - Pipeline output (must include `payload`)
+ * @param template - Template that produced the output
+ * @param options - Subject, encounter, authors, ids, and source provenance
+ * @returns Composition, DocumentReference, and Provenance
+ * @throws FhirError ('fhir-invalid-export') when the output cannot be exported or fails structural validation
+ */
+export function exportNoteToFhir(
+  output: PipelineOutput,
+  template: NoteTemplate,
+  options: FhirExportOptions = {}
+): FhirNoteExport {
+  if (!output.payload) {
+    throw new FhirError('PipelineOutput.payload is required to render section narratives', { code: 'fhir-invalid-export' });
+  }
+  if (output.template.id !== template.id || output.template.version !== template.version) {
+    throw new FhirError(
+      `Output was produced by ${output.template.id}@${output.template.version}, not ${template.id}@${template.version}`,
+      { code: 'fhir-invalid-export' }
+    );
+  }
+
+  const tokens = options.tokens ?? resolveDesignTokens(template).tokens;
+  const sections = renderNoteSections({ template, payload: output.payload, tokens });
+  const baseId = toFhirId(options.id ?? `${template.id}-${output.responseId ?? output.css.hash}`);
+  const date = options.date ?? new Date().toISOString();
+  const status = options.status ?? 'final';
+  const type = options.type ?? PROGRESS_NOTE;
+  const author = options.author ?? [{ display: output.model }];
+
+  const composition: FhirComposition = {
+    resourceType: 'Composition',
+    id: baseId,
+    status,
+    type,
+    ...(options.subject ? { subject: options.subject } : {}),
+    ...(options.encounter ? { encounter: options.encounter } : {}),
+    date,
+    author,
+    title: template.name,
+    section: sections.map(toCompositionSection),
+  };
+  const compositionRef: FhirReference = { reference: `Composition/${composition.id}` };
+
+  const html = Buffer.from(output.html, 'utf8');
+  const documentReference: FhirDocumentReference = {
+    resourceType: 'DocumentReference',
+    id: `${baseId}-html`,
+    status: 'current',
+    docStatus: status,
+    type,
+    ...(options.subject ? { subject: options.subject } : {}),
+    date,
+    author,
+    description: `${template.name} v${template.version}`,
+    content: [{
+      attachment: {
+        contentType: 'text/html',
+        data: html.toString('base64'),
+        size: html.byteLength,
+        hash: createHash('sha1').update(html).digest('base64'),
+        title: template.name,
+        creation: date,
+      },
+    }],
+    context: {
+      ...(options.encounter ? { encounter: [options.encounter] } : {}),
+      related: [compositionRef],
+    },
+  };
+
+  const provenance: FhirProvenance = {
+    resourceType: 'Provenance',
+    id: `${baseId}-provenance`,
+    target: [compositionRef, { reference: `DocumentReference/${documentReference.id}` }],
+    recorded: date,
+    activity: CREATE,
+    agent: [
+      { type: ASSEMBLER, who: { display: output.model } },
+      ...(options.author ?? []).map(who => ({ type: AUTHOR, who })),
+    ],
+    entity: buildEntities(output, template, options),
+  };
+
+  const result: FhirNoteExport = { composition, documentReference, provenance };
+  const validation = validateFhirNoteExport(result);
+  if (!validation.ok) {
+    const first = validation.errors[0];
+    throw new FhirError(
+      `FHIR export failed structural validation: ${first.instancePath || '/'} ${first.message ?? 'is invalid'}`,
+      { code: 'fhir-invalid-export', issues: validation.errors }
+    );
+  }
+
+  return result;
+}
+
+function toCompositionSection(rendered: RenderedSection): FhirCompositionSection {
+  return {
+    ...(rendered.component.title ? { title: rendered.component.title } : {}),
+    text: { status: 'generated', div: toNarrativeDiv(rendered.html) },
+  };
+}
+
+function buildEntities(
+  output: PipelineOutput,
+  template: NoteTemplate,
+  options: FhirExportOptions
+): FhirProvenance['entity'] {
+  const entities: NonNullable<FhirProvenance['entity']> = [
+    {
+      role: 'derivation',
+      what: { identifier: { system: FHIR_IDENTIFIER_SYSTEMS.template, value: `${template.id}@${template.version}` }, display: template.name },
+    },
+    {
+      role: 'derivation',
+      what: { identifier: { system: FHIR_IDENTIFIER_SYSTEMS.cssHash, value: output.css.hash }, display: 'Compiled note stylesheet' },
+    },
+  ];
+
+  if (output.responseId) {
+    entities.push({
+      role: 'derivation',
+      what: { identifier: { system: FHIR_IDENTIFIER_SYSTEMS.responseId, value: output.responseId }, display: `Generation response (${output.model})` },
+    });
+  }
+
+  const sources = new Set(Object.values(options.sourceReferences ?? {}).map(source => source.reference));
+  for (const reference of sources) {
+    entities.push({ role: 'source', what: { reference } });
+  }
+
+  return entities;
+}
+
+function toFhirId(text: string): string {
+  const id = text.replace(/[^A-Za-z0-9\-.]+/g, '-').replace(/^-+|-+$/g, '').slice(0, MAX_BASE_ID);
+  return id || 'note';
+}
@@ -0,0 +1,15 @@
+import type { FhirErrorContext } from './types';
+
+/**
+ * Error thrown when a FHIR bundle or mapping cannot be used.
+ */
+export class FhirError extends Error {
+  readonly context: FhirErrorContext;
+
+  /** Create a FHIR error with machine-readable context. */
+  constructor(message: string, context: FhirErrorContext) {
+    super(message);
+    this.name = 'FhirError';
+    this.context = context;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * FHIR Domain - Barrel Export
+ *
+ * Domain: fhir
+ * Responsibility: Interchange between FHIR R4 resources and the note pipeline
+ * (bundles in as SourceData, final notes out as Composition/DocumentReference/Provenance)
+ *
+ * Usage:
+ * ```typescript
+ * import { adaptFhirBundle, exportNoteToFhir } from './fhir';
+ *
+ * const { sourceData, references } = adaptFhirBundle(bundle, { template });
+ * references['diagnoses[0].code']; // { reference: 'Condition/c-1', element: "code.coding[?system == '...'].code" }
+ *
+ * const output = await runPipeline({ template, sourceData, ... });
+ * const { composition, documentReference, provenance } = exportNoteToFhir(output, template, {
+ *   subject: { reference: 'Patient/pt-1' },
+ *   sourceReferences: references,
+ * });
+ * ```
+ *
+ * Templates adjust the mapping with `sources.fhir`:
+ * ```json
+ * { "sources": { "fhir": {
+ *   "patient.preferredName": { "resource": "Patient", "path": "name[?use == 'usual']", "format": "humanName" },
+ *   "patient.email": null
+ * } } }
+ * ```
+ */
+
+// Bundle adapter
+export { adaptFhirBundle } from './core/bundle-adapter';
+export { compileFhirMapping, resolveFhirMapping } from './core/mapping';
+export { DEFAULT_FHIR_MAPPING, ICD10_CM_SYSTEM, ICD10_SYSTEM } from './core/default-mapping';
+
+// Note exporter
+export { exportNoteToFhir, FHIR_IDENTIFIER_SYSTEMS } from './core/note-exporter';
+
+// Utilities
+export { codeText, formatAddress, formatFhirValue, formatHumanName } from './utils/datatypes';
+export { toNarrativeDiv } from './utils/narrative';
+
+// Errors
+export { FhirError } from './errors';
+
+// Types
+export type { CompiledFieldMapping } from './core/mapping';
+export type {
+  FhirAdapterOptions,
+  FhirAdapterResult,
+  FhirAddress,
+  FhirAttachment,
+  FhirBundle,
+  FhirBundleEntry,
+  FhirCodeableConcept,
+  FhirCoding,
+  FhirComposition,
+  FhirCompositionSection,
+  FhirCondition,
+  FhirContactPoint,
+  FhirDocumentReference,
+  FhirEncounter,
+  FhirErrorCode,
+  FhirErrorContext,
+  FhirExportOptions,
+  FhirHumanName,
+  FhirIdentifier,
+  FhirNarrative,
+  FhirNoteExport,
+  FhirObservation,
+  FhirOrganization,
+  FhirPatient,
+  FhirPeriod,
+  FhirPractitioner,
+  FhirProvenance,
+  FhirQuantity,
+  FhirQuestionnaireResponse,
+  FhirQuestionnaireResponseItem,
+  FhirReference,
+  FhirResource,
+  FhirSourceMapping,
+  FhirSourceReference,
+} from './types';
@@ -0,0 +1,311 @@
+/**
+ * FHIR Domain Types
+ *
+ * Minimal FHIR R4 shapes read by the bundle adapter and written by the note
+ * exporter, plus their option and result types. Only the elements the defaults touch are typed;
+ * mappings read any element through the shared path engine.
+ */
+
+import type { NoteTemplate, SourceFieldMapping } from '../derivation/types';
+import type { SourceData } from '../resolution/contracts/types';
+import type { DesignTokens } from '../tokens/types';
+import type { ValidationIssue } from '../validation/types';
+
+// ============================================================================
+// Datatypes
+// ============================================================================
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirHumanName {
+  use?: string;
+  text?: string;
+  family?: string;
+  given?: string[];
+  prefix?: string[];
+  suffix?: string[];
+}
+
+export interface FhirAddress {
+  use?: string;
+  text?: string;
+  line?: string[];
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface FhirContactPoint {
+  system?: 'phone' | 'fax' | 'email' | 'pager' | 'url' | 'sms' | 'other';
+  value?: string;
+  use?: string;
+}
+
+export interface FhirIdentifier {
+  system?: string;
+  value?: string;
+  type?: FhirCodeableConcept;
+}
+
+export interface FhirReference {
+  reference?: string;
+  identifier?: FhirIdentifier;
+  display?: string;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirAttachment {
+  contentType?: string;
+  language?: string;
+  data?: string;   // base64
+  url?: string;
+  size?: number;
+  hash?: string;   // base64 SHA-1 of the data
+  title?: string;
+  creation?: string;
+}
+
+export interface FhirNarrative {
+  status: 'generated' | 'extensions' | 'additional' | 'empty';
+  div: string;     // XHTML wrapped in <div xmlns="http://www.w3.org/1999/xhtml">
+}
+
+// ============================================================================
+// Resources
+// ============================================================================
+
+/**
+ * Fields every resource shares
+ */
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  meta?: { profile?: string[]; lastUpdated?: string };
+}
+
+export interface FhirBundleEntry {
+  fullUrl?: string;
+  resource?: FhirResource;
+}
+
+export interface FhirBundle extends FhirResource {
+  resourceType: 'Bundle';
+  type: string;
+  entry?: FhirBundleEntry[];
+}
+
+export interface FhirPatient extends FhirResource {
+  resourceType: 'Patient';
+  identifier?: FhirIdentifier[];
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  gender?: string;
+  birthDate?: string;
+  address?: FhirAddress[];
+}
+
+export interface FhirEncounter extends FhirResource {
+  resourceType: 'Encounter';
+  status?: string;
+  class?: FhirCoding;
+  type?: FhirCodeableConcept[];
+  subject?: FhirReference;
+  participant?: Array<{ individual?: FhirReference }>;
+  period?: FhirPeriod;
+  reasonCode?: FhirCodeableConcept[];
+  serviceProvider?: FhirReference;
+}
+
+export interface FhirCondition extends FhirResource {
+  resourceType: 'Condition';
+  clinicalStatus?: FhirCodeableConcept;
+  category?: FhirCodeableConcept[];
+  code?: FhirCodeableConcept;
+  subject?: FhirReference;
+  onsetDateTime?: string;
+}
+
+export interface FhirObservation extends FhirResource {
+  resourceType: 'Observation';
+  status?: string;
+  code?: FhirCodeableConcept;
+  subject?: FhirReference;
+  effectiveDateTime?: string;
+  valueQuantity?: FhirQuantity;
+  valueInteger?: number;
+  valueString?: string;
+  valueCodeableConcept?: FhirCodeableConcept;
+}
+
+export interface FhirQuestionnaireResponseItem {
+  linkId: string;
+  text?: string;
+  answer?: Array<{ valueInteger?: number; valueString?: string; valueCoding?: FhirCoding; valueBoolean?: boolean }>;
+  item?: FhirQuestionnaireResponseItem[];
+}
+
+export interface FhirQuestionnaireResponse extends FhirResource {
+  resourceType: 'QuestionnaireResponse';
+  questionnaire?: string;
+  status?: string;
+  authored?: string;
+  item?: FhirQuestionnaireResponseItem[];
+}
+
+export interface FhirPractitioner extends FhirResource {
+  resourceType: 'Practitioner';
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  qualification?: Array<{ code?: FhirCodeableConcept }>;
+}
+
+export interface FhirOrganization extends FhirResource {
+  resourceType: 'Organization';
+  name?: string;
+  telecom?: FhirContactPoint[];
+  address?: FhirAddress[];
+}
+
+export interface FhirDocumentReference extends FhirResource {
+  resourceType: 'DocumentReference';
+  status?: string;
+  docStatus?: string;
+  type?: FhirCodeableConcept;
+  subject?: FhirReference;
+  date?: string;
+  author?: FhirReference[];
+  description?: string;
+  content?: Array<{ attachment: FhirAttachment; format?: FhirCoding }>;
+  context?: { encounter?: FhirReference[]; related?: FhirReference[] };
+}
+
+export interface FhirCompositionSection {
+  title?: string;
+  code?: FhirCodeableConcept;
+  text?: FhirNarrative;
+  section?: FhirCompositionSection[];
+}
+
+export interface FhirComposition extends FhirResource {
+  resourceType: 'Composition';
+  identifier?: FhirIdentifier;
+  status: 'preliminary' | 'final' | 'amended' | 'entered-in-error';
+  type: FhirCodeableConcept;
+  subject?: FhirReference;
+  encounter?: FhirReference;
+  date: string;
+  author: FhirReference[];
+  title: string;
+  section?: FhirCompositionSection[];
+}
+
+export interface FhirProvenance extends FhirResource {
+  resourceType: 'Provenance';
+  target: FhirReference[];
+  recorded: string;
+  activity?: FhirCodeableConcept;
+  agent: Array<{ type?: FhirCodeableConcept; who: FhirReference }>;
+  entity?: Array<{ role: 'derivation' | 'revision' | 'quotation' | 'source' | 'removal'; what: FhirReference }>;
+}
+
+// ============================================================================
+// Adapter
+// ============================================================================
+
+/**
+ * Mapping rules keyed by SourceData target path
+ */
+export type FhirSourceMapping = Record<string, SourceFieldMapping>;
+
+/**
+ * Where a mapped SourceData value came from
+ */
+export interface FhirSourceReference {
+  reference: string;   // "Condition/c-1" (or the entry fullUrl when the resource has no id)
+  element: string;     // Mapping path that produced the value
+}
+
+/**
+ * Options for adaptFhirBundle
+ */
+export interface FhirAdapterOptions {
+  /** Template whose `sources.fhir` entries override the defaults */
+  template?: Pick<NoteTemplate, 'sources'>;
+  /** Replace the default mapping entirely (template overrides still apply) */
+  mapping?: FhirSourceMapping;
+}
+
+/**
+ * Bundle mapped into pipeline input
+ */
+export interface FhirAdapterResult {
+  sourceData: SourceData;
+  /** Provenance for every mapped value, keyed by concrete path (`diagnoses[0].code`) */
+  references: Record<string, FhirSourceReference>;
+}
+
+/**
+ * Options for exportNoteToFhir
+ */
+export interface FhirExportOptions {
+  /** Base id; resources get `<id>`, `<id>-html`, and `<id>-provenance` (default: template id + responseId) */
+  id?: string;
+  status?: FhirComposition['status'];
+  /** Document type (default: LOINC 11506-3 Progress note) */
+  type?: FhirCodeableConcept;
+  subject?: FhirReference;
+  encounter?: FhirReference;
+  /** Composition authors (default: the generation model) */
+  author?: FhirReference[];
+  /** Composition date and Provenance.recorded (default: now) */
+  date?: string;
+  /** Tokens used to render section narratives (default: resolved from the template) */
+  tokens?: DesignTokens;
+  /** Provenance from adaptFhirBundle; each resource becomes a source entity */
+  sourceReferences?: Record<string, FhirSourceReference>;
+}
+
+/**
+ * Resources produced for one final note
+ */
+export interface FhirNoteExport {
+  composition: FhirComposition;
+  documentReference: FhirDocumentReference;
+  provenance: FhirProvenance;
+}
+
+/**
+ * Failure category raised by the FHIR adapter and exporter
+ */
+export type FhirErrorCode = 'fhir-invalid-bundle' | 'fhir-invalid-mapping' | 'fhir-invalid-export';
+
+/**
+ * Structured context attached to FhirError
+ */
+export interface FhirErrorContext {
+  code: FhirErrorCode;
+  target?: string;   // Mapping key that failed
+  path?: string;     // Offending path text
+  issues?: ValidationIssue[];   // Structural problems found in an export
+}
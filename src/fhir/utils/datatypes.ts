@@ -0,0 +1,91 @@
+// FHIR datatype formatting
+// Flatten HumanName, Address, CodeableConcept, Quantity, and Attachment values into display strings
+
+import type { SourceValueFormat } from '../../derivation/types';
+import type {
+  FhirAddress,
+  FhirAttachment,
+  FhirCodeableConcept,
+  FhirHumanName,
+  FhirQuantity,
+} from '../types';
+
+/**
+ * Apply a mapping format to a value read from a resource.
+ * Repeating elements (e.g. `Patient.name`) use their first entry.
+ *
+ * @param value - Element value (a datatype or a list of them)
+ * @param format - Conversion to apply
+ * @returns The formatted value, or undefined when nothing usable remains
+ */
+export function formatFhirValue(value: unknown, format: SourceValueFormat): unknown {
+  const first = Array.isArray(value) ? value.find(entry => entry !== undefined && entry !== null) : value;
+  if (first === undefined || first === null) {
+    return undefined;
+  }
+
+  switch (format) {
+    case 'humanName':
+      return formatHumanName(first as FhirHumanName);
+    case 'address':
+      return formatAddress(first as FhirAddress);
+    case 'codeText':
+      return codeText(first as FhirCodeableConcept);
+    case 'date':
+      return typeof first === 'string' ? first.slice(0, 10) : undefined;
+    case 'quantity':
+      return formatQuantity(first as FhirQuantity);
+    case 'attachmentText':
+      return attachmentText(first as FhirAttachment);
+  }
+}
+
+/**
+ * "Jane Q Doe"; prefers the name's `text` when present.
+ */
+export function formatHumanName(name: FhirHumanName): string | undefined {
+  if (!isObject(name)) return undefined;
+  if (name.text) return name.text;
+  const parts = [...(name.prefix ?? []), ...(name.given ?? []), name.family, ...(name.suffix ?? [])];
+  return joinDefined(parts, ' ');
+}
+
+/**
+ * "12 Elm St, Anytown, KY 40001"; prefers the address's `text` when present.
+ */
+export function formatAddress(address: FhirAddress): string | undefined {
+  if (!isObject(address)) return undefined;
+  if (address.text) return address.text;
+  const region = joinDefined([address.state, address.postalCode], ' ');
+  return joinDefined([...(address.line ?? []), address.city, region], ', ');
+}
+
+/**
+ * Concept text, else the first coding's display, else its code.
+ */
+export function codeText(concept: FhirCodeableConcept): string | undefined {
+  if (!isObject(concept)) return undefined;
+  if (concept.text) return concept.text;
+  const coding = concept.coding?.find(entry => entry.display || entry.code);
+  return coding?.display ?? coding?.code;
+}
+
+function formatQuantity(quantity: FhirQuantity): string | undefined {
+  if (!isObject(quantity) || quantity.value === undefined) return undefined;
+  const unit = quantity.unit ?? quantity.code;
+  return unit ? `${quantity.value} ${unit}` : String(quantity.value);
+}
+
+function attachmentText(attachment: FhirAttachment): string | undefined {
+  if (!isObject(attachment) || typeof attachment.data !== 'string') return undefined;
+  return Buffer.from(attachment.data, 'base64').toString('utf8');
+}
+
+function joinDefined(parts: Array<string | undefined>, separator: string): string | undefined {
+  const text = parts.filter(part => typeof part === 'string' && part.trim() !== '').join(separator);
+  return text === '' ? undefined : text;
+}
+
+function isObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
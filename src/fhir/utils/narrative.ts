@@ -0,0 +1,41 @@
+// FHIR narrative conversion
+// Turn rendered HTML fragments into the XHTML subset FHIR narratives allow
+
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+/** HTML5 sectioning elements FHIR narrative does not allow; rendered as div */
+const SECTIONING = /<(\/?)(section|article|header|footer|aside|nav|main|figure|figcaption)\b/gi;
+
+/** Void elements that must be self-closed in XHTML */
+const VOID = /<(br|hr|img|col|meta|link|input|wbr)\b([^>]*?)\s*\/?>/gi;
+
+/** Attributes outside HTML 4 (data-*, aria-*, role) */
+const NON_HTML4_ATTRIBUTE = /\s(?:data-[\w-]+|aria-[\w-]+|role)=(?:"[^"]*"|'[^']*')/gi;
+
+/** Named entities XML does not predefine */
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: '&#160;',
+  ndash: '&#8211;',
+  mdash: '&#8212;',
+  hellip: '&#8230;',
+  middot: '&#183;',
+  copy: '&#169;',
+};
+
+/**
+ * Wrap an HTML fragment as FHIR narrative XHTML.
+ *
+ * @param html - Fragment produced by the factory renderer
+ * @returns `<div xmlns="http://www.w3.org/1999/xhtml">...</div>`
+ */
+export function toNarrativeDiv(html: string): string {
+  const xhtml = html
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(SECTIONING, '<$1div')
+    .replace(NON_HTML4_ATTRIBUTE, '')
+    .replace(VOID, '<$1$2/>')
+    .replace(/&(?!#?\w+;)/g, '&amp;') // AI text reaches the HTML unescaped
+    .replace(/&([a-z]+);/gi, (entity, name: string) => NAMED_ENTITIES[name.toLowerCase()] ?? entity);
+
+  return `<div xmlns="${XHTML_NS}">${xhtml}</div>`;
+}
@@ -0,0 +1,130 @@
+/**
+ * Service Entry Point
+ *
+ * Responsibility: Start the HTTP service on PORT (default 3000).
+ *
+ * Optional template registry storage:
+ * - TEMPLATE_REGISTRY_SQLITE: SQLite database file
+ * - TEMPLATE_REGISTRY_DIR: directory of JSON records
+ *
+ * Optional job settings:
+ * - JOB_CONCURRENCY: maximum concurrent generation jobs
+ * - JOB_CALLBACK_SECRET: HMAC secret; enables callback URLs (https only)
+ * - JOB_CALLBACK_ALLOWED_HOSTS: comma-separated callback hosts (`*.example.org` for subdomains);
+ *   required with JOB_CALLBACK_SECRET
+ * - JOB_CALLBACK_ALLOW_HTTP: "true" to accept http callback URLs (local development only)
+ * - JOB_CALLBACK_INCLUDE_RESULT: "true" to send the note itself (PHI) instead of id and status only
+ * - JOB_STORE_DIR: directory for persisted job state (default: in-memory)
+ *
+ * Optional on-prem generation (OpenAI-compatible Chat Completions server such
+ * as vLLM, llama.cpp server, or Ollama; replaces OpenAI for every request):
+ * - GENERATION_BASE_URL: endpoint base URL (e.g. http://localhost:11434/v1)
+ * - GENERATION_MODEL: model served by the endpoint (required with GENERATION_BASE_URL)
+ * - GENERATION_API_KEY: API key, when the server requires one
+ * - GENERATION_STRICT_SCHEMA: "false" when the server lacks json_schema support
+ * - GENERATION_MAX_CONTEXT: context window in tokens
+ */
+
+import { createChatCompletionsProvider } from './integration';
+import { createFileSystemJobStore, createInProcessJobQueue, DEFAULT_JOB_CONCURRENCY } from './jobs';
+import type { NoteJobQueue } from './jobs';
+import {
+  createFileSystemTemplateStorage,
+  createSQLiteTemplateStorage,
+  createTemplateRegistry,
+} from './registry';
+import type { TemplateRegistry } from './registry';
+import type { PipelineOptions } from './pipeline';
+import { DEFAULT_SERVER_PORT, startServer } from './server';
+
+function createRegistryFromEnv(): TemplateRegistry | undefined {
+  if (process.env.TEMPLATE_REGISTRY_SQLITE) {
+    return createTemplateRegistry({
+      storage: createSQLiteTemplateStorage({ database: process.env.TEMPLATE_REGISTRY_SQLITE }),
+    });
+  }
+
+  if (process.env.TEMPLATE_REGISTRY_DIR) {
+    return createTemplateRegistry({
+      storage: createFileSystemTemplateStorage({ directory: process.env.TEMPLATE_REGISTRY_DIR }),
+    });
+  }
+
+  return undefined;
+}
+
+function readJobConcurrency(): number | undefined {
+  const value = process.env.JOB_CONCURRENCY;
+  if (!value) {
+    return undefined;
+  }
+
+  const concurrency = Number(value);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    console.warn(`Ignoring JOB_CONCURRENCY="${value}" (expected an integer >= 1); using ${DEFAULT_JOB_CONCURRENCY}`);
+    return undefined;
+  }
+  return concurrency;
+}
+
+function createJobQueueFromEnv(): NoteJobQueue {
+  const concurrency = readJobConcurrency();
+  const secret = process.env.JOB_CALLBACK_SECRET;
+  const directory = process.env.JOB_STORE_DIR;
+  const allowedHosts = (process.env.JOB_CALLBACK_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .map((host) => host.trim())
+    .filter(Boolean);
+
+  if (secret && allowedHosts.length === 0) {
+    throw new Error('JOB_CALLBACK_ALLOWED_HOSTS must list the callback hosts when JOB_CALLBACK_SECRET is set');
+  }
+
+  return createInProcessJobQueue({
+    concurrency,
+    store: directory ? createFileSystemJobStore({ directory }) : undefined,
+    callbacks: secret
+      ? {
+          secret,
+          allowedHosts,
+          allowInsecureHttp: process.env.JOB_CALLBACK_ALLOW_HTTP === 'true',
+          includeResult: process.env.JOB_CALLBACK_INCLUDE_RESULT === 'true',
+        }
+      : undefined,
+  });
+}
+
+function createPipelineDefaultsFromEnv(): PipelineOptions | undefined {
+  const baseURL = process.env.GENERATION_BASE_URL;
+  if (!baseURL) {
+    return undefined;
+  }
+
+  const model = process.env.GENERATION_MODEL;
+  if (!model) {
+    throw new Error('GENERATION_MODEL must name the model served at GENERATION_BASE_URL');
+  }
+
+  return {
+    provider: createChatCompletionsProvider({
+      baseURL,
+      model,
+      apiKey: process.env.GENERATION_API_KEY,
+      strictJsonSchema: process.env.GENERATION_STRICT_SCHEMA !== 'false',
+      maxContextTokens: process.env.GENERATION_MAX_CONTEXT
+        ? Number(process.env.GENERATION_MAX_CONTEXT)
+        : undefined,
+    }),
+  };
+}
+
+const port = Number(process.env.PORT ?? DEFAULT_SERVER_PORT);
+const app = startServer({
+  port,
+  hostname: process.env.HOST,
+  registry: createRegistryFromEnv(),
+  jobQueue: createJobQueueFromEnv(),
+  pipelineDefaults: createPipelineDefaultsFromEnv(),
+});
+
+console.log(`Clinical note service listening on http://${app.server?.hostname}:${app.server?.port}`);
@@ -0,0 +1,217 @@
+import { describe, expect, it } from 'bun:test';
+import { createMemoryTemplateStorage, createTemplateRegistry, TemplateRegistryError } from '../../registry';
+import { validateNoteTemplate } from '../../validation';
+import {
+  createMemoryTemplateSource,
+  flattenTemplate,
+  needsFlattening,
+  parseTemplateRef,
+  TemplateInheritanceError,
+} from '..';
+import type { AuthoredTemplate, TemplateInheritanceErrorCode, TemplateSnippet } from '..';
+
+const patientSnippet: TemplateSnippet = {
+  id: 'patient-block',
+  version: '1.0.0',
+  layout: [
+    {
+      id: 'patient-info',
+      type: 'patientBlock',
+      title: 'PATIENT',
+      content: [{ id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' }],
+    },
+  ],
+};
+
+const headerSnippet: TemplateSnippet = {
+  id: 'clinic-header',
+  version: '1.2.0',
+  layout: [{ id: 'header', type: 'header', children: [{ $include: 'patient-block@1.x' }] }],
+};
+
+const signatureSnippet: TemplateSnippet = {
+  id: 'clinician-signature',
+  version: '1.0.0',
+  layout: [
+    {
+      id: 'signature',
+      type: 'signatureBlock',
+      content: [{ id: 'signed-by', slot: 'lookup', targetPath: 'clinician.name', lookup: 'clinician.name' }],
+    },
+  ],
+};
+
+const baseTemplate: AuthoredTemplate = {
+  id: 'base-template',
+  name: 'Base Note',
+  version: '1.1.0',
+  style: { font: 'Inter', color: '#111111', accent: '#3366FF', spacing: 8 },
+  prompt: { system: 'You are a clinical assistant.', main: 'Write the note.' },
+  layout: [
+    { $include: 'clinic-header@1.x' },
+    {
+      id: 'assessment',
+      type: 'section',
+      title: 'Assessment',
+      props: { variant: 'default' },
+      content: [{ id: 'assessment-summary', slot: 'ai', outputPath: 'assessment.summary', aiDeps: ['patient.name'] }],
+    },
+    { $include: 'clinician-signature@1.0.0' },
+  ],
+};
+
+const childTemplate: AuthoredTemplate = {
+  id: 'psychotherapy-note',
+  name: 'Psychotherapy Note',
+  version: '2.0.0',
+  extends: 'base-template@1.x',
+  prompt: { system: 'You are a psychotherapist.', main: 'Write the progress note.' },
+  layout: [
+    { id: 'assessment', title: 'Session Assessment', props: { keepTogether: true } },
+    {
+      id: 'plan',
+      type: 'section',
+      title: 'Plan',
+      $before: 'signature',
+      content: [{ id: 'plan-summary', slot: 'ai', outputPath: 'plan.summary', aiDeps: ['patient.name'] }],
+    },
+  ],
+};
+
+function createSource(templates: AuthoredTemplate[] = [baseTemplate]) {
+  return createMemoryTemplateSource({
+    templates: [{ ...baseTemplate, version: '1.0.0' }, ...templates],
+    snippets: [patientSnippet, headerSnippet, signatureSnippet],
+  });
+}
+
+async function expectInheritanceError(
+  promise: Promise<unknown>,
+  code: TemplateInheritanceErrorCode
+): Promise<TemplateInheritanceError> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(TemplateInheritanceError);
+    expect((error as TemplateInheritanceError).context.code).toBe(code);
+    return error as TemplateInheritanceError;
+  }
+  throw new Error(`Expected TemplateInheritanceError with code ${code}`);
+}
+
+describe('flattenTemplate', () => {
+  it('expands the base chain and includes into a valid flat template with a source map', async () => {
+    const { template, sourceMap } = await flattenTemplate(childTemplate, createSource());
+
+    expect(validateNoteTemplate(template).ok).toBe(true);
+    expect('extends' in template).toBe(false);
+    expect(template.name).toBe('Psychotherapy Note');
+    expect(template.style?.font).toBe('Inter');
+    expect(template.prompt?.system).toBe('You are a psychotherapist.');
+    expect(template.layout.map(component => component.id)).toEqual(['header', 'assessment', 'plan', 'signature']);
+    expect(template.layout[0].children?.[0].id).toBe('patient-info');
+
+    const assessment = template.layout[1];
+    expect(assessment.type).toBe('section');
+    expect(assessment.title).toBe('Session Assessment');
+    expect(assessment.props).toEqual({ variant: 'default', keepTogether: true });
+    expect(assessment.content?.[0].id).toBe('assessment-summary');
+
+    expect(sourceMap).toEqual({
+      header: { kind: 'snippet', id: 'clinic-header', version: '1.2.0' },
+      'patient-info': { kind: 'snippet', id: 'patient-block', version: '1.0.0' },
+      assessment: {
+        kind: 'template',
+        id: 'base-template',
+        version: '1.1.0',
+        overriddenBy: ['psychotherapy-note@2.0.0'],
+      },
+      plan: { kind: 'template', id: 'psychotherapy-note', version: '2.0.0' },
+      signature: { kind: 'snippet', id: 'clinician-signature', version: '1.0.0' },
+    });
+  });
+
+  it('removes base components and leaves flat templates untouched', async () => {
+    const child: AuthoredTemplate = {
+      ...childTemplate,
+      layout: [{ id: 'patient-info', $remove: true }],
+    };
+    const { template, sourceMap } = await flattenTemplate(child, createSource());
+
+    expect(template.layout[0].children).toEqual([]);
+    expect(sourceMap['patient-info']).toBeUndefined();
+
+    const flat = { ...(template as AuthoredTemplate), id: 'flat', version: '1.0.0' };
+    expect(needsFlattening(flat)).toBe(false);
+    expect((await flattenTemplate(flat, createSource())).template).toEqual({ ...template, id: 'flat', version: '1.0.0' });
+  });
+
+  it('leaves malformed layouts for schema validation to report', () => {
+    const withNull = { ...childTemplate, layout: [null] } as unknown as AuthoredTemplate;
+    const withBadChildren = {
+      ...childTemplate,
+      layout: [{ id: 'patient-info', children: 'x' }],
+    } as unknown as AuthoredTemplate;
+
+    expect(needsFlattening(withNull)).toBe(false);
+    expect(needsFlattening(withBadChildren)).toBe(false);
+  });
+
+  it('detects cycles through extends and includes', async () => {
+    const loopA: AuthoredTemplate = { ...baseTemplate, id: 'loop-a', version: '1.0.0', extends: 'loop-b', layout: [] };
+    const loopB: AuthoredTemplate = { ...baseTemplate, id: 'loop-b', version: '1.0.0', extends: 'loop-a@1.0.0', layout: [] };
+    const error = await expectInheritanceError(flattenTemplate(loopA, createSource([loopA, loopB])), 'cycle');
+    expect(error.context.chain).toEqual(['template:loop-a@1.0.0', 'template:loop-b@1.0.0', 'template:loop-a@1.0.0']);
+
+    const selfInclude = createMemoryTemplateSource({
+      snippets: [{ id: 'recursive', version: '1.0.0', layout: [{ $include: 'recursive@1.0.0' }] }],
+    });
+    await expectInheritanceError(
+      flattenTemplate({ ...baseTemplate, layout: [{ $include: 'recursive' }] }, selfInclude),
+      'cycle'
+    );
+  });
+
+  it('rejects unresolved references and invalid overrides', async () => {
+    expect(parseTemplateRef('base-template@1.x')).toEqual({ id: 'base-template', selector: '1.x' });
+    expect(parseTemplateRef('base-template')).toEqual({ id: 'base-template', selector: 'latest' });
+    expect(parseTemplateRef('base-template@^1')).toBeUndefined();
+
+    await expectInheritanceError(flattenTemplate({ ...childTemplate, extends: 'base-template@3.x' }, createSource()), 'not-found');
+    await expectInheritanceError(flattenTemplate({ ...childTemplate, extends: '@1.x' }, createSource()), 'invalid-reference');
+    await expectInheritanceError(
+      flattenTemplate({ ...childTemplate, layout: [{ id: 'missing', title: 'Nothing to override' }] }, createSource()),
+      'unknown-override'
+    );
+    await expectInheritanceError(
+      flattenTemplate({ ...childTemplate, layout: [{ id: 'extra', type: 'section', $after: 'nowhere' }] }, createSource()),
+      'invalid-override'
+    );
+    await expectInheritanceError(
+      flattenTemplate({ ...baseTemplate, layout: [...baseTemplate.layout, { $include: 'clinician-signature' }] }, createSource()),
+      'duplicate-id'
+    );
+  });
+
+  it('publishes authored templates to the registry as flat versions with a source map', async () => {
+    const registry = createTemplateRegistry({ storage: createMemoryTemplateStorage() });
+
+    try {
+      await registry.publish(baseTemplate);
+      throw new Error('Expected publish to fail without snippets');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TemplateRegistryError);
+      expect((error as TemplateRegistryError).context.code).toBe('inheritance-failed');
+    }
+
+    const base = await registry.publish(baseTemplate, { snippets: [patientSnippet, headerSnippet, signatureSnippet] });
+    expect(base.sourceMap?.signature.kind).toBe('snippet');
+    expect(JSON.stringify(base.template)).not.toContain('$include');
+
+    // The default source resolves bases from the registry's own published versions
+    const child = await registry.publish(childTemplate);
+    expect(child.template.layout.map(component => component.id)).toEqual(['header', 'assessment', 'plan', 'signature']);
+    expect(child.sourceMap?.assessment.overriddenBy).toEqual(['psychotherapy-note@2.0.0']);
+    expect(child.schemas.ais.properties?.plan).toBeDefined();
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Template Flattener
+ *
+ * Domain: inheritance/core
+ * Responsibility: Resolve `extends` chains and `$include` snippets into a flat
+ * NoteTemplate ready for validateNoteTemplate, with a per-component source map.
+ *
+ * SOR: Overrides match base components by id anywhere in the base layout;
+ * fields replace, props merge, and children/content replace wholesale.
+ * SOD: Looks references up through the injected TemplateSource; the flat
+ * result is not validated here.
+ */
+
+import type { Component, NoteTemplate } from '../../derivation/types';
+import { createRangeMatcher, isExactSemver } from '../../registry/utils/semver';
+import { TemplateInheritanceError } from '../errors';
+import type {
+  AuthoredComponent,
+  AuthoredLayoutNode,
+  AuthoredTemplate,
+  ComponentOrigin,
+  FlattenedTemplate,
+  LayoutInclude,
+  TemplateRef,
+  TemplateSource,
+  TemplateSourceMap,
+} from '../types';
+
+interface ExpandContext {
+  source: TemplateSource;
+  templateId: string;
+  chain: string[];
+  sourceMap: TemplateSourceMap;
+}
+
+interface ComponentLocation {
+  siblings: Component[];
+  index: number;
+}
+
+/**
+ * Resolve a template's base chain and includes into a flat NoteTemplate.
+ *
+ * @param template - Authored template (flat templates pass through unchanged)
+ * @param source - Lookup for base templates and snippets
+ * @returns Flat template plus the origin of each component
+ * @throws {TemplateInheritanceError} On unresolved references, cycles, or invalid overrides
+ */
+export async function flattenTemplate(
+  template: AuthoredTemplate,
+  source: TemplateSource
+): Promise<FlattenedTemplate> {
+  const flat = await resolveTemplate(template, source, []);
+  return { template: JSON.parse(JSON.stringify(flat.template)) as NoteTemplate, sourceMap: flat.sourceMap };
+}
+
+/**
+ * True when a template uses `extends`, `$include`, or override markers.
+ * Malformed layouts report false so schema validation can reject them.
+ */
+export function needsFlattening(template: AuthoredTemplate): boolean {
+  if (!isLayout(template.layout)) {
+    return false;
+  }
+  return Boolean(template.extends) || hasDirectives(template.layout);
+}
+
+/**
+ * Split an `id@selector` reference; the selector defaults to 'latest'.
+ * Returns undefined when the id is empty or the selector is not
+ * 'latest', an exact version, or a prefix range.
+ */
+export function parseTemplateRef(reference: string): TemplateRef | undefined {
+  const trimmed = reference.trim();
+  const at = trimmed.lastIndexOf('@');
+  const id = at === -1 ? trimmed : trimmed.slice(0, at);
+  const selector = at === -1 ? 'latest' : trimmed.slice(at + 1);
+
+  if (!id || !(selector === 'latest' || isExactSemver(selector) || createRangeMatcher(selector))) {
+    return undefined;
+  }
+
+  return { id, selector };
+}
+
+async function resolveTemplate(
+  template: AuthoredTemplate,
+  source: TemplateSource,
+  chain: string[]
+): Promise<FlattenedTemplate> {
+  const templateChain = enterChain(chain, `template:${template.id}@${template.version}`, template.id);
+  const origin: ComponentOrigin = { kind: 'template', id: template.id, version: template.version };
+  const own: ExpandContext = { source, templateId: template.id, chain: templateChain, sourceMap: {} };
+  const layout = await expandLayout(template.layout, origin, own);
+
+  const reference = template.extends;
+  const fields: Partial<AuthoredTemplate> = { ...template };
+  delete fields.extends;
+  delete fields.layout;
+
+  if (!reference) {
+    return {
+      template: { ...fields, layout: layout.map(node => toComponent(node, template.id)) } as NoteTemplate,
+      sourceMap: own.sourceMap,
+    };
+  }
+
+  const ref = requireRef(reference, template.id);
+  const baseTemplate = await source.getTemplate(ref.id, ref.selector);
+  if (!baseTemplate) {
+    throw new TemplateInheritanceError(`Base template "${reference}" of ${template.id} was not found`, {
+      code: 'not-found',
+      templateId: template.id,
+      reference,
+    });
+  }
+
+  const base = await resolveTemplate(baseTemplate, source, templateChain);
+  const overridden = applyOverrides(base, layout, own.sourceMap, `${template.id}@${template.version}`, template.id);
+
+  const merged: NoteTemplate = { ...base.template, ...fields, name: fields.name ?? base.template.name, layout: overridden.layout };
+  if (base.template.style && fields.style) {
+    merged.style = { ...base.template.style, ...fields.style };
+  }
+  if (base.template.prompt && fields.prompt) {
+    merged.prompt = { ...base.template.prompt, ...fields.prompt };
+  }
+
+  return { template: merged, sourceMap: overridden.sourceMap };
+}
+
+/**
+ * Splice includes into a layout (recursively through children), recording
+ * each component's origin.
+ */
+async function expandLayout(
+  nodes: AuthoredLayoutNode[],
+  origin: ComponentOrigin,
+  context: ExpandContext
+): Promise<AuthoredComponent[]> {
+  const expanded: AuthoredComponent[] = [];
+
+  for (const node of nodes) {
+    if (isInclude(node)) {
+      expanded.push(...(await expandInclude(node, context)));
+      continue;
+    }
+
+    if (context.sourceMap[node.id]) {
+      throw new TemplateInheritanceError(`Component id "${node.id}" appears more than once in ${context.templateId}`, {
+        code: 'duplicate-id',
+        templateId: context.templateId,
+        componentId: node.id,
+      });
+    }
+    context.sourceMap[node.id] = { ...origin };
+
+    expanded.push(node.children ? { ...node, children: await expandLayout(node.children, origin, context) } : { ...node });
+  }
+
+  return expanded;
+}
+
+async function expandInclude(node: LayoutInclude, context: ExpandContext): Promise<AuthoredComponent[]> {
+  const ref = requireRef(node.$include, context.templateId);
+  const snippet = await context.source.getSnippet(ref.id, ref.selector);
+  if (!snippet) {
+    throw new TemplateInheritanceError(`Snippet "${node.$include}" included by ${context.templateId} was not found`, {
+      code: 'not-found',
+      templateId: context.templateId,
+      reference: node.$include,
+    });
+  }
+
+  const chain = enterChain(context.chain, `snippet:${snippet.id}@${snippet.version}`, context.templateId);
+  return expandLayout(snippet.layout, { kind: 'snippet', id: snippet.id, version: snippet.version }, { ...context, chain });
+}
+
+/**
+ * Apply a child template's top-level layout to its flattened base.
+ */
+function applyOverrides(
+  base: FlattenedTemplate,
+  overrides: AuthoredComponent[],
+  ownSourceMap: TemplateSourceMap,
+  ownRef: string,
+  templateId: string
+): { layout: Component[]; sourceMap: TemplateSourceMap } {
+  const layout = JSON.parse(JSON.stringify(base.template.layout)) as Component[];
+  const sourceMap: TemplateSourceMap = { ...base.sourceMap };
+
+  for (const override of overrides) {
+    const { $remove, $before, $after } = override;
+    if ($before && $after) {
+      throw invalidOverride(templateId, override.id, 'sets both $before and $after');
+    }
+
+    const location = findComponent(layout, override.id);
+    if (!location) {
+      if ($remove || !override.type) {
+        throw new TemplateInheritanceError(
+          `Component "${override.id}" in ${templateId} overrides nothing in its base and is not a new component`,
+          { code: 'unknown-override', templateId, componentId: override.id }
+        );
+      }
+      place(layout, toComponent(withoutMarkers(override), templateId), override, templateId);
+      continue;
+    }
+
+    const existing = location.siblings[location.index];
+    location.siblings.splice(location.index, 1);
+    if ($remove) {
+      continue;
+    }
+
+    const merged = mergeComponent(existing, override, templateId);
+    if ($before || $after) {
+      place(layout, merged, override, templateId);
+    } else {
+      location.siblings.splice(location.index, 0, merged);
+    }
+
+    const previous = sourceMap[override.id];
+    sourceMap[override.id] = { ...previous, overriddenBy: [...(previous.overriddenBy ?? []), ownRef] };
+  }
+
+  // Nodes written by the child keep its origin; removed or replaced ones drop out.
+  const result: TemplateSourceMap = {};
+  walk(layout, component => {
+    if (result[component.id]) {
+      throw new TemplateInheritanceError(`Component id "${component.id}" appears more than once in ${templateId}`, {
+        code: 'duplicate-id',
+        templateId,
+        componentId: component.id,
+      });
+    }
+    result[component.id] = sourceMap[component.id] ?? ownSourceMap[component.id];
+  });
+
+  return { layout, sourceMap: result };
+}
+
+function mergeComponent(base: Component, override: AuthoredComponent, templateId: string): Component {
+  const { children, props, ...fields } = withoutMarkers(override);
+  const merged: Component = { ...base, ...fields, type: fields.type ?? base.type };
+
+  if (props) {
+    merged.props = { ...base.props, ...props };
+  }
+  if (children) {
+    merged.children = children.map(child => toComponent(child as AuthoredComponent, templateId));
+  }
+
+  return merged;
+}
+
+/**
+ * Insert a component next to its `$before`/`$after` anchor, or at the end of the top level.
+ */
+function place(layout: Component[], component: Component, override: AuthoredComponent, templateId: string): void {
+  const anchorId = override.$before ?? override.$after;
+  if (!anchorId) {
+    layout.push(component);
+    return;
+  }
+
+  const anchor = findComponent(layout, anchorId);
+  if (!anchor) {
+    throw invalidOverride(templateId, override.id, `anchors to unknown component "${anchorId}"`);
+  }
+  anchor.siblings.splice(override.$before ? anchor.index : anchor.index + 1, 0, component);
+}
+
+/**
+ * Strip an authored node to a plain Component; markers are only meaningful
+ * at the top level of a template with `extends`.
+ */
+function toComponent(node: AuthoredComponent, templateId: string): Component {
+  const { $remove, $before, $after, children, type, ...fields } = node;
+  if ($remove !== undefined || $before !== undefined || $after !== undefined) {
+    throw invalidOverride(templateId, node.id, 'uses override markers outside the top level of an extending template');
+  }
+  if (!type) {
+    throw invalidOverride(templateId, node.id, 'has no type');
+  }
+
+  const component: Component = { ...fields, type };
+  if (children) {
+    // Includes are expanded before components are built
+    component.children = children.map(child => toComponent(child as AuthoredComponent, templateId));
+  }
+  return component;
+}
+
+function withoutMarkers(node: AuthoredComponent): AuthoredComponent {
+  const copy = { ...node };
+  delete copy.$remove;
+  delete copy.$before;
+  delete copy.$after;
+  return copy;
+}
+
+function findComponent(layout: Component[], id: string): ComponentLocation | undefined {
+  for (let index = 0; index < layout.length; index++) {
+    const component = layout[index];
+    if (component.id === id) {
+      return { siblings: layout, index };
+    }
+    const nested = component.children ? findComponent(component.children, id) : undefined;
+    if (nested) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+function walk(layout: Component[], visit: (component: Component) => void): void {
+  for (const component of layout) {
+    visit(component);
+    if (component.children) {
+      walk(component.children, visit);
+    }
+  }
+}
+
+function enterChain(chain: string[], key: string, templateId: string): string[] {
+  if (chain.includes(key)) {
+    const cycle = [...chain.slice(chain.indexOf(key)), key];
+    throw new TemplateInheritanceError(`Inheritance cycle: ${cycle.join(' -> ')}`, {
+      code: 'cycle',
+      templateId,
+      chain: cycle,
+    });
+  }
+  return [...chain, key];
+}
+
+function requireRef(reference: string, templateId: string): TemplateRef {
+  const ref = parseTemplateRef(reference);
+  if (!ref) {
+    throw new TemplateInheritanceError(`Invalid reference "${reference}" in ${templateId}`, {
+      code: 'invalid-reference',
+      templateId,
+      reference,
+    });
+  }
+  return ref;
+}
+
+function invalidOverride(templateId: string, componentId: string, reason: string): TemplateInheritanceError {
+  return new TemplateInheritanceError(`Component "${componentId}" in ${templateId} ${reason}`, {
+    code: 'invalid-override',
+    templateId,
+    componentId,
+  });
+}
+
+function isLayout(nodes: unknown): nodes is AuthoredLayoutNode[] {
+  return (
+    Array.isArray(nodes) &&
+    nodes.every(
+      node =>
+        typeof node === 'object' &&
+        node !== null &&
+        !Array.isArray(node) &&
+        ((node as AuthoredComponent).children === undefined || isLayout((node as AuthoredComponent).children))
+    )
+  );
+}
+
+function isInclude(node: AuthoredLayoutNode): node is LayoutInclude {
+  return typeof (node as LayoutInclude).$include === 'string';
+}
+
+function hasDirectives(nodes: AuthoredLayoutNode[]): boolean {
+  return nodes.some(
+    node =>
+      isInclude(node) ||
+      node.$remove !== undefined ||
+      node.$before !== undefined ||
+      node.$after !== undefined ||
+      !node.type ||
+      (node.children !== undefined && hasDirectives(node.children))
+  );
+}
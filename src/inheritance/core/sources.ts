@@ -0,0 +1,89 @@
+/**
+ * Template Sources
+ *
+ * Domain: inheritance/core
+ * Responsibility: TemplateSource implementations for in-memory collections
+ * and for templates already published to a registry.
+ */
+
+import { TemplateRegistryError } from '../../registry/errors';
+import type { TemplateRegistry } from '../../registry/types';
+import { compareSemver, createRangeMatcher, isExactSemver } from '../../registry/utils/semver';
+import type { MemoryTemplateSourceEntries, TemplateSnippet, TemplateSource } from '../types';
+
+/**
+ * Serve base templates and snippets from in-memory lists.
+ */
+export function createMemoryTemplateSource(entries: MemoryTemplateSourceEntries): TemplateSource {
+  const templates = entries.templates ?? [];
+  const snippets = entries.snippets ?? [];
+
+  return {
+    async getTemplate(id, selector) {
+      return selectVersion(templates.filter(template => template.id === id), selector);
+    },
+
+    async getSnippet(id, selector) {
+      return selectVersion(snippets.filter(snippet => snippet.id === id), selector);
+    },
+  };
+}
+
+/**
+ * Resolve base templates through a registry (published, flattened versions)
+ * and snippets through an optional fallback source.
+ */
+export function createRegistryTemplateSource(registry: TemplateRegistry, snippets?: TemplateSource): TemplateSource {
+  return {
+    async getTemplate(id, selector) {
+      try {
+        return (await registry.resolve(id, selector)).template;
+      } catch (error) {
+        if (error instanceof TemplateRegistryError && error.context.code === 'not-found') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+
+    async getSnippet(id, selector) {
+      return snippets?.getSnippet(id, selector);
+    },
+  };
+}
+
+/**
+ * Serve the given snippets ahead of a source's own; templates still come from the source.
+ */
+export function withSnippets(source: TemplateSource, snippets: TemplateSnippet[]): TemplateSource {
+  const overlay = createMemoryTemplateSource({ snippets });
+
+  return {
+    async getTemplate(id, selector) {
+      return source.getTemplate(id, selector);
+    },
+
+    async getSnippet(id, selector) {
+      return (await overlay.getSnippet(id, selector)) ?? source.getSnippet(id, selector);
+    },
+  };
+}
+
+/**
+ * Pick the entry a selector resolves to: an exact version, the newest match
+ * of a prefix range, or the newest entry for 'latest'.
+ */
+function selectVersion<T extends { version: string }>(entries: T[], selector: string): T | undefined {
+  if (isExactSemver(selector)) {
+    return entries.find(entry => entry.version === selector);
+  }
+
+  const matches = selector === 'latest' ? () => true : createRangeMatcher(selector);
+  if (!matches) {
+    return undefined;
+  }
+
+  return entries
+    .filter(entry => matches(entry.version))
+    .sort((a, b) => compareSemver(b.version, a.version))[0];
+}
@@ -0,0 +1,15 @@
+import type { TemplateInheritanceErrorContext } from './types';
+
+/**
+ * Error thrown when a template's `extends` or `$include` references cannot be resolved.
+ */
+export class TemplateInheritanceError extends Error {
+  readonly context: TemplateInheritanceErrorContext;
+
+  /** Create an inheritance error with machine-readable context. */
+  constructor(message: string, context: TemplateInheritanceErrorContext) {
+    super(message);
+    this.name = 'TemplateInheritanceError';
+    this.context = context;
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Inheritance Domain - Barrel Export
+ *
+ * Domain: inheritance
+ * Responsibility: Flatten templates that extend a base template and include shared snippets
+ *
+ * Usage:
+ * ```typescript
+ * import { createMemoryTemplateSource, flattenTemplate } from './inheritance';
+ *
+ * const source = createMemoryTemplateSource({ templates: [baseTemplate], snippets: [signatureSnippet] });
+ * const { template, sourceMap } = await flattenTemplate(authoredTemplate, source);
+ *
+ * validateNoteTemplate(template);
+ * sourceMap['signature']; // { kind: 'snippet', id: 'clinician-signature', version: '1.0.0' }
+ * ```
+ */
+
+// Core
+export { flattenTemplate, needsFlattening, parseTemplateRef } from './core/flatten';
+export { createMemoryTemplateSource, createRegistryTemplateSource, withSnippets } from './core/sources';
+
+// Errors
+export { TemplateInheritanceError } from './errors';
+
+// Types
+export type {
+  AuthoredComponent,
+  AuthoredLayoutNode,
+  AuthoredTemplate,
+  ComponentOrigin,
+  FlattenedTemplate,
+  LayoutInclude,
+  MemoryTemplateSourceEntries,
+  TemplateInheritanceErrorCode,
+  TemplateInheritanceErrorContext,
+  TemplateRef,
+  TemplateSnippet,
+  TemplateSource,
+  TemplateSourceMap,
+} from './types';
@@ -0,0 +1,131 @@
+/**
+ * Inheritance Domain Types
+ *
+ * Authored templates that extend a base template and include shared layout
+ * snippets, plus the flat result and its component source map.
+ */
+
+import type { Component, NoteTemplate } from '../derivation/types';
+
+/**
+ * Layout node that splices a snippet's components in place: `{ "$include": "snippet-id@1.x" }`
+ */
+export interface LayoutInclude {
+  $include: string;
+}
+
+/**
+ * Component as written in an authored template.
+ *
+ * In a template with `extends`, a component whose id exists in the base
+ * overrides it (fields replace, props merge) and may omit `type`.
+ */
+export interface AuthoredComponent extends Omit<Component, 'type' | 'children'> {
+  type?: string;
+  children?: AuthoredLayoutNode[];
+  $remove?: boolean;       // Drop the base component with this id
+  $before?: string;        // Place this component before the sibling with this id
+  $after?: string;         // Place this component after the sibling with this id
+}
+
+/**
+ * Entry of an authored layout array
+ */
+export type AuthoredLayoutNode = AuthoredComponent | LayoutInclude;
+
+/**
+ * Template before inheritance and includes are resolved.
+ * Any flat NoteTemplate is also a valid AuthoredTemplate.
+ */
+export interface AuthoredTemplate extends Omit<NoteTemplate, 'name' | 'layout'> {
+  name?: string;           // Inherited from the base when omitted
+  extends?: string;        // Base reference, e.g. "base-template@1.x"
+  layout: AuthoredLayoutNode[];
+}
+
+/**
+ * Reusable, versioned run of layout nodes (header, patientBlock, signatureBlock, ...)
+ */
+export interface TemplateSnippet {
+  id: string;
+  version: string;
+  description?: string;
+  layout: AuthoredLayoutNode[];
+}
+
+/**
+ * Parsed `id@selector` reference ("latest" when the selector is omitted)
+ */
+export interface TemplateRef {
+  id: string;
+  selector: string;
+}
+
+/**
+ * Where flattenTemplate looks up base templates and snippets.
+ * Selectors follow the registry: 'latest', exact semver, or a prefix range.
+ */
+export interface TemplateSource {
+  getTemplate(id: string, selector: string): Promise<AuthoredTemplate | undefined>;
+  getSnippet(id: string, selector: string): Promise<TemplateSnippet | undefined>;
+}
+
+/**
+ * Collections served by createMemoryTemplateSource
+ */
+export interface MemoryTemplateSourceEntries {
+  templates?: AuthoredTemplate[];
+  snippets?: TemplateSnippet[];
+}
+
+/**
+ * Template or snippet that defined a component
+ */
+export interface ComponentOrigin {
+  kind: 'template' | 'snippet';
+  id: string;
+  version: string;
+
+  /** Descendant templates ("id@version", outermost base first) that overrode this component */
+  overriddenBy?: string[];
+}
+
+/**
+ * Origin of every component in a flattened layout, keyed by component id
+ */
+export type TemplateSourceMap = Record<string, ComponentOrigin>;
+
+/**
+ * Result of flattenTemplate
+ */
+export interface FlattenedTemplate {
+  template: NoteTemplate;
+  sourceMap: TemplateSourceMap;
+}
+
+/**
+ * Machine-readable inheritance failure codes
+ */
+export type TemplateInheritanceErrorCode =
+  | 'invalid-reference'
+  | 'not-found'
+  | 'cycle'
+  | 'unknown-override'
+  | 'invalid-override'
+  | 'duplicate-id';
+
+/**
+ * Structured context attached to TemplateInheritanceError
+ */
+export interface TemplateInheritanceErrorContext {
+  code: TemplateInheritanceErrorCode;
+  templateId: string;
+
+  /** Offending `extends` or `$include` reference */
+  reference?: string;
+
+  /** Resolution chain ("template:id@version" / "snippet:id@version") when code === 'cycle' */
+  chain?: string[];
+
+  componentId?: string;
+}
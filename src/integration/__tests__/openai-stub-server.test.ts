@@ -0,0 +1,158 @@
+/**
+ * OpenAI Stub Server Tests
+ *
+ * Domain: integration/__tests__/openai-stub-server.test
+ * Responsibility: Exercise generateWithSchema over real HTTP against the local stub.
+ * SOR: Schema and scripted failure steps defined within this test file.
+ * SOD: Covers withRetry, empty-output recovery, refusals, and malformed JSON end to end.
+ * DI: The real OpenAI SDK client is pointed at the stub's baseURL.
+ */
+
+import { afterEach, describe, expect, it } from 'bun:test';
+import OpenAI from 'openai';
+import { generateWithSchema } from '../core/schema-generator';
+import { createOpenAIStubServer } from '../stub/openai-stub-server';
+import type { IntegrationDiagnosticEvent, OpenAIStubServer, OpenAIStubStep } from '../types';
+import type { PromptBundle } from '../../composition/types';
+import type { DerivedSchema } from '../../derivation/types';
+import { createAIOutputValidator } from '../../validation';
+
+const schema = {
+  type: 'object',
+  properties: {
+    assessment: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string', 'x-minWords': 12, 'x-minSentences': 2 },
+        risk: { type: 'string', enum: ['low', 'moderate', 'high'] },
+        goals: {
+          type: 'array',
+          minItems: 2,
+          items: {
+            type: 'object',
+            properties: { text: { type: 'string' }, met: { type: 'boolean' } },
+            required: ['text', 'met'],
+            additionalProperties: false,
+          },
+        },
+        score: { type: 'integer', minimum: 3 },
+      },
+      required: ['summary', 'risk', 'goals', 'score'],
+      additionalProperties: false,
+    },
+  },
+  required: ['assessment'],
+  additionalProperties: false,
+};
+
+const validator = createAIOutputValidator(schema as unknown as DerivedSchema);
+
+function buildPromptBundle(): PromptBundle {
+  return {
+    id: 'bundle-stub',
+    templateId: 'template-stub',
+    templateVersion: '1.0.0',
+    messages: [
+      { role: 'system', content: 'System instructions.' },
+      { role: 'user', content: 'User prompt content.' },
+    ],
+    jsonSchema: schema as unknown as PromptBundle['jsonSchema'],
+    fieldGuide: [],
+    context: { nasSlices: {} },
+  };
+}
+
+let stub: OpenAIStubServer | undefined;
+
+afterEach(async () => {
+  await stub?.stop();
+  stub = undefined;
+});
+
+function startStub(steps: OpenAIStubStep[] = []) {
+  stub = createOpenAIStubServer({ steps });
+  // SDK retries are disabled so withRetry is the only retry layer under test
+  const client = new OpenAI({ baseURL: stub.baseURL, apiKey: 'stub-key', maxRetries: 0 });
+  return { server: stub, client };
+}
+
+describe('OpenAI stub server', () => {
+  it('answers /v1/responses with schema-valid JSON and records the request', async () => {
+    const { server, client } = startStub();
+
+    const result = await generateWithSchema(client, buildPromptBundle(), validator, { model: 'gpt-4o-mini' });
+
+    expect(validator(result.output).ok).toBe(true);
+    expect(result.model).toBe('gpt-4o-mini');
+    expect(result.responseId).toBe('resp_stub_1');
+    expect(result.retries).toBe(0);
+    expect(result.usage.totalTokens).toBeGreaterThan(0);
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0]).toMatchObject({
+      model: 'gpt-4o-mini',
+      text: { format: { type: 'json_schema', name: 'clinical_note', strict: true } },
+    });
+  });
+
+  it('retries 429 and 500 responses, honoring Retry-After', async () => {
+    const { server, client } = startStub([
+      { status: 429, retryAfter: 0 },
+      { status: 500, retryAfter: 0 },
+    ]);
+
+    const result = await generateWithSchema(client, buildPromptBundle(), validator);
+
+    expect(result.retries).toBe(2);
+    expect(result.responseId).toBe('resp_stub_3');
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('gives up once transient retries are exhausted', async () => {
+    const { client } = startStub([
+      { status: 429, retryAfter: 0 },
+      { status: 429, retryAfter: 0 },
+    ]);
+
+    await expect(generateWithSchema(client, buildPromptBundle(), validator, { retries: 1 })).rejects.toThrow(
+      'Request failed after 1 retries'
+    );
+  });
+
+  it('retries once after an empty output and reports the diagnostic', async () => {
+    const { server, client } = startStub([{ text: '' }]);
+    const events: IntegrationDiagnosticEvent[] = [];
+
+    const result = await generateWithSchema(client, buildPromptBundle(), validator, {}, {
+      warn: (event) => events.push(event),
+    });
+
+    expect(result.retries).toBe(1);
+    expect(server.requests).toHaveLength(2);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ code: 'missing-output', attempt: 1, responseId: 'resp_stub_1' });
+  });
+
+  it('fails when the output stays empty', async () => {
+    const { client } = startStub([{ text: '' }, { text: '' }]);
+
+    await expect(
+      generateWithSchema(client, buildPromptBundle(), validator, {}, { warn: () => undefined })
+    ).rejects.toThrow('OpenAI response missing message content after retry');
+  });
+
+  it('surfaces refusals', async () => {
+    const { client } = startStub([{ refusal: 'I cannot help with that.' }]);
+
+    await expect(generateWithSchema(client, buildPromptBundle(), validator)).rejects.toThrow(
+      'OpenAI refused to complete the request: I cannot help with that.'
+    );
+  });
+
+  it('rejects malformed JSON', async () => {
+    const { client } = startStub([{ text: '{"assessment": {"summary": ' }]);
+
+    await expect(generateWithSchema(client, buildPromptBundle(), validator)).rejects.toThrow(
+      'Failed to parse OpenAI response as JSON'
+    );
+  });
+});
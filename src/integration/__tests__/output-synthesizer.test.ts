@@ -0,0 +1,91 @@
+/**
+ * Output Synthesizer Tests
+ *
+ * Domain: integration/__tests__/output-synthesizer.test
+ * Responsibility: Verify synthesized payloads satisfy AIS constraints deterministically.
+ * SOR: Schema derived from a template defined within this test file.
+ * SOD: Covers enum, pattern, text keywords, arrays, seeds, and filler descriptions.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { deriveAIS } from '../../derivation';
+import type { NoteTemplate } from '../../derivation/types';
+import { createAIOutputValidator } from '../../validation';
+import { synthesizeOutput } from '../stub/output-synthesizer';
+
+const template: NoteTemplate = {
+  id: 'tmpl-synth',
+  name: 'Synthesizer Template',
+  version: '1.0.0',
+  prompt: { system: 'System.', main: 'Write the note.' },
+  style: { font: 'Inter', color: '#111111', accent: '#3366FF', spacing: 8 },
+  layout: [
+    {
+      id: 'assessment-section',
+      type: 'section',
+      content: [
+        {
+          id: 'assessment-summary',
+          slot: 'ai',
+          outputPath: 'assessment.summary',
+          aiDeps: ['patient.name'],
+          constraints: { minWords: 40, maxWords: 60, minSentences: 3, maxSentences: 5 },
+        },
+        {
+          id: 'assessment-risk',
+          slot: 'ai',
+          outputPath: 'assessment.risk',
+          aiDeps: ['patient.name'],
+          constraints: { enum: ['low', 'moderate', 'high'] },
+        },
+        {
+          id: 'assessment-code',
+          slot: 'ai',
+          outputPath: 'assessment.code',
+          aiDeps: ['patient.name'],
+          constraints: { pattern: '^[A-Z]\\d{2}(\\.\\d{1,2})?$' },
+        },
+        {
+          id: 'plan-goal-text',
+          slot: 'ai',
+          outputPath: 'plan.goals[].text',
+          aiDeps: ['patient.name'],
+          constraints: { maxWords: 5 },
+        },
+      ],
+    },
+  ],
+};
+
+const ais = deriveAIS(template);
+const validator = createAIOutputValidator(ais);
+
+describe('synthesizeOutput', () => {
+  it('produces AIS-valid output with no soft-keyword warnings across seeds', () => {
+    for (let seed = 1; seed <= 25; seed++) {
+      const output = synthesizeOutput(ais, { seed });
+      const result = validator(output);
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+    }
+  });
+
+  it('is deterministic per seed', () => {
+    expect(synthesizeOutput(ais, { seed: 7 })).toEqual(synthesizeOutput(ais, { seed: 7 }));
+    expect(synthesizeOutput(ais, { seed: 7 })).not.toEqual(synthesizeOutput(ais, { seed: 8 }));
+  });
+
+  it('opens text fields with their description', () => {
+    const output = synthesizeOutput(ais, {
+      descriptions: { 'plan.goals[].text': 'Measurable treatment goal', 'assessment.summary': 'Clinical impression' },
+    }) as { assessment: { summary: string }; plan: { goals: Array<{ text: string }> } };
+
+    expect(output.assessment.summary.startsWith('Clinical impression')).toBe(true);
+    expect(output.plan.goals[0].text.startsWith('Measurable treatment goal')).toBe(true);
+  });
+
+  it('reports patterns it cannot satisfy', () => {
+    const schema = { type: 'object', properties: { code: { type: 'string', pattern: '^(?=A)\\w+$' } } };
+    expect(() => synthesizeOutput(schema)).toThrow('Cannot synthesize a value for pattern ^(?=A)\\w+$ at code');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Generation Provider Tests
+ *
+ * Domain: integration/__tests__/providers.test
+ * Responsibility: Validate provider adapters and capability-aware request shaping.
+ * SOR: Prompt bundle, schema, and scripted replies defined within this test file.
+ * SOD: Ensures generateWithSchema stays backend-neutral.
+ * DI: Chat Completions client is injected via a stub implementation.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import type OpenAI from 'openai';
+import { generateWithSchema } from '../core/schema-generator';
+import { createChatCompletionsProvider } from '../providers/chat-completions';
+import { createScriptedProvider } from '../providers/scripted';
+import type { PromptBundle } from '../../composition/types';
+import type { SchemaValidator } from '../../validation/types';
+
+/**
+ * Builds a minimal prompt bundle fixture for tests.
+ */
+function buildPromptBundle(): PromptBundle {
+  return {
+    id: 'bundle-1',
+    templateId: 'template-1',
+    templateVersion: '1.0.0',
+    messages: [
+      { role: 'system', content: 'System instructions.' },
+      { role: 'user', content: 'User prompt content.' },
+    ],
+    jsonSchema: {
+      type: 'object',
+      properties: { summary: { type: 'string' } },
+      required: ['summary'],
+    } as unknown as PromptBundle['jsonSchema'],
+    fieldGuide: [],
+    context: {
+      nasSlices: {},
+    },
+  };
+}
+
+const acceptAll: SchemaValidator = () => ({ ok: true, errors: [], warnings: [] });
+
+describe('scripted provider', () => {
+  it('replays steps and records requests', async () => {
+    const provider = createScriptedProvider({
+      steps: [{ output: { summary: 'First.' }, usage: { promptTokens: 12, completionTokens: 4 } }],
+      model: 'local-test',
+    });
+
+    const result = await generateWithSchema(provider, buildPromptBundle(), acceptAll, { temperature: 0.2 });
+
+    expect(result.output).toEqual({ summary: 'First.' });
+    expect(result.model).toBe('local-test');
+    expect(result.usage).toEqual({ promptTokens: 12, completionTokens: 4, totalTokens: 16 });
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0]).toMatchObject({ model: 'local-test', temperature: 0.2, schemaName: 'clinical_note' });
+    expect(provider.requests[0].messages).toEqual(buildPromptBundle().messages);
+  });
+
+  it('surfaces refusals with the provider label', async () => {
+    const provider = createScriptedProvider({ steps: [{ refusal: 'Cannot help with that.' }] });
+
+    await expect(generateWithSchema(provider, buildPromptBundle(), acceptAll)).rejects.toThrow(
+      'Scripted provider refused to complete the request: Cannot help with that.'
+    );
+  });
+});
+
+describe('capability-aware requests', () => {
+  it('drops temperature and spells out the schema when the backend cannot enforce it', async () => {
+    const provider = createScriptedProvider({
+      steps: [{ output: { summary: 'Ok.' } }],
+      capabilities: { strictJsonSchema: false, temperature: false },
+    });
+
+    await generateWithSchema(provider, buildPromptBundle(), acceptAll, { temperature: 0.7 });
+
+    const request = provider.requests[0];
+    expect(request.temperature).toBeUndefined();
+    expect(request.messages).toHaveLength(3);
+    expect(request.messages[2].content).toContain('JSON SCHEMA');
+    expect(request.messages[2].content).toContain('"required":["summary"]');
+  });
+
+  it('clamps maxTokens to the context window and rejects prompts that cannot fit', async () => {
+    const roomy = createScriptedProvider({
+      steps: [{ output: { summary: 'Ok.' } }],
+      capabilities: { maxContextTokens: 1000 },
+    });
+    await generateWithSchema(roomy, buildPromptBundle(), acceptAll, { maxTokens: 4000 });
+    expect(roomy.requests[0].maxTokens).toBeLessThan(1000);
+    expect(roomy.requests[0].maxTokens).toBeGreaterThan(900);
+
+    const tiny = createScriptedProvider({
+      steps: [{ output: { summary: 'Ok.' } }],
+      capabilities: { maxContextTokens: 10 },
+    });
+    await expect(generateWithSchema(tiny, buildPromptBundle(), acceptAll)).rejects.toThrow(
+      'exceeding the Scripted provider context window of 10'
+    );
+    expect(tiny.requests).toHaveLength(0);
+  });
+});
+
+describe('chat completions provider', () => {
+  function createChatClient(reply: Record<string, unknown>) {
+    const bodies: Array<Record<string, unknown>> = [];
+    const client = {
+      chat: {
+        completions: {
+          create: async (body: Record<string, unknown>) => {
+            bodies.push(body);
+            return reply;
+          },
+        },
+      },
+    } as unknown as OpenAI;
+    return { client, bodies };
+  }
+
+  const reply = {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'llama-3.1-8b-instruct',
+    choices: [
+      { index: 0, finish_reason: 'stop', message: { role: 'assistant', content: '{"summary":"Local."}' } },
+    ],
+    usage: { prompt_tokens: 30, completion_tokens: 6, total_tokens: 36 },
+  };
+
+  it('sends json_schema response formats and maps usage', async () => {
+    const { client, bodies } = createChatClient(reply);
+    const provider = createChatCompletionsProvider({ client, model: 'llama-3.1-8b-instruct' });
+
+    const result = await generateWithSchema(provider, buildPromptBundle(), acceptAll, { temperature: 0 });
+
+    expect(result).toMatchObject({
+      output: { summary: 'Local.' },
+      model: 'llama-3.1-8b-instruct',
+      responseId: 'chatcmpl-1',
+      usage: { promptTokens: 30, completionTokens: 6, totalTokens: 36 },
+    });
+    expect(bodies[0]).toMatchObject({
+      model: 'llama-3.1-8b-instruct',
+      temperature: 0,
+      messages: [
+        { role: 'system', content: 'System instructions.' },
+        { role: 'user', content: 'User prompt content.' },
+      ],
+      response_format: { type: 'json_schema', json_schema: { name: 'clinical_note', strict: true } },
+    });
+  });
+
+  it('falls back to JSON mode for servers without schema support', async () => {
+    const { client, bodies } = createChatClient(reply);
+    const provider = createChatCompletionsProvider({ client, model: 'qwen2.5', strictJsonSchema: false });
+
+    await generateWithSchema(provider, buildPromptBundle(), acceptAll);
+
+    expect(bodies[0].response_format).toEqual({ type: 'json_object' });
+    expect((bodies[0].messages as unknown[]).length).toBe(3);
+  });
+
+  it('reports truncated completions', async () => {
+    const { client } = createChatClient({
+      ...reply,
+      choices: [{ index: 0, finish_reason: 'length', message: { role: 'assistant', content: '{"summ' } }],
+    });
+    const provider = createChatCompletionsProvider({ client, model: 'm', label: 'vLLM' });
+
+    await expect(generateWithSchema(provider, buildPromptBundle(), acceptAll)).rejects.toThrow(
+      'vLLM response truncated'
+    );
+  });
+
+  it('requires the model served by the endpoint', () => {
+    const { client } = createChatClient(reply);
+
+    expect(() => createChatCompletionsProvider({ client, model: '' })).toThrow(
+      'Chat Completions provider requires the model served by the endpoint'
+    );
+  });
+});
@@ -1,108 +1,102 @@
 /**
  * Schema-Constrained Generation
  *
- * Calls OpenAI with structured output constraints using response_format.
- * Validates AI output against AIS schema before returning.
+ * Calls a generation provider with structured output constraints and
+ * validates AI output against the AIS schema before returning.
  */
 
 import type OpenAI from 'openai';
-import type { Response, ResponseCreateParams } from 'openai/resources/responses/responses';
-import type { PromptBundle } from '../../composition/types';
+import type { Message, PromptBundle } from '../../composition/types';
 import type {
   GenerationOptions,
+  GenerationProvider,
   GenerationResult,
   IntegrationDiagnosticsLogger,
+  ProviderRequest,
+  ProviderResponse,
 } from '../types';
 import type { SchemaValidator } from '../../validation/types';
 import type { AIPayload } from '../../types/payloads';
+import { OutputValidationError } from '../errors';
+import { toGenerationProvider } from '../providers/resolve-provider';
 import { withRetry } from '../utils/retry-handler';
 import { DEFAULT_OPTIONS } from '../types';
 
+const MAX_EMPTY_OUTPUT_ATTEMPTS = 2;
+const RESPONSE_SCHEMA_NAME = 'clinical_note';
+/** Rough characters-per-token ratio used for context window checks */
+const CHARS_PER_TOKEN = 4;
+
 /**
  * Generates AI output using schema-constrained generation
  *
  * Following SOR principle: PromptBundle is the source of truth for prompt data.
- * Following DI principle: OpenAI client and validator are injected dependencies.
+ * Following DI principle: provider (or OpenAI client) and validator are injected dependencies.
  *
- * @param client - Configured OpenAI client (injected)
+ * Requests are adapted to the provider's capabilities: temperature is dropped
+ * when unsupported, the JSON schema is added to the prompt when the backend
+ * cannot enforce it, and maxTokens is clamped to the remaining context window.
+ *
+ * @param source - Generation provider, or an OpenAI client (Responses API)
  * @param bundle - Complete prompt bundle from composition phase
  * @param validator - Function to validate AI output against AIS schema (injected)
  * @param options - Optional generation parameters
  * @param diagnostics - Optional logger receiving integration diagnostic events
  * @returns Generation result with validated AI output and usage metrics
- * @throws {Error} If API call fails or output validation fails
+ * @throws {OutputValidationError} If the output parses but fails AIS validation
+ * @throws {Error} If the call fails, the prompt exceeds the context window, or the output is missing or not JSON
  */
-const MAX_EMPTY_OUTPUT_ATTEMPTS = 2;
-
 export async function generateWithSchema(
-  client: OpenAI,
+  source: GenerationProvider | OpenAI,
   bundle: PromptBundle,
   validator: SchemaValidator,
   options: Partial<GenerationOptions> = {},
   diagnostics?: IntegrationDiagnosticsLogger
 ): Promise<GenerationResult> {
-  const finalOptions = { ...DEFAULT_OPTIONS, ...options };
-
-  // Prepare response_format for OpenAI structured outputs
-  const responseFormat = {
-    type: 'json_schema' as const,
-    name: 'clinical_note',
-    strict: true,
-    schema: bundle.jsonSchema as unknown as Record<string, unknown>,
+  const provider = toGenerationProvider(source);
+  const finalOptions = {
+    ...DEFAULT_OPTIONS,
+    model: provider.defaultModel ?? DEFAULT_OPTIONS.model,
+    ...options,
   };
 
-  const input: ResponseCreateParams['input'] = bundle.messages.map(message => ({
-    role: message.role,
-    content: [{ type: 'input_text' as const, text: message.content }],
-  }));
+  const request = buildProviderRequest(provider, bundle, finalOptions);
 
-  // Call OpenAI API with retry logic
-  const requestBody: ResponseCreateParams = {
-    model: finalOptions.model,
-    input,
-    text: { format: responseFormat },
-    max_output_tokens: finalOptions.maxTokens,
-  };
-
-  if (shouldSendTemperature(finalOptions.model, finalOptions.temperature)) {
-    requestBody.temperature = finalOptions.temperature;
-  }
-
-  let completion: Response | null = null;
+  let completion: ProviderResponse | null = null;
   let messageContent: string | null = null;
+  let requestCount = 0;
 
   for (let attempt = 0; attempt < MAX_EMPTY_OUTPUT_ATTEMPTS; attempt++) {
-    const current = await withRetry<Response>(
+    const current = await withRetry<ProviderResponse>(
       async () => {
-        return (await client.responses.create(requestBody)) as Response;
+        requestCount += 1;
+        return provider.generate(request);
       },
       { maxRetries: finalOptions.retries }
     );
 
-    validateResponseStatus(current);
-    const refusalMessage = extractRefusal(current);
-    if (refusalMessage) {
-      throw new Error(`OpenAI refused to complete the request: ${refusalMessage}`);
+    if (current.refusal) {
+      throw new Error(`${provider.label} refused to complete the request: ${current.refusal}`);
     }
 
-    const extracted = extractFirstTextOutput(current);
+    const extracted = current.text;
     if (extracted && extracted.trim().length > 0) {
       completion = current;
       messageContent = extracted;
       break;
     }
 
-    logMissingOutputAttempt(attempt, current, finalOptions.model, diagnostics);
+    logMissingOutputAttempt(attempt, provider, current, finalOptions.model, diagnostics);
 
     if (attempt === MAX_EMPTY_OUTPUT_ATTEMPTS - 1) {
       throw new Error(
-        'OpenAI response missing message content after retry. Check previous logs for raw completion preview.'
+        `${provider.label} response missing message content after retry. Check previous logs for raw completion preview.`
       );
     }
   }
 
   if (!completion || !messageContent) {
-    throw new Error('OpenAI response missing message content');
+    throw new Error(`${provider.label} response missing message content`);
   }
 
   // Parse JSON output
@@ -112,7 +106,7 @@ export async function generateWithSchema(
   } catch (error: unknown) {
     const reason = error instanceof Error ? error.message : 'Unknown error';
     throw new Error(
-      `Failed to parse OpenAI response as JSON: ${reason}`,
+      `Failed to parse ${provider.label} response as JSON: ${reason}`,
       { cause: error }
     );
   }
@@ -124,148 +118,117 @@ export async function generateWithSchema(
       .map(err => `${err.instancePath}: ${err.message}`)
       .join(', ');
 
-    throw new Error(
+    throw new OutputValidationError(
       `AI output failed schema validation: ${errorMessages}. ` +
-      `This indicates the AI did not follow the schema constraints properly.`
+      `This indicates the AI did not follow the schema constraints properly.`,
+      {
+        code: 'output-validation',
+        output: aiOutput,
+        errors: validationResult.errors,
+        warnings: validationResult.warnings,
+        usage: readUsage(provider, completion),
+        model: completion.model,
+        responseId: completion.responseId,
+        promptId: completion.promptId,
+        retries: requestCount - 1,
+      }
     );
   }
 
   const validationWarnings = validationResult.warnings;
 
-  // Build result with usage metrics
-  const usage = completion.usage;
-  if (!usage) {
-    throw new Error('OpenAI response missing usage metrics');
-  }
-
   return {
     output: aiOutput,
-    usage: {
-      promptTokens: usage.input_tokens,
-      completionTokens: usage.output_tokens,
-      totalTokens: usage.total_tokens,
-    },
+    usage: readUsage(provider, completion),
     model: completion.model,
-    responseId: typeof completion.id === 'string' ? completion.id : undefined,
-    promptId: completion.prompt?.id ?? undefined,
+    responseId: completion.responseId,
+    promptId: completion.promptId,
     warnings: validationWarnings.length > 0 ? validationWarnings : undefined,
+    retries: requestCount - 1,
   };
 }
 
-function validateResponseStatus(response: Response): void {
-  switch (response.status) {
-    case 'completed':
-      return;
-    case 'incomplete': {
-      const reason = response.incomplete_details?.reason;
-      if (reason === 'max_output_tokens') {
-        throw new Error(
-          'OpenAI response truncated: reached max_output_tokens. Consider raising the token limit or simplifying the prompt.'
-        );
-      }
-      if (reason === 'content_filter') {
-        throw new Error(
-          'OpenAI halted generation due to content filtering. Review the input data for disallowed content.'
-        );
-      }
+function buildProviderRequest(
+  provider: GenerationProvider,
+  bundle: PromptBundle,
+  options: Required<GenerationOptions>
+): ProviderRequest {
+  const { capabilities } = provider;
+  const schema = bundle.jsonSchema as unknown as Record<string, unknown>;
+  const messages: Message[] = capabilities.strictJsonSchema
+    ? bundle.messages
+    : [...bundle.messages, buildSchemaInstruction(schema)];
+
+  let maxTokens = options.maxTokens;
+  if (capabilities.maxContextTokens) {
+    const promptTokens = estimateTokens(messages, schema);
+    const available = capabilities.maxContextTokens - promptTokens;
+    if (available <= 0) {
       throw new Error(
-        `OpenAI response incomplete: ${reason ?? 'unknown reason'}.`
+        `Prompt needs about ${promptTokens} tokens, exceeding the ${provider.label} context window of ` +
+        `${capabilities.maxContextTokens}. Consider per-section generation or a larger model.`
       );
     }
-    default:
-      throw new Error(`OpenAI response returned unexpected status: ${response.status}`);
-  }
-}
-
-function extractRefusal(response: Response): string | null {
-  if (!Array.isArray(response.output)) {
-    return null;
-  }
-
-  for (const block of response.output) {
-    if (!block || typeof block !== 'object') continue;
-    const contentList = (block as { content?: Array<Record<string, unknown>> }).content;
-    if (!Array.isArray(contentList)) continue;
-
-    for (const content of contentList) {
-      if (!content) continue;
-      if (content.type === 'refusal' && typeof content.refusal === 'string') {
-        return content.refusal;
-      }
-    }
+    maxTokens = Math.min(maxTokens, available);
   }
 
-  return null;
+  return {
+    messages,
+    schemaName: RESPONSE_SCHEMA_NAME,
+    schema,
+    model: options.model,
+    temperature: capabilities.temperature ? options.temperature : undefined,
+    maxTokens,
+  };
 }
 
-function extractFirstTextOutput(response: Response): string | null {
-  if (typeof response.output_text === 'string' && response.output_text.trim().length > 0) {
-    return response.output_text;
-  }
-
-  if (Array.isArray(response.output)) {
-    for (const item of response.output) {
-      if (!item || typeof item !== 'object') continue;
-
-      // Direct text output item
-      if ('type' in item && (item as { type?: string }).type === 'output_text' && 'text' in item) {
-        const text = (item as { text?: string }).text;
-        if (typeof text === 'string' && text.trim().length > 0) {
-          return text;
-        }
-      }
-
-      const contentList = (item as { content?: Array<Record<string, unknown>> }).content;
-      if (Array.isArray(contentList)) {
-        for (const content of contentList) {
-          if (!content) continue;
-          const type = typeof content.type === 'string' ? content.type : undefined;
-          const text = typeof content.text === 'string' ? content.text : undefined;
+/**
+ * Spell out the response schema for backends that only offer a JSON mode.
+ */
+function buildSchemaInstruction(schema: Record<string, unknown>): Message {
+  return {
+    role: 'user',
+    content: [
+      'JSON SCHEMA',
+      'Respond with JSON only. The response MUST validate against this JSON Schema:',
+      JSON.stringify(schema),
+    ].join('\n'),
+  };
+}
 
-          if (type === 'output_text' || type === 'text') {
-            if (text && text.trim().length > 0) {
-              return text;
-            }
-          }
+function estimateTokens(messages: Message[], schema: Record<string, unknown>): number {
+  const characters =
+    messages.reduce((total, message) => total + message.content.length, 0) + JSON.stringify(schema).length;
+  return Math.ceil(characters / CHARS_PER_TOKEN);
+}
 
-          if (type && type.startsWith('json')) {
-            // Structured outputs may surface as JSON payloads
-            if (typeof content.json === 'string') {
-              return content.json;
-            }
-            if (content.json && typeof content.json === 'object') {
-              return JSON.stringify(content.json);
-            }
-            if (typeof content.output === 'string') {
-              return content.output;
-            }
-          }
-        }
-      }
-    }
+function readUsage(provider: GenerationProvider, completion: ProviderResponse): GenerationResult['usage'] {
+  if (!completion.usage) {
+    throw new Error(`${provider.label} response missing usage metrics`);
   }
 
-  return null;
+  return { ...completion.usage };
 }
 
 function logMissingOutputAttempt(
   attempt: number,
-  response: Response,
+  provider: GenerationProvider,
+  response: ProviderResponse,
   model: string | undefined,
   diagnostics?: IntegrationDiagnosticsLogger
 ): void {
   const attemptNumber = attempt + 1;
   const meta = {
     attempt: attemptNumber,
-    status: response.status,
+    provider: provider.id,
     model,
-    responseId: typeof response.id === 'string' ? response.id : undefined,
-    promptId: response.prompt?.id ?? undefined,
+    responseId: response.responseId,
+    promptId: response.promptId,
   };
 
   let rawPreview: string;
   try {
-    const serialised = JSON.stringify(response, null, 2);
+    const serialised = JSON.stringify(response.raw ?? response, null, 2);
     rawPreview =
       serialised.length > 4000 ? `${serialised.slice(0, 4000)}… (truncated)` : serialised;
   } catch {
@@ -285,25 +248,7 @@ function logMissingOutputAttempt(
   }
 
   console.warn(
-    `[Integration] OpenAI response missing output_text (attempt ${attemptNumber}). Metadata: ${JSON.stringify(meta)}`
+    `[Integration] ${provider.label} response missing output text (attempt ${attemptNumber}). Metadata: ${JSON.stringify(meta)}`
   );
   console.warn(`[Integration] Raw completion preview:\n${rawPreview}`);
 }
-
-function shouldSendTemperature(model?: string, temperature?: number): boolean {
-  if (temperature === undefined || temperature === null) {
-    return false;
-  }
-
-  if (!model) {
-    return true;
-  }
-
-  const normalized = model.toLowerCase();
-
-  if (normalized.startsWith('gpt-5')) {
-    return false;
-  }
-
-  return true;
-}
@@ -0,0 +1,16 @@
+import type { OutputValidationErrorContext } from './types';
+
+/**
+ * Error thrown when the model returned parseable JSON that fails the AIS schema.
+ * Carries the rejected output and its classified issues so callers can repair it.
+ */
+export class OutputValidationError extends Error {
+  readonly context: OutputValidationErrorContext;
+
+  /** Create an output validation error with the rejected generation attached. */
+  constructor(message: string, context: OutputValidationErrorContext) {
+    super(message);
+    this.name = 'OutputValidationError';
+    this.context = context;
+  }
+}
@@ -1,14 +1,28 @@
 /**
  * Integration Domain
  *
- * OpenAI SDK integration for schema-constrained generation.
- * Calls OpenAI API with response_format to enforce JSON schema compliance.
+ * Schema-constrained generation over pluggable providers: the OpenAI Responses
+ * API, OpenAI-compatible Chat Completions servers, and a scripted provider.
+ * A local stub of the Responses API supports offline end-to-end tests.
  */
 
 // Core functionality
 export { createOpenAIClient } from './core/openai-client';
 export { generateWithSchema } from './core/schema-generator';
 
+// Providers
+export { createOpenAIResponsesProvider } from './providers/openai-responses';
+export { createChatCompletionsProvider } from './providers/chat-completions';
+export { createScriptedProvider } from './providers/scripted';
+export { isGenerationProvider, toGenerationProvider } from './providers/resolve-provider';
+
+// Offline testing
+export { createOpenAIStubServer } from './stub/openai-stub-server';
+export { synthesizeOutput } from './stub/output-synthesizer';
+
+// Errors
+export { OutputValidationError } from './errors';
+
 // Utilities
 export { withRetry } from './utils/retry-handler';
 
@@ -16,5 +30,19 @@ export { withRetry } from './utils/retry-handler';
 export type {
   GenerationOptions,
   GenerationResult,
+  GenerationProvider,
+  ProviderCapabilities,
+  ProviderRequest,
+  ProviderResponse,
+  OpenAIResponsesProviderOptions,
+  ChatCompletionsProviderOptions,
+  ScriptedProviderOptions,
+  ScriptedProviderStep,
+  ScriptedGenerationProvider,
+  OutputSynthesisOptions,
+  OpenAIStubStep,
+  OpenAIStubServerOptions,
+  OpenAIStubServer,
+  OutputValidationErrorContext,
   RetryConfig,
 } from './types';
@@ -0,0 +1,104 @@
+/**
+ * Chat Completions Provider
+ *
+ * Adapts OpenAI-compatible Chat Completions servers (vLLM, llama.cpp server,
+ * Ollama) to the GenerationProvider contract so generation can stay on-prem.
+ *
+ * Servers that cannot enforce a JSON schema are driven in JSON mode; the
+ * schema is then spelled out in the prompt by generateWithSchema and the
+ * output is still validated against the AIS.
+ */
+
+import OpenAI from 'openai';
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+} from 'openai/resources/chat/completions';
+import type {
+  ChatCompletionsProviderOptions,
+  GenerationProvider,
+  ProviderRequest,
+  ProviderResponse,
+} from '../types';
+
+/** Placeholder key for local servers that ignore authentication */
+const LOCAL_API_KEY = 'not-required';
+
+/**
+ * Create a provider for an OpenAI-compatible Chat Completions endpoint.
+ *
+ * @param options - Endpoint (baseURL or client), default model, and capabilities
+ * @returns GenerationProvider for the compatible server
+ * @throws {Error} If neither baseURL nor client is supplied, or no model is named
+ */
+export function createChatCompletionsProvider(
+  options: ChatCompletionsProviderOptions
+): GenerationProvider {
+  if (!options.client && !options.baseURL) {
+    throw new Error('Chat Completions provider requires a baseURL or a pre-configured client');
+  }
+  if (!options.model) {
+    throw new Error('Chat Completions provider requires the model served by the endpoint');
+  }
+
+  const client =
+    options.client ?? new OpenAI({ baseURL: options.baseURL, apiKey: options.apiKey ?? LOCAL_API_KEY });
+  const label = options.label ?? 'Chat Completions';
+  const strictJsonSchema = options.strictJsonSchema ?? true;
+
+  return {
+    id: 'chat-completions',
+    label,
+    defaultModel: options.model,
+    capabilities: {
+      strictJsonSchema,
+      temperature: options.temperature ?? true,
+      maxContextTokens: options.maxContextTokens,
+    },
+    async generate(request: ProviderRequest): Promise<ProviderResponse> {
+      const body: ChatCompletionCreateParamsNonStreaming = {
+        model: request.model,
+        messages: request.messages.map(message => ({ role: message.role, content: message.content })),
+        response_format: strictJsonSchema
+          ? {
+              type: 'json_schema',
+              json_schema: { name: request.schemaName, schema: request.schema, strict: true },
+            }
+          : { type: 'json_object' },
+        max_tokens: request.maxTokens,
+      };
+
+      if (request.temperature !== undefined) {
+        body.temperature = request.temperature;
+      }
+
+      const completion = (await client.chat.completions.create(body)) as ChatCompletion;
+      const choice = completion.choices?.[0];
+
+      if (choice?.finish_reason === 'length') {
+        throw new Error(
+          `${label} response truncated: reached max_tokens. Consider raising the token limit or simplifying the prompt.`
+        );
+      }
+      if (choice?.finish_reason === 'content_filter') {
+        throw new Error(`${label} halted generation due to content filtering.`);
+      }
+
+      const usage = completion.usage;
+      return {
+        text: choice?.message?.content ?? null,
+        refusal: choice?.message?.refusal ?? undefined,
+        model: completion.model ?? request.model,
+        usage: usage
+          ? {
+              promptTokens: usage.prompt_tokens,
+              completionTokens: usage.completion_tokens,
+              totalTokens: usage.total_tokens,
+            }
+          : undefined,
+        responseId: typeof completion.id === 'string' ? completion.id : undefined,
+        raw: completion,
+      };
+    },
+  };
+}
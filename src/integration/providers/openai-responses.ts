@@ -0,0 +1,194 @@
+/**
+ * OpenAI Responses Provider
+ *
+ * Adapts the OpenAI Responses API (`client.responses.create`) to the
+ * GenerationProvider contract using strict json_schema structured outputs.
+ */
+
+import type { Response, ResponseCreateParams } from 'openai/resources/responses/responses';
+import type {
+  GenerationProvider,
+  OpenAIResponsesProviderOptions,
+  ProviderRequest,
+  ProviderResponse,
+} from '../types';
+
+/**
+ * Create a provider backed by the OpenAI Responses API.
+ *
+ * @param options - Configured OpenAI client and optional context window
+ * @returns GenerationProvider for OpenAI structured outputs
+ */
+export function createOpenAIResponsesProvider(
+  options: OpenAIResponsesProviderOptions
+): GenerationProvider {
+  const { client } = options;
+
+  return {
+    id: 'openai-responses',
+    label: 'OpenAI',
+    capabilities: {
+      strictJsonSchema: true,
+      temperature: true,
+      maxContextTokens: options.maxContextTokens,
+    },
+    async generate(request: ProviderRequest): Promise<ProviderResponse> {
+      const input: ResponseCreateParams['input'] = request.messages.map(message => ({
+        role: message.role,
+        content: [{ type: 'input_text' as const, text: message.content }],
+      }));
+
+      const requestBody: ResponseCreateParams = {
+        model: request.model,
+        input,
+        text: {
+          format: {
+            type: 'json_schema',
+            name: request.schemaName,
+            strict: true,
+            schema: request.schema,
+          },
+        },
+        max_output_tokens: request.maxTokens,
+      };
+
+      if (shouldSendTemperature(request.model, request.temperature)) {
+        requestBody.temperature = request.temperature;
+      }
+
+      const response = (await client.responses.create(requestBody)) as Response;
+      validateResponseStatus(response);
+
+      const usage = response.usage;
+      return {
+        text: extractFirstTextOutput(response),
+        refusal: extractRefusal(response) ?? undefined,
+        model: response.model,
+        usage: usage
+          ? {
+              promptTokens: usage.input_tokens,
+              completionTokens: usage.output_tokens,
+              totalTokens: usage.total_tokens,
+            }
+          : undefined,
+        responseId: typeof response.id === 'string' ? response.id : undefined,
+        promptId: response.prompt?.id ?? undefined,
+        raw: response,
+      };
+    },
+  };
+}
+
+function validateResponseStatus(response: Response): void {
+  switch (response.status) {
+    case 'completed':
+      return;
+    case 'incomplete': {
+      const reason = response.incomplete_details?.reason;
+      if (reason === 'max_output_tokens') {
+        throw new Error(
+          'OpenAI response truncated: reached max_output_tokens. Consider raising the token limit or simplifying the prompt.'
+        );
+      }
+      if (reason === 'content_filter') {
+        throw new Error(
+          'OpenAI halted generation due to content filtering. Review the input data for disallowed content.'
+        );
+      }
+      throw new Error(
+        `OpenAI response incomplete: ${reason ?? 'unknown reason'}.`
+      );
+    }
+    default:
+      throw new Error(`OpenAI response returned unexpected status: ${response.status}`);
+  }
+}
+
+function extractRefusal(response: Response): string | null {
+  if (!Array.isArray(response.output)) {
+    return null;
+  }
+
+  for (const block of response.output) {
+    if (!block || typeof block !== 'object') continue;
+    const contentList = (block as { content?: Array<Record<string, unknown>> }).content;
+    if (!Array.isArray(contentList)) continue;
+
+    for (const content of contentList) {
+      if (!content) continue;
+      if (content.type === 'refusal' && typeof content.refusal === 'string') {
+        return content.refusal;
+      }
+    }
+  }
+
+  return null;
+}
+
+function extractFirstTextOutput(response: Response): string | null {
+  if (typeof response.output_text === 'string' && response.output_text.trim().length > 0) {
+    return response.output_text;
+  }
+
+  if (Array.isArray(response.output)) {
+    for (const item of response.output) {
+      if (!item || typeof item !== 'object') continue;
+
+      // Direct text output item
+      if ('type' in item && (item as { type?: string }).type === 'output_text' && 'text' in item) {
+        const text = (item as { text?: string }).text;
+        if (typeof text === 'string' && text.trim().length > 0) {
+          return text;
+        }
+      }
+
+      const contentList = (item as { content?: Array<Record<string, unknown>> }).content;
+      if (Array.isArray(contentList)) {
+        for (const content of contentList) {
+          if (!content) continue;
+          const type = typeof content.type === 'string' ? content.type : undefined;
+          const text = typeof content.text === 'string' ? content.text : undefined;
+
+          if (type === 'output_text' || type === 'text') {
+            if (text && text.trim().length > 0) {
+              return text;
+            }
+          }
+
+          if (type && type.startsWith('json')) {
+            // Structured outputs may surface as JSON payloads
+            if (typeof content.json === 'string') {
+              return content.json;
+            }
+            if (content.json && typeof content.json === 'object') {
+              return JSON.stringify(content.json);
+            }
+            if (typeof content.output === 'string') {
+              return content.output;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+function shouldSendTemperature(model?: string, temperature?: number): boolean {
+  if (temperature === undefined || temperature === null) {
+    return false;
+  }
+
+  if (!model) {
+    return true;
+  }
+
+  const normalized = model.toLowerCase();
+
+  if (normalized.startsWith('gpt-5')) {
+    return false;
+  }
+
+  return true;
+}
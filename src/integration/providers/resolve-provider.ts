@@ -0,0 +1,35 @@
+/**
+ * Provider Resolution
+ *
+ * Normalises the generation backends accepted by generateWithSchema so callers
+ * may keep passing a bare OpenAI client.
+ */
+
+import type OpenAI from 'openai';
+import type { GenerationProvider } from '../types';
+import { createOpenAIResponsesProvider } from './openai-responses';
+
+/**
+ * Type guard for GenerationProvider implementations.
+ *
+ * @param value - Provider or OpenAI client
+ * @returns True when the value implements the provider contract
+ */
+export function isGenerationProvider(value: unknown): value is GenerationProvider {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as GenerationProvider).generate === 'function' &&
+    typeof (value as GenerationProvider).capabilities === 'object'
+  );
+}
+
+/**
+ * Wrap an OpenAI client in the Responses provider; pass providers through unchanged.
+ *
+ * @param source - Provider or OpenAI client
+ * @returns GenerationProvider
+ */
+export function toGenerationProvider(source: GenerationProvider | OpenAI): GenerationProvider {
+  return isGenerationProvider(source) ? source : createOpenAIResponsesProvider({ client: source });
+}
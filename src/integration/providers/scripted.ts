@@ -0,0 +1,85 @@
+/**
+ * Scripted Provider
+ *
+ * In-memory GenerationProvider that replays scripted replies and records the
+ * requests it receives. Used for tests, demos, and offline development; it
+ * never leaves the process.
+ */
+
+import type {
+  GenerationResult,
+  ProviderRequest,
+  ProviderResponse,
+  ScriptedGenerationProvider,
+  ScriptedProviderOptions,
+  ScriptedProviderStep,
+} from '../types';
+
+const SCRIPTED_MODEL = 'scripted';
+
+/**
+ * Create a provider that answers from a script.
+ *
+ * Steps are consumed in order and the last step repeats once the script runs
+ * out; a function script receives each request and its zero-based index.
+ *
+ * @param options - Script, capabilities, and model name
+ * @returns Scripted provider exposing the recorded requests
+ * @throws {Error} If the script is an empty array
+ */
+export function createScriptedProvider(options: ScriptedProviderOptions): ScriptedGenerationProvider {
+  const { steps } = options;
+  if (Array.isArray(steps) && steps.length === 0) {
+    throw new Error('Scripted provider requires at least one step');
+  }
+
+  const requests: ProviderRequest[] = [];
+  const model = options.model ?? SCRIPTED_MODEL;
+
+  return {
+    id: 'scripted',
+    label: 'Scripted provider',
+    defaultModel: model,
+    capabilities: {
+      strictJsonSchema: true,
+      temperature: true,
+      ...options.capabilities,
+    },
+    requests,
+    async generate(request: ProviderRequest): Promise<ProviderResponse> {
+      const index = requests.length;
+      requests.push(request);
+
+      const step: ScriptedProviderStep = Array.isArray(steps)
+        ? steps[Math.min(index, steps.length - 1)]
+        : steps(request, index);
+
+      if (step.error !== undefined) {
+        throw step.error;
+      }
+
+      const text = step.output !== undefined ? JSON.stringify(step.output) : step.text ?? null;
+
+      return {
+        text: step.refusal ? null : text,
+        refusal: step.refusal,
+        model: step.model ?? model,
+        usage: normaliseUsage(step.usage, text),
+        responseId: `scripted-${index + 1}`,
+      };
+    },
+  };
+}
+
+function normaliseUsage(
+  usage: Partial<GenerationResult['usage']> | undefined,
+  text: string | null
+): GenerationResult['usage'] {
+  const promptTokens = usage?.promptTokens ?? 0;
+  const completionTokens = usage?.completionTokens ?? Math.ceil((text?.length ?? 0) / 4);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage?.totalTokens ?? promptTokens + completionTokens,
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * OpenAI Stub Server
+ *
+ * Domain: integration/stub
+ * Responsibility: Serve the subset of `POST /v1/responses` the integration
+ * domain uses, answering with schema-valid JSON or scripted failures, so
+ * retries, empty-output recovery, and refusal handling run offline.
+ *
+ * SOR: Structured-output schema comes from the request's `text.format.schema`.
+ * DI: Point any OpenAI client at `baseURL` (or set OPENAI_BASE_URL).
+ */
+
+import type { OpenAIStubServer, OpenAIStubServerOptions, OpenAIStubStep } from '../types';
+import { synthesizeOutput } from './output-synthesizer';
+
+const DEFAULT_HOSTNAME = '127.0.0.1';
+/** Rough characters-per-token ratio used for synthesized usage */
+const CHARS_PER_TOKEN = 4;
+
+const ERROR_BODIES: Record<number, { message: string; type: string; code: string | null }> = {
+  429: { message: 'Rate limit reached (stub).', type: 'requests', code: 'rate_limit_exceeded' },
+  500: { message: 'The server had an error while processing your request (stub).', type: 'server_error', code: null },
+  503: { message: 'The engine is currently overloaded (stub).', type: 'server_error', code: null },
+};
+
+/**
+ * Start a local OpenAI-compatible stub server.
+ *
+ * Scripted steps are consumed one per `/v1/responses` request; once the script
+ * is exhausted every request gets synthesized JSON for its schema.
+ *
+ * @param options - Port, hostname, initial script, reported model, and synthesis seed
+ * @returns Running server with its base URL, recorded requests, and stop()
+ */
+export function createOpenAIStubServer(options: OpenAIStubServerOptions = {}): OpenAIStubServer {
+  const queue: OpenAIStubStep[] = [...(options.steps ?? [])];
+  const requests: Array<Record<string, unknown>> = [];
+
+  const server = Bun.serve({
+    port: options.port ?? 0,
+    hostname: options.hostname ?? DEFAULT_HOSTNAME,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      if (request.method !== 'POST' || pathname !== '/v1/responses') {
+        return errorResponse(404, `Unknown stub route: ${request.method} ${pathname}`, 'invalid_request_error');
+      }
+
+      let body: Record<string, unknown>;
+      try {
+        body = (await request.json()) as Record<string, unknown>;
+      } catch {
+        return errorResponse(400, 'Request body must be JSON', 'invalid_request_error');
+      }
+
+      requests.push(body);
+      const step = queue.shift() ?? {};
+      return respond(body, step, requests.length, options);
+    },
+  });
+
+  const url = `http://${server.hostname}:${server.port}`;
+
+  return {
+    url,
+    baseURL: `${url}/v1`,
+    requests,
+    enqueue(...steps: OpenAIStubStep[]) {
+      queue.push(...steps);
+    },
+    async stop() {
+      await server.stop(true);
+    },
+  };
+}
+
+function respond(
+  body: Record<string, unknown>,
+  step: OpenAIStubStep,
+  sequence: number,
+  options: OpenAIStubServerOptions
+): Response {
+  if (step.status !== undefined) {
+    const known = ERROR_BODIES[step.status];
+    const headers = step.retryAfter !== undefined ? { 'retry-after': String(step.retryAfter) } : undefined;
+    return errorResponse(
+      step.status,
+      known?.message ?? `Stub error ${step.status}`,
+      known?.type ?? 'invalid_request_error',
+      known?.code ?? null,
+      headers
+    );
+  }
+
+  let text: string | null = null;
+  if (step.refusal === undefined) {
+    if (step.text !== undefined) {
+      text = step.text;
+    } else if (step.output !== undefined) {
+      text = JSON.stringify(step.output);
+    } else {
+      const schema = readSchema(body);
+      if (!schema) {
+        return errorResponse(400, 'Missing text.format.schema', 'invalid_request_error', 'missing_schema');
+      }
+      try {
+        text = JSON.stringify(synthesizeOutput(schema, { seed: options.seed }));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Cannot synthesize output';
+        return errorResponse(400, message, 'invalid_request_error', 'unsupported_schema');
+      }
+    }
+  }
+
+  const content = step.refusal !== undefined
+    ? [{ type: 'refusal', refusal: step.refusal }]
+    : text
+      ? [{ type: 'output_text', text, annotations: [] }]
+      : [];
+
+  const inputTokens = Math.ceil(JSON.stringify(body.input ?? '').length / CHARS_PER_TOKEN);
+  const outputTokens = Math.ceil((text ?? step.refusal ?? '').length / CHARS_PER_TOKEN);
+
+  return Response.json({
+    id: `resp_stub_${sequence}`,
+    object: 'response',
+    created_at: Math.floor(Date.now() / 1000),
+    status: 'completed',
+    error: null,
+    incomplete_details: null,
+    model: step.model ?? options.model ?? (typeof body.model === 'string' ? body.model : 'stub-model'),
+    output: content.length > 0
+      ? [{ type: 'message', id: `msg_stub_${sequence}`, status: 'completed', role: 'assistant', content }]
+      : [],
+    usage: {
+      input_tokens: inputTokens,
+      input_tokens_details: { cached_tokens: 0 },
+      output_tokens: outputTokens,
+      output_tokens_details: { reasoning_tokens: 0 },
+      total_tokens: inputTokens + outputTokens,
+    },
+  });
+}
+
+function readSchema(body: Record<string, unknown>): unknown {
+  const text = body.text as { format?: { schema?: unknown } } | undefined;
+  return text?.format?.schema;
+}
+
+function errorResponse(
+  status: number,
+  message: string,
+  type: string,
+  code: string | null = null,
+  headers?: Record<string, string>
+): Response {
+  return Response.json({ error: { message, type, param: null, code } }, { status, headers });
+}
@@ -0,0 +1,233 @@
+/**
+ * Output Synthesizer
+ *
+ * Domain: integration/stub
+ * Responsibility: Build a deterministic, schema-valid AI payload from an AIS
+ * (or any structured-output JSON schema) without calling a model.
+ *
+ * SOR: The schema is the only source of constraints; every property is emitted
+ * because strict structured outputs require all keys.
+ * SOD: Filler text comes from caller-supplied descriptions (field guide), so
+ * previews read plausibly while staying free of real patient data.
+ */
+
+import type { OutputSynthesisOptions } from '../types';
+import { generateFromPattern } from './pattern-generator';
+
+type SchemaRecord = Record<string, unknown>;
+
+const DEFAULT_SEED = 1;
+const DEFAULT_MIN_WORDS = 6;
+const DEFAULT_MAX_WORDS = 14;
+const WORDS_PER_SENTENCE = 10;
+const EXTRA_ARRAY_ITEMS = 2;
+const NUMBER_SPAN = 10;
+
+const FILLER_VOCABULARY = [
+  'client', 'reports', 'stable', 'mood', 'sleep', 'appetite', 'session', 'progress',
+  'goals', 'support', 'coping', 'skills', 'symptoms', 'improved', 'week', 'plan',
+  'continue', 'review', 'noted', 'engaged', 'routine', 'family', 'work', 'safety',
+];
+
+interface SynthesisContext {
+  random: () => number;
+  descriptions: Record<string, string>;
+}
+
+/**
+ * Synthesize a payload that validates against the given schema.
+ *
+ * Honors const, enum, anyOf/oneOf, nullable type unions, pattern, array
+ * minItems/maxItems, numeric bounds, string lengths, and the x-minWords /
+ * x-maxWords / x-minSentences / x-maxSentences text keywords. The same seed
+ * and schema always produce the same output.
+ *
+ * @param schema - JSON schema (typically the derived AIS)
+ * @param options - Seed and per-path filler descriptions
+ * @returns Value matching the schema
+ * @throws {Error} If a pattern uses regex features the generator cannot satisfy
+ */
+export function synthesizeOutput(schema: unknown, options: OutputSynthesisOptions = {}): unknown {
+  const context: SynthesisContext = {
+    random: createRandom(options.seed ?? DEFAULT_SEED),
+    descriptions: options.descriptions ?? {},
+  };
+  return synthesizeNode(schema, '', context);
+}
+
+function synthesizeNode(schema: unknown, path: string, context: SynthesisContext): unknown {
+  if (!isRecord(schema)) {
+    return null;
+  }
+
+  if ('const' in schema) {
+    return schema.const;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return pick(schema.enum, context.random);
+  }
+
+  const variants = Array.isArray(schema.anyOf) ? schema.anyOf : Array.isArray(schema.oneOf) ? schema.oneOf : null;
+  if (variants) {
+    const preferred = variants.find((variant) => isRecord(variant) && variant.type !== 'null') ?? variants[0];
+    return synthesizeNode(preferred, path, context);
+  }
+
+  switch (resolveType(schema)) {
+    case 'object':
+      return synthesizeObject(schema, path, context);
+    case 'array':
+      return synthesizeArray(schema, path, context);
+    case 'string':
+      return synthesizeString(schema, path, context);
+    case 'integer':
+      return synthesizeNumber(schema, context.random, true);
+    case 'number':
+      return synthesizeNumber(schema, context.random, false);
+    case 'boolean':
+      return context.random() < 0.5;
+    default:
+      return null;
+  }
+}
+
+function resolveType(schema: SchemaRecord): string | undefined {
+  if (typeof schema.type === 'string') {
+    return schema.type;
+  }
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter((type): type is string => typeof type === 'string');
+    return types.find((type) => type !== 'null') ?? types[0];
+  }
+  if (isRecord(schema.properties)) {
+    return 'object';
+  }
+  return undefined;
+}
+
+function synthesizeObject(schema: SchemaRecord, path: string, context: SynthesisContext): Record<string, unknown> {
+  const properties = isRecord(schema.properties) ? schema.properties : {};
+  const result: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(properties)) {
+    result[key] = synthesizeNode(child, path ? `${path}.${key}` : key, context);
+  }
+  return result;
+}
+
+function synthesizeArray(schema: SchemaRecord, path: string, context: SynthesisContext): unknown[] {
+  const minItems = Math.max(readNumber(schema.minItems) ?? 1, 0);
+  const maxItems = readNumber(schema.maxItems) ?? minItems + EXTRA_ARRAY_ITEMS;
+  const count = randomInt(minItems, Math.max(minItems, maxItems), context.random);
+  // Paths use [] notation so items share the field-guide description of their outputPath
+  return Array.from({ length: count }, () => synthesizeNode(schema.items, `${path}[]`, context));
+}
+
+function synthesizeString(schema: SchemaRecord, path: string, context: SynthesisContext): string {
+  if (typeof schema.pattern === 'string') {
+    return generateFromPattern(schema.pattern, context.random, path);
+  }
+
+  const minWords = readNumber(schema['x-minWords']);
+  const maxWords = readNumber(schema['x-maxWords']);
+  const minSentences = readNumber(schema['x-minSentences']) ?? 1;
+  const maxSentences = readNumber(schema['x-maxSentences']);
+
+  const wordFloor = minWords ?? Math.min(DEFAULT_MIN_WORDS, maxWords ?? DEFAULT_MIN_WORDS);
+  const wordCeiling = Math.max(wordFloor, maxWords ?? Math.max(wordFloor, DEFAULT_MAX_WORDS));
+  let wordCount = randomInt(wordFloor, wordCeiling, context.random);
+
+  const sentenceCeiling = Math.max(
+    minSentences,
+    Math.min(maxSentences ?? Infinity, Math.ceil(wordCount / WORDS_PER_SENTENCE))
+  );
+  const sentenceCount = Math.max(1, randomInt(minSentences, sentenceCeiling, context.random));
+  wordCount = Math.max(wordCount, sentenceCount);
+
+  const words = buildWordStream(context.descriptions[path], wordCount, context.random);
+  let text = splitIntoSentences(words, sentenceCount);
+
+  const minLength = readNumber(schema.minLength) ?? 0;
+  while (text.length < minLength) {
+    text = `${text} ${capitalise(pick(FILLER_VOCABULARY, context.random))}.`;
+  }
+
+  const maxLength = readNumber(schema.maxLength);
+  return maxLength !== undefined ? text.slice(0, maxLength) : text;
+}
+
+/**
+ * Description words in order, then seeded filler, so previews open with the
+ * field's intent. Only \w tokens are used, matching the validator's word count.
+ */
+function buildWordStream(description: string | undefined, count: number, random: () => number): string[] {
+  const described = (description ?? '').toLowerCase().match(/\w+/g) ?? [];
+  const words = described.slice(0, count);
+  while (words.length < count) {
+    words.push(pick(FILLER_VOCABULARY, random));
+  }
+  return words;
+}
+
+function splitIntoSentences(words: string[], sentenceCount: number): string {
+  const sentences: string[] = [];
+  const base = Math.floor(words.length / sentenceCount);
+  const remainder = words.length % sentenceCount;
+  let offset = 0;
+
+  for (let index = 0; index < sentenceCount; index++) {
+    const size = base + (index < remainder ? 1 : 0);
+    const sentence = words.slice(offset, offset + size).join(' ');
+    sentences.push(`${capitalise(sentence)}.`);
+    offset += size;
+  }
+
+  return sentences.join(' ');
+}
+
+function synthesizeNumber(schema: SchemaRecord, random: () => number, integer: boolean): number {
+  const exclusiveMinimum = readNumber(schema.exclusiveMinimum);
+  const exclusiveMaximum = readNumber(schema.exclusiveMaximum);
+  let minimum = readNumber(schema.minimum) ?? (exclusiveMinimum !== undefined ? exclusiveMinimum + 1 : undefined);
+  let maximum = readNumber(schema.maximum) ?? (exclusiveMaximum !== undefined ? exclusiveMaximum - 1 : undefined);
+
+  minimum ??= maximum !== undefined ? Math.min(0, maximum) : 0;
+  maximum ??= minimum + NUMBER_SPAN;
+
+  const low = integer ? Math.ceil(minimum) : minimum;
+  const high = integer ? Math.floor(maximum) : maximum;
+  return high <= low ? low : randomInt(Math.ceil(low), Math.floor(high), random);
+}
+
+/**
+ * Seeded PRNG (mulberry32); small, fast, and stable across runtimes.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomInt(min: number, max: number, random: () => number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(values: readonly T[], random: () => number): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function capitalise(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function isRecord(value: unknown): value is SchemaRecord {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,231 @@
+/**
+ * Pattern Generator
+ *
+ * Domain: integration/stub
+ * Responsibility: Produce a string matching a template `pattern` constraint.
+ *
+ * Supports the regex subset templates use for codes and identifiers: literals,
+ * escapes (\d \w \s and escaped punctuation), character classes with ranges,
+ * groups with alternation, anchors, and the ? * + {n} {n,} {n,m} quantifiers.
+ */
+
+type Node =
+  | { kind: 'literal'; value: string }
+  | { kind: 'set'; chars: string[] }
+  | { kind: 'group'; alternatives: Node[][] }
+  | { kind: 'repeat'; node: Node; min: number; max: number };
+
+const DIGITS = '0123456789'.split('');
+const LOWER = 'abcdefghijklmnopqrstuvwxyz'.split('');
+const UPPER = LOWER.map((char) => char.toUpperCase());
+const WORD_CHARS = [...LOWER, ...UPPER, ...DIGITS, '_'];
+const ANY_CHARS = [...LOWER, ...DIGITS];
+/** Extra repetitions allowed for open-ended quantifiers (*, +, {n,}) */
+const OPEN_REPEAT_SPAN = 2;
+
+/**
+ * Generate a string that matches the pattern.
+ *
+ * @param pattern - JSON Schema pattern (ECMAScript regex source, unicode mode)
+ * @param random - Seeded random source
+ * @param path - Field path used in error messages
+ * @returns Matching string
+ * @throws {Error} If the pattern uses unsupported syntax or the result does not match
+ */
+export function generateFromPattern(pattern: string, random: () => number, path: string): string {
+  let value: string;
+  try {
+    const parser = new PatternParser(pattern);
+    value = render(parser.parse(), random);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    throw new Error(`Cannot synthesize a value for pattern ${pattern} at ${path || '(root)'}: ${reason}`);
+  }
+
+  if (!new RegExp(pattern, 'u').test(value)) {
+    throw new Error(`Cannot synthesize a value for pattern ${pattern} at ${path || '(root)'}: generated "${value}" does not match`);
+  }
+  return value;
+}
+
+function render(nodes: Node[], random: () => number): string {
+  return nodes.map((node) => renderNode(node, random)).join('');
+}
+
+function renderNode(node: Node, random: () => number): string {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'set':
+      return node.chars[Math.floor(random() * node.chars.length)];
+    case 'group':
+      return render(node.alternatives[Math.floor(random() * node.alternatives.length)], random);
+    case 'repeat': {
+      const count = node.min + Math.floor(random() * (node.max - node.min + 1));
+      return Array.from({ length: count }, () => renderNode(node.node, random)).join('');
+    }
+  }
+}
+
+class PatternParser {
+  private index = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): Node[] {
+    const alternatives = this.parseAlternatives();
+    if (this.index < this.source.length) {
+      throw new Error(`unexpected "${this.source[this.index]}" at ${this.index}`);
+    }
+    return alternatives.length === 1 ? alternatives[0] : [{ kind: 'group', alternatives }];
+  }
+
+  private parseAlternatives(): Node[][] {
+    const alternatives: Node[][] = [this.parseSequence()];
+    while (this.peek() === '|') {
+      this.index++;
+      alternatives.push(this.parseSequence());
+    }
+    return alternatives;
+  }
+
+  private parseSequence(): Node[] {
+    const nodes: Node[] = [];
+    while (this.index < this.source.length && this.peek() !== '|' && this.peek() !== ')') {
+      const atom = this.parseAtom();
+      if (atom) {
+        nodes.push(this.parseQuantifier(atom));
+      }
+    }
+    return nodes;
+  }
+
+  private parseAtom(): Node | null {
+    const char = this.source[this.index++];
+    switch (char) {
+      case '^':
+      case '$':
+        return null;
+      case '.':
+        return { kind: 'set', chars: ANY_CHARS };
+      case '(': {
+        if (this.source.startsWith('?:', this.index)) {
+          this.index += 2;
+        } else if (this.peek() === '?') {
+          throw new Error('lookarounds and named groups are not supported');
+        }
+        const alternatives = this.parseAlternatives();
+        this.expect(')');
+        return { kind: 'group', alternatives };
+      }
+      case '[':
+        return this.parseClass();
+      case '\\':
+        return this.parseEscape();
+      default:
+        return { kind: 'literal', value: char };
+    }
+  }
+
+  private parseEscape(): Node {
+    const char = this.source[this.index++];
+    if (char === undefined) {
+      throw new Error('dangling escape');
+    }
+    const set = ESCAPE_SETS[char];
+    if (set) {
+      return { kind: 'set', chars: set };
+    }
+    if (/[a-zA-Z0-9]/.test(char)) {
+      throw new Error(`escape \\${char} is not supported`);
+    }
+    return { kind: 'literal', value: char };
+  }
+
+  private parseClass(): Node {
+    if (this.peek() === '^') {
+      throw new Error('negated character classes are not supported');
+    }
+
+    const chars: string[] = [];
+    while (this.peek() !== ']') {
+      if (this.index >= this.source.length) {
+        throw new Error('unterminated character class');
+      }
+
+      let char = this.source[this.index++];
+      if (char === '\\') {
+        const escaped = this.source[this.index++];
+        const set = ESCAPE_SETS[escaped];
+        if (set) {
+          chars.push(...set);
+          continue;
+        }
+        char = escaped;
+      }
+
+      if (this.peek() === '-' && this.source[this.index + 1] !== ']') {
+        this.index++;
+        const end = this.source[this.index++];
+        for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+          chars.push(String.fromCharCode(code));
+        }
+      } else {
+        chars.push(char);
+      }
+    }
+    this.index++;
+
+    if (chars.length === 0) {
+      throw new Error('empty character class');
+    }
+    return { kind: 'set', chars };
+  }
+
+  private parseQuantifier(node: Node): Node {
+    const char = this.peek();
+    let min: number;
+    let max: number;
+
+    if (char === '?') {
+      [min, max] = [0, 1];
+    } else if (char === '*') {
+      [min, max] = [0, OPEN_REPEAT_SPAN];
+    } else if (char === '+') {
+      [min, max] = [1, 1 + OPEN_REPEAT_SPAN];
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(this.index));
+      if (!match) {
+        return node;
+      }
+      min = Number(match[1]);
+      max = match[2] === undefined ? min : match[3] ? Number(match[3]) : min + OPEN_REPEAT_SPAN;
+      this.index += match[0].length - 1;
+    } else {
+      return node;
+    }
+
+    this.index++;
+    if (this.peek() === '?') {
+      this.index++; // Lazy modifier does not change what matches
+    }
+    return { kind: 'repeat', node, min, max };
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.index];
+  }
+
+  private expect(char: string): void {
+    if (this.source[this.index] !== char) {
+      throw new Error(`expected "${char}" at ${this.index}`);
+    }
+    this.index++;
+  }
+}
+
+const ESCAPE_SETS: Record<string, string[]> = {
+  d: DIGITS,
+  w: WORD_CHARS,
+  s: [' '],
+};
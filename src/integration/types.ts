@@ -1,3 +1,5 @@
+import type OpenAI from 'openai';
+import type { Message } from '../composition/types';
 import type { ValidationIssue } from '../validation';
 import type { AIPayload } from '../types/payloads';
 
@@ -31,6 +33,161 @@ export interface GenerationResult {
   responseId?: string;
   promptId?: string;
   warnings?: ValidationIssue[];
+  retries?: number; // Extra API requests after the first (transient-error and empty-output retries)
+}
+
+/**
+ * What a generation backend can honour; generateWithSchema adapts requests to it.
+ */
+export interface ProviderCapabilities {
+  strictJsonSchema: boolean; // Backend enforces the response JSON schema (otherwise JSON mode + schema in prompt)
+  temperature: boolean; // Backend accepts a sampling temperature
+  maxContextTokens?: number; // Context window (prompt + output); unset when unknown
+}
+
+/**
+ * Backend-neutral structured-output request.
+ */
+export interface ProviderRequest {
+  messages: Message[];
+  schemaName: string;
+  schema: Record<string, unknown>;
+  model: string;
+  temperature?: number; // Only set when the provider supports temperature
+  maxTokens: number;
+}
+
+/**
+ * Backend-neutral response. Status failures (truncation, content filter) are thrown by the adapter.
+ */
+export interface ProviderResponse {
+  text: string | null; // Raw JSON text; null or blank when the model returned nothing
+  refusal?: string;
+  model: string;
+  usage?: GenerationResult['usage'];
+  responseId?: string;
+  promptId?: string;
+  raw?: unknown; // Original payload, used for diagnostics previews
+}
+
+/**
+ * Contract implemented by every generation backend (OpenAI, OpenAI-compatible servers, scripted).
+ * Transient failures should throw errors with a numeric `status` so withRetry can classify them.
+ */
+export interface GenerationProvider {
+  id: string; // Stable identifier (e.g. "openai-responses")
+  label: string; // Human-readable name used in error messages
+  capabilities: ProviderCapabilities;
+  defaultModel?: string; // Used when GenerationOptions.model is not set
+  generate(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+/**
+ * Options for the OpenAI Responses API provider
+ */
+export interface OpenAIResponsesProviderOptions {
+  client: OpenAI;
+  maxContextTokens?: number;
+}
+
+/**
+ * Options for OpenAI-compatible Chat Completions servers (vLLM, llama.cpp server, Ollama)
+ */
+export interface ChatCompletionsProviderOptions {
+  baseURL?: string; // e.g. http://localhost:11434/v1 (ignored when client is given)
+  apiKey?: string; // Many local servers accept any value
+  client?: OpenAI; // Pre-configured client pointing at the compatible server
+  model: string; // Model served by the endpoint; compatible servers reject OpenAI model names
+  label?: string; // Default: "Chat Completions"
+  strictJsonSchema?: boolean; // Server supports response_format json_schema (default: true)
+  temperature?: boolean; // Default: true
+  maxContextTokens?: number;
+}
+
+/**
+ * One scripted reply. Exactly one of output, text, refusal, or error is expected.
+ */
+export interface ScriptedProviderStep {
+  output?: AIPayload; // Serialised as the response text
+  text?: string | null; // Raw text (e.g. malformed JSON, or empty output)
+  refusal?: string;
+  error?: unknown; // Thrown from generate (e.g. { status: 429 })
+  usage?: Partial<GenerationResult['usage']>;
+  model?: string;
+}
+
+/**
+ * Options for the in-memory scripted provider
+ */
+export interface ScriptedProviderOptions {
+  steps: ScriptedProviderStep[] | ((request: ProviderRequest, index: number) => ScriptedProviderStep);
+  capabilities?: Partial<ProviderCapabilities>;
+  model?: string;
+}
+
+/**
+ * Scripted provider that records every request it receives
+ */
+export interface ScriptedGenerationProvider extends GenerationProvider {
+  readonly requests: ProviderRequest[];
+}
+
+/**
+ * Options for synthesizing schema-valid output without a model
+ */
+export interface OutputSynthesisOptions {
+  seed?: number; // Same seed and schema always give the same output (default: 1)
+  descriptions?: Record<string, string>; // Filler text keyed by AIS path (dot + [] notation)
+}
+
+/**
+ * One scripted reply from the OpenAI stub server. Without status, the reply is a
+ * completed response carrying output, text, refusal, or synthesized JSON.
+ */
+export interface OpenAIStubStep {
+  status?: number; // HTTP error status (e.g. 429, 500); other fields are ignored
+  retryAfter?: number; // Seconds sent in the Retry-After header with an error status
+  output?: AIPayload; // Replaces the synthesized output
+  text?: string; // Raw output text (e.g. malformed JSON, or '' for empty output)
+  refusal?: string;
+  model?: string;
+}
+
+/**
+ * Options for the local OpenAI-compatible stub server
+ */
+export interface OpenAIStubServerOptions {
+  port?: number; // Default: 0 (random free port)
+  hostname?: string; // Default: 127.0.0.1
+  steps?: OpenAIStubStep[]; // Consumed in order; synthesized replies once exhausted
+  model?: string; // Reported model (default: the requested model)
+  seed?: number; // Seed for synthesized replies (default: 1)
+}
+
+/**
+ * Running stub server. Point an OpenAI client at `baseURL`.
+ */
+export interface OpenAIStubServer {
+  readonly url: string;
+  readonly baseURL: string; // `${url}/v1`
+  readonly requests: Array<Record<string, unknown>>; // Parsed /v1/responses bodies, in order
+  enqueue(...steps: OpenAIStubStep[]): void;
+  stop(): Promise<void>;
+}
+
+/**
+ * Structured context attached to OutputValidationError
+ */
+export interface OutputValidationErrorContext {
+  code: 'output-validation';
+  output: AIPayload; // Parsed output that failed validation
+  errors: ValidationIssue[]; // Fatal issues (soft text keywords are already downgraded)
+  warnings: ValidationIssue[];
+  usage: GenerationResult['usage'];
+  model: string;
+  responseId?: string;
+  promptId?: string;
+  retries: number;
 }
 
 /**
@@ -2,7 +2,8 @@
  * Retry Handler with Exponential Backoff
  *
  * Wraps API calls with retry logic for transient failures.
- * Handles rate limits (429) and server errors (500-599).
+ * Handles rate limits (429) and server errors (500-599), honoring the
+ * server's Retry-After header (capped at maxDelayMs) when present.
  */
 
 import type { RetryConfig } from '../types';
@@ -38,6 +39,45 @@ function calculateDelay(attempt: number, baseDelayMs: number, maxDelayMs: number
   return Math.min(delay, maxDelayMs);
 }
 
+/**
+ * Reads a Retry-After delay (seconds or HTTP date) from the error's response headers
+ */
+function readRetryAfterMs(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+
+  const headers = (error as Record<string, unknown>).headers;
+  const milliseconds = Number(readHeader(headers, 'retry-after-ms') ?? NaN);
+  if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+
+  const value = readHeader(headers, 'retry-after');
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function readHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
 /**
  * Sleeps for specified milliseconds
  */
@@ -78,8 +118,11 @@ export async function withRetry<T>(
         );
       }
 
-      // Calculate and wait for backoff delay
-      const delay = calculateDelay(attempt, finalConfig.baseDelayMs, finalConfig.maxDelayMs);
+      // Prefer the server's Retry-After hint, otherwise exponential backoff
+      const retryAfterMs = readRetryAfterMs(error);
+      const delay = retryAfterMs !== undefined
+        ? Math.min(retryAfterMs, finalConfig.maxDelayMs)
+        : calculateDelay(attempt, finalConfig.baseDelayMs, finalConfig.maxDelayMs);
       await sleep(delay);
     }
   }
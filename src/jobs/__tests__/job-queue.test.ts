@@ -0,0 +1,294 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { NoteTemplate } from '../../derivation/types';
+import { createPipelineError } from '../../pipeline';
+import type { PipelineInput, PipelineOutput } from '../../pipeline';
+import {
+  CALLBACK_HEADERS,
+  createFileSystemJobStore,
+  createInProcessJobQueue,
+  JobQueueError,
+  verifyCallbackSignature,
+} from '..';
+import type { JobCallbackConfig, JobCallbackPayload, JobPipelineRunner } from '..';
+
+const template = {
+  id: 'tmpl-jobs',
+  name: 'Jobs Template',
+  version: '2.1.0',
+  layout: [],
+} as unknown as NoteTemplate;
+
+function buildInput(requestId?: string): PipelineInput {
+  return {
+    template,
+    sourceData: { patient: { name: 'Jane Doe' } },
+    options: requestId ? { requestId } : undefined,
+  };
+}
+
+function buildOutput(input: PipelineInput): PipelineOutput {
+  return {
+    html: `<p>${input.options?.requestId}</p>`,
+    css: { screen: '', print: '', hash: 'hash' },
+    aiOutput: {},
+    template: { id: template.id, name: template.name, version: template.version },
+    schemas: {} as PipelineOutput['schemas'],
+    usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    model: 'mock-gpt',
+  };
+}
+
+let sequence = 0;
+const nextId = () => `job-${++sequence}`;
+
+const tempDirs: string[] = [];
+afterAll(() => {
+  tempDirs.forEach((dir) => rmSync(dir, { recursive: true, force: true }));
+});
+
+describe('in-process job queue', () => {
+  it('runs jobs with bounded concurrency and records results', async () => {
+    let active = 0;
+    let peak = 0;
+    const runner: JobPipelineRunner = async (input) => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active -= 1;
+      return buildOutput(input);
+    };
+
+    const queue = createInProcessJobQueue({ concurrency: 2, runPipeline: runner, generateId: nextId });
+    const jobs = await Promise.all([1, 2, 3, 4].map(() => queue.submit(buildInput())));
+
+    expect(jobs.every((job) => job.status === 'queued')).toBe(true);
+    expect(jobs[0].template).toEqual({ id: 'tmpl-jobs', name: 'Jobs Template', version: '2.1.0' });
+
+    await queue.drain();
+
+    expect(peak).toBe(2);
+    for (const job of jobs) {
+      const stored = await queue.get(job.id);
+      expect(stored?.status).toBe('succeeded');
+      expect(stored?.startedAt).toBeDefined();
+      expect(stored?.finishedAt).toBeDefined();
+      // Job id doubles as the pipeline requestId when the caller did not set one.
+      expect(stored?.result?.html).toBe(`<p>${job.id}</p>`);
+    }
+  });
+
+  it('falls back to the default concurrency for invalid settings', async () => {
+    for (const concurrency of [Number.NaN, Number.POSITIVE_INFINITY, 0]) {
+      const queue = createInProcessJobQueue({
+        concurrency,
+        generateId: nextId,
+        runPipeline: async (input) => buildOutput(input),
+      });
+      const job = await queue.submit(buildInput());
+      await queue.drain();
+      expect((await queue.get(job.id))?.status).toBe('succeeded');
+    }
+  });
+
+  it('records the failing pipeline step', async () => {
+    const queue = createInProcessJobQueue({
+      generateId: nextId,
+      runPipeline: async () => {
+        throw createPipelineError('Resolution produced fatal warnings', 'resolution-error', [
+          { code: 'missing_source' },
+        ]);
+      },
+    });
+
+    const job = await queue.submit(buildInput('req-7'));
+    await queue.drain();
+
+    const stored = await queue.get(job.id);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.requestId).toBe('req-7');
+    expect(stored?.error).toEqual({
+      step: 'resolution-error',
+      message: 'Resolution produced fatal warnings',
+      details: [{ code: 'missing_source' }],
+    });
+  });
+
+  it('posts signed callbacks and retries transient failures', async () => {
+    const deliveries: Array<{ url: string; body: string; signature: string | null; redirect?: RequestInit['redirect'] }> = [];
+    let calls = 0;
+    const fakeFetch = async (url: string, init: RequestInit) => {
+      calls += 1;
+      const headers = new Headers(init.headers);
+      deliveries.push({
+        url,
+        body: String(init.body),
+        signature: headers.get(CALLBACK_HEADERS.signature),
+        redirect: init.redirect,
+      });
+      return new Response(null, { status: calls === 1 ? 503 : 204 });
+    };
+
+    const queue = createInProcessJobQueue({
+      generateId: nextId,
+      runPipeline: async (input) => buildOutput(input),
+      callbacks: { secret: 'shh', allowedHosts: ['ehr.example'], retryDelayMs: 0, fetch: fakeFetch },
+    });
+
+    const job = await queue.submit(buildInput(), { callbackUrl: 'https://ehr.example/callbacks' });
+    await queue.drain();
+
+    expect(deliveries).toHaveLength(2);
+    const last = deliveries[1];
+    expect(last.url).toBe('https://ehr.example/callbacks');
+    expect(last.redirect).toBe('manual');
+    expect(verifyCallbackSignature(last.body, last.signature, 'shh')).toBe(true);
+    expect(verifyCallbackSignature(last.body, last.signature, 'wrong')).toBe(false);
+    expect(verifyCallbackSignature(`${last.body} `, last.signature, 'shh')).toBe(false);
+
+    const payload = JSON.parse(last.body) as JobCallbackPayload;
+    expect(payload.jobId).toBe(job.id);
+    expect(payload.status).toBe('succeeded');
+    // The note stays out of the callback; receivers fetch it from GET /jobs/:id
+    expect(payload.output).toBeUndefined();
+
+    const stored = await queue.get(job.id);
+    expect(stored?.callback).toMatchObject({
+      status: 'delivered',
+      attempts: 2,
+      lastStatusCode: 204,
+    });
+  });
+
+  it('stops retrying on non-retryable callback responses', async () => {
+    let calls = 0;
+    const queue = createInProcessJobQueue({
+      generateId: nextId,
+      runPipeline: async (input) => buildOutput(input),
+      callbacks: {
+        secret: 'shh',
+        allowedHosts: ['ehr.example'],
+        retryDelayMs: 0,
+        fetch: async () => {
+          calls += 1;
+          return new Response(null, { status: 410 });
+        },
+      },
+    });
+
+    const job = await queue.submit(buildInput(), { callbackUrl: 'https://ehr.example/gone' });
+    await queue.drain();
+
+    expect(calls).toBe(1);
+    expect((await queue.get(job.id))?.callback).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      lastStatusCode: 410,
+    });
+  });
+
+  it('rejects callback URLs when callbacks are disabled or malformed', async () => {
+    const disabled = createInProcessJobQueue({ runPipeline: async (input) => buildOutput(input) });
+    await expect(
+      disabled.submit(buildInput(), { callbackUrl: 'https://ehr.example/callbacks' })
+    ).rejects.toBeInstanceOf(JobQueueError);
+
+    const enabled = createInProcessJobQueue({
+      runPipeline: async (input) => buildOutput(input),
+      callbacks: { secret: 'shh', allowedHosts: ['ehr.example'] },
+    });
+    await expect(enabled.submit(buildInput(), { callbackUrl: 'ftp://nope' })).rejects.toThrow(
+      'Callback URL must use https'
+    );
+    await expect(enabled.submit(buildInput(), { callbackUrl: 'http://ehr.example/hook' })).rejects.toThrow(
+      'Callback URL must use https'
+    );
+  });
+
+  it('rejects every callback host when the allowlist is empty or missing', async () => {
+    const configs = [{ secret: 'shh', allowedHosts: [] }, { secret: 'shh' } as JobCallbackConfig];
+
+    for (const callbacks of configs) {
+      const queue = createInProcessJobQueue({ runPipeline: async (input) => buildOutput(input), callbacks });
+      await expect(queue.submit(buildInput(), { callbackUrl: 'https://ehr.example/hook' })).rejects.toMatchObject({
+        context: { code: 'callback-host-not-allowed' },
+      });
+    }
+  });
+
+  it('limits callbacks to allowed hosts and accepts http only when enabled', async () => {
+    const queue = createInProcessJobQueue({
+      generateId: nextId,
+      runPipeline: async (input) => buildOutput(input),
+      callbacks: {
+        secret: 'shh',
+        allowedHosts: ['ehr.example', '*.partner.example'],
+        allowInsecureHttp: true,
+        fetch: async () => new Response(null, { status: 204 }),
+      },
+    });
+
+    await queue.submit(buildInput(), { callbackUrl: 'https://EHR.example/hook' });
+    await queue.submit(buildInput(), { callbackUrl: 'https://hooks.partner.example/hook' });
+    await queue.submit(buildInput(), { callbackUrl: 'http://ehr.example/hook' });
+
+    try {
+      await queue.submit(buildInput(), { callbackUrl: 'https://169.254.169.254/latest' });
+      throw new Error('Expected a disallowed host to be rejected');
+    } catch (error) {
+      expect(error).toBeInstanceOf(JobQueueError);
+      expect((error as JobQueueError).context.code).toBe('callback-host-not-allowed');
+    }
+    await queue.drain();
+  });
+
+  it('sends the result only when configured and never follows redirects', async () => {
+    const bodies: string[] = [];
+    const queue = createInProcessJobQueue({
+      generateId: nextId,
+      runPipeline: async (input) => buildOutput(input),
+      callbacks: {
+        secret: 'shh',
+        allowedHosts: ['ehr.example'],
+        retryDelayMs: 0,
+        includeResult: true,
+        fetch: async (_url, init) => {
+          bodies.push(String(init.body));
+          return new Response(null, { status: 302, headers: { location: 'http://internal.example/' } });
+        },
+      },
+    });
+
+    const job = await queue.submit(buildInput(), { callbackUrl: 'https://ehr.example/moved' });
+    await queue.drain();
+
+    expect(bodies).toHaveLength(1);
+    expect((JSON.parse(bodies[0]) as JobCallbackPayload).output?.model).toBe('mock-gpt');
+    expect((await queue.get(job.id))?.callback).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      lastStatusCode: 302,
+      lastError: 'Callback redirected with HTTP 302; redirects are not followed',
+    });
+  });
+
+  it('persists job state through the filesystem store', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'note-jobs-'));
+    tempDirs.push(directory);
+
+    const queue = createInProcessJobQueue({
+      generateId: nextId,
+      store: createFileSystemJobStore({ directory }),
+      runPipeline: async (input) => buildOutput(input),
+    });
+
+    const job = await queue.submit(buildInput());
+    await queue.drain();
+
+    const reopened = createFileSystemJobStore({ directory });
+    expect((await reopened.get(job.id))?.status).toBe('succeeded');
+    expect(await reopened.get('missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Filesystem Job Store
+ *
+ * Domain: jobs/adapters
+ * Responsibility: Persist job state as one JSON file per job so status survives restarts.
+ *
+ * Writes go to a temporary file and are renamed into place so pollers never read partial state.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { FileSystemJobStoreOptions, NoteJob, NoteJobStore } from '../types';
+
+/**
+ * Create a job store rooted at the given directory (created on first write).
+ */
+export function createFileSystemJobStore(options: FileSystemJobStoreOptions): NoteJobStore {
+  const { directory } = options;
+  const jobPath = (id: string) => join(directory, `${encodeURIComponent(id)}.json`);
+
+  return {
+    async get(id) {
+      try {
+        return JSON.parse(await readFile(jobPath(id), 'utf8')) as NoteJob;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+
+    async put(job) {
+      await mkdir(directory, { recursive: true });
+      const target = jobPath(job.id);
+      const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(temp, JSON.stringify(job), 'utf8');
+      await rename(temp, target);
+    },
+  };
+}
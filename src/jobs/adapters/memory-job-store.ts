@@ -0,0 +1,30 @@
+/**
+ * In-Memory Job Store
+ *
+ * Domain: jobs/adapters
+ * Responsibility: Process-local NoteJobStore for tests and single-instance services.
+ */
+
+import type { NoteJob, NoteJobStore } from '../types';
+
+/**
+ * Create an in-memory job store. Jobs are cloned on read and write.
+ */
+export function createMemoryJobStore(): NoteJobStore {
+  const jobs = new Map<string, NoteJob>();
+
+  return {
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? cloneJob(job) : undefined;
+    },
+
+    async put(job) {
+      jobs.set(job.id, cloneJob(job));
+    },
+  };
+}
+
+function cloneJob(job: NoteJob): NoteJob {
+  return JSON.parse(JSON.stringify(job)) as NoteJob;
+}
@@ -0,0 +1,30 @@
+/**
+ * Jobs Domain Constants
+ *
+ * Domain: jobs
+ * Responsibility: Defaults and wire-format names for job execution and callbacks.
+ */
+
+/** Jobs allowed to run at once when no concurrency is configured */
+export const DEFAULT_JOB_CONCURRENCY = 2;
+
+/** Callback delivery attempts before giving up */
+export const DEFAULT_CALLBACK_MAX_ATTEMPTS = 3;
+
+/** Base callback retry delay (doubled per attempt) */
+export const DEFAULT_CALLBACK_RETRY_DELAY_MS = 1000;
+
+/** Per-attempt callback timeout */
+export const DEFAULT_CALLBACK_TIMEOUT_MS = 10000;
+
+/**
+ * Callback request headers.
+ * The signature header has the form `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ */
+export const CALLBACK_HEADERS = {
+	signature: 'x-note-signature',
+	jobId: 'x-note-job-id',
+} as const;
+
+/** Maximum accepted clock skew when verifying callback signatures */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
@@ -0,0 +1,142 @@
+/**
+ * Job Callback Delivery
+ *
+ * Domain: jobs/core
+ * Responsibility: POST signed completion payloads to caller callback URLs with
+ * bounded retries, recording each attempt on the job's callback state.
+ *
+ * SOR: Callbacks carry the job id and status only unless includeResult is set,
+ * and redirects are never followed (receivers fetch results from GET /jobs/:id).
+ * SOD: Signing lives in utils/signature; URL checks and persistence are left to the queue.
+ */
+
+import {
+  CALLBACK_HEADERS,
+  DEFAULT_CALLBACK_MAX_ATTEMPTS,
+  DEFAULT_CALLBACK_RETRY_DELAY_MS,
+  DEFAULT_CALLBACK_TIMEOUT_MS,
+} from '../constants';
+import type {
+  JobCallbackConfig,
+  JobCallbackPayload,
+  JobCallbackState,
+  NoteJob,
+} from '../types';
+import { signCallbackPayload } from '../utils/signature';
+
+/** Status codes that indicate the receiver may accept a later retry */
+const RETRYABLE_STATUS = new Set([408, 425, 429]);
+
+/**
+ * Build the callback body for a finished job.
+ *
+ * @param job - Finished job
+ * @param includeResult - Attach the PipelineOutput / error snapshot (contains PHI)
+ */
+export function buildCallbackPayload(job: NoteJob, includeResult = false): JobCallbackPayload {
+  const payload: JobCallbackPayload = {
+    jobId: job.id,
+    status: job.status === 'succeeded' ? 'succeeded' : 'failed',
+    template: job.template,
+    requestId: job.requestId,
+    finishedAt: job.finishedAt,
+  };
+  return includeResult ? { ...payload, output: job.result, error: job.error } : payload;
+}
+
+/**
+ * Deliver the callback for a finished job, returning the final callback state.
+ *
+ * @param job - Finished job with callback state
+ * @param config - Callback settings (secret, retries, fetch)
+ * @param onAttempt - Invoked after every attempt so the queue can persist progress
+ * @param now - Clock used for signature timestamps and deliveredAt
+ */
+export async function deliverJobCallback(
+  job: NoteJob,
+  config: JobCallbackConfig,
+  onAttempt: (state: JobCallbackState) => Promise<void>,
+  now: () => Date
+): Promise<JobCallbackState> {
+  if (!job.callback) {
+    throw new Error(`Job ${job.id} has no callback configured`);
+  }
+
+  const send = config.fetch ?? fetch;
+  const maxAttempts = Math.max(1, config.maxAttempts ?? DEFAULT_CALLBACK_MAX_ATTEMPTS);
+  const baseDelay = config.retryDelayMs ?? DEFAULT_CALLBACK_RETRY_DELAY_MS;
+  const timeoutMs = config.timeoutMs ?? DEFAULT_CALLBACK_TIMEOUT_MS;
+  const body = JSON.stringify(buildCallbackPayload(job, config.includeResult));
+
+  let state: JobCallbackState = { ...job.callback };
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    let retryable = true;
+
+    try {
+      const response = await send(state.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          [CALLBACK_HEADERS.jobId]: job.id,
+          // Re-sign per attempt so the timestamp stays inside the receiver's tolerance window.
+          [CALLBACK_HEADERS.signature]: signCallbackPayload(
+            body,
+            config.secret,
+            Math.floor(now().getTime() / 1000)
+          ),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+
+      if (response.ok) {
+        state = {
+          ...state,
+          status: 'delivered',
+          attempts: attempt,
+          lastStatusCode: response.status,
+          lastError: undefined,
+          deliveredAt: now().toISOString(),
+        };
+        await onAttempt(state);
+        return state;
+      }
+
+      retryable = response.status >= 500 || RETRYABLE_STATUS.has(response.status);
+      const redirected = response.status >= 300 && response.status < 400;
+      state = {
+        ...state,
+        attempts: attempt,
+        lastStatusCode: response.status,
+        lastError: redirected
+          ? `Callback redirected with HTTP ${response.status}; redirects are not followed`
+          : `Callback responded with HTTP ${response.status}`,
+      };
+    } catch (error) {
+      state = {
+        ...state,
+        attempts: attempt,
+        lastStatusCode: undefined,
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const finalAttempt = attempt === maxAttempts || !retryable;
+    if (finalAttempt) {
+      state = { ...state, status: 'failed' };
+      await onAttempt(state);
+      return state;
+    }
+
+    await onAttempt(state);
+    await delay(baseDelay * 2 ** (attempt - 1));
+  }
+
+  return state;
+}
+
+function delay(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,221 @@
+/**
+ * In-Process Job Queue
+ *
+ * Domain: jobs/core
+ * Responsibility: Run note generation jobs in the background with bounded
+ * concurrency, persisting each state transition and dispatching callbacks.
+ *
+ * SOR: The queue is the only writer of job state.
+ * SOD: Pipeline execution, callback delivery, and persistence are delegated.
+ * DI: Store, runner, clock, id generator, and callback settings are injected.
+ *
+ * Pipeline inputs are held in memory only, so queued jobs do not survive a restart;
+ * persisted state still lets pollers see the last known status.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { runPipeline, snapshotPipelineError } from '../../pipeline';
+import type { PipelineInput } from '../../pipeline';
+import { createMemoryJobStore } from '../adapters/memory-job-store';
+import { DEFAULT_JOB_CONCURRENCY } from '../constants';
+import { JobQueueError } from '../errors';
+import type {
+  InProcessJobQueueConfig,
+  JobCallbackConfig,
+  JobCallbackState,
+  NoteJob,
+  NoteJobQueue,
+  SubmitJobOptions,
+} from '../types';
+import { deliverJobCallback } from './callback-delivery';
+
+/**
+ * Create a job queue that executes jobs inside the current process.
+ */
+export function createInProcessJobQueue(config: InProcessJobQueueConfig = {}): NoteJobQueue {
+  const concurrency = resolveConcurrency(config.concurrency);
+  const store = config.store ?? createMemoryJobStore();
+  const run = config.runPipeline ?? runPipeline;
+  const now = config.now ?? (() => new Date());
+  const generateId = config.generateId ?? (() => randomUUID());
+
+  const pending: string[] = [];
+  const inputs = new Map<string, PipelineInput>();
+  const tasks = new Set<Promise<void>>();
+  let running = 0;
+  let idleWaiters: Array<() => void> = [];
+
+  const isIdle = () => pending.length === 0 && tasks.size === 0;
+
+  const track = (task: Promise<void>) => {
+    tasks.add(task);
+    task.finally(() => {
+      tasks.delete(task);
+      if (isIdle()) {
+        const waiters = idleWaiters;
+        idleWaiters = [];
+        waiters.forEach((resolve) => resolve());
+      }
+    });
+  };
+
+  const pump = () => {
+    while (running < concurrency && pending.length > 0) {
+      const id = pending.shift() as string;
+      running += 1;
+      track(
+        execute(id)
+          .catch((error) => {
+            console.warn(`[Jobs] Job ${id} could not be persisted:`, error);
+          })
+          .finally(() => {
+            running -= 1;
+            pump();
+          })
+      );
+    }
+  };
+
+  const execute = async (id: string) => {
+    const input = inputs.get(id);
+    inputs.delete(id);
+    const queued = await store.get(id);
+    if (!input || !queued) {
+      return;
+    }
+
+    const started: NoteJob = { ...queued, status: 'running', startedAt: now().toISOString() };
+    await store.put(started);
+
+    let finished: NoteJob;
+    try {
+      const output = await run({
+        ...input,
+        options: { ...input.options, requestId: input.options?.requestId ?? id },
+      });
+      finished = {
+        ...started,
+        status: 'succeeded',
+        finishedAt: now().toISOString(),
+        result: output,
+      };
+    } catch (error) {
+      finished = {
+        ...started,
+        status: 'failed',
+        finishedAt: now().toISOString(),
+        error: snapshotPipelineError(error),
+      };
+    }
+
+    await store.put(finished);
+
+    // Callbacks run outside the concurrency slot so slow receivers do not block generation.
+    if (finished.callback && config.callbacks) {
+      track(dispatchCallback(finished));
+    }
+  };
+
+  const dispatchCallback = async (job: NoteJob) => {
+    if (!config.callbacks) {
+      return;
+    }
+
+    const persist = async (callback: JobCallbackState) => {
+      await store.put({ ...job, callback });
+    };
+
+    try {
+      await deliverJobCallback(job, config.callbacks, persist, now);
+    } catch (error) {
+      console.warn(`[Jobs] Callback for job ${job.id} failed:`, error);
+    }
+  };
+
+  return {
+    async submit(input: PipelineInput, options: SubmitJobOptions = {}) {
+      const callbackUrl = options.callbackUrl;
+      if (callbackUrl !== undefined) {
+        assertCallbackUrl(callbackUrl, config.callbacks);
+      }
+
+      const job: NoteJob = {
+        id: generateId(),
+        status: 'queued',
+        template: {
+          id: input.template.id,
+          name: input.template.name,
+          version: input.template.version,
+        },
+        requestId: input.options?.requestId,
+        createdAt: now().toISOString(),
+        callback: callbackUrl ? { url: callbackUrl, status: 'pending', attempts: 0 } : undefined,
+      };
+
+      await store.put(job);
+      inputs.set(job.id, input);
+      pending.push(job.id);
+      pump();
+
+      return job;
+    },
+
+    get(id: string) {
+      return store.get(id);
+    },
+
+    drain() {
+      return isIdle() ? Promise.resolve() : new Promise((resolve) => idleWaiters.push(resolve));
+    },
+  };
+}
+
+/** Whole number of slots, at least 1; anything non-finite (e.g. NaN from env parsing) uses the default */
+function resolveConcurrency(concurrency: number | undefined): number {
+  if (concurrency === undefined || !Number.isFinite(concurrency)) {
+    return DEFAULT_JOB_CONCURRENCY;
+  }
+  return Math.max(1, Math.floor(concurrency));
+}
+
+function assertCallbackUrl(callbackUrl: string, callbacks: JobCallbackConfig | undefined): void {
+  if (!callbacks) {
+    throw new JobQueueError('Callbacks are disabled: no callback signing secret is configured', {
+      code: 'callbacks-disabled',
+      callbackUrl,
+    });
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(callbackUrl);
+  } catch {
+    throw new JobQueueError(`Invalid callback URL "${callbackUrl}"`, {
+      code: 'invalid-callback-url',
+      callbackUrl,
+    });
+  }
+
+  const insecureAllowed = parsed.protocol === 'http:' && callbacks.allowInsecureHttp;
+  if (parsed.protocol !== 'https:' && !insecureAllowed) {
+    throw new JobQueueError(`Callback URL must use https: "${callbackUrl}"`, {
+      code: 'invalid-callback-url',
+      callbackUrl,
+    });
+  }
+
+  if (!isAllowedHost(parsed.hostname, callbacks.allowedHosts ?? [])) {
+    throw new JobQueueError(`Callback host "${parsed.hostname}" is not in the allowed host list`, {
+      code: 'callback-host-not-allowed',
+      callbackUrl,
+    });
+  }
+}
+
+function isAllowedHost(hostname: string, allowedHosts: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return allowedHosts.some((entry) => {
+    const allowed = entry.trim().toLowerCase();
+    return allowed.startsWith('*.') ? host.endsWith(allowed.slice(1)) : host === allowed;
+  });
+}
@@ -0,0 +1,15 @@
+import type { JobQueueErrorContext } from './types';
+
+/**
+ * Error thrown when a job cannot be accepted.
+ */
+export class JobQueueError extends Error {
+  readonly context: JobQueueErrorContext;
+
+  /** Create a job queue error with machine-readable context. */
+  constructor(message: string, context: JobQueueErrorContext) {
+    super(message);
+    this.name = 'JobQueueError';
+    this.context = context;
+  }
+}
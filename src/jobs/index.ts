@@ -0,0 +1,63 @@
+/**
+ * Jobs Domain - Barrel Export
+ *
+ * Domain: jobs
+ * Responsibility: Asynchronous note generation with status polling and signed callbacks
+ *
+ * Usage:
+ * ```typescript
+ * import { createInProcessJobQueue } from './jobs';
+ *
+ * const queue = createInProcessJobQueue({
+ *   concurrency: 4,
+ *   callbacks: { secret: process.env.JOB_CALLBACK_SECRET!, allowedHosts: ['ehr.example.org'] },
+ * });
+ *
+ * const job = await queue.submit({ template, sourceData }, { callbackUrl });
+ * const status = await queue.get(job.id);
+ * ```
+ */
+
+// Core
+export { createInProcessJobQueue } from './core/job-queue';
+export { buildCallbackPayload, deliverJobCallback } from './core/callback-delivery';
+
+// Storage adapters
+export { createMemoryJobStore } from './adapters/memory-job-store';
+export { createFileSystemJobStore } from './adapters/filesystem-job-store';
+
+// Utilities
+export { signCallbackPayload, verifyCallbackSignature } from './utils/signature';
+
+// Constants
+export {
+  CALLBACK_HEADERS,
+  DEFAULT_JOB_CONCURRENCY,
+  DEFAULT_CALLBACK_MAX_ATTEMPTS,
+  DEFAULT_CALLBACK_RETRY_DELAY_MS,
+  DEFAULT_CALLBACK_TIMEOUT_MS,
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+} from './constants';
+
+// Errors
+export { JobQueueError } from './errors';
+
+// Types
+export type {
+  NoteJobStatus,
+  JobCallbackStatus,
+  JobCallbackState,
+  NoteJob,
+  NoteJobStore,
+  JobPipelineRunner,
+  JobCallbackFetch,
+  JobCallbackConfig,
+  InProcessJobQueueConfig,
+  SubmitJobOptions,
+  NoteJobQueue,
+  JobCallbackPayload,
+  JobQueueErrorCode,
+  JobQueueErrorContext,
+  FileSystemJobStoreOptions,
+  SignatureVerificationOptions,
+} from './types';
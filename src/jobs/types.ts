@@ -0,0 +1,216 @@
+/**
+ * Jobs Domain Types
+ *
+ * Types for asynchronous note generation jobs, their persistence, and callbacks.
+ */
+
+import type {
+	PipelineErrorSnapshot,
+	PipelineInput,
+	PipelineOutput,
+} from '../pipeline';
+import type { TemplateReference } from '../registry';
+
+/**
+ * Job lifecycle: queued -> running -> succeeded | failed
+ */
+export type NoteJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * Delivery state of a job's completion callback
+ */
+export type JobCallbackStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * Callback delivery bookkeeping stored on the job
+ */
+export interface JobCallbackState {
+	url: string;
+	status: JobCallbackStatus;
+	attempts: number;
+
+	/** HTTP status of the last attempt (absent on network failure) */
+	lastStatusCode?: number;
+
+	/** Error message from the last failed attempt */
+	lastError?: string;
+
+	/** ISO timestamp of successful delivery */
+	deliveredAt?: string;
+}
+
+/**
+ * Persisted job state. The PipelineInput itself is held in memory only.
+ */
+export interface NoteJob {
+	id: string;
+	status: NoteJobStatus;
+
+	/** Template that the job runs */
+	template: TemplateReference;
+
+	/** Caller-supplied correlation id (also forwarded as the pipeline requestId when unset) */
+	requestId?: string;
+
+	createdAt: string;
+	startedAt?: string;
+	finishedAt?: string;
+
+	/** Pipeline output when status === 'succeeded' */
+	result?: PipelineOutput;
+
+	/** Failure snapshot (including the failing PipelineError.step) when status === 'failed' */
+	error?: PipelineErrorSnapshot;
+
+	/** Present when a callback URL was supplied */
+	callback?: JobCallbackState;
+}
+
+/**
+ * Pluggable persistence for job state
+ */
+export interface NoteJobStore {
+	/** Fetch a job, or undefined when absent */
+	get(id: string): Promise<NoteJob | undefined>;
+
+	/** Insert or replace a job */
+	put(job: NoteJob): Promise<void>;
+}
+
+/**
+ * Runner signature (defaults to runPipeline)
+ */
+export type JobPipelineRunner = (input: PipelineInput) => Promise<PipelineOutput>;
+
+/**
+ * Fetch signature used for callback delivery (injectable for tests)
+ */
+export type JobCallbackFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Callback delivery settings
+ */
+export interface JobCallbackConfig {
+	/** Shared secret for HMAC-SHA256 signatures (required to accept callback URLs) */
+	secret: string;
+
+	/** Maximum delivery attempts (default: DEFAULT_CALLBACK_MAX_ATTEMPTS) */
+	maxAttempts?: number;
+
+	/** Base delay between attempts in ms, doubled each retry (default: DEFAULT_CALLBACK_RETRY_DELAY_MS) */
+	retryDelayMs?: number;
+
+	/** Per-attempt timeout in ms (default: DEFAULT_CALLBACK_TIMEOUT_MS) */
+	timeoutMs?: number;
+
+	/**
+	 * Hostnames callback URLs may target; `*.example.org` also matches subdomains.
+	 * Required so clients cannot point the server at arbitrary hosts; an empty list rejects every callback.
+	 */
+	allowedHosts: string[];
+
+	/** Accept plain http: callback URLs (local development only; default: false) */
+	allowInsecureHttp?: boolean;
+
+	/**
+	 * Include the PipelineOutput or error snapshot in the callback body (default: false).
+	 * Without it receivers fetch the result from GET /jobs/:id, so no PHI leaves in the callback.
+	 */
+	includeResult?: boolean;
+
+	/** Fetch override */
+	fetch?: JobCallbackFetch;
+}
+
+/**
+ * Configuration for the in-process job queue
+ */
+export interface InProcessJobQueueConfig {
+	/** Maximum jobs running at once (default: DEFAULT_JOB_CONCURRENCY) */
+	concurrency?: number;
+
+	/** Job state persistence (default: in-memory store) */
+	store?: NoteJobStore;
+
+	/** Pipeline runner override */
+	runPipeline?: JobPipelineRunner;
+
+	/** Callback delivery settings; callbacks are rejected when omitted */
+	callbacks?: JobCallbackConfig;
+
+	/** Clock override for deterministic timestamps */
+	now?: () => Date;
+
+	/** Job id generator override */
+	generateId?: () => string;
+}
+
+/**
+ * Per-submission options
+ */
+export interface SubmitJobOptions {
+	/** URL that receives a signed POST when the job finishes */
+	callbackUrl?: string;
+}
+
+/**
+ * Asynchronous note generation queue
+ */
+export interface NoteJobQueue {
+	/** Persist a queued job and schedule it; returns immediately */
+	submit(input: PipelineInput, options?: SubmitJobOptions): Promise<NoteJob>;
+
+	/** Current job state */
+	get(id: string): Promise<NoteJob | undefined>;
+
+	/** Resolve once no jobs are queued, running, or delivering callbacks */
+	drain(): Promise<void>;
+}
+
+/**
+ * Body POSTed to the callback URL
+ */
+export interface JobCallbackPayload {
+	jobId: string;
+	status: Extract<NoteJobStatus, 'succeeded' | 'failed'>;
+	template: TemplateReference;
+	requestId?: string;
+	finishedAt?: string;
+
+	/** Only with JobCallbackConfig.includeResult */
+	output?: PipelineOutput;
+	/** Only with JobCallbackConfig.includeResult */
+	error?: PipelineErrorSnapshot;
+}
+
+/**
+ * Machine-readable job submission failure codes
+ */
+export type JobQueueErrorCode = 'callbacks-disabled' | 'invalid-callback-url' | 'callback-host-not-allowed';
+
+/**
+ * Structured context attached to JobQueueError
+ */
+export interface JobQueueErrorContext {
+	code: JobQueueErrorCode;
+	callbackUrl?: string;
+}
+
+/**
+ * Options for the filesystem job store
+ */
+export interface FileSystemJobStoreOptions {
+	/** Directory holding one JSON file per job */
+	directory: string;
+}
+
+/**
+ * Options for verifyCallbackSignature
+ */
+export interface SignatureVerificationOptions {
+	/** Current time in unix seconds (default: now) */
+	nowSeconds?: number;
+
+	/** Accepted clock skew (default: DEFAULT_SIGNATURE_TOLERANCE_SECONDS) */
+	toleranceSeconds?: number;
+}
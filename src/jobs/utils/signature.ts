@@ -0,0 +1,65 @@
+/**
+ * Job Callback Signatures
+ *
+ * Domain: jobs/utils
+ * Responsibility: Sign and verify callback bodies with HMAC-SHA256.
+ *
+ * The signed message is `<timestamp>.<raw body>` so receivers can reject
+ * replays outside a tolerance window.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { DEFAULT_SIGNATURE_TOLERANCE_SECONDS } from '../constants';
+import type { SignatureVerificationOptions } from '../types';
+
+/**
+ * Build the signature header value for a callback body.
+ */
+export function signCallbackPayload(
+  body: string,
+  secret: string,
+  timestampSeconds: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestampSeconds},v1=${computeDigest(body, secret, timestampSeconds)}`;
+}
+
+/**
+ * Verify a signature header against the raw body. Receivers should call this before parsing JSON.
+ */
+export function verifyCallbackSignature(
+  body: string,
+  header: string | null | undefined,
+  secret: string,
+  options: SignatureVerificationOptions = {}
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  const parts = new Map(
+    header.split(',').map((part) => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')] as const;
+    })
+  );
+
+  const timestamp = Number(parts.get('t'));
+  const digest = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !digest) {
+    return false;
+  }
+
+  const now = options.nowSeconds ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  if (Math.abs(now - timestamp) > tolerance) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeDigest(body, secret, timestamp), 'hex');
+  const received = Buffer.from(digest, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function computeDigest(body: string, secret: string, timestampSeconds: number): string {
+  return createHmac('sha256', secret).update(`${timestampSeconds}.${body}`).digest('hex');
+}
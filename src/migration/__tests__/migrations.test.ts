@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'bun:test';
+import type { ContentItem, NoteTemplate } from '../../derivation/types';
+import { runPipeline } from '../../pipeline';
+import { createMemoryTemplateStorage, createTemplateRegistry, deriveTemplateSchemas, TemplateRegistryError } from '../../registry';
+import { validateNoteTemplate } from '../../validation';
+import {
+  createMigrationRegistry,
+  CURRENT_TEMPLATE_SCHEMA_VERSION,
+  TemplateMigrationError,
+  upgradeOnLoad,
+  upgradeTemplate,
+} from '..';
+import type { TemplateMigration, TemplateMigrationErrorCode } from '..';
+
+function buildLegacyTemplate(): NoteTemplate {
+  // Keyed tableMaps are only valid before schemaVersion 2, so the current types reject them
+  const keyedTableMap = {
+    code: { id: 'dx-code', slot: 'ai', outputPath: 'dx.rows[].code', aiDeps: ['patient.name'] },
+    description: { slot: 'ai', outputPath: 'dx.rows[].description', aiDeps: ['patient.name'] },
+  } as unknown as ContentItem[];
+
+  return {
+    id: 'legacy-note',
+    name: 'Legacy Note',
+    version: '1.0.0',
+    style: { font: 'Inter', color: '#111111', accent: '#3366FF', spacing: 8 },
+    prompt: { system: 'You are a clinical assistant.', main: 'Write the note.' },
+    layout: [
+      {
+        id: 'header',
+        type: 'header',
+        children: [
+          {
+            id: 'patient-info',
+            type: 'patientBlock',
+            title: 'PATIENT',
+            content: [{ id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' }],
+          },
+        ],
+      },
+      {
+        id: 'diagnoses',
+        type: 'table',
+        props: { columns: ['Code', 'Description'] },
+        content: [
+          {
+            id: 'diagnosis-rows',
+            slot: 'ai',
+            outputPath: 'dx.rows[]',
+            aiDeps: ['patient.name'],
+            tableMap: keyedTableMap,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function expectMigrationError(run: () => unknown, code: TemplateMigrationErrorCode): void {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(TemplateMigrationError);
+    expect((error as TemplateMigrationError).context.code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected TemplateMigrationError with code ${code}`);
+}
+
+describe('template migrations', () => {
+  it('converts keyed tableMaps, which schemaVersion 2 rejects, to arrays', () => {
+    const legacy = buildLegacyTemplate();
+    expect(validateNoteTemplate({ ...legacy, schemaVersion: 1 }).ok).toBe(true);
+    expect(validateNoteTemplate({ ...legacy, schemaVersion: 2 }).ok).toBe(false);
+
+    const { template, report } = upgradeTemplate(legacy);
+
+    expect(template.schemaVersion).toBe(CURRENT_TEMPLATE_SCHEMA_VERSION);
+    expect(report).toMatchObject({ fromVersion: 1, toVersion: 2, applied: ['table-map-array'] });
+    expect(template.layout[1].content?.[0].tableMap?.map(cell => cell.id)).toEqual(['dx-code', 'description']);
+    expect(report.changes).toEqual([
+      {
+        migration: 'table-map-array',
+        path: 'layout[1].content[0].tableMap',
+        message: 'Converted keyed tableMap (code, description) to an array',
+      },
+    ]);
+    expect(validateNoteTemplate(template).ok).toBe(true);
+    expect(legacy.layout[1].content?.[0].tableMap).not.toBeArray();
+  });
+
+  it('reports planned changes without upgrading in a dry run and leaves current templates alone', () => {
+    const legacy = buildLegacyTemplate();
+    const { template, report } = upgradeTemplate(legacy, { dryRun: true });
+
+    expect(template).toBe(legacy);
+    expect(report.dryRun).toBe(true);
+    expect(report.changes).toHaveLength(1);
+
+    const current = upgradeTemplate(legacy).template;
+    const again = upgradeTemplate(current);
+    expect(again.template).toBe(current);
+    expect(again.report.applied).toEqual([]);
+
+    // Unversioned templates without legacy constructs load as-is instead of being copied and re-stamped
+    const unversioned = upgradeTemplate(legacy).template;
+    delete unversioned.schemaVersion;
+    expect(upgradeOnLoad(unversioned)).toBe(unversioned);
+    expect(upgradeOnLoad(legacy)).not.toBe(legacy);
+  });
+
+  it('rejects unsupported versions and malformed migration chains', () => {
+    expectMigrationError(() => upgradeTemplate({ ...buildLegacyTemplate(), schemaVersion: 3 }), 'unsupported-version');
+    expectMigrationError(() => upgradeTemplate({ ...buildLegacyTemplate(), schemaVersion: 1.5 }), 'invalid-version');
+    expect(validateNoteTemplate({ ...upgradeTemplate(buildLegacyTemplate()).template, schemaVersion: 3 }).ok).toBe(false);
+
+    const skip: TemplateMigration = { id: 'skip', from: 2, to: 3, description: 'Gap', migrate: template => template };
+    expectMigrationError(() => createMigrationRegistry([skip]), 'invalid-chain');
+
+    const rename: TemplateMigration = {
+      id: 'rename',
+      from: 1,
+      to: 2,
+      description: 'Rename the template',
+      migrate: (template, context) => {
+        context.report('name', 'Renamed');
+        return { ...template, name: `${template.name} (v2)` };
+      },
+    };
+    const registry = createMigrationRegistry([rename]);
+    expect(registry.latestVersion).toBe(2);
+    expect(registry.migrate(buildLegacyTemplate()).template.name).toBe('Legacy Note (v2)');
+  });
+
+  it('surfaces failing migrations while leaving unsupported versions to validation', async () => {
+    const broken = buildLegacyTemplate();
+    broken.layout[1].content![0].tableMap = { code: null } as unknown as ContentItem[];
+
+    expectMigrationError(() => upgradeOnLoad(broken), 'migration-failed');
+    const newer = { ...buildLegacyTemplate(), schemaVersion: 3 };
+    expect(upgradeOnLoad(newer)).toBe(newer);
+    expect(validateNoteTemplate(broken).ok).toBe(false);
+
+    const publish = createTemplateRegistry({ storage: createMemoryTemplateStorage() }).publish(broken);
+    await expect(publish).rejects.toBeInstanceOf(TemplateRegistryError);
+    await expect(publish).rejects.toMatchObject({ context: { code: 'migration-failed' } });
+    await expect(runPipeline({ template: broken, sourceData: {} })).rejects.toMatchObject({
+      step: 'template-migration',
+      cause: { code: 'migration-failed', migrationId: 'table-map-array' },
+    });
+  });
+
+  it('upgrades templates on publish and on read in the registry', async () => {
+    const storage = createMemoryTemplateStorage();
+    const registry = createTemplateRegistry({ storage });
+
+    const published = await registry.publish(buildLegacyTemplate());
+    expect(published.template.schemaVersion).toBe(CURRENT_TEMPLATE_SCHEMA_VERSION);
+
+    // A version stored before the schema moved on is upgraded when read, not rewritten
+    const legacy = { ...buildLegacyTemplate(), version: '0.9.0' };
+    await storage.put({
+      id: legacy.id,
+      version: legacy.version,
+      status: 'published',
+      template: legacy,
+      schemas: deriveTemplateSchemas(upgradeTemplate(legacy).template),
+      publishedAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    const resolved = await registry.resolve('legacy-note', '0.9.0');
+    expect(Array.isArray(resolved.template.layout[1].content?.[0].tableMap)).toBe(true);
+    expect((await storage.get('legacy-note', '0.9.0'))?.template.schemaVersion).toBeUndefined();
+  });
+});
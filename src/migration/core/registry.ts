@@ -0,0 +1,120 @@
+/**
+ * Template Migration Registry
+ *
+ * Domain: migration/core
+ * Responsibility: Detect a template's schema version and run the ordered
+ * migrations that bring it up to date.
+ *
+ * SOR: Templates without `schemaVersion` predate versioning and are version 1.
+ * Each step runs on a private copy and stamps `schemaVersion` when it finishes.
+ * DI: The migration chain is injected; the built-in chain is the default.
+ */
+
+import type { NoteTemplate } from '../../derivation/types';
+import { TemplateMigrationError } from '../errors';
+import { TEMPLATE_MIGRATIONS } from '../migrations';
+import type {
+  MigrateTemplateOptions,
+  MigrationReport,
+  MigrationResult,
+  TemplateMigration,
+  TemplateMigrationRegistry,
+} from '../types';
+
+/**
+ * Create a registry over a contiguous migration chain (1 -> 2 -> ... -> n).
+ *
+ * @throws {TemplateMigrationError} When the chain has gaps, duplicates, or multi-version steps;
+ * migrate() throws on invalid or unsupported versions and wraps failing steps as migration-failed
+ */
+export function createMigrationRegistry(
+  migrations: readonly TemplateMigration[] = TEMPLATE_MIGRATIONS
+): TemplateMigrationRegistry {
+  const chain = [...migrations].sort((a, b) => a.from - b.from);
+  chain.forEach((migration, index) => {
+    if (migration.from !== index + 1 || migration.to !== migration.from + 1) {
+      throw new TemplateMigrationError(
+        `Migration ${migration.id} (${migration.from} -> ${migration.to}) does not continue the chain at version ${index + 1}`,
+        { code: 'invalid-chain', migrationId: migration.id }
+      );
+    }
+  });
+
+  const latestVersion = chain.length + 1;
+
+  const detectVersion = (template: NoteTemplate): number => {
+    const version: unknown = template.schemaVersion;
+    if (version === undefined) {
+      return 1;
+    }
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      throw new TemplateMigrationError(`Template ${template.id} has an invalid schemaVersion`, {
+        code: 'invalid-version',
+        templateId: template.id,
+        version,
+      });
+    }
+    return version;
+  };
+
+  return {
+    latestVersion,
+    detectVersion,
+
+    list() {
+      return [...chain];
+    },
+
+    migrate(template: NoteTemplate, options: MigrateTemplateOptions = {}): MigrationResult {
+      const fromVersion = detectVersion(template);
+      const targetVersion = options.targetVersion ?? latestVersion;
+      const dryRun = options.dryRun ?? false;
+
+      if (fromVersion > latestVersion || targetVersion > latestVersion) {
+        throw new TemplateMigrationError(
+          `Template ${template.id} uses schemaVersion ${Math.max(fromVersion, targetVersion)}; this build supports up to ${latestVersion}`,
+          { code: 'unsupported-version', templateId: template.id, version: Math.max(fromVersion, targetVersion) }
+        );
+      }
+
+      const report: MigrationReport = {
+        templateId: template.id,
+        fromVersion,
+        toVersion: fromVersion,
+        applied: [],
+        changes: [],
+        dryRun,
+      };
+      if (fromVersion >= targetVersion) {
+        return { template, report };
+      }
+
+      let upgraded = JSON.parse(JSON.stringify(template)) as NoteTemplate;
+      for (const migration of chain.slice(fromVersion - 1, targetVersion - 1)) {
+        upgraded = runMigration(migration, upgraded, report);
+        upgraded.schemaVersion = migration.to;
+        report.applied.push(migration.id);
+      }
+      report.toVersion = targetVersion;
+
+      return { template: dryRun ? template : upgraded, report };
+    },
+  };
+}
+
+function runMigration(migration: TemplateMigration, template: NoteTemplate, report: MigrationReport): NoteTemplate {
+  try {
+    return migration.migrate(template, {
+      report: (path, message) => report.changes.push({ migration: migration.id, path, message }),
+    });
+  } catch (error) {
+    const cause = error instanceof Error ? error.message : String(error);
+    throw new TemplateMigrationError(`Migration ${migration.id} failed for template ${template.id}: ${cause}`, {
+      code: 'migration-failed',
+      templateId: template.id,
+      version: migration.from,
+      migrationId: migration.id,
+      cause,
+    });
+  }
+}
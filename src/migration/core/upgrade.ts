@@ -0,0 +1,62 @@
+/**
+ * Template Upgrade
+ *
+ * Domain: migration/core
+ * Responsibility: Upgrade-on-load entry point shared by the validator,
+ * registry, and pipeline, backed by the built-in migration chain.
+ */
+
+import type { NoteTemplate } from '../../derivation/types';
+import { TemplateMigrationError } from '../errors';
+import type { MigrateTemplateOptions, MigrationResult, TemplateMigrationRegistry } from '../types';
+import { createMigrationRegistry } from './registry';
+
+/** Registry over the built-in migrations */
+export const defaultMigrationRegistry: TemplateMigrationRegistry = createMigrationRegistry();
+
+/** Schema version templates are upgraded to */
+export const CURRENT_TEMPLATE_SCHEMA_VERSION = defaultMigrationRegistry.latestVersion;
+
+/**
+ * Upgrade a template to the current schema version with the built-in migrations.
+ *
+ * @param template - Template as stored or received
+ * @param options - Dry run or an earlier target version
+ * @returns Upgraded template (the input itself when already current) and the migration report
+ * @throws {TemplateMigrationError} When the template's schemaVersion is invalid or newer than supported
+ */
+export function upgradeTemplate(template: NoteTemplate, options?: MigrateTemplateOptions): MigrationResult {
+  return defaultMigrationRegistry.migrate(template, options);
+}
+
+/**
+ * Upgrade-on-load for untrusted or stored templates: template-shaped input
+ * with a supported schemaVersion is upgraded. Non-templates and invalid or
+ * newer-than-supported versions are returned unchanged so schema validation
+ * can report the problem. Templates the migrations leave untouched come back
+ * as the same object, so loading a current template never copies or re-stamps it.
+ *
+ * @throws {TemplateMigrationError} migration-failed when a migration step throws
+ */
+export function upgradeOnLoad<T>(template: T): T {
+  if (!template || typeof template !== 'object' || !Array.isArray((template as { layout?: unknown }).layout)) {
+    return template;
+  }
+
+  try {
+    const { template: upgraded, report } = upgradeTemplate(template as unknown as NoteTemplate);
+    return report.changes.length > 0 ? (upgraded as unknown as T) : template;
+  } catch (error) {
+    if (error instanceof TemplateMigrationError && error.context.code !== 'migration-failed') {
+      return template;
+    }
+    throw error;
+  }
+}
+
+/**
+ * True when a template is written against an older schema version.
+ */
+export function needsUpgrade(template: NoteTemplate): boolean {
+  return defaultMigrationRegistry.detectVersion(template) < CURRENT_TEMPLATE_SCHEMA_VERSION;
+}
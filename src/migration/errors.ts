@@ -0,0 +1,15 @@
+import type { TemplateMigrationErrorContext } from './types';
+
+/**
+ * Error thrown when a template cannot be migrated or the migration chain is malformed.
+ */
+export class TemplateMigrationError extends Error {
+  readonly context: TemplateMigrationErrorContext;
+
+  /** Create a migration error with machine-readable context. */
+  constructor(message: string, context: TemplateMigrationErrorContext) {
+    super(message);
+    this.name = 'TemplateMigrationError';
+    this.context = context;
+  }
+}
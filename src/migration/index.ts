@@ -0,0 +1,50 @@
+/**
+ * Migration Domain - Barrel Export
+ *
+ * Domain: migration
+ * Responsibility: Upgrade stored templates to the current note-template schema version
+ *
+ * Usage:
+ * ```typescript
+ * import { upgradeTemplate } from './migration';
+ *
+ * const { report } = upgradeTemplate(legacyTemplate, { dryRun: true });
+ * report.changes; // [{ migration: 'table-map-array', path: 'layout[2].content[0].tableMap', message: '...' }]
+ *
+ * const { template } = upgradeTemplate(legacyTemplate);
+ * template.schemaVersion; // CURRENT_TEMPLATE_SCHEMA_VERSION
+ * ```
+ */
+
+// Core
+export { createMigrationRegistry } from './core/registry';
+export {
+  CURRENT_TEMPLATE_SCHEMA_VERSION,
+  defaultMigrationRegistry,
+  needsUpgrade,
+  upgradeOnLoad,
+  upgradeTemplate,
+} from './core/upgrade';
+
+// Migrations
+export { TEMPLATE_MIGRATIONS } from './migrations';
+export { tableMapArrayMigration } from './migrations/table-map-array';
+
+// Utilities
+export { forEachComponent, forEachContentItem } from './utils/walk';
+
+// Errors
+export { TemplateMigrationError } from './errors';
+
+// Types
+export type {
+  MigrateTemplateOptions,
+  MigrationChange,
+  MigrationReport,
+  MigrationResult,
+  TemplateMigration,
+  TemplateMigrationContext,
+  TemplateMigrationErrorCode,
+  TemplateMigrationErrorContext,
+  TemplateMigrationRegistry,
+} from './types';
@@ -0,0 +1,13 @@
+/**
+ * Built-in Template Migrations
+ *
+ * Domain: migration/migrations
+ * Responsibility: The ordered migration chain shipped with this schema.
+ * Append new steps here (each `from` equals the previous `to`) and bump
+ * `schemaVersion.maximum` in note-template.schema.json to match.
+ */
+
+import type { TemplateMigration } from '../types';
+import { tableMapArrayMigration } from './table-map-array';
+
+export const TEMPLATE_MIGRATIONS: readonly TemplateMigration[] = [tableMapArrayMigration];
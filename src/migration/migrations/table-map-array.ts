@@ -0,0 +1,40 @@
+/**
+ * Migration 1 -> 2: tableMap array form
+ *
+ * Domain: migration/migrations
+ * Responsibility: Convert legacy keyed `tableMap` objects to the array form
+ * schemaVersion 2 requires, keeping the key order renderers used to read.
+ *
+ * Version 1 templates could map columns with `{ "code": {...}, "text": {...} }`;
+ * since version 2 the schema, ContentItem type, and every reader accept only
+ * cells listed in `props.columns` order.
+ */
+
+import type { ContentItem } from '../../derivation/types';
+import type { TemplateMigration } from '../types';
+import { forEachContentItem } from '../utils/walk';
+
+type KeyedTableMap = Record<string, ContentItem>;
+
+export const tableMapArrayMigration: TemplateMigration = {
+  id: 'table-map-array',
+  from: 1,
+  to: 2,
+  description: 'Convert keyed tableMap objects to arrays in column order',
+
+  migrate(template, context) {
+    forEachContentItem(template.layout, (item, path) => {
+      const tableMap: unknown = item.tableMap;
+      if (!tableMap || typeof tableMap !== 'object' || Array.isArray(tableMap)) {
+        return;
+      }
+
+      // Keys fill in missing cell ids
+      const keyed = tableMap as KeyedTableMap;
+      item.tableMap = Object.entries(keyed).map(([key, cell]) => (cell.id ? cell : { ...cell, id: key }));
+      context.report(`${path}.tableMap`, `Converted keyed tableMap (${Object.keys(keyed).join(', ')}) to an array`);
+    });
+
+    return template;
+  },
+};
@@ -0,0 +1,104 @@
+/**
+ * Migration Domain Types
+ *
+ * Ordered transforms that upgrade stored templates to the current
+ * note-template schema version, with reports of what each one changed.
+ */
+
+import type { NoteTemplate } from '../derivation/types';
+
+/**
+ * Collects the changes a migration makes
+ */
+export interface TemplateMigrationContext {
+  /** Record one change at a template location such as `layout[1].content[0].tableMap` */
+  report(path: string, message: string): void;
+}
+
+/**
+ * One schema-version step
+ */
+export interface TemplateMigration {
+  id: string;
+  from: number;
+  to: number;              // Always from + 1
+  description: string;
+
+  /** Upgrade a private copy of the template (mutating it is fine) and return it */
+  migrate(template: NoteTemplate, context: TemplateMigrationContext): NoteTemplate;
+}
+
+/**
+ * Single change made (or, in a dry run, planned) by a migration
+ */
+export interface MigrationChange {
+  migration: string;
+  path: string;
+  message: string;
+}
+
+/**
+ * What migrating one template did
+ */
+export interface MigrationReport {
+  templateId: string;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[];       // Migration ids in the order they ran
+  changes: MigrationChange[];
+  dryRun: boolean;
+}
+
+/**
+ * Result of migrating a template
+ */
+export interface MigrationResult {
+  /** Upgraded template, or the untouched input for dry runs and current templates */
+  template: NoteTemplate;
+  report: MigrationReport;
+}
+
+/**
+ * Options for TemplateMigrationRegistry.migrate
+ */
+export interface MigrateTemplateOptions {
+  /** Report the changes without returning an upgraded template (default: false) */
+  dryRun?: boolean;
+
+  /** Stop at this schema version (default: the registry's latest) */
+  targetVersion?: number;
+}
+
+/**
+ * Ordered set of migrations covering schema versions 1..latestVersion
+ */
+export interface TemplateMigrationRegistry {
+  readonly latestVersion: number;
+
+  /** Schema version a template was written against */
+  detectVersion(template: NoteTemplate): number;
+
+  /** Migrations in the order they apply */
+  list(): TemplateMigration[];
+
+  /** Upgrade a template through every migration between its version and the target */
+  migrate(template: NoteTemplate, options?: MigrateTemplateOptions): MigrationResult;
+}
+
+/**
+ * Machine-readable migration failure codes
+ */
+export type TemplateMigrationErrorCode = 'invalid-version' | 'unsupported-version' | 'invalid-chain' | 'migration-failed';
+
+/**
+ * Structured context attached to TemplateMigrationError
+ */
+export interface TemplateMigrationErrorContext {
+  code: TemplateMigrationErrorCode;
+  templateId?: string;
+  version?: unknown;
+  migrationId?: string;
+
+  /** Underlying error message when code === 'migration-failed' */
+  cause?: string;
+}
@@ -0,0 +1,48 @@
+/**
+ * Migration Walk Utilities
+ *
+ * Domain: migration/utils
+ * Responsibility: Visit template components and content items together with
+ * the location strings migrations use in their reports.
+ */
+
+import type { Component, ContentItem } from '../../derivation/types';
+
+/**
+ * Visit every component depth-first; `path` looks like `layout[0].children[2]`.
+ */
+export function forEachComponent(
+  layout: Component[] | undefined,
+  visit: (component: Component, path: string) => void,
+  prefix = 'layout'
+): void {
+  (layout ?? []).forEach((component, index) => {
+    if (!component || typeof component !== 'object') return;
+    const path = `${prefix}[${index}]`;
+    visit(component, path);
+    forEachComponent(component.children, visit, `${path}.children`);
+  });
+}
+
+/**
+ * Visit every content item, including list items and table cells, with its owning component.
+ */
+export function forEachContentItem(
+  layout: Component[] | undefined,
+  visit: (item: ContentItem, path: string, component: Component) => void
+): void {
+  forEachComponent(layout, (component, componentPath) => {
+    const walkItems = (items: ContentItem[] | undefined, prefix: string) => {
+      (items ?? []).forEach((item, index) => {
+        if (!item || typeof item !== 'object') return;
+        const path = `${prefix}[${index}]`;
+        visit(item, path, component);
+        walkItems(item.listItems, `${path}.listItems`);
+        if (Array.isArray(item.tableMap)) {
+          walkItems(item.tableMap, `${path}.tableMap`);
+        }
+      });
+    };
+    walkItems(component.content, `${componentPath}.content`);
+  });
+}
@@ -0,0 +1,107 @@
+/**
+ * Path Engine Tests
+ *
+ * Domain: paths/__tests__
+ * Responsibility: Assert compiled paths read, write, and project consistently.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { compilePath, formatPath, getByPath, hasPath, PathError, setByPath } from '../index';
+
+const source = {
+  patient: { name: 'Casey', tags: ['a', 'b'] },
+  diagnoses: [
+    { code: 'F33.1', primary: true, system: { name: 'icd10' } },
+    { code: 'F41.1', primary: false, system: { name: 'icd10' } },
+    { code: 'Z63.0', system: { name: 'other' } },
+  ],
+  goals: [
+    { title: 'Sleep', objectives: [{ text: 'Log sleep' }, { text: 'No screens' }] },
+    { title: 'Mood', objectives: [{ text: 'Activation' }] },
+  ],
+};
+
+describe('compilePath', () => {
+  it('compiles keys, indexes, wildcards, and predicates', () => {
+    const compiled = compilePath("diagnoses[?system.name == 'icd10'].code");
+    expect(compiled.depth).toBe(1);
+    expect(compiled.steps[1]).toEqual({
+      kind: 'filter',
+      predicate: { field: ['system', 'name'], operator: '==', value: 'icd10' },
+    });
+    expect(formatPath(compilePath('goals[0].objectives[].text').steps)).toBe('goals[0].objectives[].text');
+  });
+
+  it('rejects malformed paths with a position', () => {
+    for (const path of ['', 'a..b', 'a[', 'a[x]', 'a[?]', '1abc', 'a.b c', "a[?!b == 'x']"]) {
+      expect(() => compilePath(path)).toThrow(PathError);
+    }
+    const error = (() => {
+      try {
+        compilePath('plan..text');
+      } catch (caught) {
+        return caught;
+      }
+      return undefined;
+    })();
+    expect((error as PathError).context).toEqual({ code: 'path-syntax', path: 'plan..text', position: 5 });
+  });
+});
+
+describe('getByPath', () => {
+  it('reads keys and indexes without reaching into arrays implicitly', () => {
+    expect(getByPath(source, 'patient.name')).toBe('Casey');
+    expect(getByPath(source, 'diagnoses[1].code')).toBe('F41.1');
+    expect(getByPath(source, 'diagnoses.code')).toBeUndefined();
+    expect(getByPath(source, 'patient.missing.deeper')).toBeUndefined();
+    expect(getByPath(null, 'patient')).toBeUndefined();
+  });
+
+  it('projects through wildcards and predicates, one list level per fan-out step', () => {
+    expect(getByPath(source, 'diagnoses[].code')).toEqual(['F33.1', 'F41.1', 'Z63.0']);
+    expect(getByPath(source, 'diagnoses[?primary].code')).toEqual(['F33.1']);
+    expect(getByPath(source, 'diagnoses[?!primary].code')).toEqual(['F41.1', 'Z63.0']);
+    expect(getByPath(source, "diagnoses[?system.name != 'icd10'].code")).toEqual(['Z63.0']);
+    expect(getByPath(source, 'goals[].objectives[].text')).toEqual([['Log sleep', 'No screens'], ['Activation']]);
+    expect(getByPath(source, 'patient.tags[]')).toEqual(['a', 'b']);
+  });
+
+  it('reports presence for scalar and fan-out paths', () => {
+    expect(hasPath(source, 'patient.name')).toBe(true);
+    expect(hasPath(source, 'diagnoses[].missing')).toBe(false);
+    expect(hasPath(source, 'goals[].objectives[].text')).toBe(true);
+  });
+});
+
+describe('setByPath', () => {
+  it('creates containers and merges into existing values', () => {
+    const target: Record<string, unknown> = {};
+    setByPath(target, 'header.patient.name', 'Casey');
+    setByPath(target, 'header.patient', { dob: '02/11/1991' });
+    setByPath(target, 'plan.tasks[1].summary', 'Second');
+
+    expect(target).toEqual({
+      header: { patient: { name: 'Casey', dob: '02/11/1991' } },
+      plan: { tasks: [undefined, { summary: 'Second' }] },
+    });
+  });
+
+  it('distributes lists across wildcard steps so reads round-trip', () => {
+    const target: Record<string, unknown> = {};
+    setByPath(target, 'dx.rows[].code', getByPath(source, 'diagnoses[].code'));
+    setByPath(target, 'dx.rows[].primary', [true, false]);
+    setByPath(target, 'plan.goals[].objectives[].text', getByPath(source, 'goals[].objectives[].text'));
+
+    expect(getByPath(target, 'dx.rows')).toEqual([
+      { code: 'F33.1', primary: true },
+      { code: 'F41.1', primary: false },
+      { code: 'Z63.0' },
+    ]);
+    expect(getByPath(target, 'plan.goals[].objectives[].text')).toEqual(getByPath(source, 'goals[].objectives[].text'));
+  });
+
+  it('refuses to write through predicates or spread a non-list', () => {
+    expect(() => setByPath({}, 'diagnoses[?primary].code', 'X')).toThrow('Cannot write through predicate');
+    expect(() => setByPath({}, 'rows[].code', 'X')).toThrow('Expected a list for "rows[]"');
+  });
+});
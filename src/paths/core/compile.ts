@@ -0,0 +1,205 @@
+/**
+ * Paths Domain - Compiler
+ *
+ * Domain: paths/core
+ * Responsibility: Parse path strings into reusable step lists.
+ *
+ * Grammar:
+ *   path      := key accessor* ('.' key accessor*)*
+ *   key       := [A-Za-z_$][A-Za-z0-9_$-]*
+ *   accessor  := '[]' | '[' digits ']' | '[?' predicate ']'
+ *   predicate := '!'? field (('==' | '!=') literal)?
+ *   field     := key ('.' key)*
+ *   literal   := 'text' | "text" | number | true | false | null
+ */
+
+import { PathError } from '../errors';
+import type { CompiledPath, PathLiteral, PathPredicate, PathStep } from '../types';
+
+const KEY = /[A-Za-z_$][\w$-]*/y;
+const PREDICATE = /^(!)?\s*([A-Za-z_$][\w$-]*(?:\.[A-Za-z_$][\w$-]*)*)\s*(?:(==|!=)\s*([\s\S]+?))?\s*$/;
+
+/**
+ * Cache compiled paths; templates reuse the same paths for every note.
+ */
+const pathCache = new Map<string, CompiledPath>();
+
+/**
+ * Compile a path such as `diagnoses[?primary].code` or `plan.goals[].objectives[0].text`.
+ *
+ * @param path - Path text
+ * @returns Compiled steps and fan-out depth
+ * @throws PathError when the path is malformed
+ */
+export function compilePath(path: string): CompiledPath {
+  const cached = pathCache.get(path);
+  if (cached) {
+    return cached;
+  }
+
+  const steps = parseSteps(path);
+  const compiled: CompiledPath = {
+    source: path,
+    steps,
+    depth: steps.filter(step => step.kind === 'wildcard' || step.kind === 'filter').length,
+  };
+  pathCache.set(path, compiled);
+  return compiled;
+}
+
+/**
+ * True when the path compiles.
+ */
+export function isValidPath(path: string): boolean {
+  try {
+    compilePath(path);
+    return true;
+  } catch (error) {
+    if (error instanceof PathError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Render steps back to path text (predicates are normalized).
+ */
+export function formatPath(steps: PathStep[]): string {
+  return steps
+    .map((step, index) => {
+      switch (step.kind) {
+        case 'key':
+          return index === 0 ? step.key : `.${step.key}`;
+        case 'index':
+          return `[${step.index}]`;
+        case 'wildcard':
+          return '[]';
+        default:
+          return `[?${formatPredicate(step.predicate)}]`;
+      }
+    })
+    .join('');
+}
+
+function parseSteps(path: string): PathStep[] {
+  if (typeof path !== 'string' || path.length === 0) {
+    throw new PathError('Path must be a non-empty string', { code: 'path-syntax', path: String(path) });
+  }
+
+  const steps: PathStep[] = [];
+  let position = 0;
+
+  while (position < path.length) {
+    if (steps.length > 0) {
+      if (path[position] !== '.') {
+        throw syntaxError(path, position, `expected "." or "[" but found "${path[position]}"`);
+      }
+      position++;
+    }
+
+    KEY.lastIndex = position;
+    const key = KEY.exec(path);
+    if (!key) {
+      throw syntaxError(
+        path,
+        position,
+        'segments must start with a letter, underscore, or $, followed by letters, numbers, underscores, or hyphens'
+      );
+    }
+    steps.push({ kind: 'key', key: key[0] });
+    position += key[0].length;
+
+    while (path[position] === '[') {
+      const close = findClosingBracket(path, position);
+      if (close < 0) {
+        throw syntaxError(path, position, 'unclosed "["');
+      }
+      steps.push(parseAccessor(path, path.slice(position + 1, close), position));
+      position = close + 1;
+    }
+  }
+
+  return steps;
+}
+
+function parseAccessor(path: string, body: string, position: number): PathStep {
+  if (body === '') {
+    return { kind: 'wildcard' };
+  }
+  if (/^\d+$/.test(body)) {
+    return { kind: 'index', index: Number(body) };
+  }
+  if (body.startsWith('?')) {
+    return { kind: 'filter', predicate: parsePredicate(path, body.slice(1), position) };
+  }
+  throw syntaxError(path, position, `"[${body}]" must be [], [n], or [?predicate]`);
+}
+
+function parsePredicate(path: string, body: string, position: number): PathPredicate {
+  const match = PREDICATE.exec(body);
+  if (!match) {
+    throw syntaxError(path, position, `invalid predicate "${body}"`);
+  }
+
+  const [, negate, field, operator, literalText] = match;
+  const fieldKeys = field.split('.');
+
+  if (!operator) {
+    return { field: fieldKeys, operator: negate ? 'falsy' : 'truthy' };
+  }
+  if (negate) {
+    throw syntaxError(path, position, `"!" cannot be combined with ${operator} in "${body}"`);
+  }
+
+  const value = parseLiteral(literalText);
+  if (value === undefined) {
+    throw syntaxError(path, position, `predicate value must be a quoted string, number, true, false, or null, got "${literalText}"`);
+  }
+  return { field: fieldKeys, operator: operator as '==' | '!=', value };
+}
+
+function parseLiteral(text: string): PathLiteral | undefined {
+  const quoted = /^(['"])([\s\S]*)\1$/.exec(text);
+  if (quoted) return quoted[2];
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null') return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return undefined;
+}
+
+function findClosingBracket(path: string, open: number): number {
+  let quote: string | null = null;
+  for (let i = open + 1; i < path.length; i++) {
+    const char = path[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ']') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function formatPredicate(predicate: PathPredicate): string {
+  const field = predicate.field.join('.');
+  switch (predicate.operator) {
+    case 'truthy':
+      return field;
+    case 'falsy':
+      return `!${field}`;
+    default:
+      return `${field} ${predicate.operator} ${typeof predicate.value === 'string' ? `'${predicate.value}'` : String(predicate.value)}`;
+  }
+}
+
+function syntaxError(path: string, position: number, reason: string): PathError {
+  return new PathError(`Invalid path "${path}" at position ${position}: ${reason}`, {
+    code: 'path-syntax',
+    path,
+    position,
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Paths Domain - Reads
+ *
+ * Domain: paths/core
+ * Responsibility: Read values through compiled paths.
+ *
+ * SOR: Every fan-out step (`[]` or `[?predicate]`) maps over the array it
+ * reaches, so `goals[].objectives[].text` yields one list of texts per goal.
+ * Keys never reach into arrays implicitly: `diagnoses.code` is undefined
+ * rather than silently reading the first diagnosis.
+ */
+
+import type { CompiledPath, PathPredicate, PathStep } from '../types';
+import { compilePath } from './compile';
+
+/**
+ * Read a value at a path.
+ *
+ * @param obj - Object to read from
+ * @param path - Path text or a compiled path
+ * @returns The value (nested lists for fan-out steps), or undefined when the path does not exist
+ * @throws PathError when the path is malformed
+ */
+export function getByPath(obj: unknown, path: string | CompiledPath): unknown {
+  if (!path || obj == null) {
+    return undefined;
+  }
+  const compiled = typeof path === 'string' ? compilePath(path) : path;
+  return readSteps(obj, compiled.steps, 0);
+}
+
+/**
+ * True when the path holds a value; fan-out paths need at least one element with a value.
+ */
+export function hasPath(obj: unknown, path: string | CompiledPath): boolean {
+  const compiled = typeof path === 'string' ? compilePath(path) : path;
+  const value = getByPath(obj, compiled);
+  if (compiled.depth === 0) {
+    return value !== undefined;
+  }
+  const flattened = flattenProjection(value, compiled.depth);
+  return Array.isArray(flattened) && flattened.some(entry => entry !== undefined);
+}
+
+/**
+ * Flatten the nested lists produced by a fan-out path into one list.
+ *
+ * @param value - Value read from a path
+ * @param depth - The path's fan-out depth
+ */
+export function flattenProjection(value: unknown, depth: number): unknown {
+  if (!Array.isArray(value) || depth <= 1) {
+    return value;
+  }
+  return value.flatMap(entry => {
+    const flattened = flattenProjection(entry, depth - 1);
+    return Array.isArray(flattened) ? flattened : [flattened];
+  });
+}
+
+/**
+ * Evaluate a predicate against one array element.
+ */
+export function matchesPredicate(element: unknown, predicate: PathPredicate): boolean {
+  let actual: unknown = element;
+  for (const key of predicate.field) {
+    actual = isRecord(actual) ? actual[key] : undefined;
+  }
+
+  switch (predicate.operator) {
+    case 'truthy':
+      return Boolean(actual);
+    case 'falsy':
+      return !actual;
+    case '==':
+      return looselyEqual(actual, predicate.value);
+    default:
+      return !looselyEqual(actual, predicate.value);
+  }
+}
+
+function readSteps(current: unknown, steps: PathStep[], index: number): unknown {
+  if (index === steps.length) {
+    return current;
+  }
+
+  const step = steps[index];
+  switch (step.kind) {
+    case 'key':
+      return isRecord(current) ? readSteps(current[step.key], steps, index + 1) : undefined;
+    case 'index':
+      return Array.isArray(current) ? readSteps(current[step.index], steps, index + 1) : undefined;
+    case 'wildcard':
+      return Array.isArray(current)
+        ? current.map(entry => readSteps(entry, steps, index + 1))
+        : undefined;
+    default:
+      return Array.isArray(current)
+        ? current
+          .filter(entry => matchesPredicate(entry, step.predicate))
+          .map(entry => readSteps(entry, steps, index + 1))
+        : undefined;
+  }
+}
+
+function looselyEqual(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) return true;
+  if (actual === null || actual === undefined || expected === null || expected === undefined) return false;
+  return typeof actual !== 'object' && String(actual) === String(expected);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,157 @@
+/**
+ * Paths Domain - Writes
+ *
+ * Domain: paths/core
+ * Responsibility: Write values through compiled paths, creating containers as needed.
+ *
+ * SOR: Writes are the inverse of reads. A `[]` step distributes a list across
+ * elements (`rows[].code` with ["F33.1", "F41.1"] sets rows[0].code and
+ * rows[1].code), so a value read from one fan-out path can be written to
+ * another. Existing objects and arrays are merged, not replaced.
+ */
+
+import { PathError } from '../errors';
+import type { CompiledPath, PathStep } from '../types';
+import { compilePath, formatPath } from './compile';
+
+/**
+ * Set a value at a path.
+ *
+ * @param obj - Object to write into
+ * @param path - Path text or a compiled path (predicates are not writable)
+ * @param value - Value to write; a list for each `[]` step
+ * @throws PathError when the path is malformed, contains a predicate, or a `[]` step receives a non-list
+ */
+export function setByPath(obj: Record<string, unknown>, path: string | CompiledPath, value: unknown): void {
+  const compiled = typeof path === 'string' ? compilePath(path) : path;
+  const filter = compiled.steps.findIndex(step => step.kind === 'filter');
+  if (filter >= 0) {
+    throw new PathError(`Cannot write through predicate in "${compiled.source}"`, {
+      code: 'path-write',
+      path: compiled.source,
+    });
+  }
+
+  writeSteps(obj, compiled, 0, value);
+}
+
+function writeSteps(container: Record<string, unknown> | unknown[], compiled: CompiledPath, index: number, value: unknown): void {
+  const step = compiled.steps[index];
+  const isLast = index === compiled.steps.length - 1;
+
+  if (step.kind === 'wildcard') {
+    const array = container as unknown[];
+    if (!Array.isArray(value)) {
+      throw new PathError(
+        `Expected a list for "${formatPath(compiled.steps.slice(0, index + 1))}" in "${compiled.source}"`,
+        { code: 'path-write', path: compiled.source }
+      );
+    }
+    value.forEach((entry, position) => {
+      if (entry === undefined) {
+        return;
+      }
+      writeSlot(array, position, compiled, index, isLast, entry);
+    });
+    return;
+  }
+
+  if (step.kind === 'index') {
+    writeSlot(container as unknown[], step.index, compiled, index, isLast, value);
+    return;
+  }
+
+  if (step.kind === 'key') {
+    writeSlot(container as Record<string, unknown>, step.key, compiled, index, isLast, value);
+  }
+}
+
+function writeSlot(
+  container: Record<string, unknown> | unknown[],
+  slot: string | number,
+  compiled: CompiledPath,
+  index: number,
+  isLast: boolean,
+  value: unknown
+): void {
+  const record = container as Record<string | number, unknown>;
+  if (Array.isArray(container) && typeof slot === 'number') {
+    ensureArrayLength(container, slot + 1);
+  }
+
+  if (isLast) {
+    record[slot] = mergeValues(record[slot], value);
+    return;
+  }
+
+  const child = ensureContainer(record, slot, compiled.steps[index + 1]);
+  writeSteps(child, compiled, index + 1, value);
+}
+
+function ensureContainer(
+  record: Record<string | number, unknown>,
+  slot: string | number,
+  next: PathStep
+): Record<string, unknown> | unknown[] {
+  const wantsArray = next.kind === 'index' || next.kind === 'wildcard';
+  const existing = record[slot];
+
+  if (wantsArray ? Array.isArray(existing) : isPlainObject(existing)) {
+    return existing as Record<string, unknown> | unknown[];
+  }
+
+  const created: Record<string, unknown> | unknown[] = wantsArray ? [] : {};
+  record[slot] = created;
+  return created;
+}
+
+function ensureArrayLength(array: unknown[], length: number): void {
+  while (array.length < length) {
+    array.push(undefined);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeValues(existing: unknown, incoming: unknown): unknown {
+  if (Array.isArray(existing) && Array.isArray(incoming)) {
+    return mergeArrays(existing, incoming);
+  }
+
+  if (isPlainObject(existing) && isPlainObject(incoming)) {
+    return { ...existing, ...incoming };
+  }
+
+  return incoming;
+}
+
+function mergeArrays(existing: unknown[], incoming: unknown[]): unknown[] {
+  const length = Math.max(existing.length, incoming.length);
+  const merged: unknown[] = new Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const left = existing[i];
+    const right = incoming[i];
+
+    if (right === undefined) {
+      merged[i] = left;
+      continue;
+    }
+
+    if (isPlainObject(left) && isPlainObject(right)) {
+      merged[i] = { ...left, ...right };
+      continue;
+    }
+
+    if (Array.isArray(left) && Array.isArray(right)) {
+      merged[i] = mergeArrays(left, right);
+      continue;
+    }
+
+    merged[i] = right ?? left;
+  }
+
+  return merged;
+}
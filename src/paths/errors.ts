@@ -0,0 +1,15 @@
+import type { PathErrorContext } from './types';
+
+/**
+ * Error thrown when a path cannot be parsed or a write cannot follow it.
+ */
+export class PathError extends Error {
+  readonly context: PathErrorContext;
+
+  /** Create a path error with machine-readable context. */
+  constructor(message: string, context: PathErrorContext) {
+    super(message);
+    this.name = 'PathError';
+    this.context = context;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Paths Domain - Barrel Export
+ *
+ * Domain: paths
+ * Responsibility: The one path engine shared by derivation, resolution, composition, and factory
+ *
+ * Usage:
+ * ```typescript
+ * import { compilePath, getByPath, setByPath } from './paths';
+ *
+ * getByPath(source, 'diagnoses[?primary].code');      // ['F33.1']
+ * getByPath(source, 'goals[].objectives[].text');      // [['a', 'b'], ['c']]
+ * setByPath(nas, 'dx.rows[].code', ['F33.1', 'F41.1']); // dx.rows[0].code, dx.rows[1].code
+ * ```
+ */
+
+// Core
+export { compilePath, formatPath, isValidPath } from './core/compile';
+export { getByPath, hasPath, flattenProjection, matchesPredicate } from './core/read';
+export { setByPath } from './core/write';
+
+// Utilities
+export { inferArrayRoot, normalizeRowPath } from './utils/row-paths';
+
+// Errors
+export { PathError } from './errors';
+
+// Types
+export type {
+  CompiledPath,
+  PathErrorCode,
+  PathErrorContext,
+  PathLiteral,
+  PathPredicate,
+  PathStep,
+} from './types';
@@ -0,0 +1,55 @@
+/**
+ * Paths Domain Types
+ *
+ * Compiled representation of the dot paths used by templates
+ * (targetPath, outputPath, lookup, verbatimRef sources, NAS dependencies).
+ */
+
+/**
+ * Literal a predicate compares against
+ */
+export type PathLiteral = string | number | boolean | null;
+
+/**
+ * Filter applied by a predicate step, e.g. `[?primary]` or `[?status == 'active']`
+ */
+export interface PathPredicate {
+  field: string[];   // Keys read from each element (dotted fields are allowed)
+  operator: 'truthy' | 'falsy' | '==' | '!=';
+  value?: PathLiteral;
+}
+
+/**
+ * One step of a compiled path
+ */
+export type PathStep =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'filter'; predicate: PathPredicate };
+
+/**
+ * Parsed, reusable path
+ *
+ * `depth` counts the steps that fan out over arrays (wildcards and filters);
+ * reading a path of depth n yields lists nested n levels deep.
+ */
+export interface CompiledPath {
+  source: string;
+  steps: PathStep[];
+  depth: number;
+}
+
+/**
+ * Failure category raised by the path engine
+ */
+export type PathErrorCode = 'path-syntax' | 'path-write';
+
+/**
+ * Structured context attached to PathError
+ */
+export interface PathErrorContext {
+  code: PathErrorCode;
+  path: string;
+  position?: number; // Zero-based character offset of the offending segment
+}
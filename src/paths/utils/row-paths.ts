@@ -0,0 +1,38 @@
+// Row path utilities
+// Bind wildcard paths to a single list or table row
+
+/**
+ * Infers array root path from field definitions
+ * Extracts the array path portion (e.g., "plan.homework[]" from "plan.homework[].text")
+ *
+ * @param defs - Array of field definitions with outputPath or targetPath
+ * @returns Array root path with [] marker, or empty string if none found
+ */
+export function inferArrayRoot(defs: Array<{ outputPath?: string; targetPath?: string }>): string {
+  for (const def of defs) {
+    const path = (def.outputPath || def.targetPath || "") as string;
+    const arrayMarkerIndex = path.indexOf("[]");
+    if (arrayMarkerIndex >= 0) {
+      return path.slice(0, arrayMarkerIndex + 2);
+    }
+  }
+  return "";
+}
+
+/**
+ * Replaces array wildcard [] with specific index [n]
+ * Used to resolve row-specific paths in lists and tables
+ *
+ * Example:
+ * - normalizeRowPath("homework[].text", "homework[]", 0) → "homework[0].text"
+ * - normalizeRowPath("diagnoses[].code", "diagnoses[]", 2) → "diagnoses[2].code"
+ */
+export function normalizeRowPath(
+  path: string,
+  arrayRoot: string,
+  index: number
+): string {
+  if (!path) return "";
+  const indexedRoot = arrayRoot.replace("[]", `[${index}]`);
+  return path.replace(arrayRoot, indexedRoot);
+}
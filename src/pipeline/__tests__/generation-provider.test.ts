@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import { createScriptedProvider } from '../../integration';
+import type { SourceData } from '../../resolution';
+import { runPipeline, type PipelineOptions, type PipelineStartEvent } from '..';
+
+const template: NoteTemplate = {
+  id: 'tmpl-provider',
+  name: 'Provider Template',
+  version: '1.0.0',
+  prompt: { system: 'System.', main: 'Write the note.' },
+  style: { font: 'Open Sans', color: '#222222', accent: '#1155CC', spacing: 8 },
+  layout: [
+    {
+      id: 'assessment-section',
+      type: 'section',
+      content: [
+        { id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' },
+        {
+          id: 'assessment-summary',
+          slot: 'ai',
+          outputPath: 'assessment.summary',
+          aiDeps: ['patient.name'],
+        },
+      ],
+    },
+  ],
+};
+
+const sourceData: SourceData = { patient: { name: 'Jane Doe' } };
+
+describe('pipeline generation provider', () => {
+  it('uses the configured provider instead of the OpenAI client', async () => {
+    const provider = createScriptedProvider({
+      steps: [{ output: { assessment: { summary: 'Generated on-prem.' } } }],
+      model: 'llama-local',
+    });
+    const openaiClient = {
+      responses: {
+        create: async () => {
+          throw new Error('OpenAI must not be called');
+        },
+      },
+    } as unknown as PipelineOptions['openaiClient'];
+    const starts: PipelineStartEvent[] = [];
+
+    const result = await runPipeline({
+      template,
+      sourceData,
+      options: { provider, openaiClient, logger: { onStart: (event) => starts.push(event) } },
+    });
+
+    expect(result.model).toBe('llama-local');
+    expect(result.html).toContain('Generated on-prem.');
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].messages[1].content).toContain('- path: assessment.summary');
+    expect(starts[0].options.provider).toBeUndefined();
+  });
+});
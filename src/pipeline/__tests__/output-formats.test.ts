@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import { runPipeline, type PipelineOptions } from '..';
+
+const template: NoteTemplate = {
+  id: 'tmpl-output-formats',
+  name: 'Output Formats Template',
+  version: '1.0.0',
+  prompt: { system: 'System.', main: 'Write the note.' },
+  style: { font: 'Inter', color: '#111111', accent: '#3366FF', spacing: 8 },
+  layout: [
+    {
+      id: 'assessment-section',
+      type: 'section',
+      title: 'Assessment',
+      content: [
+        { id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' },
+        { id: 'assessment-summary', slot: 'ai', outputPath: 'assessment.summary', aiDeps: ['patient.name'] },
+      ],
+    },
+  ],
+};
+
+const openaiClient = {
+  responses: {
+    create: async () => ({
+      id: 'resp-formats-001',
+      object: 'response',
+      created: Date.now(),
+      model: 'mock-gpt',
+      status: 'completed',
+      output: [],
+      output_text: JSON.stringify({ assessment: { summary: 'Mood is stable.' } }),
+      usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+      prompt: {},
+    }),
+  },
+} as unknown as PipelineOptions['openaiClient'];
+
+const sourceData = { patient: { name: 'Jane Doe' } };
+
+describe('pipeline output formats', () => {
+  it('renders HTML only by default', async () => {
+    const result = await runPipeline({ template, sourceData, options: { openaiClient } });
+
+    expect(result.html).toContain('Mood is stable.');
+    expect(result.text).toBeUndefined();
+    expect(result.markdown).toBeUndefined();
+    expect(result.docx).toBeUndefined();
+  });
+
+  it('renders any combination of requested formats', async () => {
+    const result = await runPipeline({
+      template,
+      sourceData,
+      options: { openaiClient, outputFormats: ['text', 'markdown', 'docx'], textOptions: { width: 60 } },
+    });
+
+    expect(result.html).toBe('');
+    expect(result.text).toBe('ASSESSMENT\n==========\n\nJane Doe\n\nMood is stable.\n');
+    expect(result.markdown).toBe('## Assessment\n\nJane Doe\n\nMood is stable.\n');
+    expect(Buffer.from(result.docx?.subarray(0, 2) ?? []).toString('latin1')).toBe('PK');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import type { SourceData } from '../../resolution';
+import { runPipeline, type PipelineAIRepairEvent, type PipelineOptions } from '..';
+
+interface RecordedRequest {
+  input: Array<{ role: string; content: Array<{ text: string }> }>;
+}
+
+function createScriptedClient(outputs: Array<Record<string, unknown>>) {
+  const requests: RecordedRequest[] = [];
+  const client = {
+    responses: {
+      create: async (body: RecordedRequest) => {
+        requests.push(body);
+        const output = outputs[Math.min(requests.length - 1, outputs.length - 1)];
+        return {
+          id: `resp-repair-${requests.length}`,
+          object: 'response',
+          created: Date.now(),
+          model: 'mock-gpt-repair',
+          status: 'completed',
+          output: [],
+          output_text: JSON.stringify(output),
+          usage: { input_tokens: 20, output_tokens: 10, total_tokens: 30 },
+        };
+      },
+    },
+  };
+
+  return { requests, client: client as unknown as PipelineOptions['openaiClient'] };
+}
+
+const template: NoteTemplate = {
+  id: 'tmpl-repair',
+  name: 'Repair Template',
+  version: '1.0.0',
+  prompt: { system: 'System.', main: 'Write the note.' },
+  style: { font: 'Open Sans', color: '#222222', accent: '#1155CC', spacing: 8 },
+  layout: [
+    {
+      id: 'assessment-section',
+      type: 'section',
+      content: [
+        { id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' },
+        {
+          id: 'assessment-summary',
+          slot: 'ai',
+          outputPath: 'assessment.summary',
+          aiDeps: ['patient.name'],
+        },
+        {
+          id: 'assessment-risk',
+          slot: 'ai',
+          outputPath: 'assessment.risk',
+          aiDeps: ['patient.name'],
+          constraints: { enum: ['low', 'moderate', 'high'] },
+        },
+      ],
+    },
+  ],
+};
+
+const sourceData: SourceData = { patient: { name: 'Jane Doe' } };
+
+const INVALID = { assessment: { summary: 'Stable mood.', risk: 'minimal' } };
+const VALID = { assessment: { summary: 'Stable mood.', risk: 'low' } };
+
+describe('AI output self-repair', () => {
+  it('sends validation errors back and returns the repaired output', async () => {
+    const { client, requests } = createScriptedClient([INVALID, VALID]);
+    const repairs: PipelineAIRepairEvent[] = [];
+
+    const result = await runPipeline({
+      template,
+      sourceData,
+      options: {
+        openaiClient: client,
+        repair: { maxRounds: 2 },
+        logger: { onAIRepair: (event) => repairs.push(event) },
+      },
+    });
+
+    expect(result.aiOutput).toEqual(VALID);
+    expect(result.usage.totalTokens).toBe(60);
+    expect(requests).toHaveLength(2);
+
+    const repairMessage = requests[1].input[requests[1].input.length - 1].content[0].text;
+    expect(repairMessage).toContain('VALIDATION REPAIR');
+    expect(repairMessage).toContain('- path: assessment.risk');
+    expect(repairMessage).toContain('allowed: low, moderate, high');
+    expect(repairMessage).toContain('"risk": "minimal"');
+    expect(requests[1].input.slice(0, 2)).toEqual(requests[0].input);
+
+    expect(repairs).toHaveLength(1);
+    expect(repairs[0]).toMatchObject({
+      round: 1,
+      maxRounds: 2,
+      paths: ['assessment.risk'],
+      outcome: 'repaired',
+      responseId: 'resp-repair-2',
+    });
+    expect(repairs[0].issues[0].keyword).toBe('enum');
+  });
+
+  it('gives up with ai-validation after the configured rounds', async () => {
+    const { client, requests } = createScriptedClient([INVALID]);
+    const repairs: PipelineAIRepairEvent[] = [];
+
+    await expect(
+      runPipeline({
+        template,
+        sourceData,
+        options: {
+          openaiClient: client,
+          repair: { maxRounds: 2 },
+          logger: { onAIRepair: (event) => repairs.push(event) },
+        },
+      })
+    ).rejects.toMatchObject({ step: 'ai-validation' });
+
+    expect(requests).toHaveLength(3);
+    expect(repairs.map((event) => [event.round, event.outcome])).toEqual([
+      [1, 'invalid'],
+      [2, 'invalid'],
+    ]);
+    expect(repairs[1].remainingIssues?.[0].keyword).toBe('enum');
+  });
+
+  it('keeps failing fast with ai-validation when repair is not configured', async () => {
+    const { client, requests } = createScriptedClient([INVALID, VALID]);
+
+    await expect(
+      runPipeline({ template, sourceData, options: { openaiClient: client } })
+    ).rejects.toMatchObject({ step: 'ai-validation' });
+    expect(requests).toHaveLength(1);
+
+    const disabled = createScriptedClient([INVALID, VALID]);
+    await expect(
+      runPipeline({
+        template,
+        sourceData,
+        options: { openaiClient: disabled.client, repair: { maxRounds: 0 } },
+      })
+    ).rejects.toMatchObject({ step: 'ai-validation' });
+    expect(disabled.requests).toHaveLength(1);
+  });
+});
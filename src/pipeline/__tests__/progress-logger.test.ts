@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import type { SourceData } from '../../resolution';
+import {
+  combinePipelineLoggers,
+  createPipelineError,
+  createSSEPipelineLogger,
+  formatServerSentEvent,
+  runPipeline,
+  type PipelineLogger,
+  type PipelineOptions,
+  type PipelineProgressEvent,
+} from '..';
+import { createProgressPipelineLogger } from '../logging';
+
+const PATIENT_NAME = 'Harriet Okonkwo-Delacroix';
+const AI_SUMMARY = 'Harriet reports improved sleep since last visit.';
+
+const fakeOpenAIClient = {
+  responses: {
+    create: async () => ({
+      id: 'resp-progress-001',
+      object: 'response',
+      created: Date.now(),
+      model: 'mock-gpt-progress',
+      status: 'completed',
+      output: [],
+      output_text: JSON.stringify({ assessment: { summary: AI_SUMMARY } }),
+      usage: { input_tokens: 9, output_tokens: 4, total_tokens: 13 },
+    }),
+  },
+};
+
+const template: NoteTemplate = {
+  id: 'tmpl-progress',
+  name: 'Progress Template',
+  version: '1.0.0',
+  prompt: { system: 'System.', main: 'Summarize.' },
+  style: { font: 'Open Sans', color: '#222222', accent: '#1155CC', spacing: 8 },
+  layout: [
+    {
+      id: 'primary-section',
+      type: 'section',
+      content: [
+        { id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' },
+        {
+          id: 'missing-dob',
+          slot: 'lookup',
+          targetPath: 'patient.dob',
+          lookup: 'patient.dateOfBirth',
+        },
+        {
+          id: 'assessment-summary',
+          slot: 'ai',
+          outputPath: 'assessment.summary',
+          aiDeps: ['patient.name'],
+        },
+      ],
+    },
+  ],
+};
+
+const sourceData: SourceData = { patient: { name: PATIENT_NAME } };
+
+async function runWithProgress(scrubPHI?: boolean): Promise<PipelineProgressEvent[]> {
+  const events: PipelineProgressEvent[] = [];
+  await runPipeline({
+    template,
+    sourceData,
+    options: {
+      requestId: 'req-progress',
+      openaiClient: fakeOpenAIClient as unknown as PipelineOptions['openaiClient'],
+      logger: createProgressPipelineLogger({ scrubPHI, onEvent: (event) => events.push(event) }),
+    },
+  });
+  return events;
+}
+
+describe('progress pipeline logger', () => {
+  it('emits labelled progress events without patient data by default', async () => {
+    const events = await runWithProgress();
+    const types = events.map((event) => event.type);
+
+    expect(types[0]).toBe('start');
+    expect(types.at(-1)).toBe('complete');
+    expect(types).toContain('resolution');
+    expect(types).toContain('ai-response');
+    expect(events.every((event) => event.requestId === 'req-progress')).toBe(true);
+    expect(events.find((event) => event.type === 'resolution')?.label).toBe('Resolving data');
+
+    const resolution = events.find((event) => event.type === 'resolution');
+    expect(resolution?.data.resolvedCount).toBeGreaterThan(0);
+    expect(resolution?.data.warnings).toEqual(
+      expect.arrayContaining([expect.objectContaining({ slotId: 'missing-dob' })])
+    );
+
+    const response = events.find((event) => event.type === 'ai-response');
+    expect(response?.data).toMatchObject({ model: 'mock-gpt-progress', mocked: false });
+
+    const serialized = JSON.stringify(events);
+    expect(serialized).not.toContain(PATIENT_NAME);
+    expect(serialized).not.toContain(AI_SUMMARY);
+    expect(serialized).not.toContain('Summarize.');
+  });
+
+  it('forwards full payloads when scrubbing is disabled', async () => {
+    const events = await runWithProgress(false);
+    const serialized = JSON.stringify(events);
+
+    expect(serialized).toContain(PATIENT_NAME);
+    expect(serialized).toContain(AI_SUMMARY);
+    // Server-owned settings are never forwarded.
+    expect(serialized).not.toContain('openaiClient');
+  });
+
+  it('reports the failing step and message on error', async () => {
+    const events: PipelineProgressEvent[] = [];
+    const logger = createProgressPipelineLogger({ onEvent: (event) => events.push(event) });
+
+    logger.onError?.({
+      requestId: 'req-error',
+      templateId: template.id,
+      templateName: template.name,
+      templateVersion: template.version,
+      timestamp: new Date().toISOString(),
+      error: createPipelineError('AI generation failed', 'ai-generation', { raw: PATIENT_NAME }),
+    });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'error',
+      label: 'Generation failed',
+      data: { step: 'ai-generation', message: 'AI generation failed' },
+    });
+    expect(JSON.stringify(events)).not.toContain(PATIENT_NAME);
+  });
+});
+
+describe('SSE pipeline logger', () => {
+  it('formats sequential progress frames', async () => {
+    const frames: string[] = [];
+    await runPipeline({
+      template,
+      sourceData,
+      options: {
+        openaiClient: fakeOpenAIClient as unknown as PipelineOptions['openaiClient'],
+        logger: createSSEPipelineLogger({ write: (frame) => frames.push(frame) }),
+      },
+    });
+
+    expect(frames.length).toBeGreaterThan(3);
+    expect(frames[0].startsWith('id: 1\nevent: progress\ndata: ')).toBe(true);
+    expect(frames.every((frame) => frame.endsWith('\n\n'))).toBe(true);
+
+    const last = JSON.parse(frames.at(-1)!.split('data: ')[1]) as PipelineProgressEvent;
+    expect(last.type).toBe('complete');
+  });
+
+  it('encodes frames without an id when none is given', () => {
+    expect(formatServerSentEvent('result', { ok: true })).toBe('event: result\ndata: {"ok":true}\n\n');
+  });
+});
+
+describe('combinePipelineLoggers', () => {
+  it('fans events out and isolates throwing loggers', () => {
+    const seen: string[] = [];
+    const throwing: PipelineLogger = {
+      onStageTiming: () => {
+        throw new Error('boom');
+      },
+    };
+    const recording: PipelineLogger = {
+      onStageTiming: (event) => seen.push(event.stage),
+    };
+
+    const combined = combinePipelineLoggers(undefined, throwing, recording);
+    combined.onStageTiming?.({
+      requestId: 'req',
+      templateId: 't',
+      templateName: 'T',
+      templateVersion: '1.0.0',
+      timestamp: new Date().toISOString(),
+      stage: 'render',
+      durationMs: 1,
+    });
+
+    expect(seen).toEqual(['render']);
+    expect(combined.onRender).toBeUndefined();
+  });
+});
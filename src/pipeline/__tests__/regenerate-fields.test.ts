@@ -0,0 +1,264 @@
+import { describe, expect, it } from 'bun:test';
+import type { ContentItem, NoteTemplate } from '../../derivation/types';
+import type { SourceData } from '../../resolution';
+import { regenerateFields, runPipeline, type PipelineOptions, type PipelineOutput } from '..';
+
+interface RecordedRequest {
+  input: Array<{ role: string; content: Array<{ text: string }> }>;
+  text: { format: { schema: { properties: Record<string, unknown>; required?: string[] } } };
+}
+
+const FIRST_PASS = {
+  subjective: { summary: 'Client reports steady mood this week.' },
+  assessment: { summary: 'Symptoms remain mild.' },
+  plan: { goals: [{ text: 'Walk daily', due: 'Friday' }] },
+};
+
+const SECOND_PASS = {
+  assessment: { summary: 'Mild depressive symptoms, improving since intake.' },
+  plan: { goals: [{ text: 'Walk three times a week', due: 'Monday' }] },
+};
+
+function createRecordingClient(outputs: Array<Record<string, unknown>>) {
+  const requests: RecordedRequest[] = [];
+  const client = {
+    responses: {
+      create: async (body: RecordedRequest) => {
+        requests.push(body);
+        const requested = Object.keys(body.text.format.schema.properties);
+        const source = outputs[Math.min(requests.length - 1, outputs.length - 1)];
+        const output = Object.fromEntries(requested.map((key) => [key, source[key]]));
+        return {
+          id: `resp-regen-${requests.length}`,
+          object: 'response',
+          created: Date.now(),
+          model: 'mock-gpt-regen',
+          status: 'completed',
+          output: [],
+          output_text: JSON.stringify(output),
+          usage: { input_tokens: 20, output_tokens: 10, total_tokens: 30 },
+        };
+      },
+    },
+  };
+
+  return { requests, client: client as unknown as PipelineOptions['openaiClient'] };
+}
+
+const template: NoteTemplate = {
+  id: 'tmpl-regenerate',
+  name: 'Regenerate Template',
+  version: '1.0.0',
+  prompt: { system: 'System.', main: 'Write the note.' },
+  style: { font: 'Open Sans', color: '#222222', accent: '#1155CC', spacing: 8 },
+  layout: [
+    {
+      id: 'subjective-section',
+      type: 'section',
+      content: [
+        { id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' },
+        {
+          id: 'subjective-summary',
+          slot: 'ai',
+          outputPath: 'subjective.summary',
+          aiDeps: ['patient.name'],
+        },
+      ],
+    },
+    {
+      id: 'assessment-section',
+      type: 'section',
+      content: [
+        {
+          id: 'assessment-summary',
+          slot: 'ai',
+          outputPath: 'assessment.summary',
+          aiDeps: ['patient.name'],
+        },
+      ],
+    },
+    {
+      id: 'plan-section',
+      type: 'section',
+      content: [
+        {
+          id: 'plan-goal-text',
+          slot: 'ai',
+          outputPath: 'plan.goals[].text',
+          aiDeps: ['patient.name'],
+        },
+        {
+          id: 'plan-goal-due',
+          slot: 'ai',
+          outputPath: 'plan.goals[].due',
+          aiDeps: ['patient.name'],
+        },
+      ],
+    },
+  ],
+};
+
+const sourceData: SourceData = { patient: { name: 'Jane Doe' } };
+
+async function generateFirstPass(): Promise<PipelineOutput> {
+  const { client } = createRecordingClient([FIRST_PASS]);
+  return runPipeline({ template, sourceData, options: { openaiClient: client } });
+}
+
+describe('regenerateFields', () => {
+  it('regenerates a component while keeping accepted fields untouched', async () => {
+    const previous = await generateFirstPass();
+    const { client, requests } = createRecordingClient([SECOND_PASS]);
+
+    const result = await regenerateFields({
+      template,
+      previous,
+      targets: ['assessment-section'],
+      options: { openaiClient: client },
+    });
+
+    expect(result.regeneratedPaths).toEqual(['assessment.summary']);
+    expect(result.aiOutput).toEqual({
+      subjective: FIRST_PASS.subjective,
+      assessment: SECOND_PASS.assessment,
+      plan: FIRST_PASS.plan,
+    });
+    expect(result.html).toContain('Mild depressive symptoms, improving since intake.');
+    expect(result.html).toContain('Client reports steady mood this week.');
+    expect(result.payload).toMatchObject({ patient: { name: 'Jane Doe' } });
+    expect(result.usage.totalTokens).toBe(30);
+    expect(result.schemas.ais).toBe(previous.schemas.ais);
+
+    expect(requests).toHaveLength(1);
+    const schema = requests[0].text.format.schema;
+    expect(Object.keys(schema.properties)).toEqual(['assessment']);
+    expect(schema.required).toEqual(['assessment']);
+
+    const userMessage = requests[0].input[1].content[0].text;
+    expect(userMessage).toContain('ACCEPTED OUTPUT (read-only');
+    expect(userMessage).toContain('Client reports steady mood this week.');
+    expect(userMessage).not.toContain('Symptoms remain mild.');
+    expect(userMessage).toContain('- path: assessment.summary');
+    expect(userMessage).not.toContain('- path: subjective.summary');
+  });
+
+  it('regenerates array fields as a whole unit', async () => {
+    const previous = await generateFirstPass();
+    const { client, requests } = createRecordingClient([SECOND_PASS]);
+
+    const result = await regenerateFields({
+      template,
+      previous,
+      targets: ['plan.goals[].text'],
+      options: { openaiClient: client },
+    });
+
+    expect(result.regeneratedPaths).toEqual(['plan.goals[]']);
+    expect(result.aiOutput.plan).toEqual(SECOND_PASS.plan);
+    expect(result.aiOutput.assessment).toEqual(FIRST_PASS.assessment);
+    expect(requests[0].input[1].content[0].text).toContain('- path: plan.goals[].due');
+  });
+
+  it('accepts a prior output that only kept aiOutput, nasSnapshot, and the AIS', async () => {
+    const previous = await generateFirstPass();
+    const { client } = createRecordingClient([SECOND_PASS]);
+
+    const result = await regenerateFields({
+      template,
+      previous: {
+        aiOutput: previous.aiOutput,
+        nasSnapshot: previous.nasSnapshot,
+        schemas: { ais: previous.schemas.ais },
+      },
+      targets: ['assessment.summary'],
+      options: { openaiClient: client },
+    });
+
+    expect(result.schemas.nas).toEqual(previous.schemas.nas);
+    expect(result.schemas.rps).toEqual(previous.schemas.rps);
+  });
+
+  it('rejects unknown targets and mismatched templates', async () => {
+    const previous = await generateFirstPass();
+    const { client, requests } = createRecordingClient([SECOND_PASS]);
+
+    await expect(
+      regenerateFields({ template, previous, targets: ['missing-section'], options: { openaiClient: client } })
+    ).rejects.toMatchObject({ step: 'regeneration-target' });
+
+    await expect(
+      regenerateFields({
+        template: { ...template, version: '2.0.0' },
+        previous,
+        targets: ['assessment-section'],
+        options: { openaiClient: client },
+      })
+    ).rejects.toMatchObject({ step: 'regeneration-input' });
+
+    expect(requests).toHaveLength(0);
+  });
+
+  it('validates the template before resolving targets', async () => {
+    const previous = await generateFirstPass();
+    const { client, requests } = createRecordingClient([SECOND_PASS]);
+
+    await expect(
+      regenerateFields({
+        template: { ...template, layout: 'nope' as unknown as NoteTemplate['layout'] },
+        previous,
+        targets: ['assessment-section'],
+        options: { openaiClient: client },
+      })
+    ).rejects.toMatchObject({ step: 'template-validation' });
+
+    expect(requests).toHaveLength(0);
+  });
+
+  it('upgrades templates stored against an older schema version', async () => {
+    // Keyed tableMaps are only valid before schemaVersion 2, so the current types reject them
+    const keyedTableMap = {
+      code: { id: 'dx-code', slot: 'ai', outputPath: 'dx.rows[].code', aiDeps: ['patient.name'] },
+      description: { slot: 'ai', outputPath: 'dx.rows[].description', aiDeps: ['patient.name'] },
+    } as unknown as ContentItem[];
+    const legacy: NoteTemplate = {
+      ...template,
+      id: 'tmpl-regenerate-legacy',
+      layout: [
+        ...template.layout,
+        {
+          id: 'diagnoses',
+          type: 'table',
+          props: { columns: ['Code', 'Description'] },
+          content: [
+            {
+              id: 'diagnosis-rows',
+              slot: 'ai',
+              outputPath: 'dx.rows[]',
+              aiDeps: ['patient.name'],
+              tableMap: keyedTableMap,
+            },
+          ],
+        },
+      ],
+    };
+
+    const first = createRecordingClient([
+      { ...FIRST_PASS, dx: { rows: [{ code: 'F32.0', description: 'Mild depressive episode' }] } },
+    ]);
+    const previous = await runPipeline({ template: legacy, sourceData, options: { openaiClient: first.client } });
+
+    const { client } = createRecordingClient([
+      { dx: { rows: [{ code: 'F32.1', description: 'Moderate depressive episode' }] } },
+    ]);
+    const result = await regenerateFields({
+      template: legacy,
+      previous,
+      targets: ['diagnoses'],
+      options: { openaiClient: client },
+    });
+
+    expect(result.regeneratedPaths).toEqual(['dx.rows[]']);
+    expect(result.aiOutput.dx).toEqual({ rows: [{ code: 'F32.1', description: 'Moderate depressive episode' }] });
+    expect(result.aiOutput.subjective).toEqual(FIRST_PASS.subjective);
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import type { SourceData } from '../../resolution';
+import { createSynthesizedMockGeneration, runPipeline, type PipelineOptions } from '..';
+import standardTemplate from '../../tests/templates/tcm-monthly-standard.template.json';
+
+interface RecordedRequest {
+  input: Array<{ role: string; content: Array<{ text: string }> }>;
+  text: { format: { schema: { properties: Record<string, unknown> } } };
+}
+
+const OUTPUT: Record<string, unknown> = {
+  subjective: { summary: 'Client reports steady mood this week.' },
+  assessment: { summary: 'Mood stable; consistent with reported week.' },
+  plan: { goals: [{ text: 'Walk daily' }] },
+};
+
+interface ClientOptions {
+  delayMs?: number;
+  failKey?: string;
+}
+
+function createRecordingClient(options: ClientOptions = {}) {
+  const requests: RecordedRequest[] = [];
+  const events: string[] = [];
+  let active = 0;
+  let peak = 0;
+
+  const client = {
+    responses: {
+      create: async (body: RecordedRequest) => {
+        requests.push(body);
+        const keys = Object.keys(body.text.format.schema.properties);
+        const label = keys.join(',');
+        active += 1;
+        peak = Math.max(peak, active);
+        events.push(`start:${label}`);
+        await new Promise((resolve) => setTimeout(resolve, options.delayMs ?? 5));
+        active -= 1;
+        events.push(`end:${label}`);
+
+        if (options.failKey && keys.includes(options.failKey)) {
+          throw Object.assign(new Error('invalid request'), { status: 400 });
+        }
+
+        return {
+          id: `resp-${label}`,
+          object: 'response',
+          created: Date.now(),
+          model: 'mock-gpt-sections',
+          status: 'completed',
+          output: [],
+          output_text: JSON.stringify(Object.fromEntries(keys.map((key) => [key, OUTPUT[key]]))),
+          usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+        };
+      },
+    },
+  };
+
+  return {
+    requests,
+    events,
+    peak: () => peak,
+    client: client as unknown as PipelineOptions['openaiClient'],
+  };
+}
+
+function aiItem(id: string, outputPath: string, aiDeps: string[]) {
+  return { id, slot: 'ai' as const, outputPath, aiDeps };
+}
+
+const template: NoteTemplate = {
+  id: 'tmpl-sections',
+  name: 'Sections Template',
+  version: '1.0.0',
+  prompt: { system: 'System.', main: 'Write the note.' },
+  style: { font: 'Open Sans', color: '#222222', accent: '#1155CC', spacing: 8 },
+  layout: [
+    {
+      id: 'subjective-section',
+      type: 'section',
+      content: [
+        { id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' },
+        aiItem('subjective-summary', 'subjective.summary', ['patient.name']),
+      ],
+    },
+    {
+      id: 'assessment-section',
+      type: 'section',
+      content: [aiItem('assessment-summary', 'assessment.summary', ['subjective.summary'])],
+    },
+    {
+      id: 'plan-section',
+      type: 'section',
+      content: [aiItem('plan-goal-text', 'plan.goals[].text', ['patient.name'])],
+    },
+  ],
+};
+
+const sourceData: SourceData = { patient: { name: 'Jane Doe' } };
+
+describe('per-section generation strategy', () => {
+  it('sends one request per top-level section and stitches the output', async () => {
+    const recorder = createRecordingClient();
+
+    const result = await runPipeline({
+      template,
+      sourceData,
+      options: {
+        openaiClient: recorder.client,
+        capturePromptMetadata: true,
+        generationStrategy: { mode: 'per-section' },
+      },
+    });
+
+    expect(result.aiOutput).toEqual(OUTPUT);
+    expect(result.html).toContain('Mood stable; consistent with reported week.');
+    expect(recorder.requests.map((req) => Object.keys(req.text.format.schema.properties)).sort()).toEqual([
+      ['assessment'],
+      ['plan'],
+      ['subjective'],
+    ]);
+
+    expect(result.usage).toEqual({ promptTokens: 30, completionTokens: 15, totalTokens: 45 });
+    expect(result.sections?.map((section) => section.id)).toEqual([
+      'subjective-section',
+      'assessment-section',
+      'plan-section',
+    ]);
+
+    const assessment = result.sections?.find((section) => section.id === 'assessment-section');
+    expect(assessment).toMatchObject({
+      paths: ['assessment.summary'],
+      dependsOn: ['subjective-section'],
+      retries: 0,
+      model: 'mock-gpt-sections',
+      responseId: 'resp-assessment',
+      usage: { totalTokens: 15 },
+    });
+  });
+
+  it('runs dependent sections after their upstream section with its values in context', async () => {
+    const recorder = createRecordingClient();
+
+    await runPipeline({
+      template,
+      sourceData,
+      options: { openaiClient: recorder.client, generationStrategy: { mode: 'per-section' } },
+    });
+
+    expect(recorder.events.indexOf('start:assessment')).toBeGreaterThan(
+      recorder.events.indexOf('end:subjective')
+    );
+
+    const assessmentRequest = recorder.requests.find((req) => 'assessment' in req.text.format.schema.properties);
+    const userMessage = assessmentRequest?.input[1].content[0].text ?? '';
+    const slice = userMessage.slice(userMessage.indexOf('NON-AI SNAPSHOT'), userMessage.indexOf('FIELD GUIDE'));
+    expect(slice).toContain('Client reports steady mood this week.');
+    expect(slice).not.toContain('Jane Doe');
+
+    const planRequest = recorder.requests.find((req) => 'plan' in req.text.format.schema.properties);
+    expect(planRequest?.input[1].content[0].text).not.toContain('Client reports steady mood this week.');
+  });
+
+  it('caps concurrent section requests', async () => {
+    const serial = createRecordingClient({ delayMs: 10 });
+    await runPipeline({
+      template,
+      sourceData,
+      options: { openaiClient: serial.client, generationStrategy: { mode: 'per-section', concurrency: 1 } },
+    });
+    expect(serial.peak()).toBe(1);
+
+    const parallel = createRecordingClient({ delayMs: 10 });
+    await runPipeline({
+      template,
+      sourceData,
+      options: { openaiClient: parallel.client, generationStrategy: { mode: 'per-section', concurrency: 4 } },
+    });
+    expect(parallel.peak()).toBe(2);
+  });
+
+  it('rejects sections that depend on each other', async () => {
+    const recorder = createRecordingClient();
+    const cyclic: NoteTemplate = {
+      ...template,
+      layout: [
+        {
+          id: 'a-section',
+          type: 'section',
+          content: [aiItem('a-summary', 'subjective.summary', ['assessment.summary'])],
+        },
+        {
+          id: 'b-section',
+          type: 'section',
+          content: [aiItem('b-summary', 'assessment.summary', ['subjective.summary'])],
+        },
+      ],
+    };
+
+    await expect(
+      runPipeline({
+        template: cyclic,
+        sourceData,
+        options: { openaiClient: recorder.client, generationStrategy: { mode: 'per-section' } },
+      })
+    ).rejects.toMatchObject({ step: 'generation-strategy' });
+    expect(recorder.requests).toHaveLength(0);
+  });
+
+  it('surfaces the first failing section as an ai-generation error', async () => {
+    const recorder = createRecordingClient({ failKey: 'plan' });
+
+    await expect(
+      runPipeline({
+        template,
+        sourceData,
+        options: { openaiClient: recorder.client, generationStrategy: { mode: 'per-section' } },
+      })
+    ).rejects.toMatchObject({ step: 'ai-generation' });
+  });
+
+  it('returns an empty AI payload for templates without AI fields', async () => {
+    const recorder = createRecordingClient();
+    const result = await runPipeline({
+      template: standardTemplate as unknown as NoteTemplate,
+      sourceData: {},
+      options: {
+        openaiClient: recorder.client,
+        mockGeneration: createSynthesizedMockGeneration(),
+        generationStrategy: { mode: 'per-section' },
+      },
+    });
+
+    expect(result.aiOutput).toEqual({});
+    expect(result.sections).toEqual([]);
+    expect(recorder.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import type { NoteTemplate } from '../../derivation/types';
+import type { SourceData } from '../../resolution';
+import { createSynthesizedMockGeneration, runPipeline, type PipelineOptions } from '..';
+
+const template: NoteTemplate = {
+  id: 'tmpl-synth-mock',
+  name: 'Synthesized Mock Template',
+  version: '1.0.0',
+  prompt: { system: 'System.', main: 'Write the note.' },
+  style: { font: 'Open Sans', color: '#222222', accent: '#1155CC', spacing: 8 },
+  layout: [
+    {
+      id: 'assessment-section',
+      type: 'section',
+      content: [
+        { id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' },
+        {
+          id: 'assessment-summary',
+          slot: 'ai',
+          outputPath: 'assessment.summary',
+          aiDeps: ['patient.name'],
+          description: 'Clinical impression of the session',
+          constraints: { minSentences: 2, maxWords: 30 },
+        },
+        {
+          id: 'assessment-risk',
+          slot: 'ai',
+          outputPath: 'assessment.risk',
+          aiDeps: ['patient.name'],
+          constraints: { enum: ['low', 'moderate', 'high'] },
+        },
+      ],
+    },
+  ],
+};
+
+const sourceData: SourceData = { patient: { name: 'Jane Doe' } };
+
+const unusedClient = {
+  responses: {
+    create: async () => {
+      throw new Error('OpenAI must not be called');
+    },
+  },
+} as unknown as PipelineOptions['openaiClient'];
+
+const originalMockFlag = process.env.PIPELINE_ENABLE_MOCK_AI;
+
+beforeEach(() => {
+  process.env.PIPELINE_ENABLE_MOCK_AI = 'true';
+});
+
+afterEach(() => {
+  if (originalMockFlag === undefined) {
+    delete process.env.PIPELINE_ENABLE_MOCK_AI;
+  } else {
+    process.env.PIPELINE_ENABLE_MOCK_AI = originalMockFlag;
+  }
+});
+
+describe('synthesized mock generation', () => {
+  it('renders a valid note from the AIS without model calls', async () => {
+    const result = await runPipeline({
+      template,
+      sourceData,
+      options: { openaiClient: unusedClient, mockGeneration: createSynthesizedMockGeneration({ seed: 3 }) },
+    });
+
+    const assessment = result.aiOutput.assessment as { summary: string; risk: string };
+    expect(result.model).toBe('synthesized-mock');
+    expect(result.usage.totalTokens).toBe(0);
+    expect(['low', 'moderate', 'high']).toContain(assessment.risk);
+    expect(assessment.summary.startsWith('Clinical impression of the session')).toBe(true);
+    expect(result.html).toContain(assessment.summary);
+  });
+
+  it('is stable for golden tests', async () => {
+    const run = () =>
+      runPipeline({
+        template,
+        sourceData,
+        options: { openaiClient: unusedClient, mockGeneration: createSynthesizedMockGeneration({ seed: 11 }) },
+      });
+
+    const [first, second] = await Promise.all([run(), run()]);
+    expect(first.aiOutput).toEqual(second.aiOutput);
+    expect(first.payload).toEqual(second.payload);
+  });
+});
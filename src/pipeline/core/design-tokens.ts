@@ -0,0 +1,134 @@
+/**
+ * Pipeline Design Token Resolution
+ *
+ * Domain: pipeline/core
+ * Responsibility: Layer default tokens, template style hints, and caller overrides
+ * into the final token bundle used for CSS compilation and rendering.
+ *
+ * SOR: Single place where token precedence (default < template < override) is defined.
+ * SOD: Pure data transformation; diagnostics and compilation live elsewhere.
+ * DI: Callers supply the template and optional overrides.
+ */
+
+import type { NoteTemplate, TemplateStyle } from '../../derivation/types';
+import type { DesignTokens, Layout } from '../../tokens';
+import defaultTokensRaw from '../../tokens/defaults/default-tokens.json';
+import type { ResolvedDesignTokens } from '../types';
+
+/**
+ * Resolve the token bundle for a template, keeping each precedence layer for diagnostics.
+ */
+export function resolveDesignTokens(
+	template: NoteTemplate,
+	overrides?: DesignTokens
+): ResolvedDesignTokens {
+	const defaults = cloneTokens(defaultTokensRaw as DesignTokens);
+	const templateAdjusted = cloneTokens(defaults);
+	applyTemplateStyle(templateAdjusted, template.style);
+	const tokens = mergeDesignTokens(templateAdjusted, overrides);
+
+	return { defaults, templateAdjusted, tokens };
+}
+
+function cloneTokens(tokens: DesignTokens): DesignTokens {
+	return JSON.parse(JSON.stringify(tokens)) as DesignTokens;
+}
+
+function applyTemplateStyle(tokens: DesignTokens, style?: TemplateStyle): void {
+	if (!style) return;
+
+	if (style.font) {
+		tokens.typography.fontFamily = style.font;
+	}
+
+	if (typeof style.spacing === 'number') {
+		tokens.spacing.unitPx = style.spacing;
+	}
+
+	if (style.color) {
+		tokens.color.text = style.color;
+	}
+
+	if (style.muted) {
+		tokens.color.muted = style.muted;
+	}
+
+	if (style.accent) {
+		tokens.color.accent = style.accent;
+	}
+
+	if (style.tableDensity) {
+		tokens.table.density = style.tableDensity;
+	}
+
+	if (style.print) {
+		tokens.print.pageSize = style.print.size ?? tokens.print.pageSize;
+		tokens.print.margin = style.print.margin ?? tokens.print.margin;
+		tokens.print.showHeader = style.print.header ?? tokens.print.showHeader;
+		tokens.print.showFooter = style.print.footer ?? tokens.print.showFooter;
+	}
+}
+
+function mergeLayout(base?: Layout, override?: Layout): Layout | undefined {
+	if (!base && !override) {
+		return undefined;
+	}
+
+	const merged: Layout = {
+		...(base ?? {}),
+		...(override ?? {}),
+	};
+
+	if (base?.sectionBanner || override?.sectionBanner) {
+		merged.sectionBanner = {
+			...(base?.sectionBanner ?? {}),
+			...(override?.sectionBanner ?? {}),
+		};
+	}
+
+	return merged;
+}
+
+function mergeDesignTokens(base: DesignTokens, override?: DesignTokens): DesignTokens {
+	if (!override) {
+		return base;
+	}
+
+	return {
+		...base,
+		...override,
+		typography: {
+			...base.typography,
+			...override.typography,
+		},
+		color: {
+			...base.color,
+			...override.color,
+		},
+		spacing: {
+			...base.spacing,
+			...override.spacing,
+		},
+		table: {
+			...base.table,
+			...override.table,
+		},
+		list: {
+			...(base.list ?? {}),
+			...(override.list ?? {}),
+		},
+		layout: mergeLayout(base.layout, override.layout),
+		print: {
+			...base.print,
+			...override.print,
+		},
+		brand: {
+			...(base.brand ?? {}),
+			...(override.brand ?? {}),
+		},
+		surface: {
+			...(base.surface ?? {}),
+			...(override.surface ?? {}),
+		},
+	};
+}
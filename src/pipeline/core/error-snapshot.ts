@@ -0,0 +1,59 @@
+/**
+ * Pipeline Error Snapshots
+ *
+ * Domain: pipeline/core
+ * Responsibility: Reduce thrown pipeline failures to JSON-safe snapshots
+ * for HTTP responses, job records, and callbacks.
+ *
+ * SOD: Detection and serialisation only; callers decide how snapshots are surfaced.
+ */
+
+import type { PipelineError, PipelineErrorSnapshot } from '../types';
+
+/**
+ * Detect the PipelineError shape produced by createPipelineError.
+ */
+export function isPipelineError(error: unknown): error is PipelineError {
+	return (
+		error instanceof Error &&
+		'step' in error &&
+		typeof (error as PipelineError).step === 'string'
+	);
+}
+
+/**
+ * Snapshot any thrown value; non-pipeline errors are reported under the 'unknown' step.
+ */
+export function snapshotPipelineError(error: unknown): PipelineErrorSnapshot {
+	if (isPipelineError(error)) {
+		const details = serializeErrorDetails(error.cause);
+		return details === undefined
+			? { step: error.step, message: error.message }
+			: { step: error.step, message: error.message, details };
+	}
+
+	return {
+		step: 'unknown',
+		message: error instanceof Error ? error.message : 'Unexpected pipeline failure',
+	};
+}
+
+/**
+ * Errors are not JSON-serialisable; reduce them to name/message (and upstream status when present).
+ */
+function serializeErrorDetails(cause: unknown): unknown {
+	if (cause === undefined || cause === null) {
+		return undefined;
+	}
+
+	if (cause instanceof Error) {
+		const status = (cause as { status?: unknown }).status;
+		return {
+			name: cause.name,
+			message: cause.message,
+			...(typeof status === 'number' ? { status } : {}),
+		};
+	}
+
+	return cause;
+}
@@ -0,0 +1,338 @@
+/**
+ * Pipeline Core - Field Selection
+ *
+ * Domain: pipeline/core
+ * Responsibility: Resolve regeneration targets to AIS paths and carve the
+ * matching sub-template, sub-schema, read-only context, and merged output.
+ *
+ * Selection works in "units": an AI outputPath, or for paths inside an array
+ * the array itself ("plan.homework[]"), because array items cannot be merged
+ * back field by field without a stable identity.
+ *
+ * The same units partition a template into top-level sections for the
+ * per-section generation strategy.
+ */
+
+import type { Component, ContentItem, DerivedSchema, NoteTemplate, SchemaNode } from '../../derivation/types';
+import type { PathStep } from '../../paths';
+import { compilePath, formatPath, getByPath, isValidPath, setByPath } from '../../paths';
+import type { AIPayload } from '../../types/payloads';
+import { createPipelineError } from './helpers';
+
+interface AIFieldRef {
+	item: ContentItem;
+	componentIds: string[];
+	paths: string[];
+}
+
+/**
+ * One top-level slice of the AIS generated by its own model call.
+ */
+export interface TemplateSection {
+	id: string;
+	componentIds: string[];
+	units: string[];
+	/** aiDeps declared by the section's items that it does not generate itself */
+	deps: string[];
+}
+
+/**
+ * Resolve outputPaths, path prefixes, AI item ids, or component ids to regeneration units.
+ *
+ * @throws {PipelineError} regeneration-target when a target matches no AI field
+ */
+export function resolveRegenerationUnits(template: NoteTemplate, targets: string[]): string[] {
+	if (targets.length === 0) {
+		throw createPipelineError('At least one regeneration target is required', 'regeneration-target');
+	}
+
+	const fields = collectAIFields(template.layout);
+	const paths = new Set<string>();
+
+	for (const target of targets) {
+		const matched = fields.filter(
+			(field) =>
+				field.item.id === target ||
+				field.componentIds.includes(target) ||
+				field.paths.some((path) => coversPath(target, path))
+		);
+
+		if (matched.length === 0) {
+			throw createPipelineError(
+				`Regeneration target "${target}" does not match any AI field or component`,
+				'regeneration-target',
+				{ target }
+			);
+		}
+
+		matched.forEach((field) => field.paths.forEach((path) => paths.add(path)));
+	}
+
+	return normalizeUnits(Array.from(paths));
+}
+
+/**
+ * Copy the template keeping only AI items that fall under the given units.
+ * Components left without selected items are dropped.
+ */
+export function selectTemplateFields(template: NoteTemplate, units: string[]): NoteTemplate {
+	const isSelected = (item: ContentItem) =>
+		item.slot === 'ai' && collectItemPaths(item).some((path) => isUnderUnits(path, units));
+
+	const filterComponent = (component: Component): Component | undefined => {
+		const content = (component.content ?? []).filter(isSelected);
+		const children = (component.children ?? [])
+			.map(filterComponent)
+			.filter((child): child is Component => Boolean(child));
+
+		if (content.length === 0 && children.length === 0) {
+			return undefined;
+		}
+
+		return {
+			...component,
+			content: content.length > 0 ? content : undefined,
+			children: children.length > 0 ? children : undefined,
+		};
+	};
+
+	return {
+		...template,
+		layout: template.layout
+			.map(filterComponent)
+			.filter((component): component is Component => Boolean(component)),
+	};
+}
+
+/**
+ * Prune an AIS schema to the given units, keeping required lists consistent.
+ * The label names the slice in the schema title (default: regenerate).
+ */
+export function pickSchemaPaths(schema: DerivedSchema, units: string[], label = 'regenerate'): DerivedSchema {
+	const root: SchemaNode = { type: 'object', additionalProperties: false, properties: {} };
+	const source = schema as SchemaNode;
+
+	for (const unit of units) {
+		const segments = unitKeys(unit);
+		let from: SchemaNode | undefined = source;
+		let to = root;
+
+		for (let i = 0; i < segments.length && from; i++) {
+			const name = segments[i];
+			const child: SchemaNode | undefined = from.properties?.[name];
+			if (!child) {
+				break;
+			}
+
+			to.properties = to.properties ?? {};
+			if (i === segments.length - 1) {
+				to.properties[name] = structuredClone(child);
+			} else if (!to.properties[name]) {
+				const shell: SchemaNode = { ...child, properties: {} };
+				delete shell.required;
+				to.properties[name] = shell;
+			}
+
+			appendRequired(to, name, from);
+			from = child;
+			to = to.properties[name];
+		}
+	}
+
+	const fields = units.join(',');
+	return {
+		...schema,
+		$id: `${schema.$id}?fields=${encodeURIComponent(fields)}`,
+		title: `${schema.title} (${label}: ${fields})`,
+		properties: root.properties ?? {},
+		required: root.required ?? [],
+	};
+}
+
+/**
+ * Copy AI output without the given units (the read-only context for regeneration).
+ */
+export function omitPaths(output: AIPayload, units: string[]): AIPayload {
+	const copy = structuredClone(output);
+
+	for (const unit of units) {
+		removeUnit(copy, unitSteps(unit));
+	}
+
+	return pruneEmptyObjects(copy);
+}
+
+/**
+ * Overlay regenerated unit values onto the previous AI output.
+ */
+export function applyFieldValues(previous: AIPayload, regenerated: AIPayload, units: string[]): AIPayload {
+	const merged = structuredClone(previous);
+
+	for (const unit of units) {
+		const steps = unitSteps(unit);
+		const path = formatPath(steps);
+		const value = getByPath(regenerated, path);
+		if (value === undefined) {
+			continue;
+		}
+
+		// setByPath merges into existing arrays; regenerated units replace them
+		removeUnit(merged, steps);
+		setByPath(merged, path, structuredClone(value));
+	}
+
+	return merged;
+}
+
+/**
+ * Partition a template's AI fields by top-level layout component.
+ *
+ * Components without AI items are skipped. Components that write into the same
+ * unit (e.g. both fill "plan.goals[]") are merged into one section, since their
+ * values can only be generated together.
+ */
+export function partitionSections(template: NoteTemplate): TemplateSection[] {
+	const sections: TemplateSection[] = [];
+
+	for (const component of template.layout) {
+		const fields = collectAIFields([component]);
+		if (fields.length === 0) {
+			continue;
+		}
+
+		let section: TemplateSection = {
+			id: component.id,
+			componentIds: [component.id],
+			units: normalizeUnits(fields.flatMap((field) => field.paths)),
+			deps: fields.flatMap((field) => field.item.aiDeps ?? []),
+		};
+
+		for (const existing of sections.filter((other) => sharesUnits(other, section))) {
+			sections.splice(sections.indexOf(existing), 1);
+			section = {
+				id: `${existing.id}+${section.id}`,
+				componentIds: existing.componentIds.concat(section.componentIds),
+				units: normalizeUnits(existing.units.concat(section.units)),
+				deps: existing.deps.concat(section.deps),
+			};
+		}
+
+		sections.push(section);
+	}
+
+	return sections.map((section) => ({
+		...section,
+		deps: Array.from(new Set(section.deps)).filter((dep) => !isUnderUnits(dep, section.units)),
+	}));
+}
+
+/**
+ * True when a dependency path is generated by (or contains) one of the units.
+ */
+export function dependsOnUnits(dep: string, units: string[]): boolean {
+	return units.some((unit) => coversPath(unit, dep) || coversPath(dep, unit));
+}
+
+function collectAIFields(layout: Component[], ancestors: string[] = []): AIFieldRef[] {
+	const fields: AIFieldRef[] = [];
+
+	for (const component of layout) {
+		const componentIds = [...ancestors, component.id];
+		for (const item of component.content ?? []) {
+			if (item.slot === 'ai') {
+				fields.push({ item, componentIds, paths: collectItemPaths(item) });
+			}
+		}
+		fields.push(...collectAIFields(component.children ?? [], componentIds));
+	}
+
+	return fields;
+}
+
+function collectItemPaths(item: ContentItem): string[] {
+	const nested = [...(item.listItems ?? []), ...(item.tableMap ?? [])];
+	const own = item.slot === 'ai' && item.outputPath ? [item.outputPath] : [];
+	return own.concat(nested.flatMap(collectItemPaths));
+}
+
+/**
+ * True when `prefix` names `path` itself or one of its ancestors.
+ * Targets that are not paths (e.g. component ids with spaces) cover nothing.
+ */
+function coversPath(prefix: string, path: string): boolean {
+	if (!isValidPath(prefix) || !isValidPath(path)) {
+		return false;
+	}
+
+	const base = unitSteps(prefix);
+	const steps = compilePath(path).steps;
+	return base.length <= steps.length && base.every((step, i) => formatPath([step]) === formatPath([steps[i]]));
+}
+
+function normalizeUnits(paths: string[]): string[] {
+	const units = Array.from(new Set(paths.map(toUnit))).sort();
+	return units.filter((unit) => !units.some((other) => other !== unit && coversPath(other, unit)));
+}
+
+function sharesUnits(a: TemplateSection, b: TemplateSection): boolean {
+	return a.units.some((unit) => dependsOnUnits(unit, b.units));
+}
+
+function isUnderUnits(path: string, units: string[]): boolean {
+	return units.some((unit) => coversPath(unit, path));
+}
+
+/**
+ * Cut a path after its first array step: "plan.homework[].text" -> "plan.homework[]".
+ */
+function toUnit(path: string): string {
+	const { steps } = compilePath(path);
+	const wildcard = steps.findIndex((step) => step.kind === 'wildcard');
+	return wildcard === -1 ? path : formatPath(steps.slice(0, wildcard + 1));
+}
+
+/**
+ * Steps addressing a unit's value: the array itself for "plan.homework[]".
+ */
+function unitSteps(unit: string): PathStep[] {
+	const { steps } = compilePath(unit);
+	return steps[steps.length - 1]?.kind === 'wildcard' ? steps.slice(0, -1) : steps;
+}
+
+function unitKeys(unit: string): string[] {
+	return unitSteps(unit).flatMap((step) => (step.kind === 'key' ? [step.key] : []));
+}
+
+function appendRequired(target: SchemaNode, name: string, source: SchemaNode): void {
+	if (!source.required?.includes(name)) {
+		return;
+	}
+	target.required = target.required ?? [];
+	if (!target.required.includes(name)) {
+		target.required.push(name);
+	}
+}
+
+function removeUnit(value: AIPayload, steps: PathStep[]): void {
+	const last = steps[steps.length - 1];
+	const parent = steps.length > 1 ? getByPath(value, formatPath(steps.slice(0, -1))) : value;
+	if (isRecord(parent) && last?.kind === 'key') {
+		delete parent[last.key];
+	}
+}
+
+function pruneEmptyObjects(value: Record<string, unknown>): Record<string, unknown> {
+	for (const [key, child] of Object.entries(value)) {
+		if (isRecord(child)) {
+			pruneEmptyObjects(child);
+			if (Object.keys(child).length === 0) {
+				delete value[key];
+			}
+		}
+	}
+	return value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
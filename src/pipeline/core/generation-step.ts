@@ -0,0 +1,148 @@
+/**
+ * Pipeline Core - Generation Step
+ *
+ * Domain: pipeline/core
+ * Responsibility: Produce AI output for a composed prompt bundle, via the
+ * configured generation provider or an approved mock, with instrumentation.
+ *
+ * SOR: Shared by full runs and field regeneration so both honour the same
+ * mock gating, diagnostics, and error steps.
+ */
+
+import type { PromptBundle } from '../../composition/types';
+import type { NoteTemplate } from '../../derivation/types';
+import { generateWithSchema, OutputValidationError } from '../../integration';
+import type { GenerationResult, IntegrationDiagnosticsLogger } from '../../integration/types';
+import type { SchemaValidator } from '../../validation/types';
+import type { PipelineInstrumentation } from '../logging';
+import type { PipelineOptions } from '../types';
+import { createPipelineError, logVerbose, resolveGenerationProvider, timeStage } from './helpers';
+import { isMockGenerationEnabled, resolveMockGeneration } from './mock-generation';
+import { resolveRepairRounds, runRepairStep } from './repair-step';
+
+interface GenerationStepInput {
+	template: NoteTemplate;
+	prompt: PromptBundle;
+	validator: SchemaValidator;
+	options: PipelineOptions;
+	instrumentation: PipelineInstrumentation;
+	/** Stage name for timing events (default: generateWithSchema) */
+	stage?: string;
+}
+
+interface GenerationStepResult {
+	generation: GenerationResult;
+	mocked: boolean;
+	durationMs: number | undefined;
+}
+
+/**
+ * Generate AI output for a prompt bundle, emitting request/response events.
+ *
+ * Schema-invalid output is sent back for repair when `options.repair` allows it.
+ *
+ * @throws {PipelineError} mock-generation-disabled, mock-generation-invalid, ai-generation, or ai-validation
+ */
+export async function runGenerationStep(input: GenerationStepInput): Promise<GenerationStepResult> {
+	const { template, prompt, validator, options, instrumentation } = input;
+	const mockProvider = options.mockGeneration;
+	const mockFeatureEnabled = isMockGenerationEnabled();
+
+	if (mockProvider && !mockFeatureEnabled) {
+		throw createPipelineError(
+			'Mock generation requested but PIPELINE_ENABLE_MOCK_AI flag is disabled',
+			'mock-generation-disabled'
+		);
+	}
+
+	instrumentation.aiRequest({
+		prompt,
+		model: options.generationOptions?.model,
+		generationOptions: options.generationOptions ? { ...options.generationOptions } : undefined,
+	});
+
+	let generation: GenerationResult;
+	let mocked = false;
+	let durationMs: number | undefined;
+
+	const diagnosticsLogger: IntegrationDiagnosticsLogger = {
+		warn: (event) => {
+			instrumentation.aiDiagnostic({
+				code: event.code,
+				attempt: event.attempt,
+				model: event.model,
+				responseId: event.responseId,
+				promptId: event.promptId,
+				rawPreview: event.rawPreview,
+			});
+		},
+	};
+
+	if (mockProvider && mockFeatureEnabled) {
+		logVerbose(options, 'Using mock AI generation result (PIPELINE_ENABLE_MOCK_AI=true)');
+		try {
+			const mockTiming = await timeStage(() =>
+				resolveMockGeneration({
+					provider: mockProvider,
+					context: {
+						template,
+						prompt,
+						options,
+					},
+					options,
+				})
+			);
+			generation = mockTiming.result.generation;
+			mocked = true;
+			durationMs = mockTiming.durationMs;
+		} catch (error) {
+			throw createPipelineError('Mock generation provider failed', 'mock-generation-invalid', error);
+		}
+	} else {
+		const provider = resolveGenerationProvider(options);
+		try {
+			const generationTiming = await timeStage(() =>
+				generateWithSchema(provider, prompt, validator, options.generationOptions, diagnosticsLogger)
+			);
+			generation = generationTiming.result;
+			durationMs = generationTiming.durationMs;
+		} catch (error) {
+			if (!(error instanceof OutputValidationError)) {
+				throw createPipelineError('AI generation failed', 'ai-generation', error);
+			}
+			if (resolveRepairRounds(options) === 0) {
+				throw createPipelineError('AI output validation failed', 'ai-validation', error.context.errors);
+			}
+
+			const repairTiming = await timeStage(() =>
+				runRepairStep({
+					prompt,
+					validator,
+					rejected: error.context,
+					options,
+					instrumentation,
+					diagnostics: diagnosticsLogger,
+				})
+			);
+			generation = repairTiming.result;
+			durationMs = repairTiming.durationMs;
+		}
+	}
+
+	if (durationMs !== undefined) {
+		instrumentation.stageTiming({ stage: input.stage ?? 'generateWithSchema', durationMs });
+	}
+
+	const aiResultForLogging = instrumentation.capturePromptMetadata
+		? generation
+		: { ...generation, promptId: undefined, responseId: undefined };
+
+	instrumentation.aiResponse({
+		result: aiResultForLogging,
+		mocked: mocked ? true : undefined,
+		durationMs,
+		retries: generation.retries,
+	});
+
+	return { generation, mocked, durationMs };
+}
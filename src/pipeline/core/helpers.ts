@@ -8,7 +8,8 @@
 
 import { performance } from 'node:perf_hooks';
 import OpenAI from 'openai';
-import { createOpenAIClient } from '../../integration';
+import { createOpenAIClient, createOpenAIResponsesProvider } from '../../integration';
+import type { GenerationProvider } from '../../integration/types';
 import type { PipelineError, PipelineOptions } from '../types';
 
 /**
@@ -35,25 +36,25 @@ export function logVerbose(options: PipelineOptions, message: string): void {
   }
 }
 
-export interface ClientResolution {
-	client: OpenAI;
-}
-
 /**
- * Resolve the OpenAI client to use for this pipeline run without mutating global state.
+ * Resolve the generation provider for this pipeline run without mutating global state.
+ *
+ * Precedence: provider, openaiClient, openaiKey, then OPENAI_API_KEY.
  */
-export function resolveOpenAIClient(options: PipelineOptions): ClientResolution {
+export function resolveGenerationProvider(options: PipelineOptions): GenerationProvider {
+	if (options.provider) {
+		return options.provider;
+	}
+
 	if (options.openaiClient) {
-		return { client: options.openaiClient };
+		return createOpenAIResponsesProvider({ client: options.openaiClient });
 	}
 
 	if (options.openaiKey) {
-		return {
-			client: new OpenAI({ apiKey: options.openaiKey }),
-		};
+		return createOpenAIResponsesProvider({ client: new OpenAI({ apiKey: options.openaiKey }) });
 	}
 
-	return { client: createOpenAIClient() };
+	return createOpenAIResponsesProvider({ client: createOpenAIClient() });
 }
 
 /**
@@ -6,15 +6,20 @@
  * without bloating the main pipeline orchestrator.
  */
 
+import type { FieldGuideEntry } from '../../composition/types';
+import { synthesizeOutput } from '../../integration';
 import { DEFAULT_OPTIONS, type GenerationResult } from '../../integration/types';
+import type { AIPayload } from '../../types/payloads';
 import type {
   MockGenerationContext,
   MockGenerationProvider,
   MockGenerationResult,
   PipelineOptions,
+  SynthesizedMockOptions,
 } from '../types';
 
 const MOCK_ENV_FLAG = 'PIPELINE_ENABLE_MOCK_AI';
+const SYNTHESIZED_MODEL = 'synthesized-mock';
 
 /**
  * Determine whether mock AI generations are permitted for the current process.
@@ -74,6 +79,37 @@ export async function resolveMockGeneration(
   };
 }
 
+/**
+ * Create a mock provider that synthesizes a valid payload from the prompt's AIS.
+ *
+ * Honors enum, pattern, word/sentence limits, and array shapes; filler text
+ * starts from each field's guide description (or guidance). Plug it into
+ * `options.mockGeneration` to preview layouts or run golden tests with zero
+ * model calls.
+ */
+export function createSynthesizedMockGeneration(
+  options: SynthesizedMockOptions = {}
+): MockGenerationProvider {
+  return ({ prompt }: MockGenerationContext): MockGenerationResult => ({
+    output: synthesizeOutput(prompt.jsonSchema, {
+      seed: options.seed,
+      descriptions: collectDescriptions(prompt.fieldGuide),
+    }) as AIPayload,
+    model: options.model ?? SYNTHESIZED_MODEL,
+  });
+}
+
+function collectDescriptions(entries: FieldGuideEntry[]): Record<string, string> {
+  const descriptions: Record<string, string> = {};
+  for (const entry of entries) {
+    const text = entry.description ?? entry.guidance?.join(' ');
+    if (text) {
+      descriptions[entry.path] = text;
+    }
+  }
+  return descriptions;
+}
+
 function normaliseUsage(
   usage?: Partial<GenerationResult['usage']>
 ): GenerationResult['usage'] {
@@ -9,23 +9,12 @@
  * DI: Receives all dependencies via imports, pure functional composition
  */
 
-import { composePrompt } from '../../composition';
 import type { LintIssue } from '../../composition/types';
 import { deriveAIS, deriveNAS, mergeToRPS } from '../../derivation';
-import type { TemplateStyle } from '../../derivation/types';
-import { renderNoteHTML } from '../../factory';
-import { generateWithSchema } from '../../integration';
-import type { GenerationResult, IntegrationDiagnosticsLogger } from '../../integration/types';
-import type { DesignTokens, Layout } from '../../tokens';
-import { compileCSS } from '../../tokens';
-import defaultTokensRaw from '../../tokens/defaults/default-tokens.json';
-import type { FactPack } from '../../types/payloads';
-import {
-	getAIOutputValidator,
-	lintNoteTemplate,
-	validateAIS,
-	validateNoteTemplate,
-} from '../../validation';
+import type { NoteTemplate } from '../../derivation/types';
+import type { GenerationResult } from '../../integration/types';
+import type { FactPack, PayloadsOf } from '../../types/payloads';
+import { getAIOutputValidator, validateAIS } from '../../validation';
 import { createPipelineInstrumentation } from '../logging';
 import type {
 	MergeConflictWarning,
@@ -35,127 +24,23 @@ import type {
 	PipelineOutput,
 	PipelineWarning,
 	PipelineWarnings,
+	SectionGenerationSummary,
 } from '../types';
 import { PipelineWarningSeverity } from '../types';
-import { createPipelineError, logVerbose, resolveOpenAIClient, timeStage } from './helpers';
+import { runGenerationStep } from './generation-step';
+import { createPipelineError, logVerbose, timeStage } from './helpers';
 import { collectMergeConflicts, mergePayloads } from './merger';
-import { isMockGenerationEnabled, resolveMockGeneration } from './mock-generation';
-import { diagnoseTokens } from './tokens-diagnostics';
-import {
-	mapResolutionSeverity,
-	mapTemplateSeverity,
-	shouldFailGuard,
-	shouldFailMerge,
-} from './warnings';
-
-function cloneTokens(tokens: DesignTokens): DesignTokens {
-	return JSON.parse(JSON.stringify(tokens)) as DesignTokens;
-}
-
-function applyTemplateStyle(tokens: DesignTokens, style?: TemplateStyle): void {
-	if (!style) return;
-
-	if (style.font) {
-		tokens.typography.fontFamily = style.font;
-	}
-
-	if (typeof style.spacing === 'number') {
-		tokens.spacing.unitPx = style.spacing;
-	}
-
-	if (style.color) {
-		tokens.color.text = style.color;
-	}
-
-	if (style.muted) {
-		tokens.color.muted = style.muted;
-	}
-
-	if (style.accent) {
-		tokens.color.accent = style.accent;
-	}
-
-	if (style.tableDensity) {
-		tokens.table.density = style.tableDensity;
-	}
-
-	if (style.print) {
-		tokens.print.pageSize = style.print.size ?? tokens.print.pageSize;
-		tokens.print.margin = style.print.margin ?? tokens.print.margin;
-		tokens.print.showHeader = style.print.header ?? tokens.print.showHeader;
-		tokens.print.showFooter = style.print.footer ?? tokens.print.showFooter;
-	}
-}
-
-function mergeLayout(base?: Layout, override?: Layout): Layout | undefined {
-	if (!base && !override) {
-		return undefined;
-	}
-
-	const merged: Layout = {
-		...(base ?? {}),
-		...(override ?? {}),
-	};
-
-	if (base?.sectionBanner || override?.sectionBanner) {
-		merged.sectionBanner = {
-			...(base?.sectionBanner ?? {}),
-			...(override?.sectionBanner ?? {}),
-		};
-	}
-
-	return merged;
-}
-
-function mergeDesignTokens(base: DesignTokens, override?: DesignTokens): DesignTokens {
-	if (!override) {
-		return base;
-	}
-
-	return {
-		...base,
-		...override,
-		typography: {
-			...base.typography,
-			...override.typography,
-		},
-		color: {
-			...base.color,
-			...override.color,
-		},
-		spacing: {
-			...base.spacing,
-			...override.spacing,
-		},
-		table: {
-			...base.table,
-			...override.table,
-		},
-		list: {
-			...(base.list ?? {}),
-			...(override.list ?? {}),
-		},
-		layout: mergeLayout(base.layout, override.layout),
-		print: {
-			...base.print,
-			...override.print,
-		},
-		brand: {
-			...(base.brand ?? {}),
-			...(override.brand ?? {}),
-		},
-		surface: {
-			...(base.surface ?? {}),
-			...(override.surface ?? {}),
-		},
-	};
-}
+import { runPromptStep } from './prompt-step';
+import { runRenderStep } from './render-step';
+import { runSectionGeneration } from './section-generation';
+import { runTemplateStep, upgradeTemplate } from './template-step';
+import { mapResolutionSeverity, shouldFailGuard, shouldFailMerge } from './warnings';
 
 /**
  * Run the complete clinical note generation pipeline
  *
  * Steps:
- * 1. Validate template
+ * 1. Validate template (upgraded to the current schema version; failing migrations throw template-migration)
  * 2. Derive AIS, NAS, RPS schemas
  * 3. Resolve NAS data from source
  * 4. Compose prompt bundle
@@ -164,10 +49,19 @@ function mergeDesignTokens(base: DesignTokens, override?: DesignTokens): DesignT
  * 7. Compile CSS from tokens
  * 8. Render final HTML
  *
+ * A TypedNoteTemplate (see `bun run codegen:types`) types aiOutput, payload,
+ * and nasSnapshot of the output; plain templates give untyped payloads.
+ *
  * @param input - Pipeline input configuration
  * @returns Complete pipeline output with HTML, CSS, and metadata
  * @throws {PipelineError} If any step fails
  */
+export async function runPipeline<TTemplate extends NoteTemplate>(
+	input: PipelineInput<TTemplate>
+): Promise<PipelineOutput<PayloadsOf<TTemplate>>>;
+/** Untyped form used by callers that only hold a PipelineInput (server, job queue). */
+export async function runPipeline(input: PipelineInput): Promise<PipelineOutput>;
+/** Shared implementation; payload types exist only at compile time. */
 export async function runPipeline(input: PipelineInput): Promise<PipelineOutput> {
 	const options: PipelineOptions = input.options ? { ...input.options } : {};
 	const validate = options.validateSteps ?? true;
@@ -186,37 +80,11 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineOutput>
 		const pipelineWarnings: PipelineWarnings = {};
 		// Step 1: Validate template
 		logVerbose(options, 'Step 1/8: Validating note template...');
-		const templateResult = validateNoteTemplate(input.template);
-		if (!templateResult.ok) {
-			throw createPipelineError(
-				'Template validation failed',
-				'template-validation',
-				templateResult.errors
-			);
-		}
 
-		const templateLint = lintNoteTemplate(input.template);
-		if (templateLint.errors.length > 0) {
-			throw createPipelineError('Template lint failed', 'template-lint', templateLint.errors);
-		}
-
-		const templateWarnings = templateLint.warnings.map((issue) => ({
-			issue,
-			severity: mapTemplateSeverity(issue.severity),
-			code: issue.code,
-		}));
-
-		if (
-			templateWarnings.length > 0 &&
-			shouldFailGuard(options.guards?.templateLint, templateWarnings)
-		) {
-			throw createPipelineError(
-				'Template lint warnings present',
-				'template-lint-warning',
-				templateWarnings
-			);
-		}
+		// Templates stored against an older schema version run in their upgraded form
+		input = { ...input, template: upgradeTemplate(input.template) };
 
+		const templateWarnings = runTemplateStep(input.template, options);
 		if (templateWarnings.length > 0) {
 			pipelineWarnings.template = templateWarnings;
 		}
@@ -316,149 +184,62 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineOutput>
 
 		logVerbose(options, `Resolved ${resolutionResult.resolved.length} fields`);
 
-		// Step 6: Compose prompt bundle
-		logVerbose(options, 'Step 6/8: Composing prompt bundle...');
-		const composeTiming = await timeStage(async () =>
-			composePrompt({
-				template: input.template,
-				aiSchema: ais,
-				nasSnapshot: resolvedNasData,
-				factPack: input.sourceData as FactPack,
-			})
-		);
-		const promptResult = composeTiming.result;
-		instrumentation.stageTiming({ stage: 'composePrompt', durationMs: composeTiming.durationMs });
-		const promptBundle = promptResult.bundle;
-
-		const lintResult = promptResult.lint;
-
-		const lintErrors = lintResult.errors.filter((err) => err.check !== 'coverage');
-
-		if (lintErrors.length > 0) {
-			throw createPipelineError('Prompt bundle validation failed', 'prompt-lint', lintErrors);
-		}
-
-		let promptWarnings: PipelineWarning<LintIssue>[] = [];
-		if (lintResult.warnings.length > 0) {
-			promptWarnings = lintResult.warnings.map((warning) => ({
-				issue: warning,
-				severity: PipelineWarningSeverity.Warning,
-				code: warning.check,
-			}));
-
-			if (shouldFailGuard(options.guards?.promptLint, promptWarnings)) {
-				throw createPipelineError(
-					'Prompt bundle warnings present',
-					'prompt-lint-warning',
-					promptWarnings
-				);
-			}
-
-			pipelineWarnings.prompt = promptWarnings;
-
-			if (options.verbose) {
-				console.warn(`Prompt bundle warnings (${lintResult.warnings.length}):`);
-				lintResult.warnings.forEach((w) => {
-					console.warn(`  [${w.check}] ${w.message}`);
-				});
-			}
-		}
-
-		instrumentation.promptComposed({
-			prompt: promptBundle,
-			warnings: promptWarnings.length > 0 ? promptWarnings : undefined,
-		});
-
-		// Step 7: Generate AI output via OpenAI (or approved mock)
-		logVerbose(options, 'Step 7/8: Generating AI output...');
-
+		const strategy = options.generationStrategy ?? { mode: 'single' };
+		const factPack = input.sourceData as FactPack;
 		const aiOutputValidator = getAIOutputValidator(ais);
-		const mockProvider = options.mockGeneration;
-		const mockFeatureEnabled = isMockGenerationEnabled();
-
-		if (mockProvider && !mockFeatureEnabled) {
-			throw createPipelineError(
-				'Mock generation requested but PIPELINE_ENABLE_MOCK_AI flag is disabled',
-				'mock-generation-disabled'
-			);
-		}
-
-		instrumentation.aiRequest({
-			prompt: promptBundle,
-			model: options.generationOptions?.model,
-			generationOptions: options.generationOptions ? { ...options.generationOptions } : undefined,
-		});
-
 		let generation: GenerationResult;
-		let aiResponseMocked = false;
-		let aiDurationMs: number | undefined;
-
-		const diagnosticsLogger: IntegrationDiagnosticsLogger = {
-			warn: (event) => {
-				instrumentation.aiDiagnostic({
-					code: event.code,
-					attempt: event.attempt,
-					model: event.model,
-					responseId: event.responseId,
-					promptId: event.promptId,
-					rawPreview: event.rawPreview,
-				});
-			},
-		};
-
-		if (mockProvider && mockFeatureEnabled) {
-			logVerbose(options, 'Using mock AI generation result (PIPELINE_ENABLE_MOCK_AI=true)');
-			try {
-				const mockTiming = await timeStage(() =>
-					resolveMockGeneration({
-						provider: mockProvider,
-						context: {
-							template: input.template,
-							prompt: promptBundle,
-							options,
-						},
-						options,
-					})
-				);
-				generation = mockTiming.result.generation;
-				aiResponseMocked = true;
-				aiDurationMs = mockTiming.durationMs;
-			} catch (error) {
-				throw createPipelineError(
-					'Mock generation provider failed',
-					'mock-generation-invalid',
-					error
-				);
-			}
+		let aiResponseMocked: boolean;
+		let sections: SectionGenerationSummary[] | undefined;
+		let promptWarnings: PipelineWarning<LintIssue>[];
+
+		if (strategy.mode === 'per-section') {
+			// Steps 6-7 per top-level section: compose and generate each slice, then stitch
+			logVerbose(options, 'Steps 6-7/8: Composing and generating per section...');
+			const sectionResult = await runSectionGeneration({
+				template: input.template,
+				ais,
+				nasSnapshot: resolvedNasData,
+				factPack,
+				options,
+				instrumentation,
+				concurrency: strategy.concurrency,
+			});
+			generation = sectionResult.generation;
+			aiResponseMocked = sectionResult.mocked;
+			sections = sectionResult.sections;
+			promptWarnings = sectionResult.promptWarnings;
 		} else {
-			const { client } = resolveOpenAIClient(options);
-			const generationTiming = await timeStage(() =>
-				generateWithSchema(
-					client,
-					promptBundle,
-					aiOutputValidator,
-					options.generationOptions,
-					diagnosticsLogger
-				)
-			);
-			generation = generationTiming.result;
-			aiDurationMs = generationTiming.durationMs;
+			// Step 6: Compose prompt bundle
+			logVerbose(options, 'Step 6/8: Composing prompt bundle...');
+			const promptStep = await runPromptStep({
+				composition: {
+					template: input.template,
+					aiSchema: ais,
+					nasSnapshot: resolvedNasData,
+					factPack,
+				},
+				options,
+				instrumentation,
+			});
+			promptWarnings = promptStep.warnings;
+
+			// Step 7: Generate AI output via OpenAI (or approved mock)
+			logVerbose(options, 'Step 7/8: Generating AI output...');
+			const generationStep = await runGenerationStep({
+				template: input.template,
+				prompt: promptStep.bundle,
+				validator: aiOutputValidator,
+				options,
+				instrumentation,
+			});
+			generation = generationStep.generation;
+			aiResponseMocked = generationStep.mocked;
 		}
 
-		if (aiDurationMs !== undefined) {
-			instrumentation.stageTiming({ stage: 'generateWithSchema', durationMs: aiDurationMs });
+		if (promptWarnings.length > 0) {
+			pipelineWarnings.prompt = promptWarnings;
 		}
 
-		const aiResultForLogging = capturePromptMetadata
-			? generation
-			: { ...generation, promptId: undefined, responseId: undefined };
-
-		instrumentation.aiResponse({
-			result: aiResultForLogging,
-			mocked: aiResponseMocked ? true : undefined,
-			durationMs: aiDurationMs,
-		});
-
 		const aiWarnings = (generation.warnings ?? []).map((issue) => ({
 			issue,
 			severity: PipelineWarningSeverity.Warning,
@@ -535,50 +316,14 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineOutput>
 
 		const finalPayload = mergePayloads(generation.output, resolvedNasData);
 
-		// Compile CSS from design tokens
-		const defaultTokens = cloneTokens(defaultTokensRaw as DesignTokens);
-		const templateAdjustedTokens = cloneTokens(defaultTokens);
-		applyTemplateStyle(templateAdjustedTokens, input.template.style);
-		const tokens = mergeDesignTokens(templateAdjustedTokens, input.tokens);
-		const tokenDiagnostics = diagnoseTokens(
-			defaultTokens,
-			templateAdjustedTokens,
-			input.tokens,
-			tokens
-		);
-
-		instrumentation.tokenDiagnostics({ diagnostics: tokenDiagnostics });
-
-		instrumentation.mergeCompleted({
-			finalPayload,
-			tokens,
+		// Compile CSS from design tokens and render
+		const { html, text, markdown, docx, css, tokenDiagnostics } = await runRenderStep({
+			template: input.template,
+			payload: finalPayload,
+			tokenOverrides: input.tokens,
 			conflicts: mergeConflicts,
-		});
-
-		const cssTiming = await timeStage(async () => compileCSS(tokens));
-		const css = cssTiming.result;
-		instrumentation.stageTiming({ stage: 'compileCSS', durationMs: cssTiming.durationMs });
-
-		const renderTiming = await timeStage(async () =>
-			renderNoteHTML({
-				template: input.template,
-				payload: finalPayload,
-				tokens,
-				options: {
-					provenance: options.provenance,
-					styles: {
-						inlineScreen: css.screen,
-						inlinePrint: css.print,
-					},
-				},
-			})
-		);
-		const html = renderTiming.result;
-		instrumentation.stageTiming({ stage: 'renderNoteHTML', durationMs: renderTiming.durationMs });
-
-		instrumentation.render({
-			htmlLength: html.length,
-			cssHash: css.hash,
+			options,
+			instrumentation,
 		});
 
 		logVerbose(options, 'Pipeline complete!');
@@ -592,8 +337,16 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineOutput>
 
 		return {
 			html,
+			...(text !== undefined ? { text } : {}),
+			...(markdown !== undefined ? { markdown } : {}),
+			...(docx !== undefined ? { docx } : {}),
 			css,
 			aiOutput: generation.output,
+			template: {
+				id: input.template.id,
+				name: input.template.name,
+				version: input.template.version,
+			},
 			schemas: { ais, nas, rps },
 			usage: generation.usage,
 			model: generation.model,
@@ -604,6 +357,7 @@ export async function runPipeline(input: PipelineInput): Promise<PipelineOutput>
 			payload: finalPayload,
 			nasSnapshot: resolvedNasData,
 			tokenDiagnostics,
+			sections,
 		};
 	} catch (error) {
 		const pipelineError =
@@ -0,0 +1,80 @@
+/**
+ * Pipeline Core - Prompt Step
+ *
+ * Domain: pipeline/core
+ * Responsibility: Compose a prompt bundle, apply prompt lint guards, and emit
+ * the prompt instrumentation event.
+ *
+ * SOR: Shared by full runs, per-section generation, and field regeneration so
+ * every bundle passes the same lint gates.
+ */
+
+import { composePrompt } from '../../composition';
+import type { CompositionInput, LintIssue, PromptBundle } from '../../composition/types';
+import type { PipelineInstrumentation } from '../logging';
+import type { PipelineOptions, PipelineWarning } from '../types';
+import { PipelineWarningSeverity } from '../types';
+import { createPipelineError, timeStage } from './helpers';
+import { shouldFailGuard } from './warnings';
+
+interface PromptStepInput {
+	composition: CompositionInput;
+	options: PipelineOptions;
+	instrumentation: PipelineInstrumentation;
+	/** Stage name for timing events (default: composePrompt) */
+	stage?: string;
+}
+
+interface PromptStepResult {
+	bundle: PromptBundle;
+	warnings: PipelineWarning<LintIssue>[];
+}
+
+/**
+ * Compose and lint a prompt bundle.
+ *
+ * @throws {PipelineError} prompt-lint on lint errors, prompt-lint-warning when guarded
+ */
+export async function runPromptStep(input: PromptStepInput): Promise<PromptStepResult> {
+	const { composition, options, instrumentation } = input;
+
+	const composeTiming = await timeStage(async () => composePrompt(composition));
+	instrumentation.stageTiming({
+		stage: input.stage ?? 'composePrompt',
+		durationMs: composeTiming.durationMs,
+	});
+
+	const { bundle, lint } = composeTiming.result;
+
+	// Coverage mismatches are reported by template lint; they never block generation.
+	const lintErrors = lint.errors.filter((err) => err.check !== 'coverage');
+	if (lintErrors.length > 0) {
+		throw createPipelineError('Prompt bundle validation failed', 'prompt-lint', lintErrors);
+	}
+
+	const warnings: PipelineWarning<LintIssue>[] = lint.warnings.map((warning) => ({
+		issue: warning,
+		severity: PipelineWarningSeverity.Warning,
+		code: warning.check,
+	}));
+
+	if (warnings.length > 0) {
+		if (shouldFailGuard(options.guards?.promptLint, warnings)) {
+			throw createPipelineError('Prompt bundle warnings present', 'prompt-lint-warning', warnings);
+		}
+
+		if (options.verbose) {
+			console.warn(`Prompt bundle warnings (${warnings.length}):`);
+			lint.warnings.forEach((w) => {
+				console.warn(`  [${w.check}] ${w.message}`);
+			});
+		}
+	}
+
+	instrumentation.promptComposed({
+		prompt: bundle,
+		warnings: warnings.length > 0 ? warnings : undefined,
+	});
+
+	return { bundle, warnings };
+}
@@ -0,0 +1,239 @@
+/**
+ * Pipeline Core - Field Regeneration
+ *
+ * Domain: pipeline/core
+ * Responsibility: Regenerate selected AI fields of an existing note, keeping
+ * accepted fields untouched, then re-merge and re-render.
+ *
+ * SOR: Reuses the prior output's NAS snapshot and AIS; source data is never
+ * re-resolved, so accepted values cannot drift.
+ * SOD: Prompt, generation, and rendering are shared with runPipeline via step modules.
+ */
+
+import { deriveNAS, mergeToRPS } from '../../derivation';
+import type { FactPack } from '../../types/payloads';
+import { getAIOutputValidator } from '../../validation';
+import { createPipelineInstrumentation } from '../logging';
+import type {
+	MergeConflictWarning,
+	PipelineError,
+	PipelineOptions,
+	PipelineWarning,
+	PipelineWarnings,
+	RegenerateFieldsInput,
+	RegenerateFieldsOutput,
+} from '../types';
+import { PipelineWarningSeverity } from '../types';
+import {
+	applyFieldValues,
+	omitPaths,
+	pickSchemaPaths,
+	resolveRegenerationUnits,
+	selectTemplateFields,
+} from './field-selection';
+import { runGenerationStep } from './generation-step';
+import { createPipelineError, logVerbose } from './helpers';
+import { collectMergeConflicts, mergePayloads } from './merger';
+import { runPromptStep } from './prompt-step';
+import { runRenderStep } from './render-step';
+import { runTemplateStep, upgradeTemplate } from './template-step';
+import { shouldFailGuard, shouldFailMerge } from './warnings';
+
+/**
+ * Regenerate a subset of AI fields from a prior pipeline output.
+ *
+ * Steps:
+ * 1. Upgrade, validate, and lint the template
+ * 2. Resolve targets (outputPaths, prefixes, item or component ids) to AIS paths
+ * 3. Derive a sub-AIS and sub-template covering only those paths
+ * 4. Compose a prompt with the remaining AI output as read-only context
+ * 5. Generate, overlay the new values, and validate against the full AIS
+ * 6. Merge with the prior NAS snapshot and re-render
+ *
+ * @param input - Template, prior output, and targets
+ * @returns Full pipeline output plus the regenerated paths
+ * @throws {PipelineError} If any step fails
+ */
+export async function regenerateFields(input: RegenerateFieldsInput): Promise<RegenerateFieldsOutput> {
+	const options: PipelineOptions = input.options ? { ...input.options } : {};
+	const validate = options.validateSteps ?? true;
+	const { previous } = input;
+
+	const instrumentation = createPipelineInstrumentation({ template: input.template, options });
+	instrumentation.start();
+
+	const capturePromptMetadata = instrumentation.capturePromptMetadata;
+	const startTime = Date.now();
+
+	try {
+		// Templates stored against an older schema version regenerate in their upgraded form
+		input = { ...input, template: upgradeTemplate(input.template) };
+		const { template } = input;
+		const pipelineWarnings: PipelineWarnings = {};
+		const nasSnapshot = previous.nasSnapshot;
+
+		if (!nasSnapshot) {
+			throw createPipelineError(
+				'Previous output has no NAS snapshot to regenerate against',
+				'regeneration-input'
+			);
+		}
+
+		if (
+			previous.template &&
+			(previous.template.id !== template.id || previous.template.version !== template.version)
+		) {
+			throw createPipelineError(
+				`Previous output was produced by ${previous.template.id}@${previous.template.version}, not ${template.id}@${template.version}`,
+				'regeneration-input',
+				{ previous: previous.template }
+			);
+		}
+
+		// Inline templates reach regeneration without passing through runPipeline
+		logVerbose(options, 'Validating note template...');
+		const templateWarnings = runTemplateStep(template, options);
+		if (templateWarnings.length > 0) {
+			pipelineWarnings.template = templateWarnings;
+		}
+
+		logVerbose(options, 'Resolving regeneration targets...');
+		const units = resolveRegenerationUnits(template, input.targets);
+		const subTemplate = selectTemplateFields(template, units);
+		const subAIS = pickSchemaPaths(previous.schemas.ais, units);
+
+		logVerbose(options, `Regenerating ${units.join(', ')}`);
+
+		const { bundle: promptBundle, warnings: promptWarnings } = await runPromptStep({
+			composition: {
+				template: subTemplate,
+				aiSchema: subAIS,
+				nasSnapshot,
+				factPack: input.sourceData as FactPack | undefined,
+				readOnlyOutput: omitPaths(previous.aiOutput, units),
+			},
+			options,
+			instrumentation,
+		});
+
+		if (promptWarnings.length > 0) {
+			pipelineWarnings.prompt = promptWarnings;
+		}
+
+		const { generation, mocked } = await runGenerationStep({
+			template: subTemplate,
+			prompt: promptBundle,
+			validator: getAIOutputValidator(subAIS),
+			options,
+			instrumentation,
+		});
+
+		const aiOutput = applyFieldValues(previous.aiOutput, generation.output, units);
+
+		const aiWarnings = (generation.warnings ?? []).map((issue) => ({
+			issue,
+			severity: PipelineWarningSeverity.Warning,
+			code: issue.keyword,
+			details: issue,
+		}));
+
+		if (aiWarnings.length > 0) {
+			if (shouldFailGuard(options.guards?.validation, aiWarnings)) {
+				throw createPipelineError(
+					'AI output produced validation warnings',
+					'ai-validation-warning',
+					aiWarnings
+				);
+			}
+			pipelineWarnings.validation = aiWarnings;
+		}
+
+		if (validate) {
+			// Validate the combined note, not just the regenerated slice.
+			const aisResult = getAIOutputValidator(previous.schemas.ais)(aiOutput);
+			if (!aisResult.ok) {
+				throw createPipelineError('AI output validation failed', 'ai-validation', aisResult.errors);
+			}
+		}
+
+		const mergeConflicts = collectMergeConflicts(aiOutput, nasSnapshot);
+		const mergeWarnings: PipelineWarning<MergeConflictWarning>[] = mergeConflicts.map((conflict) => ({
+			issue: conflict,
+			severity: conflict.severity,
+			message: conflict.message,
+		}));
+
+		if (mergeWarnings.length > 0 && shouldFailMerge(options.guards?.merge, mergeWarnings)) {
+			throw createPipelineError('Merge conflicts detected', 'merge-conflict', mergeWarnings);
+		}
+
+		if (mergeWarnings.length > 0) {
+			pipelineWarnings.merge = mergeWarnings;
+		}
+
+		const finalPayload = mergePayloads(aiOutput, nasSnapshot);
+
+		const { html, text, markdown, docx, css, tokenDiagnostics } = await runRenderStep({
+			template,
+			payload: finalPayload,
+			tokenOverrides: input.tokens,
+			conflicts: mergeConflicts,
+			options,
+			instrumentation,
+		});
+
+		const warnings = Object.keys(pipelineWarnings).length > 0 ? pipelineWarnings : undefined;
+
+		instrumentation.complete({
+			durationMs: Date.now() - startTime,
+			warnings,
+		});
+
+		return {
+			html,
+			...(text !== undefined ? { text } : {}),
+			...(markdown !== undefined ? { markdown } : {}),
+			...(docx !== undefined ? { docx } : {}),
+			css,
+			aiOutput,
+			template: {
+				id: template.id,
+				name: template.name,
+				version: template.version,
+			},
+			schemas: resolveSchemas(input),
+			usage: generation.usage,
+			model: generation.model,
+			responseId: capturePromptMetadata ? generation.responseId : undefined,
+			promptId: capturePromptMetadata ? generation.promptId : undefined,
+			aiResponseMocked: mocked ? true : undefined,
+			warnings,
+			payload: finalPayload,
+			nasSnapshot,
+			tokenDiagnostics,
+			regeneratedPaths: units,
+		};
+	} catch (error) {
+		const pipelineError =
+			error && typeof error === 'object' && 'step' in error
+				? (error as PipelineError)
+				: createPipelineError('Field regeneration failed', 'unknown', error);
+
+		instrumentation.error(pipelineError);
+
+		throw pipelineError;
+	}
+}
+
+/**
+ * Reuse the prior schemas, re-deriving NAS/RPS when the caller only kept the AIS.
+ */
+function resolveSchemas(input: RegenerateFieldsInput): RegenerateFieldsOutput['schemas'] {
+	const { template, previous } = input;
+	const ais = previous.schemas.ais;
+	const nas = previous.schemas.nas ?? deriveNAS(template);
+	const rps =
+		previous.schemas.rps ?? mergeToRPS(ais, nas, template.id, template.name, template.version);
+
+	return { ais, nas, rps };
+}
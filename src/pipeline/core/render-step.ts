@@ -0,0 +1,113 @@
+/**
+ * Pipeline Core - Render Step
+ *
+ * Domain: pipeline/core
+ * Responsibility: Resolve design tokens, compile CSS, and render the merged
+ * payload to the requested output formats with instrumentation.
+ *
+ * SOR: Shared by full runs and field regeneration so both render identically.
+ */
+
+import type { NoteTemplate } from '../../derivation/types';
+import { renderNoteDocx, renderNoteHTML, renderNoteMarkdown, renderNoteText } from '../../factory';
+import type { FactoryInputs } from '../../factory';
+import type { CompiledCSS, DesignTokens } from '../../tokens';
+import { compileCSS } from '../../tokens';
+import type { RenderPayload } from '../../types/payloads';
+import type { PipelineInstrumentation } from '../logging';
+import type { MergeConflictWarning, PipelineOptions, TokenDiagnostics } from '../types';
+import { resolveDesignTokens } from './design-tokens';
+import { timeStage } from './helpers';
+import { diagnoseTokens } from './tokens-diagnostics';
+
+interface RenderStepInput {
+	template: NoteTemplate;
+	payload: RenderPayload;
+	tokenOverrides: DesignTokens | undefined;
+	conflicts: MergeConflictWarning[];
+	options: PipelineOptions;
+	instrumentation: PipelineInstrumentation;
+}
+
+interface RenderStepResult {
+	html: string;
+	text?: string;
+	markdown?: string;
+	docx?: Uint8Array;
+	css: CompiledCSS;
+	tokenDiagnostics: TokenDiagnostics;
+}
+
+/**
+ * Render a merged payload to each requested format; HTML embeds the compiled
+ * template-aware CSS.
+ */
+export async function runRenderStep(input: RenderStepInput): Promise<RenderStepResult> {
+	const { template, payload, tokenOverrides, conflicts, options, instrumentation } = input;
+
+	const { defaults, templateAdjusted, tokens } = resolveDesignTokens(template, tokenOverrides);
+	const tokenDiagnostics = diagnoseTokens(defaults, templateAdjusted, tokenOverrides, tokens);
+
+	instrumentation.tokenDiagnostics({ diagnostics: tokenDiagnostics });
+
+	instrumentation.mergeCompleted({
+		finalPayload: payload,
+		tokens,
+		conflicts,
+	});
+
+	const cssTiming = await timeStage(async () => compileCSS(tokens));
+	const css = cssTiming.result;
+	instrumentation.stageTiming({ stage: 'compileCSS', durationMs: cssTiming.durationMs });
+
+	const formats = new Set(options.outputFormats ?? ['html']);
+	const factoryInputs: FactoryInputs = {
+		template,
+		payload,
+		tokens,
+		options: {
+			provenance: options.provenance,
+			dateFormat: options.format?.dateFormat,
+			lang: options.format?.lang,
+			styles: {
+				inlineScreen: css.screen,
+				inlinePrint: css.print,
+			},
+		},
+	};
+
+	let html = '';
+	if (formats.has('html')) {
+		const renderTiming = await timeStage(async () => renderNoteHTML(factoryInputs));
+		html = renderTiming.result;
+		instrumentation.stageTiming({ stage: 'renderNoteHTML', durationMs: renderTiming.durationMs });
+	}
+
+	let text: string | undefined;
+	if (formats.has('text')) {
+		const textTiming = await timeStage(async () => renderNoteText(factoryInputs, options.textOptions));
+		text = textTiming.result;
+		instrumentation.stageTiming({ stage: 'renderNoteText', durationMs: textTiming.durationMs });
+	}
+
+	let markdown: string | undefined;
+	if (formats.has('markdown')) {
+		const markdownTiming = await timeStage(async () => renderNoteMarkdown(factoryInputs, options.textOptions));
+		markdown = markdownTiming.result;
+		instrumentation.stageTiming({ stage: 'renderNoteMarkdown', durationMs: markdownTiming.durationMs });
+	}
+
+	let docx: Uint8Array | undefined;
+	if (formats.has('docx')) {
+		const docxTiming = await timeStage(async () => renderNoteDocx(factoryInputs));
+		docx = docxTiming.result;
+		instrumentation.stageTiming({ stage: 'renderNoteDocx', durationMs: docxTiming.durationMs });
+	}
+
+	instrumentation.render({
+		htmlLength: html.length,
+		cssHash: css.hash,
+	});
+
+	return { html, text, markdown, docx, css, tokenDiagnostics };
+}
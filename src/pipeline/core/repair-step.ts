@@ -0,0 +1,144 @@
+/**
+ * Pipeline Core - Repair Step
+ *
+ * Domain: pipeline/core
+ * Responsibility: Send AIS validation errors back to the model and re-validate,
+ * for a bounded number of rounds, recording every attempt.
+ *
+ * SOR: Issues come from the validation error classifier, so soft text keywords
+ * (x-minWords, x-minSentences) stay warnings and never trigger a repair.
+ */
+
+import { composeRepairPrompt } from '../../composition';
+import type { PromptBundle } from '../../composition/types';
+import { generateWithSchema, OutputValidationError } from '../../integration';
+import type {
+	GenerationResult,
+	IntegrationDiagnosticsLogger,
+	OutputValidationErrorContext,
+} from '../../integration/types';
+import { resolveIssuePath } from '../../validation';
+import type { SchemaValidator } from '../../validation/types';
+import type { PipelineInstrumentation } from '../logging';
+import type { PipelineOptions } from '../types';
+import { createPipelineError, logVerbose, resolveGenerationProvider } from './helpers';
+
+/** Repair rounds when `options.repair` is set without maxRounds */
+export const DEFAULT_REPAIR_ROUNDS = 2;
+
+interface RepairStepInput {
+	prompt: PromptBundle;
+	validator: SchemaValidator;
+	/** Rejected generation to repair */
+	rejected: OutputValidationErrorContext;
+	options: PipelineOptions;
+	instrumentation: PipelineInstrumentation;
+	diagnostics?: IntegrationDiagnosticsLogger;
+}
+
+/**
+ * Resolve the configured repair rounds (0 when repair is off).
+ */
+export function resolveRepairRounds(options: PipelineOptions): number {
+	if (!options.repair) {
+		return 0;
+	}
+	return Math.max(0, Math.floor(options.repair.maxRounds ?? DEFAULT_REPAIR_ROUNDS));
+}
+
+/**
+ * Ask the model to fix the offending paths until the output validates.
+ *
+ * Usage and transient retries from the rejected attempt and every repair round
+ * are summed into the returned result; each round emits an aiRepair event.
+ *
+ * @throws {PipelineError} ai-validation when rounds run out, ai-generation when a repair request fails
+ */
+export async function runRepairStep(input: RepairStepInput): Promise<GenerationResult> {
+	const { prompt, validator, options, instrumentation } = input;
+	const maxRounds = resolveRepairRounds(options);
+	const provider = resolveGenerationProvider(options);
+	const capture = instrumentation.capturePromptMetadata;
+
+	let rejected = input.rejected;
+	const usage = { ...rejected.usage };
+	let retries = rejected.retries;
+
+	for (let round = 1; round <= maxRounds; round++) {
+		const issues = rejected.errors;
+		const paths = Array.from(new Set(issues.map((issue) => resolveIssuePath(issue) || '(root)')));
+		logVerbose(options, `Repair round ${round}/${maxRounds}: ${paths.join(', ')}`);
+
+		const repairPrompt = composeRepairPrompt(prompt, rejected.output, issues, round);
+		const started = Date.now();
+
+		try {
+			const result = await generateWithSchema(
+				provider,
+				repairPrompt,
+				validator,
+				options.generationOptions,
+				input.diagnostics
+			);
+			addUsage(usage, result.usage);
+			retries += result.retries ?? 0;
+
+			instrumentation.aiRepair({
+				round,
+				maxRounds,
+				paths,
+				issues,
+				outcome: 'repaired',
+				model: result.model,
+				responseId: capture ? result.responseId : undefined,
+				usage: result.usage,
+				durationMs: Date.now() - started,
+			});
+
+			return { ...result, usage, retries };
+		} catch (error) {
+			if (!(error instanceof OutputValidationError)) {
+				instrumentation.aiRepair({
+					round,
+					maxRounds,
+					paths,
+					issues,
+					outcome: 'failed',
+					durationMs: Date.now() - started,
+				});
+				throw createPipelineError('AI generation failed', 'ai-generation', error);
+			}
+
+			const next = error.context;
+			addUsage(usage, next.usage);
+			retries += next.retries;
+
+			instrumentation.aiRepair({
+				round,
+				maxRounds,
+				paths,
+				issues,
+				outcome: 'invalid',
+				remainingIssues: next.errors,
+				model: next.model,
+				responseId: capture ? next.responseId : undefined,
+				usage: next.usage,
+				durationMs: Date.now() - started,
+			});
+
+			rejected = next;
+		}
+	}
+
+	throw createPipelineError(
+		`AI output failed validation after ${maxRounds} repair round(s)`,
+		'ai-validation',
+		rejected.errors
+	);
+}
+
+function addUsage(total: GenerationResult['usage'], usage: GenerationResult['usage']): void {
+	total.promptTokens += usage.promptTokens;
+	total.completionTokens += usage.completionTokens;
+	total.totalTokens += usage.totalTokens;
+}
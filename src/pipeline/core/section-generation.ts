@@ -0,0 +1,284 @@
+/**
+ * Pipeline Core - Section Generation
+ *
+ * Domain: pipeline/core
+ * Responsibility: Generate AI output one top-level section at a time, running
+ * independent sections concurrently (capped) and stitching the results back
+ * into a single generation result.
+ *
+ * SOR: Section boundaries come from field-selection; sections whose aiDeps
+ * point at another section's output run after it and see its values in context.
+ * SOD: Prompt composition and model calls are delegated to the shared steps.
+ */
+
+import type { LintIssue } from '../../composition/types';
+import type { DerivedSchema, NoteTemplate } from '../../derivation/types';
+import type { GenerationResult } from '../../integration/types';
+import type { AIPayload, FactPack, NasSnapshot } from '../../types/payloads';
+import { getAIOutputValidator } from '../../validation';
+import type { PipelineInstrumentation } from '../logging';
+import type { PipelineOptions, PipelineWarning, SectionGenerationSummary } from '../types';
+import {
+	applyFieldValues,
+	dependsOnUnits,
+	partitionSections,
+	pickSchemaPaths,
+	selectTemplateFields,
+	type TemplateSection,
+} from './field-selection';
+import { runGenerationStep } from './generation-step';
+import { createPipelineError, logVerbose } from './helpers';
+import { mergePayloads } from './merger';
+import { runPromptStep } from './prompt-step';
+
+/** Sections generated at once when the strategy does not set a cap */
+export const DEFAULT_SECTION_CONCURRENCY = 3;
+
+interface SectionGenerationInput {
+	template: NoteTemplate;
+	ais: DerivedSchema;
+	nasSnapshot: NasSnapshot;
+	factPack?: FactPack;
+	options: PipelineOptions;
+	instrumentation: PipelineInstrumentation;
+	concurrency?: number;
+}
+
+interface SectionGenerationResult {
+	/** Stitched output with summed usage and retries */
+	generation: GenerationResult;
+	mocked: boolean;
+	promptWarnings: PipelineWarning<LintIssue>[];
+	sections: SectionGenerationSummary[];
+}
+
+interface SectionPlan extends TemplateSection {
+	dependsOn: string[];
+}
+
+interface SectionRun {
+	generation: GenerationResult;
+	mocked: boolean;
+	promptWarnings: PipelineWarning<LintIssue>[];
+	durationMs: number;
+}
+
+/**
+ * Generate AI output per top-level section and stitch the results.
+ *
+ * @throws {PipelineError} generation-strategy when sections cannot be scheduled,
+ * or the first failing section's error once running sections settle
+ */
+export async function runSectionGeneration(
+	input: SectionGenerationInput
+): Promise<SectionGenerationResult> {
+	const plans = planSections(input.template);
+	const limit = Math.max(1, Math.floor(input.concurrency ?? DEFAULT_SECTION_CONCURRENCY));
+
+	logVerbose(
+		input.options,
+		`Generating ${plans.length} sections (concurrency ${limit}): ${plans.map((plan) => plan.id).join(', ')}`
+	);
+
+	const runs = new Map<string, SectionRun>();
+	const queue = [...plans];
+	const running = new Set<Promise<void>>();
+	let failure: unknown;
+
+	const launch = (plan: SectionPlan) => {
+		const task: Promise<void> = generateSection(plan, plans, runs, input)
+			.then(
+				(run) => {
+					runs.set(plan.id, run);
+				},
+				(error: unknown) => {
+					failure = failure ?? error;
+				}
+			)
+			.finally(() => {
+				running.delete(task);
+			});
+		running.add(task);
+	};
+
+	while (queue.length > 0 || running.size > 0) {
+		while (failure === undefined && running.size < limit) {
+			const index = queue.findIndex((plan) => plan.dependsOn.every((id) => runs.has(id)));
+			if (index === -1) {
+				break;
+			}
+			launch(queue.splice(index, 1)[0]);
+		}
+
+		if (running.size === 0) {
+			break;
+		}
+		await Promise.race(running);
+	}
+
+	if (failure !== undefined) {
+		throw failure;
+	}
+
+	return stitchSections(plans, runs, input.instrumentation.capturePromptMetadata);
+}
+
+/**
+ * Partition the template and resolve section dependencies, rejecting cycles.
+ * Templates without AI fields yield no sections (an empty AI payload), as in single mode.
+ */
+function planSections(template: NoteTemplate): SectionPlan[] {
+	const sections = partitionSections(template);
+
+	const plans = sections.map((section) => ({
+		...section,
+		dependsOn: sections
+			.filter(
+				(other) => other.id !== section.id && section.deps.some((dep) => dependsOnUnits(dep, other.units))
+			)
+			.map((other) => other.id),
+	}));
+
+	const cycle = findCycle(plans);
+	if (cycle) {
+		throw createPipelineError(
+			`Sections depend on each other through aiDeps: ${cycle.join(' -> ')}`,
+			'generation-strategy',
+			{ cycle }
+		);
+	}
+
+	return plans;
+}
+
+function findCycle(plans: SectionPlan[]): string[] | undefined {
+	const byId = new Map(plans.map((plan) => [plan.id, plan]));
+	const done = new Set<string>();
+
+	const visit = (id: string, trail: string[]): string[] | undefined => {
+		const start = trail.indexOf(id);
+		if (start !== -1) {
+			return trail.slice(start).concat(id);
+		}
+		if (done.has(id)) {
+			return undefined;
+		}
+
+		for (const dep of byId.get(id)?.dependsOn ?? []) {
+			const cycle = visit(dep, trail.concat(id));
+			if (cycle) {
+				return cycle;
+			}
+		}
+		done.add(id);
+		return undefined;
+	};
+
+	for (const plan of plans) {
+		const cycle = visit(plan.id, []);
+		if (cycle) {
+			return cycle;
+		}
+	}
+	return undefined;
+}
+
+async function generateSection(
+	plan: SectionPlan,
+	plans: SectionPlan[],
+	runs: Map<string, SectionRun>,
+	input: SectionGenerationInput
+): Promise<SectionRun> {
+	const startTime = Date.now();
+	const subTemplate = selectTemplateFields(input.template, plan.units);
+	const subAIS = pickSchemaPaths(input.ais, plan.units, 'section');
+
+	// Upstream section values join the snapshot so sliceContext can serve them as dependencies.
+	const upstream = plan.dependsOn.reduce<AIPayload>((acc, id) => {
+		const source = plans.find((other) => other.id === id);
+		const run = runs.get(id);
+		return source && run ? applyFieldValues(acc, run.generation.output, source.units) : acc;
+	}, {});
+	const nasSnapshot =
+		plan.dependsOn.length > 0 ? mergePayloads(upstream, input.nasSnapshot) : input.nasSnapshot;
+
+	const { bundle, warnings } = await runPromptStep({
+		composition: {
+			template: subTemplate,
+			aiSchema: subAIS,
+			nasSnapshot,
+			factPack: input.factPack,
+		},
+		options: input.options,
+		instrumentation: input.instrumentation,
+		stage: `composePrompt:${plan.id}`,
+	});
+
+	const { generation, mocked } = await runGenerationStep({
+		template: subTemplate,
+		prompt: bundle,
+		validator: getAIOutputValidator(subAIS),
+		options: input.options,
+		instrumentation: input.instrumentation,
+		stage: `generateWithSchema:${plan.id}`,
+	});
+
+	return { generation, mocked, promptWarnings: warnings, durationMs: Date.now() - startTime };
+}
+
+function stitchSections(
+	plans: SectionPlan[],
+	runs: Map<string, SectionRun>,
+	capturePromptMetadata: boolean
+): SectionGenerationResult {
+	let output: AIPayload = {};
+	const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+	const warnings: NonNullable<GenerationResult['warnings']> = [];
+	const promptWarnings: PipelineWarning<LintIssue>[] = [];
+	const sections: SectionGenerationSummary[] = [];
+	let retries = 0;
+	let mocked = false;
+
+	for (const plan of plans) {
+		const run = runs.get(plan.id);
+		if (!run) {
+			continue;
+		}
+		const { generation } = run;
+
+		output = applyFieldValues(output, generation.output, plan.units);
+		usage.promptTokens += generation.usage.promptTokens;
+		usage.completionTokens += generation.usage.completionTokens;
+		usage.totalTokens += generation.usage.totalTokens;
+		retries += generation.retries ?? 0;
+		mocked = mocked || run.mocked;
+		warnings.push(...(generation.warnings ?? []));
+		promptWarnings.push(...run.promptWarnings);
+
+		sections.push({
+			id: plan.id,
+			componentIds: plan.componentIds,
+			paths: plan.units,
+			dependsOn: plan.dependsOn,
+			model: generation.model,
+			usage: { ...generation.usage },
+			retries: generation.retries ?? 0,
+			durationMs: run.durationMs,
+			responseId: capturePromptMetadata ? generation.responseId : undefined,
+			mocked: run.mocked ? true : undefined,
+		});
+	}
+
+	return {
+		generation: {
+			output,
+			usage,
+			model: sections[0]?.model ?? '',
+			warnings: warnings.length > 0 ? warnings : undefined,
+			retries,
+		},
+		mocked,
+		promptWarnings,
+		sections,
+	};
+}
@@ -0,0 +1,80 @@
+/**
+ * Pipeline Core - Template Step
+ *
+ * Domain: pipeline/core
+ * Responsibility: Upgrade the note template to the current schema version,
+ * validate and lint it, and apply the template lint guard before anything is
+ * derived from it.
+ *
+ * SOR: Shared by full runs and field regeneration so caller-supplied templates
+ * pass the same gates on every entry point.
+ */
+
+import type { NoteTemplate } from '../../derivation/types';
+import { upgradeOnLoad } from '../../migration/core/upgrade';
+import { TemplateMigrationError } from '../../migration/errors';
+import type { TemplateLintIssue } from '../../validation';
+import { lintNoteTemplate, validateNoteTemplate } from '../../validation';
+import type { PipelineOptions, PipelineWarning } from '../types';
+import { createPipelineError } from './helpers';
+import { mapTemplateSeverity, shouldFailGuard } from './warnings';
+
+/**
+ * Upgrade a template stored against an older schema version.
+ *
+ * @throws {PipelineError} template-migration when a migration step fails
+ */
+export function upgradeTemplate(template: NoteTemplate): NoteTemplate {
+	try {
+		return upgradeOnLoad(template);
+	} catch (error) {
+		if (error instanceof TemplateMigrationError) {
+			throw createPipelineError(error.message, 'template-migration', error.context);
+		}
+		throw error;
+	}
+}
+
+/**
+ * Validate and lint a template.
+ *
+ * @returns Template lint warnings that did not trip the guard
+ * @throws {PipelineError} template-validation, template-lint, or template-lint-warning when guarded
+ */
+export function runTemplateStep(
+	template: NoteTemplate,
+	options: PipelineOptions
+): PipelineWarning<TemplateLintIssue>[] {
+	const templateResult = validateNoteTemplate(template);
+	if (!templateResult.ok) {
+		throw createPipelineError(
+			'Template validation failed',
+			'template-validation',
+			templateResult.errors
+		);
+	}
+
+	const templateLint = lintNoteTemplate(template);
+	if (templateLint.errors.length > 0) {
+		throw createPipelineError('Template lint failed', 'template-lint', templateLint.errors);
+	}
+
+	const templateWarnings = templateLint.warnings.map((issue) => ({
+		issue,
+		severity: mapTemplateSeverity(issue.severity),
+		code: issue.code,
+	}));
+
+	if (
+		templateWarnings.length > 0 &&
+		shouldFailGuard(options.guards?.templateLint, templateWarnings)
+	) {
+		throw createPipelineError(
+			'Template lint warnings present',
+			'template-lint-warning',
+			templateWarnings
+		);
+	}
+
+	return templateWarnings;
+}
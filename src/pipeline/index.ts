@@ -22,9 +22,14 @@
 
 // Core pipeline
 export { runPipeline } from './core/pipeline';
+export { regenerateFields } from './core/regenerate';
 
 // Utilities
 export { mergePayloads, findMergeConflicts, collectMergeConflicts } from './core/merger';
+export { resolveDesignTokens } from './core/design-tokens';
+export { createPipelineError } from './core/helpers';
+export { isPipelineError, snapshotPipelineError } from './core/error-snapshot';
+export { createSynthesizedMockGeneration } from './core/mock-generation';
 
 // Types
 export type {
@@ -32,6 +37,7 @@ export type {
   PipelineOptions,
   PipelineOutput,
   PipelineError,
+  PipelineErrorSnapshot,
   PipelineWarnings,
   PipelineWarning,
   WarningGuardOptions,
@@ -40,15 +46,32 @@ export type {
   TokenDiagnostics,
   TokenDiagnosticsEntry,
   TokenValueSource,
+  ResolvedDesignTokens,
   MockGenerationProvider,
   MockGenerationContext,
   MockGenerationResult,
+  SynthesizedMockOptions,
+  RegenerationBase,
+  RegenerateFieldsInput,
+  RegenerateFieldsOutput,
+  GenerationStrategy,
+  SectionGenerationSummary,
+  RepairOptions,
 } from './types';
 
 export { PipelineWarningSeverity } from './types';
 
 // Logging
-export { createNoopPipelineLogger, createPipelineInstrumentation } from './logging';
+export {
+  createNoopPipelineLogger,
+  createPipelineInstrumentation,
+  createProgressPipelineLogger,
+  createSSEPipelineLogger,
+  combinePipelineLoggers,
+  formatServerSentEvent,
+  PROGRESS_EVENT_LABELS,
+  PROGRESS_SSE_EVENT,
+} from './logging';
 export type {
   PipelineLogger,
   PipelineBaseEvent,
@@ -59,6 +82,7 @@ export type {
   PipelineAIRequestEvent,
   PipelineAIResponseEvent,
   PipelineAIDiagnosticEvent,
+  PipelineAIRepairEvent,
   PipelineMergeEvent,
   PipelineRenderEvent,
   PipelineStageTimingEvent,
@@ -67,4 +91,8 @@ export type {
   PipelineErrorEvent,
   PipelineInstrumentation,
   PipelineInstrumentationConfig,
+  PipelineProgressEvent,
+  PipelineProgressEventType,
+  ProgressPipelineLoggerOptions,
+  SSEPipelineLoggerOptions,
 } from './logging';
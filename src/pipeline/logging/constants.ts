@@ -0,0 +1,53 @@
+/**
+ * Pipeline Logging - Constants
+ *
+ * Domain: pipeline/logging
+ * Responsibility: Progress event naming shared by streaming loggers
+ */
+
+import type { LoggerEventMap, PipelineProgressEventType } from './types';
+
+/**
+ * Progress event type for each logger hook.
+ */
+export const PROGRESS_EVENT_TYPES: Readonly<Record<keyof LoggerEventMap, PipelineProgressEventType>> = {
+  onStart: 'start',
+  onSchemasDerived: 'schemas',
+  onResolution: 'resolution',
+  onPromptComposed: 'prompt',
+  onAIRequest: 'ai-request',
+  onAIResponse: 'ai-response',
+  onAIDiagnostic: 'ai-diagnostic',
+  onAIRepair: 'ai-repair',
+  onMergeCompleted: 'merge',
+  onRender: 'render',
+  onStageTiming: 'stage-timing',
+  onTokenDiagnostics: 'token-diagnostics',
+  onComplete: 'complete',
+  onError: 'error',
+};
+
+/**
+ * Status line shown to clinicians for each progress event.
+ */
+export const PROGRESS_EVENT_LABELS: Readonly<Record<PipelineProgressEventType, string>> = {
+  start: 'Starting note generation',
+  schemas: 'Deriving schemas',
+  resolution: 'Resolving data',
+  prompt: 'Composing prompt',
+  'ai-request': 'Generating',
+  'ai-response': 'Generation complete',
+  'ai-diagnostic': 'Retrying generation',
+  'ai-repair': 'Repairing output',
+  merge: 'Merging output',
+  render: 'Rendering note',
+  'stage-timing': 'Stage finished',
+  'token-diagnostics': 'Applying design tokens',
+  complete: 'Note ready',
+  error: 'Generation failed',
+};
+
+/**
+ * SSE event name used for every progress frame; the progress type travels in the data.
+ */
+export const PROGRESS_SSE_EVENT = 'progress';
@@ -16,6 +16,7 @@ export {
   type PipelineAIRequestEvent,
   type PipelineAIResponseEvent,
   type PipelineAIDiagnosticEvent,
+  type PipelineAIRepairEvent,
   type PipelineMergeEvent,
   type PipelineRenderEvent,
   type PipelineStageTimingEvent,
@@ -26,6 +27,18 @@ export {
   type LoggerEventPayload,
   type PipelineInstrumentation,
   type PipelineInstrumentationConfig,
+  type PipelineProgressEventType,
+  type PipelineProgressEvent,
+  type ProgressPipelineLoggerOptions,
+  type SSEPipelineLoggerOptions,
 } from './types';
 
 export { createPipelineInstrumentation } from './instrumentation';
+export { PROGRESS_EVENT_LABELS, PROGRESS_EVENT_TYPES, PROGRESS_SSE_EVENT } from './constants';
+export {
+  combinePipelineLoggers,
+  createProgressPipelineLogger,
+  createSSEPipelineLogger,
+  formatServerSentEvent,
+} from './progress-logger';
+export { summarizeLoggerEvent } from './progress-summaries';
@@ -86,6 +86,9 @@ export function createPipelineInstrumentation(
     aiDiagnostic(event) {
       emit('onAIDiagnostic', event);
     },
+    aiRepair(event) {
+      emit('onAIRepair', event);
+    },
     mergeCompleted(event) {
       emit('onMergeCompleted', event);
     },
@@ -117,6 +120,7 @@ function sanitiseOptionsForLogging(
 ): PipelineOptions {
   const { logger: _logger, mockGeneration: _mockGeneration, openaiClient: _client, ...rest } = options;
   const sanitised: PipelineOptions = { ...rest };
+  delete sanitised.provider;
 
   if (!sanitised.requestId) {
     sanitised.requestId = requestId;
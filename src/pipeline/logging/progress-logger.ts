@@ -0,0 +1,104 @@
+/**
+ * Pipeline Logging - Progress Loggers
+ *
+ * Domain: pipeline/logging
+ * Responsibility: PipelineLogger implementations that forward progress events
+ * to a callback or as Server-Sent Event frames, plus logger fan-out
+ *
+ * DI: Event sinks are injected; transport (HTTP stream, socket) stays with the caller.
+ */
+
+import { PROGRESS_EVENT_LABELS, PROGRESS_EVENT_TYPES, PROGRESS_SSE_EVENT } from './constants';
+import { summarizeLoggerEvent } from './progress-summaries';
+import type {
+  LoggerEventMap,
+  PipelineLogger,
+  ProgressPipelineLoggerOptions,
+  SSEPipelineLoggerOptions,
+} from './types';
+
+const LOGGER_METHODS = Object.keys(PROGRESS_EVENT_TYPES) as Array<keyof LoggerEventMap>;
+
+/**
+ * Creates a logger that converts every pipeline event into a progress event.
+ * Payloads are PHI-scrubbed unless `scrubPHI` is explicitly false.
+ */
+export function createProgressPipelineLogger(options: ProgressPipelineLoggerOptions): PipelineLogger {
+  const scrubPHI = options.scrubPHI ?? true;
+  const logger: PipelineLogger = {};
+
+  for (const method of LOGGER_METHODS) {
+    const handler = (event: LoggerEventMap[typeof method]) => {
+      const type = PROGRESS_EVENT_TYPES[method];
+      options.onEvent({
+        type,
+        label: PROGRESS_EVENT_LABELS[type],
+        requestId: event.requestId,
+        templateId: event.templateId,
+        templateVersion: event.templateVersion,
+        timestamp: event.timestamp,
+        data: summarizeLoggerEvent(method, event, scrubPHI),
+      });
+    };
+    (logger as Record<string, unknown>)[method] = handler;
+  }
+
+  return logger;
+}
+
+/**
+ * Creates a logger that writes each progress event as a `progress` Server-Sent Event frame.
+ */
+export function createSSEPipelineLogger(options: SSEPipelineLoggerOptions): PipelineLogger {
+  let sequence = 0;
+
+  return createProgressPipelineLogger({
+    scrubPHI: options.scrubPHI,
+    onEvent(event) {
+      sequence += 1;
+      options.write(formatServerSentEvent(PROGRESS_SSE_EVENT, event, sequence));
+    },
+  });
+}
+
+/**
+ * Encode a Server-Sent Event frame with a JSON data line.
+ *
+ * @param event - SSE event name
+ * @param data - JSON-serialisable payload
+ * @param id - Optional event id for client resume bookkeeping
+ */
+export function formatServerSentEvent(event: string, data: unknown, id?: number | string): string {
+  const lines = id === undefined ? [] : [`id: ${id}`];
+  lines.push(`event: ${event}`, `data: ${JSON.stringify(data)}`);
+  return `${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Fan events out to several loggers; a throwing logger does not block the others.
+ */
+export function combinePipelineLoggers(
+  ...loggers: Array<PipelineLogger | undefined>
+): PipelineLogger {
+  const active = loggers.filter((logger): logger is PipelineLogger => Boolean(logger));
+  const combined: PipelineLogger = {};
+
+  for (const method of LOGGER_METHODS) {
+    const listeners = active.filter((logger) => typeof logger[method] === 'function');
+    if (listeners.length === 0) {
+      continue;
+    }
+
+    (combined as Record<string, unknown>)[method] = (event: LoggerEventMap[typeof method]) => {
+      for (const logger of listeners) {
+        try {
+          (logger[method] as (event: LoggerEventMap[typeof method]) => void).call(logger, event);
+        } catch (error) {
+          console.warn(`[Pipeline] logger.${String(method)} handler threw`, error);
+        }
+      }
+    };
+  }
+
+  return combined;
+}
@@ -0,0 +1,164 @@
+/**
+ * Pipeline Logging - Progress Summaries
+ *
+ * Domain: pipeline/logging
+ * Responsibility: Reduce logger events to client-facing progress payloads
+ *
+ * Scrubbed summaries (the default) carry counts, paths, codes, and timings only.
+ * Resolved values, prompt text, AI output, and merged payloads never leave the
+ * process unless the caller explicitly disables scrubbing.
+ */
+
+import { snapshotPipelineError } from '../core/error-snapshot';
+import type { LoggerEventMap, LoggerEventPayload, PipelineBaseEvent } from './types';
+
+const BASE_EVENT_FIELDS = new Set<keyof PipelineBaseEvent>([
+  'requestId',
+  'templateId',
+  'templateName',
+  'templateVersion',
+  'timestamp',
+]);
+
+type ProgressSummarizers = {
+  [K in keyof LoggerEventMap]: (event: LoggerEventMap[K]) => Record<string, unknown>;
+};
+
+const SCRUBBED_SUMMARIZERS: ProgressSummarizers = {
+  onStart: ({ options }) => ({
+    model: options.generationOptions?.model,
+    validateSteps: options.validateSteps,
+  }),
+  onSchemasDerived: ({ aisSchema, nasSchema, rpsSchema }) => ({
+    aisFields: countSchemaFields(aisSchema),
+    nasFields: countSchemaFields(nasSchema),
+    rpsFields: countSchemaFields(rpsSchema),
+  }),
+  onResolution: ({ resolution }) => ({
+    resolvedCount: resolution.resolved.length,
+    unresolvedCount: resolution.unresolvedSlots.length,
+    warnings: resolution.warnings.map((warning) => ({
+      componentId: warning.componentId,
+      slotId: warning.slotId,
+      path: warning.path,
+      severity: warning.severity,
+      reason: warning.reason,
+    })),
+  }),
+  onPromptComposed: ({ prompt, warnings }) => ({
+    messageCount: prompt.messages.length,
+    fieldCount: prompt.fieldGuide.length,
+    warnings: (warnings ?? []).map(({ issue }) => ({
+      check: issue.check,
+      severity: issue.severity,
+      path: issue.path,
+    })),
+  }),
+  onAIRequest: ({ model, generationOptions }) => ({
+    model,
+    temperature: generationOptions?.temperature,
+  }),
+  onAIResponse: ({ result, mocked, durationMs, retries }) => ({
+    model: result.model,
+    usage: result.usage,
+    mocked: Boolean(mocked),
+    durationMs,
+    retries,
+  }),
+  onAIDiagnostic: ({ code, attempt, model, responseId }) => ({
+    code,
+    attempt,
+    model,
+    responseId,
+  }),
+  onAIRepair: ({ round, maxRounds, paths, issues, outcome, remainingIssues, model, usage, durationMs }) => ({
+    round,
+    maxRounds,
+    paths,
+    keywords: issues.map((issue) => issue.keyword),
+    outcome,
+    remainingCount: remainingIssues?.length,
+    model,
+    usage,
+    durationMs,
+  }),
+  onMergeCompleted: ({ conflicts }) => ({
+    conflicts: (conflicts ?? []).map((conflict) => ({
+      path: conflict.path,
+      severity: conflict.severity,
+      expectedType: conflict.expectedType,
+      actualType: conflict.actualType,
+    })),
+  }),
+  onRender: ({ htmlLength, cssHash }) => ({ htmlLength, cssHash }),
+  onStageTiming: ({ stage, durationMs }) => ({ stage, durationMs }),
+  onTokenDiagnostics: ({ diagnostics }) => ({
+    entries: diagnostics.entries.map(({ path, source, severity }) => ({ path, source, severity })),
+  }),
+  onComplete: ({ durationMs, warnings }) => ({
+    durationMs,
+    warningCounts: Object.fromEntries(
+      Object.entries(warnings ?? {}).map(([group, entries]) => [group, entries?.length ?? 0])
+    ),
+  }),
+  onError: ({ error }) => ({ step: error.step, message: error.message }),
+};
+
+/**
+ * Summarise a logger event for clients.
+ *
+ * @param method - Logger hook that produced the event
+ * @param event - Full logger event
+ * @param scrubPHI - When false, forward the full event payload (JSON-safe)
+ */
+export function summarizeLoggerEvent<K extends keyof LoggerEventMap>(
+  method: K,
+  event: LoggerEventMap[K],
+  scrubPHI: boolean
+): Record<string, unknown> {
+  if (scrubPHI) {
+    return SCRUBBED_SUMMARIZERS[method](event);
+  }
+
+  if (method === 'onError') {
+    return { ...snapshotPipelineError((event as LoggerEventMap['onError']).error) };
+  }
+
+  return toJsonSafe(stripBaseFields(event));
+}
+
+function stripBaseFields<K extends keyof LoggerEventMap>(
+  event: LoggerEventMap[K]
+): LoggerEventPayload<K> {
+  const payload = Object.fromEntries(
+    Object.entries(event).filter(([key]) => !BASE_EVENT_FIELDS.has(key as keyof PipelineBaseEvent))
+  );
+  return payload as LoggerEventPayload<K>;
+}
+
+function toJsonSafe(value: unknown): Record<string, unknown> {
+  try {
+    return JSON.parse(JSON.stringify(value)) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Count leaf properties in a derived JSON schema.
+ */
+function countSchemaFields(schema: unknown): number {
+  if (!schema || typeof schema !== 'object') {
+    return 0;
+  }
+
+  const node = schema as { properties?: Record<string, unknown>; items?: unknown };
+  if (node.properties) {
+    return Object.values(node.properties).reduce<number>(
+      (total, child) => total + Math.max(1, countSchemaFields(child)),
+      0
+    );
+  }
+
+  return node.items ? countSchemaFields(node.items) : 0;
+}
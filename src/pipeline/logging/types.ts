@@ -10,6 +10,7 @@ import type { PromptBundle } from '../../composition/types';
 import type { DesignTokens } from '../../tokens/types';
 import type { GenerationOptions, GenerationResult } from '../../integration/types';
 import type { ResolutionResult } from '../../resolution/contracts/types';
+import type { ValidationIssue } from '../../validation/types';
 import type {
 	PipelineOptions,
 	PipelineWarnings,
@@ -29,6 +30,7 @@ export interface PipelineLogger {
   onAIRequest?(event: PipelineAIRequestEvent): void;
   onAIResponse?(event: PipelineAIResponseEvent): void;
   onAIDiagnostic?(event: PipelineAIDiagnosticEvent): void;
+  onAIRepair?(event: PipelineAIRepairEvent): void;
   onMergeCompleted?(event: PipelineMergeEvent): void;
   onRender?(event: PipelineRenderEvent): void;
   onStageTiming?(event: PipelineStageTimingEvent): void;
@@ -89,6 +91,26 @@ export interface PipelineAIDiagnosticEvent extends PipelineBaseEvent {
   rawPreview: string;
 }
 
+/**
+ * One self-repair attempt: the issues sent back to the model and what came of it.
+ */
+export interface PipelineAIRepairEvent extends PipelineBaseEvent {
+  round: number;
+  maxRounds: number;
+  /** Field paths the model was asked to fix */
+  paths: string[];
+  /** Validation issues sent with the repair request */
+  issues: ValidationIssue[];
+  /** repaired: output now valid; invalid: still failing; failed: request errored */
+  outcome: 'repaired' | 'invalid' | 'failed';
+  /** Issues remaining after this round (outcome invalid) */
+  remainingIssues?: ValidationIssue[];
+  model?: string;
+  responseId?: string;
+  usage?: GenerationResult['usage'];
+  durationMs: number;
+}
+
 export interface PipelineMergeEvent extends PipelineBaseEvent {
   finalPayload: unknown;
   tokens: DesignTokens;
@@ -126,6 +148,7 @@ export type LoggerEventMap = {
   onAIRequest: PipelineAIRequestEvent;
   onAIResponse: PipelineAIResponseEvent;
   onAIDiagnostic: PipelineAIDiagnosticEvent;
+  onAIRepair: PipelineAIRepairEvent;
   onMergeCompleted: PipelineMergeEvent;
   onRender: PipelineRenderEvent;
   onStageTiming: PipelineStageTimingEvent;
@@ -148,6 +171,7 @@ export interface PipelineInstrumentation {
   aiRequest(event: LoggerEventPayload<'onAIRequest'>): void;
   aiResponse(event: LoggerEventPayload<'onAIResponse'>): void;
   aiDiagnostic(event: LoggerEventPayload<'onAIDiagnostic'>): void;
+  aiRepair(event: LoggerEventPayload<'onAIRepair'>): void;
   mergeCompleted(event: LoggerEventPayload<'onMergeCompleted'>): void;
   render(event: LoggerEventPayload<'onRender'>): void;
   stageTiming(event: LoggerEventPayload<'onStageTiming'>): void;
@@ -161,6 +185,54 @@ export interface PipelineInstrumentationConfig {
   options: PipelineOptions;
 }
 
+/**
+ * Progress event kinds forwarded to streaming clients (one per logger hook).
+ */
+export type PipelineProgressEventType =
+  | 'start'
+  | 'schemas'
+  | 'resolution'
+  | 'prompt'
+  | 'ai-request'
+  | 'ai-response'
+  | 'ai-diagnostic'
+  | 'ai-repair'
+  | 'merge'
+  | 'render'
+  | 'stage-timing'
+  | 'token-diagnostics'
+  | 'complete'
+  | 'error';
+
+/**
+ * Client-facing progress update derived from a logger event.
+ * When scrubbed (the default) `data` carries only counts, paths, codes, and timings.
+ */
+export interface PipelineProgressEvent {
+  type: PipelineProgressEventType;
+  /** Human-readable status line (e.g. "Resolving data") */
+  label: string;
+  requestId: string;
+  templateId: string;
+  templateVersion: string;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+export interface ProgressPipelineLoggerOptions {
+  /** Receives every progress event in emission order */
+  onEvent(event: PipelineProgressEvent): void;
+  /** Strip patient data from event payloads (default: true) */
+  scrubPHI?: boolean;
+}
+
+export interface SSEPipelineLoggerOptions {
+  /** Receives encoded SSE frames (`id:`/`event:`/`data:` blocks) */
+  write(frame: string): void;
+  /** Strip patient data from event payloads (default: true) */
+  scrubPHI?: boolean;
+}
+
 const NOOP_LOGGER: PipelineLogger = Object.freeze({});
 
 /**
@@ -7,10 +7,12 @@
 import type { LintIssue } from '../composition';
 import type { PromptBundle } from '../composition/types';
 import type { DerivedSchema, NoteTemplate } from '../derivation/types';
-import type { GenerationOptions, GenerationResult } from '../integration';
+import type { NoteOutputFormat, TextRenderOptions, ValueFormatOptions } from '../factory';
+import type { GenerationOptions, GenerationProvider, GenerationResult } from '../integration';
+import type { TemplateReference } from '../registry';
 import type { ResolutionWarning, SourceData } from '../resolution';
 import type { CompiledCSS, DesignTokens } from '../tokens';
-import type { AIPayload, NasSnapshot, RenderPayload } from '../types/payloads';
+import type { AIPayload, TemplatePayloads } from '../types/payloads';
 import type { TemplateLintIssue, ValidationIssue } from '../validation';
 import type { PipelineLogger } from './logging';
 import type OpenAI from 'openai';
@@ -18,9 +20,9 @@ import type OpenAI from 'openai';
 /**
  * Input configuration for the complete pipeline
  */
-export interface PipelineInput {
-	/** Note template (will be validated) */
-	template: NoteTemplate;
+export interface PipelineInput<TTemplate extends NoteTemplate = NoteTemplate> {
+	/** Note template (will be validated); a TypedNoteTemplate types the output payloads */
+	template: TTemplate;
 
 	/** Raw source data to resolve into NAS */
 	sourceData: SourceData;
@@ -68,6 +70,69 @@ export interface PipelineOptions {
 
 	/** Optional pre-configured OpenAI client (avoids env mutation) */
 	openaiClient?: OpenAI;
+
+	/**
+	 * Generation backend (OpenAI-compatible servers, scripted provider, ...).
+	 * Takes precedence over openaiClient/openaiKey; set it for on-prem
+	 * deployments that must not send PHI to OpenAI.
+	 */
+	provider?: GenerationProvider;
+
+	/** How AI output is requested: one call (default) or one call per top-level section */
+	generationStrategy?: GenerationStrategy;
+
+	/** Ask the model to fix AIS validation errors instead of failing immediately */
+	repair?: RepairOptions;
+
+	/** Date pattern and locale for date, currency, and unit formats in the rendered note */
+	format?: ValueFormatOptions;
+
+	/** Formats to render the final note in, in any combination (default: ['html']) */
+	outputFormats?: NoteOutputFormat[];
+
+	/** Wrap width for the text and Markdown outputs */
+	textOptions?: TextRenderOptions;
+}
+
+/**
+ * Self-repair configuration for AI output that fails AIS validation.
+ */
+export interface RepairOptions {
+	/** Follow-up requests before giving up with ai-validation (default: 2; 0 disables) */
+	maxRounds?: number;
+}
+
+/**
+ * AI generation strategy.
+ *
+ * `per-section` partitions the AIS by top-level layout component and runs one
+ * structured-output call per section, at most `concurrency` at a time. Sections
+ * whose aiDeps point at another section's output wait for it and receive its
+ * values as context.
+ */
+export type GenerationStrategy =
+	| { mode: 'single' }
+	| { mode: 'per-section'; concurrency?: number };
+
+/**
+ * Per-section accounting recorded by the per-section generation strategy.
+ */
+export interface SectionGenerationSummary {
+	/** Section id (top-level component id; ids joined with "+" when merged) */
+	id: string;
+	/** Top-level component ids covered by the section */
+	componentIds: string[];
+	/** AIS units generated by the section */
+	paths: string[];
+	/** Section ids whose output this section depended on */
+	dependsOn: string[];
+	model: string;
+	usage: PipelineOutput['usage'];
+	/** Extra API requests after the first */
+	retries: number;
+	durationMs: number;
+	responseId?: string;
+	mocked?: boolean;
 }
 
 /**
@@ -96,6 +161,16 @@ export type MockGenerationProvider =
 	| MockGenerationResult
 	| ( (context: MockGenerationContext) => Promise<MockGenerationResult> | MockGenerationResult );
 
+/**
+ * Options for the AIS-driven mock generation provider.
+ */
+export interface SynthesizedMockOptions {
+	/** Same seed and template always give the same output (default: 1) */
+	seed?: number;
+	/** Model name reported on the result (default: "synthesized-mock") */
+	model?: string;
+}
+
 /**
  * Fine-grained guardrail configuration per pipeline stage.
  */
@@ -124,16 +199,31 @@ export interface MergeGuardOptions {
 
 /**
  * Complete pipeline output with all artifacts
+ *
+ * aiOutput, payload, and nasSnapshot take their types from TPayloads
+ * (generated per template; untyped records by default).
  */
-export interface PipelineOutput {
-	/** Rendered clinical note HTML */
+export interface PipelineOutput<TPayloads extends TemplatePayloads<object, object, object> = TemplatePayloads> {
+	/** Rendered clinical note HTML (empty when outputFormats omits 'html') */
 	html: string;
 
+	/** Plain-text note, when outputFormats includes 'text' */
+	text?: string;
+
+	/** Markdown note, when outputFormats includes 'markdown' */
+	markdown?: string;
+
+	/** Word document bytes, when outputFormats includes 'docx' */
+	docx?: Uint8Array;
+
 	/** Compiled CSS (screen + print) */
 	css: CompiledCSS;
 
 	/** AI-generated output (for debugging/audit) */
-	aiOutput: AIPayload;
+	aiOutput: TPayloads['ais'];
+
+	/** Template id/name/version that produced this note */
+	template: TemplateReference;
 
 	/** Derived schemas (for debugging/audit) */
 	schemas: {
@@ -168,10 +258,55 @@ export interface PipelineOutput {
 	warnings?: PipelineWarnings;
 
 	/** Optional snapshot of the merged render payload for downstream usage */
-	payload?: RenderPayload;
+	payload?: TPayloads['rps'];
 	/** Optional NAS snapshot returned for debugging */
-	nasSnapshot?: NasSnapshot;
+	nasSnapshot?: TPayloads['nas'];
 
+	/** Per-section generation accounting (per-section strategy only) */
+	sections?: SectionGenerationSummary[];
+}
+
+/**
+ * Prior pipeline output fields needed to regenerate a subset of AI fields
+ */
+export type RegenerationBase = Pick<PipelineOutput, 'aiOutput' | 'nasSnapshot'> & {
+	/** AIS is required; NAS/RPS are re-derived from the template when omitted */
+	schemas: Pick<PipelineOutput['schemas'], 'ais'> & Partial<PipelineOutput['schemas']>;
+	template?: TemplateReference;
+};
+
+/**
+ * Input for regenerating selected AI fields of an existing note
+ */
+export interface RegenerateFieldsInput {
+	/** Template that produced the prior output (must match its id/version when recorded) */
+	template: NoteTemplate;
+
+	/** Prior output whose accepted fields stay untouched */
+	previous: RegenerationBase;
+
+	/** AI outputPaths (or path prefixes) and/or component ids to regenerate */
+	targets: string[];
+
+	/** Source data supplied as fact-pack context (optional) */
+	sourceData?: SourceData;
+
+	/** Design tokens (optional, defaults to system tokens) */
+	tokens?: DesignTokens;
+
+	/** Pipeline execution options */
+	options?: PipelineOptions;
+}
+
+/**
+ * Output of field regeneration: a full pipeline output plus the regenerated paths
+ */
+export interface RegenerateFieldsOutput extends PipelineOutput {
+	/**
+	 * Regenerated AIS paths. Array fields are regenerated whole, so a target
+	 * inside an array is reported as the array path (e.g. "plan.homework[]").
+	 */
+	regeneratedPaths: string[];
 }
 
 /**
@@ -220,6 +355,32 @@ export interface TokenDiagnostics {
 	entries: TokenDiagnosticsEntry[];
 }
 
+/**
+ * Token bundle resolved for a template, with each precedence layer retained
+ */
+export interface ResolvedDesignTokens {
+	/** System defaults before any template adjustments */
+	defaults: DesignTokens;
+
+	/** Defaults with template style hints applied */
+	templateAdjusted: DesignTokens;
+
+	/** Final tokens after caller overrides */
+	tokens: DesignTokens;
+}
+
+/**
+ * JSON-safe view of a pipeline failure (HTTP bodies, job records, callbacks)
+ */
+export interface PipelineErrorSnapshot {
+	/** Step that failed ('unknown' for non-pipeline errors) */
+	step: string;
+	message: string;
+
+	/** Serialised error cause (validation issues, warnings, or upstream error summary) */
+	details?: unknown;
+}
+
 /**
  * Error thrown during pipeline execution
  */
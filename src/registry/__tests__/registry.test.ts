@@ -0,0 +1,186 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { NoteTemplate } from '../../derivation/types';
+import {
+  compareSemver,
+  createFileSystemTemplateStorage,
+  createMemoryTemplateStorage,
+  createSQLiteTemplateStorage,
+  createTemplateRegistry,
+  TemplateRegistryError,
+} from '..';
+import type { TemplateRegistryErrorCode, TemplateStorageAdapter } from '..';
+
+function buildTemplate(version: string, summaryPath = 'assessment.summary'): NoteTemplate {
+  return {
+    id: 'intake-note',
+    name: 'Intake Note',
+    version,
+    style: { font: 'Inter', color: '#111111', accent: '#3366FF', spacing: 8 },
+    prompt: { system: 'You are a clinical assistant.', main: 'Summarize the visit.' },
+    layout: [
+      {
+        id: 'assessment-section',
+        type: 'section',
+        content: [
+          {
+            id: 'patient-name',
+            slot: 'lookup',
+            targetPath: 'patient.name',
+            lookup: 'patient.name',
+          },
+          {
+            id: 'assessment-summary',
+            slot: 'ai',
+            outputPath: summaryPath,
+            aiDeps: ['patient.name'],
+            guidance: ['Summarize the assessment.'],
+          },
+        ],
+      },
+    ],
+  };
+}
+
+async function expectRegistryError(
+  promise: Promise<unknown>,
+  code: TemplateRegistryErrorCode
+): Promise<void> {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(TemplateRegistryError);
+    expect((error as TemplateRegistryError).context.code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected TemplateRegistryError with code ${code}`);
+}
+
+const tempDirs: string[] = [];
+
+afterAll(() => {
+  tempDirs.forEach((dir) => rmSync(dir, { recursive: true, force: true }));
+});
+
+const adapters: Array<[string, () => TemplateStorageAdapter]> = [
+  ['memory', () => createMemoryTemplateStorage()],
+  [
+    'filesystem',
+    () => {
+      const dir = mkdtempSync(join(tmpdir(), 'template-registry-'));
+      tempDirs.push(dir);
+      return createFileSystemTemplateStorage({ directory: dir });
+    },
+  ],
+  ['sqlite', () => createSQLiteTemplateStorage({ database: ':memory:' })],
+];
+
+describe.each(adapters)('template registry (%s storage)', (_name, createStorage) => {
+  it('publishes versions with cached schemas and resolves latest / exact / range', async () => {
+    const registry = createTemplateRegistry({
+      storage: createStorage(),
+      now: () => new Date('2025-01-01T00:00:00.000Z'),
+    });
+
+    await registry.publish(buildTemplate('1.0.0'));
+    await registry.publish(buildTemplate('1.2.0'));
+    await registry.publish(buildTemplate('2.0.0', 'assessment.narrative'));
+
+    const latest = await registry.resolve('intake-note');
+    expect(latest.version).toBe('2.0.0');
+    expect(latest.status).toBe('published');
+    expect(latest.publishedAt).toBe('2025-01-01T00:00:00.000Z');
+    expect(latest.schemas.ais.properties.assessment?.properties?.narrative).toBeDefined();
+    expect(latest.schemas.rps.properties.patient).toBeDefined();
+
+    expect((await registry.resolve('intake-note', '1.x')).version).toBe('1.2.0');
+    expect((await registry.resolve('intake-note', '1.0.0')).version).toBe('1.0.0');
+    expect((await registry.listVersions('intake-note')).map((r) => r.version)).toEqual([
+      '2.0.0',
+      '1.2.0',
+      '1.0.0',
+    ]);
+    expect(await registry.listTemplates()).toEqual(['intake-note']);
+  });
+
+  it('skips deprecated versions for ranges but still resolves them exactly', async () => {
+    const registry = createTemplateRegistry({ storage: createStorage() });
+    await registry.publish(buildTemplate('1.0.0'));
+    await registry.publish(buildTemplate('1.1.0'));
+
+    const deprecated = await registry.deprecate('intake-note', '1.1.0', 'Wrong guidance');
+    expect(deprecated.status).toBe('deprecated');
+    expect(deprecated.deprecationReason).toBe('Wrong guidance');
+
+    expect((await registry.resolve('intake-note', 'latest')).version).toBe('1.0.0');
+    expect((await registry.resolve('intake-note', '1.1.0')).status).toBe('deprecated');
+    await expectRegistryError(registry.deprecate('intake-note', '1.1.0'), 'already-deprecated');
+  });
+
+  it('keeps published versions immutable', async () => {
+    const registry = createTemplateRegistry({ storage: createStorage() });
+    await registry.publish(buildTemplate('1.0.0'));
+
+    await expectRegistryError(
+      registry.publish(buildTemplate('1.0.0', 'assessment.narrative')),
+      'version-exists'
+    );
+  });
+});
+
+describe('template registry publish gates', () => {
+  it('rejects schema-invalid templates', async () => {
+    const registry = createTemplateRegistry({ storage: createMemoryTemplateStorage() });
+    const invalid = { ...buildTemplate('1.0.0'), layout: [] } as NoteTemplate;
+
+    await expectRegistryError(registry.publish(invalid), 'validation-failed');
+  });
+
+  it('rejects non-semver versions', async () => {
+    const registry = createTemplateRegistry({ storage: createMemoryTemplateStorage() });
+
+    await expectRegistryError(registry.publish(buildTemplate('v1')), 'invalid-version');
+  });
+
+  it('rejects templates with lint errors', async () => {
+    const registry = createTemplateRegistry({ storage: createMemoryTemplateStorage() });
+    const template = buildTemplate('1.0.0');
+    template.layout[0].content?.push({
+      id: 'plan-summary',
+      slot: 'ai',
+      outputPath: 'plan.summary',
+    });
+
+    await expectRegistryError(registry.publish(template), 'lint-failed');
+  });
+
+  it('rejects templates whose schemas cannot be derived', async () => {
+    const registry = createTemplateRegistry({ storage: createMemoryTemplateStorage() });
+    const template = buildTemplate('1.0.0');
+    template.layout[0].content?.push({
+      id: 'duplicate-summary',
+      slot: 'ai',
+      outputPath: 'assessment.summary',
+      aiDeps: ['patient.name'],
+    });
+
+    await expectRegistryError(registry.publish(template), 'derivation-failed');
+    await expectRegistryError(registry.resolve('intake-note'), 'not-found');
+  });
+
+  it('reports unknown ids and malformed selectors', async () => {
+    const registry = createTemplateRegistry({ storage: createMemoryTemplateStorage() });
+    await registry.publish(buildTemplate('1.0.0'));
+
+    await expectRegistryError(registry.resolve('missing-note'), 'not-found');
+    await expectRegistryError(registry.resolve('intake-note', '3.x'), 'not-found');
+    await expectRegistryError(registry.resolve('intake-note', '^1.0'), 'invalid-selector');
+  });
+
+  it('orders releases after their pre-releases', () => {
+    expect(compareSemver('1.0.0', '1.0.0-rc.1')).toBeGreaterThan(0);
+    expect(compareSemver('1.10.0', '1.9.3')).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Filesystem Template Storage
+ *
+ * Domain: registry/adapters
+ * Responsibility: Persist template versions as JSON files.
+ *
+ * Layout: <directory>/<encoded id>/<version>.json
+ * Writes go to a temporary file and are renamed into place so readers never see partial records.
+ */
+
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { FileSystemTemplateStorageOptions, TemplateRecord, TemplateStorageAdapter } from '../types';
+
+const RECORD_EXTENSION = '.json';
+
+/**
+ * Create a storage adapter rooted at the given directory (created on first write).
+ */
+export function createFileSystemTemplateStorage(
+  options: FileSystemTemplateStorageOptions
+): TemplateStorageAdapter {
+  const { directory } = options;
+
+  const templateDir = (id: string) => join(directory, encodeURIComponent(id));
+  const recordPath = (id: string, version: string) =>
+    join(templateDir(id), `${encodeURIComponent(version)}${RECORD_EXTENSION}`);
+
+  return {
+    async get(id, version) {
+      const raw = await readIfExists(recordPath(id, version));
+      return raw === undefined ? undefined : (JSON.parse(raw) as TemplateRecord);
+    },
+
+    async list(id) {
+      const entries = await listIfExists(templateDir(id));
+      const records = await Promise.all(
+        entries
+          .filter((entry) => entry.endsWith(RECORD_EXTENSION))
+          .map(async (entry) => {
+            const raw = await readIfExists(join(templateDir(id), entry));
+            return raw === undefined ? undefined : (JSON.parse(raw) as TemplateRecord);
+          })
+      );
+
+      return records.filter((record): record is TemplateRecord => record !== undefined);
+    },
+
+    async listIds() {
+      const entries = await listIfExists(directory);
+      return entries.map((entry) => decodeURIComponent(entry));
+    },
+
+    async put(record) {
+      await mkdir(templateDir(record.id), { recursive: true });
+      const target = recordPath(record.id, record.version);
+      const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(temp, JSON.stringify(record, null, 2), 'utf8');
+      await rename(temp, target);
+    },
+  };
+}
+
+async function readIfExists(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    if (isNotFound(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+async function listIfExists(path: string): Promise<string[]> {
+  try {
+    return await readdir(path);
+  } catch (error) {
+    if (isNotFound(error)) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    (error as NodeJS.ErrnoException).code === 'ENOENT'
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * In-Memory Template Storage
+ *
+ * Domain: registry/adapters
+ * Responsibility: Process-local TemplateStorageAdapter for tests and ephemeral services.
+ */
+
+import type { TemplateRecord, TemplateStorageAdapter } from '../types';
+
+/**
+ * Create an in-memory storage adapter. Records are cloned on read and write.
+ */
+export function createMemoryTemplateStorage(): TemplateStorageAdapter {
+  const store = new Map<string, Map<string, TemplateRecord>>();
+
+  return {
+    async get(id, version) {
+      const record = store.get(id)?.get(version);
+      return record ? cloneRecord(record) : undefined;
+    },
+
+    async list(id) {
+      return Array.from(store.get(id)?.values() ?? [], cloneRecord);
+    },
+
+    async listIds() {
+      return Array.from(store.keys());
+    },
+
+    async put(record) {
+      const versions = store.get(record.id) ?? new Map<string, TemplateRecord>();
+      versions.set(record.version, cloneRecord(record));
+      store.set(record.id, versions);
+    },
+  };
+}
+
+function cloneRecord(record: TemplateRecord): TemplateRecord {
+  return JSON.parse(JSON.stringify(record)) as TemplateRecord;
+}
@@ -0,0 +1,78 @@
+/**
+ * SQLite Template Storage
+ *
+ * Domain: registry/adapters
+ * Responsibility: Persist template versions in a SQLite table via bun:sqlite.
+ *
+ * Records are stored as JSON alongside indexed id/version/status columns so the
+ * table stays queryable without parsing every row.
+ */
+
+import { Database } from 'bun:sqlite';
+import type { SQLiteTemplateStorageOptions, TemplateRecord, TemplateStorageAdapter } from '../types';
+
+const DEFAULT_TABLE = 'template_versions';
+const TABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Create a storage adapter backed by a SQLite database file (or an existing Database handle).
+ */
+export function createSQLiteTemplateStorage(
+  options: SQLiteTemplateStorageOptions
+): TemplateStorageAdapter {
+  const table = options.table ?? DEFAULT_TABLE;
+  if (!TABLE_NAME_PATTERN.test(table)) {
+    throw new Error(`Invalid SQLite table name "${table}"`);
+  }
+
+  const db = options.database instanceof Database ? options.database : new Database(options.database);
+
+  db.run(
+    `CREATE TABLE IF NOT EXISTS ${table} (
+      id TEXT NOT NULL,
+      version TEXT NOT NULL,
+      status TEXT NOT NULL,
+      published_at TEXT NOT NULL,
+      record TEXT NOT NULL,
+      PRIMARY KEY (id, version)
+    )`
+  );
+
+  const selectOne = db.query<{ record: string }, [string, string]>(
+    `SELECT record FROM ${table} WHERE id = ? AND version = ?`
+  );
+  const selectById = db.query<{ record: string }, [string]>(
+    `SELECT record FROM ${table} WHERE id = ?`
+  );
+  const selectIds = db.query<{ id: string }, []>(`SELECT DISTINCT id FROM ${table}`);
+  const upsert = db.query(
+    `INSERT INTO ${table} (id, version, status, published_at, record)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (id, version) DO UPDATE SET status = excluded.status, record = excluded.record`
+  );
+
+  return {
+    async get(id, version) {
+      const row = selectOne.get(id, version);
+      return row ? (JSON.parse(row.record) as TemplateRecord) : undefined;
+    },
+
+    async list(id) {
+      return selectById.all(id).map((row) => JSON.parse(row.record) as TemplateRecord);
+    },
+
+    async listIds() {
+      return selectIds.all().map((row) => row.id);
+    },
+
+    async put(record) {
+      upsert.run(
+        record.id,
+        record.version,
+        record.status,
+        record.publishedAt,
+        JSON.stringify(record)
+      );
+    },
+  };
+}
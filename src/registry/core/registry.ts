@@ -0,0 +1,255 @@
+/**
+ * Template Registry
+ *
+ * Domain: registry/core
+ * Responsibility: Enforce the publish/deprecate lifecycle and version resolution
+ * on top of a pluggable storage adapter.
+ *
+ * SOR: Published versions are immutable; the registry is the only writer.
+ * SOD: Storage adapters persist records; validation and derivation are delegated.
+ * DI: Storage adapter, clock, and template source are injected via TemplateRegistryConfig.
+ */
+
+import type { NoteTemplate } from '../../derivation/types';
+import { flattenTemplate, needsFlattening } from '../../inheritance/core/flatten';
+import { createRegistryTemplateSource, withSnippets } from '../../inheritance/core/sources';
+import { TemplateInheritanceError } from '../../inheritance/errors';
+import type { AuthoredTemplate, FlattenedTemplate, TemplateSource } from '../../inheritance/types';
+import { upgradeOnLoad } from '../../migration/core/upgrade';
+import { TemplateMigrationError } from '../../migration/errors';
+import { lintNoteTemplate, validateNoteTemplate } from '../../validation';
+import { TemplateRegistryError } from '../errors';
+import type {
+  PublishTemplateOptions,
+  TemplateRecord,
+  TemplateRegistry,
+  TemplateRegistryConfig,
+  TemplateSchemaCache,
+  TemplateStorageAdapter,
+  TemplateVersionSelector,
+} from '../types';
+import { compareSemver, createRangeMatcher, isExactSemver } from '../utils/semver';
+import { deriveTemplateSchemas } from './schema-cache';
+
+/**
+ * Create a template registry backed by the supplied storage adapter.
+ */
+export function createTemplateRegistry(config: TemplateRegistryConfig): TemplateRegistry {
+  const { storage } = config;
+  const now = config.now ?? (() => new Date());
+
+  const registry: TemplateRegistry = {
+    async publish(authored: AuthoredTemplate, options: PublishTemplateOptions = {}) {
+      const templateId = typeof authored?.id === 'string' ? authored.id : '';
+      const version = typeof authored?.version === 'string' ? authored.version : '';
+
+      const source = config.templateSource ?? createRegistryTemplateSource(registry);
+      const flattened = await flatten(authored, options.snippets ? withSnippets(source, options.snippets) : source);
+      const template = loadTemplate(flattened?.template ?? (authored as NoteTemplate));
+
+      const validation = validateNoteTemplate(template);
+      if (!validation.ok) {
+        throw new TemplateRegistryError(`Template ${templateId || '<unknown>'} failed validation`, {
+          code: 'validation-failed',
+          templateId,
+          version,
+          validationErrors: validation.errors,
+        });
+      }
+
+      if (!isExactSemver(version)) {
+        throw new TemplateRegistryError(
+          `Template ${templateId} version "${version}" is not a valid semantic version`,
+          { code: 'invalid-version', templateId, version }
+        );
+      }
+
+      const lint = lintNoteTemplate(template);
+      const blocking = options.failOnLintWarnings ? lint.issues : lint.errors;
+      if (blocking.length > 0) {
+        throw new TemplateRegistryError(`Template ${templateId}@${version} failed lint`, {
+          code: 'lint-failed',
+          templateId,
+          version,
+          lintIssues: blocking,
+        });
+      }
+
+      const existing = await storage.get(templateId, version);
+      if (existing) {
+        throw new TemplateRegistryError(
+          `Template ${templateId}@${version} is already published; bump the version instead`,
+          { code: 'version-exists', templateId, version }
+        );
+      }
+
+      const snapshot = cloneTemplate(template);
+      let schemas: TemplateSchemaCache;
+      try {
+        schemas = deriveTemplateSchemas(snapshot);
+      } catch (error) {
+        throw new TemplateRegistryError(
+          `Template ${templateId}@${version} failed schema derivation`,
+          {
+            code: 'derivation-failed',
+            templateId,
+            version,
+            cause: error instanceof Error ? error.message : String(error),
+          }
+        );
+      }
+
+      const record: TemplateRecord = {
+        id: templateId,
+        version,
+        status: 'published',
+        template: snapshot,
+        schemas,
+        publishedAt: now().toISOString(),
+        lintWarnings: lint.warnings.length > 0 ? lint.warnings : undefined,
+        sourceMap: flattened?.sourceMap,
+      };
+
+      await storage.put(record);
+      return record;
+    },
+
+    async deprecate(id: string, version: string, reason?: string) {
+      const record = await requireRecord(storage, id, version);
+      if (record.status === 'deprecated') {
+        throw new TemplateRegistryError(`Template ${id}@${version} is already deprecated`, {
+          code: 'already-deprecated',
+          templateId: id,
+          version,
+        });
+      }
+
+      const updated: TemplateRecord = {
+        ...record,
+        status: 'deprecated',
+        deprecatedAt: now().toISOString(),
+        deprecationReason: reason,
+      };
+
+      await storage.put(updated);
+      return updated;
+    },
+
+    async resolve(id: string, selector: TemplateVersionSelector = 'latest') {
+      if (isExactSemver(selector)) {
+        return upgradeRecord(await requireRecord(storage, id, selector));
+      }
+
+      const matches = selector === 'latest' ? () => true : createRangeMatcher(selector);
+      if (!matches) {
+        throw new TemplateRegistryError(`Invalid version selector "${selector}" for ${id}`, {
+          code: 'invalid-selector',
+          templateId: id,
+          version: selector,
+        });
+      }
+
+      const candidates = sortNewestFirst(await storage.list(id)).filter(
+        (record) => record.status === 'published' && matches(record.version)
+      );
+
+      if (candidates.length === 0) {
+        throw new TemplateRegistryError(`No published version of ${id} matches "${selector}"`, {
+          code: 'not-found',
+          templateId: id,
+          version: selector,
+        });
+      }
+
+      return upgradeRecord(candidates[0]);
+    },
+
+    async listVersions(id: string) {
+      return sortNewestFirst(await storage.list(id)).map(upgradeRecord);
+    },
+
+    async listTemplates() {
+      return (await storage.listIds()).sort();
+    },
+  };
+
+  return registry;
+}
+
+/**
+ * Flatten templates that use `extends` or `$include`; flat templates pass through as undefined.
+ */
+async function flatten(
+  template: AuthoredTemplate,
+  source: TemplateSource
+): Promise<FlattenedTemplate | undefined> {
+  if (!template || !Array.isArray(template.layout) || !needsFlattening(template)) {
+    return undefined;
+  }
+
+  try {
+    return await flattenTemplate(template, source);
+  } catch (error) {
+    if (!(error instanceof TemplateInheritanceError)) {
+      throw error;
+    }
+    throw new TemplateRegistryError(`Template ${template.id}@${template.version} failed inheritance`, {
+      code: 'inheritance-failed',
+      templateId: template.id,
+      version: template.version,
+      cause: error.message,
+    });
+  }
+}
+
+async function requireRecord(
+  storage: TemplateStorageAdapter,
+  id: string,
+  version: string
+): Promise<TemplateRecord> {
+  const record = await storage.get(id, version);
+  if (!record) {
+    throw new TemplateRegistryError(`Template ${id}@${version} was not found`, {
+      code: 'not-found',
+      templateId: id,
+      version,
+    });
+  }
+
+  return record;
+}
+
+/**
+ * Stored versions stay as published; readers get them upgraded to the current template schema.
+ */
+function upgradeRecord(record: TemplateRecord): TemplateRecord {
+  const template = loadTemplate(record.template);
+  return template === record.template ? record : { ...record, template };
+}
+
+/**
+ * Upgrade-on-load with migration failures reported as registry errors.
+ */
+function loadTemplate(template: NoteTemplate): NoteTemplate {
+  try {
+    return upgradeOnLoad(template);
+  } catch (error) {
+    if (!(error instanceof TemplateMigrationError)) {
+      throw error;
+    }
+    throw new TemplateRegistryError(`Template ${template.id}@${template.version} failed migration`, {
+      code: 'migration-failed',
+      templateId: template.id,
+      version: template.version,
+      cause: error.message,
+    });
+  }
+}
+
+function sortNewestFirst(records: TemplateRecord[]): TemplateRecord[] {
+  return [...records].sort((a, b) => compareSemver(b.version, a.version));
+}
+
+function cloneTemplate(template: NoteTemplate): NoteTemplate {
+  return JSON.parse(JSON.stringify(template)) as NoteTemplate;
+}
@@ -0,0 +1,21 @@
+/**
+ * Registry Schema Cache
+ *
+ * Domain: registry/core
+ * Responsibility: Derive the AIS/NAS/RPS schemas stored alongside each template version.
+ */
+
+import { deriveAIS, deriveNAS, mergeToRPS } from '../../derivation';
+import type { NoteTemplate } from '../../derivation/types';
+import type { TemplateSchemaCache } from '../types';
+
+/**
+ * Derive all three schemas for a validated template.
+ */
+export function deriveTemplateSchemas(template: NoteTemplate): TemplateSchemaCache {
+  const ais = deriveAIS(template);
+  const nas = deriveNAS(template);
+  const rps = mergeToRPS(ais, nas, template.id, template.name, template.version);
+
+  return { ais, nas, rps };
+}
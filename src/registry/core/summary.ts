@@ -0,0 +1,34 @@
+/**
+ * Registry Record Views
+ *
+ * Domain: registry/core
+ * Responsibility: Project stored records into listing and provenance views.
+ */
+
+import type { TemplateRecord, TemplateReference, TemplateVersionSummary } from '../types';
+
+/**
+ * Summarise a record for listings (drops template body and cached schemas).
+ */
+export function summarizeTemplateRecord(record: TemplateRecord): TemplateVersionSummary {
+  return {
+    id: record.id,
+    name: record.template.name,
+    version: record.version,
+    status: record.status,
+    publishedAt: record.publishedAt,
+    deprecatedAt: record.deprecatedAt,
+    deprecationReason: record.deprecationReason,
+  };
+}
+
+/**
+ * Reference identifying the exact version a record represents.
+ */
+export function toTemplateReference(record: TemplateRecord): TemplateReference {
+  return {
+    id: record.id,
+    name: record.template.name,
+    version: record.version,
+  };
+}
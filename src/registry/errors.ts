@@ -0,0 +1,15 @@
+import type { TemplateRegistryErrorContext } from './types';
+
+/**
+ * Error thrown when a registry operation violates lifecycle or validation rules.
+ */
+export class TemplateRegistryError extends Error {
+  readonly context: TemplateRegistryErrorContext;
+
+  /** Create a registry error with machine-readable context. */
+  constructor(message: string, context: TemplateRegistryErrorContext) {
+    super(message);
+    this.name = 'TemplateRegistryError';
+    this.context = context;
+  }
+}
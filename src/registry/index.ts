@@ -0,0 +1,53 @@
+/**
+ * Registry Domain - Barrel Export
+ *
+ * Domain: registry
+ * Responsibility: Versioned template storage with a publish/deprecate lifecycle
+ *
+ * Usage:
+ * ```typescript
+ * import { createTemplateRegistry, createFileSystemTemplateStorage } from './registry';
+ *
+ * const registry = createTemplateRegistry({
+ *   storage: createFileSystemTemplateStorage({ directory: './data/templates' }),
+ * });
+ *
+ * await registry.publish(template);
+ * const record = await registry.resolve('intake-note', '1.x');
+ * ```
+ */
+
+// Core
+export { createTemplateRegistry } from './core/registry';
+export { deriveTemplateSchemas } from './core/schema-cache';
+export { summarizeTemplateRecord, toTemplateReference } from './core/summary';
+
+// Storage adapters
+export { createMemoryTemplateStorage } from './adapters/memory-storage';
+export { createFileSystemTemplateStorage } from './adapters/filesystem-storage';
+export { createSQLiteTemplateStorage } from './adapters/sqlite-storage';
+
+// Utilities
+export { compareSemver, createRangeMatcher, isExactSemver, parseSemver } from './utils/semver';
+
+// Errors
+export { TemplateRegistryError } from './errors';
+
+// Types
+export type {
+  TemplateVersionStatus,
+  TemplateSchemaCache,
+  TemplateRecord,
+  TemplateReference,
+  TemplateVersionSelector,
+  TemplateVersionSummary,
+  TemplateStorageAdapter,
+  PublishTemplateOptions,
+  TemplateRegistry,
+  TemplateRegistryConfig,
+  TemplateRegistryErrorCode,
+  TemplateRegistryErrorContext,
+  ParsedSemver,
+  FileSystemTemplateStorageOptions,
+  SQLiteTemplateStorageOptions,
+} from './types';
@@ -0,0 +1,204 @@
+/**
+ * Registry Domain Types
+ *
+ * Types for the versioned template registry and its storage adapters.
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { DerivedSchema, NoteTemplate } from '../derivation/types';
+import type { AuthoredTemplate, TemplateSnippet, TemplateSource, TemplateSourceMap } from '../inheritance/types';
+import type { TemplateLintIssue, ValidationIssue } from '../validation';
+
+/**
+ * Lifecycle state of a stored template version.
+ * Versions are immutable once published; deprecation only hides them from range resolution.
+ */
+export type TemplateVersionStatus = 'published' | 'deprecated';
+
+/**
+ * Schemas derived from a template version at publish time
+ */
+export interface TemplateSchemaCache {
+	ais: DerivedSchema;
+	nas: DerivedSchema;
+	rps: DerivedSchema;
+}
+
+/**
+ * Stored template version with lifecycle metadata and cached schemas
+ */
+export interface TemplateRecord {
+	id: string;
+	version: string;
+	status: TemplateVersionStatus;
+	template: NoteTemplate;
+	schemas: TemplateSchemaCache;
+
+	/** ISO timestamp of publication */
+	publishedAt: string;
+
+	/** ISO timestamp of deprecation (when status === 'deprecated') */
+	deprecatedAt?: string;
+
+	/** Optional human-readable reason recorded at deprecation */
+	deprecationReason?: string;
+
+	/** Non-blocking lint warnings captured at publish time */
+	lintWarnings?: TemplateLintIssue[];
+
+	/** Origin of each component when the template was published with `extends` or `$include` */
+	sourceMap?: TemplateSourceMap;
+}
+
+/**
+ * Identifies the exact template version that produced an artifact
+ */
+export interface TemplateReference {
+	id: string;
+	name: string;
+	version: string;
+}
+
+/**
+ * Version selector accepted by resolve():
+ * - 'latest' (or omitted): highest published, non-deprecated version
+ * - exact semver ('1.2.3'): that version, even if deprecated
+ * - range ('1', '1.x', '1.2.x'): highest published, non-deprecated version matching the prefix
+ */
+export type TemplateVersionSelector = string;
+
+/**
+ * Pluggable persistence contract for template versions.
+ * Adapters store records verbatim; lifecycle rules live in the registry.
+ */
+export interface TemplateStorageAdapter {
+	/** Fetch one version, or undefined when absent */
+	get(id: string, version: string): Promise<TemplateRecord | undefined>;
+
+	/** All stored versions for an id (any order) */
+	list(id: string): Promise<TemplateRecord[]>;
+
+	/** All template ids with at least one stored version */
+	listIds(): Promise<string[]>;
+
+	/** Insert or replace a record */
+	put(record: TemplateRecord): Promise<void>;
+}
+
+/**
+ * Options for publishing a template version
+ */
+export interface PublishTemplateOptions {
+	/** Reject publication when lint warnings are present (default: false) */
+	failOnLintWarnings?: boolean;
+
+	/** Snippets for this template's `$include` references, consulted before the configured template source */
+	snippets?: TemplateSnippet[];
+}
+
+/**
+ * Versioned template registry
+ */
+export interface TemplateRegistry {
+	/** Flatten, validate, lint, derive schemas, and store a new immutable version */
+	publish(template: AuthoredTemplate, options?: PublishTemplateOptions): Promise<TemplateRecord>;
+
+	/** Mark a published version as deprecated */
+	deprecate(id: string, version: string, reason?: string): Promise<TemplateRecord>;
+
+	/** Resolve a version selector to a stored record (throws when nothing matches) */
+	resolve(id: string, selector?: TemplateVersionSelector): Promise<TemplateRecord>;
+
+	/** All versions for an id, newest first */
+	listVersions(id: string): Promise<TemplateRecord[]>;
+
+	/** All registered template ids */
+	listTemplates(): Promise<string[]>;
+}
+
+/**
+ * Configuration for createTemplateRegistry
+ */
+export interface TemplateRegistryConfig {
+	storage: TemplateStorageAdapter;
+
+	/** Clock override for deterministic timestamps */
+	now?: () => Date;
+
+	/**
+	 * Resolves `extends` and `$include` references at publish time
+	 * (default: this registry's published versions; snippets come from publish options)
+	 */
+	templateSource?: TemplateSource;
+}
+
+/**
+ * Machine-readable registry failure codes
+ */
+export type TemplateRegistryErrorCode =
+	| 'invalid-version'
+	| 'invalid-selector'
+	| 'inheritance-failed'
+	| 'migration-failed'
+	| 'validation-failed'
+	| 'lint-failed'
+	| 'derivation-failed'
+	| 'version-exists'
+	| 'not-found'
+	| 'already-deprecated';
+
+/**
+ * Structured context attached to TemplateRegistryError
+ */
+export interface TemplateRegistryErrorContext {
+	code: TemplateRegistryErrorCode;
+	templateId: string;
+	version?: string;
+	validationErrors?: ValidationIssue[];
+	lintIssues?: TemplateLintIssue[];
+
+	/** Underlying error message when code === 'derivation-failed', 'inheritance-failed', or 'migration-failed' */
+	cause?: string;
+}
+
+/**
+ * Parsed semantic version (pre-release tags compare lexically)
+ */
+export interface ParsedSemver {
+	major: number;
+	minor: number;
+	patch: number;
+	prerelease?: string;
+}
+
+/**
+ * Lightweight listing view of a template version (no template body or schemas)
+ */
+export interface TemplateVersionSummary {
+	id: string;
+	name: string;
+	version: string;
+	status: TemplateVersionStatus;
+	publishedAt: string;
+	deprecatedAt?: string;
+	deprecationReason?: string;
+}
+
+/**
+ * Options for the filesystem storage adapter
+ */
+export interface FileSystemTemplateStorageOptions {
+	/** Root directory holding one sub-directory per template id */
+	directory: string;
+}
+
+/**
+ * Options for the SQLite storage adapter
+ */
+export interface SQLiteTemplateStorageOptions {
+	/** Database file path (':memory:' for ephemeral) or an existing handle */
+	database: string | Database;
+
+	/** Table name (default: template_versions) */
+	table?: string;
+}
@@ -0,0 +1,87 @@
+/**
+ * Registry Semver Utilities
+ *
+ * Domain: registry/utils
+ * Responsibility: Parse, compare, and match template versions.
+ *
+ * Supports the subset the registry needs: exact MAJOR.MINOR.PATCH[-prerelease]
+ * versions and prefix ranges ('1', '1.x', '1.2', '1.2.x').
+ */
+
+import type { ParsedSemver } from '../types';
+
+const SEMVER_PATTERN = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z.-]+))?$/;
+const RANGE_PATTERN = /^(0|[1-9]\d*)(?:\.(0|[1-9]\d*|x|\*))?(?:\.(x|\*))?$/;
+
+/**
+ * Parse an exact semantic version, returning undefined when malformed.
+ */
+export function parseSemver(version: string): ParsedSemver | undefined {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4],
+  };
+}
+
+/**
+ * True when the string is an exact MAJOR.MINOR.PATCH version.
+ */
+export function isExactSemver(version: string): boolean {
+  return parseSemver(version) !== undefined;
+}
+
+/**
+ * Compare two versions (negative when a < b). Malformed versions sort first.
+ */
+export function compareSemver(a: string, b: string): number {
+  const left = parseSemver(a);
+  const right = parseSemver(b);
+
+  if (!left || !right) {
+    return left ? 1 : right ? -1 : a.localeCompare(b);
+  }
+
+  const numeric =
+    left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+  if (numeric !== 0) {
+    return numeric;
+  }
+
+  // A release outranks any of its pre-releases.
+  if (left.prerelease === right.prerelease) return 0;
+  if (!left.prerelease) return 1;
+  if (!right.prerelease) return -1;
+  return left.prerelease.localeCompare(right.prerelease);
+}
+
+/**
+ * Build a predicate for a prefix range ('1', '1.x', '1.2.x'); undefined when the range is malformed.
+ */
+export function createRangeMatcher(range: string): ((version: string) => boolean) | undefined {
+  const match = RANGE_PATTERN.exec(range.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const major = Number(match[1]);
+  const minorToken = match[2];
+  const minor = minorToken === undefined || minorToken === 'x' || minorToken === '*'
+    ? undefined
+    : Number(minorToken);
+
+  return (version: string) => {
+    const parsed = parseSemver(version);
+    if (!parsed || parsed.prerelease) {
+      return false;
+    }
+
+    return parsed.major === major && (minor === undefined || parsed.minor === minor);
+  };
+}
@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'bun:test';
 import { FormulaEvaluator } from '../core/formula-evaluator';
+import { checkFormula } from '../core/formula/checker';
+import { FormulaError } from '../errors';
 
 const evaluator = new FormulaEvaluator();
 
@@ -46,4 +48,84 @@ describe('FormulaEvaluator', () => {
 
     expect(result).toBe('PCP: Dr. Sarah Chen');
   });
+
+  it('applies precedence, comparison, logical, and nullish operators', () => {
+    const context = { score: { current: 14, previous: 20 }, note: { flag: null } };
+
+    expect(evaluator.evaluate('2 + 3 * 4 - (10 - 4) / 2', context)).toBe(11);
+    expect(evaluator.evaluate('score.current < score.previous && !note.flag', context)).toBe(true);
+    expect(evaluator.evaluate("note.flag ?? 'none'", context)).toBe('none');
+    expect(evaluator.evaluate("score.current >= 15 ? 'moderate' : 'mild'", context)).toBe('mild');
+    expect(evaluator.evaluate('score.current % 4 == 2', context)).toBe(true);
+  });
+
+  it('calls whitelisted library functions', () => {
+    const context = { scores: [3, 4, 5], name: '  ana ', visit: { date: '2025-03-04' } };
+
+    expect(evaluator.evaluate('round(avg(scores) / 3, 2)', context)).toBe(1.33);
+    expect(evaluator.evaluate('upper(trim(name))', context)).toBe('ANA');
+    expect(evaluator.evaluate("join(scores, '/')", context)).toBe('3/4/5');
+    expect(evaluator.evaluate("isEmpty(visit.room) ? formatDate(visit.date) : visit.room", context)).toBe('03/04/2025');
+  });
+
+  it('parses source date shapes for age, intervals, and durations', () => {
+    const context = { patient: { dob: '02/11/1991' }, visit: { date: '2025-03-04', minutes: 90 } };
+
+    expect(evaluator.evaluate('age(patient.dob, visit.date)', context)).toBe(34);
+    expect(evaluator.evaluate("daysBetween('2025-02-26', visit.date)", context)).toBe(6);
+    expect(evaluator.evaluate('isoDate(patient.dob)', context)).toBe('1991-02-11');
+    expect(evaluator.evaluate("formatDate(patient.dob, 'MMM D, YYYY')", context)).toBe('Feb 11, 1991');
+    expect(evaluator.evaluate('formatDuration(visit.minutes)', context)).toBe('1 hr 30 min');
+    expect(() => evaluator.evaluate("age('13/45/1991')", context)).toThrow('age() expects a date');
+  });
+
+  it('rejects host access, code constructs, and unknown functions', () => {
+    const attempts = [
+      'patient.constructor',
+      "patient['__proto__']",
+      'new Date()',
+      'Math.max(1, 2)',
+      'eval("1")',
+      'patient.name; 1',
+    ];
+
+    attempts.forEach(formula => {
+      expect(() => evaluator.evaluate(formula, { patient: { name: 'A' } })).toThrow(FormulaError);
+    });
+  });
+
+  it('reports missing values and division by zero instead of rendering garbage', () => {
+    expect(() => evaluator.evaluate("'Name: ' + patient.name", {})).toThrow('patient.name is missing');
+    expect(() => evaluator.evaluate('patient.missing', {})).toThrow('Formula produced no value');
+    expect(() => evaluator.evaluate('10 / count', { count: 0 })).toThrow('Division by zero');
+
+    const syntaxError = (() => {
+      try {
+        evaluator.evaluate('1 +', {});
+      } catch (error) {
+        return error;
+      }
+      return undefined;
+    })();
+    expect(syntaxError).toBeInstanceOf(FormulaError);
+    expect((syntaxError as FormulaError).context.code).toBe('formula-syntax');
+  });
+});
+
+describe('checkFormula', () => {
+  it('infers types and collects references without source data', () => {
+    const result = checkFormula("'Total: ' + string(sum(scores.items)) + ' for ' + patient.name");
+    expect(result.ok).toBe(true);
+    expect(result.resultType).toBe('string');
+    expect(result.references).toEqual(['scores.items', 'patient.name']);
+  });
+
+  it('reports syntax, arity, type, and identifier issues', () => {
+    expect(checkFormula('score +').issues[0].code).toBe('formula.syntax');
+    expect(checkFormula('round()').issues.map(issue => issue.code)).toEqual(['formula.function.arity']);
+    expect(checkFormula("'a' - 1").issues.map(issue => issue.code)).toEqual(['formula.type']);
+    expect(checkFormula('lower(true)').issues.map(issue => issue.code)).toEqual(['formula.type']);
+    expect(checkFormula('window.location').issues.map(issue => issue.code)).toEqual(['formula.identifier.unknown']);
+    expect(checkFormula('visit.date', { roots: ['patient'] }).issues[0].code).toBe('formula.identifier.unknown');
+  });
 });
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'bun:test';
+import { createNASBuilder } from '../index';
+import { scoreInstrument } from '../core/scoring/score-instrument';
+import type { DerivedSchema, NoteTemplate } from '../../derivation/types';
+
+const phq9Responses = (scores: Array<number | null>) =>
+  scores.map((score, index) => ({ number: index + 1, question: `Item ${index + 1}`, score }));
+
+describe('scoreInstrument', () => {
+  it('scores PHQ-9 responses into total, severity, and item-9 flag', () => {
+    const result = scoreInstrument('phq9', { responses: phq9Responses([3, 3, 3, 3, 2, 3, 2, 1, 1]) });
+
+    expect(result.total).toBe(21);
+    expect(result.severity).toBe('Severe depression');
+    expect(result.riskFlag).toBe(true);
+    expect(result.notices).toEqual([]);
+  });
+
+  it('prorates up to two missing PHQ-9 items and invalidates beyond that', () => {
+    const prorated = scoreInstrument('phq9', [2, 2, null, 2, 2, 2, 2, 2, 0]);
+    expect(prorated.total).toBe(16);
+    expect(prorated.prorated).toBe(true);
+    expect(prorated.missingItems).toEqual([3]);
+    expect(prorated.notices[0].severity).toBe('warning');
+
+    const invalid = scoreInstrument('phq9', [2, null, null, null, 2, 2, 2, 2, null]);
+    expect(invalid.total).toBeNull();
+    expect(invalid.riskFlag).toBeNull();
+    expect(invalid.notices.map(notice => notice.severity)).toEqual(['error', 'error']);
+  });
+
+  it('applies GAD-7 and PCL-5 bands and delta against a prior total', () => {
+    const gad7 = scoreInstrument('gad7', { item1: 2, item2: 2, item3: 2, item4: 2, item5: 1, item6: 2, item7: 1 }, { prior: 18 });
+    expect(gad7.total).toBe(12);
+    expect(gad7.severity).toBe('Moderate anxiety');
+    expect(gad7.delta).toBe(-6);
+
+    const pcl5 = scoreInstrument('pcl5', new Array(20).fill(2));
+    expect(pcl5.total).toBe(40);
+    expect(pcl5.severity).toBe('Probable PTSD');
+  });
+
+  it('requires every AUDIT-C item and applies sex-specific cutoffs', () => {
+    expect(scoreInstrument('auditc', [1, 1, 1], { sex: 'male' }).severity).toBe('Negative screen');
+    expect(scoreInstrument('auditc', [1, 1, 1], { sex: 'female' }).severity).toBe('Positive screen');
+
+    const unspecified = scoreInstrument('auditc', [1, 1, 1]);
+    expect(unspecified.severity).toBe('Positive screen');
+    expect(unspecified.notices[0].severity).toBe('info');
+
+    const incomplete = scoreInstrument('auditc', [2, null, 1]);
+    expect(incomplete.total).toBeNull();
+    expect(incomplete.notices[0].message).toContain('all 3 items are required');
+  });
+
+  it('triages the C-SSRS screener and honors its skip logic', () => {
+    const skipped = scoreInstrument('cssrs', ['Yes', 'No', null, null, null, 'No']);
+    expect(skipped.severity).toBe('Low risk');
+    expect(skipped.missingItems).toEqual([]);
+
+    const high = scoreInstrument('cssrs', [true, true, true, false, true, false]);
+    expect(high.severity).toBe('High risk');
+    expect(high.riskFlag).toBe(true);
+
+    const unanswered = scoreInstrument('cssrs', [false, true, null, null, null, false]);
+    expect(unanswered.severity).toBeNull();
+    expect(unanswered.missingItems).toEqual([3, 4, 5]);
+  });
+});
+
+describe('instrument formula functions', () => {
+  const template: NoteTemplate = {
+    id: 'scoring',
+    name: 'Scoring',
+    version: '1.0.0',
+    layout: [
+      {
+        id: 'scores',
+        type: 'section',
+        content: [
+          {
+            slot: 'computed',
+            id: 'phq9-line',
+            formula: "'PHQ-9: ' + instrumentScore('phq9', assessments.phq9) + ' (' + instrumentSeverity('phq9', assessments.phq9) + ')'",
+            targetPath: 'scores.phq9',
+          },
+          {
+            slot: 'computed',
+            id: 'phq9-delta',
+            formula: "instrumentDelta('phq9', assessments.phq9, assessments.phq9Prior)",
+            format: 'deltaScore',
+            targetPath: 'scores.phq9Delta',
+          },
+          {
+            slot: 'computed',
+            id: 'gad7-line',
+            formula: "instrumentScore('gad7', assessments.gad7) ?? 'Not scorable'",
+            targetPath: 'scores.gad7',
+          },
+        ],
+      },
+    ],
+  };
+
+  it('resolves scores in computed slots and surfaces missing items as warnings', async () => {
+    const result = await createNASBuilder().build({
+      template,
+      nasSchema: { type: 'object', properties: {} } as DerivedSchema,
+      sourceData: {
+        assessments: {
+          phq9: { responses: phq9Responses([2, 2, null, 2, 2, 2, 2, 2, 0]) },
+          phq9Prior: { totalScore: 22 },
+          gad7: [1, null, null, null, 1, 1, 1],
+        },
+      },
+    });
+
+    expect(result.nasData).toEqual({
+      scores: { phq9: 'PHQ-9: 16 (Moderately severe depression)', phq9Delta: '-6', gad7: 'Not scorable' },
+    });
+
+    const scoringWarnings = result.warnings.filter(warning => warning.reason === 'incomplete_instrument');
+    expect(scoringWarnings.map(warning => `${warning.slotId}:${warning.severity}`)).toEqual([
+      'phq9-line:warning',
+      'phq9-delta:warning',
+      'gad7-line:error',
+    ]);
+  });
+});
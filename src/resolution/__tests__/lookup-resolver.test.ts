@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'bun:test';
+import { createNASBuilder } from '../index';
+import { LookupResolver } from '../core/lookup-resolver';
+import { evaluateLookup } from '../core/lookup/evaluator';
+import type { ResolutionContext, ResolutionNotice } from '../contracts/types';
+import type { ContentItem, DerivedSchema, NoteTemplate } from '../../derivation/types';
+
+const sourceData = {
+  visit: { clinician: '', date: '2025-03-04' },
+  caseManager: { name: 'Jordan Lee' },
+  diagnoses: [
+    { code: 'F33.1', primary: true },
+    { code: 'F41.1', primary: false },
+    { code: 'F33.1', primary: false },
+  ],
+  meds: [
+    { name: 'Sertraline', status: 'active', startedDays: 40 },
+    { name: 'Bupropion', status: 'stopped', startedDays: 200 },
+    { name: 'Hydroxyzine', status: 'active', startedDays: 12 },
+  ],
+  goals: [
+    { title: 'Sleep', objectives: [{ text: 'Sleep hygiene log' }, { text: 'No screens after 10pm' }] },
+    { title: 'Mood', objectives: [{ text: 'Behavioral activation' }] },
+  ],
+};
+
+const lookup = (source: string) => evaluateLookup(source, sourceData).value;
+
+function resolveItem(item: ContentItem) {
+  const notices: ResolutionNotice[] = [];
+  const context: ResolutionContext = {
+    template: { id: 't', name: 't', version: '1.0.0', layout: [] },
+    nasSchema: { type: 'object', properties: {} } as DerivedSchema,
+    sourceData,
+    partialNas: {},
+    notify: notice => notices.push(notice),
+  };
+  return { field: new LookupResolver().resolve(item, context), notices };
+}
+
+describe('lookup pipelines', () => {
+  it('applies pipes in order', () => {
+    expect(lookup("diagnoses[].code | unique | join(', ')")).toBe('F33.1, F41.1');
+    expect(lookup('diagnoses[].code | count')).toBe(3);
+    expect(lookup('diagnoses[] | filter(primary == true) | map(code) | first')).toBe('F33.1');
+    expect(lookup('diagnoses[?!primary].code | join')).toBe('F41.1, F33.1');
+    expect(lookup("meds[] | filter(status != 'stopped') | sort(startedDays) | map(name) | join")).toBe('Hydroxyzine, Sertraline');
+    expect(lookup("meds[] | sort(name, 'desc') | map(name) | last")).toBe('Bupropion');
+    expect(lookup('meds[].name | truncate(2)')).toEqual(['Sertraline', 'Bupropion']);
+    expect(lookup('caseManager.name | truncate(6)')).toBe('Jordan\u2026');
+    expect(lookup("goals[] | map(objectives[].text) | join(' / ')")).toBe(
+      'Sleep hygiene log / No screens after 10pm / Behavioral activation'
+    );
+  });
+
+  it('keeps multi-level wildcards nested until a pipe flattens them', () => {
+    expect(evaluateLookup('goals[].objectives[].text', sourceData)).toEqual({
+      value: [['Sleep hygiene log', 'No screens after 10pm'], ['Behavioral activation']],
+      depth: 2,
+    });
+    expect(lookup('goals[].objectives[].text | count')).toBe(3);
+  });
+
+  it('falls back through the chain and then to the default', () => {
+    const fallback = resolveItem({
+      id: 'clinician',
+      slot: 'lookup',
+      lookup: ['visit.clinician', 'caseManager.name'],
+      targetPath: 'header.clinician',
+    });
+    expect(fallback.field?.value).toBe('Jordan Lee');
+    expect(fallback.notices[0]).toMatchObject({ reason: 'missing_source', severity: 'info' });
+
+    const defaulted = resolveItem({
+      id: 'room',
+      slot: 'lookup',
+      lookup: ['visit.room', 'visit.location'],
+      default: 'Telehealth',
+      targetPath: 'header.room',
+    });
+    expect(defaulted.field?.value).toBe('Telehealth');
+    expect(defaulted.notices[0].message).toContain('used default');
+  });
+
+  it('reports pipe type errors and tries the next lookup', () => {
+    const result = resolveItem({
+      id: 'summary',
+      slot: 'lookup',
+      lookup: ['visit | sort', 'visit.date'],
+      targetPath: 'header.summary',
+    });
+    expect(result.field?.value).toBe('2025-03-04');
+    expect(result.notices.map(notice => notice.reason)).toEqual(['type_mismatch', 'missing_source']);
+    expect(result.notices[0].message).toContain('sort expects a list');
+  });
+
+  it('projects nested wildcards onto matching target paths', async () => {
+    const template: NoteTemplate = {
+      id: 'lookup-projection',
+      name: 'Lookup Projection',
+      version: '1.0.0',
+      layout: [
+        {
+          id: 'plan',
+          type: 'section',
+          content: [
+            { id: 'objectives', slot: 'lookup', lookup: 'goals[].objectives[].text', targetPath: 'plan.goals[].objectives[].text' },
+            { id: 'objective-list', slot: 'lookup', lookup: 'goals[].objectives[].text', targetPath: 'plan.flat[].text' },
+            { id: 'bad-pipe', slot: 'lookup', lookup: 'meds[] | bogus', targetPath: 'plan.bogus' },
+          ],
+        },
+      ],
+    };
+
+    const result = await createNASBuilder().build({
+      template,
+      nasSchema: { type: 'object', properties: {} } as DerivedSchema,
+      sourceData,
+    });
+
+    expect(result.nasData.plan).toEqual({
+      goals: [
+        { objectives: [{ text: 'Sleep hygiene log' }, { text: 'No screens after 10pm' }] },
+        { objectives: [{ text: 'Behavioral activation' }] },
+      ],
+      flat: [{ text: 'Sleep hygiene log' }, { text: 'No screens after 10pm' }, { text: 'Behavioral activation' }],
+    });
+    const invalid = result.warnings.find(warning => warning.slotId === 'bad-pipe' && warning.reason === 'invalid_ref');
+    expect(invalid?.message).toContain("Unknown lookup transform 'bogus'");
+  });
+});
@@ -44,6 +44,8 @@ export interface ResolutionBuildParams {
 export interface ResolutionContext extends ResolutionBuildParams {
   /** Partial NAS snapshot built so far (read-only to preserve purity) */
   partialNas: Readonly<NasSnapshot>;
+  /** Records non-fatal findings for the slot being resolved (e.g. prorated scores) */
+  notify?: (notice: ResolutionNotice) => void;
 }
 
 /**
@@ -55,6 +57,17 @@ export interface ResolvedField {
   slotType: 'lookup' | 'computed' | 'static' | 'verbatim';
 }
 
+/**
+ * Non-fatal finding raised by a resolver; NASBuilder turns it into a ResolutionWarning
+ * whether or not the slot resolved
+ */
+export interface ResolutionNotice {
+  reason: ResolutionWarning['reason'];
+  severity: ResolutionWarningSeverity;
+  message: string;
+  details?: unknown;
+}
+
 /**
  * Resolution result with diagnostics
  */
@@ -79,7 +92,8 @@ export interface ResolutionWarning {
     | 'formula_error'
     | 'invalid_ref'
     | 'type_mismatch'
-    | 'unresolved_slot';
+    | 'unresolved_slot'
+    | 'incomplete_instrument';
   message: string;
   details?: unknown;
 }
@@ -119,7 +133,7 @@ export interface IFormulaEvaluator {
   /**
    * Safely evaluate a formula expression
    */
-  evaluate(formula: string, context: SourceRecord): number | string | boolean;
+  evaluate(formula: string, context: SourceRecord, notices?: ResolutionNotice[]): number | string | boolean;
 
   /**
    * Format the result according to format hint
@@ -127,6 +141,141 @@ export interface IFormulaEvaluator {
   format(value: unknown, format?: 'plain' | 'deltaScore' | 'percent'): string;
 }
 
+/**
+ * Failure category raised by the formula language
+ */
+export type FormulaErrorCode = 'formula-syntax' | 'formula-type' | 'formula-reference' | 'formula-runtime';
+
+/**
+ * Structured context attached to FormulaError
+ */
+export interface FormulaErrorContext {
+  code: FormulaErrorCode;
+  formula: string;
+  position?: number; // Zero-based character offset of the offending token
+}
+
+/**
+ * Static types the formula checker can infer ('any' for path references)
+ */
+export type FormulaValueType = 'number' | 'string' | 'boolean' | 'null' | 'array' | 'any';
+
+/**
+ * Finding from static formula checking (codes match template lint codes)
+ */
+export interface FormulaIssue {
+  code:
+    | 'formula.syntax'
+    | 'formula.identifier.unknown'
+    | 'formula.function.unknown'
+    | 'formula.function.arity'
+    | 'formula.type';
+  message: string;
+  position?: number;
+}
+
+/**
+ * Options for static formula checking
+ */
+export interface FormulaCheckOptions {
+  roots?: string[]; // Known source roots; other path roots are reported as unknown
+}
+
+/**
+ * Result of statically checking a formula without source data
+ */
+export interface FormulaCheckResult {
+  ok: boolean;
+  issues: FormulaIssue[];
+  references: string[]; // Source paths the formula reads (e.g. "patient.name")
+  resultType: FormulaValueType;
+}
+
+/**
+ * Failure category raised by lookup pipelines
+ */
+export type LookupErrorCode = 'lookup-syntax' | 'lookup-transform' | 'lookup-type';
+
+/**
+ * Structured context attached to LookupError
+ */
+export interface LookupErrorContext {
+  code: LookupErrorCode;
+  lookup: string;
+  transform?: string; // Pipe that failed, when the path itself was fine
+  position?: number;  // Zero-based character offset of the offending segment
+}
+
+/**
+ * One pipe stage of a lookup, e.g. `join(", ")` or `filter(status == 'active')`
+ */
+export interface LookupPipe {
+  name: string;
+  args: string[]; // Raw argument text; each transform interprets its own arguments
+  position: number;
+}
+
+/**
+ * Parsed lookup: a source path followed by zero or more pipes
+ */
+export interface LookupExpression {
+  source: string;
+  path: string;
+  pipes: LookupPipe[];
+}
+
+/**
+ * Finding from static lookup checking (codes match template lint codes)
+ */
+export interface LookupIssue {
+  code:
+    | 'lookup.syntax'
+    | 'lookup.transform.unknown'
+    | 'lookup.transform.arity'
+    | 'lookup.transform.argument'
+    | 'lookup.wildcard';
+  message: string;
+  position?: number;
+}
+
+/**
+ * Options for static lookup checking
+ */
+export interface LookupCheckOptions {
+  targetPath?: string; // Checked for wildcard depth compatibility with the lookup
+}
+
+/**
+ * Clinical instruments supported by the scoring library
+ */
+export type InstrumentId = 'phq9' | 'gad7' | 'auditc' | 'cssrs' | 'pcl5';
+
+/**
+ * Options for scoring an instrument
+ */
+export interface InstrumentScoreOptions {
+  sex?: 'male' | 'female'; // Selects the AUDIT-C cutoff; unset uses the more sensitive cutoff
+  prior?: unknown;          // Prior total or prior responses used to compute delta
+}
+
+/**
+ * Scored instrument with manual-driven missing-item handling
+ */
+export interface InstrumentScore {
+  instrument: InstrumentId;
+  label: string;                // Display name (e.g. "PHQ-9")
+  total: number | null;         // Null when missing items invalidate the score
+  maxTotal: number;
+  severity: string | null;      // Severity band or screen result
+  itemCount: number;
+  answered: number;
+  missingItems: number[];       // 1-based item numbers without a usable answer
+  prorated: boolean;            // Total was prorated from the answered items
+  riskFlag: boolean | null;     // PHQ-9 item 9 / C-SSRS risk; null when unknown or not applicable
+  delta: number | null;         // Change versus options.prior
+  notices: ResolutionNotice[];
+}
+
 /**
  * Interface for NAS builder (orchestrator)
  */
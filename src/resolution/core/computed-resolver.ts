@@ -1,5 +1,12 @@
 import type { ContentItem } from '../../derivation/types';
-import type { ISlotResolver, ResolutionContext, ResolvedField, IFormulaEvaluator } from '../contracts/types';
+import type {
+  ISlotResolver,
+  ResolutionContext,
+  ResolutionNotice,
+  ResolvedField,
+  IFormulaEvaluator,
+} from '../contracts/types';
+import { isRenderFormat } from '../../factory/utils/value-format';
 
 /**
  * Resolves computed slots by evaluating formulas
@@ -19,15 +26,19 @@ export class ComputedResolver implements ISlotResolver {
       return null;
     }
 
+    // Scoring functions report missing items even when the formula then fails
+    const notices: ResolutionNotice[] = [];
+
     try {
       // Evaluate formula with source data as context
       const rawValue = this.formulaEvaluator.evaluate(
         item.formula,
-        context.sourceData
+        context.sourceData,
+        notices
       );
 
-      // Apply format if specified
-      const value = item.format
+      // Apply resolution-time formats; render formats (date, currency, ...) are applied by the factory
+      const value = item.format && !isRenderFormat(item.format)
         ? this.formulaEvaluator.format(rawValue, item.format)
         : rawValue;
 
@@ -39,6 +50,8 @@ export class ComputedResolver implements ISlotResolver {
     } catch (_error: unknown) {
       // Formula evaluation failed - return null, caller will log warning
       return null;
+    } finally {
+      notices.forEach(notice => context.notify?.(notice));
     }
   }
 }
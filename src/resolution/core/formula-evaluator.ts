@@ -1,49 +1,60 @@
-import type { IFormulaEvaluator, SourceRecord } from '../contracts/types';
-
-type EvaluatorFn = (context: SourceRecord) => unknown;
-
-const PROTECTED_NAMES = [
-  'globalThis',
-  'global',
-  'process',
-  'require',
-  'Function',
-  'window',
-  'document',
-];
+import type { IFormulaEvaluator, ResolutionNotice, SourceRecord } from '../contracts/types';
+import { FormulaError } from '../errors';
+import type { FormulaNode } from './formula/ast';
+import { interpretFormula } from './formula/interpreter';
+import { parseFormula } from './formula/parser';
 
 /**
- * Cache compiled evaluator functions by formula to avoid recompilation.
+ * Cache parsed formulas to avoid re-tokenizing on every note.
  */
-const evaluatorCache = new Map<string, EvaluatorFn>();
+const astCache = new Map<string, FormulaNode>();
 
 /**
- * Safely evaluates computed formulas WITHOUT using eval()
+ * Evaluates computed formulas with the formula language interpreter
  *
- * Responsibility: ONE - Parse and evaluate mathematical expressions
+ * Responsibility: ONE - Parse and evaluate formula expressions
  *
  * Supports:
- * - Basic arithmetic: +, -, *, /
+ * - Arithmetic (+, -, *, /, %), comparison, and logical operators (&&, ||, ??, !)
  * - String concatenation using + operator
  * - Parentheses for grouping
  * - Path references resolved against source data (e.g., clinical_intake.structured.mse.mood)
  * - Conditional (ternary) expressions
+ * - Whitelisted functions (round, join, coalesce, formatDate, ...)
+ * - Clinical instrument scoring (instrumentScore, instrumentSeverity, instrumentFlag, instrumentDelta)
  * - Format hints: plain, deltaScore, percent
+ *
+ * Formulas never compile to JavaScript, so no host globals are reachable and
+ * evaluation works under a strict Content Security Policy.
  */
 export class FormulaEvaluator implements IFormulaEvaluator {
-  evaluate(formula: string, context: SourceRecord): number | string | boolean {
+  evaluate(formula: string, context: SourceRecord, notices?: ResolutionNotice[]): number | string | boolean {
     if (!formula || !formula.trim()) {
       return '';
     }
 
-    const evaluator = this.getOrCreateEvaluator(formula);
+    const notify = (notice: ResolutionNotice) => {
+      if (notices && !notices.some(existing => existing.message === notice.message)) {
+        notices.push(notice);
+      }
+    };
 
     try {
-      const result = evaluator(context ?? {});
-      return result as number | string | boolean;
+      const result = interpretFormula(this.getOrParse(formula), context ?? {}, formula, notify);
+      if (result === null || result === undefined) {
+        throw new FormulaError('Formula produced no value', { code: 'formula-runtime', formula });
+      }
+      if (typeof result !== 'number' && typeof result !== 'string' && typeof result !== 'boolean') {
+        throw new FormulaError('Formula must produce a number, string, or boolean', { code: 'formula-type', formula });
+      }
+      return result;
     } catch (error) {
       const reason = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to evaluate formula "${formula}": ${reason}`);
+      const message = `Failed to evaluate formula "${formula}": ${reason}`;
+      if (error instanceof FormulaError) {
+        throw new FormulaError(message, error.context);
+      }
+      throw new Error(message);
     }
   }
 
@@ -66,35 +77,14 @@ export class FormulaEvaluator implements IFormulaEvaluator {
     }
   }
 
-  private getOrCreateEvaluator(formula: string): EvaluatorFn {
-    const cached = evaluatorCache.get(formula);
+  private getOrParse(formula: string): FormulaNode {
+    const cached = astCache.get(formula);
     if (cached) {
       return cached;
     }
 
-    const evaluator = this.compile(formula);
-    evaluatorCache.set(formula, evaluator);
-    return evaluator;
-  }
-
-  private compile(formula: string): EvaluatorFn {
-    const protectedAssignments = PROTECTED_NAMES
-      .map((name) => `sandbox.${name} = undefined;`)
-      .join('\n');
-
-    const body = `
-      const sandbox = Object.create(null);
-      Object.assign(sandbox, context || {});
-      sandbox.Math = Math;
-      ${protectedAssignments}
-      return (function() {
-        with (sandbox) {
-          return (${formula});
-        }
-      })();
-    `;
-
-    // eslint-disable-next-line no-new-func
-    return new Function('context', body) as EvaluatorFn;
+    const ast = parseFormula(formula);
+    astCache.set(formula, ast);
+    return ast;
   }
 }
@@ -0,0 +1,32 @@
+/**
+ * Formula Language - Tokens and AST
+ *
+ * Domain: resolution/core/formula
+ * Responsibility: Node shapes shared by the tokenizer, parser, interpreter, and checker.
+ */
+
+export type FormulaTokenKind = 'number' | 'string' | 'identifier' | 'punctuator' | 'eof';
+
+export interface FormulaToken {
+  kind: FormulaTokenKind;
+  value: string;
+  position: number;
+}
+
+export type FormulaBinaryOperator =
+  | '+' | '-' | '*' | '/' | '%'
+  | '<' | '<=' | '>' | '>='
+  | '==' | '!=' | '===' | '!==';
+
+export type FormulaLogicalOperator = '&&' | '||' | '??';
+
+export type FormulaUnaryOperator = '-' | '+' | '!';
+
+export type FormulaNode =
+  | { type: 'literal'; value: number | string | boolean | null | undefined; position: number }
+  | { type: 'path'; root: string; segments: Array<string | number>; source: string; position: number }
+  | { type: 'unary'; operator: FormulaUnaryOperator; argument: FormulaNode; position: number }
+  | { type: 'binary'; operator: FormulaBinaryOperator; left: FormulaNode; right: FormulaNode; position: number }
+  | { type: 'logical'; operator: FormulaLogicalOperator; left: FormulaNode; right: FormulaNode; position: number }
+  | { type: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode; position: number }
+  | { type: 'call'; callee: string; args: FormulaNode[]; position: number };
@@ -0,0 +1,195 @@
+/**
+ * Formula Language - Static Checker
+ *
+ * Domain: resolution/core/formula
+ * Responsibility: Report syntax errors, unknown identifiers and functions,
+ * arity mistakes, and type errors without evaluating the formula.
+ *
+ * SOR: Types are inferred from literals and the function library; path
+ * references are 'any' because source data is only known at run time.
+ */
+
+import type {
+  FormulaCheckOptions,
+  FormulaCheckResult,
+  FormulaIssue,
+  FormulaValueType,
+} from '../../contracts/types';
+import { FormulaError } from '../../errors';
+import type { FormulaNode } from './ast';
+import { FORMULA_FUNCTIONS, getFormulaFunction } from './functions';
+import { parseFormula } from './parser';
+
+/** Host globals authors reach for out of JavaScript habit; none exist in formulas */
+const HOST_GLOBALS = new Set([
+  'Math', 'Date', 'JSON', 'Object', 'Array', 'String', 'Number', 'Boolean', 'Function',
+  'Promise', 'Reflect', 'Proxy', 'Symbol', 'RegExp', 'Intl', 'globalThis', 'global',
+  'window', 'document', 'process', 'require', 'module', 'exports', 'eval', 'Bun',
+]);
+
+/**
+ * Statically check a formula.
+ *
+ * @param formula - Formula source
+ * @param options - Optional known source roots
+ * @returns Issues, referenced paths, and the inferred result type
+ */
+export function checkFormula(formula: string, options: FormulaCheckOptions = {}): FormulaCheckResult {
+  let ast: FormulaNode;
+  try {
+    ast = parseFormula(formula);
+  } catch (error) {
+    if (!(error instanceof FormulaError)) {
+      throw error;
+    }
+    return {
+      ok: false,
+      issues: [{ code: 'formula.syntax', message: error.message, position: error.context.position }],
+      references: [],
+      resultType: 'any',
+    };
+  }
+
+  const issues: FormulaIssue[] = [];
+  const references = new Set<string>();
+  const roots = options.roots ? new Set(options.roots) : undefined;
+
+  const report = (code: FormulaIssue['code'], message: string, node: FormulaNode) => {
+    issues.push({ code, message, position: node.position });
+  };
+
+  const requireType = (
+    actual: FormulaValueType,
+    allowed: FormulaValueType[],
+    context: string,
+    node: FormulaNode
+  ): void => {
+    if (actual !== 'any' && !allowed.includes(actual)) {
+      report('formula.type', `${context} expects ${allowed.join(' or ')}, got ${actual}`, node);
+    }
+  };
+
+  const infer = (node: FormulaNode): FormulaValueType => {
+    switch (node.type) {
+      case 'literal':
+        return literalType(node.value);
+
+      case 'path':
+        references.add(node.source);
+        if (HOST_GLOBALS.has(node.root)) {
+          report('formula.identifier.unknown', `Unknown identifier "${node.root}"; use the formula function library instead`, node);
+        } else if (roots && !roots.has(node.root)) {
+          report('formula.identifier.unknown', `Unknown identifier "${node.root}"`, node);
+        }
+        return 'any';
+
+      case 'unary': {
+        const argument = infer(node.argument);
+        if (node.operator === '!') {
+          return 'boolean';
+        }
+        requireType(argument, ['number'], `Unary ${node.operator}`, node);
+        return 'number';
+      }
+
+      case 'logical':
+        return unify(infer(node.left), infer(node.right));
+
+      case 'conditional':
+        infer(node.test);
+        return unify(infer(node.consequent), infer(node.alternate));
+
+      case 'binary': {
+        const left = infer(node.left);
+        const right = infer(node.right);
+        switch (node.operator) {
+          case '+':
+            return inferAddition(left, right, node);
+          case '-':
+          case '*':
+          case '/':
+          case '%':
+            requireType(left, ['number'], `Operator ${node.operator}`, node.left);
+            requireType(right, ['number'], `Operator ${node.operator}`, node.right);
+            return 'number';
+          case '<':
+          case '<=':
+          case '>':
+          case '>=':
+            requireType(left, ['number', 'string'], `Operator ${node.operator}`, node.left);
+            requireType(right, ['number', 'string'], `Operator ${node.operator}`, node.right);
+            if (isKnown(left) && isKnown(right) && left !== right) {
+              report('formula.type', `Operator ${node.operator} cannot compare ${left} with ${right}`, node);
+            }
+            return 'boolean';
+          default:
+            return 'boolean';
+        }
+      }
+
+      case 'call': {
+        const argTypes = node.args.map(infer);
+        const fn = getFormulaFunction(node.callee);
+        if (!fn) {
+          report(
+            'formula.function.unknown',
+            `Unknown function "${node.callee}". Available: ${Object.keys(FORMULA_FUNCTIONS).join(', ')}`,
+            node
+          );
+          return 'any';
+        }
+
+        const maxArgs = fn.rest ? Infinity : fn.params.length;
+        if (argTypes.length < fn.minArgs || argTypes.length > maxArgs) {
+          const expected = fn.rest
+            ? `at least ${fn.minArgs}`
+            : fn.minArgs === fn.params.length ? `${fn.minArgs}` : `${fn.minArgs}-${fn.params.length}`;
+          report('formula.function.arity', `${node.callee}() takes ${expected} argument(s), got ${argTypes.length}`, node);
+        }
+
+        argTypes.forEach((type, index) => {
+          const expected = fn.params[index] ?? fn.rest;
+          if (expected && expected !== 'any') {
+            requireType(type, [expected], `${node.callee}() argument ${index + 1}`, node.args[index]);
+          }
+        });
+        return fn.returns;
+      }
+    }
+  };
+
+  const inferAddition = (left: FormulaValueType, right: FormulaValueType, node: FormulaNode): FormulaValueType => {
+    for (const [type, operand] of [[left, 'left'], [right, 'right']] as const) {
+      if (type === 'null' || type === 'array') {
+        report('formula.type', `Operator + cannot use a ${type} ${operand} operand`, node);
+        return 'any';
+      }
+    }
+    if (left === 'string' || right === 'string') {
+      return 'string';
+    }
+    if (left === 'boolean' || right === 'boolean') {
+      report('formula.type', 'Operator + cannot add booleans; convert with string() first', node);
+      return 'any';
+    }
+    return left === 'number' && right === 'number' ? 'number' : 'any';
+  };
+
+  const resultType = infer(ast);
+  return { ok: issues.length === 0, issues, references: Array.from(references), resultType };
+}
+
+function literalType(value: unknown): FormulaValueType {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  return typeof value as FormulaValueType;
+}
+
+function isKnown(type: FormulaValueType): boolean {
+  return type !== 'any';
+}
+
+function unify(left: FormulaValueType, right: FormulaValueType): FormulaValueType {
+  return left === right ? left : 'any';
+}
@@ -0,0 +1,272 @@
+/**
+ * Formula Language - Function Library
+ *
+ * Domain: resolution/core/formula
+ * Responsibility: The whitelisted functions formulas may call, with the
+ * signatures the static checker uses.
+ *
+ * SOR: This table is the only way formulas reach behavior beyond operators;
+ * nothing on the host (Math, Date, globals) is reachable otherwise.
+ */
+
+import type { FormulaValueType, InstrumentScoreOptions, ResolutionNotice } from '../../contracts/types';
+import { computeAge, daysBetween, formatDatePattern, formatDuration, parseDate } from '../../../factory/utils/date-utils';
+import { scoreInstrument } from '../scoring/score-instrument';
+
+export interface FormulaFunction {
+  /** Declared parameter types; optional ones start at minArgs */
+  params: FormulaValueType[];
+  minArgs: number;
+  /** Type of any extra arguments (variadic functions only) */
+  rest?: FormulaValueType;
+  returns: FormulaValueType;
+  /** notify records non-fatal findings (e.g. prorated instrument scores) */
+  call(args: unknown[], notify: (notice: ResolutionNotice) => void): unknown;
+}
+
+const MISSING = (value: unknown): boolean => value === null || value === undefined;
+
+/**
+ * Whitelisted formula functions keyed by name.
+ */
+export const FORMULA_FUNCTIONS: Readonly<Record<string, FormulaFunction>> = Object.freeze({
+  round: {
+    params: ['number', 'number'],
+    minArgs: 1,
+    returns: 'number',
+    call: ([value, digits]) => {
+      const factor = Math.pow(10, digits === undefined ? 0 : requireNumber('round', digits));
+      return Math.round(requireNumber('round', value) * factor) / factor;
+    },
+  },
+  floor: numeric('floor', Math.floor),
+  ceil: numeric('ceil', Math.ceil),
+  abs: numeric('abs', Math.abs),
+  min: {
+    params: ['number'],
+    minArgs: 1,
+    rest: 'number',
+    returns: 'number',
+    call: (args) => Math.min(...args.map((arg) => requireNumber('min', arg))),
+  },
+  max: {
+    params: ['number'],
+    minArgs: 1,
+    rest: 'number',
+    returns: 'number',
+    call: (args) => Math.max(...args.map((arg) => requireNumber('max', arg))),
+  },
+  sum: {
+    params: ['array'],
+    minArgs: 1,
+    returns: 'number',
+    call: ([values]) => requireArray('sum', values).reduce<number>((total, item) => total + requireNumber('sum', item), 0),
+  },
+  avg: {
+    params: ['array'],
+    minArgs: 1,
+    returns: 'number',
+    call: ([values]) => {
+      const list = requireArray('avg', values);
+      if (list.length === 0) {
+        throw new Error('avg() needs at least one value');
+      }
+      return list.reduce<number>((total, item) => total + requireNumber('avg', item), 0) / list.length;
+    },
+  },
+  upper: text('upper', (value) => value.toUpperCase()),
+  lower: text('lower', (value) => value.toLowerCase()),
+  trim: text('trim', (value) => value.trim()),
+  length: {
+    params: ['any'],
+    minArgs: 1,
+    returns: 'number',
+    call: ([value]) => {
+      if (typeof value === 'string' || Array.isArray(value)) {
+        return value.length;
+      }
+      throw new Error('length() expects a string or array');
+    },
+  },
+  join: {
+    params: ['array', 'string'],
+    minArgs: 1,
+    returns: 'string',
+    call: ([values, separator]) =>
+      requireArray('join', values)
+        .filter((item) => !MISSING(item))
+        .map(String)
+        .join(separator === undefined ? ', ' : String(separator)),
+  },
+  contains: {
+    params: ['any', 'any'],
+    minArgs: 2,
+    returns: 'boolean',
+    call: ([haystack, needle]) => {
+      if (typeof haystack === 'string') {
+        return haystack.includes(String(needle));
+      }
+      return Array.isArray(haystack) ? haystack.includes(needle) : false;
+    },
+  },
+  coalesce: {
+    params: ['any'],
+    minArgs: 1,
+    rest: 'any',
+    returns: 'any',
+    call: (args) => args.find((arg) => !MISSING(arg) && arg !== '') ?? null,
+  },
+  isEmpty: {
+    params: ['any'],
+    minArgs: 1,
+    returns: 'boolean',
+    call: ([value]) =>
+      MISSING(value) ||
+      value === '' ||
+      (Array.isArray(value) && value.length === 0) ||
+      (typeof value === 'object' && value !== null && Object.keys(value).length === 0),
+  },
+  string: {
+    params: ['any'],
+    minArgs: 1,
+    returns: 'string',
+    call: ([value]) => (MISSING(value) ? '' : String(value)),
+  },
+  number: {
+    params: ['any'],
+    minArgs: 1,
+    returns: 'number',
+    call: ([value]) => requireNumber('number', typeof value === 'string' && value.trim() !== '' ? Number(value) : value),
+  },
+  formatDate: {
+    params: ['any', 'string'],
+    minArgs: 1,
+    returns: 'string',
+    call: ([value, pattern]) => {
+      if (pattern !== undefined) {
+        return formatDatePattern(requireDate('formatDate', value), String(pattern));
+      }
+      const isoDate = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+      if (isoDate) {
+        return `${isoDate[2]}/${isoDate[3]}/${isoDate[1]}`;
+      }
+      return requireDate('formatDate', value).toLocaleDateString('en-US');
+    },
+  },
+  formatTime: {
+    params: ['any'],
+    minArgs: 1,
+    returns: 'string',
+    call: ([value]) =>
+      requireDate('formatTime', value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }),
+  },
+  isoDate: {
+    params: ['any'],
+    minArgs: 1,
+    returns: 'string',
+    call: ([value]) => formatDatePattern(requireDate('isoDate', value), 'YYYY-MM-DD'),
+  },
+  age: {
+    params: ['any', 'any'],
+    minArgs: 1,
+    returns: 'number',
+    call: ([dob, asOf]) =>
+      computeAge(requireDate('age', dob), asOf === undefined ? new Date() : requireDate('age', asOf)),
+  },
+  daysBetween: {
+    params: ['any', 'any'],
+    minArgs: 2,
+    returns: 'number',
+    call: ([start, end]) => daysBetween(requireDate('daysBetween', start), requireDate('daysBetween', end)),
+  },
+  formatDuration: {
+    params: ['number'],
+    minArgs: 1,
+    returns: 'string',
+    call: ([minutes]) => formatDuration(requireNumber('formatDuration', minutes)),
+  },
+  instrumentScore: instrument('total'),
+  instrumentSeverity: instrument('severity'),
+  instrumentFlag: instrument('riskFlag'),
+  instrumentDelta: {
+    params: ['string', 'any', 'any', 'string'],
+    minArgs: 3,
+    returns: 'number',
+    call: ([id, current, prior, sex], notify) => {
+      const score = scoreInstrument(String(id), current, { prior, sex: toSex(sex) });
+      score.notices.forEach(notify);
+      return score.delta;
+    },
+  },
+});
+
+/**
+ * Look up a whitelisted function (own properties only).
+ */
+export function getFormulaFunction(name: string): FormulaFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(FORMULA_FUNCTIONS, name) ? FORMULA_FUNCTIONS[name] : undefined;
+}
+
+function numeric(name: string, fn: (value: number) => number): FormulaFunction {
+  return { params: ['number'], minArgs: 1, returns: 'number', call: ([value]) => fn(requireNumber(name, value)) };
+}
+
+function text(name: string, fn: (value: string) => string): FormulaFunction {
+  return {
+    params: ['string'],
+    minArgs: 1,
+    returns: 'string',
+    call: ([value]) => {
+      if (typeof value !== 'string') {
+        throw new Error(`${name}() expects a string`);
+      }
+      return fn(value);
+    },
+  };
+}
+
+function instrument(field: 'total' | 'severity' | 'riskFlag'): FormulaFunction {
+  return {
+    params: ['string', 'any', 'string'],
+    minArgs: 2,
+    returns: field === 'total' ? 'number' : field === 'severity' ? 'string' : 'boolean',
+    call: ([id, responses, sex], notify) => {
+      const score = scoreInstrument(String(id), responses, { sex: toSex(sex) });
+      score.notices.forEach(notify);
+      return score[field];
+    },
+  };
+}
+
+function toSex(value: unknown): InstrumentScoreOptions['sex'] {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (normalized === 'male' || normalized === 'm') {
+    return 'male';
+  }
+  if (normalized === 'female' || normalized === 'f') {
+    return 'female';
+  }
+  return undefined;
+}
+
+function requireNumber(name: string, value: unknown): number {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new Error(`${name}() expects a number`);
+  }
+  return value;
+}
+
+function requireArray(name: string, value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${name}() expects an array`);
+  }
+  return value;
+}
+
+function requireDate(name: string, value: unknown): Date {
+  const date = parseDate(value);
+  if (!date) {
+    throw new Error(`${name}() expects a date`);
+  }
+  return date;
+}
@@ -0,0 +1,221 @@
+/**
+ * Formula Language - Interpreter
+ *
+ * Domain: resolution/core/formula
+ * Responsibility: Evaluate a formula AST against source data.
+ *
+ * Paths read own properties only, so prototypes and host globals are never
+ * reachable. Missing paths evaluate to undefined (usable in tests and with
+ * ??), but arithmetic or concatenation with a missing value is an error so
+ * notes never render "undefined".
+ */
+
+import type { FormulaErrorCode, ResolutionNotice, SourceRecord } from '../../contracts/types';
+import { FormulaError } from '../../errors';
+import type { FormulaNode } from './ast';
+import { getFormulaFunction } from './functions';
+
+type BinaryNode = Extract<FormulaNode, { type: 'binary' }>;
+
+/**
+ * Evaluate a parsed formula.
+ *
+ * @param node - Root AST node from parseFormula
+ * @param scope - Source data that path references resolve against
+ * @param formula - Original source, attached to errors
+ * @param notify - Receives non-fatal findings raised by library functions
+ * @returns Evaluated value
+ * @throws {FormulaError} formula-type, formula-reference, or formula-runtime
+ */
+export function interpretFormula(
+  node: FormulaNode,
+  scope: SourceRecord,
+  formula: string,
+  notify: (notice: ResolutionNotice) => void = () => undefined
+): unknown {
+  const evaluate = (current: FormulaNode): unknown => {
+    switch (current.type) {
+      case 'literal':
+        return current.value;
+
+      case 'path':
+        return readPath(scope, current.root, current.segments);
+
+      case 'unary': {
+        const value = evaluate(current.argument);
+        if (current.operator === '!') {
+          return !value;
+        }
+        const number = toNumber(value, current.argument);
+        return current.operator === '-' ? -number : number;
+      }
+
+      case 'logical': {
+        const left = evaluate(current.left);
+        switch (current.operator) {
+          case '&&':
+            return left ? evaluate(current.right) : left;
+          case '||':
+            return left ? left : evaluate(current.right);
+          default:
+            return left ?? evaluate(current.right);
+        }
+      }
+
+      case 'conditional':
+        return evaluate(current.test) ? evaluate(current.consequent) : evaluate(current.alternate);
+
+      case 'binary':
+        return evaluateBinary(current, evaluate(current.left), evaluate(current.right));
+
+      case 'call': {
+        const fn = getFormulaFunction(current.callee);
+        if (!fn) {
+          throw fail('formula-reference', `Unknown function "${current.callee}"`, current);
+        }
+        const args = current.args.map(evaluate);
+        try {
+          return fn.call(args, notify);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'Unknown error';
+          throw fail('formula-runtime', reason, current);
+        }
+      }
+    }
+  };
+
+  const evaluateBinary = (
+    current: BinaryNode,
+    left: unknown,
+    right: unknown
+  ): unknown => {
+    switch (current.operator) {
+      case '+': {
+        requirePresent(left, current.left);
+        requirePresent(right, current.right);
+        if (typeof left === 'string' || typeof right === 'string') {
+          return toText(left, current.left) + toText(right, current.right);
+        }
+        return toNumber(left, current.left) + toNumber(right, current.right);
+      }
+      case '-':
+        return toNumber(left, current.left) - toNumber(right, current.right);
+      case '*':
+        return toNumber(left, current.left) * toNumber(right, current.right);
+      case '/':
+      case '%': {
+        const divisor = toNumber(right, current.right);
+        if (divisor === 0) {
+          throw fail('formula-runtime', 'Division by zero', current);
+        }
+        const dividend = toNumber(left, current.left);
+        return current.operator === '/' ? dividend / divisor : dividend % divisor;
+      }
+      case '==':
+      case '===':
+        return isEqual(left, right);
+      case '!=':
+      case '!==':
+        return !isEqual(left, right);
+      default:
+        return compare(current, left, right);
+    }
+  };
+
+  const requirePresent = (value: unknown, source: FormulaNode): void => {
+    if (value === undefined || value === null) {
+      throw fail('formula-runtime', `${describe(source)} is missing`, source);
+    }
+  };
+
+  const toNumber = (value: unknown, source: FormulaNode): number => {
+    requirePresent(value, source);
+    if (typeof value === 'number') {
+      return value;
+    }
+    if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+      return Number(value);
+    }
+    throw fail('formula-type', `Expected a number for ${describe(source)}, got ${typeName(value)}`, source);
+  };
+
+  const toText = (value: unknown, source: FormulaNode): string => {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+    throw fail('formula-type', `Cannot join ${typeName(value)} ${describe(source)} into text`, source);
+  };
+
+  const compare = (current: BinaryNode, left: unknown, right: unknown): boolean => {
+    if (typeof left === 'string' && typeof right === 'string') {
+      return applyComparison(current.operator, left < right ? -1 : left > right ? 1 : 0, 0);
+    }
+    return applyComparison(current.operator, toNumber(left, current.left), toNumber(right, current.right));
+  };
+
+  const fail = (code: FormulaErrorCode, message: string, source: FormulaNode): FormulaError =>
+    new FormulaError(message, { code, formula, position: source.position });
+
+  return evaluate(node);
+}
+
+function readPath(scope: SourceRecord, root: string, segments: Array<string | number>): unknown {
+  let current: unknown = hasOwn(scope, root) ? scope[root] : undefined;
+  for (const segment of segments) {
+    if (current === null || current === undefined) {
+      return undefined;
+    }
+    if (typeof current === 'string' && segment === 'length') {
+      return current.length;
+    }
+    if (typeof current !== 'object' || !hasOwn(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current;
+}
+
+function applyComparison(operator: string, left: number, right: number): boolean {
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    default:
+      return left >= right;
+  }
+}
+
+function hasOwn(target: object, key: string | number): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+function isEqual(left: unknown, right: unknown): boolean {
+  if ((left === null || left === undefined) && (right === null || right === undefined)) {
+    return true;
+  }
+  return left === right;
+}
+
+function describe(node: FormulaNode): string {
+  if (node.type === 'path') {
+    return node.source;
+  }
+  if (node.type === 'call') {
+    return `${node.callee}()`;
+  }
+  return 'value';
+}
+
+function typeName(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
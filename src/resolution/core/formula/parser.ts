@@ -0,0 +1,273 @@
+/**
+ * Formula Language - Parser
+ *
+ * Domain: resolution/core/formula
+ * Responsibility: Build an AST from formula tokens by recursive descent.
+ *
+ * Grammar (lowest precedence first):
+ *   conditional := nullish ('?' conditional ':' conditional)?
+ *   nullish     := or ('??' or)*
+ *   or          := and ('||' and)*
+ *   and         := equality ('&&' equality)*
+ *   equality    := relational (('==' | '!=' | '===' | '!==') relational)*
+ *   relational  := additive (('<' | '<=' | '>' | '>=') additive)*
+ *   additive    := multiplicative (('+' | '-') multiplicative)*
+ *   multiplicative := unary (('*' | '/' | '%') unary)*
+ *   unary       := ('!' | '-' | '+') unary | primary
+ *   primary     := number | string | true | false | null | undefined
+ *                | name '(' args ')' | path | '(' conditional ')'
+ *   path        := name ('.' name | '[' (number | string) ']')*
+ */
+
+import { FormulaError } from '../../errors';
+import type {
+  FormulaBinaryOperator,
+  FormulaLogicalOperator,
+  FormulaNode,
+  FormulaToken,
+  FormulaUnaryOperator,
+} from './ast';
+import { tokenizeFormula } from './tokenizer';
+
+const LITERAL_KEYWORDS: Record<string, boolean | null | undefined> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+/** JavaScript keywords that would suggest code rather than an expression */
+const RESERVED_WORDS = new Set([
+  'new', 'function', 'this', 'typeof', 'instanceof', 'in', 'delete', 'void', 'class',
+  'return', 'var', 'let', 'const', 'await', 'yield', 'import', 'export', 'with',
+]);
+
+/** Property names that reach object internals; never valid path segments */
+const BLOCKED_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+const EQUALITY = ['==', '!=', '===', '!=='];
+const RELATIONAL = ['<', '<=', '>', '>='];
+const ADDITIVE = ['+', '-'];
+const MULTIPLICATIVE = ['*', '/', '%'];
+
+/**
+ * Parse a formula into an AST.
+ *
+ * @param formula - Formula source
+ * @returns Root AST node
+ * @throws {FormulaError} formula-syntax with the offending position
+ */
+export function parseFormula(formula: string): FormulaNode {
+  const parser = new FormulaParser(formula, tokenizeFormula(formula));
+  return parser.parse();
+}
+
+class FormulaParser {
+  private index = 0;
+
+  constructor(
+    private readonly formula: string,
+    private readonly tokens: FormulaToken[]
+  ) {}
+
+  parse(): FormulaNode {
+    if (this.peek().kind === 'eof') {
+      throw this.error('Formula is empty', this.peek());
+    }
+    const node = this.parseConditional();
+    const trailing = this.peek();
+    if (trailing.kind !== 'eof') {
+      throw this.error(`Unexpected "${trailing.value}"`, trailing);
+    }
+    return node;
+  }
+
+  private parseConditional(): FormulaNode {
+    const test = this.parseNullish();
+    const question = this.peek();
+    if (!this.matchPunctuator('?')) {
+      return test;
+    }
+    const consequent = this.parseConditional();
+    this.expectPunctuator(':');
+    const alternate = this.parseConditional();
+    return { type: 'conditional', test, consequent, alternate, position: question.position };
+  }
+
+  private parseNullish(): FormulaNode {
+    return this.parseLogical(['??'], () => this.parseOr());
+  }
+
+  private parseOr(): FormulaNode {
+    return this.parseLogical(['||'], () => this.parseAnd());
+  }
+
+  private parseAnd(): FormulaNode {
+    return this.parseLogical(['&&'], () => this.parseBinary(EQUALITY, () => this.parseRelational()));
+  }
+
+  private parseRelational(): FormulaNode {
+    return this.parseBinary(RELATIONAL, () =>
+      this.parseBinary(ADDITIVE, () => this.parseBinary(MULTIPLICATIVE, () => this.parseUnary()))
+    );
+  }
+
+  private parseLogical(operators: string[], next: () => FormulaNode): FormulaNode {
+    let left = next();
+    while (this.peek().kind === 'punctuator' && operators.includes(this.peek().value)) {
+      const token = this.advance();
+      const right = next();
+      left = { type: 'logical', operator: token.value as FormulaLogicalOperator, left, right, position: token.position };
+    }
+    return left;
+  }
+
+  private parseBinary(operators: string[], next: () => FormulaNode): FormulaNode {
+    let left = next();
+    while (this.peek().kind === 'punctuator' && operators.includes(this.peek().value)) {
+      const token = this.advance();
+      const right = next();
+      left = { type: 'binary', operator: token.value as FormulaBinaryOperator, left, right, position: token.position };
+    }
+    return left;
+  }
+
+  private parseUnary(): FormulaNode {
+    const token = this.peek();
+    if (token.kind === 'punctuator' && (token.value === '!' || token.value === '-' || token.value === '+')) {
+      this.advance();
+      return {
+        type: 'unary',
+        operator: token.value as FormulaUnaryOperator,
+        argument: this.parseUnary(),
+        position: token.position,
+      };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.advance();
+
+    switch (token.kind) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value), position: token.position };
+      case 'string':
+        return { type: 'literal', value: token.value, position: token.position };
+      case 'identifier':
+        return this.parseIdentifier(token);
+      case 'punctuator':
+        if (token.value === '(') {
+          const inner = this.parseConditional();
+          this.expectPunctuator(')');
+          return inner;
+        }
+        throw this.error(`Unexpected "${token.value}"`, token);
+      default:
+        throw this.error('Unexpected end of formula', token);
+    }
+  }
+
+  private parseIdentifier(token: FormulaToken): FormulaNode {
+    const name = token.value;
+    if (Object.prototype.hasOwnProperty.call(LITERAL_KEYWORDS, name)) {
+      return { type: 'literal', value: LITERAL_KEYWORDS[name], position: token.position };
+    }
+    if (RESERVED_WORDS.has(name)) {
+      throw this.error(`"${name}" is not supported in formulas`, token);
+    }
+    if (BLOCKED_SEGMENTS.has(name)) {
+      throw this.error(`"${name}" cannot be referenced`, token);
+    }
+
+    if (this.matchPunctuator('(')) {
+      return { type: 'call', callee: name, args: this.parseArguments(), position: token.position };
+    }
+
+    const segments: Array<string | number> = [];
+    let source = name;
+
+    while (this.peek().kind === 'punctuator' && (this.peek().value === '.' || this.peek().value === '[')) {
+      if (this.matchPunctuator('.')) {
+        const property = this.advance();
+        if (property.kind !== 'identifier') {
+          throw this.error('Expected a property name after "."', property);
+        }
+        if (BLOCKED_SEGMENTS.has(property.value)) {
+          throw this.error(`"${property.value}" cannot be referenced`, property);
+        }
+        segments.push(property.value);
+        source += `.${property.value}`;
+        continue;
+      }
+
+      this.advance();
+      const key = this.advance();
+      if (key.kind === 'number' && Number.isInteger(Number(key.value))) {
+        segments.push(Number(key.value));
+        source += `[${key.value}]`;
+      } else if (key.kind === 'string' && !BLOCKED_SEGMENTS.has(key.value)) {
+        segments.push(key.value);
+        source += `['${key.value}']`;
+      } else {
+        throw this.error('Expected an array index or quoted key inside []', key);
+      }
+      this.expectPunctuator(']');
+    }
+
+    if (this.peek().kind === 'punctuator' && this.peek().value === '(') {
+      throw this.error(`Only library functions can be called; "${source}" is not a function`, token);
+    }
+
+    return { type: 'path', root: name, segments, source, position: token.position };
+  }
+
+  private parseArguments(): FormulaNode[] {
+    const args: FormulaNode[] = [];
+    if (this.matchPunctuator(')')) {
+      return args;
+    }
+    do {
+      args.push(this.parseConditional());
+    } while (this.matchPunctuator(','));
+    this.expectPunctuator(')');
+    return args;
+  }
+
+  private peek(): FormulaToken {
+    return this.tokens[this.index];
+  }
+
+  private advance(): FormulaToken {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private matchPunctuator(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'punctuator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuator(value: string): void {
+    const token = this.peek();
+    if (!this.matchPunctuator(value)) {
+      const found = token.kind === 'eof' ? 'end of formula' : `"${token.value}"`;
+      throw this.error(`Expected "${value}" but found ${found}`, token);
+    }
+  }
+
+  private error(message: string, token: FormulaToken): FormulaError {
+    return new FormulaError(`${message} at position ${token.position + 1}`, {
+      code: 'formula-syntax',
+      formula: this.formula,
+      position: token.position,
+    });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Formula Language - Tokenizer
+ *
+ * Domain: resolution/core/formula
+ * Responsibility: Split formula source into number, string, identifier, and
+ * punctuator tokens with their character offsets.
+ */
+
+import { FormulaError } from '../../errors';
+import type { FormulaToken } from './ast';
+
+/** Longest punctuators first so "===" wins over "==" */
+const PUNCTUATORS = [
+  '===', '!==',
+  '==', '!=', '<=', '>=', '&&', '||', '??',
+  '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ',', '.', '[', ']',
+];
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', '\\': '\\', "'": "'", '"': '"' };
+
+/**
+ * Tokenize a formula.
+ *
+ * @param formula - Formula source
+ * @returns Tokens ending with an eof token
+ * @throws {FormulaError} formula-syntax on unterminated strings or unexpected characters
+ */
+export function tokenizeFormula(formula: string): FormulaToken[] {
+  const tokens: FormulaToken[] = [];
+  let index = 0;
+
+  while (index < formula.length) {
+    const char = formula[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(formula[index + 1] ?? ''))) {
+      const match = /^(\d+(\.\d+)?|\.\d+)/.exec(formula.slice(index));
+      const value = match ? match[0] : char;
+      tokens.push({ kind: 'number', value, position: index });
+      index += value.length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const start = index;
+      let value = '';
+      index++;
+      while (index < formula.length && formula[index] !== char) {
+        if (formula[index] === '\\') {
+          const escaped = formula[index + 1];
+          value += ESCAPES[escaped] ?? escaped ?? '';
+          index += 2;
+        } else {
+          value += formula[index++];
+        }
+      }
+      if (index >= formula.length) {
+        throw syntaxError(formula, 'Unterminated string literal', start);
+      }
+      index++;
+      tokens.push({ kind: 'string', value, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(formula.slice(index));
+      const value = match ? match[0] : char;
+      tokens.push({ kind: 'identifier', value, position: index });
+      index += value.length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((candidate) => formula.startsWith(candidate, index));
+    if (punctuator) {
+      tokens.push({ kind: 'punctuator', value: punctuator, position: index });
+      index += punctuator.length;
+      continue;
+    }
+
+    throw syntaxError(formula, `Unexpected character "${char}"`, index);
+  }
+
+  tokens.push({ kind: 'eof', value: '', position: formula.length });
+  return tokens;
+}
+
+function syntaxError(formula: string, message: string, position: number): FormulaError {
+  return new FormulaError(`${message} at position ${position + 1}`, { code: 'formula-syntax', formula, position });
+}
@@ -1,11 +1,20 @@
 import type { ContentItem } from '../../derivation/types';
-import type { ISlotResolver, ResolutionContext, ResolvedField } from '../contracts/types';
-import { getByPath } from '../../factory/utils/path-resolver';
+import type { ISlotResolver, ResolutionContext, ResolutionNotice, ResolvedField } from '../contracts/types';
+import { compilePath, flattenProjection, PathError } from '../../paths';
+import { LookupError } from '../errors';
+import { evaluateLookup } from './lookup/evaluator';
+import type { LookupValue } from './lookup/evaluator';
 
 /**
  * Resolves lookup slots by extracting values from source data
  *
- * Responsibility: ONE - Extract value from lookup path, place at targetPath
+ * Responsibility: ONE - Run the lookup (with fallbacks and pipes), place the value at targetPath
+ *
+ * Supports:
+ * - Fallback chains: `lookup: ["visit.clinician", "caseManager.name"]` uses the first non-empty value
+ * - Defaults: `default` is used when every lookup comes back empty
+ * - Pipes: `diagnoses[].code | unique | join(", ")` (see lookup/transforms)
+ * - Multi-level wildcards: `goals[].objectives[].text`
  */
 export class LookupResolver implements ISlotResolver {
   canResolve(slotType: string): boolean {
@@ -13,63 +22,98 @@ export class LookupResolver implements ISlotResolver {
   }
 
   resolve(item: ContentItem, context: ResolutionContext): ResolvedField | null {
-    if (!item.lookup || !item.targetPath) {
+    const lookups = typeof item.lookup === 'string' ? [item.lookup] : item.lookup ?? [];
+    if (lookups.length === 0 || !item.targetPath) {
       return null;
     }
 
-    // Handle array wildcard paths (e.g., diagnoses[].code)
-    if (item.lookup.includes('[]') && item.targetPath.includes('[]')) {
-      return this.resolveArrayProjection(item.lookup, item.targetPath, context);
-    }
+    const notify = (notice: ResolutionNotice) => context.notify?.(notice);
 
-    // Extract from source data using lookup path
-    const value = getByPath(context.sourceData, item.lookup);
+    for (const [index, lookup] of lookups.entries()) {
+      let result: LookupValue;
+      try {
+        result = evaluateLookup(lookup, context.sourceData);
+      } catch (error: unknown) {
+        if (!(error instanceof LookupError)) {
+          throw error;
+        }
+        notify({
+          reason: error.context.code === 'lookup-type' ? 'type_mismatch' : 'invalid_ref',
+          severity: error.context.code === 'lookup-type' ? 'warning' : 'error',
+          message: `Lookup "${lookup}" failed: ${error.message}`,
+          details: error.context,
+        });
+        continue;
+      }
 
-    if (value === undefined) {
-      // Missing source - return null, caller will log warning
-      return null;
+      if (isEmpty(result.value)) {
+        continue;
+      }
+
+      if (index > 0) {
+        notify({
+          reason: 'missing_source',
+          severity: 'info',
+          message: `Lookup "${lookups[0]}" had no value; used fallback "${lookup}"`,
+        });
+      }
+
+      return this.place(item.targetPath, result, notify);
     }
 
-    return {
-      path: item.targetPath,
-      value,
-      slotType: 'lookup'
-    };
+    if (item.default !== undefined) {
+      notify({
+        reason: 'missing_source',
+        severity: 'info',
+        message: `No value found for ${lookups.map(lookup => `"${lookup}"`).join(', ')}; used default`,
+      });
+      return this.place(item.targetPath, { value: item.default, depth: Array.isArray(item.default) ? 1 : 0 }, notify);
+    }
+
+    // Missing source - return null, caller will log warning
+    return null;
   }
 
-  private resolveArrayProjection(
-    lookupPath: string,
+  private place(
     targetPath: string,
-    context: ResolutionContext
+    result: LookupValue,
+    notify: (notice: ResolutionNotice) => void
   ): ResolvedField | null {
-    const sourceWildcardIndex = lookupPath.indexOf('[]');
-    const targetWildcardIndex = targetPath.indexOf('[]');
-    if (sourceWildcardIndex < 0 || targetWildcardIndex < 0) {
+    let targetDepth: number;
+    try {
+      targetDepth = compilePath(targetPath).depth;
+    } catch (error: unknown) {
+      if (!(error instanceof PathError)) {
+        throw error;
+      }
+      notify({ reason: 'invalid_ref', severity: 'error', message: error.message, details: error.context });
       return null;
     }
 
-    const sourceRoot = lookupPath.slice(0, sourceWildcardIndex);
-    const sourceTail = lookupPath.slice(sourceWildcardIndex + 2).replace(/^\./, '');
-    const targetRoot = targetPath.slice(0, targetWildcardIndex);
-    const targetTail = targetPath.slice(targetWildcardIndex + 2).replace(/^\./, '');
+    if (targetDepth === 0) {
+      return { path: targetPath, value: flattenProjection(result.value, result.depth), slotType: 'lookup' };
+    }
 
-    const sourceArray = getByPath(context.sourceData, sourceRoot);
-    if (!Array.isArray(sourceArray)) {
+    if (!Array.isArray(result.value) || (targetDepth > 1 && targetDepth !== result.depth)) {
+      notify({
+        reason: 'type_mismatch',
+        severity: 'error',
+        message: Array.isArray(result.value)
+          ? `targetPath ${targetPath} has ${targetDepth} wildcards but the lookup yields ${result.depth} level(s) of lists`
+          : `targetPath ${targetPath} expects a list from the lookup`,
+      });
       return null;
     }
 
-    const projected = sourceArray.map(entry => {
-      const raw = sourceTail ? getByPath(entry, sourceTail) : entry;
-      if (targetTail.length === 0) {
-        return raw;
-      }
-      return { [targetTail]: raw };
-    });
-
+    // setByPath distributes each list level across the target's [] steps
     return {
-      path: targetRoot,
-      value: projected,
+      path: targetPath,
+      value: targetDepth === 1 ? flattenProjection(result.value, result.depth) : result.value,
       slotType: 'lookup'
     };
   }
 }
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
@@ -0,0 +1,71 @@
+/**
+ * Lookup Pipelines - Static Checker
+ *
+ * Domain: resolution/core/lookup
+ * Responsibility: Report lookup syntax, unknown pipes, bad pipe arguments, and
+ * wildcard depths the target path cannot hold, without source data.
+ */
+
+import { compilePath, isValidPath } from '../../../paths';
+import type { LookupCheckOptions, LookupIssue } from '../../contracts/types';
+import { LookupError } from '../../errors';
+import { parseLookup } from './parser';
+import { LOOKUP_TRANSFORMS, compilePipe } from './transforms';
+
+/**
+ * Statically check one lookup.
+ *
+ * @param lookup - Lookup text
+ * @param options - Optional target path for wildcard checks
+ * @returns Issues found (empty when the lookup is valid)
+ */
+export function checkLookup(lookup: string, options: LookupCheckOptions = {}): LookupIssue[] {
+  let expression;
+  try {
+    expression = parseLookup(lookup);
+  } catch (error) {
+    if (!(error instanceof LookupError)) {
+      throw error;
+    }
+    return [{ code: 'lookup.syntax', message: error.message, position: error.context.position }];
+  }
+
+  const issues: LookupIssue[] = [];
+
+  for (const pipe of expression.pipes) {
+    try {
+      compilePipe(pipe, lookup);
+    } catch (error) {
+      if (!(error instanceof LookupError)) {
+        throw error;
+      }
+      issues.push({ code: classifyPipeIssue(pipe.name, pipe.args.length), message: error.message, position: pipe.position });
+    }
+  }
+
+  if (options.targetPath && isValidPath(options.targetPath)) {
+    const targetDepth = compilePath(options.targetPath).depth;
+    const pathDepth = compilePath(expression.path).depth;
+    const sourceDepth = expression.pipes.length > 0 ? Math.min(1, pathDepth) : pathDepth;
+    if (targetDepth > 1 && targetDepth !== sourceDepth) {
+      issues.push({
+        code: 'lookup.wildcard',
+        message: expression.pipes.length > 0
+          ? `Piped lookups produce a flat list, but targetPath '${options.targetPath}' has ${targetDepth} wildcards`
+          : `Lookup has ${sourceDepth} wildcard(s) but targetPath '${options.targetPath}' has ${targetDepth}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function classifyPipeIssue(name: string, argCount: number): LookupIssue['code'] {
+  if (!Object.prototype.hasOwnProperty.call(LOOKUP_TRANSFORMS, name)) {
+    return 'lookup.transform.unknown';
+  }
+  const transform = LOOKUP_TRANSFORMS[name];
+  return argCount < transform.minArgs || argCount > transform.maxArgs
+    ? 'lookup.transform.arity'
+    : 'lookup.transform.argument';
+}
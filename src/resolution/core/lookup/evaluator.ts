@@ -0,0 +1,85 @@
+/**
+ * Lookup Pipelines - Evaluator
+ *
+ * Domain: resolution/core/lookup
+ * Responsibility: Read a lookup's source path and run its pipes.
+ *
+ * SOR: Multi-level wildcards stay nested until a pipe runs; pipes always see
+ * one flat list so `goals[].objectives[].text | join` joins every objective.
+ * Path reads use the shared path engine (predicates included).
+ */
+
+import { compilePath, flattenProjection, getByPath } from '../../../paths';
+import type { LookupExpression } from '../../contracts/types';
+import { LookupError } from '../../errors';
+import { parseLookup } from './parser';
+import { compilePipe } from './transforms';
+
+interface CompiledLookup {
+  expression: LookupExpression;
+  depth: number;
+  pipes: Array<{ name: string; apply: (value: unknown) => unknown }>;
+}
+
+/**
+ * Value produced by a lookup and how many wildcard levels it still carries.
+ */
+export interface LookupValue {
+  value: unknown;
+  depth: number;
+}
+
+/**
+ * Cache compiled lookups; templates reuse the same lookups for every note.
+ */
+const lookupCache = new Map<string, CompiledLookup>();
+
+/**
+ * Parse and compile a lookup, throwing LookupError for syntax or pipe argument errors.
+ */
+export function compileLookup(source: string): CompiledLookup {
+  const cached = lookupCache.get(source);
+  if (cached) {
+    return cached;
+  }
+
+  const expression = parseLookup(source);
+  const compiled: CompiledLookup = {
+    expression,
+    depth: compilePath(expression.path).depth,
+    pipes: expression.pipes.map(pipe => ({ name: pipe.name, apply: compilePipe(pipe, source) })),
+  };
+  lookupCache.set(source, compiled);
+  return compiled;
+}
+
+/**
+ * Evaluate a lookup against source data.
+ *
+ * @param source - Lookup text, e.g. `meds[] | filter(active == true) | map(name) | join`
+ * @param data - Source data to read from
+ * @returns The value (undefined when the path is missing) and its remaining wildcard depth
+ */
+export function evaluateLookup(source: string, data: unknown): LookupValue {
+  const compiled = compileLookup(source);
+  const raw = getByPath(data, compiled.expression.path);
+
+  if (compiled.pipes.length === 0 || raw === undefined) {
+    return { value: raw, depth: compiled.depth };
+  }
+
+  let value = flattenProjection(raw, compiled.depth);
+  for (const pipe of compiled.pipes) {
+    try {
+      value = pipe.apply(value);
+    } catch (error) {
+      throw new LookupError(`${pipe.name}: ${error instanceof Error ? error.message : String(error)}`, {
+        code: 'lookup-type',
+        lookup: source,
+        transform: pipe.name,
+      });
+    }
+  }
+
+  return { value, depth: Array.isArray(value) ? 1 : 0 };
+}
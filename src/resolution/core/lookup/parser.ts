@@ -0,0 +1,113 @@
+/**
+ * Lookup Pipelines - Parser
+ *
+ * Domain: resolution/core/lookup
+ * Responsibility: Split a lookup into its source path and pipe stages.
+ *
+ * Grammar:
+ *   lookup := path ('|' pipe)*
+ *   pipe   := name ('(' args ')')?
+ *   args   := arg (',' arg)*   (commas and pipes inside quotes are literal)
+ *   path   := any path the shared path engine accepts, including
+ *             wildcards and predicates (`diagnoses[?primary].code`)
+ */
+
+import { isValidPath } from '../../../paths';
+import type { LookupExpression, LookupPipe } from '../../contracts/types';
+import { LookupError } from '../../errors';
+
+const PIPE = /^([A-Za-z_]\w*)\s*(?:\(([\s\S]*)\))?$/;
+
+/**
+ * Parse a lookup such as `diagnoses[].code | unique | join(", ")`.
+ *
+ * @param source - Lookup text from the template
+ * @returns Source path and pipes with their raw arguments
+ */
+export function parseLookup(source: string): LookupExpression {
+  const parts = splitTopLevel(source, '|');
+  const [head, ...stages] = parts;
+  const path = head.text.trim();
+
+  if (!isLookupPath(path)) {
+    throw new LookupError(
+      path ? `Invalid lookup path "${path}"` : 'Lookup is missing a source path',
+      { code: 'lookup-syntax', lookup: source, position: head.position }
+    );
+  }
+
+  const pipes: LookupPipe[] = stages.map(stage => {
+    const text = stage.text.trim();
+    const match = PIPE.exec(text);
+    if (!match) {
+      throw new LookupError(`Invalid pipe "${text}" at position ${stage.position}`, {
+        code: 'lookup-syntax',
+        lookup: source,
+        position: stage.position,
+      });
+    }
+
+    const argText = match[2];
+    const args = argText === undefined || argText.trim() === ''
+      ? []
+      : splitTopLevel(argText, ',').map(arg => arg.text.trim());
+
+    return { name: match[1], args, position: stage.position };
+  });
+
+  return { source, path, pipes };
+}
+
+/**
+ * True when the text is a plain lookup path (no pipes).
+ */
+export function isLookupPath(path: string): boolean {
+  return path.length > 0 && isValidPath(path);
+}
+
+/**
+ * Parse a literal pipe argument: quoted string, number, true, false, or null.
+ *
+ * @returns The literal, or undefined when the text is not a literal
+ */
+export function parseLiteral(text: string): unknown {
+  const quoted = /^(['"])([\s\S]*)\1$/.exec(text);
+  if (quoted) {
+    return quoted[2];
+  }
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (text === 'null') return null;
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+  return undefined;
+}
+
+function splitTopLevel(text: string, separator: string): Array<{ text: string; position: number }> {
+  const parts: Array<{ text: string; position: number }> = [];
+  let quote: string | null = null;
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push({ text: text.slice(start, i), position: start });
+      start = i + 1;
+    }
+  }
+
+  parts.push({ text: text.slice(start), position: start });
+  return parts;
+}
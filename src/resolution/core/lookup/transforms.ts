@@ -0,0 +1,249 @@
+/**
+ * Lookup Pipelines - Transforms
+ *
+ * Domain: resolution/core/lookup
+ * Responsibility: The pipes a lookup may apply to its source value.
+ *
+ * SOR: Each transform validates its own arguments when compiled, so the
+ * template linter and the resolver reject the same lookups.
+ */
+
+import { compilePath, flattenProjection, getByPath } from '../../../paths';
+import type { LookupPipe } from '../../contracts/types';
+import { LookupError } from '../../errors';
+import { isLookupPath, parseLiteral } from './parser';
+
+type TransformFn = (value: unknown) => unknown;
+
+interface LookupTransform {
+  minArgs: number;
+  maxArgs: number;
+  usage: string;
+  /** Validate raw arguments and return the transform; throws Error on bad arguments */
+  compile(args: string[]): TransformFn;
+}
+
+const ELLIPSIS = '\u2026';
+
+/**
+ * Lookup transforms keyed by pipe name.
+ */
+export const LOOKUP_TRANSFORMS: Readonly<Record<string, LookupTransform>> = Object.freeze({
+  join: {
+    minArgs: 0,
+    maxArgs: 1,
+    usage: 'join(", ")',
+    compile: ([separator]) => {
+      const text = separator === undefined ? ', ' : requireString(separator, 'separator');
+      return value =>
+        toList(value)
+          .filter(entry => entry !== null && entry !== undefined && entry !== '')
+          .map(entry => requireScalar(entry, 'join'))
+          .join(text);
+    },
+  },
+  first: {
+    minArgs: 0,
+    maxArgs: 0,
+    usage: 'first',
+    compile: () => value => (Array.isArray(value) ? value[0] : value),
+  },
+  last: {
+    minArgs: 0,
+    maxArgs: 0,
+    usage: 'last',
+    compile: () => value => (Array.isArray(value) ? value[value.length - 1] : value),
+  },
+  sort: {
+    minArgs: 0,
+    maxArgs: 2,
+    usage: "sort(field, 'desc')",
+    compile: ([by, order]) => {
+      const key = by === undefined ? undefined : requirePath(by, 'sort field');
+      const direction = order === undefined ? 'asc' : String(parseLiteral(order) ?? order);
+      if (direction !== 'asc' && direction !== 'desc') {
+        throw new Error(`sort order must be 'asc' or 'desc', got '${direction}'`);
+      }
+      const sign = direction === 'desc' ? -1 : 1;
+      return value => {
+        const list = requireArray(value, 'sort');
+        const keyed = list.map(entry => ({ entry, key: key ? getByPath(entry, key) : entry }));
+        keyed.sort((a, b) => compareValues(a.key, b.key) * sign);
+        return keyed.map(item => item.entry);
+      };
+    },
+  },
+  filter: {
+    minArgs: 1,
+    maxArgs: 1,
+    usage: "filter(status == 'active')",
+    compile: ([condition]) => {
+      const match = /^([\w$.[\]-]+)\s*(==|!=)\s*([\s\S]+)$/.exec(condition);
+      if (!match || !isLookupPath(match[1])) {
+        throw new Error(`filter expects "field == value" or "field != value", got '${condition}'`);
+      }
+      const expected = parseLiteral(match[3].trim());
+      if (expected === undefined) {
+        throw new Error(`filter value must be a quoted string, number, true, false, or null, got '${match[3].trim()}'`);
+      }
+      const negate = match[2] === '!=';
+      return value =>
+        requireArray(value, 'filter').filter(entry => looselyEqual(getByPath(entry, match[1]), expected) !== negate);
+    },
+  },
+  count: {
+    minArgs: 0,
+    maxArgs: 0,
+    usage: 'count',
+    compile: () => value => toList(value).length,
+  },
+  unique: {
+    minArgs: 0,
+    maxArgs: 0,
+    usage: 'unique',
+    compile: () => value => {
+      const seen = new Set<string>();
+      return requireArray(value, 'unique').filter(entry => {
+        const key = JSON.stringify(entry) ?? 'undefined';
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    },
+  },
+  truncate: {
+    minArgs: 1,
+    maxArgs: 1,
+    usage: 'truncate(3)',
+    compile: ([limit]) => {
+      const size = parseLiteral(limit);
+      if (typeof size !== 'number' || !Number.isInteger(size) || size < 1) {
+        throw new Error(`truncate expects a positive whole number, got '${limit}'`);
+      }
+      return value => {
+        if (Array.isArray(value)) {
+          return value.slice(0, size);
+        }
+        if (typeof value === 'string') {
+          return value.length > size ? `${value.slice(0, size).trimEnd()}${ELLIPSIS}` : value;
+        }
+        throw new Error(`truncate expects text or a list, got ${describe(value)}`);
+      };
+    },
+  },
+  map: {
+    minArgs: 1,
+    maxArgs: 1,
+    usage: 'map(code)',
+    compile: ([path]) => {
+      const field = requirePath(path, 'map path');
+      const { depth } = compilePath(field);
+      return value =>
+        requireArray(value, 'map').flatMap(entry => {
+          const mapped = flattenProjection(getByPath(entry, field), depth);
+          return depth > 0 && Array.isArray(mapped) ? mapped : [mapped];
+        });
+    },
+  },
+});
+
+/**
+ * Compile a parsed pipe, validating its name and arguments.
+ *
+ * @param pipe - Pipe stage from parseLookup
+ * @param lookup - Lookup source, for error context
+ * @returns Function applying the pipe to a value
+ */
+export function compilePipe(pipe: LookupPipe, lookup: string): TransformFn {
+  const transform = Object.prototype.hasOwnProperty.call(LOOKUP_TRANSFORMS, pipe.name)
+    ? LOOKUP_TRANSFORMS[pipe.name]
+    : undefined;
+
+  const context = { lookup, transform: pipe.name, position: pipe.position };
+
+  if (!transform) {
+    throw new LookupError(`Unknown lookup transform '${pipe.name}'`, { code: 'lookup-transform', ...context });
+  }
+
+  if (pipe.args.length < transform.minArgs || pipe.args.length > transform.maxArgs) {
+    throw new LookupError(
+      `${pipe.name} takes ${describeArity(transform)}, got ${pipe.args.length} (usage: ${transform.usage})`,
+      { code: 'lookup-transform', ...context }
+    );
+  }
+
+  try {
+    return transform.compile(pipe.args);
+  } catch (error) {
+    throw new LookupError(error instanceof Error ? error.message : String(error), {
+      code: 'lookup-transform',
+      ...context,
+    });
+  }
+}
+
+function describeArity(transform: LookupTransform): string {
+  if (transform.maxArgs === 0) return 'no arguments';
+  if (transform.minArgs === transform.maxArgs) return `${transform.minArgs} argument(s)`;
+  return `${transform.minArgs}-${transform.maxArgs} arguments`;
+}
+
+function requireString(text: string, label: string): string {
+  const literal = parseLiteral(text);
+  if (typeof literal !== 'string') {
+    throw new Error(`${label} must be a quoted string, got '${text}'`);
+  }
+  return literal;
+}
+
+function requirePath(text: string, label: string): string {
+  const literal = parseLiteral(text);
+  const path = typeof literal === 'string' ? literal : text;
+  if (!isLookupPath(path)) {
+    throw new Error(`${label} must be a field path, got '${text}'`);
+  }
+  return path;
+}
+
+function requireArray(value: unknown, name: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${name} expects a list, got ${describe(value)}`);
+  }
+  return value;
+}
+
+function requireScalar(value: unknown, name: string): string {
+  if (typeof value === 'object') {
+    throw new Error(`${name} expects text or numbers, got ${describe(value)}`);
+  }
+  return String(value);
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return value === null || value === undefined ? [] : [value];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const aMissing = a === null || a === undefined;
+  const bMissing = b === null || b === undefined;
+  if (aMissing || bMissing) {
+    return Number(aMissing) - Number(bMissing);
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+function looselyEqual(actual: unknown, expected: unknown): boolean {
+  if (actual === expected) return true;
+  if (actual === null || actual === undefined || expected === null) return false;
+  return typeof actual !== 'object' && String(actual) === String(expected);
+}
+
+function describe(value: unknown): string {
+  if (value === null || value === undefined) return 'nothing';
+  if (Array.isArray(value)) return 'a list';
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
@@ -23,7 +23,7 @@ import type {
   UnresolvedSlot,
 } from '../contracts/types';
 import type { ExpectedSlot, WarningParams } from './internal/types';
-import { setByPath } from './path-setter';
+import { setByPath } from '../../paths';
 
 function createWarning(params: WarningParams): ResolutionWarning {
   return {
@@ -72,38 +72,42 @@ export class NASBuilder implements INASBuilder {
     return { nasData, resolved, warnings, unresolvedSlots };
   }
 
+  /**
+   * Slots under a showIf condition (on an ancestor component or the item) may
+   * legitimately have no data, so they never count as required.
+   */
   private walkLayout(
     components: Component[],
     context: ResolutionContext,
     resolved: ResolvedField[],
     warnings: ResolutionWarning[],
-    expectedSlots: ExpectedSlot[]
+    expectedSlots: ExpectedSlot[],
+    conditional = false
   ): void {
     for (const component of components) {
+      const componentConditional = conditional || Boolean(component.showIf);
+
       if (component.content) {
         for (const item of component.content) {
-          this.resolveItem(item, component.id, context, resolved, warnings, expectedSlots);
+          const itemConditional = componentConditional || Boolean(item.showIf);
+          this.resolveItem(item, component.id, context, resolved, warnings, expectedSlots, itemConditional);
 
           if (item.listItems) {
             for (const listItem of item.listItems) {
-              this.resolveItem(listItem, component.id, context, resolved, warnings, expectedSlots);
+              this.resolveItem(listItem, component.id, context, resolved, warnings, expectedSlots, itemConditional);
             }
           }
 
           if (item.tableMap) {
-            const tableItems = Array.isArray(item.tableMap)
-              ? item.tableMap
-              : Object.values(item.tableMap);
-
-            for (const colItem of tableItems) {
-              this.resolveItem(colItem, component.id, context, resolved, warnings, expectedSlots);
+            for (const colItem of item.tableMap) {
+              this.resolveItem(colItem, component.id, context, resolved, warnings, expectedSlots, itemConditional);
             }
           }
         }
       }
 
       if (component.children) {
-        this.walkLayout(component.children, context, resolved, warnings, expectedSlots);
+        this.walkLayout(component.children, context, resolved, warnings, expectedSlots, componentConditional);
       }
     }
   }
@@ -114,15 +118,18 @@ export class NASBuilder implements INASBuilder {
     context: ResolutionContext,
     resolved: ResolvedField[],
     warnings: ResolutionWarning[],
-    expectedSlots: ExpectedSlot[]
+    expectedSlots: ExpectedSlot[],
+    conditional: boolean
   ): void {
+    const required = !conditional && Boolean(item.constraints?.required);
+
     if (item.slot !== 'ai') {
       expectedSlots.push({
         componentId,
         slotId: item.id,
         slotType: item.slot,
         targetPath: item.targetPath,
-        required: Boolean(item.constraints?.required),
+        required,
       });
     }
 
@@ -146,7 +153,22 @@ export class NASBuilder implements INASBuilder {
       return;
     }
 
-    const result = resolver.resolve(item, context);
+    const result = resolver.resolve(item, {
+      ...context,
+      notify: notice =>
+        warnings.push(
+          createWarning({
+            componentId,
+            slotId: item.id,
+            slotType: item.slot,
+            path: item.targetPath || 'unknown',
+            reason: notice.reason,
+            severity: notice.severity,
+            message: notice.message,
+            details: notice.details,
+          })
+        ),
+    });
 
     if (result) {
       try {
@@ -166,7 +188,7 @@ export class NASBuilder implements INASBuilder {
         );
       }
     } else {
-      const severity: ResolutionWarningSeverity = item.constraints?.required ? 'error' : 'warning';
+      const severity: ResolutionWarningSeverity = required ? 'error' : 'warning';
       let reason: ResolutionWarning['reason'] = 'missing_source';
       if (item.slot === 'computed') {
         reason = 'formula_error';
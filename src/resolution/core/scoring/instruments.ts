@@ -0,0 +1,122 @@
+/**
+ * Clinical Instrument Scoring - Definitions
+ *
+ * Domain: resolution/core/scoring
+ * Responsibility: Item counts, ranges, severity bands, and missing-item rules
+ * for each supported instrument, as published in the scoring manuals.
+ */
+
+import type { InstrumentId } from '../../contracts/types';
+
+export interface SeverityBand {
+  min: number;
+  label: string;
+}
+
+interface InstrumentBase {
+  id: InstrumentId;
+  label: string;
+  itemCount: number;
+}
+
+/** Summed Likert instrument mapped to severity bands */
+export interface BandedInstrument extends InstrumentBase {
+  kind: 'banded';
+  itemMax: number;
+  /** Most items that may be missing before the total is invalid (prorated up to this) */
+  maxMissing: number;
+  /** Ascending by min */
+  bands: SeverityBand[];
+  /** 1-based item whose non-zero answer raises riskFlag */
+  riskItem?: number;
+}
+
+/** Summed screen with a sex-specific positive cutoff */
+export interface ScreenInstrument extends InstrumentBase {
+  kind: 'screen';
+  itemMax: number;
+  cutoffs: { male: number; female: number; unspecified: number };
+}
+
+/** Yes/no screener triaged by which items are endorsed */
+export interface TriageInstrument extends InstrumentBase {
+  kind: 'triage';
+  /** Items asked only when the gate item is answered yes */
+  gatedItems: number[];
+  gateItem: number;
+}
+
+export type InstrumentDefinition = BandedInstrument | ScreenInstrument | TriageInstrument;
+
+export const INSTRUMENTS: Readonly<Record<InstrumentId, InstrumentDefinition>> = Object.freeze({
+  // Kroenke et al. 2001: 1-2 missing items are replaced by the mean of answered items.
+  phq9: {
+    kind: 'banded',
+    id: 'phq9',
+    label: 'PHQ-9',
+    itemCount: 9,
+    itemMax: 3,
+    maxMissing: 2,
+    riskItem: 9,
+    bands: [
+      { min: 0, label: 'Minimal depression' },
+      { min: 5, label: 'Mild depression' },
+      { min: 10, label: 'Moderate depression' },
+      { min: 15, label: 'Moderately severe depression' },
+      { min: 20, label: 'Severe depression' },
+    ],
+  },
+  // Spitzer et al. 2006: same proration rule as the PHQ family.
+  gad7: {
+    kind: 'banded',
+    id: 'gad7',
+    label: 'GAD-7',
+    itemCount: 7,
+    itemMax: 3,
+    maxMissing: 2,
+    bands: [
+      { min: 0, label: 'Minimal anxiety' },
+      { min: 5, label: 'Mild anxiety' },
+      { min: 10, label: 'Moderate anxiety' },
+      { min: 15, label: 'Severe anxiety' },
+    ],
+  },
+  // VA AUDIT-C guidance: all three items are required; positive at >=4 men, >=3 women.
+  auditc: {
+    kind: 'screen',
+    id: 'auditc',
+    label: 'AUDIT-C',
+    itemCount: 3,
+    itemMax: 4,
+    cutoffs: { male: 4, female: 3, unspecified: 3 },
+  },
+  // C-SSRS screener: items 3-5 are asked only when item 2 is yes; item 6 covers the past 3 months.
+  cssrs: {
+    kind: 'triage',
+    id: 'cssrs',
+    label: 'C-SSRS Screener',
+    itemCount: 6,
+    gateItem: 2,
+    gatedItems: [3, 4, 5],
+  },
+  // National Center for PTSD: prorate when at least 17 of 20 items are answered; 33 is the provisional cutoff.
+  pcl5: {
+    kind: 'banded',
+    id: 'pcl5',
+    label: 'PCL-5',
+    itemCount: 20,
+    itemMax: 4,
+    maxMissing: 3,
+    bands: [
+      { min: 0, label: 'Below PTSD threshold' },
+      { min: 33, label: 'Probable PTSD' },
+    ],
+  },
+});
+
+/**
+ * Look up an instrument definition by id (own properties only).
+ */
+export function getInstrument(id: string): InstrumentDefinition | undefined {
+  return Object.prototype.hasOwnProperty.call(INSTRUMENTS, id) ? INSTRUMENTS[id as InstrumentId] : undefined;
+}
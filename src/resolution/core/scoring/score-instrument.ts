@@ -0,0 +1,360 @@
+/**
+ * Clinical Instrument Scoring - Scorer
+ *
+ * Domain: resolution/core/scoring
+ * Responsibility: Score item responses from SourceData.assessments into a total,
+ * severity band, risk flag, and change versus a prior administration.
+ *
+ * SOR: Missing-item handling follows each instrument's manual (see instruments.ts);
+ * every proration, invalidation, or unknown risk item is reported as a notice.
+ */
+
+import type {
+  InstrumentId,
+  InstrumentScore,
+  InstrumentScoreOptions,
+  ResolutionNotice,
+} from '../../contracts/types';
+import type {
+  BandedInstrument,
+  InstrumentDefinition,
+  ScreenInstrument,
+  TriageInstrument,
+} from './instruments';
+import { INSTRUMENTS, getInstrument } from './instruments';
+
+type Responses = Array<number | null>;
+
+type PartialScore = Pick<InstrumentScore, 'total' | 'severity' | 'riskFlag' | 'prorated'>;
+
+/**
+ * Score an instrument.
+ *
+ * Accepts responses as an array (numbers, booleans, or `{ number, score }`
+ * entries), an assessment object with `responses`/`items`, a record keyed by
+ * item number (`item1`, `q1`, `1`), or a precomputed total.
+ *
+ * @param instrument - Instrument id (phq9, gad7, auditc, cssrs, pcl5)
+ * @param input - Responses or precomputed total
+ * @param options - AUDIT-C sex cutoff and prior score for delta
+ * @returns Score with notices for missing or invalid items
+ * @throws {Error} When the instrument is unknown or no responses were supplied
+ */
+export function scoreInstrument(
+  instrument: InstrumentId | string,
+  input: unknown,
+  options: InstrumentScoreOptions = {}
+): InstrumentScore {
+  const definition = getInstrument(instrument);
+  if (!definition) {
+    throw new Error(`Unknown instrument "${instrument}". Available: ${Object.keys(INSTRUMENTS).join(', ')}`);
+  }
+
+  const notices: ResolutionNotice[] = [];
+  const maxTotal = definition.kind === 'triage' ? definition.itemCount : definition.itemCount * definition.itemMax;
+  const precomputed = readPrecomputedTotal(input);
+
+  let responses: Responses;
+  let partial: PartialScore;
+
+  if (precomputed !== undefined) {
+    if (precomputed < 0 || precomputed > maxTotal) {
+      throw new Error(`${definition.label} total ${precomputed} is outside 0-${maxTotal}`);
+    }
+    responses = [];
+    partial = {
+      total: precomputed,
+      severity: definition.kind === 'triage' ? null : classifyTotal(definition, precomputed, options, notices),
+      riskFlag: null,
+      prorated: false,
+    };
+  } else {
+    responses = normalizeResponses(definition, input, notices);
+    switch (definition.kind) {
+      case 'banded':
+        partial = scoreBanded(definition, responses, notices);
+        break;
+      case 'screen':
+        partial = scoreScreen(definition, responses, options, notices);
+        break;
+      default:
+        partial = scoreTriage(definition, responses, notices);
+    }
+  }
+
+  const missingItems = precomputed !== undefined ? [] : collectMissing(definition, responses);
+
+  return {
+    instrument: definition.id,
+    label: definition.label,
+    maxTotal,
+    itemCount: definition.itemCount,
+    answered: precomputed !== undefined ? definition.itemCount : responses.filter((value) => value !== null).length,
+    missingItems,
+    ...partial,
+    delta: computeDelta(definition, partial.total, options, notices),
+    notices,
+  };
+}
+
+function scoreBanded(definition: BandedInstrument, responses: Responses, notices: ResolutionNotice[]): PartialScore {
+  const missing = collectMissing(definition, responses);
+  const answered = responses.filter((value): value is number => value !== null);
+  const sum = answered.reduce((total, value) => total + value, 0);
+
+  let riskFlag: boolean | null = null;
+  if (definition.riskItem !== undefined) {
+    const riskAnswer = responses[definition.riskItem - 1];
+    riskFlag = riskAnswer === null ? null : riskAnswer > 0;
+    if (riskAnswer === null) {
+      notices.push(notice('error', `${definition.label}: item ${definition.riskItem} is unanswered; risk cannot be ruled out`, {
+        item: definition.riskItem,
+      }));
+    }
+  }
+
+  if (missing.length > definition.maxMissing) {
+    notices.push(notice('error',
+      `${definition.label}: ${missing.length} of ${definition.itemCount} items missing (${formatItems(missing)}); ` +
+        `more than ${definition.maxMissing} missing invalidates the total`,
+      { missingItems: missing }
+    ));
+    return { total: null, severity: null, riskFlag, prorated: false };
+  }
+
+  const prorated = missing.length > 0;
+  const total = prorated ? Math.round((sum * definition.itemCount) / answered.length) : sum;
+  if (prorated) {
+    notices.push(notice('warning',
+      `${definition.label}: total prorated from ${answered.length} of ${definition.itemCount} items (${formatItems(missing)} missing)`,
+      { missingItems: missing, rawSum: sum }
+    ));
+  }
+
+  return { total, severity: bandFor(definition, total), riskFlag, prorated };
+}
+
+function scoreScreen(
+  definition: ScreenInstrument,
+  responses: Responses,
+  options: InstrumentScoreOptions,
+  notices: ResolutionNotice[]
+): PartialScore {
+  const missing = collectMissing(definition, responses);
+  if (missing.length > 0) {
+    notices.push(notice('error',
+      `${definition.label}: ${formatItems(missing)} missing; all ${definition.itemCount} items are required`,
+      { missingItems: missing }
+    ));
+    return { total: null, severity: null, riskFlag: null, prorated: false };
+  }
+
+  const total = responses.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+  return { total, severity: classifyTotal(definition, total, options, notices), riskFlag: null, prorated: false };
+}
+
+function scoreTriage(definition: TriageInstrument, responses: Responses, notices: ResolutionNotice[]): PartialScore {
+  const missing = collectMissing(definition, responses);
+  const endorsed = (item: number) => responses[item - 1] === 1;
+  const anyEndorsed = responses.some((value) => value === 1);
+
+  if (missing.length > 0) {
+    notices.push(notice('error',
+      `${definition.label}: ${formatItems(missing)} unanswered; risk level cannot be determined`,
+      { missingItems: missing }
+    ));
+    return { total: null, severity: null, riskFlag: anyEndorsed ? true : null, prorated: false };
+  }
+
+  let severity = 'No risk identified';
+  if (endorsed(4) || endorsed(5) || endorsed(6)) {
+    severity = 'High risk';
+  } else if (endorsed(3)) {
+    severity = 'Moderate risk';
+  } else if (endorsed(1) || endorsed(2)) {
+    severity = 'Low risk';
+  }
+
+  const total = responses.filter((value) => value === 1).length;
+  return { total, severity, riskFlag: anyEndorsed, prorated: false };
+}
+
+function classifyTotal(
+  definition: Exclude<InstrumentDefinition, TriageInstrument>,
+  total: number,
+  options: InstrumentScoreOptions,
+  notices: ResolutionNotice[]
+): string {
+  if (definition.kind === 'banded') {
+    return bandFor(definition, total);
+  }
+
+  const { cutoffs } = definition;
+  const cutoff = options.sex ? cutoffs[options.sex] : cutoffs.unspecified;
+  if (!options.sex && total >= cutoffs.unspecified && total < Math.max(cutoffs.male, cutoffs.female)) {
+    notices.push(notice('info',
+      `${definition.label}: positive by the ${cutoffs.unspecified}-point cutoff because sex was not provided`,
+      { cutoffs }
+    ));
+  }
+  return total >= cutoff ? 'Positive screen' : 'Negative screen';
+}
+
+function bandFor(definition: BandedInstrument, total: number): string {
+  let label = definition.bands[0].label;
+  for (const band of definition.bands) {
+    if (total >= band.min) {
+      label = band.label;
+    }
+  }
+  return label;
+}
+
+function computeDelta(
+  definition: InstrumentDefinition,
+  total: number | null,
+  options: InstrumentScoreOptions,
+  notices: ResolutionNotice[]
+): number | null {
+  if (options.prior === undefined || options.prior === null) {
+    return null;
+  }
+
+  let priorTotal: number | null = null;
+  try {
+    priorTotal = scoreInstrument(definition.id, options.prior, { sex: options.sex }).total;
+  } catch {
+    priorTotal = null;
+  }
+
+  if (total === null || priorTotal === null) {
+    notices.push(notice('warning',
+      `${definition.label}: change versus prior cannot be computed (${total === null ? 'current' : 'prior'} total unavailable)`
+    ));
+    return null;
+  }
+  return total - priorTotal;
+}
+
+function readPrecomputedTotal(input: unknown): number | undefined {
+  if (typeof input === 'number') {
+    return input;
+  }
+  if (isRecord(input) && !Array.isArray(input.responses) && !Array.isArray(input.items)) {
+    const total = input.totalScore ?? input.total;
+    if (typeof total === 'number') {
+      return total;
+    }
+  }
+  return undefined;
+}
+
+function normalizeResponses(
+  definition: InstrumentDefinition,
+  input: unknown,
+  notices: ResolutionNotice[]
+): Responses {
+  const entries = extractEntries(input);
+  if (!entries) {
+    throw new Error(`${definition.label} responses are missing`);
+  }
+
+  const responses: Responses = new Array(definition.itemCount).fill(null);
+  entries.forEach(([item, raw]) => {
+    if (item < 1 || item > definition.itemCount || raw === null || raw === undefined || raw === '') {
+      return;
+    }
+    const value = definition.kind === 'triage' ? toYesNo(raw) : toItemScore(raw, definition.itemMax);
+    if (value === null) {
+      const range = definition.kind === 'triage' ? 'yes/no' : `0-${definition.itemMax}`;
+      notices.push({
+        reason: 'type_mismatch',
+        severity: 'warning',
+        message: `${definition.label}: item ${item} answer ${JSON.stringify(raw)} is not ${range}; treated as missing`,
+        details: { item, value: raw },
+      });
+    }
+    responses[item - 1] = value;
+  });
+  return responses;
+}
+
+function extractEntries(input: unknown): Array<[number, unknown]> | undefined {
+  const list = Array.isArray(input)
+    ? input
+    : isRecord(input) && Array.isArray(input.responses)
+      ? input.responses
+      : isRecord(input) && Array.isArray(input.items)
+        ? input.items
+        : undefined;
+
+  if (list) {
+    return list.map((entry, index): [number, unknown] => {
+      if (isRecord(entry)) {
+        const item = typeof entry.number === 'number' ? entry.number : typeof entry.item === 'number' ? entry.item : index + 1;
+        return [item, entry.score ?? entry.value ?? entry.answer];
+      }
+      return [index + 1, entry];
+    });
+  }
+
+  if (isRecord(input)) {
+    return Object.entries(input)
+      .map(([key, value]): [number, unknown] | undefined => {
+        const match = /(\d+)$/.exec(key);
+        return match ? [Number(match[1]), value] : undefined;
+      })
+      .filter((entry): entry is [number, unknown] => entry !== undefined);
+  }
+
+  return undefined;
+}
+
+function collectMissing(definition: InstrumentDefinition, responses: Responses): number[] {
+  const skipped = definition.kind === 'triage' && responses[definition.gateItem - 1] === 0
+    ? new Set(definition.gatedItems)
+    : new Set<number>();
+  const missing: number[] = [];
+  responses.forEach((value, index) => {
+    if (value === null && !skipped.has(index + 1)) {
+      missing.push(index + 1);
+    }
+  });
+  return missing;
+}
+
+function toItemScore(raw: unknown, itemMax: number): number | null {
+  const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= itemMax ? value : null;
+}
+
+function toYesNo(raw: unknown): number | null {
+  if (typeof raw === 'boolean') {
+    return raw ? 1 : 0;
+  }
+  if (raw === 0 || raw === 1) {
+    return raw;
+  }
+  if (typeof raw === 'string') {
+    const normalized = raw.trim().toLowerCase();
+    if (normalized === 'yes' || normalized === 'y') {
+      return 1;
+    }
+    if (normalized === 'no' || normalized === 'n') {
+      return 0;
+    }
+  }
+  return null;
+}
+
+function formatItems(items: number[]): string {
+  return `${items.length === 1 ? 'item' : 'items'} ${items.join(', ')}`;
+}
+
+function notice(severity: ResolutionNotice['severity'], message: string, details?: unknown): ResolutionNotice {
+  return { reason: 'incomplete_instrument', severity, message, details };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
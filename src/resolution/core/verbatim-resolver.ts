@@ -1,6 +1,6 @@
 import type { ContentItem } from '../../derivation/types';
 import type { ISlotResolver, ResolutionContext, ResolvedField, SourceData, SourceRecord } from '../contracts/types';
-import { getByPath } from '../../factory/utils/path-resolver';
+import { getByPath } from '../../paths';
 
 /**
  * Resolves verbatim slots by extracting quotes with provenance tracking
@@ -0,0 +1,35 @@
+import type { FormulaErrorContext, LookupErrorContext } from './contracts/types';
+
+/**
+ * Error thrown when a computed-slot formula cannot be parsed or evaluated.
+ */
+export class FormulaError extends Error {
+  readonly context: FormulaErrorContext;
+
+  /**
+   * @param message - Human-readable reason, including position for syntax errors
+   * @param context - Error code, formula source, and offending offset
+   */
+  constructor(message: string, context: FormulaErrorContext) {
+    super(message);
+    this.name = 'FormulaError';
+    this.context = context;
+  }
+}
+
+/**
+ * Error thrown when a lookup pipeline cannot be parsed or a pipe cannot handle its input.
+ */
+export class LookupError extends Error {
+  readonly context: LookupErrorContext;
+
+  /**
+   * @param message - Human-readable reason
+   * @param context - Error code, lookup source, and failing pipe
+   */
+  constructor(message: string, context: LookupErrorContext) {
+    super(message);
+    this.name = 'LookupError';
+    this.context = context;
+  }
+}
@@ -8,9 +8,25 @@ export { ComputedResolver } from './core/computed-resolver';
 export { VerbatimResolver } from './core/verbatim-resolver';
 export { FormulaEvaluator } from './core/formula-evaluator';
 
+// Export formula language
+export { parseFormula } from './core/formula/parser';
+export { checkFormula } from './core/formula/checker';
+export { FORMULA_FUNCTIONS } from './core/formula/functions';
+export { FormulaError, LookupError } from './errors';
+
+// Export lookup pipelines
+export { parseLookup } from './core/lookup/parser';
+export { evaluateLookup } from './core/lookup/evaluator';
+export { checkLookup } from './core/lookup/checker';
+export { LOOKUP_TRANSFORMS } from './core/lookup/transforms';
+
+// Export clinical instrument scoring
+export { scoreInstrument } from './core/scoring/score-instrument';
+export { INSTRUMENTS } from './core/scoring/instruments';
+
 // Export NAS builder and utilities
 export { NASBuilder } from './core/nas-builder';
-export { setByPath } from './core/path-setter';
+export { setByPath } from '../paths';
 
 // Import classes for factory function
 import { LookupResolver } from './core/lookup-resolver';
@@ -12,6 +12,7 @@ import nonAiOutputMetaSchema from './non-ai-output.meta.schema.json';
 import promptBundleMetaSchema from './prompt-bundle.meta.schema.json';
 import renderPayloadMetaSchema from './render-payload.meta.schema.json';
 import designTokensSchema from './design-tokens.schema.json';
+import fhirNoteExportSchema from './fhir-note-export.schema.json';
 
 // Export individual schemas
 export { noteTemplateSchema };
@@ -20,6 +21,7 @@ export { nonAiOutputMetaSchema };
 export { promptBundleMetaSchema };
 export { renderPayloadMetaSchema };
 export { designTokensSchema };
+export { fhirNoteExportSchema };
 
 // Export all schemas as a collection
 export const schemas = {
@@ -29,6 +31,7 @@ export const schemas = {
 	promptBundleMeta: promptBundleMetaSchema,
 	renderPayloadMeta: renderPayloadMetaSchema,
 	designTokens: designTokensSchema,
+	fhirNoteExport: fhirNoteExportSchema,
 } as const;
 
 // Export schema IDs for reference
@@ -39,4 +42,5 @@ export const SCHEMA_IDS = {
 	PROMPT_BUNDLE_META: 'https://catalyst/specs/prompt-bundle.meta.schema.json',
 	RENDER_PAYLOAD_META: 'https://catalyst/specs/render-payload.meta.schema.json',
 	DESIGN_TOKENS: 'https://catalyst/specs/design-tokens.schema.json',
+	FHIR_NOTE_EXPORT: 'https://catalyst/specs/fhir-note-export.schema.json',
 } as const;
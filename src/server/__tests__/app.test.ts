@@ -0,0 +1,525 @@
+import { describe, expect, it } from 'bun:test';
+import type { DerivedSchema, NoteTemplate } from '../../derivation/types';
+import { createInProcessJobQueue } from '../../jobs';
+import type { NoteJob } from '../../jobs';
+import { createPipelineError } from '../../pipeline';
+import { createMemoryTemplateStorage, createTemplateRegistry } from '../../registry';
+import type { TemplateRecord, TemplateVersionSummary } from '../../registry';
+import type {
+  PipelineInput,
+  PipelineOptions,
+  PipelineOutput,
+  RegenerateFieldsOutput,
+} from '../../pipeline';
+import { createServerApp } from '../core/app';
+import type {
+  DeriveAllResponse,
+  ErrorResponseBody,
+  PublishTemplateResponse,
+  TemplateValidationResponse,
+} from '../types';
+
+const template: NoteTemplate = {
+  id: 'tmpl-server',
+  name: 'Server Template',
+  version: '1.0.0',
+  style: {
+    font: 'Inter',
+    color: '#111111',
+    accent: '#3366FF',
+    spacing: 8,
+  },
+  prompt: {
+    system: 'You are a diligent clinical assistant.',
+    main: 'Summarize the assessment section.',
+  },
+  layout: [
+    {
+      id: 'assessment-section',
+      type: 'section',
+      title: 'Assessment',
+      content: [
+        {
+          id: 'patient-name',
+          slot: 'lookup',
+          targetPath: 'patient.name',
+          lookup: 'patient.name',
+        },
+        {
+          id: 'assessment-summary',
+          slot: 'ai',
+          outputPath: 'assessment.summary',
+          aiDeps: ['patient.name'],
+          guidance: ['Provide a brief assessment summary referencing the patient by name.'],
+        },
+      ],
+    },
+  ],
+};
+
+const fakeOpenAIClient = {
+  responses: {
+    create: async () => ({
+      id: 'resp-server-001',
+      object: 'response',
+      created: Date.now(),
+      model: 'mock-gpt',
+      status: 'completed',
+      output: [],
+      output_text: JSON.stringify({
+        assessment: { summary: 'Patient Jane Doe presents with stable mood.' },
+      }),
+      usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 },
+      prompt: {},
+    }),
+  },
+};
+
+async function readJson<T>(response: Response): Promise<T> {
+  return (await response.json()) as T;
+}
+
+function post(path: string, body: unknown): Request {
+  return new Request(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('HTTP service', () => {
+  it('generates a note through the pipeline with server-owned defaults', async () => {
+    const app = createServerApp({
+      pipelineDefaults: { openaiClient: fakeOpenAIClient as unknown as PipelineOptions['openaiClient'] },
+    });
+
+    const response = await app.handle(
+      post('/notes/generate', { template, sourceData: { patient: { name: 'Jane Doe' } } })
+    );
+    const body = await readJson<PipelineOutput>(response);
+
+    expect(response.status).toBe(200);
+    expect(body.aiOutput).toEqual({
+      assessment: { summary: 'Patient Jane Doe presents with stable mood.' },
+    });
+    expect(body.payload).toMatchObject({ patient: { name: 'Jane Doe' } });
+    expect(body.html).toContain('Patient Jane Doe presents with stable mood.');
+    expect(body.template).toEqual({ id: 'tmpl-server', name: 'Server Template', version: '1.0.0' });
+  });
+
+  it('keeps server defaults when request options are merged', async () => {
+    let captured: PipelineInput | undefined;
+    const app = createServerApp({
+      pipelineDefaults: { verbose: false, requestId: 'server-default' },
+      runPipeline: async (input) => {
+        captured = input;
+        throw createPipelineError('stop', 'prompt-lint', [{ check: 'length' }]);
+      },
+    });
+
+    const response = await app.handle(
+      post('/notes/generate', {
+        template,
+        sourceData: {},
+        options: { requestId: 'req-42', provenance: true },
+      })
+    );
+
+    expect(captured?.options).toEqual({ verbose: false, requestId: 'req-42', provenance: true });
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      error: { step: 'prompt-lint', message: 'stop', details: [{ check: 'length' }] },
+    });
+  });
+
+  it('maps template validation failures to 422 with the failing step', async () => {
+    const app = createServerApp();
+    const response = await app.handle(
+      post('/notes/generate', { template: { id: 'broken' }, sourceData: {} })
+    );
+    const body = await readJson<ErrorResponseBody>(response);
+
+    expect(response.status).toBe(422);
+    expect(body.error.step).toBe('template-validation');
+    expect(Array.isArray(body.error.details)).toBe(true);
+  });
+
+  it('maps upstream generation failures to 502', async () => {
+    const failingClient = {
+      responses: {
+        create: async () => {
+          throw new Error('upstream unavailable');
+        },
+      },
+    };
+    const app = createServerApp({
+      pipelineDefaults: {
+        openaiClient: failingClient as unknown as PipelineOptions['openaiClient'],
+        generationOptions: { retries: 0 },
+      },
+    });
+
+    const response = await app.handle(
+      post('/notes/generate', { template, sourceData: { patient: { name: 'Jane Doe' } } })
+    );
+    const body = await readJson<ErrorResponseBody>(response);
+
+    expect(response.status).toBe(502);
+    expect(body.error.step).toBe('ai-generation');
+    expect(body.error.details).toMatchObject({ message: 'upstream unavailable' });
+  });
+
+  it('regenerates selected fields from a prior output', async () => {
+    const app = createServerApp({
+      pipelineDefaults: { openaiClient: fakeOpenAIClient as unknown as PipelineOptions['openaiClient'] },
+    });
+    const generated = await app.handle(
+      post('/notes/generate', { template, sourceData: { patient: { name: 'Jane Doe' } } })
+    );
+    const previous = await readJson<PipelineOutput>(generated);
+
+    const response = await app.handle(
+      post('/notes/regenerate', { template, previous, targets: ['assessment-section'] })
+    );
+    const body = await readJson<RegenerateFieldsOutput>(response);
+
+    expect(response.status).toBe(200);
+    expect(body.regeneratedPaths).toEqual(['assessment.summary']);
+    expect(body.html).toContain('Patient Jane Doe presents with stable mood.');
+
+    const unknownTarget = await app.handle(
+      post('/notes/regenerate', { template, previous, targets: ['plan-section'] })
+    );
+    expect(unknownTarget.status).toBe(400);
+    expect((await readJson<ErrorResponseBody>(unknownTarget)).error.step).toBe('regeneration-target');
+  });
+
+  it('rejects malformed request envelopes with 400', async () => {
+    const app = createServerApp();
+    const response = await app.handle(post('/notes/generate', { template }));
+    const body = await readJson<ErrorResponseBody>(response);
+
+    expect(response.status).toBe(400);
+    expect(body.error.step).toBe('request-validation');
+  });
+
+  it('derives AIS, NAS, and RPS schemas', async () => {
+    const app = createServerApp();
+
+    const ais = await readJson<DerivedSchema>(await app.handle(post('/derive/ais', { template })));
+    expect(ais.properties.assessment?.properties?.summary?.type).toBe('string');
+
+    const nas = await readJson<DerivedSchema>(await app.handle(post('/derive/nas', { template })));
+    expect(nas.properties.patient?.properties?.name).toBeDefined();
+
+    const all = await readJson<DeriveAllResponse>(
+      await app.handle(post('/derive/rps', { template }))
+    );
+    expect(Object.keys(all)).toEqual(['ais', 'nas', 'rps']);
+    expect(all.rps.properties.assessment).toBeDefined();
+    expect(all.rps.properties.patient).toBeDefined();
+  });
+
+  it('reports validation and lint findings without failing the request', async () => {
+    const app = createServerApp();
+
+    const valid = await readJson<TemplateValidationResponse>(
+      await app.handle(post('/templates/validate', { template }))
+    );
+    expect(valid.ok).toBe(true);
+    expect(valid.errors).toEqual([]);
+
+    const invalid = await app.handle(post('/templates/validate', { template: { id: 'x' } }));
+    const invalidBody = await readJson<TemplateValidationResponse>(invalid);
+    expect(invalid.status).toBe(200);
+    expect(invalidBody.ok).toBe(false);
+    expect(invalidBody.errors.length).toBeGreaterThan(0);
+  });
+
+  it('reports malformed layouts as findings instead of failing to flatten them', async () => {
+    const app = createServerApp();
+    const malformed = [
+      { ...template, layout: [null] },
+      { ...template, layout: [{ ...template.layout[0], children: 'x' }] },
+    ];
+
+    for (const candidate of malformed) {
+      const validation = await app.handle(post('/templates/validate', { template: candidate }));
+      expect(validation.status).toBe(200);
+      expect((await readJson<TemplateValidationResponse>(validation)).ok).toBe(false);
+
+      const derived = await app.handle(post('/derive/ais', { template: candidate }));
+      expect(derived.status).toBe(422);
+      expect((await readJson<ErrorResponseBody>(derived)).error.step).toBe('template-validation');
+    }
+  });
+
+  it('renders HTML from a supplied payload', async () => {
+    const app = createServerApp();
+    const response = await app.handle(
+      post('/render', {
+        template,
+        payload: {
+          patient: { name: 'Jane Doe' },
+          assessment: { summary: 'Rendered without generation.' },
+        },
+      })
+    );
+    const html = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/html');
+    expect(html).toContain('Rendered without generation.');
+    expect(html).toContain('<style');
+  });
+
+  it('returns structured 404 bodies for unknown routes', async () => {
+    const app = createServerApp();
+    const response = await app.handle(new Request('http://localhost/nope'));
+
+    expect(response.status).toBe(404);
+    expect((await readJson<ErrorResponseBody>(response)).error.step).toBe('not-found');
+  });
+});
+
+describe('HTTP service progress streaming', () => {
+  function parseFrames(text: string): Array<{ event: string; data: unknown }> {
+    return text
+      .split('\n\n')
+      .filter(Boolean)
+      .map((frame) => {
+        const lines = frame.split('\n');
+        const event = lines.find((line) => line.startsWith('event: '))?.slice(7) ?? '';
+        const data = lines.find((line) => line.startsWith('data: '))?.slice(6) ?? 'null';
+        return { event, data: JSON.parse(data) as unknown };
+      });
+  }
+
+  it('streams scrubbed progress events followed by the result', async () => {
+    const app = createServerApp({
+      pipelineDefaults: { openaiClient: fakeOpenAIClient as unknown as PipelineOptions['openaiClient'] },
+    });
+
+    const response = await app.handle(
+      post('/notes/generate/stream', { template, sourceData: { patient: { name: 'Jane Doe' } } })
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+
+    const frames = parseFrames(await response.text());
+    const progress = frames.filter((frame) => frame.event === 'progress');
+    const last = frames.at(-1);
+
+    expect(progress.length).toBeGreaterThan(3);
+    expect(JSON.stringify(progress)).not.toContain('Jane Doe');
+    expect(last?.event).toBe('result');
+    expect((last?.data as PipelineOutput).aiOutput).toEqual({
+      assessment: { summary: 'Patient Jane Doe presents with stable mood.' },
+    });
+  });
+
+  it('ends the stream with an error event when generation fails', async () => {
+    const app = createServerApp({
+      pipelineDefaults: {
+        openaiClient: {
+          responses: {
+            create: async () => {
+              throw new Error('upstream unavailable');
+            },
+          },
+        } as unknown as PipelineOptions['openaiClient'],
+        generationOptions: { retries: 0 },
+      },
+    });
+
+    const response = await app.handle(
+      post('/notes/generate/stream', { template, sourceData: { patient: { name: 'Jane Doe' } } })
+    );
+    const frames = parseFrames(await response.text());
+    const last = frames.at(-1);
+
+    expect(frames.some((frame) => (frame.data as { type?: string }).type === 'error')).toBe(true);
+    expect(last?.event).toBe('error');
+    expect((last?.data as ErrorResponseBody).error.step).toBe('ai-generation');
+  });
+
+  it('rejects invalid requests before the stream opens', async () => {
+    const app = createServerApp();
+    const response = await app.handle(post('/notes/generate/stream', { template }));
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe('HTTP service with template registry', () => {
+  function createRegistryApp() {
+    const registry = createTemplateRegistry({ storage: createMemoryTemplateStorage() });
+    const app = createServerApp({
+      registry,
+      pipelineDefaults: {
+        openaiClient: fakeOpenAIClient as unknown as PipelineOptions['openaiClient'],
+      },
+    });
+    return { app, registry };
+  }
+
+  it('publishes, lists, resolves, and deprecates template versions', async () => {
+    const { app } = createRegistryApp();
+
+    const published = await app.handle(post('/templates', { template }));
+    expect(published.status).toBe(201);
+    const publishedBody = await readJson<PublishTemplateResponse>(published);
+    expect(publishedBody.template).toMatchObject({ id: 'tmpl-server', status: 'published' });
+
+    const second = await app.handle(
+      post('/templates', { template: { ...template, version: '1.1.0' } })
+    );
+    expect(second.status).toBe(201);
+
+    const duplicate = await app.handle(post('/templates', { template }));
+    expect(duplicate.status).toBe(409);
+    expect((await readJson<ErrorResponseBody>(duplicate)).error.step).toBe('template-registry');
+
+    const versions = await readJson<{ versions: TemplateVersionSummary[] }>(
+      await app.handle(new Request('http://localhost/templates/tmpl-server/versions'))
+    );
+    expect(versions.versions.map((v) => v.version)).toEqual(['1.1.0', '1.0.0']);
+
+    const deprecated = await app.handle(
+      post('/templates/tmpl-server/versions/1.1.0/deprecate', { reason: 'superseded' })
+    );
+    expect((await readJson<TemplateVersionSummary>(deprecated)).status).toBe('deprecated');
+
+    const latest = await readJson<TemplateRecord>(
+      await app.handle(new Request('http://localhost/templates/tmpl-server?version=latest'))
+    );
+    expect(latest.version).toBe('1.0.0');
+    expect(latest.schemas.ais.properties.assessment).toBeDefined();
+
+    const missing = await app.handle(new Request('http://localhost/templates/unknown'));
+    expect(missing.status).toBe(404);
+  });
+
+  it('generates notes from a templateRef and records the resolved version', async () => {
+    const { app, registry } = createRegistryApp();
+    await registry.publish(template);
+    await registry.publish({ ...template, version: '1.2.0' });
+
+    const response = await app.handle(
+      post('/notes/generate', {
+        templateRef: { id: 'tmpl-server', version: '1.x' },
+        sourceData: { patient: { name: 'Jane Doe' } },
+      })
+    );
+    const body = await readJson<PipelineOutput>(response);
+
+    expect(response.status).toBe(200);
+    expect(body.template.version).toBe('1.2.0');
+  });
+
+  it('flattens templates that extend published versions and include snippets', async () => {
+    const { app } = createRegistryApp();
+    const signature = {
+      id: 'clinician-signature',
+      version: '1.0.0',
+      layout: [
+        {
+          id: 'signature',
+          type: 'signatureBlock',
+          content: [{ id: 'signed-by', slot: 'lookup', targetPath: 'clinician.name', lookup: 'clinician.name' }],
+        },
+      ],
+    };
+
+    const published = await app.handle(
+      post('/templates', {
+        template: { ...template, layout: [...template.layout, { $include: 'clinician-signature@1.x' }] },
+        options: { snippets: [signature] },
+      })
+    );
+    expect(published.status).toBe(201);
+
+    const child = {
+      id: 'tmpl-server-child',
+      version: '1.0.0',
+      extends: 'tmpl-server@1.x',
+      layout: [{ id: 'assessment-section', title: 'Session Assessment' }],
+    };
+
+    const validation = await readJson<TemplateValidationResponse>(
+      await app.handle(post('/templates/validate', { template: child }))
+    );
+    expect(validation.ok).toBe(true);
+
+    const generated = await app.handle(
+      post('/notes/generate', { template: child, sourceData: { patient: { name: 'Jane Doe' } } })
+    );
+    expect(generated.status).toBe(200);
+    expect((await readJson<PipelineOutput>(generated)).template.id).toBe('tmpl-server-child');
+
+    const unresolved = await app.handle(
+      post('/derive/ais', { template: { ...child, layout: [{ $include: 'missing-snippet' }] } })
+    );
+    expect(unresolved.status).toBe(422);
+    expect((await readJson<ErrorResponseBody>(unresolved)).error.step).toBe('template-validation');
+  });
+
+  it('rejects requests that provide both template and templateRef', async () => {
+    const { app } = createRegistryApp();
+    const response = await app.handle(
+      post('/notes/generate', {
+        template,
+        templateRef: { id: 'tmpl-server' },
+        sourceData: {},
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect((await readJson<ErrorResponseBody>(response)).error.step).toBe('request-validation');
+  });
+});
+
+describe('HTTP service job routes', () => {
+  it('accepts jobs with 202 and exposes their state for polling', async () => {
+    const jobQueue = createInProcessJobQueue({
+      runPipeline: async () => {
+        throw createPipelineError('AI generation failed', 'ai-generation', new Error('timeout'));
+      },
+    });
+    const app = createServerApp({ jobQueue });
+
+    const accepted = await app.handle(
+      post('/jobs', { template, sourceData: { patient: { name: 'Jane Doe' } } })
+    );
+    const job = await readJson<NoteJob>(accepted);
+
+    expect(accepted.status).toBe(202);
+    expect(accepted.headers.get('location')).toBe(`/jobs/${job.id}`);
+    expect(job.status).toBe('queued');
+
+    await jobQueue.drain();
+
+    const polled = await readJson<NoteJob>(
+      await app.handle(new Request(`http://localhost/jobs/${job.id}`))
+    );
+    expect(polled.status).toBe('failed');
+    expect(polled.error?.step).toBe('ai-generation');
+  });
+
+  it('rejects callback URLs when the queue has no signing secret', async () => {
+    const app = createServerApp({ runPipeline: async () => ({}) as PipelineOutput });
+    const response = await app.handle(
+      post('/jobs', { template, sourceData: {}, callbackUrl: 'https://ehr.example/hook' })
+    );
+
+    expect(response.status).toBe(400);
+    expect((await readJson<ErrorResponseBody>(response)).error.step).toBe('job-submission');
+  });
+
+  it('returns 404 for unknown jobs', async () => {
+    const app = createServerApp();
+    const response = await app.handle(new Request('http://localhost/jobs/missing'));
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Server Domain Constants
+ *
+ * Domain: server
+ * Responsibility: Ports, status mappings, and step identifiers owned by the HTTP layer.
+ */
+
+import type { JobQueueErrorCode } from '../jobs';
+import type { TemplateRegistryErrorCode } from '../registry';
+
+/** Default port when PORT is not set */
+export const DEFAULT_SERVER_PORT = 3000;
+
+/** Terminal SSE event names for streamed generation (progress frames use PROGRESS_SSE_EVENT) */
+export const STREAM_EVENTS = {
+	result: 'result',
+	error: 'error',
+} as const;
+
+/** Status used when an error carries no recognised step */
+export const DEFAULT_ERROR_STATUS = 500;
+
+/**
+ * Steps raised by the server itself (outside runPipeline)
+ */
+export const SERVER_ERROR_STEPS = {
+	requestValidation: 'request-validation',
+	requestParse: 'request-parse',
+	notFound: 'not-found',
+	aisDerivation: 'ais-derivation',
+	nasDerivation: 'nas-derivation',
+	rpsDerivation: 'rps-derivation',
+	render: 'render',
+	templateRegistry: 'template-registry',
+	jobSubmission: 'job-submission',
+} as const;
+
+/**
+ * HTTP status for each PipelineError step.
+ *
+ * 4xx: the caller's template, data, or request is at fault.
+ * 502: the upstream model failed or returned unusable output.
+ * 500: server-side misconfiguration or unexpected failure.
+ */
+export const PIPELINE_STEP_STATUS: Readonly<Record<string, number>> = {
+	'request-validation': 400,
+	'request-parse': 400,
+	'not-found': 404,
+	'template-validation': 422,
+	'template-migration': 422,
+	'template-lint': 422,
+	'template-lint-warning': 422,
+	'ais-schema-validation': 422,
+	'ais-derivation': 422,
+	'nas-derivation': 422,
+	'rps-derivation': 422,
+	'resolution-error': 422,
+	'resolution-warnings': 422,
+	'prompt-lint': 422,
+	'prompt-lint-warning': 422,
+	'merge-conflict': 409,
+	'mock-generation-disabled': 400,
+	'mock-generation-invalid': 500,
+	'regeneration-input': 400,
+	'regeneration-target': 400,
+	'generation-strategy': 422,
+	'ai-generation': 502,
+	'ai-validation': 502,
+	'ai-validation-warning': 502,
+	render: 500,
+	unknown: 500,
+};
+
+/**
+ * HTTP status for each TemplateRegistryError code (reported under the template-registry step).
+ */
+export const REGISTRY_ERROR_STATUS: Readonly<Record<TemplateRegistryErrorCode, number>> = {
+	'invalid-version': 400,
+	'invalid-selector': 400,
+	'inheritance-failed': 422,
+	'migration-failed': 422,
+	'validation-failed': 422,
+	'lint-failed': 422,
+	'derivation-failed': 422,
+	'version-exists': 409,
+	'already-deprecated': 409,
+	'not-found': 404,
+};
+
+/**
+ * HTTP status for each JobQueueError code (reported under the job-submission step).
+ */
+export const JOB_ERROR_STATUS: Readonly<Record<JobQueueErrorCode, number>> = {
+	'callbacks-disabled': 400,
+	'invalid-callback-url': 400,
+	'callback-host-not-allowed': 400,
+};
@@ -0,0 +1,82 @@
+/**
+ * Server Application Factory
+ *
+ * Domain: server/core
+ * Responsibility: Assemble the Elysia app from route groups and install
+ * shared middleware (CORS, OpenAPI docs, error mapping).
+ *
+ * SOD: Routes own request handling; this module only wires them together.
+ * DI: Pipeline runner, pipeline defaults, job queue, template source, and the
+ * optional template registry are injected via ServerConfig.
+ */
+
+import { cors } from '@elysiajs/cors';
+import { swagger } from '@elysiajs/swagger';
+import { Elysia } from 'elysia';
+import { createMemoryTemplateSource, createRegistryTemplateSource } from '../../inheritance';
+import { createInProcessJobQueue } from '../../jobs';
+import { runPipeline } from '../../pipeline';
+import { DEFAULT_SERVER_PORT } from '../constants';
+import { createDeriveRoutes } from '../routes/derive';
+import { createJobRoutes } from '../routes/jobs';
+import { createNoteRoutes } from '../routes/notes';
+import { createRegistryRoutes } from '../routes/registry';
+import { createRenderRoutes } from '../routes/render';
+import { createTemplateRoutes } from '../routes/templates';
+import type { ServerConfig, ServerDependencies, StartServerOptions } from '../types';
+import { mapErrorToResponse } from './error-mapper';
+
+/**
+ * Create the HTTP application without binding a port.
+ */
+export function createServerApp(config: ServerConfig = {}) {
+	const pipelineRunner = config.runPipeline ?? runPipeline;
+	const deps: ServerDependencies = {
+		runPipeline: pipelineRunner,
+		pipelineDefaults: config.pipelineDefaults ?? {},
+		registry: config.registry,
+		templateSource:
+			config.templateSource ??
+			(config.registry ? createRegistryTemplateSource(config.registry) : createMemoryTemplateSource({})),
+		jobQueue: config.jobQueue ?? createInProcessJobQueue({ runPipeline: pipelineRunner }),
+		streamScrubPHI: config.streamScrubPHI ?? true,
+	};
+
+	const app = new Elysia()
+		.use(cors())
+		.use(
+			swagger({
+				documentation: {
+					info: {
+						title: 'Clinical Note Service',
+						version: '1.0.0',
+						description: 'Template derivation, validation, generation, and rendering.',
+					},
+				},
+			})
+		)
+		.onError(({ code, error, set }) => {
+			const mapped = mapErrorToResponse(error, code);
+			set.status = mapped.status;
+			set.headers['content-type'] = 'application/json; charset=utf-8';
+			return mapped.body;
+		})
+		.get('/health', () => ({ status: 'ok' }))
+		.use(createNoteRoutes(deps))
+		.use(createJobRoutes(deps))
+		.use(createDeriveRoutes(deps.templateSource))
+		.use(createTemplateRoutes(deps.templateSource))
+		.use(createRenderRoutes(deps.templateSource));
+
+	return deps.registry ? app.use(createRegistryRoutes(deps.registry)) : app;
+}
+
+/**
+ * Create the application and start listening.
+ */
+export function startServer(options: StartServerOptions = {}) {
+	const { port = DEFAULT_SERVER_PORT, hostname, ...config } = options;
+	const app = createServerApp(config);
+
+	return app.listen(hostname ? { port, hostname } : port);
+}
@@ -0,0 +1,110 @@
+/**
+ * Server Error Mapper
+ *
+ * Domain: server/core
+ * Responsibility: Translate PipelineErrors and framework errors into
+ * structured JSON bodies with stable HTTP status codes.
+ *
+ * SOR: PIPELINE_STEP_STATUS is the single step -> status table.
+ * SOD: Routes throw; this module decides how failures look on the wire.
+ */
+
+import { JobQueueError } from '../../jobs';
+import { isPipelineError, snapshotPipelineError } from '../../pipeline';
+import { TemplateRegistryError } from '../../registry';
+import {
+	DEFAULT_ERROR_STATUS,
+	JOB_ERROR_STATUS,
+	PIPELINE_STEP_STATUS,
+	REGISTRY_ERROR_STATUS,
+	SERVER_ERROR_STEPS,
+} from '../constants';
+import type { MappedErrorResponse } from '../types';
+
+/**
+ * Resolve the HTTP status for a pipeline step.
+ */
+export function statusForStep(step: string): number {
+	return PIPELINE_STEP_STATUS[step] ?? DEFAULT_ERROR_STATUS;
+}
+
+/**
+ * Map any thrown value to a status + structured error body.
+ *
+ * @param error - Thrown value from a route or the framework
+ * @param code - Elysia error code (VALIDATION, PARSE, NOT_FOUND, ...)
+ */
+export function mapErrorToResponse(error: unknown, code?: string | number): MappedErrorResponse {
+	if (code === 'VALIDATION') {
+		return buildResponse(
+			SERVER_ERROR_STEPS.requestValidation,
+			'Request body failed validation',
+			extractValidationDetails(error)
+		);
+	}
+
+	if (code === 'PARSE') {
+		return buildResponse(SERVER_ERROR_STEPS.requestParse, 'Request body could not be parsed');
+	}
+
+	if (code === 'NOT_FOUND') {
+		return buildResponse(SERVER_ERROR_STEPS.notFound, 'Route not found');
+	}
+
+	if (error instanceof TemplateRegistryError) {
+		return {
+			status: REGISTRY_ERROR_STATUS[error.context.code] ?? DEFAULT_ERROR_STATUS,
+			body: {
+				error: {
+					step: SERVER_ERROR_STEPS.templateRegistry,
+					message: error.message,
+					details: error.context,
+				},
+			},
+		};
+	}
+
+	if (error instanceof JobQueueError) {
+		return {
+			status: JOB_ERROR_STATUS[error.context.code] ?? DEFAULT_ERROR_STATUS,
+			body: {
+				error: {
+					step: SERVER_ERROR_STEPS.jobSubmission,
+					message: error.message,
+					details: error.context,
+				},
+			},
+		};
+	}
+
+	if (isPipelineError(error)) {
+		const snapshot = snapshotPipelineError(error);
+		return buildResponse(snapshot.step, snapshot.message, snapshot.details);
+	}
+
+	const message = error instanceof Error ? error.message : 'Unexpected server error';
+	return buildResponse('unknown', message);
+}
+
+function buildResponse(step: string, message: string, details?: unknown): MappedErrorResponse {
+	return {
+		status: statusForStep(step),
+		body: {
+			error: details === undefined ? { step, message } : { step, message, details },
+		},
+	};
+}
+
+function extractValidationDetails(error: unknown): unknown {
+	if (error && typeof error === 'object' && 'all' in error) {
+		const all = (error as { all: unknown }).all;
+		if (Array.isArray(all)) {
+			return all.map((issue: { path?: unknown; message?: unknown }) => ({
+				path: issue.path,
+				message: issue.message,
+			}));
+		}
+	}
+
+	return undefined;
+}
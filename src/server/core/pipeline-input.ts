@@ -0,0 +1,57 @@
+/**
+ * Server Pipeline Input Builder
+ *
+ * Domain: server/core
+ * Responsibility: Turn generation and regeneration request bodies into pipeline
+ * inputs, layering request options over server-owned pipeline defaults.
+ *
+ * SOR: Shared by synchronous generation, streaming, jobs, and regeneration so all honour the same rules.
+ */
+
+import type { PipelineInput, RegenerateFieldsInput } from '../../pipeline';
+import type { SourceData } from '../../resolution';
+import type { DesignTokens } from '../../tokens';
+import type { GenerateNoteRequest, RegenerateFieldsRequest, ServerDependencies } from '../types';
+import { resolveRequestTemplate } from './template-source';
+
+/**
+ * Build the pipeline input for a generation request.
+ */
+export async function buildPipelineInput(
+	body: GenerateNoteRequest,
+	deps: ServerDependencies
+): Promise<PipelineInput> {
+	const template = await resolveRequestTemplate(body.template, body.templateRef, deps.registry, deps.templateSource);
+
+	return {
+		template,
+		sourceData: body.sourceData as SourceData,
+		tokens: body.tokens as DesignTokens | undefined,
+		options: {
+			...deps.pipelineDefaults,
+			...body.options,
+		},
+	};
+}
+
+/**
+ * Build the regeneration input for a field regeneration request.
+ */
+export async function buildRegenerationInput(
+	body: RegenerateFieldsRequest,
+	deps: ServerDependencies
+): Promise<RegenerateFieldsInput> {
+	const template = await resolveRequestTemplate(body.template, body.templateRef, deps.registry, deps.templateSource);
+
+	return {
+		template,
+		previous: body.previous,
+		targets: body.targets,
+		sourceData: body.sourceData,
+		tokens: body.tokens,
+		options: {
+			...deps.pipelineDefaults,
+			...body.options,
+		},
+	};
+}
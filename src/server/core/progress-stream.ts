@@ -0,0 +1,78 @@
+/**
+ * Server Progress Stream
+ *
+ * Domain: server/core
+ * Responsibility: Run the pipeline while streaming its progress to the client as
+ * Server-Sent Events, finishing with a `result` or `error` frame.
+ *
+ * SOD: Event scrubbing and labels come from pipeline/logging; this module owns
+ * only the HTTP stream lifecycle.
+ */
+
+import {
+	combinePipelineLoggers,
+	createProgressPipelineLogger,
+	formatServerSentEvent,
+	PROGRESS_SSE_EVENT,
+	snapshotPipelineError,
+} from '../../pipeline';
+import type { PipelineInput } from '../../pipeline';
+import { STREAM_EVENTS } from '../constants';
+import type { ServerDependencies } from '../types';
+
+/**
+ * Start a pipeline run and return an SSE response that reports its progress.
+ * Any logger already configured in the input options keeps receiving events.
+ */
+export function streamPipelineProgress(input: PipelineInput, deps: ServerDependencies): Response {
+	const encoder = new TextEncoder();
+	let closed = false;
+
+	const stream = new ReadableStream<Uint8Array>({
+		async start(controller) {
+			let sequence = 0;
+			const send = (event: string, data: unknown) => {
+				if (closed) {
+					return;
+				}
+				sequence += 1;
+				controller.enqueue(encoder.encode(formatServerSentEvent(event, data, sequence)));
+			};
+
+			const progressLogger = createProgressPipelineLogger({
+				scrubPHI: deps.streamScrubPHI,
+				onEvent: (event) => send(PROGRESS_SSE_EVENT, event),
+			});
+
+			try {
+				const output = await deps.runPipeline({
+					...input,
+					options: {
+						...input.options,
+						logger: combinePipelineLoggers(input.options?.logger, progressLogger),
+					},
+				});
+				send(STREAM_EVENTS.result, output);
+			} catch (error) {
+				send(STREAM_EVENTS.error, { error: snapshotPipelineError(error) });
+			}
+
+			if (!closed) {
+				closed = true;
+				controller.close();
+			}
+		},
+		cancel() {
+			// Client disconnected; the run finishes in the background without writing.
+			closed = true;
+		},
+	});
+
+	return new Response(stream, {
+		headers: {
+			'content-type': 'text/event-stream; charset=utf-8',
+			'cache-control': 'no-cache',
+			connection: 'keep-alive',
+		},
+	});
+}
@@ -0,0 +1,149 @@
+/**
+ * Server Request Schemas
+ *
+ * Domain: server/core
+ * Responsibility: Envelope-level body schemas for Elysia request validation.
+ *
+ * Only the request envelope is checked here. Templates are validated by the
+ * validation domain (validateNoteTemplate) so errors keep their pipeline step.
+ */
+
+import { t } from 'elysia';
+
+const looseObject = t.Record(t.String(), t.Unknown());
+
+const templateBody = t.Object({ template: looseObject });
+
+const templateRefBody = t.Object({
+	id: t.String({ minLength: 1 }),
+	version: t.Optional(t.String({ minLength: 1 })),
+});
+
+const pipelineOptionsBody = t.Optional(
+	t.Object({
+		validateSteps: t.Optional(t.Boolean()),
+		provenance: t.Optional(t.Boolean()),
+		generationOptions: t.Optional(
+			t.Object({
+				model: t.Optional(t.String()),
+				temperature: t.Optional(t.Number()),
+				maxTokens: t.Optional(t.Number()),
+				retries: t.Optional(t.Number()),
+			})
+		),
+		guards: t.Optional(looseObject),
+		requestId: t.Optional(t.String()),
+		capturePromptMetadata: t.Optional(t.Boolean()),
+		generationStrategy: t.Optional(
+			t.Union([
+				t.Object({ mode: t.Literal('single') }),
+				t.Object({
+					mode: t.Literal('per-section'),
+					concurrency: t.Optional(t.Integer({ minimum: 1 })),
+				}),
+			])
+		),
+		repair: t.Optional(
+			t.Object({
+				maxRounds: t.Optional(t.Integer({ minimum: 0 })),
+			})
+		),
+		// DOCX is binary and not offered through the JSON API
+		outputFormats: t.Optional(
+			t.Array(t.Union([t.Literal('html'), t.Literal('text'), t.Literal('markdown')]), { minItems: 1 })
+		),
+		textOptions: t.Optional(
+			t.Object({
+				width: t.Optional(t.Integer({ minimum: 0 })),
+			})
+		),
+	})
+);
+
+/** POST /notes/generate (template or templateRef; exclusivity is enforced by the route) */
+export const generateNoteBody = t.Object({
+	template: t.Optional(looseObject),
+	templateRef: t.Optional(templateRefBody),
+	sourceData: looseObject,
+	tokens: t.Optional(looseObject),
+	options: pipelineOptionsBody,
+});
+
+/** POST /notes/regenerate (template or templateRef, plus the prior output) */
+export const regenerateFieldsBody = t.Object({
+	template: t.Optional(looseObject),
+	templateRef: t.Optional(templateRefBody),
+	previous: t.Object({
+		aiOutput: looseObject,
+		nasSnapshot: looseObject,
+		schemas: t.Object({
+			ais: looseObject,
+			nas: t.Optional(looseObject),
+			rps: t.Optional(looseObject),
+		}),
+		template: t.Optional(looseObject),
+	}),
+	targets: t.Array(t.String({ minLength: 1 }), { minItems: 1 }),
+	sourceData: t.Optional(looseObject),
+	tokens: t.Optional(looseObject),
+	options: pipelineOptionsBody,
+});
+
+/** POST /derive/ais, /derive/nas, /derive/rps */
+export const deriveBody = templateBody;
+
+/** POST /templates/validate */
+export const validateTemplateBody = templateBody;
+
+/** POST /render */
+export const renderBody = t.Object({
+	template: looseObject,
+	payload: looseObject,
+	tokens: t.Optional(looseObject),
+	options: t.Optional(
+		t.Object({
+			provenance: t.Optional(t.Boolean()),
+			brandOverrides: t.Optional(
+				t.Object({
+					logoUrl: t.Optional(t.String()),
+					headerHtml: t.Optional(t.String()),
+					footerHtml: t.Optional(t.String()),
+				})
+			),
+			dateFormat: t.Optional(t.String()),
+			lang: t.Optional(t.String()),
+			idPrefix: t.Optional(t.String()),
+		})
+	),
+});
+
+/** POST /templates */
+export const publishTemplateBody = t.Object({
+	template: looseObject,
+	options: t.Optional(
+		t.Object({
+			failOnLintWarnings: t.Optional(t.Boolean()),
+			snippets: t.Optional(t.Array(looseObject)),
+		})
+	),
+});
+
+/** POST /templates/:id/versions/:version/deprecate */
+export const deprecateTemplateBody = t.Optional(
+	t.Object({
+		reason: t.Optional(t.String()),
+	})
+);
+
+/** GET /templates/:id */
+export const resolveTemplateQuery = t.Object({
+	version: t.Optional(t.String({ minLength: 1 })),
+});
+
+/** POST /jobs */
+export const submitJobBody = t.Composite([
+	generateNoteBody,
+	t.Object({
+		callbackUrl: t.Optional(t.String({ minLength: 1 })),
+	}),
+]);
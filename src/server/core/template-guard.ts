@@ -0,0 +1,73 @@
+/**
+ * Server Template Guard
+ *
+ * Domain: server/core
+ * Responsibility: Flatten request templates that use `extends` or `$include`
+ * and validate them against the NoteTemplate schema before they reach
+ * derivation or rendering.
+ */
+
+import type { NoteTemplate } from '../../derivation/types';
+import { flattenTemplate, needsFlattening, TemplateInheritanceError } from '../../inheritance';
+import type { AuthoredTemplate, TemplateSource } from '../../inheritance';
+import { TemplateMigrationError, upgradeOnLoad } from '../../migration';
+import { createPipelineError } from '../../pipeline';
+import { validateNoteTemplate } from '../../validation';
+
+/**
+ * Narrow an untrusted request template, throwing a template-validation PipelineError when invalid.
+ * Authored templates are flattened first; templates on an older schema version come back upgraded.
+ */
+export async function assertValidTemplate(template: unknown, source: TemplateSource): Promise<NoteTemplate> {
+	const flat = await flattenRequestTemplate(template, source);
+	const result = validateNoteTemplate(flat);
+	if (!result.ok) {
+		throw createPipelineError('Template validation failed', 'template-validation', result.errors);
+	}
+
+	return upgradeRequestTemplate(flat as NoteTemplate);
+}
+
+/**
+ * Upgrade a validated request template to the current schema version.
+ *
+ * @throws {PipelineError} template-migration when a migration step fails
+ */
+export function upgradeRequestTemplate(template: NoteTemplate): NoteTemplate {
+	try {
+		return upgradeOnLoad(template);
+	} catch (error) {
+		if (!(error instanceof TemplateMigrationError)) {
+			throw error;
+		}
+		throw createPipelineError(error.message, 'template-migration', error.context);
+	}
+}
+
+/**
+ * Resolve `extends` and `$include` in a request template; anything else passes through untouched.
+ *
+ * @throws {PipelineError} template-validation when a reference cannot be resolved
+ */
+export async function flattenRequestTemplate(template: unknown, source: TemplateSource): Promise<unknown> {
+	if (!isAuthoredTemplate(template) || !needsFlattening(template)) {
+		return template;
+	}
+
+	try {
+		return (await flattenTemplate(template, source)).template;
+	} catch (error) {
+		if (!(error instanceof TemplateInheritanceError)) {
+			throw error;
+		}
+		throw createPipelineError(error.message, 'template-validation', error.context);
+	}
+}
+
+function isAuthoredTemplate(template: unknown): template is AuthoredTemplate {
+	return (
+		typeof template === 'object' &&
+		template !== null &&
+		Array.isArray((template as { layout?: unknown }).layout)
+	);
+}
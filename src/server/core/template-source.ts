@@ -0,0 +1,57 @@
+/**
+ * Server Template Source
+ *
+ * Domain: server/core
+ * Responsibility: Resolve the template for a generation request from either an
+ * inline template or a registry reference.
+ *
+ * SOD: Inline templates are flattened here and validated by runPipeline or
+ * regenerateFields; registry templates were flattened and validated at publish time.
+ */
+
+import type { NoteTemplate } from '../../derivation/types';
+import type { TemplateSource } from '../../inheritance';
+import { createPipelineError } from '../../pipeline';
+import type { TemplateRegistry } from '../../registry';
+import { SERVER_ERROR_STEPS } from '../constants';
+import type { RequestTemplateRef } from '../types';
+import { flattenRequestTemplate } from './template-guard';
+
+/**
+ * Pick the request template, resolving templateRef through the registry when supplied
+ * and flattening inline templates through the template source.
+ */
+export async function resolveRequestTemplate(
+	template: unknown,
+	templateRef: RequestTemplateRef | undefined,
+	registry: TemplateRegistry | undefined,
+	source: TemplateSource
+): Promise<NoteTemplate> {
+	if (template !== undefined && templateRef !== undefined) {
+		throw createPipelineError(
+			'Provide either template or templateRef, not both',
+			SERVER_ERROR_STEPS.requestValidation
+		);
+	}
+
+	if (templateRef) {
+		if (!registry) {
+			throw createPipelineError(
+				'templateRef requires a configured template registry',
+				SERVER_ERROR_STEPS.requestValidation
+			);
+		}
+
+		const record = await registry.resolve(templateRef.id, templateRef.version);
+		return record.template;
+	}
+
+	if (template === undefined) {
+		throw createPipelineError(
+			'Either template or templateRef is required',
+			SERVER_ERROR_STEPS.requestValidation
+		);
+	}
+
+	return (await flattenRequestTemplate(template, source)) as NoteTemplate;
+}
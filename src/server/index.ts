@@ -0,0 +1,49 @@
+/**
+ * Server Domain - Barrel Export
+ *
+ * Domain: server
+ * Responsibility: HTTP service exposing pipeline, derivation, validation, and rendering
+ *
+ * Usage:
+ * ```typescript
+ * import { startServer } from './server';
+ *
+ * const app = startServer({ port: 3000 });
+ * ```
+ */
+
+// Core
+export { createServerApp, startServer } from './core/app';
+export { mapErrorToResponse, statusForStep } from './core/error-mapper';
+
+// Constants
+export {
+	DEFAULT_SERVER_PORT,
+	DEFAULT_ERROR_STATUS,
+	JOB_ERROR_STATUS,
+	PIPELINE_STEP_STATUS,
+	REGISTRY_ERROR_STATUS,
+	SERVER_ERROR_STEPS,
+	STREAM_EVENTS,
+} from './constants';
+
+// Types
+export type {
+	PipelineRunner,
+	ServerConfig,
+	StartServerOptions,
+	ServerDependencies,
+	RequestPipelineOptions,
+	RequestTemplateRef,
+	GenerateNoteRequest,
+	RegenerateFieldsRequest,
+	SubmitJobRequest,
+	DeriveRequest,
+	DeriveAllResponse,
+	TemplateValidationResponse,
+	PublishTemplateResponse,
+	RequestRenderOptions,
+	RenderRequest,
+	ErrorResponseBody,
+	MappedErrorResponse,
+} from './types';
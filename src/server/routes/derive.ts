@@ -0,0 +1,66 @@
+/**
+ * Schema Derivation Routes
+ *
+ * Domain: server/routes
+ * Responsibility: Expose deriveAIS, deriveNAS, and mergeToRPS over HTTP.
+ */
+
+import { Elysia } from 'elysia';
+import { deriveAIS, deriveNAS, mergeToRPS } from '../../derivation';
+import type { DerivedSchema, NoteTemplate } from '../../derivation/types';
+import type { TemplateSource } from '../../inheritance';
+import { createPipelineError } from '../../pipeline';
+import { SERVER_ERROR_STEPS } from '../constants';
+import { deriveBody } from '../core/request-schemas';
+import { assertValidTemplate } from '../core/template-guard';
+import type { DeriveAllResponse } from '../types';
+
+/**
+ * Build the derivation route group; the source resolves `extends` and `$include`.
+ */
+export function createDeriveRoutes(templateSource: TemplateSource) {
+	return new Elysia()
+		.post(
+			'/derive/ais',
+			async ({ body }): Promise<DerivedSchema> => {
+				const template = await assertValidTemplate(body.template, templateSource);
+				return runDerivation(SERVER_ERROR_STEPS.aisDerivation, () => deriveAIS(template));
+			},
+			{ body: deriveBody }
+		)
+		.post(
+			'/derive/nas',
+			async ({ body }): Promise<DerivedSchema> => {
+				const template = await assertValidTemplate(body.template, templateSource);
+				return runDerivation(SERVER_ERROR_STEPS.nasDerivation, () => deriveNAS(template));
+			},
+			{ body: deriveBody }
+		)
+		.post(
+			'/derive/rps',
+			async ({ body }): Promise<DeriveAllResponse> => {
+				const template = await assertValidTemplate(body.template, templateSource);
+				return deriveAll(template);
+			},
+			{ body: deriveBody }
+		);
+}
+
+function deriveAll(template: NoteTemplate): DeriveAllResponse {
+	const ais = runDerivation(SERVER_ERROR_STEPS.aisDerivation, () => deriveAIS(template));
+	const nas = runDerivation(SERVER_ERROR_STEPS.nasDerivation, () => deriveNAS(template));
+	const rps = runDerivation(SERVER_ERROR_STEPS.rpsDerivation, () =>
+		mergeToRPS(ais, nas, template.id, template.name, template.version)
+	);
+
+	return { ais, nas, rps };
+}
+
+function runDerivation(step: string, derive: () => DerivedSchema): DerivedSchema {
+	try {
+		return derive();
+	} catch (error) {
+		const message = error instanceof Error ? error.message : 'Schema derivation failed';
+		throw createPipelineError(message, step, error);
+	}
+}
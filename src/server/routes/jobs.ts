@@ -0,0 +1,41 @@
+/**
+ * Job Routes
+ *
+ * Domain: server/routes
+ * Responsibility: Submit asynchronous generation jobs and poll their state.
+ */
+
+import { Elysia } from 'elysia';
+import type { NoteJob } from '../../jobs';
+import { createPipelineError } from '../../pipeline';
+import { SERVER_ERROR_STEPS } from '../constants';
+import { buildPipelineInput } from '../core/pipeline-input';
+import { submitJobBody } from '../core/request-schemas';
+import type { ServerDependencies, SubmitJobRequest } from '../types';
+
+/**
+ * Build the job route group.
+ */
+export function createJobRoutes(deps: ServerDependencies) {
+	return new Elysia()
+		.post(
+			'/jobs',
+			async ({ body, set }): Promise<NoteJob> => {
+				const { callbackUrl, ...request } = body as SubmitJobRequest;
+				const input = await buildPipelineInput(request, deps);
+				const job = await deps.jobQueue.submit(input, { callbackUrl });
+
+				set.status = 202;
+				set.headers.location = `/jobs/${encodeURIComponent(job.id)}`;
+				return job;
+			},
+			{ body: submitJobBody }
+		)
+		.get('/jobs/:id', async ({ params }): Promise<NoteJob> => {
+			const job = await deps.jobQueue.get(params.id);
+			if (!job) {
+				throw createPipelineError(`Job ${params.id} was not found`, SERVER_ERROR_STEPS.notFound);
+			}
+			return job;
+		});
+}
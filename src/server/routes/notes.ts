@@ -0,0 +1,45 @@
+/**
+ * Note Generation Routes
+ *
+ * Domain: server/routes
+ * Responsibility: Expose runPipeline as POST /notes/generate (and its SSE
+ * variant POST /notes/generate/stream) and regenerateFields as
+ * POST /notes/regenerate, accepting an inline template or a registry templateRef.
+ *
+ * SOD: Template validation, lint, and every later step stay inside the pipeline;
+ * failures surface as PipelineErrors and are mapped by the app error handler.
+ * Once a stream has started, failures arrive as a terminal `error` event instead.
+ */
+
+import { Elysia } from 'elysia';
+import { regenerateFields } from '../../pipeline';
+import type { PipelineOutput, RegenerateFieldsOutput } from '../../pipeline';
+import { buildPipelineInput, buildRegenerationInput } from '../core/pipeline-input';
+import { streamPipelineProgress } from '../core/progress-stream';
+import { generateNoteBody, regenerateFieldsBody } from '../core/request-schemas';
+import type { GenerateNoteRequest, RegenerateFieldsRequest, ServerDependencies } from '../types';
+
+/**
+ * Build the note generation route group.
+ */
+export function createNoteRoutes(deps: ServerDependencies) {
+	return new Elysia()
+		.post(
+			'/notes/generate',
+			async ({ body }): Promise<PipelineOutput> =>
+				deps.runPipeline(await buildPipelineInput(body as GenerateNoteRequest, deps)),
+			{ body: generateNoteBody }
+		)
+		.post(
+			'/notes/generate/stream',
+			async ({ body }): Promise<Response> =>
+				streamPipelineProgress(await buildPipelineInput(body as GenerateNoteRequest, deps), deps),
+			{ body: generateNoteBody }
+		)
+		.post(
+			'/notes/regenerate',
+			async ({ body }): Promise<RegenerateFieldsOutput> =>
+				regenerateFields(await buildRegenerationInput(body as unknown as RegenerateFieldsRequest, deps)),
+			{ body: regenerateFieldsBody }
+		);
+}
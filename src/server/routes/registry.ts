@@ -0,0 +1,69 @@
+/**
+ * Template Registry Routes
+ *
+ * Domain: server/routes
+ * Responsibility: Expose the template publish/resolve/deprecate lifecycle over HTTP.
+ *
+ * SOD: Lifecycle rules live in the registry; TemplateRegistryErrors are mapped
+ * to statuses by the app error handler.
+ */
+
+import { Elysia } from 'elysia';
+import type { AuthoredTemplate } from '../../inheritance';
+import { summarizeTemplateRecord } from '../../registry';
+import type {
+	PublishTemplateOptions,
+	TemplateRecord,
+	TemplateRegistry,
+	TemplateVersionSummary,
+} from '../../registry';
+import {
+	deprecateTemplateBody,
+	publishTemplateBody,
+	resolveTemplateQuery,
+} from '../core/request-schemas';
+import type { PublishTemplateResponse } from '../types';
+
+/**
+ * Build the registry route group for the supplied registry.
+ */
+export function createRegistryRoutes(registry: TemplateRegistry) {
+	return new Elysia()
+		.post(
+			'/templates',
+			async ({ body, set }): Promise<PublishTemplateResponse> => {
+				const record = await registry.publish(
+					body.template as unknown as AuthoredTemplate,
+					body.options as PublishTemplateOptions | undefined
+				);
+				set.status = 201;
+				return {
+					template: summarizeTemplateRecord(record),
+					lintWarnings: record.lintWarnings ?? [],
+				};
+			},
+			{ body: publishTemplateBody }
+		)
+		.get('/templates', async (): Promise<{ templates: string[] }> => ({
+			templates: await registry.listTemplates(),
+		}))
+		.get(
+			'/templates/:id/versions',
+			async ({ params }): Promise<{ versions: TemplateVersionSummary[] }> => ({
+				versions: (await registry.listVersions(params.id)).map(summarizeTemplateRecord),
+			})
+		)
+		.get(
+			'/templates/:id',
+			({ params, query }): Promise<TemplateRecord> => registry.resolve(params.id, query.version),
+			{ query: resolveTemplateQuery }
+		)
+		.post(
+			'/templates/:id/versions/:version/deprecate',
+			async ({ params, body }): Promise<TemplateVersionSummary> =>
+				summarizeTemplateRecord(
+					await registry.deprecate(params.id, params.version, body?.reason)
+				),
+			{ body: deprecateTemplateBody }
+		);
+}
@@ -0,0 +1,55 @@
+/**
+ * Render Routes
+ *
+ * Domain: server/routes
+ * Responsibility: Render HTML from a caller-supplied payload without running generation.
+ */
+
+import { Elysia } from 'elysia';
+import { renderNoteHTML } from '../../factory';
+import type { TemplateSource } from '../../inheritance';
+import { createPipelineError, resolveDesignTokens } from '../../pipeline';
+import { compileCSS } from '../../tokens';
+import type { DesignTokens } from '../../tokens';
+import type { RenderPayload } from '../../types/payloads';
+import { SERVER_ERROR_STEPS } from '../constants';
+import { renderBody } from '../core/request-schemas';
+import { assertValidTemplate } from '../core/template-guard';
+import type { RequestRenderOptions } from '../types';
+
+/**
+ * Build the render route group.
+ */
+export function createRenderRoutes(templateSource: TemplateSource) {
+	return new Elysia().post(
+		'/render',
+		async ({ body, set }): Promise<string> => {
+			const template = await assertValidTemplate(body.template, templateSource);
+			const { tokens } = resolveDesignTokens(template, body.tokens as DesignTokens | undefined);
+			const renderOptions = body.options as RequestRenderOptions | undefined;
+
+			let html: string;
+			try {
+				const css = compileCSS(tokens);
+				html = renderNoteHTML({
+					template,
+					payload: body.payload as RenderPayload,
+					tokens,
+					options: {
+						...renderOptions,
+						styles: {
+							inlineScreen: css.screen,
+							inlinePrint: css.print,
+						},
+					},
+				});
+			} catch (error) {
+				throw createPipelineError('Rendering failed', SERVER_ERROR_STEPS.render, error);
+			}
+
+			set.headers['content-type'] = 'text/html; charset=utf-8';
+			return html;
+		},
+		{ body: renderBody }
+	);
+}
@@ -0,0 +1,50 @@
+/**
+ * Template Validation Routes
+ *
+ * Domain: server/routes
+ * Responsibility: Report schema validation and lint findings for a template.
+ *
+ * Validation findings are the response itself, so this route answers 200
+ * even when the template is invalid; callers inspect `ok`. Templates using
+ * `extends` or `$include` are flattened first; unresolvable references are
+ * a template-validation error (422) rather than a finding.
+ */
+
+import { Elysia } from 'elysia';
+import type { NoteTemplate } from '../../derivation/types';
+import type { TemplateSource } from '../../inheritance';
+import { lintNoteTemplate, validateNoteTemplate } from '../../validation';
+import { validateTemplateBody } from '../core/request-schemas';
+import { flattenRequestTemplate, upgradeRequestTemplate } from '../core/template-guard';
+import type { TemplateValidationResponse } from '../types';
+
+/**
+ * Build the template validation route group; the source resolves `extends` and `$include`.
+ */
+export function createTemplateRoutes(templateSource: TemplateSource) {
+	return new Elysia().post(
+		'/templates/validate',
+		async ({ body }): Promise<TemplateValidationResponse> => {
+			const template = await flattenRequestTemplate(body.template, templateSource);
+			const validation = validateNoteTemplate(template);
+
+			// The linter assumes a structurally valid template, so only run it after schema validation passes.
+			if (!validation.ok) {
+				return {
+					ok: false,
+					errors: validation.errors,
+					lint: { errors: [], warnings: [] },
+				};
+			}
+
+			const lint = lintNoteTemplate(upgradeRequestTemplate(template as NoteTemplate));
+
+			return {
+				ok: lint.errors.length === 0,
+				errors: [],
+				lint: { errors: lint.errors, warnings: lint.warnings },
+			};
+		},
+		{ body: validateTemplateBody }
+	);
+}
@@ -0,0 +1,213 @@
+/**
+ * Server Domain Types
+ *
+ * Types for the HTTP service that exposes the pipeline, derivation,
+ * validation, and rendering domains.
+ */
+
+import type { DerivedSchema, NoteTemplate } from '../derivation/types';
+import type { RenderOptions } from '../factory';
+import type { TemplateSource } from '../inheritance';
+import type { NoteJobQueue } from '../jobs';
+import type { PipelineInput, PipelineOptions, PipelineOutput, RegenerationBase } from '../pipeline';
+import type { TemplateRegistry, TemplateVersionSelector, TemplateVersionSummary } from '../registry';
+import type { SourceData } from '../resolution';
+import type { DesignTokens } from '../tokens';
+import type { RenderPayload } from '../types/payloads';
+import type { TemplateLintIssue, ValidationIssue } from '../validation';
+
+/**
+ * Pipeline runner signature used by the server (swappable for tests or alternate orchestration)
+ */
+export type PipelineRunner = (input: PipelineInput) => Promise<PipelineOutput>;
+
+/**
+ * Configuration for building the HTTP application
+ */
+export interface ServerConfig {
+	/**
+	 * Pipeline options applied beneath every request's options.
+	 * Use this for server-owned settings such as provider, openaiClient, logger, or guards.
+	 */
+	pipelineDefaults?: PipelineOptions;
+
+	/** Pipeline runner override (defaults to runPipeline) */
+	runPipeline?: PipelineRunner;
+
+	/** Template registry; enables /templates lifecycle routes and templateRef on generation */
+	registry?: TemplateRegistry;
+
+	/**
+	 * Resolves `extends` and `$include` in inline request templates
+	 * (default: the registry's published versions when configured, no snippets)
+	 */
+	templateSource?: TemplateSource;
+
+	/** Job queue for /jobs (default: in-process queue without callbacks) */
+	jobQueue?: NoteJobQueue;
+
+	/**
+	 * Strip patient data from streamed progress events (default: true).
+	 * Only disable for trusted internal consumers.
+	 */
+	streamScrubPHI?: boolean;
+}
+
+/**
+ * Options for starting a listening server
+ */
+export interface StartServerOptions extends ServerConfig {
+	/** Port to bind (default: DEFAULT_SERVER_PORT) */
+	port?: number;
+
+	/** Hostname to bind (default: Bun's default) */
+	hostname?: string;
+}
+
+/**
+ * Resolved dependencies shared by all route groups
+ */
+export interface ServerDependencies {
+	runPipeline: PipelineRunner;
+	pipelineDefaults: PipelineOptions;
+	registry?: TemplateRegistry;
+	templateSource: TemplateSource;
+	jobQueue: NoteJobQueue;
+	streamScrubPHI: boolean;
+}
+
+/**
+ * Pipeline options a client may set per request.
+ * Server-owned settings (provider, client, key, logger, mock provider) are deliberately excluded.
+ */
+export type RequestPipelineOptions = Pick<
+	PipelineOptions,
+	| 'validateSteps'
+	| 'provenance'
+	| 'generationOptions'
+	| 'guards'
+	| 'requestId'
+	| 'capturePromptMetadata'
+	| 'generationStrategy'
+	| 'repair'
+	| 'outputFormats'
+	| 'textOptions'
+>;
+
+/**
+ * Reference to a registry template version
+ */
+export interface RequestTemplateRef {
+	id: string;
+
+	/** Version selector (default: 'latest') */
+	version?: TemplateVersionSelector;
+}
+
+/**
+ * POST /notes/generate request body (exactly one of template or templateRef)
+ */
+export interface GenerateNoteRequest {
+	template?: NoteTemplate;
+	templateRef?: RequestTemplateRef;
+	sourceData: SourceData;
+	tokens?: DesignTokens;
+	options?: RequestPipelineOptions;
+}
+
+/**
+ * POST /notes/regenerate request body (exactly one of template or templateRef)
+ */
+export interface RegenerateFieldsRequest {
+	template?: NoteTemplate;
+	templateRef?: RequestTemplateRef;
+	previous: RegenerationBase;
+	targets: string[];
+	sourceData?: SourceData;
+	tokens?: DesignTokens;
+	options?: RequestPipelineOptions;
+}
+
+/**
+ * POST /jobs request body
+ */
+export interface SubmitJobRequest extends GenerateNoteRequest {
+	/** https URL that receives a signed POST with the job id and status when the job finishes */
+	callbackUrl?: string;
+}
+
+/**
+ * POST /derive/* request body
+ */
+export interface DeriveRequest {
+	template: NoteTemplate;
+}
+
+/**
+ * POST /derive/rps response body
+ */
+export interface DeriveAllResponse {
+	ais: DerivedSchema;
+	nas: DerivedSchema;
+	rps: DerivedSchema;
+}
+
+/**
+ * POST /templates/validate response body
+ */
+export interface TemplateValidationResponse {
+	/** True when the template is schema-valid and has no blocking lint errors */
+	ok: boolean;
+
+	/** JSON Schema validation errors */
+	errors: ValidationIssue[];
+
+	/** Lint findings (only populated when the template is schema-valid) */
+	lint: {
+		errors: TemplateLintIssue[];
+		warnings: TemplateLintIssue[];
+	};
+}
+
+/**
+ * POST /templates response body
+ */
+export interface PublishTemplateResponse {
+	template: TemplateVersionSummary;
+	lintWarnings: TemplateLintIssue[];
+}
+
+/**
+ * Render options a client may set per request (stylesheets are always compiled server-side)
+ */
+export type RequestRenderOptions = Omit<RenderOptions, 'styles'>;
+
+/**
+ * POST /render request body
+ */
+export interface RenderRequest {
+	template: NoteTemplate;
+	payload: RenderPayload;
+	tokens?: DesignTokens;
+	options?: RequestRenderOptions;
+}
+
+/**
+ * Structured error body returned for every failed request
+ */
+export interface ErrorResponseBody {
+	error: {
+		/** Pipeline step (or request phase) that failed */
+		step: string;
+		message: string;
+		details?: unknown;
+	};
+}
+
+/**
+ * HTTP status + body pair produced by the error mapper
+ */
+export interface MappedErrorResponse {
+	status: number;
+	body: ErrorResponseBody;
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import OpenAI from 'openai';
+import type { NoteTemplate } from '../../derivation/types';
+import { createOpenAIStubServer, type OpenAIStubServer } from '../../integration';
+import { runPipeline, type PipelineAIDiagnosticEvent } from '../../pipeline';
+import type { SourceData } from '../../resolution';
+
+const template: NoteTemplate = {
+  id: 'tmpl-stub-server',
+  name: 'Stub Server Template',
+  version: '1.0.0',
+  style: { font: 'Inter', color: '#111111', accent: '#3366FF', spacing: 8 },
+  prompt: {
+    system: 'You are a diligent clinical assistant.',
+    main: 'Summarize the assessment section.',
+  },
+  layout: [
+    {
+      id: 'assessment-section',
+      type: 'section',
+      content: [
+        { id: 'patient-name', slot: 'lookup', targetPath: 'patient.name', lookup: 'patient.name' },
+        {
+          id: 'assessment-summary',
+          slot: 'ai',
+          outputPath: 'assessment.summary',
+          aiDeps: ['patient.name'],
+          constraints: { minSentences: 2 },
+        },
+        {
+          id: 'assessment-risk',
+          slot: 'ai',
+          outputPath: 'assessment.risk',
+          aiDeps: ['patient.name'],
+          constraints: { enum: ['low', 'moderate', 'high'] },
+        },
+      ],
+    },
+  ],
+};
+
+const sourceData: SourceData = { patient: { name: 'Jane Doe' } };
+
+let stub: OpenAIStubServer | undefined;
+
+afterEach(async () => {
+  await stub?.stop();
+  stub = undefined;
+});
+
+describe('Pipeline integration (OpenAI stub server)', () => {
+  it('recovers from a rate limit and an empty output over HTTP', async () => {
+    stub = createOpenAIStubServer({ steps: [{ status: 429, retryAfter: 0 }, { text: '' }] });
+    const openaiClient = new OpenAI({ baseURL: stub.baseURL, apiKey: 'stub-key', maxRetries: 0 });
+    const diagnostics: PipelineAIDiagnosticEvent[] = [];
+
+    const result = await runPipeline({
+      template,
+      sourceData,
+      options: { openaiClient, logger: { onAIDiagnostic: (event) => diagnostics.push(event) } },
+    });
+
+    expect(stub.requests).toHaveLength(3);
+    expect(diagnostics.map((event) => [event.code, event.attempt])).toEqual([['missing-output', 1]]);
+    const assessment = result.aiOutput.assessment as { summary: string; risk: string };
+    expect(['low', 'moderate', 'high']).toContain(assessment.risk);
+    expect(result.html).toContain('Jane Doe');
+    expect(result.html).toContain(assessment.summary);
+  });
+
+  it('fails the ai-generation step when the model refuses', async () => {
+    stub = createOpenAIStubServer({ steps: [{ refusal: 'I cannot help with that.' }] });
+    const openaiClient = new OpenAI({ baseURL: stub.baseURL, apiKey: 'stub-key', maxRetries: 0 });
+
+    await expect(runPipeline({ template, sourceData, options: { openaiClient } })).rejects.toMatchObject({
+      step: 'ai-generation',
+    });
+  });
+});
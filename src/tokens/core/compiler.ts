@@ -5,9 +5,24 @@
  * Responsibility: Transform design tokens into screen and print CSS stylesheets
  */
 
-import type { DesignTokens, CompiledCSS } from '../types.js';
+import type { DesignTokens, CompiledCSS, PageBreakComponentType, PageBreakLayout, RunningContent } from '../types.js';
 import { SCREEN_CSS_TEMPLATE, PRINT_CSS_TEMPLATE } from './templates.js';
 import { hashTokens } from './hasher.js';
+import { collectRunningPaths, parseRunningTemplate, runningStringName } from './running.js';
+
+/** Rendered wrapper class for each component type pagination tokens can target */
+const PAGE_BREAK_SELECTORS: Record<PageBreakComponentType, string> = {
+  header: '.note-header',
+  patientBlock: '.note-header-card',
+  paragraph: '.note-section--paragraph',
+  list: '.note-section--list',
+  table: '.note-section--table',
+  alertPanel: '.note-section--alert',
+  signatureBlock: '.note-signature',
+  footer: '.note-section--footer',
+};
+
+const MARGIN_BOX_SLOTS = ['left', 'center', 'right'] as const;
 
 /**
  * Replace {{path}} placeholders with token values
@@ -94,6 +109,127 @@ function getPrintFooterCSS(showFooter?: boolean): string {
   return 'footer, .print-footer { display: none !important; }';
 }
 
+/**
+ * Convert a running-content template to a CSS `content` value
+ */
+function getRunningContentValue(template: string): string {
+  return parseRunningTemplate(template)
+    .map(part => {
+      if (part.kind === 'counter') return `counter(${part.counter})`;
+      if (part.kind === 'path') return `string(${runningStringName(part.path)})`;
+      return cssString(part.text);
+    })
+    .join(' ');
+}
+
+/**
+ * Generate @page margin boxes for one page edge
+ *
+ * With `clearUnset`, slots without text are emptied so a first-page variant
+ * fully replaces the default edge.
+ */
+function getMarginBoxes(edge: 'top' | 'bottom', content: RunningContent | undefined, style: string, clearUnset: boolean): string[] {
+  if (!content) return [];
+
+  return MARGIN_BOX_SLOTS.flatMap(slot => {
+    const template = content[slot];
+    if (template) {
+      return [`@${edge}-${slot} { content: ${getRunningContentValue(template)}; ${style} }`];
+    }
+    return clearUnset ? [`@${edge}-${slot} { content: none; }`] : [];
+  });
+}
+
+/**
+ * Font and color shared by all margin boxes (page context does not inherit from the note)
+ */
+function getMarginBoxStyle(tokens: DesignTokens): string {
+  const color = tokens.print.monochrome ? '#000' : tokens.color.muted;
+  const size = Math.round(tokens.typography.baseSizePx * 0.8);
+  return `font-family: ${tokens.typography.fontFamily}; font-size: ${size}px; color: ${color};`;
+}
+
+/**
+ * Generate running header/footer margin boxes for the default page
+ */
+function getPrintMarginBoxesCSS(tokens: DesignTokens): string {
+  const { print } = tokens;
+  const style = getMarginBoxStyle(tokens);
+  return [
+    ...(print.showHeader !== false ? getMarginBoxes('top', print.runningHeader, style, false) : []),
+    ...(print.showFooter !== false ? getMarginBoxes('bottom', print.runningFooter, style, false) : []),
+  ].join('\n  ');
+}
+
+/**
+ * Generate the @page :first rule (margin and running content overrides)
+ */
+function getPrintFirstPageCSS(tokens: DesignTokens): string {
+  const { firstPage } = tokens.print;
+  if (!firstPage) return '';
+
+  const style = getMarginBoxStyle(tokens);
+  const declarations = [
+    ...(firstPage.margin ? [`margin: ${firstPage.margin};`] : []),
+    ...(tokens.print.showHeader !== false ? getMarginBoxes('top', firstPage.runningHeader, style, true) : []),
+    ...(tokens.print.showFooter !== false ? getMarginBoxes('bottom', firstPage.runningFooter, style, true) : []),
+  ];
+  if (declarations.length === 0) return '';
+
+  return `@page :first {\n  ${declarations.join('\n  ')}\n}`;
+}
+
+/**
+ * Generate string-set rules that copy payload values into named strings
+ */
+function getRunningStringsCSS(tokens: DesignTokens): string {
+  return collectRunningPaths(tokens)
+    .map(path => {
+      const name = runningStringName(path);
+      return `.note-running [data-running-string="${name}"] { string-set: ${name} content(text); }`;
+    })
+    .join('\n  ');
+}
+
+/**
+ * Generate table header repetition CSS (headers repeat on each printed page unless disabled)
+ */
+function getTableHeaderCSS(repeatTableHeaders?: boolean): string {
+  if (repeatTableHeaders === false) {
+    return '.note thead { display: table-row-group; }';
+  }
+  return '.note thead { display: table-header-group; } .note tr { break-inside: avoid; page-break-inside: avoid; }';
+}
+
+/**
+ * Generate default page-break CSS from layout tokens
+ */
+function getPageBreakCSS(pageBreaks?: PageBreakLayout): string {
+  const rules: string[] = [];
+
+  const selectors = (pageBreaks?.keepTogether ?? ['table'])
+    .map(type => PAGE_BREAK_SELECTORS[type])
+    .filter(Boolean)
+    .map(selector => `.note ${selector}`);
+  if (selectors.length > 0) {
+    rules.push(`${selectors.join(', ')} { break-inside: avoid; page-break-inside: avoid; }`);
+  }
+
+  if (pageBreaks?.breakBeforeSections) {
+    rules.push('.note .note-section--top ~ .note-section--top { break-before: page; page-break-before: always; }');
+  }
+
+  return rules.join('\n  ');
+}
+
+/**
+ * Quote text as a CSS string literal
+ */
+function cssString(text: string): string {
+  const escaped = text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\A ');
+  return `"${escaped}"`;
+}
+
 function isObjectLike(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null;
 }
@@ -150,6 +286,11 @@ export function compilePrintCSS(tokens: DesignTokens, hash: string): string {
 
   // Handle computed values
   css = css.replace('{{print.textColor}}', getPrintTextColor(tokens.print.monochrome));
+  css = css.replace('{{print.marginBoxesCSS}}', getPrintMarginBoxesCSS(tokens));
+  css = css.replace('{{print.firstPageCSS}}', getPrintFirstPageCSS(tokens));
+  css = css.replace('{{print.runningStringsCSS}}', getRunningStringsCSS(tokens));
+  css = css.replace('{{print.tableHeaderCSS}}', getTableHeaderCSS(tokens.print.repeatTableHeaders));
+  css = css.replace('{{print.pageBreakCSS}}', getPageBreakCSS(tokens.layout?.pageBreaks));
   css = css.replace('{{print.headerCSS}}', getPrintHeaderCSS(tokens.print.showHeader));
   css = css.replace('{{print.footerCSS}}', getPrintFooterCSS(tokens.print.showFooter));
 
@@ -0,0 +1,85 @@
+/**
+ * Design Tokens - Running Content
+ *
+ * Domain: tokens/core
+ * Responsibility: Parse running header/footer templates shared by the print
+ * CSS compiler and the HTML factory.
+ *
+ * SOR: Payload values reach the page margin boxes through CSS named strings;
+ * the factory emits one hidden element per path and the compiler sets and
+ * reads the string with the same name.
+ */
+
+import type { DesignTokens, RunningContent, RunningPart } from '../types.js';
+
+const PLACEHOLDER = /\{\{([^}]+)\}\}/g;
+
+/**
+ * Split a running-content template into text, page counters, and payload paths
+ *
+ * @param template - Text such as "Page {{page}} of {{pages}}"
+ * @returns Parts in template order
+ */
+export function parseRunningTemplate(template: string): RunningPart[] {
+  const parts: RunningPart[] = [];
+  let cursor = 0;
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const index = match.index ?? 0;
+    if (index > cursor) {
+      parts.push({ kind: 'text', text: template.slice(cursor, index) });
+    }
+
+    const path = match[1].trim();
+    parts.push(path === 'page' || path === 'pages' ? { kind: 'counter', counter: path } : { kind: 'path', path });
+    cursor = index + match[0].length;
+  }
+
+  if (cursor < template.length) {
+    parts.push({ kind: 'text', text: template.slice(cursor) });
+  }
+
+  return parts;
+}
+
+/**
+ * CSS named-string identifier for a payload path
+ *
+ * @param path - Payload path (e.g., "header.patient.name")
+ * @returns Identifier such as "note-header-patient-name"
+ */
+export function runningStringName(path: string): string {
+  return `note-${path.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+}
+
+/**
+ * Payload paths referenced by the running header/footer that will be printed
+ *
+ * Honors `print.showHeader`/`print.showFooter` and includes the first-page variant.
+ *
+ * @param tokens - Design tokens
+ * @returns Unique paths in first-use order
+ */
+export function collectRunningPaths(tokens: DesignTokens): string[] {
+  const { print } = tokens;
+  const edges: (RunningContent | undefined)[] = [];
+
+  if (print.showHeader !== false) {
+    edges.push(print.runningHeader, print.firstPage?.runningHeader);
+  }
+  if (print.showFooter !== false) {
+    edges.push(print.runningFooter, print.firstPage?.runningFooter);
+  }
+
+  const paths = new Set<string>();
+  for (const edge of edges) {
+    for (const template of [edge?.left, edge?.center, edge?.right]) {
+      if (!template) continue;
+      for (const part of parseRunningTemplate(template)) {
+        if (part.kind === 'path') paths.add(part.path);
+      }
+    }
+  }
+
+  return [...paths];
+}
@@ -110,6 +110,11 @@ body.note-body {
   text-align: center;
 }
 
+/* Running header/footer values; only read by print margin boxes */
+.note-running {
+  display: none;
+}
+
 .note-header {
   margin: 0 calc(var(--note-container-padding) * -1);
   padding: var(--note-header-padding-y) var(--note-container-padding);
@@ -356,15 +361,26 @@ body.note-body {
 `.trim();
 
 export const PRINT_CSS_TEMPLATE = `
-@page { size: {{print.pageSize}}; margin: {{print.margin}}; }
+@page {
+  size: {{print.pageSize}};
+  margin: {{print.margin}};
+  {{print.marginBoxesCSS}}
+}
+{{print.firstPageCSS}}
 
 @media print {
   body.note-body { padding: 0; }
   .note { color: {{print.textColor}}; }
   .note a { color: inherit; text-decoration: none; }
-  .note table { page-break-inside: avoid; }
   .note h1, .note h2, .note h3 { break-after: avoid; }
   .note p { orphans: 2; widows: 2; }
+  .note-running { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); }
+  {{print.runningStringsCSS}}
+  {{print.tableHeaderCSS}}
+  {{print.pageBreakCSS}}
+  .note .note-keep-together { break-inside: avoid; page-break-inside: avoid; }
+  .note .note-allow-break { break-inside: auto; page-break-inside: auto; }
+  .note .note-break-before { break-before: page; page-break-before: always; }
   {{print.headerCSS}}
   {{print.footerCSS}}
 }
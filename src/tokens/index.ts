@@ -14,11 +14,17 @@ export type {
   TableStyle,
   ListStyle,
   Layout,
+  PageBreakLayout,
+  PageBreakComponentType,
   PrintOptions,
+  RunningContent,
+  FirstPageOptions,
+  RunningPart,
   BrandAssets,
   SurfacePalette,
 } from './types.js';
 
 export { compileCSS, compileScreenCSS, compilePrintCSS } from './core/compiler.js';
 export { hashTokens } from './core/hasher.js';
+export { parseRunningTemplate, runningStringName, collectRunningPaths } from './core/running.js';
 export { SCREEN_CSS_TEMPLATE, PRINT_CSS_TEMPLATE } from './core/templates.js';
@@ -61,15 +61,62 @@ export interface Layout {
   headerGapPx?: number;
   headerPaddingY?: number;
   sectionBanner?: SectionBannerLayout;
+  pageBreaks?: PageBreakLayout;
 }
 
-/** Print-specific overrides for page size and monochrome rendering. */
+/** Default pagination rules; component `props.keepTogether`/`props.breakBefore` override per node. */
+export interface PageBreakLayout {
+  keepTogether?: PageBreakComponentType[];
+  breakBeforeSections?: boolean;
+}
+
+/** Component types whose print pagination can be controlled from tokens. */
+export type PageBreakComponentType =
+  | 'header'
+  | 'patientBlock'
+  | 'paragraph'
+  | 'list'
+  | 'table'
+  | 'alertPanel'
+  | 'signatureBlock'
+  | 'footer';
+
+/** Print-specific overrides for page size, paged-media boxes, and monochrome rendering. */
 export interface PrintOptions {
   pageSize?: 'Letter' | 'A4';
   margin?: string;
   showHeader?: boolean;
   showFooter?: boolean;
   monochrome?: boolean;
+  repeatTableHeaders?: boolean;
+  runningHeader?: RunningContent;
+  runningFooter?: RunningContent;
+  firstPage?: FirstPageOptions;
+}
+
+/**
+ * Text for the page margin boxes along one edge.
+ *
+ * `{{page}}` and `{{pages}}` become page counters; any other `{{path}}` is read
+ * from the render payload (e.g. `{{header.patient.name}}`).
+ */
+export interface RunningContent {
+  left?: string;
+  center?: string;
+  right?: string;
+}
+
+/** Parsed piece of a running-content template. */
+export type RunningPart =
+  | { kind: 'text'; text: string }
+  | { kind: 'counter'; counter: 'page' | 'pages' }
+  | { kind: 'path'; path: string };
+
+/** First-page variant; a running edge given here replaces the default one entirely. */
+export interface FirstPageOptions {
+  margin?: string;
+  runningHeader?: RunningContent;
+  runningFooter?: RunningContent;
 }
 
 /** Optional brand assets (logo/header/footer HTML) injected into output. */
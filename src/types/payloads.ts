@@ -1,9 +1,12 @@
 /**
  * Shared payload aliases used across domains. These represent runtime data that
  * is validated against JSON Schemas (AIS, NAS, RPS) and therefore has
- * free-form structure at compile time.
+ * free-form structure at compile time, unless a template carries its generated
+ * payload types (TypedNoteTemplate).
  */
 
+import type { NoteTemplate } from '../derivation/types';
+
 /** AI Structured Output payload returned by the model. */
 export type AIPayload = Record<string, unknown>;
 
@@ -15,3 +18,34 @@ export type RenderPayload = Record<string, unknown>;
 
 /** Optional fact pack bundle used to augment prompt context. */
 export type FactPack = Record<string, unknown>;
+
+/**
+ * Payload types of one template. The defaults describe any template; per-template
+ * interfaces are generated with `bun run codegen:types` (see src/codegen).
+ */
+export interface TemplatePayloads<
+  TAis extends object = AIPayload,
+  TNas extends object = NasSnapshot,
+  TRps extends object = RenderPayload,
+> {
+  ais: TAis;
+  nas: TNas;
+  rps: TRps;
+}
+
+declare const payloadTypes: unique symbol;
+
+/**
+ * Template tagged with its generated payload types. The tag exists only at
+ * compile time, so any NoteTemplate (e.g. parsed JSON) can be cast to it.
+ */
+export type TypedNoteTemplate<TPayloads extends TemplatePayloads<object, object, object>> = NoteTemplate & {
+  readonly [payloadTypes]?: TPayloads;
+};
+
+/** Payload types carried by a template; untyped payloads for plain templates. */
+export type PayloadsOf<TTemplate> = TTemplate extends { readonly [payloadTypes]?: infer TPayloads }
+  ? TPayloads extends TemplatePayloads<object, object, object>
+    ? TPayloads
+    : TemplatePayloads
+  : TemplatePayloads;
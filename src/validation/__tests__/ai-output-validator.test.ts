@@ -4,6 +4,7 @@ import {
   createAIOutputValidator,
   getAIOutputValidator,
 } from '../validators/ai-output-validator';
+import { resolveIssuePath } from '../utils/error-classifier';
 import type { DerivedSchema } from '../../derivation/types';
 
 const schema: DerivedSchema = {
@@ -88,3 +89,28 @@ describe('createAIOutputValidator', () => {
     expect(validatorA).not.toBe(validatorB);
   });
 });
+
+describe('resolveIssuePath', () => {
+  it('renders instance paths in dot notation with array indices', () => {
+    const validator = createAIOutputValidator({
+      ...schema,
+      $id: `${schema.$id}#paths`,
+      properties: {
+        goals: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            properties: { text: { type: 'string', enum: ['walk'] } },
+            required: ['text'],
+          },
+        },
+      },
+      required: ['goals'],
+    });
+
+    const result = validator({ goals: [{ text: 'walk' }, { text: 'run' }, {}] });
+
+    expect(result.errors.map(resolveIssuePath).sort()).toEqual(['goals[1].text', 'goals[2].text']);
+  });
+});
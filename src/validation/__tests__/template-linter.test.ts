@@ -189,6 +189,89 @@ describe('lintNoteTemplate', () => {
     const result = lintNoteTemplate(template);
     expect(result.errors.some(issue => issue.code === 'form.field.prefill.unknown')).toBe(true);
   });
+
+  it('statically checks computed formulas', () => {
+    const template = buildTemplate([
+      { slot: 'computed', id: 'typed', formula: "upper(3) + ' ' + Math.PI", targetPath: 'header.typed' },
+      { slot: 'computed', id: 'unknown', formula: 'toFixed(score, 2)', targetPath: 'header.unknown' },
+      { slot: 'computed', id: 'valid', formula: "round(score / 3, 1) + ' pts'", targetPath: 'header.valid' },
+    ]);
+
+    const result = lintNoteTemplate(template);
+    const codes = result.errors.map(issue => `${issue.slotId}:${issue.code}`);
+    expect(codes).toContain('typed:formula.type');
+    expect(codes).toContain('typed:formula.identifier.unknown');
+    expect(codes).toContain('unknown:formula.function.unknown');
+    expect(codes.some(code => code.startsWith('valid:'))).toBe(false);
+  });
+
+  it('statically checks lookup pipelines and fallback chains', () => {
+    const template = buildTemplate([
+      { slot: 'lookup', id: 'unknown-pipe', lookup: 'diagnoses[].code | uniq', targetPath: 'dx.codes' },
+      { slot: 'lookup', id: 'bad-arg', lookup: ['visit.notes | truncate(-1)', 'visit.summary'], targetPath: 'dx.notes' },
+      { slot: 'lookup', id: 'bad-filter', lookup: 'meds[] | filter(active = true)', targetPath: 'dx.meds' },
+      { slot: 'lookup', id: 'bad-path', lookup: 'visit..date', targetPath: 'dx.date' },
+      { slot: 'lookup', id: 'nesting', lookup: 'goals[].objectives[].text | unique', targetPath: 'plan.goals[].objectives[].text' },
+      {
+        slot: 'lookup',
+        id: 'valid',
+        lookup: ["visit.clinician", "meds[] | filter(status == 'active') | sort(name) | map(name) | join('; ')"],
+        default: 'Unknown',
+        targetPath: 'dx.valid',
+      },
+    ]);
+
+    const result = lintNoteTemplate(template);
+    const codes = result.errors.map(issue => `${issue.slotId}:${issue.code}`);
+    expect(codes).toContain('unknown-pipe:lookup.transform.unknown');
+    expect(codes).toContain('bad-arg:lookup.transform.argument');
+    expect(codes).toContain('bad-filter:lookup.transform.argument');
+    expect(codes).toContain('bad-path:lookup.syntax');
+    expect(codes).toContain('nesting:lookup.wildcard');
+    expect(codes.some(code => code.startsWith('valid:'))).toBe(false);
+  });
+
+  it('validates showIf formulas and the payload paths they read', () => {
+    const template: NoteTemplate = {
+      id: 'tmpl-show-if',
+      name: 'ShowIf Template',
+      version: '1.0.0',
+      layout: [
+        {
+          id: 'screening',
+          type: 'section',
+          content: [
+            { slot: 'lookup', id: 'audit', targetPath: 'screening.auditC', lookup: 'intake.auditC' },
+            { slot: 'lookup', id: 'flags', targetPath: 'risk.flags[]', lookup: 'intake.flags' },
+          ],
+        },
+        {
+          id: 'substance',
+          type: 'section',
+          showIf: 'screening.auditC >= 4 && risk.flags.length > 0',
+          content: [
+            { slot: 'static', id: 'note', text: 'See plan.', showIf: 'screening.auditScore > 2' },
+            { slot: 'static', id: 'broken', text: 'x', showIf: 'screening.auditC >=' },
+            {
+              slot: 'ai',
+              id: 'items',
+              outputPath: 'substance.items[]',
+              aiDeps: ['screening.auditC'],
+              listItems: [
+                { slot: 'ai', id: 'item', outputPath: 'substance.items[]', showIf: 'screening.auditC' },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    const codes = lintNoteTemplate(template).errors.map(issue => `${issue.slotId}:${issue.code}`);
+    expect(codes).toContain('note:showIf.path.unknown');
+    expect(codes).toContain('broken:showIf.syntax');
+    expect(codes).toContain('item:showIf.nested');
+    expect(codes.some(code => code.startsWith('substance:'))).toBe(false);
+  });
 });
 
 function createCollection(id: string) {
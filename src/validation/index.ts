@@ -25,7 +25,9 @@ export { validateNAS } from './validators/nas-validator';
 export { validatePromptBundle } from './validators/prompt-validator';
 export { validateRPS } from './validators/rps-validator';
 export { validateDesignTokens } from './validators/tokens-validator';
+export { validateFhirNoteExport } from './validators/fhir-export-validator';
 export { lintNoteTemplate } from './lint';
+export { partitionValidationMessages, resolveIssuePath } from './utils/error-classifier';
 
 // Types
 export type {
@@ -0,0 +1,48 @@
+/**
+ * Template Linting Rules - Computed Formulas
+ *
+ * Domain: validation/lint/rules
+ * Responsibility: Statically check computed-slot formulas so syntax, identifier,
+ * and type errors surface before a note is generated.
+ */
+
+import type { ContentItem } from '../../../derivation/types';
+import { checkFormula } from '../../../resolution/core/formula/checker';
+import type { TemplateLintIssue } from '../../types';
+import type { LintContext } from '../shared';
+import { buildTemplateLintIssue, reportLintIssue } from '../shared';
+
+type ReportFn = (issue: TemplateLintIssue) => void;
+
+/**
+ * Report formula issues for a computed slot as blocking lint errors.
+ */
+export function lintFormula(item: ContentItem, context: LintContext, report: ReportFn): void {
+  if (typeof item.formula !== 'string' || item.formula.trim() === '') {
+    reportLintIssue(
+      report,
+      buildTemplateLintIssue(
+        'formula.missing',
+        `Computed slot '${item.id}' has no formula.`,
+        'error',
+        context,
+        item.id
+      )
+    );
+    return;
+  }
+
+  const result = checkFormula(item.formula);
+  result.issues.forEach(issue => {
+    reportLintIssue(
+      report,
+      buildTemplateLintIssue(
+        issue.code,
+        `Formula for '${item.id}': ${issue.message}`,
+        'error',
+        context,
+        item.id
+      )
+    );
+  });
+}
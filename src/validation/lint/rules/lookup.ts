@@ -0,0 +1,46 @@
+/**
+ * Template Linting Rules - Lookup Pipelines
+ *
+ * Domain: validation/lint/rules
+ * Responsibility: Statically check lookup paths, fallback chains, and pipes so
+ * malformed lookups surface before a note is generated.
+ */
+
+import type { ContentItem } from '../../../derivation/types';
+import { checkLookup } from '../../../resolution/core/lookup/checker';
+import type { TemplateLintIssue } from '../../types';
+import type { LintContext } from '../shared';
+import { buildTemplateLintIssue, reportLintIssue } from '../shared';
+
+type ReportFn = (issue: TemplateLintIssue) => void;
+
+/**
+ * Report lookup issues for a lookup slot as blocking lint errors.
+ */
+export function lintLookup(item: ContentItem, context: LintContext, report: ReportFn): void {
+  const lookups = typeof item.lookup === 'string' ? [item.lookup] : item.lookup;
+
+  if (!Array.isArray(lookups) || lookups.length === 0) {
+    reportLintIssue(
+      report,
+      buildTemplateLintIssue(
+        'lookup.missing',
+        `Lookup slot '${item.id}' has no lookup path.`,
+        'error',
+        context,
+        item.id
+      )
+    );
+    return;
+  }
+
+  lookups.forEach((lookup, index) => {
+    const label = lookups.length > 1 ? `Lookup ${index + 1} for '${item.id}'` : `Lookup for '${item.id}'`;
+    checkLookup(lookup, { targetPath: item.targetPath }).forEach(issue => {
+      reportLintIssue(
+        report,
+        buildTemplateLintIssue(issue.code, `${label}: ${issue.message}`, 'error', context, item.id)
+      );
+    });
+  });
+}
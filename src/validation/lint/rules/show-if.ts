@@ -0,0 +1,129 @@
+/**
+ * Template Linting Rules - Conditional Rendering
+ *
+ * Domain: validation/lint/rules
+ * Responsibility: Check `showIf` conditions for formula errors and for payload
+ * paths the template never produces.
+ *
+ * SOR: A condition may only read paths that some content item writes
+ * (AI `outputPath` or non-AI `targetPath`), or their ancestors.
+ */
+
+import type { ContentItem, NoteTemplate } from '../../../derivation/types';
+import { checkFormula } from '../../../resolution/core/formula/checker';
+import type { TemplateLintIssue } from '../../types';
+import type { LintContext } from '../shared';
+import { buildTemplateLintIssue, reportLintIssue } from '../shared';
+
+type ReportFn = (issue: TemplateLintIssue) => void;
+
+/**
+ * Collect every render payload path the template writes, without array markers.
+ */
+export function collectPayloadPaths(template: NoteTemplate): Set<string> {
+  const paths = new Set<string>();
+
+  const visitItem = (item: ContentItem) => {
+    const path = item.slot === 'ai' ? item.outputPath : item.targetPath;
+    if (path) {
+      paths.add(normalizePath(path));
+    }
+    item.listItems?.forEach(visitItem);
+    item.tableMap?.forEach(visitItem);
+  };
+
+  const visitComponents = (components: NoteTemplate['layout']) => {
+    for (const component of components) {
+      component.content?.forEach(visitItem);
+      if (component.children) visitComponents(component.children);
+    }
+  };
+
+  visitComponents(template.layout);
+  return paths;
+}
+
+/**
+ * Report formula errors and unknown payload paths in a `showIf` condition.
+ */
+export function lintShowIf(
+  condition: string | undefined,
+  nodeId: string,
+  payloadPaths: Set<string>,
+  context: LintContext,
+  report: ReportFn
+): void {
+  if (condition === undefined) {
+    return;
+  }
+
+  const result = checkFormula(condition);
+  result.issues.forEach(issue => {
+    reportLintIssue(
+      report,
+      buildTemplateLintIssue(
+        issue.code.replace(/^formula\./, 'showIf.'),
+        `showIf for '${nodeId}': ${issue.message}`,
+        'error',
+        context,
+        nodeId
+      )
+    );
+  });
+
+  result.references.forEach(reference => {
+    if (!isKnownPath(normalizePath(reference), payloadPaths)) {
+      reportLintIssue(
+        report,
+        buildTemplateLintIssue(
+          'showIf.path.unknown',
+          `showIf for '${nodeId}' reads '${reference}', which no content item in this template produces.`,
+          'error',
+          context,
+          nodeId
+        )
+      );
+    }
+  });
+}
+
+/**
+ * Conditions are evaluated once per node, so list entries and table columns cannot carry them.
+ */
+export function lintNestedShowIf(item: ContentItem, context: LintContext, report: ReportFn): void {
+  if (item.showIf === undefined) {
+    return;
+  }
+
+  reportLintIssue(
+    report,
+    buildTemplateLintIssue(
+      'showIf.nested',
+      `showIf on '${item.id}' is not supported inside listItems or tableMap; put it on the parent content item or component.`,
+      'error',
+      context,
+      item.id
+    )
+  );
+}
+
+/** Drop array markers and indexes: "plan.meds[0].name" -> "plan.meds.name" */
+function normalizePath(path: string): string {
+  return path.replace(/\[['"]([^'"\]]+)['"]\]/g, '.$1').replace(/\[\d*\]/g, '');
+}
+
+function isKnownPath(path: string, payloadPaths: Set<string>): boolean {
+  if (payloadPaths.has(path)) {
+    return true;
+  }
+
+  const prefix = `${path}.`;
+  for (const known of payloadPaths) {
+    if (known.startsWith(prefix)) {
+      return true;
+    }
+  }
+
+  // String and array lengths are readable in formulas
+  return path.endsWith('.length') && isKnownPath(path.slice(0, -'.length'.length), payloadPaths);
+}
@@ -61,13 +61,12 @@ export function lintTableComponent(
  * Validate column mappings inside a tableMap definition.
  */
 export function lintTableMap(
-  tableMap: ContentItem[] | Record<string, ContentItem>,
+  cells: ContentItem[],
   component: Component,
   context: LintContext,
   report: ReportFn,
   lintContentItem: ContentItemLintFn
 ): void {
-  const cells = Array.isArray(tableMap) ? tableMap : Object.values(tableMap);
   const totalColumns = context.tableColumns?.length ?? 0;
   const columnCoverage = totalColumns > 0 ? Array(totalColumns).fill(false) : [];
 
@@ -5,7 +5,7 @@
  * Responsibility: Traverse template layout and delegate to specialised rule modules.
  *
  * SOR: Single entry point for template lint results.
- * SOD: Delegates to targeted rule helpers (AI deps, tables, style hints).
+ * SOD: Delegates to targeted rule helpers (AI deps, formulas, tables, style hints, showIf).
  * DI: Pure functions with no side effects; callers supply the template to analyse.
  */
 
@@ -16,6 +16,9 @@ import { lintAiSlot } from './rules/ai-slot';
 import { lintStyleHints } from './rules/style-hints';
 import { lintTableComponent, lintTableMap } from './rules/table';
 import { lintFormCollections } from './rules/forms';
+import { lintFormula } from './rules/formula';
+import { lintLookup } from './rules/lookup';
+import { collectPayloadPaths, lintNestedShowIf, lintShowIf } from './rules/show-if';
 
 /**
  * Produce lint findings for the supplied template.
@@ -30,6 +33,8 @@ export function lintNoteTemplate(template: NoteTemplate): TemplateLintResult {
 		issues.push(issue);
 	};
 
+	const payloadPaths = collectPayloadPaths(template);
+
 	const visitComponent = (component: Component, parentPath: string[]) => {
 		const componentPathParts = [...parentPath, component.id];
 		const componentPath = componentPathParts.join('.');
@@ -40,6 +45,8 @@ export function lintNoteTemplate(template: NoteTemplate): TemplateLintResult {
 			tableColumns: undefined,
 		};
 
+		lintShowIf(component.showIf, component.id, payloadPaths, context, report);
+
 		const previousColumns = context.tableColumns;
 
 		if (component.type === 'table') {
@@ -50,9 +57,10 @@ export function lintNoteTemplate(template: NoteTemplate): TemplateLintResult {
 		}
 
 		if (Array.isArray(component.content)) {
-			component.content.forEach(item =>
-				lintContentItem(item, component, context, report)
-			);
+			component.content.forEach(item => {
+				lintShowIf(item.showIf, item.id, payloadPaths, context, report);
+				lintContentItem(item, component, context, report);
+			});
 		}
 
 		if (Array.isArray(component.children)) {
@@ -85,6 +93,14 @@ function lintContentItem(
 		lintAiSlot(item, component, context, report);
 	}
 
+	if (item.slot === 'computed') {
+		lintFormula(item, context, report);
+	}
+
+	if (item.slot === 'lookup') {
+		lintLookup(item, context, report);
+	}
+
 	if (item.styleHints && typeof item.styleHints === 'object') {
 		lintStyleHints(
 			item.styleHints as Record<string, unknown>,
@@ -96,12 +112,14 @@ function lintContentItem(
 	}
 
 	if (Array.isArray(item.listItems)) {
-		item.listItems.forEach(nested =>
-			lintContentItem(nested, component, context, report)
-		);
+		item.listItems.forEach(nested => {
+			lintNestedShowIf(nested, context, report);
+			lintContentItem(nested, component, context, report);
+		});
 	}
 
 	if (item.tableMap) {
+		item.tableMap.forEach(column => lintNestedShowIf(column, context, report));
 		lintTableMap(item.tableMap, component, context, report, lintContentItem);
 	}
 }
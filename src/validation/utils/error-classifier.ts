@@ -47,3 +47,35 @@ function shouldDowngradeToWarning(message: ErrorObject): boolean {
 
   return SOFT_TEXT_KEYWORD_SET.has(message.keyword);
 }
+
+/**
+ * Resolve the output field a validation message points at, in dot notation.
+ *
+ * `required` and `additionalProperties` messages report the parent object, so
+ * the offending property name is appended. Array indices render as `[n]`.
+ *
+ * @param message - AJV validation message
+ * @returns Field path such as "plan.goals[0].text" (empty string for the root)
+ */
+export function resolveIssuePath(message: ErrorObject): string {
+  const segments = message.instancePath
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  const params = message.params as Record<string, unknown>;
+  const property =
+    message.keyword === 'required'
+      ? params.missingProperty
+      : message.keyword === 'additionalProperties'
+        ? params.additionalProperty
+        : undefined;
+  if (typeof property === 'string') {
+    segments.push(property);
+  }
+
+  return segments.reduce(
+    (path, segment) => (/^\d+$/.test(segment) ? `${path}[${segment}]` : path ? `${path}.${segment}` : segment),
+    ''
+  );
+}
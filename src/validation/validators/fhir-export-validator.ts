@@ -0,0 +1,29 @@
+import { makeAjvWithTextKeywords } from '../core/ajv-setup';
+import type { ValidationResult } from '../types';
+import schema from '../../schemas/fhir-note-export.schema.json';
+
+/**
+ * Validate a FHIR Note Export
+ *
+ * Checks the Composition, DocumentReference, and Provenance produced for a
+ * final note before they are filed back into an EHR:
+ * - Required elements and cardinality (status, type, author, content, agent)
+ * - Resource ids, dateTime/instant formats, and base64 attachment data
+ * - Section narratives wrapped in an XHTML div
+ *
+ * Structural only; terminology bindings and invariants are left to the EHR.
+ *
+ * @param doc - Unknown input to validate
+ * @returns ValidationResult with ok status and any errors
+ */
+export function validateFhirNoteExport(doc: unknown): ValidationResult {
+  const ajv = makeAjvWithTextKeywords();
+  const validate = ajv.compile(schema);
+  const ok = validate(doc);
+
+  return {
+    ok,
+    errors: validate.errors ?? [],
+    warnings: []
+  };
+}
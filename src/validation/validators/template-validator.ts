@@ -1,3 +1,5 @@
+import { upgradeOnLoad } from '../../migration/core/upgrade';
+import { TemplateMigrationError } from '../../migration/errors';
 import { makeAjvWithTextKeywords } from '../core/ajv-setup';
 import type { ValidationResult } from '../types';
 import schema from '../../schemas/note-template.schema.json';
@@ -11,13 +13,18 @@ import schema from '../../schemas/note-template.schema.json';
  * - Prompt configuration
  * - Layout structure with sections, subsections, and content slots
  *
+ * Templates written against an older schema version are upgraded (see
+ * src/migration) and the upgraded form is validated. When a migration fails
+ * the template is validated as written; loaders (registry, pipeline) report
+ * the migration failure itself.
+ *
  * @param doc - Unknown input to validate
  * @returns ValidationResult with ok status and any errors
  */
 export function validateNoteTemplate(doc: unknown): ValidationResult {
   const ajv = makeAjvWithTextKeywords();
   const validate = ajv.compile(schema);
-  const ok = validate(doc);
+  const ok = validate(loadForValidation(doc));
 
   return {
     ok,
@@ -25,3 +32,14 @@ export function validateNoteTemplate(doc: unknown): ValidationResult {
     warnings: []
   };
 }
+
+function loadForValidation(doc: unknown): unknown {
+  try {
+    return upgradeOnLoad(doc);
+  } catch (error) {
+    if (error instanceof TemplateMigrationError) {
+      return doc;
+    }
+    throw error;
+  }
+}